@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "DocumentSequenceType" AS ENUM ('INVOICE');
+
+-- CreateTable
+CREATE TABLE "DocumentSequence" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "type" "DocumentSequenceType" NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "nextNumber" INTEGER NOT NULL DEFAULT 1,
+    "padding" INTEGER NOT NULL DEFAULT 6,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentSequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentSequence_tenantId_type_key" ON "DocumentSequence"("tenantId", "type");
+
+-- AddForeignKey
+ALTER TABLE "DocumentSequence" ADD CONSTRAINT "DocumentSequence_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "ElectronicDocumentStatus" AS ENUM ('PENDING', 'SENT', 'ACCEPTED', 'REJECTED', 'ERROR');
+
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN     "dv" VARCHAR(2),
+ADD COLUMN     "nit" VARCHAR(20);
+
+-- CreateTable
+CREATE TABLE "ElectronicDocument" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "cufe" TEXT NOT NULL,
+    "xml" TEXT NOT NULL,
+    "environment" TEXT NOT NULL,
+    "status" "ElectronicDocumentStatus" NOT NULL DEFAULT 'PENDING',
+    "trackId" TEXT,
+    "responseMessage" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ElectronicDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ElectronicDocument_invoiceId_key" ON "ElectronicDocument"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "ElectronicDocument_tenantId_idx" ON "ElectronicDocument"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "ElectronicDocument_status_idx" ON "ElectronicDocument"("status");
+
+-- AddForeignKey
+ALTER TABLE "ElectronicDocument" ADD CONSTRAINT "ElectronicDocument_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ElectronicDocument" ADD CONSTRAINT "ElectronicDocument_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
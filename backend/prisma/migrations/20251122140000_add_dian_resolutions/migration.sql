@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "resolutionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "DianResolution" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "resolutionNumber" VARCHAR(30) NOT NULL,
+    "prefix" VARCHAR(4) NOT NULL,
+    "rangeFrom" INTEGER NOT NULL,
+    "rangeTo" INTEGER NOT NULL,
+    "nextNumber" INTEGER NOT NULL,
+    "validFrom" TIMESTAMP(3) NOT NULL,
+    "validTo" TIMESTAMP(3) NOT NULL,
+    "technicalKey" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DianResolution_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DianResolution_tenantId_resolutionNumber_prefix_key" ON "DianResolution"("tenantId", "resolutionNumber", "prefix");
+
+-- CreateIndex
+CREATE INDEX "DianResolution_tenantId_isActive_idx" ON "DianResolution"("tenantId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "Invoice_resolutionId_idx" ON "Invoice"("resolutionId");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_resolutionId_fkey" FOREIGN KEY ("resolutionId") REFERENCES "DianResolution"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DianResolution" ADD CONSTRAINT "DianResolution_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
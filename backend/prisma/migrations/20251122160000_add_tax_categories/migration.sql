@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "TaxCategory" AS ENUM ('STANDARD', 'REDUCED', 'EXEMPT', 'EXCLUDED');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "taxCategory" "TaxCategory" NOT NULL DEFAULT 'STANDARD';
+
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN "taxCategory" "TaxCategory" NOT NULL DEFAULT 'STANDARD';
+
+-- Clasificar los items existentes según la tarifa aplicada (antes el IVA se aplicaba al 19% o no se aplicaba)
+UPDATE "InvoiceItem" SET "taxCategory" = 'REDUCED' WHERE "taxRateApplied" = 5;
+UPDATE "InvoiceItem" SET "taxCategory" = 'EXCLUDED' WHERE "taxRateApplied" = 0;
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "StockMovementType" AS ENUM ('SALE', 'SALE_RETURN', 'PURCHASE', 'ADJUSTMENT', 'COUNT_ADJUSTMENT');
+
+-- CreateTable
+CREATE TABLE "StockMovement" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "type" "StockMovementType" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitCost" DECIMAL(18,2) NOT NULL,
+    "balance" INTEGER NOT NULL,
+    "userId" TEXT,
+    "invoiceId" TEXT,
+    "creditNoteId" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockMovement_tenantId_productId_createdAt_idx" ON "StockMovement"("tenantId", "productId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_invoiceId_idx" ON "StockMovement"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_creditNoteId_idx" ON "StockMovement"("creditNoteId");
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_creditNoteId_fkey" FOREIGN KEY ("creditNoteId") REFERENCES "CreditNote"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Saldo inicial del kardex: el stock actual de cada producto queda como primer movimiento
+INSERT INTO "StockMovement" ("id", "tenantId", "productId", "type", "quantity", "unitCost", "balance", "notes")
+SELECT 'sm' || md5(random()::text || "id"), "tenantId", "id", 'ADJUSTMENT', "stock", "cost", "stock", 'Saldo inicial del kardex'
+FROM "Product"
+WHERE "stock" <> 0;
@@ -0,0 +1,98 @@
+-- CreateEnum
+CREATE TYPE "SupplierBillStatus" AS ENUM ('OPEN', 'PAID');
+
+-- AlterTable
+ALTER TABLE "Supplier" ADD COLUMN     "currentBalance" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "supplierBillId" TEXT,
+ADD COLUMN     "supplierPaymentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SupplierBill" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "supplierId" TEXT NOT NULL,
+    "purchaseId" TEXT,
+    "billNumber" VARCHAR(50) NOT NULL,
+    "issueDate" TIMESTAMP(3) NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "subtotal" DECIMAL(18,2) NOT NULL,
+    "taxTotal" DECIMAL(18,2) NOT NULL,
+    "total" DECIMAL(18,2) NOT NULL,
+    "totalPaid" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "status" "SupplierBillStatus" NOT NULL DEFAULT 'OPEN',
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SupplierBill_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SupplierPayment" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "supplierBillId" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "method" "PaymentMethod" NOT NULL,
+    "paymentDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reference" TEXT,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SupplierPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SupplierBill_tenantId_status_dueDate_idx" ON "SupplierBill"("tenantId", "status", "dueDate");
+
+-- CreateIndex
+CREATE INDEX "SupplierBill_supplierId_idx" ON "SupplierBill"("supplierId");
+
+-- CreateIndex
+CREATE INDEX "SupplierBill_purchaseId_idx" ON "SupplierBill"("purchaseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SupplierBill_tenantId_supplierId_billNumber_key" ON "SupplierBill"("tenantId", "supplierId", "billNumber");
+
+-- CreateIndex
+CREATE INDEX "SupplierPayment_tenantId_idx" ON "SupplierPayment"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "SupplierPayment_supplierBillId_idx" ON "SupplierPayment"("supplierBillId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_supplierBillId_idx" ON "Transaction"("supplierBillId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_supplierPaymentId_idx" ON "Transaction"("supplierPaymentId");
+
+-- AddForeignKey
+ALTER TABLE "SupplierBill" ADD CONSTRAINT "SupplierBill_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SupplierBill" ADD CONSTRAINT "SupplierBill_purchaseId_fkey" FOREIGN KEY ("purchaseId") REFERENCES "Purchase"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SupplierBill" ADD CONSTRAINT "SupplierBill_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SupplierBill" ADD CONSTRAINT "SupplierBill_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SupplierPayment" ADD CONSTRAINT "SupplierPayment_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SupplierPayment" ADD CONSTRAINT "SupplierPayment_supplierBillId_fkey" FOREIGN KEY ("supplierBillId") REFERENCES "SupplierBill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SupplierPayment" ADD CONSTRAINT "SupplierPayment_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_supplierBillId_fkey" FOREIGN KEY ("supplierBillId") REFERENCES "SupplierBill"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_supplierPaymentId_fkey" FOREIGN KEY ("supplierPaymentId") REFERENCES "SupplierPayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN     "unitCost" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+-- Las ventas anteriores no guardaron su costo: se toma el costo actual del producto como mejor estimado
+UPDATE "InvoiceItem" AS ii
+SET "unitCost" = p."cost"
+FROM "Product" AS p
+WHERE ii."productId" = p."id";
@@ -0,0 +1,85 @@
+-- CreateEnum
+CREATE TYPE "InventoryCountStatus" AS ENUM ('OPEN', 'POSTED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "DocumentSequenceType" ADD VALUE 'INVENTORY_COUNT';
+
+-- AlterTable
+ALTER TABLE "StockMovement" ADD COLUMN     "inventoryCountId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "inventoryCountId" TEXT;
+
+-- CreateTable
+CREATE TABLE "InventoryCount" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "status" "InventoryCountStatus" NOT NULL DEFAULT 'OPEN',
+    "notes" TEXT,
+    "openedById" TEXT,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "postedById" TEXT,
+    "postedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InventoryCount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InventoryCountItem" (
+    "id" TEXT NOT NULL,
+    "countId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "countedQuantity" INTEGER NOT NULL,
+    "expectedStock" INTEGER,
+    "unitCost" DECIMAL(18,2),
+    "countedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InventoryCountItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryCount_tenantId_status_idx" ON "InventoryCount"("tenantId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryCount_tenantId_number_key" ON "InventoryCount"("tenantId", "number");
+
+-- CreateIndex
+CREATE INDEX "InventoryCountItem_productId_idx" ON "InventoryCountItem"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryCountItem_countId_productId_key" ON "InventoryCountItem"("countId", "productId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_inventoryCountId_idx" ON "StockMovement"("inventoryCountId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_inventoryCountId_idx" ON "Transaction"("inventoryCountId");
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_inventoryCountId_fkey" FOREIGN KEY ("inventoryCountId") REFERENCES "InventoryCount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_inventoryCountId_fkey" FOREIGN KEY ("inventoryCountId") REFERENCES "InventoryCount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCount" ADD CONSTRAINT "InventoryCount_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCount" ADD CONSTRAINT "InventoryCount_openedById_fkey" FOREIGN KEY ("openedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCount" ADD CONSTRAINT "InventoryCount_postedById_fkey" FOREIGN KEY ("postedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCountItem" ADD CONSTRAINT "InventoryCountItem_countId_fkey" FOREIGN KEY ("countId") REFERENCES "InventoryCount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCountItem" ADD CONSTRAINT "InventoryCountItem_countedById_fkey" FOREIGN KEY ("countedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCountItem" ADD CONSTRAINT "InventoryCountItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,183 @@
+-- AlterEnum
+ALTER TYPE "DocumentSequenceType" ADD VALUE 'STOCK_TRANSFER';
+
+-- AlterEnum
+ALTER TYPE "StockMovementType" ADD VALUE 'TRANSFER';
+
+-- AlterTable
+ALTER TABLE "CashRegister" ADD COLUMN     "locationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "InventoryCount" ADD COLUMN     "locationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "locationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Purchase" ADD COLUMN     "locationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "StockMovement" ADD COLUMN     "locationId" TEXT,
+ADD COLUMN     "stockTransferId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Location" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "address" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Location_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductStock" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductStock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StockTransfer" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "fromLocationId" TEXT NOT NULL,
+    "toLocationId" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StockTransferItem" (
+    "id" TEXT NOT NULL,
+    "transferId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "StockTransferItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Location_tenantId_idx" ON "Location"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Location_tenantId_name_key" ON "Location"("tenantId", "name");
+
+-- CreateIndex
+CREATE INDEX "ProductStock_locationId_idx" ON "ProductStock"("locationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductStock_productId_locationId_key" ON "ProductStock"("productId", "locationId");
+
+-- CreateIndex
+CREATE INDEX "StockTransfer_tenantId_createdAt_idx" ON "StockTransfer"("tenantId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StockTransfer_tenantId_number_key" ON "StockTransfer"("tenantId", "number");
+
+-- CreateIndex
+CREATE INDEX "StockTransferItem_transferId_idx" ON "StockTransferItem"("transferId");
+
+-- CreateIndex
+CREATE INDEX "StockTransferItem_productId_idx" ON "StockTransferItem"("productId");
+
+-- CreateIndex
+CREATE INDEX "CashRegister_locationId_idx" ON "CashRegister"("locationId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_locationId_idx" ON "StockMovement"("locationId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_stockTransferId_idx" ON "StockMovement"("stockTransferId");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_stockTransferId_fkey" FOREIGN KEY ("stockTransferId") REFERENCES "StockTransfer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Purchase" ADD CONSTRAINT "Purchase_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCount" ADD CONSTRAINT "InventoryCount_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Location" ADD CONSTRAINT "Location_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductStock" ADD CONSTRAINT "ProductStock_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductStock" ADD CONSTRAINT "ProductStock_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransfer" ADD CONSTRAINT "StockTransfer_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransfer" ADD CONSTRAINT "StockTransfer_fromLocationId_fkey" FOREIGN KEY ("fromLocationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransfer" ADD CONSTRAINT "StockTransfer_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransfer" ADD CONSTRAINT "StockTransfer_toLocationId_fkey" FOREIGN KEY ("toLocationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransferItem" ADD CONSTRAINT "StockTransferItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransferItem" ADD CONSTRAINT "StockTransferItem_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "StockTransfer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashRegister" ADD CONSTRAINT "CashRegister_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Cada tenant arranca con una bodega principal que recibe todo el stock existente
+INSERT INTO "Location" ("id", "tenantId", "name", "isDefault", "isActive", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, t."id", 'Principal', true, true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "Tenant" AS t;
+
+INSERT INTO "ProductStock" ("id", "productId", "locationId", "quantity", "updatedAt")
+SELECT gen_random_uuid()::text, p."id", l."id", p."stock", CURRENT_TIMESTAMP
+FROM "Product" AS p
+JOIN "Location" AS l ON l."tenantId" = p."tenantId" AND l."isDefault" = true;
+
+UPDATE "CashRegister" AS c
+SET "locationId" = l."id"
+FROM "Location" AS l
+WHERE l."tenantId" = c."tenantId" AND l."isDefault" = true;
+
+UPDATE "StockMovement" AS m
+SET "locationId" = l."id"
+FROM "Location" AS l
+WHERE l."tenantId" = m."tenantId" AND l."isDefault" = true;
+
+UPDATE "Invoice" AS i
+SET "locationId" = l."id"
+FROM "Location" AS l
+WHERE l."tenantId" = i."tenantId" AND l."isDefault" = true;
+
+UPDATE "Purchase" AS p
+SET "locationId" = l."id"
+FROM "Location" AS l
+WHERE l."tenantId" = p."tenantId" AND l."isDefault" = true;
+
+UPDATE "InventoryCount" AS c
+SET "locationId" = l."id"
+FROM "Location" AS l
+WHERE l."tenantId" = c."tenantId" AND l."isDefault" = true;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "UnitOfMeasure" AS ENUM ('UNIT', 'KG', 'G', 'L', 'M', 'BOX');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "purchaseUnit" "UnitOfMeasure",
+ADD COLUMN     "unit" "UnitOfMeasure" NOT NULL DEFAULT 'UNIT',
+ADD COLUMN     "unitsPerPurchaseUnit" DECIMAL(18,4) NOT NULL DEFAULT 1,
+ALTER COLUMN "stock" SET DATA TYPE DECIMAL(18,4);
+
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN     "unit" "UnitOfMeasure" NOT NULL DEFAULT 'UNIT';
+
+-- AlterTable
+ALTER TABLE "PurchaseItem" ADD COLUMN     "conversionFactor" DECIMAL(18,4) NOT NULL DEFAULT 1,
+ADD COLUMN     "unit" "UnitOfMeasure" NOT NULL DEFAULT 'UNIT',
+ALTER COLUMN "quantity" SET DATA TYPE DECIMAL(18,4);
+
+-- AlterTable
+ALTER TABLE "StockMovement" ALTER COLUMN "quantity" SET DATA TYPE DECIMAL(18,4),
+ALTER COLUMN "balance" SET DATA TYPE DECIMAL(18,4);
+
+-- AlterTable
+ALTER TABLE "InventoryCountItem" ALTER COLUMN "countedQuantity" SET DATA TYPE DECIMAL(18,4),
+ALTER COLUMN "expectedStock" SET DATA TYPE DECIMAL(18,4);
+
+-- AlterTable
+ALTER TABLE "ProductStock" ALTER COLUMN "quantity" SET DATA TYPE DECIMAL(18,4);
+
+-- AlterTable
+ALTER TABLE "StockTransferItem" ALTER COLUMN "quantity" SET DATA TYPE DECIMAL(18,4);
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "BarcodeType" AS ENUM ('EAN13', 'UPC', 'INTERNAL', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "ProductBarcode" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" "BarcodeType" NOT NULL DEFAULT 'OTHER',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductBarcode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductBarcode_productId_idx" ON "ProductBarcode"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductBarcode_tenantId_code_key" ON "ProductBarcode"("tenantId", "code");
+
+-- AddForeignKey
+ALTER TABLE "ProductBarcode" ADD CONSTRAINT "ProductBarcode_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductBarcode" ADD CONSTRAINT "ProductBarcode_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
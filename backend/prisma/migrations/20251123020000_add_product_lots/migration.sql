@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "trackLots" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "PurchaseItem" ADD COLUMN     "expiryDate" TIMESTAMP(3),
+ADD COLUMN     "lotNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "ProductLot" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "lotNumber" TEXT NOT NULL,
+    "expiryDate" TIMESTAMP(3),
+    "quantity" DECIMAL(18,4) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductLot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StockMovementLot" (
+    "id" TEXT NOT NULL,
+    "movementId" TEXT NOT NULL,
+    "lotId" TEXT NOT NULL,
+    "quantity" DECIMAL(18,4) NOT NULL,
+
+    CONSTRAINT "StockMovementLot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductLot_tenantId_expiryDate_idx" ON "ProductLot"("tenantId", "expiryDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductLot_productId_locationId_lotNumber_key" ON "ProductLot"("productId", "locationId", "lotNumber");
+
+-- CreateIndex
+CREATE INDEX "StockMovementLot_movementId_idx" ON "StockMovementLot"("movementId");
+
+-- CreateIndex
+CREATE INDEX "StockMovementLot_lotId_idx" ON "StockMovementLot"("lotId");
+
+-- AddForeignKey
+ALTER TABLE "ProductLot" ADD CONSTRAINT "ProductLot_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductLot" ADD CONSTRAINT "ProductLot_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductLot" ADD CONSTRAINT "ProductLot_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovementLot" ADD CONSTRAINT "StockMovementLot_movementId_fkey" FOREIGN KEY ("movementId") REFERENCES "StockMovement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovementLot" ADD CONSTRAINT "StockMovementLot_lotId_fkey" FOREIGN KEY ("lotId") REFERENCES "ProductLot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
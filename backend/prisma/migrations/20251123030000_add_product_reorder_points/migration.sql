@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "maxStock" DECIMAL(18,4),
+ADD COLUMN     "minStock" DECIMAL(18,4),
+ADD COLUMN     "preferredSupplierId" TEXT,
+ADD COLUMN     "reorderQuantity" DECIMAL(18,4);
+
+-- CreateIndex
+CREATE INDEX "Product_preferredSupplierId_idx" ON "Product"("preferredSupplierId");
+
+-- AddForeignKey
+ALTER TABLE "Product" ADD CONSTRAINT "Product_preferredSupplierId_fkey" FOREIGN KEY ("preferredSupplierId") REFERENCES "Supplier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
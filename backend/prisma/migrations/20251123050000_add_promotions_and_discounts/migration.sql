@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "PromotionType" AS ENUM ('PERCENTAGE', 'BUY_X_GET_Y');
+
+-- CreateEnum
+CREATE TYPE "DiscountType" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "discountTotal" DECIMAL(18,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "discountType" "DiscountType",
+ADD COLUMN     "discountValue" DECIMAL(18,2);
+
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN     "discountAmount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "promotionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Promotion" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "PromotionType" NOT NULL,
+    "productId" TEXT,
+    "categoryId" TEXT,
+    "percentage" DECIMAL(5,2),
+    "buyQuantity" INTEGER,
+    "getQuantity" INTEGER,
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "daysOfWeek" INTEGER[],
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Promotion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InvoiceItem_promotionId_idx" ON "InvoiceItem"("promotionId");
+
+-- CreateIndex
+CREATE INDEX "Promotion_tenantId_idx" ON "Promotion"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "Promotion_productId_idx" ON "Promotion"("productId");
+
+-- CreateIndex
+CREATE INDEX "Promotion_categoryId_idx" ON "Promotion"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceItem" ADD CONSTRAINT "InvoiceItem_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promotion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Promotion" ADD CONSTRAINT "Promotion_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Promotion" ADD CONSTRAINT "Promotion_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Promotion" ADD CONSTRAINT "Promotion_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ProductCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
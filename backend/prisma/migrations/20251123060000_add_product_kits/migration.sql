@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "isKit" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ProductKitComponent" (
+    "id" TEXT NOT NULL,
+    "kitId" TEXT NOT NULL,
+    "componentId" TEXT NOT NULL,
+    "quantity" DECIMAL(18,4) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductKitComponent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InvoiceItemComponent" (
+    "id" TEXT NOT NULL,
+    "invoiceItemId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" DECIMAL(18,4) NOT NULL,
+    "unitCost" DECIMAL(18,2) NOT NULL DEFAULT 0,
+
+    CONSTRAINT "InvoiceItemComponent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductKitComponent_kitId_componentId_key" ON "ProductKitComponent"("kitId", "componentId");
+
+-- CreateIndex
+CREATE INDEX "ProductKitComponent_componentId_idx" ON "ProductKitComponent"("componentId");
+
+-- CreateIndex
+CREATE INDEX "InvoiceItemComponent_invoiceItemId_idx" ON "InvoiceItemComponent"("invoiceItemId");
+
+-- CreateIndex
+CREATE INDEX "InvoiceItemComponent_productId_idx" ON "InvoiceItemComponent"("productId");
+
+-- AddForeignKey
+ALTER TABLE "ProductKitComponent" ADD CONSTRAINT "ProductKitComponent_kitId_fkey" FOREIGN KEY ("kitId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductKitComponent" ADD CONSTRAINT "ProductKitComponent_componentId_fkey" FOREIGN KEY ("componentId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceItemComponent" ADD CONSTRAINT "InvoiceItemComponent_invoiceItemId_fkey" FOREIGN KEY ("invoiceItemId") REFERENCES "InvoiceItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceItemComponent" ADD CONSTRAINT "InvoiceItemComponent_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
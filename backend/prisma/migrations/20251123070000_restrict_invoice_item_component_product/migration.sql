@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "InvoiceItemComponent" DROP CONSTRAINT "InvoiceItemComponent_productId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "InvoiceItemComponent" ADD CONSTRAINT "InvoiceItemComponent_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
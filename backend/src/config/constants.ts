@@ -2,12 +2,85 @@
  * Constantes de configuración de la aplicación
  */
 
-// Tasa de IVA (19% en Colombia)
-export const IVA_RATE = 0.19;
+// Tarifa de IVA (%) de cada categoría tributaria de producto en Colombia
+// EXEMPT (exento) y EXCLUDED (excluido) no generan IVA, pero solo los exentos se reportan a la DIAN con tarifa 0%
+export const TAX_CATEGORY_RATES = {
+  STANDARD: 19, // Tarifa general
+  REDUCED: 5, // Tarifa diferencial
+  EXEMPT: 0,
+  EXCLUDED: 0
+} as const;
+
+// Unidades de medida de producto: las que admiten fracciones se pueden vender por peso, volumen o longitud
+// (0,5 kg de queso, 2,75 m de cable); unidades y cajas solo en cantidades enteras
+export const UNIT_OF_MEASURE_FRACTIONAL = {
+  UNIT: false,
+  KG: true,
+  G: true,
+  L: true,
+  M: true,
+  BOX: false
+} as const;
+
+// Decimales con que se guardan cantidades y existencias (Decimal(18, 4))
+export const QUANTITY_DECIMALS = 4;
+
+// Prefijo GS1 de circulación restringida (20-29) de los códigos de barras internos: 29 + 10 dígitos + control
+export const INTERNAL_BARCODE_PREFIX = '29';
+
+// Hoja de etiquetas de código de barras: A4 con 3 columnas x 7 filas (63,5 x 38,1 mm)
+export const BARCODE_LABEL_SHEET = {
+  columns: 3,
+  rows: 7,
+  maxLabels: 500 // Máximo de etiquetas por impresión
+} as const;
 
 // Zona horaria de Colombia
 export const TIMEZONE_COLOMBIA = 'America/Bogota';
 
 // Otros valores de configuración
+// Punto de reorden de los productos que no tienen su propio stock mínimo
 export const LOW_STOCK_THRESHOLD = 5;
 
+// Sugerencia de compra: días de ventas recientes para calcular la rotación y días de venta que debe cubrir el pedido
+export const REORDER_SALES_WINDOW_DAYS = 30;
+export const REORDER_COVERAGE_DAYS = 30;
+
+// Días hacia adelante que cubre la alerta de lotes próximos a vencer
+export const EXPIRY_WARNING_DAYS = 30;
+
+// Máximo de filas por archivo en la importación masiva de productos
+export const PRODUCT_IMPORT_MAX_ROWS = 5000;
+
+// Cuentas contables (PUC Colombia) usadas en los asientos automáticos
+export const ACCOUNT_CODES = {
+  CASH: '110505', // Caja general
+  BANK: '111005', // Bancos - Moneda nacional
+  RECEIVABLES: '130505', // Clientes nacionales
+  INVENTORY: '143505', // Mercancías no fabricadas por la empresa
+  PAYABLES: '220505', // Proveedores nacionales
+  SALES_REVENUE: '413595', // Comercio al por mayor y al por menor - Otras ventas
+  SALES_RETURNS: '417505', // Devoluciones en ventas - Comercio al por mayor y al por menor
+  VAT_PAYABLE: '240805', // IVA generado por pagar
+  VAT_DEDUCTIBLE: '240810', // IVA descontable
+  INVENTORY_SHRINKAGE: '529595', // Gastos diversos - Otros (faltantes de inventario)
+  INVENTORY_SURPLUS: '429595' // Ingresos diversos - Otros (sobrantes de inventario)
+} as const;
+
+// Configuración por defecto de la numeración de documentos por tenant
+export const DOCUMENT_SEQUENCE_DEFAULTS = {
+  INVOICE: { prefix: 'FV', padding: 6 }, // Factura de venta: FV000001
+  CREDIT_NOTE: { prefix: 'NC', padding: 6 }, // Nota crédito: NC000001
+  PURCHASE: { prefix: 'CP', padding: 6 }, // Comprobante de compra (recepción de mercancía): CP000001
+  INVENTORY_COUNT: { prefix: 'TF', padding: 6 }, // Toma física de inventario: TF000001
+  STOCK_TRANSFER: { prefix: 'TR', padding: 6 } // Traslado entre bodegas: TR000001
+} as const;
+
+// Umbrales de alerta de la resolución de facturación DIAN activa
+export const RESOLUTION_WARNING_THRESHOLDS = {
+  remainingNumbers: 100, // Alertar cuando queden menos consecutivos autorizados
+  remainingDays: 30 // Alertar cuando falten menos días para el vencimiento
+} as const;
+
+// Prefijo del número temporal de las facturas en borrador (el consecutivo se asigna al emitirlas)
+export const DRAFT_NUMBER_PREFIX = 'BORRADOR-';
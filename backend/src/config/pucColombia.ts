@@ -0,0 +1,132 @@
+/**
+ * Plan Único de Cuentas (PUC) para comerciantes - Decreto 2650 de 1993
+ * Catálogo base con el que se crea el plan de cuentas de cada tenant.
+ * La clase se toma del primer dígito y la cuenta padre del prefijo del código
+ * (1 dígito clase, 2 grupo, 4 cuenta, 6 subcuenta).
+ */
+
+export interface PucAccount {
+  code: string;
+  name: string;
+  nature: 'DEBIT' | 'CREDIT';
+}
+
+export const PUC_ACCOUNTS: PucAccount[] = [
+  // Clase 1 - Activo
+  { code: '1', name: 'Activo', nature: 'DEBIT' },
+  { code: '11', name: 'Disponible', nature: 'DEBIT' },
+  { code: '1105', name: 'Caja', nature: 'DEBIT' },
+  { code: '110505', name: 'Caja general', nature: 'DEBIT' },
+  { code: '110510', name: 'Cajas menores', nature: 'DEBIT' },
+  { code: '1110', name: 'Bancos', nature: 'DEBIT' },
+  { code: '111005', name: 'Moneda nacional', nature: 'DEBIT' },
+  { code: '1120', name: 'Cuentas de ahorro', nature: 'DEBIT' },
+  { code: '112005', name: 'Bancos', nature: 'DEBIT' },
+  { code: '13', name: 'Deudores', nature: 'DEBIT' },
+  { code: '1305', name: 'Clientes', nature: 'DEBIT' },
+  { code: '130505', name: 'Nacionales', nature: 'DEBIT' },
+  { code: '1355', name: 'Anticipo de impuestos y contribuciones o saldos a favor', nature: 'DEBIT' },
+  { code: '135515', name: 'Retención en la fuente', nature: 'DEBIT' },
+  { code: '135517', name: 'Impuesto a las ventas retenido', nature: 'DEBIT' },
+  { code: '1380', name: 'Deudores varios', nature: 'DEBIT' },
+  { code: '138095', name: 'Otros', nature: 'DEBIT' },
+  { code: '1399', name: 'Provisiones', nature: 'CREDIT' },
+  { code: '139905', name: 'Clientes', nature: 'CREDIT' },
+  { code: '14', name: 'Inventarios', nature: 'DEBIT' },
+  { code: '1435', name: 'Mercancías no fabricadas por la empresa', nature: 'DEBIT' },
+  { code: '143505', name: 'Mercancías no fabricadas por la empresa', nature: 'DEBIT' },
+  { code: '15', name: 'Propiedades, planta y equipo', nature: 'DEBIT' },
+  { code: '1524', name: 'Equipo de oficina', nature: 'DEBIT' },
+  { code: '152405', name: 'Muebles y enseres', nature: 'DEBIT' },
+  { code: '1528', name: 'Equipo de computación y comunicación', nature: 'DEBIT' },
+  { code: '152805', name: 'Equipos de procesamiento de datos', nature: 'DEBIT' },
+  { code: '1592', name: 'Depreciación acumulada', nature: 'CREDIT' },
+  { code: '159215', name: 'Equipo de oficina', nature: 'CREDIT' },
+  { code: '159220', name: 'Equipo de computación y comunicación', nature: 'CREDIT' },
+
+  // Clase 2 - Pasivo
+  { code: '2', name: 'Pasivo', nature: 'CREDIT' },
+  { code: '21', name: 'Obligaciones financieras', nature: 'CREDIT' },
+  { code: '2105', name: 'Bancos nacionales', nature: 'CREDIT' },
+  { code: '210505', name: 'Sobregiros', nature: 'CREDIT' },
+  { code: '22', name: 'Proveedores', nature: 'CREDIT' },
+  { code: '2205', name: 'Nacionales', nature: 'CREDIT' },
+  { code: '220505', name: 'Proveedores nacionales', nature: 'CREDIT' },
+  { code: '23', name: 'Cuentas por pagar', nature: 'CREDIT' },
+  { code: '2335', name: 'Costos y gastos por pagar', nature: 'CREDIT' },
+  { code: '233595', name: 'Otros', nature: 'CREDIT' },
+  { code: '2365', name: 'Retención en la fuente', nature: 'CREDIT' },
+  { code: '236540', name: 'Compras', nature: 'CREDIT' },
+  { code: '2367', name: 'Impuesto a las ventas retenido', nature: 'CREDIT' },
+  { code: '236705', name: 'Impuesto a las ventas retenido', nature: 'CREDIT' },
+  { code: '24', name: 'Impuestos, gravámenes y tasas', nature: 'CREDIT' },
+  { code: '2408', name: 'Impuesto sobre las ventas por pagar', nature: 'CREDIT' },
+  { code: '240805', name: 'IVA generado', nature: 'CREDIT' },
+  { code: '240810', name: 'IVA descontable', nature: 'DEBIT' },
+  { code: '25', name: 'Obligaciones laborales', nature: 'CREDIT' },
+  { code: '2505', name: 'Salarios por pagar', nature: 'CREDIT' },
+  { code: '250505', name: 'Salarios por pagar', nature: 'CREDIT' },
+  { code: '28', name: 'Otros pasivos', nature: 'CREDIT' },
+  { code: '2805', name: 'Anticipos y avances recibidos', nature: 'CREDIT' },
+  { code: '280505', name: 'De clientes', nature: 'CREDIT' },
+
+  // Clase 3 - Patrimonio
+  { code: '3', name: 'Patrimonio', nature: 'CREDIT' },
+  { code: '31', name: 'Capital social', nature: 'CREDIT' },
+  { code: '3105', name: 'Capital suscrito y pagado', nature: 'CREDIT' },
+  { code: '310505', name: 'Capital autorizado', nature: 'CREDIT' },
+  { code: '36', name: 'Resultados del ejercicio', nature: 'CREDIT' },
+  { code: '3605', name: 'Utilidad del ejercicio', nature: 'CREDIT' },
+  { code: '360505', name: 'Utilidad del ejercicio', nature: 'CREDIT' },
+  { code: '3610', name: 'Pérdida del ejercicio', nature: 'DEBIT' },
+  { code: '361005', name: 'Pérdida del ejercicio', nature: 'DEBIT' },
+  { code: '37', name: 'Resultados de ejercicios anteriores', nature: 'CREDIT' },
+  { code: '3705', name: 'Utilidades acumuladas', nature: 'CREDIT' },
+  { code: '370505', name: 'Utilidades acumuladas', nature: 'CREDIT' },
+
+  // Clase 4 - Ingresos
+  { code: '4', name: 'Ingresos', nature: 'CREDIT' },
+  { code: '41', name: 'Operacionales', nature: 'CREDIT' },
+  { code: '4135', name: 'Comercio al por mayor y al por menor', nature: 'CREDIT' },
+  { code: '413595', name: 'Venta de otros productos', nature: 'CREDIT' },
+  { code: '4175', name: 'Devoluciones en ventas (DB)', nature: 'DEBIT' },
+  { code: '417505', name: 'Comercio al por mayor y al por menor', nature: 'DEBIT' },
+  { code: '42', name: 'No operacionales', nature: 'CREDIT' },
+  { code: '4210', name: 'Financieros', nature: 'CREDIT' },
+  { code: '421005', name: 'Intereses', nature: 'CREDIT' },
+  { code: '421040', name: 'Descuentos comerciales condicionados', nature: 'CREDIT' },
+  { code: '4295', name: 'Diversos', nature: 'CREDIT' },
+  { code: '429595', name: 'Otros', nature: 'CREDIT' },
+
+  // Clase 5 - Gastos
+  { code: '5', name: 'Gastos', nature: 'DEBIT' },
+  { code: '51', name: 'Operacionales de administración', nature: 'DEBIT' },
+  { code: '5105', name: 'Gastos de personal', nature: 'DEBIT' },
+  { code: '510506', name: 'Sueldos', nature: 'DEBIT' },
+  { code: '5120', name: 'Arrendamientos', nature: 'DEBIT' },
+  { code: '512010', name: 'Construcciones y edificaciones', nature: 'DEBIT' },
+  { code: '5135', name: 'Servicios', nature: 'DEBIT' },
+  { code: '513525', name: 'Acueducto y alcantarillado', nature: 'DEBIT' },
+  { code: '513530', name: 'Energía eléctrica', nature: 'DEBIT' },
+  { code: '513535', name: 'Teléfono', nature: 'DEBIT' },
+  { code: '5195', name: 'Diversos', nature: 'DEBIT' },
+  { code: '519595', name: 'Otros', nature: 'DEBIT' },
+  { code: '52', name: 'Operacionales de ventas', nature: 'DEBIT' },
+  { code: '5295', name: 'Diversos', nature: 'DEBIT' },
+  { code: '529595', name: 'Otros', nature: 'DEBIT' },
+  { code: '53', name: 'No operacionales', nature: 'DEBIT' },
+  { code: '5305', name: 'Financieros', nature: 'DEBIT' },
+  { code: '530505', name: 'Gastos bancarios', nature: 'DEBIT' },
+  { code: '530535', name: 'Descuentos comerciales condicionados', nature: 'DEBIT' },
+
+  // Clase 6 - Costos de ventas
+  { code: '6', name: 'Costos de ventas', nature: 'DEBIT' },
+  { code: '61', name: 'Costo de ventas y de prestación de servicios', nature: 'DEBIT' },
+  { code: '6135', name: 'Comercio al por mayor y al por menor', nature: 'DEBIT' },
+  { code: '613595', name: 'Venta de otros productos', nature: 'DEBIT' },
+  { code: '62', name: 'Compras', nature: 'DEBIT' },
+  { code: '6205', name: 'De mercancías', nature: 'DEBIT' },
+  { code: '620505', name: 'De mercancías', nature: 'DEBIT' },
+  { code: '6225', name: 'Devoluciones en compras (CR)', nature: 'CREDIT' },
+  { code: '622505', name: 'De mercancías', nature: 'CREDIT' }
+];
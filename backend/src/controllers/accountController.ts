@@ -0,0 +1,193 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+
+import '../types/express';
+import * as AccountService from '../services/accountService';
+
+class AccountController {
+  static async getAllAccounts(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { includeInactive, class: accountClass, search } = req.query;
+
+      const accounts = await AccountService.getAllAccounts(tenantId, {
+        includeInactive: includeInactive === 'true',
+        accountClass: accountClass !== undefined ? Number(accountClass) : undefined,
+        search: typeof search === 'string' ? search : undefined
+      });
+      res.status(200).json(accounts);
+    } catch (error) {
+      AccountController.handleError(res, error);
+    }
+  }
+
+  static async getAccountById(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const account = await AccountService.getAccountById(id, tenantId);
+      if (!account) {
+        res.status(404).json({ message: 'Cuenta contable no encontrada' });
+        return;
+      }
+      res.status(200).json(account);
+    } catch (error) {
+      AccountController.handleError(res, error);
+    }
+  }
+
+  static async createAccount(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { code, name, nature, parentCode, isActive } = req.body;
+
+      const accountData: AccountService.CreateAccountInput = {
+        code: code !== undefined && code !== null ? String(code) : '',
+        name,
+        nature,
+        parentCode: parentCode ? String(parentCode) : null,
+        isActive: isActive !== undefined ? Boolean(isActive) : true
+      };
+
+      const account = await AccountService.createAccount(accountData, tenantId);
+      res.status(201).json(account);
+    } catch (error) {
+      AccountController.handleError(res, error);
+    }
+  }
+
+  static async updateAccount(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { name, nature, isActive } = req.body;
+
+      const updateData: AccountService.UpdateAccountInput = {};
+
+      if (name !== undefined) updateData.name = String(name);
+      if (nature !== undefined) updateData.nature = nature;
+      if (isActive !== undefined) updateData.isActive = Boolean(isActive);
+
+      const account = await AccountService.updateAccount(id, updateData, tenantId);
+      res.status(200).json(account);
+    } catch (error) {
+      AccountController.handleError(res, error);
+    }
+  }
+
+  static async deleteAccount(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      await AccountService.deleteAccount(id, tenantId);
+      res.status(204).send();
+    } catch (error) {
+      AccountController.handleError(res, error);
+    }
+  }
+
+  static async seedAccounts(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const created = await AccountService.seedChartOfAccounts(tenantId);
+      res.status(200).json({
+        message: `Plan de cuentas actualizado con el PUC: ${created} cuentas creadas`,
+        created
+      });
+    } catch (error) {
+      AccountController.handleError(res, error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      switch (error.code) {
+        case 'P2002':
+          // Violación de constraint único
+          res.status(400).json({
+            message: 'Ya existe una cuenta con este código',
+            code: error.code
+          });
+          return;
+        case 'P2025':
+          // Registro no encontrado
+          res.status(404).json({
+            message: 'Cuenta contable no encontrada',
+            code: error.code
+          });
+          return;
+        default:
+          res.status(400).json({
+            message: 'Error de validación en la base de datos',
+            code: error.code
+          });
+          return;
+      }
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      if (error.message.includes('no encontrada')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requerido') ||
+        error.message.includes('inválid') ||
+        error.message.includes('Ya existe') ||
+        error.message.includes('No se puede') ||
+        error.message.includes('no pertenece');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [AccountController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default AccountController;
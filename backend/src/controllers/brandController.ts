@@ -0,0 +1,123 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+
+import '../types/express';
+import * as BrandService from '../services/brandService';
+
+class BrandController {
+  static async getBrands(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const brands = await BrandService.getBrands(tenantId, {
+        includeInactive: req.query.includeInactive === 'true'
+      });
+      res.status(200).json(brands);
+    } catch (error) {
+      BrandController.handleError(res, error);
+    }
+  }
+
+  static async createBrand(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { name } = req.body;
+      const brand = await BrandService.createBrand({
+        name: name !== undefined && name !== null ? String(name) : undefined
+      }, tenantId);
+      res.status(201).json(brand);
+    } catch (error) {
+      BrandController.handleError(res, error);
+    }
+  }
+
+  static async updateBrand(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { name, isActive } = req.body;
+      const brand = await BrandService.updateBrand(id, {
+        name: name !== undefined && name !== null ? String(name) : undefined,
+        isActive: typeof isActive === 'boolean' ? isActive : undefined
+      }, tenantId);
+      res.status(200).json(brand);
+    } catch (error) {
+      BrandController.handleError(res, error);
+    }
+  }
+
+  static async deleteBrand(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      await BrandService.deleteBrand(id, tenantId);
+      res.status(204).send();
+    } catch (error) {
+      BrandController.handleError(res, error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      res.status(400).json({
+        message: 'Error de validación en la base de datos',
+        code: error.code
+      });
+      return;
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      if (error.message.includes('no encontrad')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+      if (error.message.includes('Ya existe')) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requerid') ||
+        error.message.includes('inválid') ||
+        error.message.includes('tiene productos');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [BrandController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default BrandController;
@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+
+import '../types/express';
+import * as CategoryService from '../services/categoryService';
+
+class CategoryController {
+  static async getCategories(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const categories = await CategoryService.getCategories(tenantId, {
+        includeInactive: req.query.includeInactive === 'true'
+      });
+      res.status(200).json(categories);
+    } catch (error) {
+      CategoryController.handleError(res, error);
+    }
+  }
+
+  static async createCategory(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { name, parentId } = req.body;
+      const category = await CategoryService.createCategory({
+        name: name !== undefined && name !== null ? String(name) : undefined,
+        parentId: parentId ? String(parentId) : null
+      }, tenantId);
+      res.status(201).json(category);
+    } catch (error) {
+      CategoryController.handleError(res, error);
+    }
+  }
+
+  static async updateCategory(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { name, parentId, isActive } = req.body;
+      const category = await CategoryService.updateCategory(id, {
+        name: name !== undefined && name !== null ? String(name) : undefined,
+        parentId: parentId === undefined ? undefined : parentId ? String(parentId) : null,
+        isActive: typeof isActive === 'boolean' ? isActive : undefined
+      }, tenantId);
+      res.status(200).json(category);
+    } catch (error) {
+      CategoryController.handleError(res, error);
+    }
+  }
+
+  static async deleteCategory(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      await CategoryService.deleteCategory(id, tenantId);
+      res.status(204).send();
+    } catch (error) {
+      CategoryController.handleError(res, error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      res.status(400).json({
+        message: 'Error de validación en la base de datos',
+        code: error.code
+      });
+      return;
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      if (error.message.includes('no encontrad')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+      if (error.message.includes('Ya existe')) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requerid') ||
+        error.message.includes('inválid') ||
+        error.message.includes('tiene subcategorías') ||
+        error.message.includes('tiene productos');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [CategoryController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default CategoryController;
@@ -51,7 +51,7 @@ class ClientController {
         return;
       }
 
-      const { name, businessName, email, phone, address, documentType, identification, nit, dv, hasCredit, creditLimit, currentDebt, isActive } = req.body;
+      const { name, businessName, email, phone, address, documentType, identification, nit, dv, hasCredit, creditLimit, currentDebt, isActive, priceListId } = req.body;
       
       // Mapear 'name' a 'businessName' si viene del frontend
       const clientData = {
@@ -67,6 +67,7 @@ class ClientController {
         creditLimit: creditLimit || req.body.creditLimit || '0',
         currentDebt: currentDebt || req.body.currentDebt || '0',
         isActive: isActive ?? req.body.isActive ?? true,
+        priceListId: priceListId || null,
       };
 
       const client = await ClientService.createClient(clientData, tenantId);
@@ -164,7 +165,7 @@ class ClientController {
     }
 
     // Manejo de errores de validación del servicio
-    if (error instanceof Error && error.message === 'Client not found') {
+    if (error instanceof Error && (error.message === 'Client not found' || error.message.includes('no encontrada'))) {
       res.status(404).json({ message: error.message });
       return;
     }
@@ -173,7 +174,8 @@ class ClientController {
     if (error instanceof Error && error.message) {
       const isValidationError = error.message.includes('required') ||
         error.message.includes('is required') ||
-        error.message.includes('invalid');
+        error.message.includes('invalid') ||
+        error.message.includes('inactiva');
       
       if (isValidationError) {
         res.status(400).json({ message: error.message });
@@ -0,0 +1,199 @@
+import { Request, Response } from 'express';
+import { InventoryCountStatus, Prisma } from '@prisma/client';
+
+import '../types/express';
+import * as InventoryCountService from '../services/inventoryCountService';
+
+class InventoryCountController {
+  static async getInventoryCounts(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { status, locationId } = req.query;
+      const counts = await InventoryCountService.getInventoryCounts(tenantId, {
+        status: typeof status === 'string' ? status as InventoryCountStatus : undefined,
+        locationId: typeof locationId === 'string' ? locationId : undefined
+      });
+      res.status(200).json(counts);
+    } catch (error) {
+      InventoryCountController.handleError(res, error);
+    }
+  }
+
+  static async getInventoryCountById(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const count = await InventoryCountService.getInventoryCountById(id, tenantId);
+      if (!count) {
+        res.status(404).json({ message: 'Conteo de inventario no encontrado' });
+        return;
+      }
+      res.status(200).json(count);
+    } catch (error) {
+      InventoryCountController.handleError(res, error);
+    }
+  }
+
+  static async openInventoryCount(req: Request, res: Response) {
+    try {
+      // Extraer tenantId y userId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      const userId = req.user?.userId;
+      if (!tenantId || !userId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { locationId, notes } = req.body;
+      const count = await InventoryCountService.openInventoryCount({
+        locationId: locationId ? String(locationId) : null,
+        notes: notes !== undefined && notes !== null ? String(notes) : null,
+        openedById: userId
+      }, tenantId);
+      res.status(201).json(count);
+    } catch (error) {
+      InventoryCountController.handleError(res, error);
+    }
+  }
+
+  static async recordCount(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId y userId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      const userId = req.user?.userId;
+      if (!tenantId || !userId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { productId, sku, quantity, mode } = req.body;
+      const item = await InventoryCountService.recordCount(id, {
+        productId: productId ? String(productId) : undefined,
+        sku: sku ? String(sku) : undefined,
+        quantity: Number(quantity),
+        mode: mode ? String(mode).toUpperCase() as InventoryCountService.RecordCountInput['mode'] : undefined,
+        countedById: userId
+      }, tenantId);
+      res.status(200).json(item);
+    } catch (error) {
+      InventoryCountController.handleError(res, error);
+    }
+  }
+
+  static async removeCountItem(req: Request, res: Response) {
+    try {
+      const { id, itemId } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      await InventoryCountService.removeCountItem(id, itemId, tenantId);
+      res.status(204).send();
+    } catch (error) {
+      InventoryCountController.handleError(res, error);
+    }
+  }
+
+  static async postInventoryCount(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId y userId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      const userId = req.user?.userId;
+      if (!tenantId || !userId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const count = await InventoryCountService.postInventoryCount(id, tenantId, userId);
+      res.status(200).json(count);
+    } catch (error) {
+      InventoryCountController.handleError(res, error);
+    }
+  }
+
+  static async cancelInventoryCount(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const count = await InventoryCountService.cancelInventoryCount(id, tenantId);
+      res.status(200).json(count);
+    } catch (error) {
+      InventoryCountController.handleError(res, error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2034' || error.code === 'P2002') {
+        res.status(409).json({
+          message: 'Otra operación simultánea modificó los datos, intenta de nuevo',
+          code: error.code
+        });
+        return;
+      }
+      res.status(400).json({
+        message: 'Error de validación en la base de datos',
+        code: error.code
+      });
+      return;
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      // Una venta simultánea puede dejar el stock por debajo de lo contado mientras se publica
+      if (error.message.includes('simultánea') || error.message.includes('Stock insuficiente')) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+      if (error.message.includes('no encontrad')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requerid') ||
+        error.message.includes('inválid') ||
+        error.message.includes('Ya existe') ||
+        error.message.includes('inactiva') ||
+        error.message.includes('ya no está abierto') ||
+        error.message.includes('no tiene productos');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [InventoryCountController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default InventoryCountController;
@@ -2,7 +2,11 @@ import { Request, Response } from 'express';
 import { Prisma } from '@prisma/client';
 
 import '../types/express';
+import * as CreditNoteService from '../services/creditNoteService';
+import * as ElectronicInvoiceService from '../services/electronicInvoiceService';
 import * as InvoiceService from '../services/invoiceService';
+import * as PaymentService from '../services/paymentService';
+import * as SequenceService from '../services/sequenceService';
 
 class InvoiceController {
   static async getAllInvoices(req: Request, res: Response) {
@@ -42,7 +46,7 @@ class InvoiceController {
     }
   }
 
-  static async createInvoice(req: Request, res: Response) {
+  static async quoteInvoice(req: Request, res: Response) {
     try {
       // Extraer tenantId del usuario autenticado
       const tenantId = req.user?.tenantId;
@@ -51,14 +55,42 @@ class InvoiceController {
         return;
       }
 
-      const { clientId, number, items, issueDate, status, paymentMethod, currency, isCreditSale, notes, applyIva } = req.body;
-      
-      // Validar que el número de factura esté presente
-      if (!number) {
-        res.status(400).json({ message: 'El número de factura es requerido' });
+      const { clientId, items, priceListId, discountType, discountValue } = req.body;
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        res.status(400).json({ message: 'La factura debe tener al menos un item con producto' });
+        return;
+      }
+
+      const quote = await InvoiceService.quoteInvoice({
+        clientId: clientId || null,
+        items,
+        priceListId: priceListId ? String(priceListId) : null,
+        allowPriceOverride: req.user?.role === 'ADMIN' || req.user?.role === 'MANAGER',
+        discountType: discountType || null,
+        discountValue: discountValue !== undefined && discountValue !== null && discountValue !== '' ? Number(discountValue) : null,
+        allowManualDiscount: req.user?.role === 'ADMIN' || req.user?.role === 'MANAGER'
+      }, tenantId);
+      res.status(200).json(quote);
+    } catch (error) {
+      if (error instanceof Error && InvoiceController.isSaleValidationError(error)) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      InvoiceController.handleError(res, error);
+    }
+  }
+
+  static async createInvoice(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
         return;
       }
 
+      const { clientId, items, issueDate, dueDate, status, paymentMethod, currency, isCreditSale, notes, overrideCreditLimit, cashRegisterId, locationId, priceListId, discountType, discountValue } = req.body;
+      
       // Validar que hay items
       if (!items || !Array.isArray(items) || items.length === 0) {
         res.status(400).json({ message: 'La factura debe tener al menos un item con producto' });
@@ -67,15 +99,27 @@ class InvoiceController {
 
       const invoiceData = {
         clientId: clientId || null,
-        number: number,
         items: items,
         issueDate: issueDate ? new Date(issueDate) : new Date(),
+        dueDate: dueDate ? new Date(dueDate) : null,
         status: status || ('DRAFT' as const),
         paymentMethod: paymentMethod || ('CASH' as const),
         currency: currency || 'COP',
         isCreditSale: isCreditSale || false,
         notes: notes || null,
-        applyIva: applyIva === true // Aplicar IVA solo si está explícitamente activo
+        createdById: req.user?.userId || null,
+        // Solo un ADMIN puede autorizar una venta a crédito por encima del cupo del cliente
+        allowCreditOverLimit: overrideCreditLimit === true && req.user?.role === 'ADMIN',
+        // La venta descuenta de la bodega indicada o de la bodega asignada a la caja
+        cashRegisterId: cashRegisterId !== undefined && cashRegisterId !== null && cashRegisterId !== '' ? Number(cashRegisterId) : null,
+        locationId: locationId ? String(locationId) : null,
+        // El precio lo resuelve la lista de precios; solo ADMIN y MANAGER pueden cambiarlo en la línea
+        priceListId: priceListId ? String(priceListId) : null,
+        allowPriceOverride: req.user?.role === 'ADMIN' || req.user?.role === 'MANAGER',
+        // Las promociones se aplican solas; los descuentos manuales solo los aplican ADMIN y MANAGER
+        discountType: discountType || null,
+        discountValue: discountValue !== undefined && discountValue !== null && discountValue !== '' ? Number(discountValue) : null,
+        allowManualDiscount: req.user?.role === 'ADMIN' || req.user?.role === 'MANAGER'
       };
 
       const result = await InvoiceService.createInvoice(invoiceData, tenantId);
@@ -105,11 +149,7 @@ class InvoiceController {
       }
       // Manejo de errores del servicio
       if (error instanceof Error) {
-        if (
-          error.message.includes('Stock insuficiente') ||
-          error.message.includes('no encontrado') ||
-          error.message.includes('no pertenece')
-        ) {
+        if (InvoiceController.isSaleValidationError(error)) {
           res.status(400).json({ message: error.message });
           return;
         }
@@ -137,9 +177,40 @@ class InvoiceController {
         return;
       }
 
-      const invoice = await InvoiceService.updateInvoice(id, req.body, tenantId);
+      const {
+        clientId, items, issueDate, dueDate, status, paymentMethod, currency, isCreditSale, notes, overrideCreditLimit,
+        priceListId, discountType, discountValue
+      } = req.body;
+
+      // Solo los campos editables de un borrador; los totales y el número los calcula el servidor
+      const updateData: InvoiceService.UpdateInvoiceInput = {
+        clientId: clientId !== undefined ? clientId || null : undefined,
+        items: Array.isArray(items) ? items : undefined,
+        issueDate: issueDate || undefined,
+        dueDate: dueDate !== undefined ? dueDate || null : undefined,
+        status: status || undefined,
+        paymentMethod: paymentMethod || undefined,
+        currency: currency || undefined,
+        isCreditSale: isCreditSale !== undefined ? Boolean(isCreditSale) : undefined,
+        notes: notes !== undefined ? notes || null : undefined,
+        createdById: req.user?.userId || null,
+        priceListId: priceListId !== undefined ? (priceListId ? String(priceListId) : null) : undefined,
+        allowPriceOverride: req.user?.role === 'ADMIN' || req.user?.role === 'MANAGER',
+        discountType: discountType !== undefined ? discountType || null : undefined,
+        discountValue: discountValue !== undefined && discountValue !== null && discountValue !== '' ? Number(discountValue) : undefined,
+        allowManualDiscount: req.user?.role === 'ADMIN' || req.user?.role === 'MANAGER'
+      };
+
+      const invoice = await InvoiceService.updateInvoice(id, updateData, tenantId, {
+        // Solo un ADMIN puede autorizar una venta a crédito por encima del cupo del cliente
+        allowCreditOverLimit: overrideCreditLimit === true && req.user?.role === 'ADMIN'
+      });
       res.status(200).json(invoice);
     } catch (error) {
+      if (error instanceof Error && InvoiceController.isSaleValidationError(error)) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
       InvoiceController.handleError(res, error);
     }
   }
@@ -154,13 +225,233 @@ class InvoiceController {
         return;
       }
 
-      await InvoiceService.deleteInvoice(id, tenantId);
+      await InvoiceService.deleteInvoice(id, tenantId, req.user?.userId || null);
       res.status(204).send();
     } catch (error) {
       InvoiceController.handleError(res, error);
     }
   }
 
+  static async getNumbering(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const sequence = await SequenceService.getSequence(tenantId, 'INVOICE');
+      res.status(200).json(sequence);
+    } catch (error) {
+      InvoiceController.handleError(res, error);
+    }
+  }
+
+  static async updateNumbering(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { prefix, nextNumber, padding } = req.body;
+
+      const updateData: SequenceService.UpdateSequenceInput = {};
+
+      if (prefix !== undefined) updateData.prefix = String(prefix);
+      if (nextNumber !== undefined) updateData.nextNumber = Number(nextNumber);
+      if (padding !== undefined) updateData.padding = Number(padding);
+
+      const sequence = await SequenceService.updateSequence(tenantId, 'INVOICE', updateData);
+      res.status(200).json(sequence);
+    } catch (error) {
+      InvoiceController.handleError(res, error);
+    }
+  }
+
+  static async getInvoicePayments(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const result = await PaymentService.getInvoicePayments(id, tenantId);
+      res.status(200).json(result);
+    } catch (error) {
+      InvoiceController.handleError(res, error);
+    }
+  }
+
+  static async registerPayment(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { amount, method, paymentDate, reference, notes } = req.body;
+
+      if (amount === undefined || amount === null || amount === '') {
+        res.status(400).json({ message: 'El valor del pago es requerido' });
+        return;
+      }
+
+      const paymentData: PaymentService.CreatePaymentInput = {
+        amount: Number(amount),
+        method: method || 'CASH',
+        paymentDate: paymentDate || undefined,
+        reference: reference || null,
+        notes: notes || null,
+        createdById: req.user?.userId || null
+      };
+
+      const result = await PaymentService.registerPayment(id, paymentData, tenantId);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('simultáneo')) {
+          res.status(409).json({ message: error.message });
+          return;
+        }
+        if (
+          error.message.includes('excede') ||
+          error.message.includes('No se pueden registrar') ||
+          error.message.includes('ya está pagada')
+        ) {
+          res.status(400).json({ message: error.message });
+          return;
+        }
+      }
+      InvoiceController.handleError(res, error);
+    }
+  }
+
+  static async getInvoiceXml(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const document = await ElectronicInvoiceService.getInvoiceXml(id, tenantId);
+      res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${document.number}.xml"`);
+      res.setHeader('X-CUFE', document.cufe);
+      res.status(200).send(document.xml);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('no tiene documento electrónico')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+      InvoiceController.handleError(res, error);
+    }
+  }
+
+  static async getInvoiceCreditNotes(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const result = await CreditNoteService.getInvoiceCreditNotes(id, tenantId);
+      res.status(200).json(result);
+    } catch (error) {
+      InvoiceController.handleError(res, error);
+    }
+  }
+
+  static async createCreditNote(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { reason, items } = req.body;
+
+      if (items !== undefined && !Array.isArray(items)) {
+        res.status(400).json({ message: 'Los items de la nota crédito deben ser una lista' });
+        return;
+      }
+
+      const creditNoteData: CreditNoteService.CreateCreditNoteInput = {
+        reason: reason ? String(reason) : '',
+        items: Array.isArray(items)
+          ? items.map((item: { invoiceItemId?: unknown; quantity?: unknown }) => ({
+            invoiceItemId: String(item.invoiceItemId ?? ''),
+            quantity: Number(item.quantity)
+          }))
+          : undefined,
+        createdById: req.user?.userId || null
+      };
+
+      const result = await CreditNoteService.createCreditNote(id, creditNoteData, tenantId);
+      res.status(201).json(result);
+    } catch (error) {
+      InvoiceController.handleError(res, error);
+    }
+  }
+
+  static async cancelInvoice(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { reason } = req.body;
+
+      const result = await CreditNoteService.cancelInvoice(
+        id,
+        { reason: reason ? String(reason) : '', createdById: req.user?.userId || null },
+        tenantId
+      );
+      res.status(200).json(result);
+    } catch (error) {
+      InvoiceController.handleError(res, error);
+    }
+  }
+
+  // Errores de validación de una venta (stock, precios, descuentos, crédito) que se responden con 400
+  private static isSaleValidationError(error: Error) {
+    return (
+      error.message.includes('Stock insuficiente') ||
+      error.message.includes('no encontrado') ||
+      error.message.includes('Bodega no encontrada') ||
+      error.message.includes('no pertenece') ||
+      error.message.includes('crédito') ||
+      error.message.includes('inactivo') ||
+      error.message.includes('inactiva') ||
+      error.message.includes('inválid') ||
+      error.message.includes('descuento') ||
+      error.message.includes('debe tener') ||
+      /lista de precios/i.test(error.message)
+    );
+  }
+
   private static handleError(res: Response, error: unknown) {
     // Manejo de errores de Prisma
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
@@ -201,11 +492,30 @@ class InvoiceController {
       return;
     }
 
+    // Conflicto con otra operación sobre la misma factura
+    if (error instanceof Error && error.message.includes('operación simultánea')) {
+      res.status(409).json({ message: error.message });
+      return;
+    }
+
     // Errores de validación de campos requeridos
     if (error instanceof Error && error.message) {
       const isValidationError = error.message.includes('required') ||
         error.message.includes('is required') ||
-        error.message.includes('invalid');
+        error.message.includes('invalid') ||
+        error.message.includes('requerido') ||
+        error.message.includes('inválid') ||
+        error.message.includes('saldo pendiente') ||
+        error.message.includes('crédito') ||
+        error.message.includes('inactivo') ||
+        error.message.includes('facturación electrónica') ||
+        error.message.includes('resolución DIAN') ||
+        error.message.includes('ya está anulada') ||
+        error.message.includes('no pertenece') ||
+        error.message.includes('excede') ||
+        error.message.includes('repetido') ||
+        error.message.includes('Solo se pueden eliminar') ||
+        error.message.includes('Cliente no encontrado');
       
       if (isValidationError) {
         res.status(400).json({ message: error.message });
@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+
+import '../types/express';
+import * as LocationService from '../services/locationService';
+
+class LocationController {
+  static async getLocations(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const locations = await LocationService.getLocations(tenantId, {
+        includeInactive: req.query.includeInactive === 'true'
+      });
+      res.status(200).json(locations);
+    } catch (error) {
+      LocationController.handleError(res, error);
+    }
+  }
+
+  static async createLocation(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { name, address, isDefault } = req.body;
+      const location = await LocationService.createLocation({
+        name: name !== undefined && name !== null ? String(name) : undefined,
+        address: address !== undefined && address !== null ? String(address) : null,
+        isDefault: isDefault === true
+      }, tenantId);
+      res.status(201).json(location);
+    } catch (error) {
+      LocationController.handleError(res, error);
+    }
+  }
+
+  static async updateLocation(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { name, address, isDefault, isActive } = req.body;
+      const location = await LocationService.updateLocation(id, {
+        name: name !== undefined && name !== null ? String(name) : undefined,
+        address: address === undefined ? undefined : address === null ? null : String(address),
+        isDefault: typeof isDefault === 'boolean' ? isDefault : undefined,
+        isActive: typeof isActive === 'boolean' ? isActive : undefined
+      }, tenantId);
+      res.status(200).json(location);
+    } catch (error) {
+      LocationController.handleError(res, error);
+    }
+  }
+
+  static async getCashRegisters(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const cashRegisters = await LocationService.getCashRegisters(tenantId);
+      res.status(200).json(cashRegisters);
+    } catch (error) {
+      LocationController.handleError(res, error);
+    }
+  }
+
+  static async assignCashRegisterLocation(req: Request, res: Response) {
+    try {
+      const cashRegisterId = Number(req.params.id);
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+      if (!Number.isInteger(cashRegisterId)) {
+        res.status(400).json({ message: 'El ID de la caja es inválido' });
+        return;
+      }
+
+      const { locationId } = req.body;
+      const cashRegister = await LocationService.assignCashRegisterLocation(
+        cashRegisterId,
+        locationId ? String(locationId) : null,
+        tenantId
+      );
+      res.status(200).json(cashRegister);
+    } catch (error) {
+      LocationController.handleError(res, error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2034') {
+        res.status(409).json({
+          message: 'Otra operación simultánea modificó los datos, intenta de nuevo',
+          code: error.code
+        });
+        return;
+      }
+      res.status(400).json({
+        message: 'Error de validación en la base de datos',
+        code: error.code
+      });
+      return;
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      if (error.message.includes('no encontrad')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+      if (error.message.includes('Ya existe')) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requerid') ||
+        error.message.includes('inválid') ||
+        error.message.includes('inactiva') ||
+        error.message.includes('no se puede desactivar') ||
+        error.message.includes('tiene existencias') ||
+        error.message.includes('bodega por defecto');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [LocationController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default LocationController;
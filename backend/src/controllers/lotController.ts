@@ -0,0 +1,134 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+
+import '../types/express';
+import * as LotService from '../services/lotService';
+
+class LotController {
+  static async getLots(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const lots = await LotService.getLots(tenantId, {
+        productId: typeof req.query.productId === 'string' && req.query.productId ? req.query.productId : undefined,
+        locationId: typeof req.query.locationId === 'string' && req.query.locationId ? req.query.locationId : undefined,
+        includeEmpty: req.query.includeEmpty === 'true'
+      });
+      res.status(200).json(lots);
+    } catch (error) {
+      LotController.handleError(res, error);
+    }
+  }
+
+  static async getExpiringLots(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const days = req.query.days !== undefined && req.query.days !== '' ? Number(req.query.days) : undefined;
+      const report = await LotService.getExpiringLots(tenantId, days);
+      res.status(200).json(report);
+    } catch (error) {
+      LotController.handleError(res, error);
+    }
+  }
+
+  static async assignLot(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { productId, locationId, lotNumber, expiryDate, quantity } = req.body;
+      const lot = await LotService.assignLot({
+        productId: String(productId ?? ''),
+        locationId: locationId ? String(locationId) : null,
+        lotNumber: lotNumber !== undefined && lotNumber !== null ? String(lotNumber) : '',
+        expiryDate: expiryDate ? String(expiryDate) : null,
+        quantity: Number(quantity)
+      }, tenantId);
+      res.status(201).json(lot);
+    } catch (error) {
+      LotController.handleError(res, error);
+    }
+  }
+
+  static async updateLot(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { expiryDate } = req.body;
+      const lot = await LotService.updateLotExpiry(id, expiryDate ? String(expiryDate) : null, tenantId);
+      res.status(200).json(lot);
+    } catch (error) {
+      LotController.handleError(res, error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2034' || error.code === 'P2002') {
+        res.status(409).json({
+          message: 'Otra operación simultánea modificó los datos, intenta de nuevo',
+          code: error.code
+        });
+        return;
+      }
+      res.status(400).json({
+        message: 'Error de validación en la base de datos',
+        code: error.code
+      });
+      return;
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      if (error.message.includes('no encontrad')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+      if (error.message.includes('ya está registrado')) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requerid') ||
+        error.message.includes('inválid') ||
+        error.message.includes('inactiva') ||
+        error.message.includes('no maneja lotes');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [LotController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default LotController;
@@ -0,0 +1,198 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+
+import '../types/express';
+import * as PriceListService from '../services/priceListService';
+
+class PriceListController {
+  static async getPriceLists(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const priceLists = await PriceListService.getPriceLists(tenantId, {
+        includeInactive: req.query.includeInactive === 'true'
+      });
+      res.status(200).json(priceLists);
+    } catch (error) {
+      PriceListController.handleError(res, error);
+    }
+  }
+
+  static async getPriceListById(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const priceList = await PriceListService.getPriceListById(id, tenantId);
+      res.status(200).json(priceList);
+    } catch (error) {
+      PriceListController.handleError(res, error);
+    }
+  }
+
+  static async getPriceListPrices(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const prices = await PriceListService.getPriceListPrices(id, tenantId);
+      res.status(200).json(prices);
+    } catch (error) {
+      PriceListController.handleError(res, error);
+    }
+  }
+
+  static async createPriceList(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { name, description, base, percentage, isDefault } = req.body;
+      const priceList = await PriceListService.createPriceList({
+        name: name !== undefined && name !== null ? String(name) : undefined,
+        description: description ? String(description) : null,
+        base: base || undefined,
+        percentage: percentage !== undefined && percentage !== null && percentage !== '' ? Number(percentage) : undefined,
+        isDefault: isDefault === true
+      }, tenantId);
+      res.status(201).json(priceList);
+    } catch (error) {
+      PriceListController.handleError(res, error);
+    }
+  }
+
+  static async updatePriceList(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { name, description, base, percentage, isDefault, isActive } = req.body;
+      const priceList = await PriceListService.updatePriceList(id, {
+        name: name !== undefined && name !== null ? String(name) : undefined,
+        description: description !== undefined ? (description ? String(description) : null) : undefined,
+        base: base || undefined,
+        percentage: percentage !== undefined && percentage !== null && percentage !== '' ? Number(percentage) : undefined,
+        isDefault: typeof isDefault === 'boolean' ? isDefault : undefined,
+        isActive: typeof isActive === 'boolean' ? isActive : undefined
+      }, tenantId);
+      res.status(200).json(priceList);
+    } catch (error) {
+      PriceListController.handleError(res, error);
+    }
+  }
+
+  static async setPriceListItems(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { items } = req.body;
+      if (!Array.isArray(items)) {
+        res.status(400).json({ message: 'Los precios de la lista son requeridos' });
+        return;
+      }
+
+      const priceList = await PriceListService.setPriceListItems(
+        id,
+        items.map((item: { productId?: unknown; price?: unknown }) => ({
+          productId: String(item.productId ?? ''),
+          price: item.price !== undefined && item.price !== null && item.price !== '' ? Number(item.price) : NaN
+        })),
+        tenantId
+      );
+      res.status(200).json(priceList);
+    } catch (error) {
+      PriceListController.handleError(res, error);
+    }
+  }
+
+  static async deletePriceList(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      await PriceListService.deletePriceList(id, tenantId);
+      res.status(204).send();
+    } catch (error) {
+      PriceListController.handleError(res, error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      res.status(400).json({
+        message: 'Error de validación en la base de datos',
+        code: error.code
+      });
+      return;
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      if (error.message.includes('no encontrad')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+      if (error.message.includes('Ya existe')) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requerid') ||
+        error.message.includes('inválid') ||
+        error.message.includes('inactiva') ||
+        error.message.includes('repetido') ||
+        error.message.includes('debe estar activa') ||
+        error.message.includes('tiene clientes');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [PriceListController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default PriceListController;
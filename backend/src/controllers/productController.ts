@@ -2,7 +2,10 @@ import { Request, Response } from 'express';
 import { Prisma } from '@prisma/client';
 
 import '../types/express';
+import * as LabelService from '../services/labelService';
+import * as ProductImportService from '../services/productImportService';
 import * as ProductService from '../services/productService';
+import * as StockMovementService from '../services/stockMovementService';
 
 class ProductController {
   static async getAllProducts(req: Request, res: Response) {
@@ -14,7 +17,14 @@ class ProductController {
         return;
       }
 
-      const products = await ProductService.getAllProducts(tenantId);
+      const { locationId, onlyInStock, search, categoryId, brandId } = req.query;
+      const products = await ProductService.getAllProducts(tenantId, {
+        locationId: typeof locationId === 'string' && locationId ? locationId : undefined,
+        categoryId: typeof categoryId === 'string' && categoryId ? categoryId : undefined,
+        brandId: typeof brandId === 'string' && brandId ? brandId : undefined,
+        onlyInStock: onlyInStock === 'true',
+        search: typeof search === 'string' ? search : undefined
+      });
       res.status(200).json(products);
     } catch (error) {
       ProductController.handleError(res, error);
@@ -42,6 +52,160 @@ class ProductController {
     }
   }
 
+  static async lookupProduct(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { code, locationId } = req.query;
+      if (typeof code !== 'string' || !code.trim()) {
+        res.status(400).json({ message: 'El código a buscar es requerido' });
+        return;
+      }
+
+      const product = await ProductService.getProductByCode(
+        code,
+        tenantId,
+        typeof locationId === 'string' && locationId ? locationId : undefined
+      );
+      if (!product) {
+        res.status(404).json({ message: `No hay un producto con el código ${code.trim()}` });
+        return;
+      }
+      res.status(200).json(product);
+    } catch (error) {
+      ProductController.handleError(res, error);
+    }
+  }
+
+  static async printLabels(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { items } = req.body;
+      const labelItems: LabelService.LabelRequestItem[] = Array.isArray(items)
+        ? items.map((item: { productId?: unknown; copies?: unknown }) => ({
+          productId: String(item.productId ?? ''),
+          copies: item.copies !== undefined && item.copies !== null ? Number(item.copies) : undefined
+        }))
+        : [];
+
+      const pdf = await LabelService.generateBarcodeLabels(labelItems, tenantId);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', 'inline; filename="etiquetas.pdf"');
+      res.status(200).send(pdf);
+    } catch (error) {
+      ProductController.handleError(res, error);
+    }
+  }
+
+  /**
+   * Importa productos desde un archivo CSV o Excel enviado como cuerpo de la petición
+   * POST /api/v1/products/import?dryRun=true (vista previa) o dryRun=false (guarda)
+   */
+  static async importProducts(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({ message: 'El archivo es requerido: envíe un CSV o un Excel (.xlsx)' });
+        return;
+      }
+
+      // Sin indicarlo explícitamente la importación es solo una vista previa
+      const dryRun = req.query.dryRun !== 'false';
+      const result = await ProductImportService.importProducts(req.body, tenantId, {
+        dryRun,
+        userId: req.user?.userId || null
+      });
+
+      if (!dryRun && !result.imported) {
+        res.status(400).json({
+          message: `No se importó ningún producto: ${result.summary.withErrors} fila(s) con errores`,
+          ...result
+        });
+        return;
+      }
+      res.status(200).json(result);
+    } catch (error) {
+      ProductController.handleError(res, error);
+    }
+  }
+
+  /**
+   * Descarga el catálogo filtrado en CSV o Excel, con las columnas de la importación
+   * GET /api/v1/products/export?format=csv|xlsx&search=...&categoryId=...&brandId=...&locationId=...&includeInactive=true
+   */
+  static async exportProducts(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { format = 'csv', locationId, onlyInStock, search, categoryId, brandId, includeInactive } = req.query;
+      if (format !== 'csv' && format !== 'xlsx') {
+        res.status(400).json({ message: 'El formato es inválido: use csv o xlsx' });
+        return;
+      }
+
+      const file = await ProductImportService.exportProducts(tenantId, {
+        locationId: typeof locationId === 'string' && locationId ? locationId : undefined,
+        categoryId: typeof categoryId === 'string' && categoryId ? categoryId : undefined,
+        brandId: typeof brandId === 'string' && brandId ? brandId : undefined,
+        onlyInStock: onlyInStock === 'true',
+        includeInactive: includeInactive === 'true',
+        search: typeof search === 'string' ? search : undefined
+      }, format);
+
+      res.setHeader('Content-Type', format === 'xlsx'
+        ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        : 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="productos.${format}"`);
+      res.status(200).send(file);
+    } catch (error) {
+      ProductController.handleError(res, error);
+    }
+  }
+
+  static async getProductKardex(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { from, to } = req.query;
+
+      const kardex = await StockMovementService.getProductKardex(id, tenantId, {
+        from: typeof from === 'string' && from ? from : undefined,
+        to: typeof to === 'string' && to ? to : undefined
+      });
+      res.status(200).json(kardex);
+    } catch (error) {
+      ProductController.handleError(res, error);
+    }
+  }
+
   static async createProduct(req: Request, res: Response) {
     try {
       // Extraer tenantId del usuario autenticado
@@ -51,7 +215,11 @@ class ProductController {
         return;
       }
 
-      const { name, sku, description, price, cost, stock, isActive } = req.body;
+      const {
+        name, sku, description, price, cost, stock, taxCategory, unit, purchaseUnit, unitsPerPurchaseUnit,
+        categoryId, brandId, barcodes, trackLots, minStock, maxStock, reorderQuantity, preferredSupplierId, isKit,
+        components, isActive
+      } = req.body;
 
       // Validar campos obligatorios
       if (!name) {
@@ -64,7 +232,8 @@ class ProductController {
         return;
       }
 
-      if (cost === undefined || cost === null) {
+      // El costo de un kit se calcula con el de sus componentes
+      if (!isKit && (cost === undefined || cost === null)) {
         res.status(400).json({ message: 'El costo del producto es requerido' });
         return;
       }
@@ -74,12 +243,30 @@ class ProductController {
         sku: sku || null,
         description: description || null,
         price: Number(price),
-        cost: Number(cost),
+        cost: Number(cost ?? 0),
         stock: stock !== undefined ? Number(stock) : 0,
+        taxCategory: taxCategory || undefined,
+        unit: unit || undefined,
+        purchaseUnit: purchaseUnit || null,
+        unitsPerPurchaseUnit: unitsPerPurchaseUnit !== undefined && unitsPerPurchaseUnit !== null
+          ? Number(unitsPerPurchaseUnit)
+          : undefined,
+        categoryId: categoryId ? String(categoryId) : null,
+        brandId: brandId ? String(brandId) : null,
+        barcodes: Array.isArray(barcodes) ? barcodes : undefined,
+        trackLots: trackLots !== undefined ? Boolean(trackLots) : false,
+        minStock: minStock !== undefined && minStock !== null && minStock !== '' ? Number(minStock) : null,
+        maxStock: maxStock !== undefined && maxStock !== null && maxStock !== '' ? Number(maxStock) : null,
+        reorderQuantity: reorderQuantity !== undefined && reorderQuantity !== null && reorderQuantity !== ''
+          ? Number(reorderQuantity)
+          : null,
+        preferredSupplierId: preferredSupplierId ? String(preferredSupplierId) : null,
+        isKit: Boolean(isKit),
+        components: Array.isArray(components) ? components : undefined,
         isActive: isActive !== undefined ? Boolean(isActive) : true
       };
 
-      const product = await ProductService.createProduct(productData, tenantId);
+      const product = await ProductService.createProduct(productData, tenantId, req.user?.userId || null);
       res.status(201).json(product);
     } catch (error) {
       // Manejo específico de errores de Prisma en createProduct
@@ -125,7 +312,11 @@ class ProductController {
         return;
       }
 
-      const { name, sku, description, price, cost, stock, isActive } = req.body;
+      const {
+        name, sku, description, price, cost, stock, taxCategory, unit, purchaseUnit, unitsPerPurchaseUnit,
+        categoryId, brandId, barcodes, trackLots, minStock, maxStock, reorderQuantity, preferredSupplierId, isKit,
+        components, isActive
+      } = req.body;
 
       const updateData: any = {};
 
@@ -135,9 +326,25 @@ class ProductController {
       if (price !== undefined) updateData.price = Number(price);
       if (cost !== undefined) updateData.cost = Number(cost);
       if (stock !== undefined) updateData.stock = Number(stock);
+      if (taxCategory !== undefined) updateData.taxCategory = taxCategory;
+      if (unit !== undefined) updateData.unit = unit;
+      if (purchaseUnit !== undefined) updateData.purchaseUnit = purchaseUnit || null;
+      if (unitsPerPurchaseUnit !== undefined) updateData.unitsPerPurchaseUnit = Number(unitsPerPurchaseUnit);
+      if (categoryId !== undefined) updateData.categoryId = categoryId ? String(categoryId) : null;
+      if (brandId !== undefined) updateData.brandId = brandId ? String(brandId) : null;
+      if (barcodes !== undefined) updateData.barcodes = Array.isArray(barcodes) ? barcodes : [];
+      if (trackLots !== undefined) updateData.trackLots = Boolean(trackLots);
+      if (minStock !== undefined) updateData.minStock = minStock === null || minStock === '' ? null : Number(minStock);
+      if (maxStock !== undefined) updateData.maxStock = maxStock === null || maxStock === '' ? null : Number(maxStock);
+      if (reorderQuantity !== undefined) {
+        updateData.reorderQuantity = reorderQuantity === null || reorderQuantity === '' ? null : Number(reorderQuantity);
+      }
+      if (preferredSupplierId !== undefined) updateData.preferredSupplierId = preferredSupplierId ? String(preferredSupplierId) : null;
+      if (isKit !== undefined) updateData.isKit = Boolean(isKit);
+      if (components !== undefined) updateData.components = Array.isArray(components) ? components : [];
       if (isActive !== undefined) updateData.isActive = Boolean(isActive);
 
-      const product = await ProductService.updateProduct(id, updateData, tenantId);
+      const product = await ProductService.updateProduct(id, updateData, tenantId, req.user?.userId || null);
       res.status(200).json(product);
     } catch (error) {
       // Manejo de errores del servicio
@@ -161,7 +368,15 @@ class ProductController {
         return;
       }
 
-      await ProductService.deleteProduct(id, tenantId);
+      const result = await ProductService.deleteProduct(id, tenantId);
+      if (result.deactivated) {
+        // Con movimientos de inventario el producto solo se desactiva
+        res.status(200).json({
+          message: 'El producto tiene movimientos de inventario: se desactivó en lugar de eliminarlo',
+          deactivated: true
+        });
+        return;
+      }
       res.status(204).send();
     } catch (error) {
       ProductController.handleError(res, error);
@@ -224,7 +439,7 @@ class ProductController {
         return;
       }
       
-      if (error.message === 'Product not found') {
+      if (error.message === 'Product not found' || error.message.includes('no encontrada') || error.message.includes('no encontrado')) {
         res.status(404).json({ message: error.message });
         return;
       }
@@ -232,7 +447,18 @@ class ProductController {
       // Errores de validación de campos requeridos
       const isValidationError = error.message.includes('requerido') ||
         error.message.includes('required') ||
-        error.message.includes('invalid');
+        error.message.includes('invalid') ||
+        error.message.includes('inválid') ||
+        error.message.includes('inactiva') ||
+        error.message.includes('debe ser') ||
+        error.message.includes('ya está asignado') ||
+        error.message.includes('repetido') ||
+        error.message.includes('Debe indicar') ||
+        error.message.includes('No se pueden imprimir') ||
+        error.message.includes('El archivo') ||
+        error.message.includes('Ya está en uso') ||
+        error.message.includes('Stock insuficiente') ||
+        error.message.includes('kit');
 
       if (isValidationError) {
         res.status(400).json({ message: error.message });
@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+
+import '../types/express';
+import * as PromotionService from '../services/promotionService';
+
+class PromotionController {
+  static async getPromotions(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const promotions = await PromotionService.getPromotions(tenantId, {
+        includeInactive: req.query.includeInactive === 'true'
+      });
+      res.status(200).json(promotions);
+    } catch (error) {
+      PromotionController.handleError(res, error);
+    }
+  }
+
+  static async createPromotion(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const promotion = await PromotionService.createPromotion(PromotionController.parseInput(req.body), tenantId);
+      res.status(201).json(promotion);
+    } catch (error) {
+      PromotionController.handleError(res, error);
+    }
+  }
+
+  static async updatePromotion(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const promotion = await PromotionService.updatePromotion(id, PromotionController.parseInput(req.body), tenantId);
+      res.status(200).json(promotion);
+    } catch (error) {
+      PromotionController.handleError(res, error);
+    }
+  }
+
+  static async deletePromotion(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      await PromotionService.deletePromotion(id, tenantId);
+      res.status(204).send();
+    } catch (error) {
+      PromotionController.handleError(res, error);
+    }
+  }
+
+  // Convierte el cuerpo de la petición; los campos ausentes quedan undefined para conservar su valor al actualizar
+  private static parseInput(body: Record<string, unknown>): PromotionService.PromotionInput {
+    const toNumber = (value: unknown) => {
+      if (value === undefined) {
+        return undefined;
+      }
+      return value === null || value === '' ? null : Number(value);
+    };
+    const toText = (value: unknown) => {
+      if (value === undefined) {
+        return undefined;
+      }
+      return value === null || value === '' ? null : String(value);
+    };
+
+    return {
+      name: body.name !== undefined && body.name !== null ? String(body.name) : undefined,
+      type: body.type ? (String(body.type) as PromotionService.PromotionInput['type']) : undefined,
+      productId: toText(body.productId),
+      categoryId: toText(body.categoryId),
+      percentage: toNumber(body.percentage),
+      buyQuantity: toNumber(body.buyQuantity),
+      getQuantity: toNumber(body.getQuantity),
+      startDate: toText(body.startDate),
+      endDate: toText(body.endDate),
+      daysOfWeek: Array.isArray(body.daysOfWeek) ? body.daysOfWeek.map(Number) : undefined,
+      startTime: toText(body.startTime),
+      endTime: toText(body.endTime),
+      isActive: typeof body.isActive === 'boolean' ? body.isActive : undefined
+    };
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      res.status(400).json({
+        message: 'Error de validación en la base de datos',
+        code: error.code
+      });
+      return;
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      if (error.message.includes('no encontrad')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requerid') ||
+        error.message.includes('inválid') ||
+        error.message.includes('ya se aplicó');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [PromotionController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default PromotionController;
@@ -0,0 +1,141 @@
+import { Request, Response } from 'express';
+import { Prisma, UnitOfMeasure } from '@prisma/client';
+
+import '../types/express';
+import * as PurchaseService from '../services/purchaseService';
+
+class PurchaseController {
+  static async getPurchases(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { supplierId, locationId, from, to } = req.query;
+      const purchases = await PurchaseService.getPurchases(tenantId, {
+        supplierId: typeof supplierId === 'string' ? supplierId : undefined,
+        locationId: typeof locationId === 'string' ? locationId : undefined,
+        from: typeof from === 'string' ? from : undefined,
+        to: typeof to === 'string' ? to : undefined
+      });
+      res.status(200).json(purchases);
+    } catch (error) {
+      PurchaseController.handleError(res, error);
+    }
+  }
+
+  static async getPurchaseById(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const purchase = await PurchaseService.getPurchaseById(id, tenantId);
+      if (!purchase) {
+        res.status(404).json({ message: 'Compra no encontrada' });
+        return;
+      }
+      res.status(200).json(purchase);
+    } catch (error) {
+      PurchaseController.handleError(res, error);
+    }
+  }
+
+  static async createPurchase(req: Request, res: Response) {
+    try {
+      // Extraer tenantId y userId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      const userId = req.user?.userId;
+      if (!tenantId || !userId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { supplierId, supplierReference, receivedAt, locationId, notes, items } = req.body;
+
+      if (!Array.isArray(items)) {
+        res.status(400).json({ message: 'Los productos de la compra son requeridos' });
+        return;
+      }
+
+      const purchaseData: PurchaseService.CreatePurchaseInput = {
+        supplierId: supplierId !== undefined && supplierId !== null ? String(supplierId) : '',
+        supplierReference: supplierReference !== undefined && supplierReference !== null ? String(supplierReference) : null,
+        receivedAt: receivedAt !== undefined && receivedAt !== null && receivedAt !== '' ? String(receivedAt) : undefined,
+        locationId: locationId !== undefined && locationId !== null && locationId !== '' ? String(locationId) : null,
+        notes: notes !== undefined && notes !== null ? String(notes) : null,
+        items: items.map((item: Record<string, unknown>) => ({
+          productId: String(item.productId ?? ''),
+          quantity: Number(item.quantity),
+          unitCost: Number(item.unitCost),
+          unit: item.unit ? String(item.unit).toUpperCase() as UnitOfMeasure : undefined,
+          taxRate: item.taxRate !== undefined && item.taxRate !== null ? Number(item.taxRate) : undefined,
+          description: typeof item.description === 'string' ? item.description : undefined,
+          lotNumber: typeof item.lotNumber === 'string' ? item.lotNumber : null,
+          expiryDate: typeof item.expiryDate === 'string' && item.expiryDate !== '' ? item.expiryDate : null
+        })),
+        createdById: userId
+      };
+
+      const purchase = await PurchaseService.createPurchase(purchaseData, tenantId);
+      res.status(201).json(purchase);
+    } catch (error) {
+      PurchaseController.handleError(res, error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2034' || error.code === 'P2002') {
+        res.status(409).json({
+          message: 'Otra operación simultánea modificó los datos, intenta de nuevo',
+          code: error.code
+        });
+        return;
+      }
+      res.status(400).json({
+        message: 'Error de validación en la base de datos',
+        code: error.code
+      });
+      return;
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      if (error.message.includes('no encontrad')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requerid') ||
+        error.message.includes('inválid') ||
+        error.message.includes('inactivo') ||
+        error.message.includes('inactiva') ||
+        error.message.includes('al menos un producto') ||
+        error.message.includes('no maneja lotes') ||
+        error.message.includes('ya está registrado');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [PurchaseController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default PurchaseController;
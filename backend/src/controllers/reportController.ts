@@ -3,6 +3,9 @@ import { Request, Response } from 'express';
 import '../types/express';
 import * as ReportService from '../services/reportService';
 import * as CashRegisterService from '../services/cashRegisterService';
+import * as LotService from '../services/lotService';
+import * as ReorderService from '../services/reorderService';
+import * as ResolutionService from '../services/resolutionService';
 
 class ReportController {
   /**
@@ -105,6 +108,144 @@ class ReportController {
     }
   }
 
+  /**
+   * Obtiene la cartera por edades (cuentas por cobrar de ventas a crédito)
+   * GET /api/v1/reports/receivables-aging
+   */
+  static async getReceivablesAging(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const aging = await ReportService.getReceivablesAging(tenantId);
+      res.status(200).json(aging);
+    } catch (error) {
+      ReportController.handleError(res, error);
+    }
+  }
+
+  /**
+   * Obtiene el costo de ventas y el margen bruto por período, producto y factura
+   * GET /api/v1/reports/gross-margin?from=AAAA-MM-DD&to=AAAA-MM-DD&groupBy=day|month
+   */
+  static async getGrossMargin(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { from, to, groupBy } = req.query;
+      const margin = await ReportService.getGrossMargin(tenantId, {
+        from: typeof from === 'string' && from ? from : undefined,
+        to: typeof to === 'string' && to ? to : undefined,
+        groupBy: groupBy === 'month' ? 'month' : 'day'
+      });
+      res.status(200).json(margin);
+    } catch (error) {
+      ReportController.handleError(res, error);
+    }
+  }
+
+  /**
+   * Obtiene las cuentas por pagar por edades (facturas de proveedores abiertas)
+   * GET /api/v1/reports/payables-aging
+   */
+  static async getPayablesAging(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const aging = await ReportService.getPayablesAging(tenantId);
+      res.status(200).json(aging);
+    } catch (error) {
+      ReportController.handleError(res, error);
+    }
+  }
+
+  /**
+   * Obtiene el estado de la resolución de facturación DIAN activa y sus alertas
+   * GET /api/v1/reports/resolution-status
+   */
+  static async getResolutionStatus(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const status = await ResolutionService.getActiveResolutionStatus(tenantId);
+      res.status(200).json(status);
+    } catch (error) {
+      ReportController.handleError(res, error);
+    }
+  }
+
+  /**
+   * Obtiene los lotes vencidos y los que vencen en los próximos días (por defecto EXPIRY_WARNING_DAYS)
+   * GET /api/v1/reports/expiring-lots?days=30
+   */
+  static async getExpiringLots(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const days = req.query.days !== undefined && req.query.days !== '' ? Number(req.query.days) : undefined;
+      const report = await LotService.getExpiringLots(tenantId, days);
+      res.status(200).json(report);
+    } catch (error) {
+      ReportController.handleError(res, error);
+    }
+  }
+
+  /**
+   * Obtiene el sugerido de compra agrupado por proveedor; con format=csv lo descarga como archivo
+   * GET /api/v1/reports/reorder-suggestions?days=30&coverageDays=30&supplierId=...&format=csv
+   */
+  static async getReorderSuggestions(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { days, coverageDays, supplierId, format } = req.query;
+      const report = await ReorderService.getReorderSuggestions(tenantId, {
+        days: typeof days === 'string' && days !== '' ? Number(days) : undefined,
+        coverageDays: typeof coverageDays === 'string' && coverageDays !== '' ? Number(coverageDays) : undefined,
+        supplierId: typeof supplierId === 'string' && supplierId !== '' ? supplierId : undefined
+      });
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="sugerido-compras-${report.to}.csv"`);
+        res.status(200).send(ReorderService.exportReorderSuggestionsCsv(report));
+        return;
+      }
+      res.status(200).json(report);
+    } catch (error) {
+      ReportController.handleError(res, error);
+    }
+  }
+
   /**
    * Cierra un turno de caja
    * POST /api/v1/reports/close-shift
@@ -172,6 +313,9 @@ class ReportController {
       } else if (error.message.includes('no encontrada') || error.message.includes('no existe')) {
         message = error.message;
         statusCode = 404;
+      } else if (error.message.includes('inválida')) {
+        message = error.message;
+        statusCode = 400;
       } else {
         message = error.message || 'Error al procesar la solicitud';
       }
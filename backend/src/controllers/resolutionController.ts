@@ -0,0 +1,174 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+
+import '../types/express';
+import * as ResolutionService from '../services/resolutionService';
+
+const RESOLUTION_BODY_FIELDS = [
+  'resolutionNumber',
+  'prefix',
+  'rangeFrom',
+  'rangeTo',
+  'validFrom',
+  'validTo',
+  'technicalKey'
+] as const;
+
+class ResolutionController {
+  static async getResolutions(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const resolutions = await ResolutionService.getResolutions(tenantId);
+      res.status(200).json(resolutions);
+    } catch (error) {
+      ResolutionController.handleError(res, error);
+    }
+  }
+
+  static async getResolutionById(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const resolution = await ResolutionService.getResolutionById(id, tenantId);
+      if (!resolution) {
+        res.status(404).json({ message: 'Resolución no encontrada' });
+        return;
+      }
+      res.status(200).json(resolution);
+    } catch (error) {
+      ResolutionController.handleError(res, error);
+    }
+  }
+
+  static async createResolution(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { resolutionNumber, prefix, rangeFrom, rangeTo, validFrom, validTo, technicalKey, isActive } = req.body;
+
+      const resolutionData: ResolutionService.CreateResolutionInput = {
+        resolutionNumber: resolutionNumber !== undefined && resolutionNumber !== null ? String(resolutionNumber) : '',
+        prefix: prefix !== undefined && prefix !== null ? String(prefix) : '',
+        rangeFrom: Number(rangeFrom),
+        rangeTo: Number(rangeTo),
+        validFrom: validFrom !== undefined && validFrom !== null ? String(validFrom) : '',
+        validTo: validTo !== undefined && validTo !== null ? String(validTo) : '',
+        technicalKey: technicalKey !== undefined && technicalKey !== null ? String(technicalKey) : '',
+        isActive: Boolean(isActive)
+      };
+
+      const resolution = await ResolutionService.createResolution(resolutionData, tenantId);
+      res.status(201).json(resolution);
+    } catch (error) {
+      ResolutionController.handleError(res, error);
+    }
+  }
+
+  static async updateResolution(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const updateData: ResolutionService.UpdateResolutionInput = {};
+
+      for (const field of RESOLUTION_BODY_FIELDS) {
+        if (req.body[field] === undefined || req.body[field] === null) continue;
+        if (field === 'rangeFrom' || field === 'rangeTo') {
+          updateData[field] = Number(req.body[field]);
+        } else {
+          updateData[field] = String(req.body[field]);
+        }
+      }
+      if (req.body.isActive !== undefined) updateData.isActive = Boolean(req.body.isActive);
+
+      const resolution = await ResolutionService.updateResolution(id, updateData, tenantId);
+      res.status(200).json(resolution);
+    } catch (error) {
+      ResolutionController.handleError(res, error);
+    }
+  }
+
+  static async deleteResolution(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      await ResolutionService.deleteResolution(id, tenantId);
+      res.status(204).send();
+    } catch (error) {
+      ResolutionController.handleError(res, error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2025') {
+        res.status(404).json({
+          message: 'Resolución no encontrada',
+          code: error.code
+        });
+        return;
+      }
+      res.status(400).json({
+        message: 'Error de validación en la base de datos',
+        code: error.code
+      });
+      return;
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      if (error.message.includes('no encontrada')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requerid') ||
+        error.message.includes('inválid') ||
+        error.message.includes('Ya existe') ||
+        error.message.includes('No se puede');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [ResolutionController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default ResolutionController;
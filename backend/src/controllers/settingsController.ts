@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+
+import '../types/express';
+import * as SettingsService from '../services/settingsService';
+
+const BOOLEAN_SETTINGS = ['enableTax', 'enableInventory', 'enableCredit', 'enableElectronicBilling'] as const;
+
+class SettingsController {
+  static async getCompanySettings(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const result = await SettingsService.getCompanySettings(tenantId);
+      res.status(200).json(result);
+    } catch (error) {
+      SettingsController.handleError(res, error);
+    }
+  }
+
+  static async updateCompanySettings(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { name, nit, dv, email, phone, address } = req.body;
+
+      const settingsData: SettingsService.UpdateCompanySettingsInput = {
+        name: name !== undefined ? String(name) : undefined,
+        nit: nit !== undefined && nit !== null ? String(nit) : nit,
+        dv: dv !== undefined && dv !== null ? String(dv) : dv,
+        email,
+        phone,
+        address
+      };
+      for (const key of BOOLEAN_SETTINGS) {
+        if (req.body[key] !== undefined) {
+          settingsData[key] = Boolean(req.body[key]);
+        }
+      }
+
+      const result = await SettingsService.updateCompanySettings(tenantId, settingsData);
+      res.status(200).json(result);
+    } catch (error) {
+      SettingsController.handleError(res, error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      res.status(400).json({
+        message: 'Error de validación en la base de datos',
+        code: error.code
+      });
+      return;
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      if (error.message.includes('no encontrada')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requiere') ||
+        error.message.includes('inválid');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [SettingsController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default SettingsController;
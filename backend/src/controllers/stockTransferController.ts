@@ -0,0 +1,129 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+
+import '../types/express';
+import * as StockTransferService from '../services/stockTransferService';
+
+class StockTransferController {
+  static async getStockTransfers(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { locationId } = req.query;
+      const transfers = await StockTransferService.getStockTransfers(tenantId, {
+        locationId: typeof locationId === 'string' ? locationId : undefined
+      });
+      res.status(200).json(transfers);
+    } catch (error) {
+      StockTransferController.handleError(res, error);
+    }
+  }
+
+  static async getStockTransferById(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const transfer = await StockTransferService.getStockTransferById(id, tenantId);
+      if (!transfer) {
+        res.status(404).json({ message: 'Traslado no encontrado' });
+        return;
+      }
+      res.status(200).json(transfer);
+    } catch (error) {
+      StockTransferController.handleError(res, error);
+    }
+  }
+
+  static async createStockTransfer(req: Request, res: Response) {
+    try {
+      // Extraer tenantId y userId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      const userId = req.user?.userId;
+      if (!tenantId || !userId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { fromLocationId, toLocationId, notes, items } = req.body;
+
+      if (!Array.isArray(items)) {
+        res.status(400).json({ message: 'Los productos del traslado son requeridos' });
+        return;
+      }
+
+      const transfer = await StockTransferService.createStockTransfer({
+        fromLocationId: fromLocationId ? String(fromLocationId) : '',
+        toLocationId: toLocationId ? String(toLocationId) : '',
+        notes: notes !== undefined && notes !== null ? String(notes) : null,
+        items: items.map((item: Record<string, unknown>) => ({
+          productId: String(item.productId ?? ''),
+          quantity: Number(item.quantity)
+        })),
+        createdById: userId
+      }, tenantId);
+      res.status(201).json(transfer);
+    } catch (error) {
+      StockTransferController.handleError(res, error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2034' || error.code === 'P2002') {
+        res.status(409).json({
+          message: 'Otra operación simultánea modificó los datos, intenta de nuevo',
+          code: error.code
+        });
+        return;
+      }
+      res.status(400).json({
+        message: 'Error de validación en la base de datos',
+        code: error.code
+      });
+      return;
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      if (error.message.includes('Stock insuficiente')) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+      if (error.message.includes('no encontrad')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requerid') ||
+        error.message.includes('inválid') ||
+        error.message.includes('inactiva') ||
+        error.message.includes('al menos un producto');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [StockTransferController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default StockTransferController;
@@ -0,0 +1,160 @@
+import { Request, Response } from 'express';
+import { PaymentMethod, Prisma, SupplierBillStatus } from '@prisma/client';
+
+import '../types/express';
+import * as SupplierBillService from '../services/supplierBillService';
+
+class SupplierBillController {
+  static async getSupplierBills(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { supplierId, status } = req.query;
+      const bills = await SupplierBillService.getSupplierBills(tenantId, {
+        supplierId: typeof supplierId === 'string' ? supplierId : undefined,
+        status: typeof status === 'string' ? status as SupplierBillStatus : undefined
+      });
+      res.status(200).json(bills);
+    } catch (error) {
+      SupplierBillController.handleError(res, error);
+    }
+  }
+
+  static async getSupplierBillById(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const bill = await SupplierBillService.getSupplierBillById(id, tenantId);
+      if (!bill) {
+        res.status(404).json({ message: 'Factura de proveedor no encontrada' });
+        return;
+      }
+      res.status(200).json(bill);
+    } catch (error) {
+      SupplierBillController.handleError(res, error);
+    }
+  }
+
+  static async createSupplierBill(req: Request, res: Response) {
+    try {
+      // Extraer tenantId y userId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      const userId = req.user?.userId;
+      if (!tenantId || !userId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { supplierId, purchaseId, billNumber, issueDate, dueDate, subtotal, taxTotal, accountCode, notes } = req.body;
+
+      const billData: SupplierBillService.CreateSupplierBillInput = {
+        supplierId: supplierId !== undefined && supplierId !== null ? String(supplierId) : '',
+        purchaseId: purchaseId ? String(purchaseId) : null,
+        billNumber: billNumber !== undefined && billNumber !== null ? String(billNumber) : '',
+        issueDate: issueDate ? String(issueDate) : undefined,
+        dueDate: dueDate ? String(dueDate) : undefined,
+        subtotal: subtotal !== undefined && subtotal !== null && subtotal !== '' ? Number(subtotal) : undefined,
+        taxTotal: taxTotal !== undefined && taxTotal !== null && taxTotal !== '' ? Number(taxTotal) : undefined,
+        accountCode: accountCode ? String(accountCode) : undefined,
+        notes: notes !== undefined && notes !== null ? String(notes) : null,
+        createdById: userId
+      };
+
+      const bill = await SupplierBillService.createSupplierBill(billData, tenantId);
+      res.status(201).json(bill);
+    } catch (error) {
+      SupplierBillController.handleError(res, error);
+    }
+  }
+
+  static async registerSupplierPayment(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId y userId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      const userId = req.user?.userId;
+      if (!tenantId || !userId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const { amount, method, paymentDate, reference, notes } = req.body;
+
+      const paymentData: SupplierBillService.CreateSupplierPaymentInput = {
+        amount: Number(amount),
+        method: String(method ?? '') as PaymentMethod,
+        paymentDate: paymentDate ? String(paymentDate) : undefined,
+        reference: reference !== undefined && reference !== null ? String(reference) : null,
+        notes: notes !== undefined && notes !== null ? String(notes) : null,
+        createdById: userId
+      };
+
+      const result = await SupplierBillService.registerSupplierPayment(id, paymentData, tenantId);
+      res.status(201).json(result);
+    } catch (error) {
+      SupplierBillController.handleError(res, error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2034') {
+        res.status(409).json({
+          message: 'Otra operación simultánea modificó los datos, intenta de nuevo',
+          code: error.code
+        });
+        return;
+      }
+      res.status(400).json({
+        message: 'Error de validación en la base de datos',
+        code: error.code
+      });
+      return;
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      if (error.message.includes('simultáneo')) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+      if (error.message.includes('no encontrad')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requerid') ||
+        error.message.includes('inválid') ||
+        error.message.includes('Ya existe') ||
+        error.message.includes('no pertenece') ||
+        error.message.includes('excede') ||
+        error.message.includes('ya está pagada');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [SupplierBillController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default SupplierBillController;
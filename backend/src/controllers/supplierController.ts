@@ -0,0 +1,181 @@
+import { Request, Response } from 'express';
+import { DocumentType, Prisma } from '@prisma/client';
+
+import '../types/express';
+import * as SupplierService from '../services/supplierService';
+
+const SUPPLIER_TEXT_FIELDS = [
+  'businessName',
+  'identification',
+  'dv',
+  'contactName',
+  'email',
+  'phone',
+  'address'
+] as const;
+
+class SupplierController {
+  static async getSuppliers(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const suppliers = await SupplierService.getSuppliers(tenantId, {
+        includeInactive: req.query.includeInactive === 'true',
+        search: typeof req.query.search === 'string' ? req.query.search : undefined
+      });
+      res.status(200).json(suppliers);
+    } catch (error) {
+      SupplierController.handleError(res, error);
+    }
+  }
+
+  static async getSupplierById(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const supplier = await SupplierService.getSupplierById(id, tenantId);
+      if (!supplier) {
+        res.status(404).json({ message: 'Proveedor no encontrado' });
+        return;
+      }
+      res.status(200).json(supplier);
+    } catch (error) {
+      SupplierController.handleError(res, error);
+    }
+  }
+
+  static async createSupplier(req: Request, res: Response) {
+    try {
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const supplierData: SupplierService.CreateSupplierInput = {
+        ...SupplierController.parseBody(req.body),
+        businessName: req.body.businessName !== undefined && req.body.businessName !== null ? String(req.body.businessName) : '',
+        identification: req.body.identification !== undefined && req.body.identification !== null ? String(req.body.identification) : ''
+      };
+
+      const supplier = await SupplierService.createSupplier(supplierData, tenantId);
+      res.status(201).json(supplier);
+    } catch (error) {
+      SupplierController.handleError(res, error);
+    }
+  }
+
+  static async updateSupplier(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      const supplier = await SupplierService.updateSupplier(id, SupplierController.parseBody(req.body), tenantId);
+      res.status(200).json(supplier);
+    } catch (error) {
+      SupplierController.handleError(res, error);
+    }
+  }
+
+  static async deleteSupplier(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      // Extraer tenantId del usuario autenticado
+      const tenantId = req.user?.tenantId;
+      if (!tenantId) {
+        res.status(401).json({ message: 'Usuario no autenticado' });
+        return;
+      }
+
+      await SupplierService.deleteSupplier(id, tenantId);
+      res.status(204).send();
+    } catch (error) {
+      SupplierController.handleError(res, error);
+    }
+  }
+
+  // Toma del body solo los campos conocidos del proveedor
+  private static parseBody(body: Record<string, unknown>): SupplierService.UpdateSupplierInput {
+    const data: SupplierService.UpdateSupplierInput = {};
+
+    for (const field of SUPPLIER_TEXT_FIELDS) {
+      if (body[field] === undefined) continue;
+      if (field === 'businessName' || field === 'identification') {
+        data[field] = body[field] === null ? '' : String(body[field]);
+      } else {
+        data[field] = body[field] === null ? null : String(body[field]);
+      }
+    }
+    if (body.documentType !== undefined && body.documentType !== null) {
+      data.documentType = String(body.documentType) as DocumentType;
+    }
+    if (body.paymentTermDays !== undefined && body.paymentTermDays !== null) {
+      data.paymentTermDays = Number(body.paymentTermDays);
+    }
+    if (body.isActive !== undefined) data.isActive = Boolean(body.isActive);
+
+    return data;
+  }
+
+  private static handleError(res: Response, error: unknown) {
+    // Manejo de errores de Prisma
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2025') {
+        res.status(404).json({
+          message: 'Proveedor no encontrado',
+          code: error.code
+        });
+        return;
+      }
+      res.status(400).json({
+        message: 'Error de validación en la base de datos',
+        code: error.code
+      });
+      return;
+    }
+
+    // Manejo de errores de validación del servicio
+    if (error instanceof Error) {
+      if (error.message.includes('no encontrado')) {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+
+      const isValidationError = error.message.includes('requerid') ||
+        error.message.includes('inválid') ||
+        error.message.includes('Ya existe') ||
+        error.message.includes('No se puede');
+
+      if (isValidationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    // Error genérico del servidor
+    console.error('❌ [SupplierController] Error inesperado:', error);
+    res.status(500).json({
+      message: 'Error interno del servidor',
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    });
+  }
+}
+
+export default SupplierController;
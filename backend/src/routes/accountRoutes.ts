@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import AccountController from '../controllers/accountController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Plan de cuentas: todas las rutas solo para ADMIN
+router.get('/', protect, checkRole([UserRole.ADMIN]), AccountController.getAllAccounts);
+router.post('/seed', protect, checkRole([UserRole.ADMIN]), AccountController.seedAccounts);
+router.get('/:id', protect, checkRole([UserRole.ADMIN]), AccountController.getAccountById);
+router.post('/', protect, checkRole([UserRole.ADMIN]), AccountController.createAccount);
+router.put('/:id', protect, checkRole([UserRole.ADMIN]), AccountController.updateAccount);
+router.delete('/:id', protect, checkRole([UserRole.ADMIN]), AccountController.deleteAccount);
+
+export default router;
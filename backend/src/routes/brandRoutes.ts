@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import BrandController from '../controllers/brandController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Marcas: cualquier usuario autenticado las consulta; crearlas, editarlas y eliminarlas solo ADMIN y MANAGER
+router.get('/', protect, BrandController.getBrands);
+router.post('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), BrandController.createBrand);
+router.put('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), BrandController.updateBrand);
+router.delete('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), BrandController.deleteBrand);
+
+export default router;
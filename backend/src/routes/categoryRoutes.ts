@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import CategoryController from '../controllers/categoryController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Categorías: cualquier usuario autenticado las consulta (pestañas del POS);
+// crearlas, editarlas y eliminarlas solo ADMIN y MANAGER
+router.get('/', protect, CategoryController.getCategories);
+router.post('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), CategoryController.createCategory);
+router.put('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), CategoryController.updateCategory);
+router.delete('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), CategoryController.deleteCategory);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import InventoryCountController from '../controllers/inventoryCountController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Tomas físicas: cualquier usuario autenticado consulta y registra lo contado;
+// abrir, publicar (ajusta el stock) y anular solo ADMIN y MANAGER
+router.get('/', protect, InventoryCountController.getInventoryCounts);
+router.get('/:id', protect, InventoryCountController.getInventoryCountById);
+router.post('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), InventoryCountController.openInventoryCount);
+router.put('/:id/items', protect, InventoryCountController.recordCount);
+router.delete('/:id/items/:itemId', protect, InventoryCountController.removeCountItem);
+router.post('/:id/post', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), InventoryCountController.postInventoryCount);
+router.post('/:id/cancel', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), InventoryCountController.cancelInventoryCount);
+
+export default router;
@@ -6,14 +6,29 @@ import { protect, checkRole } from '../middleware/authMiddleware';
 
 const router = Router();
 
+// Configuración de la numeración solo para ADMIN (antes de /:id para no confundirla con un ID)
+router.get('/numbering', protect, checkRole([UserRole.ADMIN]), InvoiceController.getNumbering);
+router.put('/numbering', protect, checkRole([UserRole.ADMIN]), InvoiceController.updateNumbering);
+
 // GET disponible para todos los usuarios autenticados
 router.get('/', protect, InvoiceController.getAllInvoices);
 router.get('/:id', protect, InvoiceController.getInvoiceById);
+router.get('/:id/payments', protect, InvoiceController.getInvoicePayments);
+router.get('/:id/xml', protect, InvoiceController.getInvoiceXml);
+router.get('/:id/credit-notes', protect, InvoiceController.getInvoiceCreditNotes);
 
-// POST (crear factura) disponible para todos (cajeros pueden crear ventas)
+// POST (cotizar y crear factura) disponible para todos (cajeros pueden crear ventas)
+router.post('/quote', protect, InvoiceController.quoteInvoice);
 router.post('/', protect, InvoiceController.createInvoice);
 
-// PUT y DELETE solo para ADMIN y MANAGER
+// POST (registrar pago) disponible para todos (cajeros reciben abonos)
+router.post('/:id/payments', protect, InvoiceController.registerPayment);
+
+// Anulación y notas crédito solo para ADMIN y MANAGER (reversan inventario y contabilidad)
+router.post('/:id/cancel', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), InvoiceController.cancelInvoice);
+router.post('/:id/credit-notes', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), InvoiceController.createCreditNote);
+
+// PUT y DELETE (solo borradores) solo para ADMIN y MANAGER
 router.put('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), InvoiceController.updateInvoice);
 router.delete('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), InvoiceController.deleteInvoice);
 
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import LocationController from '../controllers/locationController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Bodegas: cualquier usuario autenticado las consulta; crearlas, editarlas
+// y asignar la bodega de cada caja solo ADMIN y MANAGER
+router.get('/', protect, LocationController.getLocations);
+router.post('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), LocationController.createLocation);
+router.get('/cash-registers', protect, LocationController.getCashRegisters);
+router.put('/cash-registers/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), LocationController.assignCashRegisterLocation);
+router.put('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), LocationController.updateLocation);
+
+export default router;
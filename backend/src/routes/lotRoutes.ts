@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import LotController from '../controllers/lotController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Lotes: cualquier usuario autenticado los consulta; asignar stock a un lote
+// y corregir su vencimiento solo ADMIN y MANAGER
+router.get('/', protect, LotController.getLots);
+router.get('/expiring', protect, LotController.getExpiringLots);
+router.post('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), LotController.assignLot);
+router.put('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), LotController.updateLot);
+
+export default router;
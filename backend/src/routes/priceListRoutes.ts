@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import PriceListController from '../controllers/priceListController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Listas de precios: cualquier usuario autenticado las consulta (el POS las usa para vender);
+// crearlas, editarlas y fijar sus precios solo ADMIN y MANAGER
+router.get('/', protect, PriceListController.getPriceLists);
+router.get('/:id', protect, PriceListController.getPriceListById);
+// Precio de cada producto activo en la lista, tal como lo cobrará la venta
+router.get('/:id/prices', protect, PriceListController.getPriceListPrices);
+router.post('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), PriceListController.createPriceList);
+router.put('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), PriceListController.updatePriceList);
+router.put('/:id/items', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), PriceListController.setPriceListItems);
+router.delete('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), PriceListController.deletePriceList);
+
+export default router;
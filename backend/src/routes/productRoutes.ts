@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { UserRole } from '@prisma/client';
 
 import ProductController from '../controllers/productController';
@@ -8,10 +8,27 @@ const router = Router();
 
 // Rutas GET disponibles para todos los usuarios autenticados (incluidos cajeros)
 router.get('/', protect, ProductController.getAllProducts);
+// Búsqueda por código de barras o SKU (escáner del POS); debe ir antes de /:id
+router.get('/lookup', protect, ProductController.lookupProduct);
+// Descarga del catálogo filtrado en CSV o Excel; debe ir antes de /:id
+router.get('/export', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), ProductController.exportProducts);
 router.get('/:id', protect, ProductController.getProductById);
 
+// Kardex (movimientos de inventario) para auditoría: solo ADMIN y MANAGER
+router.get('/:id/kardex', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), ProductController.getProductKardex);
+
 // Rutas de modificación solo para ADMIN y MANAGER
 router.post('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), ProductController.createProduct);
+// Hoja PDF de etiquetas con código de barras; asigna códigos internos a los productos que no tienen
+router.post('/labels', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), ProductController.printLabels);
+// Importación masiva desde CSV o Excel: el archivo llega tal cual en el cuerpo de la petición
+router.post(
+  '/import',
+  protect,
+  checkRole([UserRole.ADMIN, UserRole.MANAGER]),
+  express.raw({ type: () => true, limit: '10mb' }),
+  ProductController.importProducts
+);
 router.put('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), ProductController.updateProduct);
 router.delete('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), ProductController.deleteProduct);
 
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import PromotionController from '../controllers/promotionController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Promociones: cualquier usuario autenticado las consulta (el POS muestra las vigentes);
+// crearlas, editarlas y eliminarlas solo ADMIN y MANAGER
+router.get('/', protect, PromotionController.getPromotions);
+router.post('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), PromotionController.createPromotion);
+router.put('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), PromotionController.updatePromotion);
+router.delete('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), PromotionController.deletePromotion);
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import PurchaseController from '../controllers/purchaseController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Compras a proveedores: la recepción aumenta el stock, por eso solo ADMIN y MANAGER
+router.get('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), PurchaseController.getPurchases);
+router.get('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), PurchaseController.getPurchaseById);
+router.post('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), PurchaseController.createPurchase);
+
+export default router;
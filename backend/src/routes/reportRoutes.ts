@@ -11,6 +11,12 @@ router.get('/revenue-by-month', protect, restrictTo('ADMIN'), ReportController.g
 router.get('/daily-weekly-revenue', protect, restrictTo('ADMIN'), ReportController.getDailyAndWeeklyRevenue);
 router.get('/last-shift-closeout', protect, restrictTo('ADMIN'), ReportController.getLastShiftCloseout);
 router.get('/top-selling-products', protect, restrictTo('ADMIN'), ReportController.getTopSellingProducts);
+router.get('/gross-margin', protect, restrictTo('ADMIN'), ReportController.getGrossMargin);
+router.get('/receivables-aging', protect, restrictTo('ADMIN'), ReportController.getReceivablesAging);
+router.get('/payables-aging', protect, restrictTo('ADMIN'), ReportController.getPayablesAging);
+router.get('/resolution-status', protect, restrictTo('ADMIN'), ReportController.getResolutionStatus);
+router.get('/expiring-lots', protect, restrictTo('ADMIN'), ReportController.getExpiringLots);
+router.get('/reorder-suggestions', protect, restrictTo('ADMIN'), ReportController.getReorderSuggestions);
 router.post('/close-shift', protect, ReportController.closeDayShift); // Permitir a todos los usuarios autenticados
 
 export default router;
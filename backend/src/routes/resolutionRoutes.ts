@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import ResolutionController from '../controllers/resolutionController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Resoluciones de facturación DIAN: todas las rutas solo para ADMIN
+router.get('/', protect, checkRole([UserRole.ADMIN]), ResolutionController.getResolutions);
+router.get('/:id', protect, checkRole([UserRole.ADMIN]), ResolutionController.getResolutionById);
+router.post('/', protect, checkRole([UserRole.ADMIN]), ResolutionController.createResolution);
+router.put('/:id', protect, checkRole([UserRole.ADMIN]), ResolutionController.updateResolution);
+router.delete('/:id', protect, checkRole([UserRole.ADMIN]), ResolutionController.deleteResolution);
+
+export default router;
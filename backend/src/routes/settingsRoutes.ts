@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import SettingsController from '../controllers/settingsController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Configuración de la empresa: solo para ADMIN
+router.get('/company', protect, checkRole([UserRole.ADMIN]), SettingsController.getCompanySettings);
+router.put('/company', protect, checkRole([UserRole.ADMIN]), SettingsController.updateCompanySettings);
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import StockTransferController from '../controllers/stockTransferController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Traslados entre bodegas: mueven stock, por eso solo ADMIN y MANAGER
+router.get('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), StockTransferController.getStockTransfers);
+router.get('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), StockTransferController.getStockTransferById);
+router.post('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), StockTransferController.createStockTransfer);
+
+export default router;
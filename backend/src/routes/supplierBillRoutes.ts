@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import SupplierBillController from '../controllers/supplierBillController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Cuentas por pagar: facturas de proveedores y sus pagos, solo para ADMIN y MANAGER
+router.get('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), SupplierBillController.getSupplierBills);
+router.get('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), SupplierBillController.getSupplierBillById);
+router.post('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), SupplierBillController.createSupplierBill);
+router.post('/:id/payments', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), SupplierBillController.registerSupplierPayment);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+
+import SupplierController from '../controllers/supplierController';
+import { protect, checkRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Proveedores: consulta y administración para ADMIN y MANAGER
+router.get('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), SupplierController.getSuppliers);
+router.get('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), SupplierController.getSupplierById);
+router.post('/', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), SupplierController.createSupplier);
+router.put('/:id', protect, checkRole([UserRole.ADMIN, UserRole.MANAGER]), SupplierController.updateSupplier);
+router.delete('/:id', protect, checkRole([UserRole.ADMIN]), SupplierController.deleteSupplier);
+
+export default router;
@@ -5,12 +5,26 @@ import cors from 'cors';
 import express from 'express';
 import helmet from 'helmet';
 
+import accountRoutes from './routes/accountRoutes';
 import authRoutes from './routes/authRoutes';
+import brandRoutes from './routes/brandRoutes';
+import categoryRoutes from './routes/categoryRoutes';
 import clientRoutes from './routes/clientRoutes';
 import healthRoutes from './routes/health';
+import inventoryCountRoutes from './routes/inventoryCountRoutes';
 import invoiceRoutes from './routes/invoiceRoutes';
+import locationRoutes from './routes/locationRoutes';
+import lotRoutes from './routes/lotRoutes';
+import priceListRoutes from './routes/priceListRoutes';
 import productRoutes from './routes/productRoutes';
+import promotionRoutes from './routes/promotionRoutes';
+import purchaseRoutes from './routes/purchaseRoutes';
 import reportRoutes from './routes/reportRoutes';
+import resolutionRoutes from './routes/resolutionRoutes';
+import settingsRoutes from './routes/settingsRoutes';
+import stockTransferRoutes from './routes/stockTransferRoutes';
+import supplierBillRoutes from './routes/supplierBillRoutes';
+import supplierRoutes from './routes/supplierRoutes';
 
 // Solo cargar .env en desarrollo (en producción, Render proporciona las variables de entorno)
 const isProduction = process.env.NODE_ENV === 'production';
@@ -61,11 +75,25 @@ async function bootstrap(): Promise<void> {
         app.use(express.json());
 
         app.use('/api/v1/health', healthRoutes);
+        app.use('/api/v1/accounts', accountRoutes);
         app.use('/api/v1/auth', authRoutes);
+        app.use('/api/v1/brands', brandRoutes);
+        app.use('/api/v1/categories', categoryRoutes);
         app.use('/api/v1/clients', clientRoutes);
+        app.use('/api/v1/inventory-counts', inventoryCountRoutes);
         app.use('/api/v1/invoices', invoiceRoutes);
+        app.use('/api/v1/locations', locationRoutes);
+        app.use('/api/v1/lots', lotRoutes);
+        app.use('/api/v1/price-lists', priceListRoutes);
         app.use('/api/v1/products', productRoutes);
+        app.use('/api/v1/promotions', promotionRoutes);
+        app.use('/api/v1/purchases', purchaseRoutes);
         app.use('/api/v1/reports', reportRoutes);
+        app.use('/api/v1/resolutions', resolutionRoutes);
+        app.use('/api/v1/settings', settingsRoutes);
+        app.use('/api/v1/stock-transfers', stockTransferRoutes);
+        app.use('/api/v1/supplier-bills', supplierBillRoutes);
+        app.use('/api/v1/suppliers', supplierRoutes);
 
         app.get('/', (_req, res) => {
             res.json({ message: 'Backend PyMes Operativo 🚀' });
@@ -0,0 +1,403 @@
+// backend/src/services/accountService.ts
+// Servicio del plan de cuentas (PUC Colombia) por tenant
+
+import { AccountNature, Prisma } from '@prisma/client';
+
+import prisma from '../db';
+import { ACCOUNT_CODES } from '../config/constants';
+import { PUC_ACCOUNTS } from '../config/pucColombia';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Interfaz para crear una cuenta (sin tenantId, se maneja internamente)
+ * La clase se deriva del primer dígito del código
+ */
+export interface CreateAccountInput {
+  code: string;
+  name: string;
+  nature: AccountNature;
+  parentCode?: string | null;
+  isActive?: boolean;
+}
+
+/**
+ * Campos editables de una cuenta
+ * El código no se puede modificar porque los movimientos contables lo referencian
+ */
+export interface UpdateAccountInput {
+  name?: string;
+  nature?: AccountNature;
+  isActive?: boolean;
+}
+
+/**
+ * Opciones de filtrado para getAllAccounts
+ */
+export interface AccountFilterOptions {
+  includeInactive?: boolean;
+  accountClass?: number;
+  search?: string;
+}
+
+const ACCOUNT_FIELDS = {
+  id: true,
+  tenantId: true,
+  code: true,
+  name: true,
+  nature: true,
+  class: true,
+  parentId: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+// Longitudes de código del PUC: clase, grupo, cuenta, subcuenta y auxiliares
+const CODE_LEVEL_LENGTHS = [1, 2, 4, 6, 8, 10];
+
+const ACCOUNT_CODE_REGEX = /^[1-9]\d{0,9}$/;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Busca el código de la cuenta padre: el prefijo más largo del código que exista en el plan
+ */
+const findParentCode = (code: string, existingCodes: Set<string>): string | null => {
+  const prefixLengths = CODE_LEVEL_LENGTHS.filter((length) => length < code.length).reverse();
+  for (const length of prefixLengths) {
+    const prefix = code.substring(0, length);
+    if (existingCodes.has(prefix)) {
+      return prefix;
+    }
+  }
+  return null;
+};
+
+/**
+ * Indica si la cuenta la usan los asientos automáticos (ventas, pagos, notas crédito, compras)
+ * o es una de sus cuentas padre: desactivarla o eliminarla frenaría la contabilización
+ */
+const isSystemAccount = (code: string): boolean => {
+  return Object.values(ACCOUNT_CODES).some((systemCode) => systemCode.startsWith(code));
+};
+
+// ==================== SEED ====================
+
+/**
+ * Crea en el plan de cuentas del tenant las cuentas del PUC que aún no existan
+ * Se insertan por niveles para poder enlazar cada cuenta con su cuenta padre
+ *
+ * @param tenantId - ID del tenant
+ * @param tx - Cliente de Prisma (transacción en curso o cliente global)
+ * @returns Número de cuentas creadas
+ */
+export const seedChartOfAccounts = async (
+  tenantId: string,
+  tx: Prisma.TransactionClient = prisma
+): Promise<number> => {
+  const existing = await tx.account.findMany({
+    where: { tenantId },
+    select: { id: true, code: true }
+  });
+  const idsByCode = new Map(existing.map((account) => [account.code, account.id]));
+
+  let created = 0;
+
+  for (const length of CODE_LEVEL_LENGTHS) {
+    const missing = PUC_ACCOUNTS.filter(
+      (account) => account.code.length === length && !idsByCode.has(account.code)
+    );
+    if (missing.length === 0) {
+      continue;
+    }
+
+    const existingCodes = new Set(idsByCode.keys());
+    const result = await tx.account.createMany({
+      data: missing.map((account) => {
+        const parentCode = findParentCode(account.code, existingCodes);
+        return {
+          tenantId,
+          code: account.code,
+          name: account.name,
+          nature: account.nature,
+          class: Number(account.code[0]),
+          parentId: parentCode ? idsByCode.get(parentCode) ?? null : null
+        };
+      }),
+      skipDuplicates: true
+    });
+    created += result.count;
+
+    const level = await tx.account.findMany({
+      where: { tenantId, code: { in: missing.map((account) => account.code) } },
+      select: { id: true, code: true }
+    });
+    level.forEach((account) => idsByCode.set(account.code, account.id));
+  }
+
+  return created;
+};
+
+/**
+ * Garantiza que el tenant tenga plan de cuentas, sembrando el PUC si está vacío
+ */
+export const ensureChartOfAccounts = async (
+  tenantId: string,
+  tx: Prisma.TransactionClient = prisma
+): Promise<void> => {
+  const count = await tx.account.count({ where: { tenantId } });
+  if (count === 0) {
+    await seedChartOfAccounts(tenantId, tx);
+  }
+};
+
+/**
+ * Verifica que todos los códigos existan y estén activos en el plan de cuentas del tenant
+ * Evita que un código mal escrito genere movimientos contables huérfanos
+ *
+ * @throws Error con la lista de códigos inválidos
+ */
+export const assertPostableAccounts = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  codes: string[]
+): Promise<void> => {
+  const uniqueCodes = Array.from(new Set(codes));
+
+  await ensureChartOfAccounts(tenantId, tx);
+
+  const accounts = await tx.account.findMany({
+    where: { tenantId, code: { in: uniqueCodes }, isActive: true },
+    select: { code: true }
+  });
+  const found = new Set(accounts.map((account) => account.code));
+  const invalid = uniqueCodes.filter((code) => !found.has(code));
+
+  if (invalid.length > 0) {
+    throw new Error(
+      `Cuenta contable inválida o inactiva en el plan de cuentas: ${invalid.join(', ')}`
+    );
+  }
+};
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene el plan de cuentas del tenant ordenado por código
+ * Si el tenant aún no tiene plan de cuentas se siembra con el PUC
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Opciones de filtrado opcionales
+ * @returns Array de cuentas
+ */
+export const getAllAccounts = async (
+  tenantId: string,
+  options: AccountFilterOptions = {}
+) => {
+  const { includeInactive = false, accountClass, search } = options;
+
+  await ensureChartOfAccounts(tenantId);
+
+  const whereConditions: Prisma.AccountWhereInput = { tenantId };
+
+  if (!includeInactive) {
+    whereConditions.isActive = true;
+  }
+
+  if (accountClass !== undefined) {
+    whereConditions.class = accountClass;
+  }
+
+  if (search && search.trim()) {
+    whereConditions.OR = [
+      { code: { startsWith: search.trim() } },
+      { name: { contains: search.trim(), mode: 'insensitive' } }
+    ];
+  }
+
+  return prisma.account.findMany({
+    where: whereConditions,
+    select: ACCOUNT_FIELDS,
+    orderBy: { code: 'asc' }
+  });
+};
+
+/**
+ * Obtiene una cuenta por ID con su cuenta padre y número de subcuentas
+ */
+export const getAccountById = async (id: string, tenantId: string) => {
+  return prisma.account.findFirst({
+    where: { id, tenantId },
+    select: {
+      ...ACCOUNT_FIELDS,
+      parent: { select: { id: true, code: true, name: true } },
+      _count: { select: { children: true } }
+    }
+  });
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Crea una cuenta en el plan de cuentas del tenant
+ * Si no se indica la cuenta padre se toma el prefijo más largo existente del código
+ *
+ * @param data - Datos de la cuenta
+ * @param tenantId - ID del tenant
+ * @returns Cuenta creada
+ */
+export const createAccount = async (data: CreateAccountInput, tenantId: string) => {
+  const code = data.code?.trim();
+  const name = data.name?.trim();
+
+  if (!code) {
+    throw new Error('El código de la cuenta es requerido');
+  }
+  if (!ACCOUNT_CODE_REGEX.test(code)) {
+    throw new Error('El código de la cuenta es inválido: debe tener entre 1 y 10 dígitos y no empezar por 0');
+  }
+  if (!name) {
+    throw new Error('El nombre de la cuenta es requerido');
+  }
+  if (!Object.values(AccountNature).includes(data.nature)) {
+    throw new Error('La naturaleza de la cuenta es inválida: use DEBIT o CREDIT');
+  }
+
+  await ensureChartOfAccounts(tenantId);
+
+  const duplicate = await prisma.account.findUnique({
+    where: { tenantId_code: { tenantId, code } },
+    select: { id: true }
+  });
+  if (duplicate) {
+    throw new Error(`Ya existe una cuenta con el código ${code}`);
+  }
+
+  let parentId: string | null = null;
+  if (data.parentCode) {
+    const parentCode = data.parentCode.trim();
+    if (!code.startsWith(parentCode) || parentCode.length >= code.length) {
+      throw new Error(`El código ${code} no pertenece a la cuenta padre ${parentCode}`);
+    }
+    const parent = await prisma.account.findUnique({
+      where: { tenantId_code: { tenantId, code: parentCode } },
+      select: { id: true }
+    });
+    if (!parent) {
+      throw new Error(`Cuenta padre ${parentCode} no encontrada`);
+    }
+    parentId = parent.id;
+  } else {
+    const prefixes = CODE_LEVEL_LENGTHS
+      .filter((length) => length < code.length)
+      .map((length) => code.substring(0, length));
+    const candidates = await prisma.account.findMany({
+      where: { tenantId, code: { in: prefixes } },
+      select: { id: true, code: true }
+    });
+    const parentCode = findParentCode(code, new Set(candidates.map((account) => account.code)));
+    parentId = candidates.find((account) => account.code === parentCode)?.id ?? null;
+  }
+
+  return prisma.account.create({
+    data: {
+      tenantId,
+      code,
+      name,
+      nature: data.nature,
+      class: Number(code[0]),
+      parentId,
+      isActive: data.isActive ?? true
+    },
+    select: ACCOUNT_FIELDS
+  });
+};
+
+// ==================== UPDATE OPERATIONS ====================
+
+/**
+ * Actualiza nombre, naturaleza o estado de una cuenta
+ */
+export const updateAccount = async (
+  id: string,
+  data: UpdateAccountInput,
+  tenantId: string
+) => {
+  const account = await prisma.account.findFirst({
+    where: { id, tenantId },
+    select: { id: true, code: true }
+  });
+  if (!account) {
+    throw new Error('Cuenta contable no encontrada');
+  }
+  if (data.isActive === false && isSystemAccount(account.code)) {
+    throw new Error(
+      `No se puede desactivar la cuenta ${account.code}: la usan los asientos automáticos de ventas, pagos y compras`
+    );
+  }
+
+  const updateData: Prisma.AccountUpdateInput = {};
+
+  if (data.name !== undefined) {
+    if (!data.name.trim()) {
+      throw new Error('El nombre de la cuenta es requerido');
+    }
+    updateData.name = data.name.trim();
+  }
+  if (data.nature !== undefined) {
+    if (!Object.values(AccountNature).includes(data.nature)) {
+      throw new Error('La naturaleza de la cuenta es inválida: use DEBIT o CREDIT');
+    }
+    updateData.nature = data.nature;
+  }
+  if (data.isActive !== undefined) {
+    updateData.isActive = data.isActive;
+  }
+
+  return prisma.account.update({
+    where: { id },
+    data: updateData,
+    select: ACCOUNT_FIELDS
+  });
+};
+
+// ==================== DELETE OPERATIONS ====================
+
+/**
+ * Elimina una cuenta sin subcuentas ni movimientos contables
+ * Las cuentas con movimientos solo se pueden desactivar
+ */
+export const deleteAccount = async (id: string, tenantId: string) => {
+  const account = await prisma.account.findFirst({
+    where: { id, tenantId },
+    select: { id: true, code: true, _count: { select: { children: true } } }
+  });
+  if (!account) {
+    throw new Error('Cuenta contable no encontrada');
+  }
+
+  if (isSystemAccount(account.code)) {
+    throw new Error(
+      `No se puede eliminar la cuenta ${account.code}: la usan los asientos automáticos de ventas, pagos y compras`
+    );
+  }
+
+  if (account._count.children > 0) {
+    throw new Error(`No se puede eliminar la cuenta ${account.code} porque tiene subcuentas`);
+  }
+
+  const movements = await prisma.transactionDetail.count({
+    where: { accountCode: account.code, transaction: { tenantId } }
+  });
+  if (movements > 0) {
+    throw new Error(
+      `No se puede eliminar la cuenta ${account.code} porque tiene movimientos contables. Desactívela en su lugar`
+    );
+  }
+
+  return prisma.account.delete({
+    where: { id },
+    select: ACCOUNT_FIELDS
+  });
+};
@@ -0,0 +1,575 @@
+// backend/src/services/accountingService.ts
+// Servicio de contabilidad - Asientos de partida doble (Transaction / TransactionDetail)
+
+import { InvoiceStatus, PaymentMethod, Prisma } from '@prisma/client';
+import { ACCOUNT_CODES } from '../config/constants';
+import { assertPostableAccounts } from './accountService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+// Línea de un asiento contable: debe llevar valor en débito o en crédito, nunca en ambos
+export interface JournalLineInput {
+  accountCode: string;
+  description?: string | null;
+  debit?: Prisma.Decimal.Value;
+  credit?: Prisma.Decimal.Value;
+  invoiceItemId?: string | null;
+}
+
+// Asiento contable completo
+export interface JournalEntryInput {
+  tenantId: string;
+  invoiceId?: string | null;
+  paymentId?: string | null;
+  creditNoteId?: string | null;
+  supplierBillId?: string | null;
+  supplierPaymentId?: string | null;
+  inventoryCountId?: string | null;
+  description: string;
+  transactionDate?: Date;
+  lines: JournalLineInput[];
+}
+
+// Datos mínimos de una factura para generar su asiento
+export interface InvoiceForPosting {
+  id: string;
+  tenantId: string;
+  number: string;
+  issueDate: Date;
+  paymentMethod: PaymentMethod;
+  isCreditSale: boolean;
+  total: Prisma.Decimal.Value;
+  taxTotal: Prisma.Decimal.Value;
+  items: Array<{
+    id: string;
+    description: string;
+    taxAmount: Prisma.Decimal.Value;
+    totalAmount: Prisma.Decimal.Value;
+  }>;
+}
+
+// Datos mínimos de un pago para generar su asiento
+export interface PaymentForPosting {
+  id: string;
+  tenantId: string;
+  invoiceId: string;
+  amount: Prisma.Decimal.Value;
+  method: PaymentMethod;
+  paymentDate: Date;
+  reference?: string | null;
+}
+
+// Datos mínimos de una nota crédito para generar su asiento
+export interface CreditNoteForPosting {
+  id: string;
+  tenantId: string;
+  invoiceId: string;
+  number: string;
+  invoiceNumber: string;
+  issueDate: Date;
+  taxTotal: Prisma.Decimal.Value;
+  total: Prisma.Decimal.Value;
+  receivablesAmount: Prisma.Decimal.Value; // Porción que reduce la cuenta por cobrar; el resto se reembolsa
+  refundMethod: PaymentMethod;
+  items: Array<{
+    description: string;
+    taxAmount: Prisma.Decimal.Value;
+    totalAmount: Prisma.Decimal.Value;
+  }>;
+}
+
+// Datos mínimos de una factura de proveedor para generar su asiento
+export interface SupplierBillForPosting {
+  id: string;
+  tenantId: string;
+  billNumber: string;
+  supplierName: string;
+  issueDate: Date;
+  subtotal: Prisma.Decimal.Value;
+  taxTotal: Prisma.Decimal.Value;
+  total: Prisma.Decimal.Value;
+  debitAccountCode: string; // Inventario, o la cuenta de costo o gasto de lo facturado
+}
+
+// Datos mínimos de un pago a proveedor para generar su asiento
+export interface SupplierPaymentForPosting {
+  id: string;
+  tenantId: string;
+  supplierBillId: string;
+  amount: Prisma.Decimal.Value;
+  method: PaymentMethod;
+  paymentDate: Date;
+  reference?: string | null;
+}
+
+// Diferencias valorizadas de una toma física de inventario al publicarse
+export interface InventoryCountForPosting {
+  id: string;
+  tenantId: string;
+  number: string;
+  postedAt: Date;
+  shortageCost: Prisma.Decimal.Value; // Valor al costo de las unidades faltantes
+  surplusCost: Prisma.Decimal.Value; // Valor al costo de las unidades sobrantes
+}
+
+// Estados de factura que generan asiento contable (venta reconocida)
+export const POSTABLE_INVOICE_STATUSES: InvoiceStatus[] = ['ISSUED', 'PAID'];
+
+const TRANSACTION_FIELDS = {
+  id: true,
+  tenantId: true,
+  invoiceId: true,
+  paymentId: true,
+  creditNoteId: true,
+  supplierBillId: true,
+  supplierPaymentId: true,
+  inventoryCountId: true,
+  description: true,
+  transactionDate: true,
+  totalDebit: true,
+  totalCredit: true,
+  createdAt: true,
+  updatedAt: true,
+  details: {
+    select: {
+      id: true,
+      accountCode: true,
+      description: true,
+      debit: true,
+      credit: true,
+      invoiceItemId: true
+    }
+  }
+} as const;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Redondea un valor monetario a 2 decimales (precisión de las columnas Decimal(18, 2))
+ */
+export const roundCurrency = (value: number): number => {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+};
+
+/**
+ * Indica si la factura es una venta a crédito (queda como cuenta por cobrar)
+ */
+export const isCreditInvoice = (
+  paymentMethod: PaymentMethod,
+  isCreditSale: boolean
+): boolean => {
+  return isCreditSale || paymentMethod === 'CREDIT';
+};
+
+/**
+ * Obtiene la cuenta a debitar según el medio de pago de la factura
+ * Las ventas a crédito quedan en cuentas por cobrar (clientes)
+ */
+export const getDebitAccountForPayment = (
+  paymentMethod: PaymentMethod,
+  isCreditSale: boolean
+): string => {
+  if (isCreditInvoice(paymentMethod, isCreditSale)) {
+    return ACCOUNT_CODES.RECEIVABLES;
+  }
+  if (paymentMethod === 'TRANSFER') {
+    return ACCOUNT_CODES.BANK;
+  }
+  return ACCOUNT_CODES.CASH;
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Registra un asiento contable de partida doble
+ * Rechaza el asiento si sus débitos y créditos no suman lo mismo
+ * o si alguna cuenta no existe o está inactiva en el plan de cuentas del tenant
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción en curso
+ * @param entry - Datos del asiento y sus líneas
+ * @returns Asiento creado con sus detalles
+ */
+export const createJournalEntry = async (
+  tx: Prisma.TransactionClient,
+  entry: JournalEntryInput
+) => {
+  if (!entry.lines || entry.lines.length < 2) {
+    throw new Error('El asiento contable debe tener al menos dos líneas');
+  }
+
+  let totalDebit = new Prisma.Decimal(0);
+  let totalCredit = new Prisma.Decimal(0);
+
+  const details = entry.lines.map((line) => {
+    const debit = new Prisma.Decimal(line.debit ?? 0).toDecimalPlaces(2);
+    const credit = new Prisma.Decimal(line.credit ?? 0).toDecimalPlaces(2);
+
+    if (!line.accountCode || !line.accountCode.trim()) {
+      throw new Error('Cada línea del asiento contable requiere un código de cuenta');
+    }
+    if (debit.isNegative() || credit.isNegative()) {
+      throw new Error(`La línea de la cuenta ${line.accountCode} tiene valores negativos`);
+    }
+    if (debit.isZero() === credit.isZero()) {
+      throw new Error(`La línea de la cuenta ${line.accountCode} debe tener valor solo en débito o solo en crédito`);
+    }
+
+    totalDebit = totalDebit.plus(debit);
+    totalCredit = totalCredit.plus(credit);
+
+    return {
+      accountCode: line.accountCode.trim(),
+      description: line.description ?? null,
+      debit,
+      credit,
+      invoiceItemId: line.invoiceItemId ?? null
+    };
+  });
+
+  if (!totalDebit.equals(totalCredit)) {
+    throw new Error(
+      `El asiento contable no está balanceado: débitos ${totalDebit.toFixed(2)} y créditos ${totalCredit.toFixed(2)}`
+    );
+  }
+
+  await assertPostableAccounts(
+    tx,
+    entry.tenantId,
+    details.map((detail) => detail.accountCode)
+  );
+
+  return tx.transaction.create({
+    data: {
+      tenantId: entry.tenantId,
+      invoiceId: entry.invoiceId ?? null,
+      paymentId: entry.paymentId ?? null,
+      creditNoteId: entry.creditNoteId ?? null,
+      supplierBillId: entry.supplierBillId ?? null,
+      supplierPaymentId: entry.supplierPaymentId ?? null,
+      inventoryCountId: entry.inventoryCountId ?? null,
+      description: entry.description,
+      transactionDate: entry.transactionDate ?? new Date(),
+      totalDebit,
+      totalCredit,
+      details: {
+        create: details
+      }
+    },
+    select: TRANSACTION_FIELDS
+  });
+};
+
+/**
+ * Genera el asiento contable de una factura emitida
+ * Débito: caja, bancos o clientes según el medio de pago (por el total)
+ * Crédito: ingresos por ventas por cada item e IVA generado por el impuesto total
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción de la factura
+ * @param invoice - Factura con sus items ya creados
+ * @returns Asiento creado o null si la factura no tiene valor
+ */
+export const postInvoiceJournalEntry = async (
+  tx: Prisma.TransactionClient,
+  invoice: InvoiceForPosting
+) => {
+  const total = new Prisma.Decimal(invoice.total);
+  if (total.isZero()) {
+    return null;
+  }
+
+  const lines: JournalLineInput[] = [
+    {
+      accountCode: getDebitAccountForPayment(invoice.paymentMethod, invoice.isCreditSale),
+      description: `Venta factura ${invoice.number}`,
+      debit: total
+    }
+  ];
+
+  for (const item of invoice.items) {
+    const revenue = new Prisma.Decimal(item.totalAmount).minus(item.taxAmount);
+    if (revenue.isZero()) {
+      continue;
+    }
+    lines.push({
+      accountCode: ACCOUNT_CODES.SALES_REVENUE,
+      description: item.description,
+      credit: revenue,
+      invoiceItemId: item.id
+    });
+  }
+
+  const taxTotal = new Prisma.Decimal(invoice.taxTotal);
+  if (!taxTotal.isZero()) {
+    lines.push({
+      accountCode: ACCOUNT_CODES.VAT_PAYABLE,
+      description: `IVA factura ${invoice.number}`,
+      credit: taxTotal
+    });
+  }
+
+  return createJournalEntry(tx, {
+    tenantId: invoice.tenantId,
+    invoiceId: invoice.id,
+    description: `Factura de venta ${invoice.number}`,
+    transactionDate: invoice.issueDate,
+    lines
+  });
+};
+
+/**
+ * Genera el asiento contable del recaudo de una venta a crédito
+ * Débito: caja o bancos según el medio del pago
+ * Crédito: clientes (cuentas por cobrar)
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción del pago
+ * @param payment - Pago registrado
+ * @param invoiceNumber - Número de la factura abonada
+ * @returns Asiento creado
+ */
+export const postPaymentJournalEntry = async (
+  tx: Prisma.TransactionClient,
+  payment: PaymentForPosting,
+  invoiceNumber: string
+) => {
+  const amount = new Prisma.Decimal(payment.amount);
+
+  return createJournalEntry(tx, {
+    tenantId: payment.tenantId,
+    invoiceId: payment.invoiceId,
+    paymentId: payment.id,
+    description: `Pago factura ${invoiceNumber}`,
+    transactionDate: payment.paymentDate,
+    lines: [
+      {
+        accountCode: getDebitAccountForPayment(payment.method, false),
+        description: payment.reference ? `Pago ${payment.reference}` : `Pago factura ${invoiceNumber}`,
+        debit: amount
+      },
+      {
+        accountCode: ACCOUNT_CODES.RECEIVABLES,
+        description: `Abono factura ${invoiceNumber}`,
+        credit: amount
+      }
+    ]
+  });
+};
+
+/**
+ * Genera el asiento contable de una nota crédito (reverso total o parcial de una venta)
+ * Débito: devoluciones en ventas por cada item e IVA generado por el impuesto devuelto
+ * Crédito: clientes por la porción pendiente de cobro y caja o bancos por la porción reembolsada
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción de la nota crédito
+ * @param creditNote - Nota crédito con sus items ya calculados
+ * @returns Asiento creado o null si la nota no tiene valor
+ */
+export const postCreditNoteJournalEntry = async (
+  tx: Prisma.TransactionClient,
+  creditNote: CreditNoteForPosting
+) => {
+  const total = new Prisma.Decimal(creditNote.total);
+  if (total.isZero()) {
+    return null;
+  }
+
+  const lines: JournalLineInput[] = [];
+
+  for (const item of creditNote.items) {
+    const revenue = new Prisma.Decimal(item.totalAmount).minus(item.taxAmount);
+    if (revenue.isZero()) {
+      continue;
+    }
+    lines.push({
+      accountCode: ACCOUNT_CODES.SALES_RETURNS,
+      description: item.description,
+      debit: revenue
+    });
+  }
+
+  const taxTotal = new Prisma.Decimal(creditNote.taxTotal);
+  if (!taxTotal.isZero()) {
+    lines.push({
+      accountCode: ACCOUNT_CODES.VAT_PAYABLE,
+      description: `IVA nota crédito ${creditNote.number}`,
+      debit: taxTotal
+    });
+  }
+
+  const receivables = new Prisma.Decimal(creditNote.receivablesAmount);
+  if (!receivables.isZero()) {
+    lines.push({
+      accountCode: ACCOUNT_CODES.RECEIVABLES,
+      description: `Nota crédito ${creditNote.number} a la factura ${creditNote.invoiceNumber}`,
+      credit: receivables
+    });
+  }
+
+  const refund = total.minus(receivables);
+  if (!refund.isZero()) {
+    lines.push({
+      accountCode: getDebitAccountForPayment(creditNote.refundMethod, false),
+      description: `Reembolso nota crédito ${creditNote.number}`,
+      credit: refund
+    });
+  }
+
+  return createJournalEntry(tx, {
+    tenantId: creditNote.tenantId,
+    invoiceId: creditNote.invoiceId,
+    creditNoteId: creditNote.id,
+    description: `Nota crédito ${creditNote.number} de la factura ${creditNote.invoiceNumber}`,
+    transactionDate: creditNote.issueDate,
+    lines
+  });
+};
+
+/**
+ * Genera el asiento contable de una factura de proveedor (cuenta por pagar)
+ * Débito: inventario (o la cuenta indicada) por la base e IVA descontable por el impuesto
+ * Crédito: proveedores por el total
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción de la factura del proveedor
+ * @param bill - Factura del proveedor
+ * @returns Asiento creado o null si la factura no tiene valor
+ */
+export const postSupplierBillJournalEntry = async (
+  tx: Prisma.TransactionClient,
+  bill: SupplierBillForPosting
+) => {
+  const total = new Prisma.Decimal(bill.total);
+  if (total.isZero()) {
+    return null;
+  }
+
+  const lines: JournalLineInput[] = [];
+
+  const subtotal = new Prisma.Decimal(bill.subtotal);
+  if (!subtotal.isZero()) {
+    lines.push({
+      accountCode: bill.debitAccountCode,
+      description: `Factura ${bill.billNumber} de ${bill.supplierName}`,
+      debit: subtotal
+    });
+  }
+
+  const taxTotal = new Prisma.Decimal(bill.taxTotal);
+  if (!taxTotal.isZero()) {
+    lines.push({
+      accountCode: ACCOUNT_CODES.VAT_DEDUCTIBLE,
+      description: `IVA factura ${bill.billNumber} de ${bill.supplierName}`,
+      debit: taxTotal
+    });
+  }
+
+  lines.push({
+    accountCode: ACCOUNT_CODES.PAYABLES,
+    description: `Por pagar a ${bill.supplierName}`,
+    credit: total
+  });
+
+  return createJournalEntry(tx, {
+    tenantId: bill.tenantId,
+    supplierBillId: bill.id,
+    description: `Factura de proveedor ${bill.billNumber} - ${bill.supplierName}`,
+    transactionDate: bill.issueDate,
+    lines
+  });
+};
+
+/**
+ * Genera el asiento contable de un pago a proveedor
+ * Débito: proveedores (cuentas por pagar)
+ * Crédito: caja o bancos según el medio del pago
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción del pago
+ * @param payment - Pago registrado
+ * @param billNumber - Número de la factura del proveedor abonada
+ * @returns Asiento creado
+ */
+export const postSupplierPaymentJournalEntry = async (
+  tx: Prisma.TransactionClient,
+  payment: SupplierPaymentForPosting,
+  billNumber: string
+) => {
+  const amount = new Prisma.Decimal(payment.amount);
+
+  return createJournalEntry(tx, {
+    tenantId: payment.tenantId,
+    supplierBillId: payment.supplierBillId,
+    supplierPaymentId: payment.id,
+    description: `Pago a proveedor factura ${billNumber}`,
+    transactionDate: payment.paymentDate,
+    lines: [
+      {
+        accountCode: ACCOUNT_CODES.PAYABLES,
+        description: `Abono factura ${billNumber}`,
+        debit: amount
+      },
+      {
+        accountCode: getDebitAccountForPayment(payment.method, false),
+        description: payment.reference ? `Pago ${payment.reference}` : `Pago factura ${billNumber}`,
+        credit: amount
+      }
+    ]
+  });
+};
+
+/**
+ * Genera el asiento contable de una toma física de inventario
+ * Faltantes: débito a gastos diversos y crédito a inventario
+ * Sobrantes: débito a inventario y crédito a ingresos diversos
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción que publica el conteo
+ * @param count - Conteo con sus diferencias valorizadas al costo
+ * @returns Asiento creado o null si el conteo no tiene diferencias
+ */
+export const postInventoryCountJournalEntry = async (
+  tx: Prisma.TransactionClient,
+  count: InventoryCountForPosting
+) => {
+  const shortageCost = new Prisma.Decimal(count.shortageCost);
+  const surplusCost = new Prisma.Decimal(count.surplusCost);
+  const lines: JournalLineInput[] = [];
+
+  if (!shortageCost.isZero()) {
+    lines.push(
+      {
+        accountCode: ACCOUNT_CODES.INVENTORY_SHRINKAGE,
+        description: `Faltantes toma física ${count.number}`,
+        debit: shortageCost
+      },
+      {
+        accountCode: ACCOUNT_CODES.INVENTORY,
+        description: `Faltantes toma física ${count.number}`,
+        credit: shortageCost
+      }
+    );
+  }
+
+  if (!surplusCost.isZero()) {
+    lines.push(
+      {
+        accountCode: ACCOUNT_CODES.INVENTORY,
+        description: `Sobrantes toma física ${count.number}`,
+        debit: surplusCost
+      },
+      {
+        accountCode: ACCOUNT_CODES.INVENTORY_SURPLUS,
+        description: `Sobrantes toma física ${count.number}`,
+        credit: surplusCost
+      }
+    );
+  }
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  return createJournalEntry(tx, {
+    tenantId: count.tenantId,
+    inventoryCountId: count.id,
+    description: `Ajuste por toma física de inventario ${count.number}`,
+    transactionDate: count.postedAt,
+    lines
+  });
+};
@@ -0,0 +1,207 @@
+// backend/src/services/barcodeService.ts
+// Servicio de códigos de barras - Varios códigos por producto (EAN-13, UPC, internos) y búsqueda por escáner
+
+import { BarcodeType, Prisma } from '@prisma/client';
+
+import { INTERNAL_BARCODE_PREFIX } from '../config/constants';
+
+// ==================== TIPOS E INTERFACES ====================
+
+export const BARCODE_TYPES = Object.values(BarcodeType);
+
+/**
+ * Código de barras de un producto; sin tipo se detecta a partir del código
+ */
+export interface BarcodeInput {
+  code: string;
+  type?: BarcodeType;
+}
+
+// Longitud máxima de un código (Code 128 y similares)
+const MAX_BARCODE_LENGTH = 48;
+
+const BARCODE_PATTERN = /^[A-Za-z0-9.\-]+$/;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Valida que un tipo de código de barras exista
+ */
+export const isBarcodeType = (value: unknown): value is BarcodeType => {
+  return typeof value === 'string' && BARCODE_TYPES.includes(value as BarcodeType);
+};
+
+/**
+ * Quita los espacios que algunos lectores agregan al código leído
+ */
+export const normalizeBarcode = (code: string): string => {
+  return code.replace(/\s+/g, '');
+};
+
+/**
+ * Dígito de control GS1 (módulo 10) de los dígitos de un EAN-13 o UPC sin su último dígito
+ */
+export const computeCheckDigit = (digits: string): number => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Desde la derecha los pesos se alternan 3, 1, 3, 1...
+    const digit = Number(digits[digits.length - 1 - i]);
+    sum += digit * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+const hasValidCheckDigit = (code: string, length: number): boolean => {
+  if (!new RegExp(`^\\d{${length}}$`).test(code)) {
+    return false;
+  }
+  return computeCheckDigit(code.slice(0, -1)) === Number(code.slice(-1));
+};
+
+/**
+ * Detecta el tipo de un código: EAN-13 (o interno si usa el prefijo de circulación interna),
+ * UPC-A de 12 dígitos, u otro formato
+ */
+export const detectBarcodeType = (code: string): BarcodeType => {
+  if (hasValidCheckDigit(code, 13)) {
+    return code.startsWith(INTERNAL_BARCODE_PREFIX) ? 'INTERNAL' : 'EAN13';
+  }
+  if (hasValidCheckDigit(code, 12)) {
+    return 'UPC';
+  }
+  return 'OTHER';
+};
+
+/**
+ * Valida un código de barras según su tipo
+ *
+ * @param input - Código y tipo (opcional)
+ * @returns Código normalizado y su tipo
+ */
+export const validateBarcode = (input: BarcodeInput): { code: string; type: BarcodeType } => {
+  const code = normalizeBarcode(String(input.code ?? ''));
+  if (!code) {
+    throw new Error('El código de barras es requerido');
+  }
+  if (code.length > MAX_BARCODE_LENGTH || !BARCODE_PATTERN.test(code)) {
+    throw new Error(`El código de barras ${code} es inválido: use solo letras, números, puntos o guiones`);
+  }
+
+  const type = input.type ?? detectBarcodeType(code);
+  if (!isBarcodeType(type)) {
+    throw new Error(`El tipo de código de barras es inválido: use ${BARCODE_TYPES.join(', ')}`);
+  }
+  if ((type === 'EAN13' || type === 'INTERNAL') && !hasValidCheckDigit(code, 13)) {
+    throw new Error(`El código de barras ${code} es inválido: un EAN-13 tiene 13 dígitos con dígito de control`);
+  }
+  if (type === 'UPC' && !hasValidCheckDigit(code, 12)) {
+    throw new Error(`El código de barras ${code} es inválido: un UPC tiene 12 dígitos con dígito de control`);
+  }
+  return { code, type };
+};
+
+/**
+ * Genera el siguiente código interno del tenant: EAN-13 con prefijo 29 y consecutivo de 10 dígitos
+ *
+ * @param tx - Cliente de Prisma (o transacción en curso)
+ * @param tenantId - ID del tenant
+ * @returns Código EAN-13 con su dígito de control
+ */
+export const generateInternalBarcode = async (tx: Prisma.TransactionClient, tenantId: string): Promise<string> => {
+  const last = await tx.productBarcode.findFirst({
+    where: { tenantId, type: 'INTERNAL', code: { startsWith: INTERNAL_BARCODE_PREFIX } },
+    orderBy: { code: 'desc' },
+    select: { code: true }
+  });
+
+  const sequenceLength = 12 - INTERNAL_BARCODE_PREFIX.length;
+  const next = last ? Number(last.code.slice(INTERNAL_BARCODE_PREFIX.length, -1)) + 1 : 1;
+  const sequence = String(next).padStart(sequenceLength, '0');
+  if (sequence.length > sequenceLength) {
+    throw new Error('No hay más códigos de barras internos disponibles');
+  }
+
+  const digits = `${INTERNAL_BARCODE_PREFIX}${sequence}`;
+  return `${digits}${computeCheckDigit(digits)}`;
+};
+
+/**
+ * Reemplaza los códigos de barras de un producto
+ * Un código solo puede pertenecer a un producto del tenant
+ *
+ * @param tx - Cliente de Prisma (o transacción en curso)
+ * @param tenantId - ID del tenant
+ * @param productId - ID del producto
+ * @param barcodes - Códigos del producto (una lista vacía los elimina todos)
+ */
+export const replaceProductBarcodes = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  productId: string,
+  barcodes: BarcodeInput[]
+) => {
+  const validated = barcodes.map(validateBarcode);
+  const codes = validated.map((barcode) => barcode.code);
+  const repeated = codes.find((code, index) => codes.indexOf(code) !== index);
+  if (repeated) {
+    throw new Error(`El código de barras ${repeated} está repetido`);
+  }
+
+  if (codes.length > 0) {
+    const taken = await tx.productBarcode.findFirst({
+      where: { tenantId, code: { in: codes }, productId: { not: productId } },
+      select: { code: true, product: { select: { name: true } } }
+    });
+    if (taken) {
+      throw new Error(`El código de barras ${taken.code} ya está asignado al producto ${taken.product.name}`);
+    }
+  }
+
+  await tx.productBarcode.deleteMany({ where: { productId } });
+  if (validated.length > 0) {
+    await tx.productBarcode.createMany({
+      data: validated.map((barcode) => ({ tenantId, productId, ...barcode }))
+    });
+  }
+};
+
+/**
+ * Busca el producto de un código leído por el escáner: primero en los códigos de barras
+ * (aceptando un UPC leído como EAN-13 con 0 inicial y viceversa) y luego por SKU
+ *
+ * @param tx - Cliente de Prisma (o transacción en curso)
+ * @param tenantId - ID del tenant
+ * @param code - Código leído
+ * @returns ID del producto o null si ningún producto tiene ese código
+ */
+export const findProductIdByCode = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  code: string
+): Promise<string | null> => {
+  const normalized = normalizeBarcode(code);
+  if (!normalized) {
+    return null;
+  }
+
+  const candidates = [normalized];
+  if (/^0\d{12}$/.test(normalized)) {
+    candidates.push(normalized.slice(1));
+  } else if (/^\d{12}$/.test(normalized)) {
+    candidates.push(`0${normalized}`);
+  }
+
+  const barcode = await tx.productBarcode.findFirst({
+    where: { tenantId, code: { in: candidates } },
+    select: { productId: true }
+  });
+  if (barcode) {
+    return barcode.productId;
+  }
+
+  const product = await tx.product.findFirst({
+    where: { tenantId, sku: normalized },
+    select: { id: true }
+  });
+  return product?.id ?? null;
+};
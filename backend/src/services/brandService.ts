@@ -0,0 +1,153 @@
+// backend/src/services/brandService.ts
+// Servicio de marcas de productos
+
+import { Prisma } from '@prisma/client';
+
+import prisma from '../db';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Interfaz para crear o actualizar una marca (sin tenantId, se maneja internamente)
+ */
+export interface BrandInput {
+  name?: string;
+  isActive?: boolean;
+}
+
+// Opciones del listado de marcas
+export interface BrandFilterOptions {
+  includeInactive?: boolean;
+}
+
+const BRAND_FIELDS = {
+  id: true,
+  tenantId: true,
+  name: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene las marcas de un tenant ordenadas por nombre
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Incluir marcas inactivas
+ * @returns Marcas con la cantidad de productos asignados
+ */
+export const getBrands = async (tenantId: string, options: BrandFilterOptions = {}) => {
+  return prisma.brand.findMany({
+    where: {
+      tenantId,
+      ...(options.includeInactive ? {} : { isActive: true })
+    },
+    select: {
+      ...BRAND_FIELDS,
+      _count: { select: { products: true } }
+    },
+    orderBy: { name: 'asc' }
+  });
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Crea una marca
+ *
+ * @param data - Nombre de la marca
+ * @param tenantId - ID del tenant
+ * @returns Marca creada
+ */
+export const createBrand = async (data: BrandInput, tenantId: string) => {
+  const name = data.name?.trim();
+  if (!name) {
+    throw new Error('El nombre de la marca es requerido');
+  }
+
+  try {
+    const brand = await prisma.brand.create({
+      data: { tenantId, name, isActive: true },
+      select: BRAND_FIELDS
+    });
+
+    console.log(`✅ [BrandService] Marca creada: ${brand.name} (${brand.id})`);
+    return brand;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error(`Ya existe una marca llamada ${name}`);
+    }
+    throw error;
+  }
+};
+
+// ==================== UPDATE OPERATIONS ====================
+
+/**
+ * Actualiza el nombre o el estado de una marca
+ *
+ * @param id - ID de la marca
+ * @param data - Campos a actualizar
+ * @param tenantId - ID del tenant
+ * @returns Marca actualizada
+ */
+export const updateBrand = async (id: string, data: BrandInput, tenantId: string) => {
+  const existing = await prisma.brand.findFirst({
+    where: { id, tenantId },
+    select: { id: true }
+  });
+  if (!existing) {
+    throw new Error('Marca no encontrada');
+  }
+
+  const updateData: Prisma.BrandUpdateInput = {};
+  if (data.name !== undefined) {
+    const name = data.name.trim();
+    if (!name) {
+      throw new Error('El nombre de la marca es requerido');
+    }
+    updateData.name = name;
+  }
+  if (data.isActive !== undefined) {
+    updateData.isActive = data.isActive;
+  }
+
+  try {
+    return await prisma.brand.update({
+      where: { id: existing.id },
+      data: updateData,
+      select: BRAND_FIELDS
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error(`Ya existe una marca llamada ${data.name?.trim()}`);
+    }
+    throw error;
+  }
+};
+
+// ==================== DELETE OPERATIONS ====================
+
+/**
+ * Elimina una marca sin productos asignados
+ *
+ * @param id - ID de la marca
+ * @param tenantId - ID del tenant
+ */
+export const deleteBrand = async (id: string, tenantId: string) => {
+  const brand = await prisma.brand.findFirst({
+    where: { id, tenantId },
+    select: { id: true, name: true, _count: { select: { products: true } } }
+  });
+  if (!brand) {
+    throw new Error('Marca no encontrada');
+  }
+  if (brand._count.products > 0) {
+    throw new Error(`La marca ${brand.name} tiene productos asignados: reasígnalos o desactívala`);
+  }
+
+  await prisma.brand.delete({ where: { id: brand.id } });
+  return { id: brand.id };
+};
@@ -0,0 +1,282 @@
+// backend/src/services/categoryService.ts
+// Servicio de categorías de productos - Árbol de categorías (Bebidas > Gaseosas) para organizar el catálogo
+
+import { Prisma } from '@prisma/client';
+
+import prisma from '../db';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Interfaz para crear o actualizar una categoría (sin tenantId, se maneja internamente)
+ */
+export interface CategoryInput {
+  name?: string;
+  parentId?: string | null; // Categoría padre; null la deja en la raíz del árbol
+  isActive?: boolean;
+}
+
+// Opciones del listado de categorías
+export interface CategoryFilterOptions {
+  includeInactive?: boolean;
+}
+
+const CATEGORY_FIELDS = {
+  id: true,
+  tenantId: true,
+  parentId: true,
+  name: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+// Separador de la ruta completa de una categoría
+const PATH_SEPARATOR = ' > ';
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Ruta completa de cada categoría del tenant ("Bebidas > Gaseosas"), indexada por ID
+ *
+ * @param tx - Cliente de Prisma (o transacción en curso)
+ * @param tenantId - ID del tenant
+ * @returns Mapa de ID de categoría a su ruta
+ */
+export const getCategoryPaths = async (tx: Prisma.TransactionClient, tenantId: string) => {
+  const categories = await tx.productCategory.findMany({
+    where: { tenantId },
+    select: { id: true, parentId: true, name: true }
+  });
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const paths = new Map<string, string>();
+
+  const resolvePath = (id: string, visited: Set<string>): string => {
+    const cached = paths.get(id);
+    if (cached) {
+      return cached;
+    }
+    const category = byId.get(id);
+    if (!category) {
+      return '';
+    }
+    // Un ciclo no debería existir (updateCategory lo impide); si aparece se corta la ruta
+    const path = category.parentId && !visited.has(category.parentId)
+      ? `${resolvePath(category.parentId, visited.add(id))}${PATH_SEPARATOR}${category.name}`
+      : category.name;
+    paths.set(id, path);
+    return path;
+  };
+
+  categories.forEach((category) => resolvePath(category.id, new Set()));
+  return paths;
+};
+
+/**
+ * IDs de una categoría y de todas sus subcategorías (a cualquier nivel)
+ * Filtrar por una categoría incluye los productos de sus subcategorías
+ *
+ * @param tx - Cliente de Prisma (o transacción en curso)
+ * @param tenantId - ID del tenant
+ * @param categoryId - ID de la categoría raíz
+ * @returns IDs de la categoría y sus descendientes
+ */
+export const getCategoryTreeIds = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  categoryId: string
+): Promise<string[]> => {
+  const categories = await tx.productCategory.findMany({
+    where: { tenantId },
+    select: { id: true, parentId: true }
+  });
+  if (!categories.some((category) => category.id === categoryId)) {
+    throw new Error('Categoría no encontrada');
+  }
+
+  const ids = new Set([categoryId]);
+  let pending = [categoryId];
+  while (pending.length > 0) {
+    const children = categories
+      .filter((category) => category.parentId && pending.includes(category.parentId) && !ids.has(category.id))
+      .map((category) => category.id);
+    children.forEach((id) => ids.add(id));
+    pending = children;
+  }
+  return [...ids];
+};
+
+/**
+ * Valida la categoría padre: debe existir en el tenant y, al mover una categoría,
+ * no puede ser ella misma ni una de sus subcategorías
+ */
+const validateParent = async (tenantId: string, parentId: string, categoryId?: string) => {
+  const parent = await prisma.productCategory.findFirst({
+    where: { id: parentId, tenantId },
+    select: { id: true }
+  });
+  if (!parent) {
+    throw new Error('Categoría padre no encontrada');
+  }
+  if (categoryId) {
+    const subtree = await getCategoryTreeIds(prisma, tenantId, categoryId);
+    if (subtree.includes(parentId)) {
+      throw new Error('La categoría padre es inválida: no puede ser la misma categoría ni una de sus subcategorías');
+    }
+  }
+};
+
+/**
+ * Evita dos categorías con el mismo nombre bajo el mismo padre
+ */
+const ensureUniqueName = async (tenantId: string, name: string, parentId: string | null, excludeId?: string) => {
+  const duplicate = await prisma.productCategory.findFirst({
+    where: {
+      tenantId,
+      parentId,
+      name: { equals: name, mode: 'insensitive' },
+      ...(excludeId ? { id: { not: excludeId } } : {})
+    },
+    select: { id: true }
+  });
+  if (duplicate) {
+    throw new Error(`Ya existe una categoría llamada ${name} en ese nivel`);
+  }
+};
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene las categorías de un tenant ordenadas por su ruta completa
+ * La lista es plana: cada categoría trae parentId, su ruta y cuántos productos tiene asignados
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Incluir categorías inactivas
+ * @returns Categorías con su ruta y conteos
+ */
+export const getCategories = async (tenantId: string, options: CategoryFilterOptions = {}) => {
+  const [categories, paths] = await Promise.all([
+    prisma.productCategory.findMany({
+      where: {
+        tenantId,
+        ...(options.includeInactive ? {} : { isActive: true })
+      },
+      select: {
+        ...CATEGORY_FIELDS,
+        _count: { select: { products: true, children: true } }
+      }
+    }),
+    getCategoryPaths(prisma, tenantId)
+  ]);
+
+  return categories
+    .map((category) => ({ ...category, path: paths.get(category.id) ?? category.name }))
+    .sort((a, b) => a.path.localeCompare(b.path, 'es'));
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Crea una categoría, en la raíz o como subcategoría de otra
+ *
+ * @param data - Nombre y categoría padre
+ * @param tenantId - ID del tenant
+ * @returns Categoría creada
+ */
+export const createCategory = async (data: CategoryInput, tenantId: string) => {
+  const name = data.name?.trim();
+  if (!name) {
+    throw new Error('El nombre de la categoría es requerido');
+  }
+  const parentId = data.parentId || null;
+  if (parentId) {
+    await validateParent(tenantId, parentId);
+  }
+  await ensureUniqueName(tenantId, name, parentId);
+
+  const category = await prisma.productCategory.create({
+    data: { tenantId, name, parentId, isActive: true },
+    select: CATEGORY_FIELDS
+  });
+
+  console.log(`✅ [CategoryService] Categoría creada: ${category.name} (${category.id})`);
+  return category;
+};
+
+// ==================== UPDATE OPERATIONS ====================
+
+/**
+ * Actualiza una categoría; cambiar parentId la mueve con todas sus subcategorías
+ *
+ * @param id - ID de la categoría
+ * @param data - Campos a actualizar
+ * @param tenantId - ID del tenant
+ * @returns Categoría actualizada
+ */
+export const updateCategory = async (id: string, data: CategoryInput, tenantId: string) => {
+  const existing = await prisma.productCategory.findFirst({
+    where: { id, tenantId },
+    select: { id: true, name: true, parentId: true }
+  });
+  if (!existing) {
+    throw new Error('Categoría no encontrada');
+  }
+
+  const updateData: Prisma.ProductCategoryUncheckedUpdateInput = {};
+  let name = existing.name;
+  let parentId = existing.parentId;
+
+  if (data.name !== undefined) {
+    name = data.name.trim();
+    if (!name) {
+      throw new Error('El nombre de la categoría es requerido');
+    }
+    updateData.name = name;
+  }
+  if (data.parentId !== undefined) {
+    parentId = data.parentId || null;
+    if (parentId) {
+      await validateParent(tenantId, parentId, existing.id);
+    }
+    updateData.parentId = parentId;
+  }
+  if (data.isActive !== undefined) {
+    updateData.isActive = data.isActive;
+  }
+  if (data.name !== undefined || data.parentId !== undefined) {
+    await ensureUniqueName(tenantId, name, parentId, existing.id);
+  }
+
+  return prisma.productCategory.update({
+    where: { id: existing.id },
+    data: updateData,
+    select: CATEGORY_FIELDS
+  });
+};
+
+// ==================== DELETE OPERATIONS ====================
+
+/**
+ * Elimina una categoría sin subcategorías ni productos asignados
+ *
+ * @param id - ID de la categoría
+ * @param tenantId - ID del tenant
+ */
+export const deleteCategory = async (id: string, tenantId: string) => {
+  const category = await prisma.productCategory.findFirst({
+    where: { id, tenantId },
+    select: { id: true, name: true, _count: { select: { products: true, children: true } } }
+  });
+  if (!category) {
+    throw new Error('Categoría no encontrada');
+  }
+  if (category._count.children > 0) {
+    throw new Error(`La categoría ${category.name} tiene subcategorías: muévelas o elimínalas primero`);
+  }
+  if (category._count.products > 0) {
+    throw new Error(`La categoría ${category.name} tiene productos asignados: reasígnalos o desactívala`);
+  }
+
+  await prisma.productCategory.delete({ where: { id: category.id } });
+  return { id: category.id };
+};
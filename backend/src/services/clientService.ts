@@ -2,6 +2,7 @@
 
 import { Prisma } from '@prisma/client';
 import prisma from '../db';
+import { validatePriceListReference } from './priceListService';
 
 export type CreateClientDTO = Prisma.ClientUncheckedCreateInput;
 export type UpdateClientDTO = Prisma.ClientUncheckedUpdateInput;
@@ -21,6 +22,7 @@ interface ClientData {
     creditLimit?: string | number;
     currentDebt?: string | number;
     isActive?: boolean;
+    priceListId?: string | null; // Lista de precios con que se le vende (mayorista, distribuidor)
 }
 
 // ------------------- CREATE -------------------
@@ -39,6 +41,9 @@ export const createClient = async (data: CreateClientDTO, tenantId: string) => {
         throw new Error('identification is required');
     }
 
+    const priceListId = typeof data.priceListId === 'string' && data.priceListId ? data.priceListId : null;
+    await validatePriceListReference(tenantId, priceListId);
+
     try {
         // Asegurar que el tenant existe, si no, crearlo
         let tenant = await prisma.tenant.findUnique({
@@ -77,6 +82,7 @@ export const createClient = async (data: CreateClientDTO, tenantId: string) => {
                 creditLimit: data.creditLimit ? Number(data.creditLimit) : 0,
                 currentDebt: data.currentDebt ? Number(data.currentDebt) : 0,
                 isActive: data.isActive ?? true,
+                priceListId,
             },
             select: {
                 id: true,
@@ -93,6 +99,8 @@ export const createClient = async (data: CreateClientDTO, tenantId: string) => {
                 creditLimit: true,
                 currentDebt: true,
                 isActive: true,
+                priceListId: true,
+                priceList: { select: { id: true, name: true } },
                 createdAt: true,
                 updatedAt: true
             }
@@ -126,6 +134,8 @@ export const getAllClients = async (tenantId: string) => {
             creditLimit: true,
             currentDebt: true,
             isActive: true,
+            priceListId: true,
+            priceList: { select: { id: true, name: true } },
             createdAt: true,
             updatedAt: true
         },
@@ -155,6 +165,8 @@ export const getClientById = async (id: string, tenantId: string) => {
             creditLimit: true,
             currentDebt: true,
             isActive: true,
+            priceListId: true,
+            priceList: { select: { id: true, name: true } },
             createdAt: true,
             updatedAt: true
         }
@@ -190,6 +202,10 @@ export const updateClient = async (id: string, data: UpdateClientDTO, tenantId:
     if ('localId' in updateData) {
         delete updateData.localId;
     }
+    if ('priceListId' in updateData) {
+        updateData.priceListId = typeof updateData.priceListId === 'string' && updateData.priceListId ? updateData.priceListId : null;
+        await validatePriceListReference(tenantId, updateData.priceListId);
+    }
 
     const updatedClient = await prisma.client.update({
         where: { id },
@@ -209,6 +225,8 @@ export const updateClient = async (id: string, data: UpdateClientDTO, tenantId:
             creditLimit: true,
             currentDebt: true,
             isActive: true,
+            priceListId: true,
+            priceList: { select: { id: true, name: true } },
             createdAt: true,
             updatedAt: true
         }
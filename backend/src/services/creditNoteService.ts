@@ -0,0 +1,590 @@
+// backend/src/services/creditNoteService.ts
+// Servicio de notas crédito y anulación de facturas - Reverso de ventas sin borrar la factura original
+
+import { InvoiceStatus, PaymentMethod, Prisma } from '@prisma/client';
+
+import prisma from '../db';
+import { isCreditInvoice, postCreditNoteJournalEntry } from './accountingService';
+import { releaseClientCredit } from './creditService';
+import { LotInput } from './lotService';
+import { allocateDocumentNumber } from './sequenceService';
+import { recordStockMovement } from './stockMovementService';
+import { describeQuantity, isValidQuantity, roundQuantity } from './unitService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+// Cantidad a devolver de un item de la factura
+export interface CreditNoteItemInput {
+  invoiceItemId: string;
+  quantity: number;
+}
+
+/**
+ * Interfaz para emitir una nota crédito (sin tenantId ni invoiceId, se manejan internamente)
+ * Sin items, la nota acredita todas las cantidades pendientes de la factura
+ */
+export interface CreateCreditNoteInput {
+  reason: string;
+  items?: CreditNoteItemInput[];
+  createdById?: string | null;
+}
+
+// Datos para anular una factura
+export interface CancelInvoiceInput {
+  reason: string;
+  createdById?: string | null;
+}
+
+const CREDIT_NOTE_FIELDS = {
+  id: true,
+  tenantId: true,
+  invoiceId: true,
+  number: true,
+  reason: true,
+  issueDate: true,
+  subtotal: true,
+  taxTotal: true,
+  total: true,
+  createdById: true,
+  createdAt: true,
+  items: {
+    select: {
+      id: true,
+      invoiceItemId: true,
+      productId: true,
+      description: true,
+      quantity: true,
+      unitPrice: true,
+      taxRateApplied: true,
+      taxAmount: true,
+      totalAmount: true
+    }
+  }
+} as const;
+
+const INVOICE_SUMMARY_FIELDS = {
+  id: true,
+  number: true,
+  status: true,
+  total: true,
+  totalPaid: true,
+  totalCredited: true
+} as const;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Obtiene la factura con sus items y lo ya acreditado de cada uno
+ */
+const findInvoiceForCredit = async (tx: Prisma.TransactionClient, invoiceId: string, tenantId: string) => {
+  const invoice = await tx.invoice.findFirst({
+    where: { id: invoiceId, tenantId },
+    select: {
+      id: true,
+      tenantId: true,
+      clientId: true,
+      number: true,
+      status: true,
+      paymentMethod: true,
+      isCreditSale: true,
+      total: true,
+      totalPaid: true,
+      totalCredited: true,
+      locationId: true,
+      items: {
+        select: {
+          id: true,
+          productId: true,
+          product: { select: { unit: true } },
+          description: true,
+          quantity: true,
+          unitPrice: true,
+          unitCost: true,
+          taxRateApplied: true,
+          taxAmount: true,
+          totalAmount: true,
+          creditNoteItems: {
+            select: { quantity: true, taxAmount: true, totalAmount: true }
+          },
+          components: { select: { productId: true, quantity: true, unitCost: true } }
+        },
+        orderBy: { createdAt: 'asc' }
+      }
+    }
+  });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  return invoice;
+};
+
+type InvoiceForCredit = Awaited<ReturnType<typeof findInvoiceForCredit>>;
+
+// Origen de una devolución al inventario
+interface RestockSource {
+  tenantId: string;
+  invoiceId: string;
+  creditNoteId?: string | null;
+  userId?: string | null;
+  locationId?: string | null; // Bodega de la que salió la venta
+  notes: string;
+}
+
+// Componente que salió del inventario al vender un kit, por cada unidad del kit
+interface RestockComponent {
+  productId: string;
+  quantity: Prisma.Decimal.Value;
+  unitCost: Prisma.Decimal.Value;
+}
+
+/**
+ * Lotes a los que vuelve una devolución: los que consumió la venta de ese producto, descontando lo que
+ * otras devoluciones de la factura ya les regresaron, empezando por el último lote que tomó la venta
+ * Lo que la venta sacó del stock sin lote (o si el producto ya no maneja lotes) vuelve sin lote
+ *
+ * @param tx - Transacción en curso
+ * @param invoiceId - Factura de la venta
+ * @param productId - Producto que se devuelve
+ * @param quantity - Cantidad que se devuelve
+ * @returns Lotes de la entrada para recordStockMovement
+ */
+const findSaleLotsToReturn = async (
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  productId: string,
+  quantity: number
+): Promise<LotInput[]> => {
+  const product = await tx.product.findUnique({ where: { id: productId }, select: { trackLots: true } });
+  if (!product?.trackLots) {
+    return [];
+  }
+
+  const rows = await tx.stockMovementLot.findMany({
+    where: { movement: { invoiceId, productId, type: { in: ['SALE', 'SALE_RETURN'] } } },
+    select: { quantity: true, lot: { select: { id: true, lotNumber: true, expiryDate: true } } },
+    orderBy: { movement: { createdAt: 'desc' } }
+  });
+
+  // Neto por lote: la venta lo registra en negativo y las devoluciones en positivo
+  const pending = new Map<string, { lotNumber: string; expiryDate: Date | null; quantity: number }>();
+  for (const row of rows) {
+    const lot = pending.get(row.lot.id) ?? { lotNumber: row.lot.lotNumber, expiryDate: row.lot.expiryDate, quantity: 0 };
+    lot.quantity = roundQuantity(lot.quantity - Number(row.quantity));
+    pending.set(row.lot.id, lot);
+  }
+
+  const lots: LotInput[] = [];
+  let remaining = roundQuantity(quantity);
+  for (const lot of pending.values()) {
+    if (remaining <= 0) {
+      break;
+    }
+    if (lot.quantity <= 0) {
+      continue;
+    }
+    const returned = Math.min(remaining, lot.quantity);
+    lots.push({ lotNumber: lot.lotNumber, expiryDate: lot.expiryDate, quantity: returned });
+    remaining = roundQuantity(remaining - returned);
+  }
+  return lots;
+};
+
+/**
+ * Devuelve al inventario las cantidades de los items indicados registrando la entrada en el kardex
+ * Lo devuelto entra a la bodega de la que salió la venta; un kit devuelve los componentes con que se vendió
+ * En productos con lotes cada unidad vuelve al lote del que salió
+ */
+const restock = async (
+  tx: Prisma.TransactionClient,
+  lines: Array<{
+    productId: string | null;
+    quantity: Prisma.Decimal.Value;
+    unitCost?: Prisma.Decimal.Value;
+    components?: RestockComponent[];
+  }>,
+  source: RestockSource
+) => {
+  for (const line of lines) {
+    if (line.components && line.components.length > 0) {
+      for (const component of line.components) {
+        const quantity = roundQuantity(Number(line.quantity) * Number(component.quantity));
+        await recordStockMovement(tx, {
+          ...source,
+          productId: component.productId,
+          type: 'SALE_RETURN',
+          quantity,
+          unitCost: component.unitCost,
+          lots: await findSaleLotsToReturn(tx, source.invoiceId, component.productId, quantity)
+        });
+      }
+      continue;
+    }
+    if (!line.productId) {
+      continue;
+    }
+    const quantity = Number(line.quantity);
+    await recordStockMovement(tx, {
+      ...source,
+      productId: line.productId,
+      type: 'SALE_RETURN',
+      quantity,
+      unitCost: line.unitCost,
+      lots: await findSaleLotsToReturn(tx, source.invoiceId, line.productId, quantity)
+    });
+  }
+};
+
+/**
+ * Calcula las líneas de la nota crédito a partir de lo pendiente por acreditar de cada item
+ * Si se acredita todo lo pendiente de un item se usan sus valores restantes exactos
+ * para que la suma de las notas cuadre con la factura sin diferencias de redondeo
+ */
+const buildCreditLines = (invoice: InvoiceForCredit, requested?: CreditNoteItemInput[]) => {
+  const pending = invoice.items.map((item) => {
+    const credited = item.creditNoteItems.reduce(
+      (acc, line) => ({
+        quantity: acc.quantity.plus(line.quantity),
+        taxAmount: acc.taxAmount.plus(line.taxAmount),
+        totalAmount: acc.totalAmount.plus(line.totalAmount)
+      }),
+      { quantity: new Prisma.Decimal(0), taxAmount: new Prisma.Decimal(0), totalAmount: new Prisma.Decimal(0) }
+    );
+    return {
+      item,
+      quantity: item.quantity.minus(credited.quantity),
+      taxAmount: item.taxAmount.minus(credited.taxAmount),
+      totalAmount: item.totalAmount.minus(credited.totalAmount)
+    };
+  });
+
+  let selection: Array<{ pending: (typeof pending)[number]; quantity: Prisma.Decimal }>;
+
+  if (requested && requested.length > 0) {
+    const seen = new Set<string>();
+    selection = requested.map((line) => {
+      const match = pending.find((entry) => entry.item.id === line.invoiceItemId);
+      if (!match) {
+        throw new Error(`El item ${line.invoiceItemId} no pertenece a la factura ${invoice.number}`);
+      }
+      if (seen.has(line.invoiceItemId)) {
+        throw new Error(`El item "${match.item.description}" está repetido en la nota crédito`);
+      }
+      seen.add(line.invoiceItemId);
+
+      const quantity = new Prisma.Decimal(Number(line.quantity));
+      if (!quantity.isFinite() || quantity.lessThanOrEqualTo(0)) {
+        throw new Error(`La cantidad a devolver de "${match.item.description}" es inválida: debe ser mayor a cero`);
+      }
+      // Se devuelve en la misma unidad en que se vendió: un producto por unidades no admite fracciones
+      const unit = match.item.product?.unit;
+      if (unit && !isValidQuantity(quantity.toNumber(), unit)) {
+        throw new Error(
+          `La cantidad a devolver de "${match.item.description}" es inválida: debe ser ${describeQuantity(unit)} mayor a cero`
+        );
+      }
+      if (quantity.greaterThan(match.quantity)) {
+        throw new Error(
+          `La cantidad a devolver de "${match.item.description}" (${quantity.toString()}) excede la pendiente por acreditar (${match.quantity.toString()})`
+        );
+      }
+      return { pending: match, quantity };
+    });
+  } else {
+    selection = pending
+      .filter((entry) => entry.quantity.greaterThan(0))
+      .map((entry) => ({ pending: entry, quantity: entry.quantity }));
+  }
+
+  if (selection.length === 0) {
+    throw new Error(`La factura ${invoice.number} no tiene cantidades pendientes por acreditar`);
+  }
+
+  return selection.map(({ pending: entry, quantity }) => {
+    const { item } = entry;
+    let taxAmount: Prisma.Decimal;
+    let totalAmount: Prisma.Decimal;
+
+    if (quantity.equals(entry.quantity)) {
+      taxAmount = entry.taxAmount;
+      totalAmount = entry.totalAmount;
+    } else {
+      const ratio = quantity.dividedBy(item.quantity);
+      const subtotal = item.totalAmount.minus(item.taxAmount).times(ratio).toDecimalPlaces(2);
+      taxAmount = item.taxAmount.times(ratio).toDecimalPlaces(2);
+      totalAmount = subtotal.plus(taxAmount);
+    }
+
+    return {
+      invoiceItemId: item.id,
+      productId: item.productId,
+      description: item.description,
+      quantity,
+      unitPrice: item.unitPrice,
+      taxRateApplied: item.taxRateApplied,
+      taxAmount,
+      totalAmount
+    };
+  });
+};
+
+/**
+ * Emite una nota crédito dentro de una transacción en curso
+ * Devuelve el inventario, genera el asiento de reverso, descuenta la deuda del cliente
+ * por la porción pendiente de cobro y actualiza el total acreditado y el estado de la factura
+ */
+const issueCreditNote = async (
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  tenantId: string,
+  data: CreateCreditNoteInput
+) => {
+  const reason = data.reason?.trim();
+  if (!reason) {
+    throw new Error('El motivo de la nota crédito es requerido');
+  }
+
+  const invoice = await findInvoiceForCredit(tx, invoiceId, tenantId);
+
+  if (invoice.status === 'DRAFT') {
+    throw new Error('No se pueden emitir notas crédito a una factura en borrador: elimínala o anúlala');
+  }
+  if (invoice.status === 'CANCELLED') {
+    throw new Error(`La factura ${invoice.number} ya está anulada`);
+  }
+
+  const lines = buildCreditLines(invoice, data.items);
+  const taxTotal = lines.reduce((sum, line) => sum.plus(line.taxAmount), new Prisma.Decimal(0));
+  const total = lines.reduce((sum, line) => sum.plus(line.totalAmount), new Prisma.Decimal(0));
+  const subtotal = total.minus(taxTotal);
+
+  const number = await allocateDocumentNumber(tx, tenantId, 'CREDIT_NOTE');
+  const issueDate = new Date();
+
+  const creditNote = await tx.creditNote.create({
+    data: {
+      tenantId,
+      invoiceId: invoice.id,
+      number,
+      reason,
+      issueDate,
+      subtotal,
+      taxTotal,
+      total,
+      createdById: data.createdById || null,
+      items: {
+        create: lines
+      }
+    },
+    select: CREDIT_NOTE_FIELDS
+  });
+
+  // Lo devuelto vuelve al inventario al costo con que salió en la venta (los kits, en sus componentes)
+  const itemsById = new Map(invoice.items.map((item) => [item.id, item]));
+  const returned = lines.map((line) => ({
+    ...line,
+    unitCost: itemsById.get(line.invoiceItemId)?.unitCost,
+    components: itemsById.get(line.invoiceItemId)?.components
+  }));
+  await restock(tx, returned, {
+    tenantId,
+    invoiceId: invoice.id,
+    creditNoteId: creditNote.id,
+    userId: data.createdById,
+    locationId: invoice.locationId,
+    notes: `Nota crédito ${number} de la factura ${invoice.number}`
+  });
+
+  // La nota reduce primero el saldo pendiente; lo que ya se había cobrado se reembolsa
+  const balance = Prisma.Decimal.max(invoice.total.minus(invoice.totalPaid).minus(invoice.totalCredited), 0);
+  const receivablesAmount = Prisma.Decimal.min(total, balance);
+  const isCredit = isCreditInvoice(invoice.paymentMethod, invoice.isCreditSale);
+  const refundMethod: PaymentMethod = isCredit ? 'CASH' : invoice.paymentMethod;
+
+  await postCreditNoteJournalEntry(tx, {
+    id: creditNote.id,
+    tenantId,
+    invoiceId: invoice.id,
+    number,
+    invoiceNumber: invoice.number,
+    issueDate,
+    taxTotal,
+    total,
+    receivablesAmount,
+    refundMethod,
+    items: lines
+  });
+
+  if (isCredit && invoice.clientId && receivablesAmount.greaterThan(0)) {
+    await releaseClientCredit(tx, invoice.clientId, receivablesAmount);
+  }
+
+  const newTotalCredited = invoice.totalCredited.plus(total);
+  let newStatus: InvoiceStatus = invoice.status;
+  if (newTotalCredited.greaterThanOrEqualTo(invoice.total)) {
+    newStatus = 'CANCELLED';
+  } else if (invoice.totalPaid.plus(newTotalCredited).greaterThanOrEqualTo(invoice.total)) {
+    newStatus = 'PAID';
+  }
+
+  // Actualización condicionada al total acreditado leído para no perder notas simultáneas
+  const updated = await tx.invoice.updateMany({
+    where: { id: invoice.id, totalCredited: invoice.totalCredited, totalPaid: invoice.totalPaid },
+    data: { totalCredited: newTotalCredited, status: newStatus }
+  });
+  if (updated.count === 0) {
+    throw new Error('La factura fue modificada por otra operación simultánea. Intenta nuevamente');
+  }
+
+  const invoiceSummary = await tx.invoice.findUniqueOrThrow({
+    where: { id: invoice.id },
+    select: INVOICE_SUMMARY_FIELDS
+  });
+
+  console.log(`✅ [CreditNoteService] Nota crédito ${number} emitida a la factura ${invoice.number}: ${total.toFixed(2)}`);
+
+  return {
+    creditNote,
+    invoice: {
+      ...invoiceSummary,
+      balance: Prisma.Decimal.max(
+        invoiceSummary.total.minus(invoiceSummary.totalPaid).minus(invoiceSummary.totalCredited),
+        0
+      )
+    }
+  };
+};
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene las notas crédito de una factura
+ *
+ * @param invoiceId - ID de la factura
+ * @param tenantId - ID del tenant
+ * @returns Factura con su total acreditado y sus notas ordenadas por fecha
+ */
+export const getInvoiceCreditNotes = async (invoiceId: string, tenantId: string) => {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: invoiceId, tenantId },
+    select: {
+      ...INVOICE_SUMMARY_FIELDS,
+      creditNotes: {
+        select: {
+          ...CREDIT_NOTE_FIELDS,
+          createdBy: { select: { id: true, fullName: true } }
+        },
+        orderBy: { issueDate: 'asc' }
+      }
+    }
+  });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  const { creditNotes, ...invoiceData } = invoice;
+  return { invoice: invoiceData, creditNotes };
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Emite una nota crédito total o parcial (por item) a una factura emitida
+ *
+ * @param invoiceId - ID de la factura
+ * @param data - Motivo e items a acreditar
+ * @param tenantId - ID del tenant
+ * @returns Nota crédito creada y saldo actualizado de la factura
+ */
+export const createCreditNote = async (
+  invoiceId: string,
+  data: CreateCreditNoteInput,
+  tenantId: string
+) => {
+  return prisma.$transaction((tx) => issueCreditNote(tx, invoiceId, tenantId, data));
+};
+
+/**
+ * Anula una factura conservando el registro original
+ * Un borrador solo devuelve su inventario; una factura emitida se reversa con una nota crédito
+ * por todo lo pendiente de acreditar
+ *
+ * @param invoiceId - ID de la factura
+ * @param data - Motivo de la anulación
+ * @param tenantId - ID del tenant
+ * @returns Factura anulada y la nota crédito generada (null para borradores)
+ */
+export const cancelInvoice = async (
+  invoiceId: string,
+  data: CancelInvoiceInput,
+  tenantId: string
+) => {
+  return prisma.$transaction(async (tx) => {
+    const invoice = await findInvoiceForCredit(tx, invoiceId, tenantId);
+
+    if (invoice.status === 'CANCELLED') {
+      throw new Error(`La factura ${invoice.number} ya está anulada`);
+    }
+
+    if (invoice.status === 'DRAFT') {
+      await restock(tx, invoice.items, {
+        tenantId,
+        invoiceId: invoice.id,
+        userId: data.createdById,
+        locationId: invoice.locationId,
+        notes: `Anulación del borrador ${invoice.number}`
+      });
+      const cancelled = await tx.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          status: 'CANCELLED',
+          notes: data.reason?.trim() ? `Anulada: ${data.reason.trim()}` : undefined
+        },
+        select: INVOICE_SUMMARY_FIELDS
+      });
+      console.log(`✅ [CreditNoteService] Borrador anulado: ${invoice.id}`);
+      return { creditNote: null, invoice: cancelled };
+    }
+
+    return issueCreditNote(tx, invoice.id, tenantId, {
+      reason: data.reason,
+      createdById: data.createdById
+    });
+  });
+};
+
+/**
+ * Devuelve al inventario las cantidades de un borrador antes de eliminarlo
+ * Debe llamarse dentro de la transacción que elimina la factura
+ */
+export const restockDraftInvoice = async (
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  tenantId: string,
+  userId?: string | null
+) => {
+  const invoice = await tx.invoice.findFirstOrThrow({
+    where: { id: invoiceId, tenantId },
+    select: {
+      number: true,
+      locationId: true,
+      items: {
+        select: {
+          productId: true,
+          quantity: true,
+          unitCost: true,
+          components: { select: { productId: true, quantity: true, unitCost: true } }
+        }
+      }
+    }
+  });
+  await restock(tx, invoice.items, {
+    tenantId,
+    invoiceId,
+    userId,
+    locationId: invoice.locationId,
+    notes: `Eliminación del borrador ${invoice.number}`
+  });
+};
@@ -0,0 +1,117 @@
+// backend/src/services/creditService.ts
+// Servicio de crédito a clientes (fiado) - Cupo y deuda actual
+
+import { Prisma } from '@prisma/client';
+
+// ==================== TIPOS E INTERFACES ====================
+
+// Cargo de una venta a crédito a la deuda del cliente
+export interface CreditChargeInput {
+  tenantId: string;
+  clientId?: string | null;
+  amount: Prisma.Decimal.Value;
+  invoiceNumber: string;
+  allowOverLimit?: boolean; // Solo ADMIN puede autorizar ventas por encima del cupo
+}
+
+// ==================== OPERACIONES ====================
+
+/**
+ * Carga una venta a crédito a la deuda del cliente
+ * Exige un cliente con crédito habilitado y que la venta no supere su cupo disponible,
+ * salvo autorización de un administrador. El incremento es atómico: la validación del
+ * cupo se hace en el mismo UPDATE para que dos ventas simultáneas no lo excedan.
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción de la factura
+ * @param charge - Datos del cargo
+ */
+export const chargeClientCredit = async (
+  tx: Prisma.TransactionClient,
+  charge: CreditChargeInput
+): Promise<void> => {
+  const settings = await tx.companySettings.findUnique({
+    where: { tenantId: charge.tenantId },
+    select: { enableCredit: true }
+  });
+  if (settings && !settings.enableCredit) {
+    throw new Error('Las ventas a crédito están deshabilitadas para esta empresa');
+  }
+
+  if (!charge.clientId) {
+    throw new Error('Las ventas a crédito requieren un cliente con crédito habilitado');
+  }
+
+  const client = await tx.client.findFirst({
+    where: { id: charge.clientId, tenantId: charge.tenantId },
+    select: {
+      id: true,
+      businessName: true,
+      hasCredit: true,
+      isActive: true,
+      creditLimit: true,
+      currentDebt: true
+    }
+  });
+
+  if (!client) {
+    throw new Error('Cliente no encontrado');
+  }
+  if (!client.isActive) {
+    throw new Error(`El cliente "${client.businessName}" está inactivo`);
+  }
+  if (!client.hasCredit) {
+    throw new Error(`El cliente "${client.businessName}" no tiene crédito habilitado`);
+  }
+
+  const amount = new Prisma.Decimal(charge.amount);
+
+  if (charge.allowOverLimit) {
+    await tx.client.update({
+      where: { id: client.id },
+      data: { currentDebt: { increment: amount } }
+    });
+    console.log(`⚠️ [CreditService] Cupo excedido autorizado para "${client.businessName}" en la factura ${charge.invoiceNumber}`);
+    return;
+  }
+
+  const updated = await tx.$executeRaw`
+    UPDATE "Client"
+    SET "currentDebt" = "currentDebt" + ${amount.toString()}::decimal,
+        "updatedAt" = NOW()
+    WHERE "id" = ${client.id}
+      AND "hasCredit" = true
+      AND "currentDebt" + ${amount.toString()}::decimal <= "creditLimit"
+  `;
+
+  if (updated === 0) {
+    const current = await tx.client.findUnique({
+      where: { id: client.id },
+      select: { creditLimit: true, currentDebt: true }
+    });
+    const creditLimit = current?.creditLimit ?? client.creditLimit;
+    const currentDebt = current?.currentDebt ?? client.currentDebt;
+    const available = creditLimit.minus(currentDebt);
+    throw new Error(
+      `Cupo de crédito excedido para "${client.businessName}": deuda actual ${currentDebt.toFixed(2)}, ` +
+      `cupo ${creditLimit.toFixed(2)}, disponible ${available.toFixed(2)}, venta ${amount.toFixed(2)}`
+    );
+  }
+};
+
+/**
+ * Descuenta de la deuda del cliente un pago o reverso de una venta a crédito
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción en curso
+ * @param clientId - ID del cliente
+ * @param amount - Valor a descontar
+ */
+export const releaseClientCredit = async (
+  tx: Prisma.TransactionClient,
+  clientId: string,
+  amount: Prisma.Decimal.Value
+): Promise<void> => {
+  await tx.client.update({
+    where: { id: clientId },
+    data: { currentDebt: { decrement: new Prisma.Decimal(amount) } }
+  });
+};
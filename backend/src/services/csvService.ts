@@ -0,0 +1,116 @@
+// backend/src/services/csvService.ts
+// Servicio CSV - Archivos separados por punto y coma con coma decimal, como los abre Excel en español (Colombia)
+
+// ==================== TIPOS E INTERFACES ====================
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+const CSV_DELIMITER = ';';
+
+// Marca de orden de bytes: Excel la necesita para leer el archivo como UTF-8 (tildes y ñ)
+const UTF8_BOM = '\uFEFF';
+
+// Caracteres con los que Excel y LibreOffice interpretan una celda de texto como fórmula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Neutraliza el texto que la hoja de cálculo ejecutaría como fórmula (p. ej. =HYPERLINK(...)):
+ * se antepone un apóstrofo para que se muestre como texto
+ */
+export const escapeFormula = (text: string): string => {
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text;
+};
+
+/**
+ * Quita el apóstrofo que escapeFormula antepuso, para que un archivo exportado se pueda importar igual
+ */
+export const unescapeFormula = (text: string): string => {
+  return text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+};
+
+/**
+ * Texto de una celda: los números llevan coma decimal y sin separador de miles;
+ * el texto con separador, comillas o saltos de línea va entre comillas y el que parece fórmula se escapa
+ */
+const formatCell = (value: CsvValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'SI' : 'NO';
+  }
+  const text = typeof value === 'number' ? String(value).replace('.', ',') : escapeFormula(value);
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Arma un archivo CSV con encabezados
+ *
+ * @param headers - Títulos de las columnas
+ * @param rows - Filas con un valor por columna
+ * @returns Contenido del archivo (UTF-8 con BOM y fin de línea CRLF)
+ */
+export const toCsv = (headers: string[], rows: CsvValue[][]): string => {
+  const lines = [headers, ...rows].map((row) => row.map(formatCell).join(CSV_DELIMITER));
+  return `${UTF8_BOM}${lines.join('\r\n')}\r\n`;
+};
+
+/**
+ * Lee un archivo CSV como una matriz de texto
+ * Detecta el separador (punto y coma, coma o tabulación) en la primera línea y acepta campos entre comillas
+ *
+ * @param content - Contenido del archivo
+ * @returns Filas del archivo (sin las líneas vacías del final)
+ */
+export const parseCsv = (content: string): string[][] => {
+  const text = content.startsWith(UTF8_BOM) ? content.slice(1) : content;
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const candidates = [';', ',', '\t'];
+  const delimiter = candidates.reduce((best, candidate) => (
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  ), CSV_DELIMITER);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1].every((value) => value.trim() === '')) {
+    rows.pop();
+  }
+  return rows;
+};
@@ -0,0 +1,81 @@
+// backend/src/services/dianTransport.ts
+// Transporte de documentos electrónicos hacia la DIAN (intercambiable)
+
+import { createHash } from 'crypto';
+
+// ==================== TIPOS E INTERFACES ====================
+
+// Documento listo para enviar
+export interface DianSubmission {
+  tenantId: string;
+  documentNumber: string;
+  cufe: string;
+  xml: string;
+  environment: string; // 1 = producción, 2 = pruebas (habilitación)
+}
+
+// Respuesta de la DIAN (o del proveedor tecnológico)
+export interface DianSubmissionResult {
+  status: 'SENT' | 'ACCEPTED' | 'REJECTED';
+  trackId?: string | null;
+  message?: string | null;
+}
+
+/**
+ * Transporte hacia la DIAN
+ * La firma XAdES y el envío al web service los realiza la implementación
+ * (directamente o a través de un proveedor tecnológico)
+ */
+export interface DianTransport {
+  name: string;
+  submit(submission: DianSubmission): Promise<DianSubmissionResult>;
+}
+
+// ==================== IMPLEMENTACIONES ====================
+
+/**
+ * Transporte local de pruebas: no envía nada y acepta cualquier documento con CUFE
+ */
+export const mockDianTransport: DianTransport = {
+  name: 'mock',
+  async submit(submission: DianSubmission): Promise<DianSubmissionResult> {
+    if (!submission.cufe || !submission.xml) {
+      return { status: 'REJECTED', message: 'Documento sin CUFE o sin XML' };
+    }
+
+    console.log(`📨 [DianTransport:mock] Documento ${submission.documentNumber} aceptado localmente`);
+    return {
+      status: 'ACCEPTED',
+      trackId: createHash('sha256').update(submission.cufe).digest('hex').substring(0, 32),
+      message: 'Documento validado por el transporte de pruebas (no enviado a la DIAN)'
+    };
+  }
+};
+
+const transports: { [name: string]: DianTransport } = {
+  [mockDianTransport.name]: mockDianTransport
+};
+
+// ==================== REGISTRO ====================
+
+/**
+ * Registra un transporte adicional (por ejemplo, el de un proveedor tecnológico)
+ * Se selecciona con la variable de entorno DIAN_TRANSPORT
+ */
+export const registerDianTransport = (transport: DianTransport): void => {
+  transports[transport.name] = transport;
+};
+
+/**
+ * Obtiene el transporte configurado en DIAN_TRANSPORT (por defecto el de pruebas)
+ */
+export const getDianTransport = (): DianTransport => {
+  const name = process.env.DIAN_TRANSPORT || mockDianTransport.name;
+  const transport = transports[name];
+
+  if (!transport) {
+    throw new Error(`Transporte DIAN "${name}" no registrado`);
+  }
+
+  return transport;
+};
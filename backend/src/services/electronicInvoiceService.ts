@@ -0,0 +1,652 @@
+// backend/src/services/electronicInvoiceService.ts
+// Servicio de facturación electrónica DIAN - Generación del XML UBL 2.1 y cálculo del CUFE
+
+import { createHash } from 'crypto';
+import { DocumentType, PaymentMethod, Prisma } from '@prisma/client';
+
+import prisma from '../db';
+import { TIMEZONE_COLOMBIA } from '../config/constants';
+import { getDianTransport } from './dianTransport';
+
+// ==================== TIPOS E INTERFACES ====================
+
+// Configuración del software de facturación ante la DIAN
+export interface DianConfig {
+  environment: '1' | '2'; // 1 = producción, 2 = pruebas (habilitación)
+  technicalKey: string;
+  softwareId: string;
+  softwarePin: string;
+}
+
+// Valores que componen el CUFE (Anexo técnico de factura electrónica de venta)
+export interface CufeInput {
+  number: string;
+  issueDate: string; // YYYY-MM-DD
+  issueTime: string; // HH:mm:ss-05:00
+  subtotal: string;
+  vatTotal: string;
+  total: string;
+  issuerNit: string;
+  customerId: string;
+  technicalKey: string;
+  environment: string;
+}
+
+const INVOICE_FOR_XML_SELECT = {
+  id: true,
+  tenantId: true,
+  number: true,
+  issueDate: true,
+  dueDate: true,
+  paymentMethod: true,
+  isCreditSale: true,
+  currency: true,
+  subtotal: true,
+  taxTotal: true,
+  total: true,
+  notes: true,
+  tenant: {
+    select: {
+      name: true,
+      nit: true,
+      dv: true,
+      email: true,
+      phone: true,
+      address: true,
+      settings: { select: { enableElectronicBilling: true } }
+    }
+  },
+  client: {
+    select: {
+      businessName: true,
+      documentType: true,
+      identification: true,
+      nit: true,
+      dv: true,
+      email: true,
+      phone: true,
+      address: true
+    }
+  },
+  resolution: {
+    select: {
+      resolutionNumber: true,
+      prefix: true,
+      rangeFrom: true,
+      rangeTo: true,
+      validFrom: true,
+      validTo: true,
+      technicalKey: true
+    }
+  },
+  items: {
+    select: {
+      id: true,
+      description: true,
+      quantity: true,
+      unitPrice: true,
+      discountAmount: true,
+      taxRateApplied: true,
+      taxCategory: true,
+      taxAmount: true,
+      totalAmount: true,
+      product: { select: { sku: true } }
+    },
+    orderBy: { createdAt: 'asc' }
+  }
+} as const;
+
+type InvoiceForXml = Prisma.InvoiceGetPayload<{ select: typeof INVOICE_FOR_XML_SELECT }>;
+
+// Clave técnica pública del ambiente de habilitación de la DIAN
+const DIAN_TEST_TECHNICAL_KEY = 'fc8eac422eba16e22ffd8c6f94b3f40a6e38162c';
+
+// NIT de la DIAN como proveedor de autorización
+const DIAN_NIT = '800197268';
+
+// Identificación genérica del consumidor final
+const FINAL_CONSUMER_ID = '222222222222';
+
+// Códigos de tipo de documento de identificación (tabla 13.2.1 del anexo técnico)
+const IDENTIFICATION_SCHEMES: { [key in DocumentType]: string } = {
+  CC: '13',
+  NIT: '31',
+  PASSPORT: '41'
+};
+
+// Códigos de medio de pago (tabla 13.3.4.2 del anexo técnico)
+const PAYMENT_MEANS_CODES: { [key in PaymentMethod]: string } = {
+  CASH: '10', // Efectivo
+  TRANSFER: '47', // Transferencia débito bancaria
+  CREDIT: '1' // Instrumento no definido
+};
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Lee la configuración del software de facturación desde las variables de entorno
+ * En el ambiente de pruebas se usa la clave técnica pública de habilitación si no se configura otra
+ */
+export const getDianConfig = (): DianConfig => {
+  const environment = process.env.DIAN_ENVIRONMENT === '1' ? '1' : '2';
+  const technicalKey = process.env.DIAN_TECHNICAL_KEY ||
+    (environment === '2' ? DIAN_TEST_TECHNICAL_KEY : '');
+
+  return {
+    environment,
+    technicalKey,
+    softwareId: process.env.DIAN_SOFTWARE_ID || '',
+    softwarePin: process.env.DIAN_SOFTWARE_PIN || ''
+  };
+};
+
+const sha384 = (value: string): string => {
+  return createHash('sha384').update(value, 'utf8').digest('hex');
+};
+
+const escapeXml = (value: string | null | undefined): string => {
+  return (value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const money = (value: Prisma.Decimal.Value): string => {
+  return new Prisma.Decimal(value).toFixed(2);
+};
+
+/**
+ * Obtiene fecha (YYYY-MM-DD) y hora (HH:mm:ss-05:00) de emisión en zona horaria de Colombia
+ */
+const getColombiaIssueDateTime = (date: Date): { issueDate: string; issueTime: string } => {
+  const issueDate = new Intl.DateTimeFormat('en-CA', {
+    timeZone: TIMEZONE_COLOMBIA,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+  const time = new Intl.DateTimeFormat('en-GB', {
+    timeZone: TIMEZONE_COLOMBIA,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).format(date);
+
+  return { issueDate, issueTime: `${time}-05:00` };
+};
+
+/**
+ * Calcula el CUFE (Código Único de Factura Electrónica) con SHA-384
+ * NumFac + FecFac + HorFac + ValFac + 01 + ValIva + 04 + ValInc + 03 + ValIca + ValTot + NitOFE + NumAdq + ClTec + TipoAmbiente
+ */
+export const calculateCufe = (input: CufeInput): string => {
+  return sha384(
+    input.number +
+    input.issueDate +
+    input.issueTime +
+    input.subtotal +
+    '01' + input.vatTotal +
+    '04' + '0.00' +
+    '03' + '0.00' +
+    input.total +
+    input.issuerNit +
+    input.customerId +
+    input.technicalKey +
+    input.environment
+  );
+};
+
+/**
+ * Obtiene la identificación del adquiriente: NIT si lo tiene, si no su documento,
+ * o la del consumidor final cuando la venta no tiene cliente
+ */
+const getCustomerIdentification = (invoice: InvoiceForXml) => {
+  const client = invoice.client;
+
+  if (client?.nit) {
+    return { id: client.nit, dv: client.dv, scheme: IDENTIFICATION_SCHEMES.NIT, isCompany: true };
+  }
+  if (client?.identification) {
+    const documentType = client.documentType ?? 'CC';
+    return {
+      id: client.identification,
+      dv: documentType === 'NIT' ? client.dv : null,
+      scheme: IDENTIFICATION_SCHEMES[documentType],
+      isCompany: documentType === 'NIT'
+    };
+  }
+  return { id: FINAL_CONSUMER_ID, dv: null, scheme: IDENTIFICATION_SCHEMES.CC, isCompany: false };
+};
+
+/**
+ * Agrupa los items por tarifa de IVA: base gravable e impuesto de cada tarifa
+ * Los bienes excluidos no son responsables de IVA y no se reportan; los exentos sí, con tarifa 0%
+ */
+const groupTaxesByRate = (invoice: InvoiceForXml) => {
+  const groups: { [rate: string]: { rate: string; taxable: Prisma.Decimal; tax: Prisma.Decimal } } = {};
+
+  invoice.items.filter((item) => item.taxCategory !== 'EXCLUDED').forEach((item) => {
+    const rate = money(item.taxRateApplied);
+    const taxable = item.totalAmount.minus(item.taxAmount);
+    if (!groups[rate]) {
+      groups[rate] = { rate, taxable: new Prisma.Decimal(0), tax: new Prisma.Decimal(0) };
+    }
+    groups[rate].taxable = groups[rate].taxable.plus(taxable);
+    groups[rate].tax = groups[rate].tax.plus(item.taxAmount);
+  });
+
+  return Object.values(groups);
+};
+
+const buildTaxTotalXml = (taxAmount: string, subtotals: Array<{ rate: string; taxable: string; tax: string }>, indent: string): string => {
+  return [
+    `${indent}<cac:TaxTotal>`,
+    `${indent}  <cbc:TaxAmount currencyID="COP">${taxAmount}</cbc:TaxAmount>`,
+    ...subtotals.map((subtotal) => [
+      `${indent}  <cac:TaxSubtotal>`,
+      `${indent}    <cbc:TaxableAmount currencyID="COP">${subtotal.taxable}</cbc:TaxableAmount>`,
+      `${indent}    <cbc:TaxAmount currencyID="COP">${subtotal.tax}</cbc:TaxAmount>`,
+      `${indent}    <cac:TaxCategory>`,
+      `${indent}      <cbc:Percent>${subtotal.rate}</cbc:Percent>`,
+      `${indent}      <cac:TaxScheme>`,
+      `${indent}        <cbc:ID>01</cbc:ID>`,
+      `${indent}        <cbc:Name>IVA</cbc:Name>`,
+      `${indent}      </cac:TaxScheme>`,
+      `${indent}    </cac:TaxCategory>`,
+      `${indent}  </cac:TaxSubtotal>`
+    ].join('\n')),
+    `${indent}</cac:TaxTotal>`
+  ].join('\n');
+};
+
+const buildPartyXml = (
+  tag: 'AccountingSupplierParty' | 'AccountingCustomerParty',
+  party: {
+    isCompany: boolean;
+    name: string;
+    id: string;
+    dv?: string | null;
+    scheme: string;
+    address?: string | null;
+    email?: string | null;
+    phone?: string | null;
+  }
+): string => {
+  const dvAttribute = party.dv ? ` schemeID="${escapeXml(party.dv)}"` : '';
+  return [
+    `  <cac:${tag}>`,
+    `    <cbc:AdditionalAccountID>${party.isCompany ? '1' : '2'}</cbc:AdditionalAccountID>`,
+    '    <cac:Party>',
+    '      <cac:PartyName>',
+    `        <cbc:Name>${escapeXml(party.name)}</cbc:Name>`,
+    '      </cac:PartyName>',
+    '      <cac:PhysicalLocation>',
+    '        <cac:Address>',
+    `          <cac:AddressLine><cbc:Line>${escapeXml(party.address)}</cbc:Line></cac:AddressLine>`,
+    '          <cac:Country><cbc:IdentificationCode>CO</cbc:IdentificationCode></cac:Country>',
+    '        </cac:Address>',
+    '      </cac:PhysicalLocation>',
+    '      <cac:PartyTaxScheme>',
+    `        <cbc:RegistrationName>${escapeXml(party.name)}</cbc:RegistrationName>`,
+    `        <cbc:CompanyID schemeAgencyID="195"${dvAttribute} schemeName="${party.scheme}">${escapeXml(party.id)}</cbc:CompanyID>`,
+    '        <cbc:TaxLevelCode>R-99-PN</cbc:TaxLevelCode>',
+    '        <cac:TaxScheme>',
+    '          <cbc:ID>01</cbc:ID>',
+    '          <cbc:Name>IVA</cbc:Name>',
+    '        </cac:TaxScheme>',
+    '      </cac:PartyTaxScheme>',
+    '      <cac:PartyLegalEntity>',
+    `        <cbc:RegistrationName>${escapeXml(party.name)}</cbc:RegistrationName>`,
+    `        <cbc:CompanyID schemeAgencyID="195"${dvAttribute} schemeName="${party.scheme}">${escapeXml(party.id)}</cbc:CompanyID>`,
+    '      </cac:PartyLegalEntity>',
+    '      <cac:Contact>',
+    `        <cbc:Telephone>${escapeXml(party.phone)}</cbc:Telephone>`,
+    `        <cbc:ElectronicMail>${escapeXml(party.email)}</cbc:ElectronicMail>`,
+    '      </cac:Contact>',
+    '    </cac:Party>',
+    `  </cac:${tag}>`
+  ].join('\n');
+};
+
+/**
+ * Construye el XML UBL 2.1 de la factura electrónica de venta según el anexo técnico de la DIAN
+ * La firma digital (XAdES-EPES) se deja en una extensión vacía para que la aplique el transporte
+ */
+export const buildInvoiceXml = (
+  invoice: InvoiceForXml,
+  config: DianConfig,
+  issuedAt: Date
+): { xml: string; cufe: string } => {
+  const issuerNit = invoice.tenant.nit as string;
+  const customer = getCustomerIdentification(invoice);
+  const { issueDate, issueTime } = getColombiaIssueDateTime(issuedAt);
+  const taxGroups = groupTaxesByRate(invoice);
+  const taxableTotal = taxGroups.reduce((sum, group) => sum.plus(group.taxable), new Prisma.Decimal(0));
+  const isCredit = invoice.isCreditSale || invoice.paymentMethod === 'CREDIT';
+
+  const cufe = calculateCufe({
+    number: invoice.number,
+    issueDate,
+    issueTime,
+    subtotal: money(invoice.subtotal),
+    vatTotal: money(invoice.taxTotal),
+    total: money(invoice.total),
+    issuerNit,
+    customerId: customer.id,
+    technicalKey: config.technicalKey,
+    environment: config.environment
+  });
+
+  const qrUrl = config.environment === '1'
+    ? `https://catalogo-vpfe.dian.gov.co/document/searchqr?documentkey=${cufe}`
+    : `https://catalogo-vpfe-hab.dian.gov.co/document/searchqr?documentkey=${cufe}`;
+  const qrCode = [
+    `NumFac: ${invoice.number}`,
+    `FecFac: ${issueDate}`,
+    `HorFac: ${issueTime}`,
+    `NitFac: ${issuerNit}`,
+    `DocAdq: ${customer.id}`,
+    `ValFac: ${money(invoice.subtotal)}`,
+    `ValIva: ${money(invoice.taxTotal)}`,
+    'ValOtroIm: 0.00',
+    `ValTolFac: ${money(invoice.total)}`,
+    `CUFE: ${cufe}`,
+    qrUrl
+  ].join('\n');
+
+  const softwareSecurityCode = config.softwareId
+    ? sha384(config.softwareId + config.softwarePin + invoice.number)
+    : '';
+
+  const lines = invoice.items.map((item, index) => {
+    const lineExtension = money(item.totalAmount.minus(item.taxAmount));
+    const rate = money(item.taxRateApplied);
+    return [
+      '  <cac:InvoiceLine>',
+      `    <cbc:ID>${index + 1}</cbc:ID>`,
+      `    <cbc:InvoicedQuantity unitCode="94">${item.quantity}</cbc:InvoicedQuantity>`,
+      `    <cbc:LineExtensionAmount currencyID="COP">${lineExtension}</cbc:LineExtensionAmount>`,
+      // Descuento de la línea (promoción, descuento manual y su parte del descuento de la factura)
+      item.discountAmount.greaterThan(0)
+        ? [
+          '    <cac:AllowanceCharge>',
+          '      <cbc:ID>1</cbc:ID>',
+          '      <cbc:ChargeIndicator>false</cbc:ChargeIndicator>',
+          '      <cbc:AllowanceChargeReasonCode>11</cbc:AllowanceChargeReasonCode>',
+          '      <cbc:AllowanceChargeReason>Descuento</cbc:AllowanceChargeReason>',
+          `      <cbc:MultiplierFactorNumeric>${item.discountAmount.dividedBy(item.unitPrice.times(item.quantity)).times(100).toFixed(2)}</cbc:MultiplierFactorNumeric>`,
+          `      <cbc:Amount currencyID="COP">${money(item.discountAmount)}</cbc:Amount>`,
+          `      <cbc:BaseAmount currencyID="COP">${money(item.unitPrice.times(item.quantity))}</cbc:BaseAmount>`,
+          '    </cac:AllowanceCharge>'
+        ].join('\n')
+        : null,
+      item.taxCategory !== 'EXCLUDED'
+        ? buildTaxTotalXml(money(item.taxAmount), [{ rate, taxable: lineExtension, tax: money(item.taxAmount) }], '    ')
+        : null,
+      '    <cac:Item>',
+      `      <cbc:Description>${escapeXml(item.description)}</cbc:Description>`,
+      item.product?.sku
+        ? `      <cac:StandardItemIdentification><cbc:ID schemeID="999">${escapeXml(item.product.sku)}</cbc:ID></cac:StandardItemIdentification>`
+        : null,
+      '    </cac:Item>',
+      '    <cac:Price>',
+      `      <cbc:PriceAmount currencyID="COP">${money(item.unitPrice)}</cbc:PriceAmount>`,
+      '      <cbc:BaseQuantity unitCode="94">1</cbc:BaseQuantity>',
+      '    </cac:Price>',
+      '  </cac:InvoiceLine>'
+    ].filter((line) => line !== null).join('\n');
+  });
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"',
+    '         xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"',
+    '         xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2"',
+    '         xmlns:ds="http://www.w3.org/2000/09/xmldsig#"',
+    '         xmlns:ext="urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2"',
+    '         xmlns:sts="dian:gov:co:facturaelectronica:Structures-2-1">',
+    '  <ext:UBLExtensions>',
+    '    <ext:UBLExtension>',
+    '      <ext:ExtensionContent>',
+    '        <sts:DianExtensions>',
+    invoice.resolution ? [
+      '          <sts:InvoiceControl>',
+      `            <sts:InvoiceAuthorization>${escapeXml(invoice.resolution.resolutionNumber)}</sts:InvoiceAuthorization>`,
+      '            <sts:AuthorizationPeriod>',
+      `              <cbc:StartDate>${getColombiaIssueDateTime(invoice.resolution.validFrom).issueDate}</cbc:StartDate>`,
+      `              <cbc:EndDate>${getColombiaIssueDateTime(invoice.resolution.validTo).issueDate}</cbc:EndDate>`,
+      '            </sts:AuthorizationPeriod>',
+      '            <sts:AuthorizedInvoices>',
+      `              <sts:Prefix>${escapeXml(invoice.resolution.prefix)}</sts:Prefix>`,
+      `              <sts:From>${invoice.resolution.rangeFrom}</sts:From>`,
+      `              <sts:To>${invoice.resolution.rangeTo}</sts:To>`,
+      '            </sts:AuthorizedInvoices>',
+      '          </sts:InvoiceControl>'
+    ].join('\n') : null,
+    '          <sts:InvoiceSource>',
+    '            <cbc:IdentificationCode listAgencyID="6" listAgencyName="United Nations Economic Commission for Europe" listSchemeURI="urn:oasis:names:specification:ubl:codelist:gc:CountryIdentificationCode-2.1">CO</cbc:IdentificationCode>',
+    '          </sts:InvoiceSource>',
+    '          <sts:SoftwareProvider>',
+    `            <sts:ProviderID schemeAgencyID="195" schemeID="${escapeXml(invoice.tenant.dv)}" schemeName="31">${escapeXml(issuerNit)}</sts:ProviderID>`,
+    `            <sts:SoftwareID schemeAgencyID="195">${escapeXml(config.softwareId)}</sts:SoftwareID>`,
+    '          </sts:SoftwareProvider>',
+    `          <sts:SoftwareSecurityCode schemeAgencyID="195">${softwareSecurityCode}</sts:SoftwareSecurityCode>`,
+    '          <sts:AuthorizationProvider>',
+    `            <sts:AuthorizationProviderID schemeAgencyID="195" schemeID="4" schemeName="31">${DIAN_NIT}</sts:AuthorizationProviderID>`,
+    '          </sts:AuthorizationProvider>',
+    `          <sts:QRCode>${escapeXml(qrCode)}</sts:QRCode>`,
+    '        </sts:DianExtensions>',
+    '      </ext:ExtensionContent>',
+    '    </ext:UBLExtension>',
+    '    <ext:UBLExtension>',
+    '      <ext:ExtensionContent/>',
+    '    </ext:UBLExtension>',
+    '  </ext:UBLExtensions>',
+    '  <cbc:UBLVersionID>UBL 2.1</cbc:UBLVersionID>',
+    '  <cbc:CustomizationID>10</cbc:CustomizationID>',
+    '  <cbc:ProfileID>DIAN 2.1: Factura Electrónica de Venta</cbc:ProfileID>',
+    `  <cbc:ProfileExecutionID>${config.environment}</cbc:ProfileExecutionID>`,
+    `  <cbc:ID>${escapeXml(invoice.number)}</cbc:ID>`,
+    `  <cbc:UUID schemeID="${config.environment}" schemeName="CUFE-SHA384">${cufe}</cbc:UUID>`,
+    `  <cbc:IssueDate>${issueDate}</cbc:IssueDate>`,
+    `  <cbc:IssueTime>${issueTime}</cbc:IssueTime>`,
+    '  <cbc:InvoiceTypeCode>01</cbc:InvoiceTypeCode>',
+    invoice.notes ? `  <cbc:Note>${escapeXml(invoice.notes)}</cbc:Note>` : null,
+    `  <cbc:DocumentCurrencyCode>${escapeXml(invoice.currency)}</cbc:DocumentCurrencyCode>`,
+    `  <cbc:LineCountNumeric>${invoice.items.length}</cbc:LineCountNumeric>`,
+    buildPartyXml('AccountingSupplierParty', {
+      isCompany: true,
+      name: invoice.tenant.name,
+      id: issuerNit,
+      dv: invoice.tenant.dv,
+      scheme: IDENTIFICATION_SCHEMES.NIT,
+      address: invoice.tenant.address,
+      email: invoice.tenant.email,
+      phone: invoice.tenant.phone
+    }),
+    buildPartyXml('AccountingCustomerParty', {
+      isCompany: customer.isCompany,
+      name: invoice.client?.businessName || 'Consumidor final',
+      id: customer.id,
+      dv: customer.dv,
+      scheme: customer.scheme,
+      address: invoice.client?.address,
+      email: invoice.client?.email,
+      phone: invoice.client?.phone
+    }),
+    '  <cac:PaymentMeans>',
+    `    <cbc:ID>${isCredit ? '2' : '1'}</cbc:ID>`,
+    `    <cbc:PaymentMeansCode>${PAYMENT_MEANS_CODES[invoice.paymentMethod]}</cbc:PaymentMeansCode>`,
+    isCredit && invoice.dueDate
+      ? `    <cbc:PaymentDueDate>${getColombiaIssueDateTime(invoice.dueDate).issueDate}</cbc:PaymentDueDate>`
+      : null,
+    '  </cac:PaymentMeans>',
+    taxGroups.length > 0
+      ? buildTaxTotalXml(
+        money(invoice.taxTotal),
+        taxGroups.map((group) => ({ rate: group.rate, taxable: money(group.taxable), tax: money(group.tax) })),
+        '  '
+      )
+      : null,
+    '  <cac:LegalMonetaryTotal>',
+    `    <cbc:LineExtensionAmount currencyID="COP">${money(invoice.subtotal)}</cbc:LineExtensionAmount>`,
+    `    <cbc:TaxExclusiveAmount currencyID="COP">${money(taxableTotal)}</cbc:TaxExclusiveAmount>`,
+    `    <cbc:TaxInclusiveAmount currencyID="COP">${money(new Prisma.Decimal(invoice.subtotal).plus(invoice.taxTotal))}</cbc:TaxInclusiveAmount>`,
+    `    <cbc:PayableAmount currencyID="COP">${money(invoice.total)}</cbc:PayableAmount>`,
+    '  </cac:LegalMonetaryTotal>',
+    ...lines,
+    '</Invoice>'
+  ].filter((line) => line !== null).join('\n');
+
+  return { xml, cufe };
+};
+
+// ==================== OPERACIONES ====================
+
+/**
+ * Genera y guarda el documento electrónico de una factura emitida
+ * Solo aplica si el tenant tiene habilitada la facturación electrónica
+ * Debe llamarse dentro de la transacción que emite la factura
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción de la factura
+ * @param invoiceId - ID de la factura emitida
+ * @returns ID del documento electrónico o null si la facturación electrónica está deshabilitada
+ */
+export const generateElectronicInvoice = async (
+  tx: Prisma.TransactionClient,
+  invoiceId: string
+): Promise<string | null> => {
+  const invoice = await tx.invoice.findUnique({
+    where: { id: invoiceId },
+    select: INVOICE_FOR_XML_SELECT
+  });
+
+  if (!invoice || !invoice.tenant.settings?.enableElectronicBilling) {
+    return null;
+  }
+
+  const existing = await tx.electronicDocument.findUnique({
+    where: { invoiceId },
+    select: { id: true }
+  });
+  if (existing) {
+    return existing.id;
+  }
+
+  if (!invoice.tenant.nit || !invoice.tenant.dv) {
+    throw new Error('La facturación electrónica requiere el NIT y el dígito de verificación de la empresa');
+  }
+
+  // La clave técnica es la de la resolución que autorizó el número; la del entorno queda como respaldo
+  const environmentConfig = getDianConfig();
+  const config: DianConfig = {
+    ...environmentConfig,
+    technicalKey: invoice.resolution?.technicalKey || environmentConfig.technicalKey
+  };
+  if (!config.technicalKey) {
+    throw new Error('La facturación electrónica en producción requiere la clave técnica de la resolución DIAN');
+  }
+
+  // La fecha y hora del XML y del CUFE son las de emisión de la factura: regenerarlo da el mismo CUFE
+  const { xml, cufe } = buildInvoiceXml(invoice, config, invoice.issueDate);
+
+  const document = await tx.electronicDocument.create({
+    data: {
+      tenantId: invoice.tenantId,
+      invoiceId: invoice.id,
+      cufe,
+      xml,
+      environment: config.environment
+    },
+    select: { id: true }
+  });
+
+  return document.id;
+};
+
+/**
+ * Envía un documento electrónico a la DIAN con el transporte configurado y guarda la respuesta
+ * Se ejecuta después del commit de la factura: un fallo del envío no revierte la venta
+ *
+ * @param documentId - ID del documento electrónico
+ */
+export const submitElectronicDocument = async (documentId: string): Promise<void> => {
+  const document = await prisma.electronicDocument.findUnique({
+    where: { id: documentId },
+    select: {
+      id: true,
+      tenantId: true,
+      cufe: true,
+      xml: true,
+      environment: true,
+      invoice: { select: { number: true } }
+    }
+  });
+
+  if (!document) {
+    return;
+  }
+
+  try {
+    const transport = getDianTransport();
+    const result = await transport.submit({
+      tenantId: document.tenantId,
+      documentNumber: document.invoice.number,
+      cufe: document.cufe,
+      xml: document.xml,
+      environment: document.environment
+    });
+
+    await prisma.electronicDocument.update({
+      where: { id: document.id },
+      data: {
+        status: result.status,
+        trackId: result.trackId ?? null,
+        responseMessage: result.message ?? null,
+        submittedAt: new Date()
+      }
+    });
+  } catch (error) {
+    console.error(`❌ [ElectronicInvoiceService] Error al enviar el documento ${document.invoice.number}:`, error);
+    await prisma.electronicDocument.update({
+      where: { id: document.id },
+      data: {
+        status: 'ERROR',
+        responseMessage: error instanceof Error ? error.message : 'Error desconocido al enviar a la DIAN'
+      }
+    });
+  }
+};
+
+/**
+ * Obtiene el XML de la factura electrónica
+ *
+ * @param invoiceId - ID de la factura
+ * @param tenantId - ID del tenant
+ * @returns Número de la factura y XML
+ */
+export const getInvoiceXml = async (invoiceId: string, tenantId: string) => {
+  const document = await prisma.electronicDocument.findFirst({
+    where: { invoiceId, tenantId },
+    select: {
+      xml: true,
+      cufe: true,
+      status: true,
+      invoice: { select: { number: true } }
+    }
+  });
+
+  if (!document) {
+    throw new Error('La factura no tiene documento electrónico');
+  }
+
+  return {
+    number: document.invoice.number,
+    cufe: document.cufe,
+    status: document.status,
+    xml: document.xml
+  };
+};
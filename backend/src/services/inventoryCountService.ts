@@ -0,0 +1,455 @@
+// backend/src/services/inventoryCountService.ts
+// Servicio de tomas físicas de inventario - Conteos, diferencias contra el stock y su ajuste
+
+import { InventoryCountStatus, Prisma } from '@prisma/client';
+
+import prisma from '../db';
+import { postInventoryCountJournalEntry, roundCurrency } from './accountingService';
+import { getLocationStock, resolveLocation } from './locationService';
+import { allocateDocumentNumber } from './sequenceService';
+import { recordStockMovement } from './stockMovementService';
+import { describeQuantity, isValidQuantity, roundQuantity } from './unitService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Interfaz para abrir una toma física (sin tenantId, se maneja internamente)
+ */
+export interface OpenInventoryCountInput {
+  locationId?: string | null; // Bodega que se cuenta, por defecto la bodega por defecto
+  notes?: string | null;
+  openedById?: string | null;
+}
+
+/**
+ * Cantidad contada de un producto, identificado por ID o por SKU (lectura con escáner)
+ * SET reemplaza lo contado; ADD lo suma (cada lectura del escáner agrega unidades)
+ */
+export interface RecordCountInput {
+  productId?: string;
+  sku?: string;
+  quantity: number;
+  mode?: 'SET' | 'ADD';
+  countedById?: string | null;
+}
+
+// Filtros del listado de tomas físicas
+export interface InventoryCountFilterOptions {
+  status?: InventoryCountStatus;
+  locationId?: string;
+}
+
+const INVENTORY_COUNT_STATUSES: InventoryCountStatus[] = ['OPEN', 'POSTED', 'CANCELLED'];
+
+const INVENTORY_COUNT_FIELDS = {
+  id: true,
+  tenantId: true,
+  number: true,
+  status: true,
+  locationId: true,
+  notes: true,
+  openedById: true,
+  openedAt: true,
+  postedById: true,
+  postedAt: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+const INVENTORY_COUNT_ITEM_FIELDS = {
+  id: true,
+  countId: true,
+  productId: true,
+  countedQuantity: true,
+  expectedStock: true,
+  unitCost: true,
+  countedById: true,
+  createdAt: true,
+  updatedAt: true,
+  product: {
+    select: {
+      id: true,
+      name: true,
+      sku: true,
+      stock: true,
+      cost: true,
+      unit: true,
+      stocks: { select: { locationId: true, quantity: true } }
+    }
+  },
+  countedBy: { select: { id: true, fullName: true } }
+} as const;
+
+type InventoryCountItemRecord = Prisma.InventoryCountItemGetPayload<{ select: typeof INVENTORY_COUNT_ITEM_FIELDS }>;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Calcula la diferencia de un producto contado y su valor al costo
+ * Mientras el conteo está abierto se compara contra el stock actual de la bodega contada y el costo actual;
+ * al publicarse quedan fijos los valores con que se ajustó
+ */
+const withVariance = (locationId: string | null) => (item: InventoryCountItemRecord) => {
+  const locationStock = locationId
+    ? item.product.stocks.find((stock) => stock.locationId === locationId)?.quantity ?? 0
+    : item.product.stock;
+  const countedQuantity = Number(item.countedQuantity);
+  const expectedStock = Number(item.expectedStock ?? locationStock);
+  const unitCost = item.unitCost ?? item.product.cost;
+  const variance = roundQuantity(countedQuantity - expectedStock);
+
+  return {
+    ...item,
+    countedQuantity,
+    expectedStock,
+    unitCost,
+    variance,
+    varianceCost: roundCurrency(variance * Number(unitCost))
+  };
+};
+
+/**
+ * Totales de faltantes y sobrantes de un conteo (unidades y valor al costo)
+ */
+const summarize = (items: Array<ReturnType<ReturnType<typeof withVariance>>>) => {
+  const summary = items.reduce(
+    (acc, item) => {
+      if (item.variance < 0) {
+        acc.shortageUnits = roundQuantity(acc.shortageUnits - item.variance);
+        acc.shortageCost += -item.varianceCost;
+      } else if (item.variance > 0) {
+        acc.surplusUnits = roundQuantity(acc.surplusUnits + item.variance);
+        acc.surplusCost += item.varianceCost;
+      }
+      return acc;
+    },
+    { itemCount: items.length, shortageUnits: 0, surplusUnits: 0, shortageCost: 0, surplusCost: 0 }
+  );
+
+  return {
+    ...summary,
+    shortageCost: roundCurrency(summary.shortageCost),
+    surplusCost: roundCurrency(summary.surplusCost),
+    netVarianceCost: roundCurrency(summary.surplusCost - summary.shortageCost)
+  };
+};
+
+/**
+ * Busca un conteo del tenant y verifica que siga abierto
+ */
+const findOpenCount = async (tx: Prisma.TransactionClient, id: string, tenantId: string) => {
+  const count = await tx.inventoryCount.findFirst({
+    where: { id, tenantId },
+    select: { id: true, number: true, status: true, locationId: true }
+  });
+  if (!count) {
+    throw new Error('Conteo de inventario no encontrado');
+  }
+  if (count.status !== 'OPEN') {
+    throw new Error(`El conteo ${count.number} ya no está abierto`);
+  }
+  return count;
+};
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene las tomas físicas de un tenant, las más recientes primero
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Filtro opcional por estado
+ * @returns Lista de conteos con la cantidad de productos contados
+ */
+export const getInventoryCounts = async (tenantId: string, options: InventoryCountFilterOptions = {}) => {
+  if (options.status && !INVENTORY_COUNT_STATUSES.includes(options.status)) {
+    throw new Error(`El estado ${options.status} es inválido: use ${INVENTORY_COUNT_STATUSES.join(', ')}`);
+  }
+
+  return prisma.inventoryCount.findMany({
+    where: {
+      tenantId,
+      ...(options.status ? { status: options.status } : {}),
+      ...(options.locationId ? { locationId: options.locationId } : {})
+    },
+    select: {
+      ...INVENTORY_COUNT_FIELDS,
+      location: { select: { id: true, name: true } },
+      openedBy: { select: { id: true, fullName: true } },
+      _count: { select: { items: true } }
+    },
+    orderBy: { openedAt: 'desc' }
+  });
+};
+
+/**
+ * Obtiene una toma física con sus productos contados, la diferencia de cada uno y los totales
+ *
+ * @param id - ID del conteo
+ * @param tenantId - ID del tenant
+ * @returns Conteo con diferencias o null si no existe
+ */
+export const getInventoryCountById = async (id: string, tenantId: string) => {
+  const count = await prisma.inventoryCount.findFirst({
+    where: { id, tenantId },
+    select: {
+      ...INVENTORY_COUNT_FIELDS,
+      location: { select: { id: true, name: true } },
+      openedBy: { select: { id: true, fullName: true } },
+      postedBy: { select: { id: true, fullName: true } },
+      items: {
+        select: INVENTORY_COUNT_ITEM_FIELDS,
+        orderBy: { createdAt: 'asc' }
+      }
+    }
+  });
+
+  if (!count) {
+    return null;
+  }
+
+  const items = count.items.map(withVariance(count.locationId));
+  return { ...count, items, summary: summarize(items) };
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Abre una toma física de inventario de una bodega
+ * Solo puede haber un conteo abierto por bodega para no ajustar dos veces el mismo producto
+ *
+ * @param data - Notas y usuario que abre el conteo
+ * @param tenantId - ID del tenant
+ * @returns Conteo creado
+ */
+export const openInventoryCount = async (data: OpenInventoryCountInput, tenantId: string) => {
+  const count = await prisma.$transaction(async (tx) => {
+    const location = await resolveLocation(tx, tenantId, data.locationId);
+    const open = await tx.inventoryCount.findFirst({
+      where: { tenantId, locationId: location.id, status: 'OPEN' },
+      select: { number: true }
+    });
+    if (open) {
+      throw new Error(
+        `Ya existe un conteo abierto en la bodega ${location.name} (${open.number}): publícalo o anúlalo antes de abrir otro`
+      );
+    }
+
+    const number = await allocateDocumentNumber(tx, tenantId, 'INVENTORY_COUNT');
+    return tx.inventoryCount.create({
+      data: {
+        tenantId,
+        number,
+        locationId: location.id,
+        notes: data.notes?.trim() || null,
+        openedById: data.openedById || null
+      },
+      select: INVENTORY_COUNT_FIELDS
+    });
+  });
+
+  console.log(`✅ [InventoryCountService] Conteo abierto: ${count.number} (${count.id})`);
+  return count;
+};
+
+/**
+ * Registra la cantidad contada de un producto en un conteo abierto
+ *
+ * @param id - ID del conteo
+ * @param data - Producto (ID o SKU), cantidad y modo
+ * @param tenantId - ID del tenant
+ * @returns Línea del conteo con su diferencia contra el stock actual
+ */
+export const recordCount = async (id: string, data: RecordCountInput, tenantId: string) => {
+  const mode = data.mode ?? 'SET';
+  if (mode !== 'SET' && mode !== 'ADD') {
+    throw new Error('El modo del conteo es inválido: use SET o ADD');
+  }
+  const quantity = Number(data.quantity);
+  if (!Number.isFinite(quantity) || (mode === 'SET' ? quantity < 0 : quantity === 0)) {
+    throw new Error(
+      mode === 'SET'
+        ? 'La cantidad contada es inválida: debe ser mayor o igual a 0'
+        : 'La cantidad a sumar es inválida: debe ser distinta de cero'
+    );
+  }
+  const sku = data.sku?.trim();
+  if (!data.productId && !sku) {
+    throw new Error('El producto o su SKU es requerido');
+  }
+
+  const { item, locationId } = await prisma.$transaction(async (tx) => {
+    const count = await findOpenCount(tx, id, tenantId);
+
+    const product = await tx.product.findFirst({
+      where: data.productId ? { id: data.productId, tenantId } : { sku, tenantId },
+      select: { id: true, name: true, unit: true, isKit: true }
+    });
+    if (!product) {
+      throw new Error(data.productId ? `Producto con ID ${data.productId} no encontrado` : `Producto con SKU ${sku} no encontrado`);
+    }
+    if (product.isKit) {
+      throw new Error(`El producto "${product.name}" es inválido para el conteo: es un kit, cuente sus componentes`);
+    }
+    if (!isValidQuantity(quantity, product.unit)) {
+      throw new Error(`La cantidad contada de "${product.name}" es inválida: debe ser ${describeQuantity(product.unit)}`);
+    }
+
+    const saved = await tx.inventoryCountItem.upsert({
+      where: { countId_productId: { countId: count.id, productId: product.id } },
+      create: {
+        countId: count.id,
+        productId: product.id,
+        countedQuantity: quantity,
+        countedById: data.countedById || null
+      },
+      update: {
+        countedQuantity: mode === 'ADD' ? { increment: quantity } : quantity,
+        countedById: data.countedById || null
+      },
+      select: INVENTORY_COUNT_ITEM_FIELDS
+    });
+
+    if (saved.countedQuantity.isNegative()) {
+      throw new Error(`La cantidad contada de "${product.name}" es inválida: quedaría en ${saved.countedQuantity}`);
+    }
+    return { item: saved, locationId: count.locationId };
+  });
+
+  return withVariance(locationId)(item);
+};
+
+// ==================== UPDATE OPERATIONS ====================
+
+/**
+ * Quita un producto de un conteo abierto (por ejemplo, si se registró por error)
+ *
+ * @param id - ID del conteo
+ * @param itemId - ID de la línea del conteo
+ * @param tenantId - ID del tenant
+ */
+export const removeCountItem = async (id: string, itemId: string, tenantId: string) => {
+  await prisma.$transaction(async (tx) => {
+    const count = await findOpenCount(tx, id, tenantId);
+    const deleted = await tx.inventoryCountItem.deleteMany({
+      where: { id: itemId, countId: count.id }
+    });
+    if (deleted.count === 0) {
+      throw new Error('Producto del conteo no encontrado');
+    }
+  });
+};
+
+/**
+ * Publica una toma física: ajusta el stock de cada producto contado en la bodega a la cantidad contada
+ * con movimientos de ajuste por conteo en el kardex y registra el asiento de faltantes y sobrantes
+ * Solo se ajustan los productos contados; el resto del inventario no cambia
+ *
+ * @param id - ID del conteo
+ * @param tenantId - ID del tenant
+ * @param userId - Usuario que publica
+ * @returns Conteo publicado con sus diferencias
+ */
+export const postInventoryCount = async (id: string, tenantId: string, userId?: string | null) => {
+  await prisma.$transaction(async (tx) => {
+    const count = await findOpenCount(tx, id, tenantId);
+    const items = await tx.inventoryCountItem.findMany({
+      where: { countId: count.id },
+      select: { id: true, productId: true, countedQuantity: true }
+    });
+    if (items.length === 0) {
+      throw new Error(`El conteo ${count.number} no tiene productos contados`);
+    }
+
+    // Cerrar el conteo de forma condicionada para que no se publique dos veces
+    const postedAt = new Date();
+    const closed = await tx.inventoryCount.updateMany({
+      where: { id: count.id, status: 'OPEN' },
+      data: { status: 'POSTED', postedAt, postedById: userId || null }
+    });
+    if (closed.count === 0) {
+      throw new Error('Otro usuario publicó o anuló el conteo de forma simultánea, intenta de nuevo');
+    }
+
+    let shortageCost = 0;
+    let surplusCost = 0;
+
+    for (const item of items) {
+      const product = await tx.product.findUniqueOrThrow({
+        where: { id: item.productId },
+        select: { stock: true, cost: true }
+      });
+      const expectedStock = count.locationId
+        ? await getLocationStock(tx, item.productId, count.locationId)
+        : Number(product.stock);
+
+      // Se fijan el stock y costo contra los que se ajustó
+      await tx.inventoryCountItem.update({
+        where: { id: item.id },
+        data: { expectedStock, unitCost: product.cost }
+      });
+
+      const variance = roundQuantity(Number(item.countedQuantity) - expectedStock);
+      if (variance === 0) {
+        continue;
+      }
+
+      await recordStockMovement(tx, {
+        tenantId,
+        productId: item.productId,
+        type: 'COUNT_ADJUSTMENT',
+        quantity: variance,
+        unitCost: product.cost,
+        userId,
+        inventoryCountId: count.id,
+        locationId: count.locationId,
+        notes: `Toma física ${count.number}: contado ${item.countedQuantity}, sistema ${expectedStock}`
+      });
+
+      const varianceCost = roundCurrency(Math.abs(variance) * Number(product.cost));
+      if (variance < 0) {
+        shortageCost += varianceCost;
+      } else {
+        surplusCost += varianceCost;
+      }
+    }
+
+    await postInventoryCountJournalEntry(tx, {
+      id: count.id,
+      tenantId,
+      number: count.number,
+      postedAt,
+      shortageCost: roundCurrency(shortageCost),
+      surplusCost: roundCurrency(surplusCost)
+    });
+
+    console.log(`✅ [InventoryCountService] Conteo publicado: ${count.number} (${count.id})`);
+  });
+
+  return getInventoryCountById(id, tenantId);
+};
+
+/**
+ * Anula un conteo abierto sin modificar el inventario
+ *
+ * @param id - ID del conteo
+ * @param tenantId - ID del tenant
+ * @returns Conteo anulado
+ */
+export const cancelInventoryCount = async (id: string, tenantId: string) => {
+  return prisma.$transaction(async (tx) => {
+    const count = await findOpenCount(tx, id, tenantId);
+    const cancelled = await tx.inventoryCount.updateMany({
+      where: { id: count.id, status: 'OPEN' },
+      data: { status: 'CANCELLED' }
+    });
+    if (cancelled.count === 0) {
+      throw new Error('Otro usuario publicó o anuló el conteo de forma simultánea, intenta de nuevo');
+    }
+
+    console.log(`✅ [InventoryCountService] Conteo anulado: ${count.number} (${count.id})`);
+    return tx.inventoryCount.findUniqueOrThrow({
+      where: { id: count.id },
+      select: INVENTORY_COUNT_FIELDS
+    });
+  });
+};
@@ -1,9 +1,24 @@
 // backend/src/services/invoiceService.ts
 // Servicio optimizado para gestión de facturas - Sin referencias a columnas inexistentes
 
-import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { DiscountType, Prisma, TaxCategory } from '@prisma/client';
 import prisma from '../db';
-import { IVA_RATE } from '../config/constants';
+import { DRAFT_NUMBER_PREFIX, LOW_STOCK_THRESHOLD } from '../config/constants';
+import { POSTABLE_INVOICE_STATUSES, isCreditInvoice, postInvoiceJournalEntry, roundCurrency } from './accountingService';
+import { chargeClientCredit } from './creditService';
+import { allocateInvoiceNumber } from './resolutionService';
+import { generateElectronicInvoice, submitElectronicDocument } from './electronicInvoiceService';
+import { settleInvoiceAtSale } from './paymentService';
+import { restockDraftInvoice } from './creditNoteService';
+import { getLocationStock, resolveCashRegisterLocation, resolveLocation } from './locationService';
+import { computeKitCost } from './kitService';
+import { getExpiredLotQuantity } from './lotService';
+import { getListPrice, resolvePriceList } from './priceListService';
+import { computeManualDiscount, findBestPromotion, getActivePromotions, prorateDiscount } from './promotionService';
+import { recordStockMovement } from './stockMovementService';
+import { buildTaxBreakdown, resolveLineTax } from './taxService';
+import { describeQuantity, isValidQuantity, roundQuantity } from './unitService';
 
 export type CreateInvoiceDTO = Prisma.InvoiceUncheckedCreateInput;
 export type UpdateInvoiceDTO = Prisma.InvoiceUncheckedUpdateInput;
@@ -13,26 +28,81 @@ export type UpdateInvoiceDTO = Prisma.InvoiceUncheckedUpdateInput;
 // Interfaz para un item de factura
 export interface InvoiceItemInput {
   productId: string;
-  quantity: number;
+  quantity: number; // En la unidad de venta del producto; fraccionada solo si la unidad lo admite (kg, L, m)
   description?: string;
-  unitPrice?: number;
-  taxRate?: number;
+  unitPrice?: number; // Solo con allowPriceOverride puede ser distinto al precio de la lista
+  taxRate?: number; // Tarifa de IVA (%) de la línea; solo con allowPriceOverride puede ser distinta a la de la categoría del producto
+  discountType?: DiscountType | null; // Descuento manual de la línea, sobre lo que queda después de la promoción
+  discountValue?: number | null;
 }
 
 // Interfaz para crear factura con items
+// El número lo asigna el servidor: consecutivo al emitir, temporal mientras es borrador
 export interface CreateInvoiceInput {
   clientId?: string | null;
-  number: string;
   items: InvoiceItemInput[];
   issueDate?: Date | string;
   dueDate?: Date | string | null;
-  status?: 'DRAFT' | 'ISSUED' | 'PAID' | 'CANCELLED';
+  status?: 'DRAFT' | 'ISSUED'; // PAID lo asigna el pago de contado al emitir; CANCELLED, la anulación
   paymentMethod?: 'CASH' | 'CREDIT' | 'TRANSFER';
   currency?: string;
   isCreditSale?: boolean;
   notes?: string | null;
   createdById?: string | null;
-  applyIva?: boolean; // Aplicar IVA del 19% si está activo
+  allowCreditOverLimit?: boolean; // Autorización de ADMIN para vender por encima del cupo
+  cashRegisterId?: number | null; // Caja del POS: la venta descuenta de la bodega asignada a la caja
+  locationId?: string | null; // Bodega explícita; tiene prioridad sobre la de la caja
+  priceListId?: string | null; // Lista elegida en el POS; por defecto la del cliente o la lista por defecto
+  allowPriceOverride?: boolean; // ADMIN o MANAGER pueden cobrar un precio distinto al de la lista
+  discountType?: DiscountType | null; // Descuento general de la factura, repartido entre sus líneas
+  discountValue?: number | null;
+  allowManualDiscount?: boolean; // ADMIN o MANAGER pueden aplicar descuentos manuales
+}
+
+// Campos editables de una factura en borrador; los items reemplazan las líneas y se vuelven a valorar
+export type UpdateInvoiceInput = Partial<Pick<
+  CreateInvoiceInput,
+  | 'clientId'
+  | 'items'
+  | 'issueDate'
+  | 'dueDate'
+  | 'status'
+  | 'paymentMethod'
+  | 'currency'
+  | 'isCreditSale'
+  | 'notes'
+  | 'createdById'
+  | 'priceListId'
+  | 'allowPriceOverride'
+  | 'discountType'
+  | 'discountValue'
+  | 'allowManualDiscount'
+>>;
+
+// Opciones de actualización de factura
+export interface UpdateInvoiceOptions {
+  allowCreditOverLimit?: boolean; // Autorización de ADMIN para vender por encima del cupo
+}
+
+// Precio, descuentos e IVA de una venta calculados por el servidor, antes de guardarla
+export interface InvoiceQuote {
+  priceList: { id: string; name: string } | null;
+  items: Array<{
+    productId: string;
+    productName: string;
+    quantity: number;
+    unitPrice: number;
+    discountAmount: number;
+    promotion: { id: string; name: string } | null;
+    subtotal: number; // Base gravable: precio por cantidad menos descuentos
+    taxRate: number;
+    taxAmount: number;
+    totalAmount: number;
+  }>;
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  total: number;
 }
 
 // Respuesta de creación de factura
@@ -60,8 +130,14 @@ const INVOICE_FIELDS = {
   taxTotal: true,
   total: true,
   totalPaid: true,
+  totalCredited: true,
   isCreditSale: true,
   notes: true,
+  discountTotal: true,
+  discountType: true,
+  discountValue: true,
+  locationId: true,
+  priceListId: true,
   createdById: true,
   createdAt: true,
   updatedAt: true
@@ -74,8 +150,12 @@ const INVOICE_ITEM_FIELDS = {
   productId: true,
   description: true,
   quantity: true,
+  unit: true,
   unitPrice: true,
+  discountAmount: true,
+  promotionId: true,
   taxRateApplied: true,
+  taxCategory: true,
   taxAmount: true,
   totalAmount: true,
   createdAt: true
@@ -91,6 +171,12 @@ const PRODUCT_FIELDS = {
   price: true,
   cost: true,
   stock: true,
+  taxCategory: true,
+  unit: true,
+  categoryId: true,
+  trackLots: true,
+  isKit: true,
+  minStock: true,
   isActive: true,
   createdAt: true,
   updatedAt: true
@@ -116,6 +202,340 @@ const CLIENT_FIELDS = {
   updatedAt: true
 } as const;
 
+// Estado del documento electrónico DIAN de la factura
+const ELECTRONIC_DOCUMENT_FIELDS = {
+  id: true,
+  cufe: true,
+  status: true,
+  responseMessage: true,
+  submittedAt: true
+} as const;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Genera el número temporal de una factura en borrador
+ * Los borradores no consumen consecutivo para que eliminarlos no deje huecos en la numeración
+ */
+const generateDraftNumber = (): string => {
+  return `${DRAFT_NUMBER_PREFIX}${randomUUID()}`;
+};
+
+type InvoiceProduct = Prisma.ProductGetPayload<{ select: typeof PRODUCT_FIELDS }>;
+
+/**
+ * Calcula el precio de cada línea de una venta: el precio de la lista de precios, la mejor promoción vigente,
+ * el descuento manual de la línea y la parte del descuento general de la factura
+ * El IVA se calcula sobre la base ya descontada, como lo exige la DIAN
+ *
+ * @param tx - Cliente de Prisma (o transacción en curso)
+ * @param tenantId - ID del tenant
+ * @param data - Items, lista de precios, cliente y descuentos de la venta
+ * @param at - Momento de la venta (define qué promociones están vigentes)
+ * @returns Lista de precios aplicada, líneas con sus valores y totales de la factura
+ */
+const priceInvoiceItems = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  data: CreateInvoiceInput,
+  at: Date
+) => {
+  if (!data.items || data.items.length === 0) {
+    throw new Error('La factura debe tener al menos un item');
+  }
+
+  // El precio de cada línea lo fija el servidor según la lista de precios de la venta
+  const priceList = await resolvePriceList(tx, tenantId, { priceListId: data.priceListId, clientId: data.clientId });
+  const promotions = await getActivePromotions(tx, tenantId, at);
+  const hasManualDiscount = (discount: { discountType?: DiscountType | null; discountValue?: number | null }) =>
+    Boolean(discount.discountType) && Number(discount.discountValue ?? 0) !== 0;
+
+  const lines: Array<{
+    product: InvoiceProduct;
+    quantity: number;
+    description: string;
+    unitPrice: number;
+    lineDiscount: number;
+    promotion: { id: string; name: string } | null;
+    net: number;
+    taxRate: number;
+    taxCategory: TaxCategory;
+  }> = [];
+
+  for (const item of data.items) {
+    // Buscar el producto - SOLO campos válidos
+    const product = await tx.product.findUnique({
+      where: { id: item.productId },
+      select: PRODUCT_FIELDS
+    });
+
+    if (!product) {
+      throw new Error(`Producto con ID ${item.productId} no encontrado`);
+    }
+
+    // Verificar que el producto pertenece al tenant
+    if (product.tenantId !== tenantId) {
+      throw new Error(`El producto no pertenece a tu tenant`);
+    }
+
+    const quantity = Number(item.quantity);
+    if (!isValidQuantity(quantity, product.unit) || quantity <= 0) {
+      throw new Error(
+        `La cantidad de "${product.name}" es inválida: debe ser ${describeQuantity(product.unit)} mayor a cero`
+      );
+    }
+
+    // Calcular precios: el de la lista, salvo que un ADMIN o MANAGER lo cambie
+    const listPrice = await getListPrice(tx, priceList, product);
+    const requestedPrice = item.unitPrice !== undefined && item.unitPrice !== null ? Number(item.unitPrice) : null;
+    if (requestedPrice !== null && requestedPrice !== listPrice) {
+      if (!data.allowPriceOverride) {
+        throw new Error(
+          `El precio de "${product.name}" es ${listPrice} según la lista de precios${priceList ? ` ${priceList.name}` : ''}: solo un administrador o gerente puede cambiarlo`
+        );
+      }
+      if (!Number.isFinite(requestedPrice) || requestedPrice < 0) {
+        throw new Error(`El precio de "${product.name}" es inválido: debe ser mayor o igual a 0`);
+      }
+    }
+    const unitPrice = requestedPrice ?? listPrice;
+    const amount = roundCurrency(unitPrice * quantity);
+
+    // La promoción se aplica sola; el descuento manual se aplica sobre lo que queda
+    const best = findBestPromotion(promotions, {
+      productId: product.id,
+      categoryId: product.categoryId,
+      quantity,
+      unitPrice,
+      amount
+    });
+    const promotionDiscount = best?.discount ?? 0;
+    if (hasManualDiscount(item) && !data.allowManualDiscount) {
+      throw new Error(`Solo un administrador o gerente puede aplicar descuentos manuales ("${product.name}")`);
+    }
+    const manualDiscount = computeManualDiscount(
+      roundCurrency(amount - promotionDiscount),
+      { type: item.discountType, value: item.discountValue },
+      `de "${product.name}"`
+    );
+    const lineDiscount = roundCurrency(promotionDiscount + manualDiscount);
+    // Impuesto (IVA) de la línea según la categoría del producto; cambiar la tarifa es como cambiar el precio,
+    // por eso la tarifa enviada solo se aplica si un ADMIN o MANAGER puede cambiar precios
+    const lineTax = resolveLineTax(product.taxCategory, data.allowPriceOverride ? item.taxRate : null);
+
+    lines.push({
+      product,
+      quantity,
+      description: item.description || product.name,
+      unitPrice,
+      lineDiscount,
+      promotion: best ? { id: best.promotion.id, name: best.promotion.name } : null,
+      net: roundCurrency(amount - lineDiscount),
+      taxRate: lineTax.rate,
+      taxCategory: lineTax.taxCategory
+    });
+  }
+
+  // El descuento general de la factura se reparte entre las líneas en proporción a su valor
+  if (hasManualDiscount(data) && !data.allowManualDiscount) {
+    throw new Error('Solo un administrador o gerente puede aplicar descuentos manuales a la factura');
+  }
+  const invoiceDiscount = computeManualDiscount(
+    roundCurrency(lines.reduce((sum, line) => sum + line.net, 0)),
+    { type: data.discountType, value: data.discountValue },
+    'de la factura'
+  );
+  const shares = prorateDiscount(lines.map((line) => line.net), invoiceDiscount);
+
+  const items = lines.map((line, index) => {
+    const subtotal = roundCurrency(line.net - shares[index]);
+    const taxAmount = roundCurrency(subtotal * line.taxRate / 100);
+    return {
+      ...line,
+      discountAmount: roundCurrency(line.lineDiscount + shares[index]),
+      subtotal,
+      taxAmount,
+      totalAmount: roundCurrency(subtotal + taxAmount)
+    };
+  });
+
+  // Totales de la factura: el subtotal ya descuenta promociones y descuentos
+  const subtotal = roundCurrency(items.reduce((sum, item) => sum + item.subtotal, 0));
+  const discountTotal = roundCurrency(items.reduce((sum, item) => sum + item.discountAmount, 0));
+  const taxTotal = roundCurrency(items.reduce((sum, item) => sum + item.taxAmount, 0));
+
+  return {
+    priceList,
+    items,
+    subtotal,
+    discountTotal,
+    taxTotal,
+    total: roundCurrency(subtotal + taxTotal)
+  };
+};
+
+/**
+ * Indica qué sale del inventario por cada línea de la venta: el producto mismo o, si es un kit,
+ * cada componente por la cantidad vendida. El costo de un kit es el de sus componentes al momento de la venta
+ *
+ * @param tx - Transacción en curso
+ * @param items - Líneas ya valoradas por priceInvoiceItems
+ * @returns Líneas con su costo, el armado del kit y las salidas de inventario que generan
+ */
+const explodeKitItems = async <T extends { product: InvoiceProduct; quantity: number }>(
+  tx: Prisma.TransactionClient,
+  items: T[]
+) => {
+  const exploded = [];
+  for (const item of items) {
+    if (!item.product.isKit) {
+      exploded.push({
+        ...item,
+        unitCost: Number(item.product.cost),
+        components: [],
+        stockLines: [{ product: item.product, quantity: item.quantity }]
+      });
+      continue;
+    }
+
+    const components = await tx.productKitComponent.findMany({
+      where: { kitId: item.product.id },
+      select: {
+        quantity: true,
+        component: { select: { id: true, name: true, cost: true, trackLots: true, minStock: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+    if (components.length === 0) {
+      throw new Error(`El kit "${item.product.name}" es inválido: no tiene componentes`);
+    }
+    exploded.push({
+      ...item,
+      unitCost: computeKitCost(components),
+      components: components.map((component) => ({
+        productId: component.component.id,
+        quantity: component.quantity,
+        unitCost: component.component.cost
+      })),
+      stockLines: components.map((component) => ({
+        product: component.component,
+        quantity: roundQuantity(item.quantity * Number(component.quantity))
+      }))
+    });
+  }
+  return exploded;
+};
+
+/**
+ * Valora las líneas de una venta y valida el stock disponible en su bodega (un kit valida el de sus componentes)
+ * Las unidades de lotes vencidos no se pueden vender
+ *
+ * @param tx - Transacción en curso
+ * @param tenantId - ID del tenant
+ * @param data - Items, lista de precios, cliente y descuentos de la venta
+ * @param location - Bodega de la que sale la venta
+ * @returns Valores de la factura y líneas con las salidas de inventario que generan
+ */
+const prepareInvoiceLines = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  data: CreateInvoiceInput,
+  location: { id: string; name: string }
+) => {
+  // Precio de lista, promociones, descuentos e IVA de cada línea
+  const priced = await priceInvoiceItems(tx, tenantId, data, new Date());
+  const items = await explodeKitItems(tx, priced.items);
+
+  // Unidades ya tomadas por líneas anteriores de la misma factura
+  const reservedStock: { [productId: string]: number } = {};
+  for (const item of items) {
+    for (const { product, quantity } of item.stockLines) {
+      const locationStock = await getLocationStock(tx, product.id, location.id);
+      const expiredStock = product.trackLots ? await getExpiredLotQuantity(tx, product.id, location.id) : 0;
+      const availableStock = roundQuantity(locationStock - expiredStock - (reservedStock[product.id] || 0));
+      if (availableStock < quantity) {
+        const kitLabel = item.product.isKit ? ` (componente del kit "${item.product.name}")` : '';
+        throw new Error(
+          `Stock insuficiente para el producto "${product.name}"${kitLabel} en la bodega ${location.name}. Stock disponible: ${availableStock}, solicitado: ${quantity}`
+        );
+      }
+      reservedStock[product.id] = roundQuantity((reservedStock[product.id] || 0) + quantity);
+    }
+  }
+
+  return { priced, items };
+};
+
+type InvoiceLine = Awaited<ReturnType<typeof prepareInvoiceLines>>['items'][number];
+
+/**
+ * Datos con que se guarda una línea de la venta
+ */
+const buildInvoiceItemData = (item: InvoiceLine) => ({
+  productId: item.product.id,
+  description: item.description,
+  quantity: item.quantity,
+  unit: item.product.unit,
+  unitPrice: item.unitPrice,
+  discountAmount: item.discountAmount,
+  promotionId: item.promotion?.id ?? null,
+  // Costo al momento de la venta: el margen histórico no cambia si luego cambia el costo del producto
+  unitCost: item.unitCost,
+  taxRateApplied: item.taxRate,
+  taxCategory: item.taxCategory,
+  taxAmount: item.taxAmount,
+  totalAmount: item.totalAmount,
+  // Armado del kit en la venta: las devoluciones reingresan estos mismos componentes
+  components: item.components.length > 0 ? { create: item.components } : undefined
+});
+
+/**
+ * Registra en el kardex la salida de inventario de las líneas de una venta
+ *
+ * @param tx - Transacción en curso
+ * @param tenantId - ID del tenant
+ * @param invoice - Factura de la venta
+ * @param location - Bodega de la que sale la venta
+ * @param items - Líneas preparadas con prepareInvoiceLines
+ * @param userId - Usuario que registra la venta
+ * @returns Avisos de los productos que quedaron en su punto de reorden
+ */
+const consumeInvoiceStock = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  invoice: { id: string; number: string },
+  location: { id: string; name: string },
+  items: InvoiceLine[],
+  userId?: string | null
+) => {
+  const warnings: string[] = [];
+  for (const item of items) {
+    for (const { product, quantity } of item.stockLines) {
+      const movement = await recordStockMovement(tx, {
+        tenantId,
+        productId: product.id,
+        type: 'SALE',
+        quantity: -quantity,
+        unitCost: product.cost,
+        userId,
+        invoiceId: invoice.id,
+        locationId: location.id,
+        notes: item.product.isKit ? `Venta ${invoice.number} - kit ${item.product.name}` : `Venta ${invoice.number}`
+      });
+
+      // Verificar si el stock de la bodega quedó en el punto de reorden del producto
+      const remaining = await getLocationStock(tx, movement.productId, location.id);
+      const reorderPoint = product.minStock !== null ? Number(product.minStock) : LOW_STOCK_THRESHOLD;
+      if (remaining <= reorderPoint) {
+        warnings.push(
+          `¡Atención! El producto "${product.name}" se está agotando en la bodega ${location.name}. Stock restante: ${remaining}`
+        );
+      }
+    }
+  }
+  return warnings;
+};
+
 // ==================== READ OPERATIONS ====================
 
 /**
@@ -145,6 +565,9 @@ export const getAllInvoices = async (tenantId: string) => {
               select: PRODUCT_FIELDS
             }
           }
+        },
+        electronicDocument: {
+          select: ELECTRONIC_DOCUMENT_FIELDS
         }
       },
       orderBy: {
@@ -193,6 +616,9 @@ export const getInvoiceById = async (id: string, tenantId: string) => {
               select: PRODUCT_FIELDS
             }
           }
+        },
+        electronicDocument: {
+          select: ELECTRONIC_DOCUMENT_FIELDS
         }
       }
     });
@@ -202,7 +628,7 @@ export const getInvoiceById = async (id: string, tenantId: string) => {
       return null;
     }
 
-    return invoice;
+    return { ...invoice, taxBreakdown: buildTaxBreakdown(invoice.items) };
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
       if (error.code === 'P2022') {
@@ -216,11 +642,44 @@ export const getInvoiceById = async (id: string, tenantId: string) => {
   }
 };
 
+/**
+ * Cotiza una venta sin guardarla: precio de lista, promociones vigentes, descuentos e IVA de cada línea
+ * El POS la usa para mostrar lo que cobrará la factura
+ *
+ * @param data - Items, lista de precios, cliente y descuentos de la venta
+ * @param tenantId - ID del tenant
+ * @returns Líneas y totales calculados
+ */
+export const quoteInvoice = async (data: CreateInvoiceInput, tenantId: string): Promise<InvoiceQuote> => {
+  const priced = await priceInvoiceItems(prisma, tenantId, data, new Date());
+  return {
+    priceList: priced.priceList ? { id: priced.priceList.id, name: priced.priceList.name } : null,
+    items: priced.items.map((item) => ({
+      productId: item.product.id,
+      productName: item.product.name,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discountAmount: item.discountAmount,
+      promotion: item.promotion,
+      subtotal: item.subtotal,
+      taxRate: item.taxRate,
+      taxAmount: item.taxAmount,
+      totalAmount: item.totalAmount
+    })),
+    subtotal: priced.subtotal,
+    discountTotal: priced.discountTotal,
+    taxTotal: priced.taxTotal,
+    total: priced.total
+  };
+};
+
 // ==================== CREATE OPERATIONS ====================
 
 /**
  * Crea una nueva factura con items
- * Valida stock y aplica IVA si está activo
+ * Valida stock en la bodega de la venta (la indicada o la asignada a la caja), aplica la lista de precios, las promociones
+ * vigentes y los descuentos, calcula el IVA de cada línea sobre la base descontada
+ * y asigna el consecutivo si la factura se emite
  * 
  * @param data - Datos de la factura
  * @param tenantId - ID del tenant
@@ -234,148 +693,56 @@ export const createInvoice = async (
 
   try {
     // Validar campos obligatorios
-    if (!data.number || !data.number.trim()) {
-      throw new Error('El número de factura es requerido');
-    }
-
     if (!data.items || data.items.length === 0) {
       throw new Error('La factura debe tener al menos un item');
     }
 
-    // Verificar que el número de factura no esté en uso para este tenant
-    const existingInvoice = await prisma.invoice.findUnique({
-      where: {
-        tenantId_number: {
-          tenantId: tenantId,
-          number: data.number.trim()
-        }
-      },
-      select: { id: true }
-    });
-
-    if (existingInvoice) {
-      throw new Error('Ya está en uso un número de factura con este valor');
+    // Una venta nace en borrador o emitida: solo queda pagada cuando se registra su pago
+    const status = data.status || 'DRAFT';
+    if (status !== 'DRAFT' && status !== 'ISSUED') {
+      throw new Error('El estado inicial de la factura es inválido: use DRAFT o ISSUED');
     }
 
     // Ejecutar transacción de Prisma
+    let electronicDocumentId: string | null = null;
     const result = await prisma.$transaction(async (tx) => {
-      // Procesar cada item y validar stock
-      const processedItems: Array<{
-        productId: string;
-        product: any;
-        quantity: number;
-        description: string;
-        unitPrice: number;
-        taxRate: number;
-        taxAmount: number;
-        totalAmount: number;
-        newStock: number;
-      }> = [];
-
-      for (const item of data.items) {
-        // Buscar el producto - SOLO campos válidos
-        const product = await tx.product.findUnique({
-          where: { id: item.productId },
-          select: PRODUCT_FIELDS
-        });
-
-        if (!product) {
-          throw new Error(`Producto con ID ${item.productId} no encontrado`);
-        }
+      const location = data.locationId
+        ? await resolveLocation(tx, tenantId, data.locationId)
+        : await resolveCashRegisterLocation(tx, tenantId, data.cashRegisterId);
+      // Precio de lista, promociones, descuentos e IVA de cada línea y stock disponible en la bodega
+      const { priced, items: processedItems } = await prepareInvoiceLines(tx, tenantId, data, location);
 
-        // Verificar que el producto pertenece al tenant
-        if (product.tenantId !== tenantId) {
-          throw new Error(`El producto no pertenece a tu tenant`);
-        }
-
-        // Validar stock disponible (usar stock válido del schema)
-        const quantity = Number(item.quantity);
-        if (product.stock < quantity) {
-          throw new Error(
-            `Stock insuficiente para el producto "${product.name}". Stock disponible: ${product.stock}, solicitado: ${quantity}`
-          );
-        }
-
-        // Calcular precios
-        const unitPrice = item.unitPrice
-          ? Number(item.unitPrice)
-          : Number(product.price);
-        const subtotal = unitPrice * quantity;
-        // Impuesto (IVA) solo si applyIva es true
-        const taxAmount = data.applyIva === true ? subtotal * IVA_RATE : 0;
-        const totalAmount = subtotal + taxAmount;
-
-        // Calcular nuevo stock
-        const newStock = product.stock - quantity;
-
-        // Actualizar stock del producto - SOLO campo stock válido
-        await tx.product.update({
-          where: { id: product.id },
-          data: { 
-            stock: newStock
-          }
-        });
-
-        // Verificar si el stock quedó bajo (<= 5)
-        if (newStock <= 5) {
-          warnings.push(
-            `¡Atención! El producto "${product.name}" se está agotando. Stock restante: ${newStock}`
-          );
-        }
-
-        processedItems.push({
-          productId: product.id,
-          product,
-          quantity,
-          description: item.description || product.name,
-          unitPrice,
-          taxRate: IVA_RATE * 100,
-          taxAmount,
-          totalAmount,
-          newStock
-        });
-      }
-
-      // Calcular totales de la factura
-      const subtotal = processedItems.reduce(
-        (sum, item) => sum + item.unitPrice * item.quantity,
-        0
-      );
-      
-      // Calcular Impuesto (IVA) total
-      const impuestoTotal = processedItems.reduce((sum, item) => sum + item.taxAmount, 0);
-      
-      // El total final es subtotal + impuesto total
-      const finalTotal = subtotal + impuestoTotal;
+      // Asignar el consecutivo dentro de la transacción (se revierte si la venta falla)
+      const { number, resolutionId } = POSTABLE_INVOICE_STATUSES.includes(status)
+        ? await allocateInvoiceNumber(tx, tenantId)
+        : { number: generateDraftNumber(), resolutionId: null };
 
       // Crear la factura - SOLO campos válidos del schema
       const invoice = await tx.invoice.create({
         data: {
           tenantId: tenantId,
           clientId: data.clientId || null,
-          number: data.number.trim(),
-          status: data.status || 'DRAFT',
+          number: number,
+          status: status,
           issueDate: data.issueDate ? new Date(data.issueDate) : new Date(),
           dueDate: data.dueDate ? new Date(data.dueDate) : null,
           paymentMethod: data.paymentMethod || 'CASH',
           currency: data.currency || 'COP',
-          subtotal: subtotal,
-          taxTotal: impuestoTotal,
-          total: finalTotal,
+          subtotal: priced.subtotal,
+          discountTotal: priced.discountTotal,
+          discountType: priced.discountTotal > 0 && data.discountType ? data.discountType : null,
+          discountValue: priced.discountTotal > 0 && data.discountType ? Number(data.discountValue) : null,
+          taxTotal: priced.taxTotal,
+          total: priced.total,
           totalPaid: 0,
-          isCreditSale: data.isCreditSale || false,
+          isCreditSale: isCreditInvoice(data.paymentMethod || 'CASH', data.isCreditSale || false),
           notes: data.notes || null,
+          locationId: location.id,
+          priceListId: priced.priceList?.id ?? null,
           createdById: data.createdById || null,
+          resolutionId,
           items: {
-            create: processedItems.map((item) => ({
-              productId: item.productId,
-              description: item.description,
-              quantity: item.quantity,
-              unitPrice: item.unitPrice,
-              taxRateApplied: data.applyIva === true ? IVA_RATE * 100 : 0,
-              taxAmount: item.taxAmount,
-              totalAmount: item.totalAmount
-            }))
+            create: processedItems.map(buildInvoiceItemData)
           }
         },
         // Select explícito con SOLO campos válidos
@@ -395,12 +762,38 @@ export const createInvoice = async (
         }
       });
 
+      // Descontar el inventario registrando la salida en el kardex de cada producto (o de cada componente del kit)
+      warnings.push(...await consumeInvoiceStock(tx, tenantId, invoice, location, processedItems, data.createdById));
+
+      // Registrar el asiento contable en la misma transacción si la venta quedó emitida,
+      // la deuda del cliente si es a crédito y el pago completo si es de contado
+      if (POSTABLE_INVOICE_STATUSES.includes(invoice.status)) {
+        if (invoice.isCreditSale) {
+          await chargeClientCredit(tx, {
+            tenantId,
+            clientId: invoice.clientId,
+            amount: invoice.total,
+            invoiceNumber: invoice.number,
+            allowOverLimit: data.allowCreditOverLimit
+          });
+        }
+        await postInvoiceJournalEntry(tx, invoice);
+        const settlement = await settleInvoiceAtSale(tx, invoice, data.createdById);
+        electronicDocumentId = await generateElectronicInvoice(tx, invoice.id);
+        return { ...invoice, ...settlement };
+      }
+
       return invoice;
     });
 
+    // El envío a la DIAN se hace fuera de la transacción: su resultado queda en el documento electrónico
+    if (electronicDocumentId) {
+      void submitElectronicDocument(electronicDocumentId);
+    }
+
     console.log(`✅ [InvoiceService] Factura creada: ${result.number} (${result.id})`);
     return {
-      invoice: result,
+      invoice: { ...result, taxBreakdown: buildTaxBreakdown(result.items) },
       warnings
     };
   } catch (error) {
@@ -429,55 +822,155 @@ export const createInvoice = async (
 // ==================== UPDATE OPERATIONS ====================
 
 /**
- * Actualiza una factura existente
+ * Actualiza una factura en borrador y, si se indica, la emite
+ * Las facturas emitidas no se modifican: se corrigen con notas crédito o se anulan
+ * Si cambian los items, el cliente, la lista de precios o los descuentos, las líneas se recalculan en el servidor
+ * y el inventario del borrador se devuelve y se vuelve a descontar
  * 
  * @param id - ID de la factura
- * @param data - Datos a actualizar
+ * @param data - Campos editables del borrador
  * @param tenantId - ID del tenant
+ * @param options - Opciones de actualización (autorización de cupo de crédito)
  * @returns Factura actualizada
  */
 export const updateInvoice = async (
   id: string,
-  data: UpdateInvoiceDTO,
-  tenantId: string
+  data: UpdateInvoiceInput,
+  tenantId: string,
+  options: UpdateInvoiceOptions = {}
 ) => {
   try {
     // Verificar que la factura existe y pertenece al tenant
     const existingInvoice = await prisma.invoice.findUnique({
       where: { id },
-      select: { id: true, tenantId: true }
+      select: {
+        id: true,
+        tenantId: true,
+        number: true,
+        status: true,
+        clientId: true,
+        paymentMethod: true,
+        isCreditSale: true,
+        locationId: true,
+        priceListId: true,
+        discountType: true,
+        discountValue: true
+      }
     });
 
     if (!existingInvoice || existingInvoice.tenantId !== tenantId) {
       throw new Error('Invoice not found');
     }
+    if (existingInvoice.status !== 'DRAFT') {
+      throw new Error('Solo se pueden modificar facturas en borrador: corrige la factura con una nota crédito o anúlala');
+    }
+    // Un borrador solo puede emitirse: PAID lo asigna el pago y la anulación reversa inventario y contabilidad
+    if (data.status !== undefined && data.status !== 'DRAFT' && data.status !== 'ISSUED') {
+      throw new Error('El estado de la factura es inválido: un borrador solo puede pasar a ISSUED');
+    }
 
-    // Eliminar isSynced si está presente en data (no existe en la base de datos)
-    const updateData: UpdateInvoiceDTO = { ...data };
-    if ('isSynced' in updateData) {
-      delete updateData.isSynced;
+    const repricing = data.items !== undefined || data.clientId !== undefined || data.priceListId !== undefined ||
+      data.discountType !== undefined || data.discountValue !== undefined;
+    if (repricing && !data.items) {
+      throw new Error('La factura debe tener sus items: envíalos para recalcular el cliente, la lista de precios o los descuentos');
     }
 
-    // Actualizar la factura - Select explícito con SOLO campos válidos
-    const updatedInvoice = await prisma.invoice.update({
-      where: { id },
-      data: updateData,
-      select: {
-        ...INVOICE_FIELDS,
-        client: {
-          select: CLIENT_FIELDS
-        },
-        items: {
-          select: {
-            ...INVOICE_ITEM_FIELDS,
-            product: {
-              select: PRODUCT_FIELDS
+    const paymentMethod = data.paymentMethod ?? existingInvoice.paymentMethod;
+    const updateData: Prisma.InvoiceUncheckedUpdateInput = {
+      issueDate: data.issueDate ? new Date(data.issueDate) : undefined,
+      dueDate: data.dueDate !== undefined ? (data.dueDate ? new Date(data.dueDate) : null) : undefined,
+      paymentMethod: data.paymentMethod,
+      currency: data.currency,
+      notes: data.notes,
+      isCreditSale: isCreditInvoice(paymentMethod, data.isCreditSale ?? existingInvoice.isCreditSale),
+      status: data.status
+    };
+
+    let electronicDocumentId: string | null = null;
+    const updatedInvoice = await prisma.$transaction(async (tx) => {
+      // Las líneas se reemplazan: el inventario del borrador vuelve a la bodega y se descuenta de nuevo
+      if (data.items) {
+        const location = await resolveLocation(tx, tenantId, existingInvoice.locationId);
+        // Lo que la petición no indica se conserva del borrador: cliente, lista de precios y descuento general
+        const clientId = data.clientId !== undefined ? data.clientId : existingInvoice.clientId;
+        const lines = {
+          ...data,
+          items: data.items,
+          clientId,
+          priceListId: data.priceListId !== undefined ? data.priceListId : existingInvoice.priceListId,
+          discountType: data.discountType !== undefined ? data.discountType : existingInvoice.discountType,
+          discountValue: data.discountValue !== undefined
+            ? data.discountValue
+            : existingInvoice.discountValue !== null ? Number(existingInvoice.discountValue) : null
+        };
+        await restockDraftInvoice(tx, id, tenantId, data.createdById);
+        await tx.invoiceItem.deleteMany({ where: { invoiceId: id } });
+        const { priced, items } = await prepareInvoiceLines(tx, tenantId, lines, location);
+        await consumeInvoiceStock(tx, tenantId, existingInvoice, location, items, data.createdById);
+        Object.assign(updateData, {
+          clientId: clientId || null,
+          priceListId: priced.priceList?.id ?? null,
+          subtotal: priced.subtotal,
+          discountTotal: priced.discountTotal,
+          discountType: priced.discountTotal > 0 && lines.discountType ? lines.discountType : null,
+          discountValue: priced.discountTotal > 0 && lines.discountType ? Number(lines.discountValue) : null,
+          taxTotal: priced.taxTotal,
+          total: priced.total,
+          items: { create: items.map(buildInvoiceItemData) }
+        });
+      }
+
+      // Actualizar la factura - Select explícito con SOLO campos válidos
+      const invoice = await tx.invoice.update({
+        where: { id },
+        data: updateData,
+        select: {
+          ...INVOICE_FIELDS,
+          client: {
+            select: CLIENT_FIELDS
+          },
+          items: {
+            select: {
+              ...INVOICE_ITEM_FIELDS,
+              product: {
+                select: PRODUCT_FIELDS
+              }
             }
           }
         }
+      });
+
+      // Si el borrador se emite, asignarle su consecutivo, cargar la deuda del cliente si es a crédito,
+      // generar su asiento contable y registrar el pago completo si es de contado
+      if (invoice.status === 'ISSUED') {
+        const allocated = await allocateInvoiceNumber(tx, tenantId);
+        invoice.number = allocated.number;
+        await tx.invoice.update({
+          where: { id: invoice.id },
+          data: { number: allocated.number, resolutionId: allocated.resolutionId }
+        });
+        if (isCreditInvoice(invoice.paymentMethod, invoice.isCreditSale)) {
+          await chargeClientCredit(tx, {
+            tenantId,
+            clientId: invoice.clientId,
+            amount: invoice.total,
+            invoiceNumber: invoice.number,
+            allowOverLimit: options.allowCreditOverLimit
+          });
+        }
+        await postInvoiceJournalEntry(tx, invoice);
+        const settlement = await settleInvoiceAtSale(tx, invoice, data.createdById);
+        Object.assign(invoice, settlement);
+        electronicDocumentId = await generateElectronicInvoice(tx, invoice.id);
       }
+
+      return invoice;
     });
 
+    if (electronicDocumentId) {
+      void submitElectronicDocument(electronicDocumentId);
+    }
+
     console.log(`✅ [InvoiceService] Factura actualizada: ${updatedInvoice.number} (${updatedInvoice.id})`);
     return updatedInvoice;
   } catch (error) {
@@ -499,27 +992,35 @@ export const updateInvoice = async (
 // ==================== DELETE OPERATIONS ====================
 
 /**
- * Elimina una factura
+ * Elimina una factura en borrador y devuelve su inventario
+ * Las facturas emitidas se conservan: se anulan o reversan con notas crédito
  * 
  * @param id - ID de la factura
  * @param tenantId - ID del tenant
+ * @param userId - Usuario que elimina el borrador (queda en el kardex)
  * @returns ID de la factura eliminada
  */
-export const deleteInvoice = async (id: string, tenantId: string) => {
+export const deleteInvoice = async (id: string, tenantId: string, userId?: string | null) => {
   try {
     // Verificar que la factura existe y pertenece al tenant
     const existingInvoice = await prisma.invoice.findUnique({
       where: { id },
-      select: { id: true, tenantId: true }
+      select: { id: true, tenantId: true, status: true }
     });
 
     if (!existingInvoice || existingInvoice.tenantId !== tenantId) {
       throw new Error('Invoice not found');
     }
+    if (existingInvoice.status !== 'DRAFT') {
+      throw new Error('Solo se pueden eliminar facturas en borrador: anula la factura con una nota crédito');
+    }
 
-    // Eliminar físicamente la factura
-    await prisma.invoice.delete({
-      where: { id }
+    // Eliminar físicamente el borrador devolviendo su inventario
+    await prisma.$transaction(async (tx) => {
+      await restockDraftInvoice(tx, id, tenantId, userId);
+      await tx.invoice.delete({
+        where: { id }
+      });
     });
 
     console.log(`✅ [InvoiceService] Factura eliminada: ${id}`);
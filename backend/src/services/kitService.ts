@@ -0,0 +1,204 @@
+// backend/src/services/kitService.ts
+// Servicio de kits - Canastas y combos armados con otros productos que se venden del stock de sus componentes
+
+import { Prisma, UnitOfMeasure } from '@prisma/client';
+
+import { roundCurrency } from './accountingService';
+import { allowsFractions, describeQuantity, isValidQuantity, roundQuantity } from './unitService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+// Componente de un kit: cantidad del producto por cada unidad del kit, en la unidad de venta del componente
+export interface KitComponentInput {
+  productId: string;
+  quantity: number;
+}
+
+// Componente con las existencias necesarias para calcular la disponibilidad del kit
+export interface KitComponentStock {
+  quantity: Prisma.Decimal.Value;
+  component: {
+    stock: Prisma.Decimal.Value;
+    stocks?: Array<{ locationId: string; quantity: Prisma.Decimal.Value }>;
+  };
+}
+
+export const KIT_COMPONENT_FIELDS = {
+  id: true,
+  componentId: true,
+  quantity: true,
+  component: {
+    select: {
+      id: true,
+      name: true,
+      sku: true,
+      unit: true,
+      cost: true,
+      stock: true,
+      trackLots: true,
+      minStock: true,
+      isActive: true,
+      stocks: { select: { locationId: true, quantity: true, location: { select: { name: true } } } }
+    }
+  }
+} as const;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Valida que un kit se venda por unidades enteras: su disponibilidad se cuenta en kits completos
+ */
+export const validateKitUnit = (unit: UnitOfMeasure) => {
+  if (allowsFractions(unit)) {
+    throw new Error(`La unidad ${unit} es inválida para un kit: un kit se vende por unidades enteras`);
+  }
+};
+
+/**
+ * Valida los componentes de un kit: al menos uno, sin repetir, del mismo tenant, que no sean kits
+ * ni el propio kit, y con una cantidad válida para la unidad de cada componente
+ *
+ * @param tx - Cliente de Prisma (o transacción en curso)
+ * @param tenantId - ID del tenant
+ * @param kitId - ID del kit (null si se está creando)
+ * @param components - Componentes indicados
+ * @returns Componentes normalizados con su costo
+ */
+export const validateKitComponents = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  kitId: string | null,
+  components: KitComponentInput[] | undefined
+) => {
+  if (!Array.isArray(components) || components.length === 0) {
+    throw new Error('Los componentes del kit son requeridos: indique al menos un producto');
+  }
+
+  const seen = new Set<string>();
+  const validated: Array<{ componentId: string; quantity: number; cost: Prisma.Decimal }> = [];
+  for (const input of components) {
+    const productId = input?.productId ? String(input.productId) : '';
+    if (!productId) {
+      throw new Error('El producto de cada componente del kit es requerido');
+    }
+    if (seen.has(productId)) {
+      throw new Error('Hay un componente repetido en el kit: indique cada producto una sola vez');
+    }
+    seen.add(productId);
+    if (productId === kitId) {
+      throw new Error('Un kit no puede ser componente de sí mismo');
+    }
+
+    const component = await tx.product.findFirst({
+      where: { id: productId, tenantId },
+      select: { id: true, name: true, unit: true, cost: true, isKit: true }
+    });
+    if (!component) {
+      throw new Error(`Componente con ID ${productId} no encontrado`);
+    }
+    if (component.isKit) {
+      throw new Error(`El producto ${component.name} es un kit: un kit no puede contener otros kits`);
+    }
+
+    const quantity = Number(input.quantity);
+    if (!isValidQuantity(quantity, component.unit) || quantity <= 0) {
+      throw new Error(
+        `La cantidad de ${component.name} en el kit es inválida: debe ser ${describeQuantity(component.unit)} mayor a cero`
+      );
+    }
+    validated.push({ componentId: component.id, quantity, cost: component.cost });
+  }
+
+  return validated;
+};
+
+/**
+ * Costo de una unidad del kit: la suma del costo de sus componentes por la cantidad de cada uno
+ */
+export const computeKitCost = (
+  components: Array<{ quantity: Prisma.Decimal.Value; component: { cost: Prisma.Decimal.Value } }>
+): number => {
+  return roundCurrency(
+    components.reduce((sum, item) => sum + Number(item.quantity) * Number(item.component.cost), 0)
+  );
+};
+
+/**
+ * Kits completos que se pueden armar con las existencias de los componentes: el mínimo que permite cada uno
+ * Si se indica una bodega se usan las existencias de los componentes en ella
+ *
+ * @param components - Componentes del kit con su stock
+ * @param locationId - Bodega (opcional; por defecto el total de todas las bodegas)
+ * @returns Unidades del kit disponibles (0 si no tiene componentes)
+ */
+export const getKitAvailableQuantity = (components: KitComponentStock[], locationId?: string | null): number => {
+  if (components.length === 0) {
+    return 0;
+  }
+  const available = components.map((item) => {
+    const stock = locationId
+      ? Number(item.component.stocks?.find((stock) => stock.locationId === locationId)?.quantity ?? 0)
+      : Number(item.component.stock);
+    return Math.floor(roundQuantity(stock / Number(item.quantity)));
+  });
+  return Math.max(0, Math.min(...available));
+};
+
+// ==================== WRITE OPERATIONS ====================
+
+/**
+ * Reemplaza los componentes de un kit y actualiza su costo con el de los componentes
+ * Debe llamarse dentro de la transacción que guarda el producto
+ *
+ * @param tx - Transacción en curso
+ * @param kitId - ID del kit
+ * @param components - Componentes ya validados con validateKitComponents
+ */
+export const replaceKitComponents = async (
+  tx: Prisma.TransactionClient,
+  kitId: string,
+  components: Array<{ componentId: string; quantity: number; cost: Prisma.Decimal }>
+) => {
+  await tx.productKitComponent.deleteMany({ where: { kitId } });
+  await tx.productKitComponent.createMany({
+    data: components.map((item) => ({
+      kitId,
+      componentId: item.componentId,
+      quantity: new Prisma.Decimal(item.quantity)
+    }))
+  });
+  await tx.product.update({
+    where: { id: kitId },
+    data: {
+      cost: new Prisma.Decimal(
+        computeKitCost(components.map((item) => ({ quantity: item.quantity, component: { cost: item.cost } })))
+      )
+    }
+  });
+};
+
+/**
+ * Recalcula el costo de los kits que contienen alguno de los productos indicados
+ * Se llama cuando cambia el costo de un producto (compras, edición manual)
+ *
+ * @param tx - Transacción en curso
+ * @param componentIds - Productos cuyo costo cambió
+ */
+export const refreshKitCosts = async (tx: Prisma.TransactionClient, componentIds: string[]) => {
+  if (componentIds.length === 0) {
+    return;
+  }
+  const kits = await tx.product.findMany({
+    where: { isKit: true, kitComponents: { some: { componentId: { in: componentIds } } } },
+    select: {
+      id: true,
+      kitComponents: { select: { quantity: true, component: { select: { cost: true } } } }
+    }
+  });
+  for (const kit of kits) {
+    await tx.product.update({
+      where: { id: kit.id },
+      data: { cost: new Prisma.Decimal(computeKitCost(kit.kitComponents)) }
+    });
+  }
+};
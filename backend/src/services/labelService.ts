@@ -0,0 +1,234 @@
+// backend/src/services/labelService.ts
+// Servicio de etiquetas - Hoja PDF de etiquetas con código de barras EAN-13, nombre y precio de los productos
+
+import { BarcodeType } from '@prisma/client';
+
+import prisma from '../db';
+import { BARCODE_LABEL_SHEET, TAX_CATEGORY_RATES } from '../config/constants';
+import { generateInternalBarcode } from './barcodeService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Producto y cantidad de etiquetas a imprimir
+ */
+export interface LabelRequestItem {
+  productId: string;
+  copies?: number;
+}
+
+// Contenido de una etiqueta
+interface Label {
+  name: string;
+  price: string;
+  code: string; // EAN-13 de 13 dígitos
+}
+
+// Página A4 en puntos
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+// Etiqueta de 63,5 x 38,1 mm con 2,5 mm entre columnas
+const LABEL_WIDTH = 180;
+const LABEL_HEIGHT = 108;
+const LABEL_GAP = 7.2;
+
+// Ancho de cada módulo (barra mínima) del EAN-13; el código completo tiene 95 módulos
+const MODULE_WIDTH = 1.5;
+const BAR_HEIGHT = 48;
+
+// Codificación EAN-13: juegos L y G para la mitad izquierda y R para la derecha
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_G = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const EAN_R = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+
+// El primer dígito no se dibuja: define qué juego (L o G) usa cada dígito de la mitad izquierda
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Tipos de código que se pueden imprimir como EAN-13, en orden de preferencia
+const PRINTABLE_TYPES: BarcodeType[] = ['INTERNAL', 'EAN13', 'UPC'];
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Módulos (1 = barra, 0 = espacio) de un código EAN-13
+ */
+const encodeEan13 = (code: string): string => {
+  const digits = code.split('').map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  const left = digits.slice(1, 7).map((digit, i) => (parity[i] === 'L' ? EAN_L : EAN_G)[digit]).join('');
+  const right = digits.slice(7).map((digit) => EAN_R[digit]).join('');
+  return `101${left}01010${right}101`;
+};
+
+/**
+ * Texto apto para una cadena PDF con fuentes estándar (WinAnsi): escapa delimitadores y
+ * reemplaza los caracteres que la fuente no tiene
+ */
+const pdfText = (text: string): string => {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+};
+
+const truncate = (text: string, length: number): string => {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+};
+
+const formatPrice = (amount: number): string => {
+  return new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', minimumFractionDigits: 0 }).format(amount);
+};
+
+/**
+ * Operaciones de dibujo de una etiqueta cuya esquina inferior izquierda está en (x, y)
+ */
+const drawLabel = (label: Label, x: number, y: number): string => {
+  const ops: string[] = [];
+  const text = (font: string, size: number, tx: number, ty: number, value: string) => {
+    ops.push(`BT /${font} ${size} Tf ${tx.toFixed(2)} ${ty.toFixed(2)} Td (${pdfText(value)}) Tj ET`);
+  };
+
+  text('F1', 8, x + 10, y + LABEL_HEIGHT - 16, truncate(label.name, 40));
+  text('F2', 12, x + 10, y + LABEL_HEIGHT - 31, label.price);
+
+  // Barras: cada grupo de módulos consecutivos en 1 es un rectángulo
+  const modules = encodeEan13(label.code);
+  const barsX = x + (LABEL_WIDTH - modules.length * MODULE_WIDTH) / 2;
+  const barsY = y + 18;
+  let start = -1;
+  for (let i = 0; i <= modules.length; i++) {
+    if (modules[i] === '1' && start < 0) {
+      start = i;
+    } else if (modules[i] !== '1' && start >= 0) {
+      ops.push(`${(barsX + start * MODULE_WIDTH).toFixed(2)} ${barsY} ${((i - start) * MODULE_WIDTH).toFixed(2)} ${BAR_HEIGHT} re f`);
+      start = -1;
+    }
+  }
+
+  // Los dígitos de Helvetica miden 0,556 em: se centra el código bajo las barras
+  const codeWidth = label.code.length * 8 * 0.556;
+  text('F1', 8, x + (LABEL_WIDTH - codeWidth) / 2, y + 8, label.code);
+
+  return ops.join('\n');
+};
+
+/**
+ * Arma un documento PDF con una página por cada contenido y las fuentes Helvetica y Helvetica-Bold
+ */
+const buildPdf = (pages: string[]): Buffer => {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  ];
+  pages.forEach((content, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+};
+
+// ==================== OPERACIONES ====================
+
+/**
+ * Genera la hoja de etiquetas de los productos indicados
+ * Los productos sin un código imprimible (EAN-13, UPC o interno) reciben un código interno,
+ * que queda asignado para que el escáner los encuentre en el POS
+ *
+ * @param items - Productos y número de copias de cada uno
+ * @param tenantId - ID del tenant
+ * @returns Documento PDF
+ */
+export const generateBarcodeLabels = async (items: LabelRequestItem[], tenantId: string): Promise<Buffer> => {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new Error('Debe indicar al menos un producto para imprimir etiquetas');
+  }
+  for (const item of items) {
+    const copies = item.copies ?? 1;
+    if (!Number.isInteger(copies) || copies < 1) {
+      throw new Error('El número de etiquetas debe ser un entero mayor a cero');
+    }
+  }
+  const totalLabels = items.reduce((sum, item) => sum + (item.copies ?? 1), 0);
+  if (totalLabels > BARCODE_LABEL_SHEET.maxLabels) {
+    throw new Error(`No se pueden imprimir más de ${BARCODE_LABEL_SHEET.maxLabels} etiquetas a la vez`);
+  }
+
+  const productIds = [...new Set(items.map((item) => item.productId))];
+  const labelsByProduct = await prisma.$transaction(async (tx) => {
+    const products = await tx.product.findMany({
+      where: { id: { in: productIds }, tenantId },
+      select: {
+        id: true,
+        name: true,
+        price: true,
+        taxCategory: true,
+        barcodes: { select: { code: true, type: true }, orderBy: { createdAt: 'asc' } }
+      }
+    });
+    if (products.length !== productIds.length) {
+      throw new Error('Producto no encontrado');
+    }
+
+    const labels = new Map<string, Label>();
+    for (const product of products) {
+      const printable = PRINTABLE_TYPES
+        .map((type) => product.barcodes.find((barcode) => barcode.type === type))
+        .find((barcode) => barcode !== undefined);
+
+      let code: string;
+      if (printable) {
+        // Un UPC-A se imprime como EAN-13 con 0 inicial
+        code = printable.type === 'UPC' ? `0${printable.code}` : printable.code;
+      } else {
+        code = await generateInternalBarcode(tx, tenantId);
+        await tx.productBarcode.create({
+          data: { tenantId, productId: product.id, code, type: 'INTERNAL' }
+        });
+      }
+
+      // El precio de la etiqueta incluye el IVA del producto
+      const price = Number(product.price) * (1 + TAX_CATEGORY_RATES[product.taxCategory] / 100);
+      labels.set(product.id, { name: product.name, price: formatPrice(Math.round(price)), code });
+    }
+    return labels;
+  });
+
+  const labels = items.flatMap((item) => Array(item.copies ?? 1).fill(labelsByProduct.get(item.productId)) as Label[]);
+  const perPage = BARCODE_LABEL_SHEET.columns * BARCODE_LABEL_SHEET.rows;
+  const marginX = (PAGE_WIDTH - (BARCODE_LABEL_SHEET.columns * LABEL_WIDTH + (BARCODE_LABEL_SHEET.columns - 1) * LABEL_GAP)) / 2;
+  const marginY = (PAGE_HEIGHT - BARCODE_LABEL_SHEET.rows * LABEL_HEIGHT) / 2;
+
+  const pages: string[] = [];
+  for (let first = 0; first < labels.length; first += perPage) {
+    const content = labels.slice(first, first + perPage).map((label, i) => {
+      const column = i % BARCODE_LABEL_SHEET.columns;
+      const row = Math.floor(i / BARCODE_LABEL_SHEET.columns);
+      const x = marginX + column * (LABEL_WIDTH + LABEL_GAP);
+      const y = PAGE_HEIGHT - marginY - (row + 1) * LABEL_HEIGHT;
+      return drawLabel(label, x, y);
+    });
+    pages.push(content.join('\n'));
+  }
+
+  console.log(`✅ [LabelService] ${labels.length} etiquetas generadas para ${productIds.length} productos`);
+  return buildPdf(pages);
+};
@@ -0,0 +1,322 @@
+// backend/src/services/locationService.ts
+// Servicio de bodegas (ubicaciones de inventario) - El stock de cada producto se lleva por bodega
+
+import { Prisma } from '@prisma/client';
+
+import prisma from '../db';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Interfaz para crear o actualizar una bodega (sin tenantId, se maneja internamente)
+ */
+export interface LocationInput {
+  name?: string;
+  address?: string | null;
+  isDefault?: boolean; // La bodega por defecto recibe los movimientos que no indican bodega
+  isActive?: boolean;
+}
+
+// Opciones del listado de bodegas
+export interface LocationFilterOptions {
+  includeInactive?: boolean;
+}
+
+// Nombre de la bodega que se crea automáticamente para un tenant sin bodegas
+const DEFAULT_LOCATION_NAME = 'Principal';
+
+const LOCATION_FIELDS = {
+  id: true,
+  tenantId: true,
+  name: true,
+  address: true,
+  isDefault: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Obtiene la bodega por defecto del tenant; si el tenant aún no tiene bodegas la crea
+ *
+ * @param tx - Cliente de Prisma (o transacción en curso)
+ * @param tenantId - ID del tenant
+ * @returns ID y nombre de la bodega por defecto
+ */
+export const getDefaultLocation = async (tx: Prisma.TransactionClient, tenantId: string) => {
+  const location = await tx.location.findFirst({
+    where: { tenantId, isDefault: true },
+    select: { id: true, name: true }
+  });
+  if (location) {
+    return location;
+  }
+
+  return tx.location.upsert({
+    where: { tenantId_name: { tenantId, name: DEFAULT_LOCATION_NAME } },
+    create: { tenantId, name: DEFAULT_LOCATION_NAME, isDefault: true },
+    update: { isDefault: true, isActive: true },
+    select: { id: true, name: true }
+  });
+};
+
+/**
+ * Valida la bodega indicada para un movimiento o documento; sin bodega se usa la bodega por defecto
+ *
+ * @param tx - Cliente de Prisma (o transacción en curso)
+ * @param tenantId - ID del tenant
+ * @param locationId - ID de la bodega (opcional)
+ * @returns ID y nombre de la bodega
+ */
+export const resolveLocation = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  locationId?: string | null
+) => {
+  if (!locationId) {
+    return getDefaultLocation(tx, tenantId);
+  }
+
+  const location = await tx.location.findFirst({
+    where: { id: locationId, tenantId },
+    select: { id: true, name: true, isActive: true }
+  });
+  if (!location) {
+    throw new Error('Bodega no encontrada');
+  }
+  if (!location.isActive) {
+    throw new Error(`La bodega ${location.name} está inactiva`);
+  }
+  return { id: location.id, name: location.name };
+};
+
+/**
+ * Bodega de la que descuenta una venta: la asignada a la caja, o la bodega por defecto
+ * si la caja no existe o no tiene bodega asignada
+ */
+export const resolveCashRegisterLocation = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  cashRegisterId?: number | null
+) => {
+  if (!cashRegisterId) {
+    return getDefaultLocation(tx, tenantId);
+  }
+
+  const cashRegister = await tx.cashRegister.findFirst({
+    where: { id: cashRegisterId, tenantId },
+    select: { locationId: true }
+  });
+  return resolveLocation(tx, tenantId, cashRegister?.locationId);
+};
+
+/**
+ * Cantidad disponible de un producto en una bodega (0 si nunca ha tenido movimientos allí)
+ */
+export const getLocationStock = async (
+  tx: Prisma.TransactionClient,
+  productId: string,
+  locationId: string
+): Promise<number> => {
+  const stock = await tx.productStock.findUnique({
+    where: { productId_locationId: { productId, locationId } },
+    select: { quantity: true }
+  });
+  return Number(stock?.quantity ?? 0);
+};
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene las bodegas de un tenant, primero la bodega por defecto
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Incluir bodegas inactivas
+ * @returns Lista de bodegas con la cantidad de cajas asignadas
+ */
+export const getLocations = async (tenantId: string, options: LocationFilterOptions = {}) => {
+  // Garantiza que todo tenant tenga al menos su bodega principal
+  await getDefaultLocation(prisma, tenantId);
+
+  return prisma.location.findMany({
+    where: {
+      tenantId,
+      ...(options.includeInactive ? {} : { isActive: true })
+    },
+    select: {
+      ...LOCATION_FIELDS,
+      cashRegisters: { select: { id: true, name: true } }
+    },
+    orderBy: [{ isDefault: 'desc' }, { name: 'asc' }]
+  });
+};
+
+/**
+ * Obtiene las cajas del tenant con la bodega de la que descuentan sus ventas
+ */
+export const getCashRegisters = async (tenantId: string) => {
+  return prisma.cashRegister.findMany({
+    where: { tenantId },
+    select: {
+      id: true,
+      name: true,
+      isActive: true,
+      locationId: true,
+      location: { select: { id: true, name: true } }
+    },
+    orderBy: { id: 'asc' }
+  });
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Crea una bodega
+ * La primera bodega del tenant queda como bodega por defecto
+ *
+ * @param data - Datos de la bodega
+ * @param tenantId - ID del tenant
+ * @returns Bodega creada
+ */
+export const createLocation = async (data: LocationInput, tenantId: string) => {
+  const name = data.name?.trim();
+  if (!name) {
+    throw new Error('El nombre de la bodega es requerido');
+  }
+
+  try {
+    const location = await prisma.$transaction(async (tx) => {
+      const existing = await tx.location.count({ where: { tenantId } });
+      const isDefault = existing === 0 || data.isDefault === true;
+      if (isDefault) {
+        await tx.location.updateMany({ where: { tenantId, isDefault: true }, data: { isDefault: false } });
+      }
+
+      return tx.location.create({
+        data: {
+          tenantId,
+          name,
+          address: data.address?.trim() || null,
+          isDefault,
+          isActive: true
+        },
+        select: LOCATION_FIELDS
+      });
+    });
+
+    console.log(`✅ [LocationService] Bodega creada: ${location.name} (${location.id})`);
+    return location;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error(`Ya existe una bodega llamada ${name}`);
+    }
+    throw error;
+  }
+};
+
+// ==================== UPDATE OPERATIONS ====================
+
+/**
+ * Actualiza una bodega
+ * Para cambiar la bodega por defecto se marca otra como por defecto; la bodega por defecto no se puede desactivar
+ *
+ * @param id - ID de la bodega
+ * @param data - Campos a actualizar
+ * @param tenantId - ID del tenant
+ * @returns Bodega actualizada
+ */
+export const updateLocation = async (id: string, data: LocationInput, tenantId: string) => {
+  const existing = await prisma.location.findFirst({
+    where: { id, tenantId },
+    select: { id: true, name: true, isDefault: true }
+  });
+  if (!existing) {
+    throw new Error('Bodega no encontrada');
+  }
+
+  const updateData: Prisma.LocationUpdateInput = {};
+  if (data.name !== undefined) {
+    const name = data.name.trim();
+    if (!name) {
+      throw new Error('El nombre de la bodega es requerido');
+    }
+    updateData.name = name;
+  }
+  if (data.address !== undefined) {
+    updateData.address = data.address?.trim() || null;
+  }
+  if (data.isDefault === false && existing.isDefault) {
+    throw new Error('Para cambiar la bodega por defecto marca otra bodega como por defecto');
+  }
+  if (data.isActive === false && (existing.isDefault || data.isDefault === true)) {
+    throw new Error(`La bodega por defecto ${existing.name} no se puede desactivar`);
+  }
+  if (data.isActive === false) {
+    const stocked = await prisma.productStock.count({ where: { locationId: existing.id, quantity: { not: 0 } } });
+    if (stocked > 0) {
+      throw new Error(`La bodega ${existing.name} tiene existencias: transfiérelas antes de desactivarla`);
+    }
+  }
+  if (data.isActive !== undefined) {
+    updateData.isActive = data.isActive;
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      if (data.isDefault === true && !existing.isDefault) {
+        await tx.location.updateMany({ where: { tenantId, isDefault: true }, data: { isDefault: false } });
+        updateData.isDefault = true;
+        updateData.isActive = true;
+      }
+
+      return tx.location.update({
+        where: { id: existing.id },
+        data: updateData,
+        select: LOCATION_FIELDS
+      });
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error(`Ya existe una bodega llamada ${data.name?.trim()}`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Asigna a una caja la bodega de la que descuentan sus ventas (null vuelve a la bodega por defecto)
+ *
+ * @param cashRegisterId - ID de la caja
+ * @param locationId - ID de la bodega o null
+ * @param tenantId - ID del tenant
+ * @returns Caja actualizada
+ */
+export const assignCashRegisterLocation = async (
+  cashRegisterId: number,
+  locationId: string | null,
+  tenantId: string
+) => {
+  const cashRegister = await prisma.cashRegister.findFirst({
+    where: { id: cashRegisterId, tenantId },
+    select: { id: true }
+  });
+  if (!cashRegister) {
+    throw new Error('Caja no encontrada');
+  }
+
+  const location = locationId ? await resolveLocation(prisma, tenantId, locationId) : null;
+
+  return prisma.cashRegister.update({
+    where: { id: cashRegister.id },
+    data: { locationId: location?.id ?? null },
+    select: {
+      id: true,
+      name: true,
+      isActive: true,
+      locationId: true,
+      location: { select: { id: true, name: true } }
+    }
+  });
+};
@@ -0,0 +1,420 @@
+// backend/src/services/lotService.ts
+// Servicio de lotes - Número de lote y fecha de vencimiento por producto y bodega, con salidas FEFO
+// (primero en vencer, primero en salir). La suma de los lotes de una bodega puede ser menor a su stock:
+// la diferencia es stock sin lote, que sale después de los lotes
+
+import { Prisma } from '@prisma/client';
+
+import prisma from '../db';
+import { EXPIRY_WARNING_DAYS, TIMEZONE_COLOMBIA } from '../config/constants';
+import { getLocationStock, resolveLocation } from './locationService';
+import { describeQuantity, isValidQuantity, roundQuantity } from './unitService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Lote que entra al inventario
+ */
+export interface LotInput {
+  lotNumber: string;
+  expiryDate?: Date | string | null; // AAAA-MM-DD
+  quantity: number; // Positiva, en la unidad de venta del producto
+}
+
+// Lote afectado por un movimiento de inventario (cantidad positiva)
+export interface LotAllocation {
+  lotId: string;
+  lotNumber: string;
+  expiryDate: Date | null;
+  quantity: number;
+}
+
+// Opciones del listado de lotes
+export interface LotFilterOptions {
+  productId?: string;
+  locationId?: string;
+  includeEmpty?: boolean; // Incluir lotes ya agotados
+}
+
+/**
+ * Interfaz para asignar a un lote stock que ya está en la bodega sin lote
+ */
+export interface AssignLotInput {
+  productId: string;
+  locationId?: string | null; // Por defecto la bodega por defecto
+  lotNumber: string;
+  expiryDate?: string | null;
+  quantity: number;
+}
+
+const LOT_FIELDS = {
+  id: true,
+  productId: true,
+  locationId: true,
+  lotNumber: true,
+  expiryDate: true,
+  quantity: true,
+  createdAt: true,
+  updatedAt: true,
+  product: { select: { id: true, name: true, sku: true, unit: true } },
+  location: { select: { id: true, name: true } }
+} as const;
+
+// Longitud máxima del número de lote
+const MAX_LOT_NUMBER_LENGTH = 64;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Obtiene el día (YYYY-MM-DD) de una fecha en zona horaria de Colombia
+ */
+const toColombiaDay = (date: Date): string => {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: TIMEZONE_COLOMBIA,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+};
+
+/**
+ * Inicio del día actual en Colombia: un lote está vencido si su fecha de vencimiento es anterior
+ */
+const getTodayStart = (): Date => {
+  return new Date(`${toColombiaDay(new Date())}T00:00:00-05:00`);
+};
+
+/**
+ * Convierte la fecha de vencimiento (AAAA-MM-DD) al inicio de ese día en Colombia
+ */
+export const parseExpiryDate = (value: Date | string | null | undefined): Date | null => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const day = value instanceof Date ? toColombiaDay(value) : String(value).slice(0, 10);
+  const date = new Date(`${day}T00:00:00-05:00`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || Number.isNaN(date.getTime())) {
+    throw new Error('La fecha de vencimiento del lote es inválida: use el formato AAAA-MM-DD');
+  }
+  return date;
+};
+
+const normalizeLotNumber = (value: unknown): string => {
+  const lotNumber = typeof value === 'string' ? value.trim() : '';
+  if (!lotNumber) {
+    throw new Error('El número de lote es requerido');
+  }
+  if (lotNumber.length > MAX_LOT_NUMBER_LENGTH) {
+    throw new Error(`El número de lote es inválido: máximo ${MAX_LOT_NUMBER_LENGTH} caracteres`);
+  }
+  return lotNumber;
+};
+
+/**
+ * Días que faltan para el vencimiento (negativo si ya venció)
+ */
+const getDaysToExpiry = (expiryDate: Date | null, today: Date): number | null => {
+  return expiryDate ? Math.round((expiryDate.getTime() - today.getTime()) / DAY_MS) : null;
+};
+
+/**
+ * Cantidad vencida de un producto en una bodega; no se puede vender
+ *
+ * @param tx - Cliente de Prisma (o transacción en curso)
+ * @param productId - ID del producto
+ * @param locationId - ID de la bodega
+ */
+export const getExpiredLotQuantity = async (
+  tx: Prisma.TransactionClient,
+  productId: string,
+  locationId: string
+): Promise<number> => {
+  const expired = await tx.productLot.aggregate({
+    where: { productId, locationId, quantity: { gt: 0 }, expiryDate: { lt: getTodayStart() } },
+    _sum: { quantity: true }
+  });
+  return Number(expired._sum.quantity ?? 0);
+};
+
+/**
+ * Registra la entrada de lotes de un movimiento de inventario
+ * Un lote existente suma la cantidad; si ya tenía fecha de vencimiento, la nueva debe coincidir
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción en curso
+ * @param params - Producto, bodega, movimiento y lotes que entran
+ * @returns Lotes afectados
+ */
+export const receiveLots = async (
+  tx: Prisma.TransactionClient,
+  params: { tenantId: string; productId: string; locationId: string; movementId: string; lots: LotInput[] }
+): Promise<LotAllocation[]> => {
+  const allocations: LotAllocation[] = [];
+
+  for (const input of params.lots) {
+    const lotNumber = normalizeLotNumber(input.lotNumber);
+    const expiryDate = parseExpiryDate(input.expiryDate);
+    const quantity = roundQuantity(Number(input.quantity));
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new Error(`La cantidad del lote ${lotNumber} es inválida: debe ser mayor a cero`);
+    }
+
+    const existing = await tx.productLot.findUnique({
+      where: { productId_locationId_lotNumber: { productId: params.productId, locationId: params.locationId, lotNumber } },
+      select: { id: true, expiryDate: true }
+    });
+    if (existing?.expiryDate && expiryDate && existing.expiryDate.getTime() !== expiryDate.getTime()) {
+      throw new Error(`El lote ${lotNumber} ya está registrado con vencimiento ${toColombiaDay(existing.expiryDate)}`);
+    }
+
+    const lot = existing
+      ? await tx.productLot.update({
+        where: { id: existing.id },
+        data: { quantity: { increment: quantity }, expiryDate: existing.expiryDate ?? expiryDate },
+        select: { id: true, lotNumber: true, expiryDate: true }
+      })
+      : await tx.productLot.create({
+        data: {
+          tenantId: params.tenantId,
+          productId: params.productId,
+          locationId: params.locationId,
+          lotNumber,
+          expiryDate,
+          quantity
+        },
+        select: { id: true, lotNumber: true, expiryDate: true }
+      });
+
+    await tx.stockMovementLot.create({
+      data: { movementId: params.movementId, lotId: lot.id, quantity }
+    });
+    allocations.push({ lotId: lot.id, lotNumber: lot.lotNumber, expiryDate: lot.expiryDate, quantity });
+  }
+
+  return allocations;
+};
+
+/**
+ * Descuenta una salida de los lotes de la bodega en orden FEFO: primero el que vence antes,
+ * luego los lotes sin fecha; lo que no alcance a cubrir con lotes sale del stock sin lote
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción en curso
+ * @param params - Producto, bodega, movimiento y cantidad que sale (positiva); skipExpired deja
+ *   fuera los lotes vencidos (las ventas no pueden tomarlos)
+ * @returns Lotes consumidos
+ */
+export const consumeLotsFefo = async (
+  tx: Prisma.TransactionClient,
+  params: { productId: string; locationId: string; movementId: string; quantity: number; skipExpired?: boolean }
+): Promise<LotAllocation[]> => {
+  const lots = await tx.productLot.findMany({
+    where: {
+      productId: params.productId,
+      locationId: params.locationId,
+      quantity: { gt: 0 },
+      ...(params.skipExpired ? { OR: [{ expiryDate: null }, { expiryDate: { gte: getTodayStart() } }] } : {})
+    },
+    select: { id: true, lotNumber: true, expiryDate: true, quantity: true },
+    orderBy: [{ expiryDate: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }]
+  });
+
+  const allocations: LotAllocation[] = [];
+  let remaining = roundQuantity(params.quantity);
+  for (const lot of lots) {
+    if (remaining <= 0) {
+      break;
+    }
+    const taken = Math.min(remaining, Number(lot.quantity));
+    // Descuento condicionado: si otra salida tomó el lote en paralelo se pasa al siguiente
+    const updated = await tx.productLot.updateMany({
+      where: { id: lot.id, quantity: { gte: taken } },
+      data: { quantity: { decrement: taken } }
+    });
+    if (updated.count === 0) {
+      continue;
+    }
+
+    await tx.stockMovementLot.create({
+      data: { movementId: params.movementId, lotId: lot.id, quantity: -taken }
+    });
+    allocations.push({ lotId: lot.id, lotNumber: lot.lotNumber, expiryDate: lot.expiryDate, quantity: taken });
+    remaining = roundQuantity(remaining - taken);
+  }
+
+  return allocations;
+};
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene los lotes del tenant, primero los que vencen antes
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Filtros por producto y bodega
+ * @returns Lotes con los días que faltan para su vencimiento
+ */
+export const getLots = async (tenantId: string, options: LotFilterOptions = {}) => {
+  const lots = await prisma.productLot.findMany({
+    where: {
+      tenantId,
+      ...(options.productId ? { productId: options.productId } : {}),
+      ...(options.locationId ? { locationId: options.locationId } : {}),
+      ...(options.includeEmpty ? {} : { quantity: { gt: 0 } })
+    },
+    select: LOT_FIELDS,
+    orderBy: [{ expiryDate: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }]
+  });
+
+  const today = getTodayStart();
+  return lots.map((lot) => {
+    const daysToExpiry = getDaysToExpiry(lot.expiryDate, today);
+    return {
+      ...lot,
+      quantity: Number(lot.quantity),
+      daysToExpiry,
+      isExpired: daysToExpiry !== null && daysToExpiry < 0
+    };
+  });
+};
+
+/**
+ * Lotes con existencias que ya vencieron o vencen en los próximos días
+ *
+ * @param tenantId - ID del tenant
+ * @param days - Días hacia adelante (por defecto EXPIRY_WARNING_DAYS)
+ * @returns Lotes vencidos y por vencer con su cantidad y valor al costo
+ */
+export const getExpiringLots = async (tenantId: string, days: number = EXPIRY_WARNING_DAYS) => {
+  if (!Number.isInteger(days) || days < 0 || days > 365) {
+    throw new Error('La cantidad de días es inválida: debe ser un entero entre 0 y 365');
+  }
+
+  const today = getTodayStart();
+  const limit = new Date(today.getTime() + (days + 1) * DAY_MS);
+  const lots = await prisma.productLot.findMany({
+    where: { tenantId, quantity: { gt: 0 }, expiryDate: { lt: limit } },
+    select: {
+      ...LOT_FIELDS,
+      product: { select: { id: true, name: true, sku: true, unit: true, cost: true } }
+    },
+    orderBy: [{ expiryDate: 'asc' }, { createdAt: 'asc' }]
+  });
+
+  const rows = lots.map((lot) => {
+    const daysToExpiry = getDaysToExpiry(lot.expiryDate, today) ?? 0;
+    const quantity = Number(lot.quantity);
+    return {
+      ...lot,
+      quantity,
+      value: Math.round(quantity * Number(lot.product.cost) * 100) / 100,
+      daysToExpiry,
+      isExpired: daysToExpiry < 0
+    };
+  });
+
+  return {
+    days,
+    from: toColombiaDay(today),
+    to: toColombiaDay(new Date(limit.getTime() - DAY_MS)),
+    expiredCount: rows.filter((row) => row.isExpired).length,
+    expiringCount: rows.filter((row) => !row.isExpired).length,
+    totalValue: Math.round(rows.reduce((sum, row) => sum + row.value, 0) * 100) / 100,
+    lots: rows
+  };
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Asigna a un lote stock que ya está en la bodega sin lote (por ejemplo al empezar a manejar lotes)
+ * No cambia el stock ni genera movimiento en el kardex
+ *
+ * @param data - Producto, bodega, lote, vencimiento y cantidad
+ * @param tenantId - ID del tenant
+ * @returns Lote actualizado
+ */
+export const assignLot = async (data: AssignLotInput, tenantId: string) => {
+  const lotNumber = normalizeLotNumber(data.lotNumber);
+  const expiryDate = parseExpiryDate(data.expiryDate);
+
+  return prisma.$transaction(async (tx) => {
+    const product = await tx.product.findFirst({
+      where: { id: data.productId, tenantId },
+      select: { id: true, name: true, unit: true, trackLots: true }
+    });
+    if (!product) {
+      throw new Error('Producto no encontrado');
+    }
+    if (!product.trackLots) {
+      throw new Error(`El producto ${product.name} no maneja lotes: actívalos en el producto`);
+    }
+
+    const quantity = Number(data.quantity);
+    if (!isValidQuantity(quantity, product.unit) || quantity <= 0) {
+      throw new Error(`La cantidad del lote es inválida: debe ser ${describeQuantity(product.unit)} mayor a cero`);
+    }
+
+    const location = await resolveLocation(tx, tenantId, data.locationId);
+    const [stock, lotted] = await Promise.all([
+      getLocationStock(tx, product.id, location.id),
+      tx.productLot.aggregate({
+        where: { productId: product.id, locationId: location.id },
+        _sum: { quantity: true }
+      })
+    ]);
+    const unlotted = roundQuantity(stock - Number(lotted._sum.quantity ?? 0));
+    if (quantity > unlotted) {
+      throw new Error(`La cantidad del lote es inválida: en la bodega ${location.name} solo hay ${unlotted} sin lote`);
+    }
+
+    const existing = await tx.productLot.findUnique({
+      where: { productId_locationId_lotNumber: { productId: product.id, locationId: location.id, lotNumber } },
+      select: { id: true, expiryDate: true }
+    });
+    if (existing?.expiryDate && expiryDate && existing.expiryDate.getTime() !== expiryDate.getTime()) {
+      throw new Error(`El lote ${lotNumber} ya está registrado con vencimiento ${toColombiaDay(existing.expiryDate)}`);
+    }
+
+    const lot = existing
+      ? await tx.productLot.update({
+        where: { id: existing.id },
+        data: { quantity: { increment: quantity }, expiryDate: existing.expiryDate ?? expiryDate },
+        select: LOT_FIELDS
+      })
+      : await tx.productLot.create({
+        data: { tenantId, productId: product.id, locationId: location.id, lotNumber, expiryDate, quantity },
+        select: LOT_FIELDS
+      });
+
+    console.log(`✅ [LotService] Lote ${lot.lotNumber} asignado: ${quantity} de ${product.name} en ${location.name}`);
+    return { ...lot, quantity: Number(lot.quantity) };
+  });
+};
+
+// ==================== UPDATE OPERATIONS ====================
+
+/**
+ * Corrige la fecha de vencimiento de un lote
+ *
+ * @param id - ID del lote
+ * @param expiryDate - Nueva fecha (AAAA-MM-DD) o null si el lote no vence
+ * @param tenantId - ID del tenant
+ * @returns Lote actualizado
+ */
+export const updateLotExpiry = async (id: string, expiryDate: string | null, tenantId: string) => {
+  const lot = await prisma.productLot.findFirst({
+    where: { id, tenantId },
+    select: { id: true }
+  });
+  if (!lot) {
+    throw new Error('Lote no encontrado');
+  }
+
+  const updated = await prisma.productLot.update({
+    where: { id: lot.id },
+    data: { expiryDate: parseExpiryDate(expiryDate) },
+    select: LOT_FIELDS
+  });
+  return { ...updated, quantity: Number(updated.quantity) };
+};
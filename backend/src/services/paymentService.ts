@@ -0,0 +1,262 @@
+// backend/src/services/paymentService.ts
+// Servicio de pagos (abonos y recaudos) de facturas
+
+import { InvoiceStatus, PaymentMethod, Prisma } from '@prisma/client';
+
+import prisma from '../db';
+import { isCreditInvoice, postPaymentJournalEntry, roundCurrency } from './accountingService';
+import { releaseClientCredit } from './creditService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Interfaz para registrar un pago (sin tenantId ni invoiceId, se manejan internamente)
+ */
+export interface CreatePaymentInput {
+  amount: number;
+  method: PaymentMethod;
+  paymentDate?: Date | string;
+  reference?: string | null;
+  notes?: string | null;
+  createdById?: string | null;
+}
+
+// Datos de la factura necesarios para saldarla al momento de la venta
+export interface InvoiceForSettlement {
+  id: string;
+  tenantId: string;
+  status: InvoiceStatus;
+  issueDate: Date;
+  paymentMethod: PaymentMethod;
+  isCreditSale: boolean;
+  total: Prisma.Decimal.Value;
+  totalPaid: Prisma.Decimal.Value;
+}
+
+// Medios con los que se puede recibir un pago (CREDIT no es un medio de pago)
+export const PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'TRANSFER'];
+
+const PAYMENT_FIELDS = {
+  id: true,
+  tenantId: true,
+  invoiceId: true,
+  amount: true,
+  method: true,
+  paymentDate: true,
+  reference: true,
+  notes: true,
+  createdById: true,
+  createdAt: true
+} as const;
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene el historial de pagos de una factura
+ *
+ * @param invoiceId - ID de la factura
+ * @param tenantId - ID del tenant
+ * @returns Factura con su saldo y los pagos ordenados por fecha
+ */
+export const getInvoicePayments = async (invoiceId: string, tenantId: string) => {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: invoiceId, tenantId },
+    select: {
+      id: true,
+      number: true,
+      status: true,
+      total: true,
+      totalPaid: true,
+      totalCredited: true,
+      payments: {
+        select: {
+          ...PAYMENT_FIELDS,
+          createdBy: { select: { id: true, fullName: true } }
+        },
+        orderBy: { paymentDate: 'asc' }
+      }
+    }
+  });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  const { payments, ...invoiceData } = invoice;
+
+  return {
+    invoice: {
+      ...invoiceData,
+      balance: new Prisma.Decimal(invoice.total).minus(invoice.totalPaid).minus(invoice.totalCredited)
+    },
+    payments
+  };
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Registra el pago completo de una venta de contado (efectivo o transferencia) al emitirla
+ * El asiento de la venta ya debita caja o bancos, por lo que el pago no genera asiento propio
+ * Las ventas a crédito quedan pendientes hasta que se registren sus abonos
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción de la factura
+ * @param invoice - Factura recién emitida
+ * @param createdById - Usuario que registra la venta
+ * @returns Estado y total pagado resultantes de la factura
+ */
+export const settleInvoiceAtSale = async (
+  tx: Prisma.TransactionClient,
+  invoice: InvoiceForSettlement,
+  createdById?: string | null
+): Promise<{ status: InvoiceStatus; totalPaid: Prisma.Decimal }> => {
+  const total = new Prisma.Decimal(invoice.total);
+  const totalPaid = new Prisma.Decimal(invoice.totalPaid);
+
+  if (isCreditInvoice(invoice.paymentMethod, invoice.isCreditSale)) {
+    return { status: invoice.status, totalPaid };
+  }
+
+  const balance = total.minus(totalPaid);
+  if (balance.greaterThan(0)) {
+    await tx.payment.create({
+      data: {
+        tenantId: invoice.tenantId,
+        invoiceId: invoice.id,
+        amount: balance,
+        method: invoice.paymentMethod,
+        paymentDate: invoice.issueDate,
+        notes: 'Pago de contado registrado al emitir la factura',
+        createdById: createdById || null
+      }
+    });
+  }
+
+  const updated = await tx.invoice.update({
+    where: { id: invoice.id },
+    data: { totalPaid: total, status: 'PAID' },
+    select: { status: true, totalPaid: true }
+  });
+
+  return updated;
+};
+
+/**
+ * Registra un pago (abono) a una factura emitida
+ * Incrementa el total pagado, marca la factura como PAID cuando queda saldada
+ * y, si la factura es una venta a crédito, genera el asiento del recaudo y reduce la deuda del cliente
+ *
+ * @param invoiceId - ID de la factura
+ * @param data - Datos del pago
+ * @param tenantId - ID del tenant
+ * @returns Pago creado y saldo actualizado de la factura
+ */
+export const registerPayment = async (
+  invoiceId: string,
+  data: CreatePaymentInput,
+  tenantId: string
+) => {
+  const amount = roundCurrency(Number(data.amount));
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error('El valor del pago es requerido y debe ser mayor a cero');
+  }
+  if (!PAYMENT_METHODS.includes(data.method)) {
+    throw new Error('El medio de pago es inválido: use CASH o TRANSFER');
+  }
+
+  const paymentDate = data.paymentDate ? new Date(data.paymentDate) : new Date();
+  if (Number.isNaN(paymentDate.getTime())) {
+    throw new Error('La fecha del pago es inválida');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const invoice = await tx.invoice.findFirst({
+      where: { id: invoiceId, tenantId },
+      select: {
+        id: true,
+        clientId: true,
+        number: true,
+        status: true,
+        total: true,
+        totalPaid: true,
+        totalCredited: true,
+        paymentMethod: true,
+        isCreditSale: true
+      }
+    });
+
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    if (invoice.status === 'DRAFT') {
+      throw new Error('No se pueden registrar pagos a una factura en borrador');
+    }
+    if (invoice.status === 'CANCELLED') {
+      throw new Error('No se pueden registrar pagos a una factura anulada');
+    }
+    if (invoice.status === 'PAID') {
+      throw new Error(`La factura ${invoice.number} ya está pagada`);
+    }
+
+    // Las notas crédito reducen el saldo igual que los pagos
+    const balance = invoice.total.minus(invoice.totalPaid).minus(invoice.totalCredited);
+    if (balance.lessThan(amount)) {
+      throw new Error(
+        `El pago de ${amount.toFixed(2)} excede el saldo pendiente de la factura (${balance.toFixed(2)})`
+      );
+    }
+
+    const newTotalPaid = invoice.totalPaid.plus(amount);
+    const newStatus: InvoiceStatus = newTotalPaid.plus(invoice.totalCredited).equals(invoice.total)
+      ? 'PAID'
+      : invoice.status;
+
+    // Actualización condicionada al total pagado leído para no perder pagos simultáneos
+    const updated = await tx.invoice.updateMany({
+      where: { id: invoice.id, totalPaid: invoice.totalPaid, totalCredited: invoice.totalCredited },
+      data: { totalPaid: newTotalPaid, status: newStatus }
+    });
+    if (updated.count === 0) {
+      throw new Error('La factura fue modificada por otro pago simultáneo. Intenta nuevamente');
+    }
+
+    const payment = await tx.payment.create({
+      data: {
+        tenantId,
+        invoiceId: invoice.id,
+        amount,
+        method: data.method,
+        paymentDate,
+        reference: data.reference?.trim() || null,
+        notes: data.notes?.trim() || null,
+        createdById: data.createdById || null
+      },
+      select: PAYMENT_FIELDS
+    });
+
+    // Solo los abonos a ventas a crédito generan asiento y reducen la deuda del cliente:
+    // la venta de contado ya debitó caja o bancos
+    if (isCreditInvoice(invoice.paymentMethod, invoice.isCreditSale)) {
+      await postPaymentJournalEntry(tx, payment, invoice.number);
+      if (invoice.clientId) {
+        await releaseClientCredit(tx, invoice.clientId, amount);
+      }
+    }
+
+    console.log(`✅ [PaymentService] Pago registrado a la factura ${invoice.number}: ${amount.toFixed(2)}`);
+
+    return {
+      payment,
+      invoice: {
+        id: invoice.id,
+        number: invoice.number,
+        status: newStatus,
+        total: invoice.total,
+        totalPaid: newTotalPaid,
+        totalCredited: invoice.totalCredited,
+        balance: invoice.total.minus(newTotalPaid).minus(invoice.totalCredited)
+      }
+    };
+  });
+};
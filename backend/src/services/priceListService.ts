@@ -0,0 +1,455 @@
+// backend/src/services/priceListService.ts
+// Servicio de listas de precios - Precios de detal, mayorista o distribuidor por producto, asignables a clientes
+
+import { PriceListBase, Prisma } from '@prisma/client';
+
+import prisma from '../db';
+import { roundCurrency } from './accountingService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Interfaz para crear o actualizar una lista de precios (sin tenantId, se maneja internamente)
+ */
+export interface PriceListInput {
+  name?: string;
+  description?: string | null;
+  base?: PriceListBase; // Precio sobre el que se aplica el porcentaje
+  percentage?: number; // -10 vende 10% por debajo de la base, 25 vende 25% por encima
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+// Precio fijo de un producto en la lista; tiene prioridad sobre el porcentaje
+export interface PriceListItemInput {
+  productId: string;
+  price: number;
+}
+
+// Opciones del listado de listas de precios
+export interface PriceListFilterOptions {
+  includeInactive?: boolean;
+}
+
+// Regla de una lista ya resuelta para calcular precios
+export interface ResolvedPriceList {
+  id: string;
+  name: string;
+  base: PriceListBase;
+  percentage: Prisma.Decimal;
+}
+
+export const PRICE_LIST_BASES = Object.values(PriceListBase);
+
+const PRICE_LIST_FIELDS = {
+  id: true,
+  tenantId: true,
+  name: true,
+  description: true,
+  base: true,
+  percentage: true,
+  isDefault: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+// Un ajuste de -100% o menos regalaría la mercancía
+const MIN_PERCENTAGE = -99.99;
+const MAX_PERCENTAGE = 1000;
+
+// ==================== UTILIDADES ====================
+
+const validatePercentage = (percentage: number) => {
+  if (!Number.isFinite(percentage) || percentage < MIN_PERCENTAGE || percentage > MAX_PERCENTAGE) {
+    throw new Error(`El porcentaje de la lista es inválido: debe estar entre ${MIN_PERCENTAGE} y ${MAX_PERCENTAGE}`);
+  }
+};
+
+/**
+ * Precio de un producto en una lista: el precio fijo del producto en la lista o, si no tiene,
+ * el porcentaje de la lista aplicado sobre el precio de venta o el costo del producto
+ * Sin lista el precio es el precio de venta del producto
+ *
+ * @param priceList - Lista resuelta (o null)
+ * @param product - Precio de venta y costo del producto
+ * @param fixedPrice - Precio fijo del producto en la lista, si tiene
+ * @returns Precio unitario antes de IVA
+ */
+export const computeListPrice = (
+  priceList: ResolvedPriceList | null,
+  product: { price: Prisma.Decimal.Value; cost: Prisma.Decimal.Value },
+  fixedPrice?: Prisma.Decimal.Value | null
+): number => {
+  if (!priceList) {
+    return Number(product.price);
+  }
+  if (fixedPrice !== undefined && fixedPrice !== null) {
+    return Number(fixedPrice);
+  }
+  const base = Number(priceList.base === 'COST' ? product.cost : product.price);
+  return roundCurrency(base * (1 + Number(priceList.percentage) / 100));
+};
+
+/**
+ * Valida que una lista de precios exista en el tenant y esté activa (para asignarla a un cliente)
+ */
+export const validatePriceListReference = async (tenantId: string, priceListId: string | null | undefined) => {
+  if (!priceListId) {
+    return;
+  }
+  const priceList = await prisma.priceList.findFirst({
+    where: { id: priceListId, tenantId },
+    select: { name: true, isActive: true }
+  });
+  if (!priceList) {
+    throw new Error('Lista de precios no encontrada');
+  }
+  if (!priceList.isActive) {
+    throw new Error(`La lista de precios ${priceList.name} está inactiva`);
+  }
+};
+
+/**
+ * Resuelve la lista de precios de una venta: la elegida en el POS, la del cliente o la lista por
+ * defecto del tenant, en ese orden. Sin ninguna, la venta usa el precio de venta de cada producto
+ *
+ * @param tx - Cliente de Prisma (o transacción en curso)
+ * @param tenantId - ID del tenant
+ * @param selection - Lista elegida y cliente de la venta
+ * @returns Lista a aplicar o null
+ */
+export const resolvePriceList = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  selection: { priceListId?: string | null; clientId?: string | null }
+): Promise<ResolvedPriceList | null> => {
+  const select = { id: true, name: true, base: true, percentage: true, isActive: true } as const;
+
+  if (selection.priceListId) {
+    const priceList = await tx.priceList.findFirst({ where: { id: selection.priceListId, tenantId }, select });
+    if (!priceList) {
+      throw new Error('Lista de precios no encontrada');
+    }
+    if (!priceList.isActive) {
+      throw new Error(`La lista de precios ${priceList.name} está inactiva`);
+    }
+    return priceList;
+  }
+
+  if (selection.clientId) {
+    const client = await tx.client.findFirst({
+      where: { id: selection.clientId, tenantId },
+      select: { priceList: { select } }
+    });
+    if (client?.priceList?.isActive) {
+      return client.priceList;
+    }
+  }
+
+  return tx.priceList.findFirst({ where: { tenantId, isDefault: true, isActive: true }, select });
+};
+
+/**
+ * Precio de un producto en la lista de una venta (consulta su precio fijo en la lista)
+ *
+ * @param tx - Cliente de Prisma (o transacción en curso)
+ * @param priceList - Lista resuelta (o null)
+ * @param product - ID, precio de venta y costo del producto
+ * @returns Precio unitario antes de IVA
+ */
+export const getListPrice = async (
+  tx: Prisma.TransactionClient,
+  priceList: ResolvedPriceList | null,
+  product: { id: string; price: Prisma.Decimal.Value; cost: Prisma.Decimal.Value }
+): Promise<number> => {
+  if (!priceList) {
+    return Number(product.price);
+  }
+  const item = await tx.priceListItem.findUnique({
+    where: { priceListId_productId: { priceListId: priceList.id, productId: product.id } },
+    select: { price: true }
+  });
+  return computeListPrice(priceList, product, item?.price);
+};
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene las listas de precios de un tenant ordenadas por nombre
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Incluir listas inactivas
+ * @returns Listas con la cantidad de precios fijos y de clientes asignados
+ */
+export const getPriceLists = async (tenantId: string, options: PriceListFilterOptions = {}) => {
+  return prisma.priceList.findMany({
+    where: {
+      tenantId,
+      ...(options.includeInactive ? {} : { isActive: true })
+    },
+    select: {
+      ...PRICE_LIST_FIELDS,
+      _count: { select: { items: true, clients: true } }
+    },
+    orderBy: { name: 'asc' }
+  });
+};
+
+/**
+ * Obtiene una lista de precios con sus precios fijos por producto
+ *
+ * @param id - ID de la lista
+ * @param tenantId - ID del tenant
+ * @returns Lista con sus precios fijos
+ */
+export const getPriceListById = async (id: string, tenantId: string) => {
+  const priceList = await prisma.priceList.findFirst({
+    where: { id, tenantId },
+    select: {
+      ...PRICE_LIST_FIELDS,
+      items: {
+        select: {
+          productId: true,
+          price: true,
+          product: { select: { name: true, sku: true, price: true, cost: true } }
+        },
+        orderBy: { product: { name: 'asc' } }
+      }
+    }
+  });
+  if (!priceList) {
+    throw new Error('Lista de precios no encontrada');
+  }
+  return priceList;
+};
+
+/**
+ * Precio de cada producto activo en una lista (para mostrar en el POS los precios que cobrará la venta)
+ *
+ * @param id - ID de la lista
+ * @param tenantId - ID del tenant
+ * @returns Precio por producto
+ */
+export const getPriceListPrices = async (id: string, tenantId: string) => {
+  const priceList = await resolvePriceList(prisma, tenantId, { priceListId: id });
+  if (!priceList) {
+    throw new Error('Lista de precios no encontrada');
+  }
+
+  const [products, items] = await Promise.all([
+    prisma.product.findMany({
+      where: { tenantId, isActive: true },
+      select: { id: true, price: true, cost: true }
+    }),
+    prisma.priceListItem.findMany({
+      where: { priceListId: priceList.id },
+      select: { productId: true, price: true }
+    })
+  ]);
+  const fixedPrices = new Map(items.map((item) => [item.productId, item.price]));
+
+  return products.map((product) => ({
+    productId: product.id,
+    price: computeListPrice(priceList, product, fixedPrices.get(product.id))
+  }));
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Crea una lista de precios
+ * Si se marca por defecto, deja de serlo la lista que lo era
+ *
+ * @param data - Nombre, regla de porcentaje y si es la lista por defecto
+ * @param tenantId - ID del tenant
+ * @returns Lista creada
+ */
+export const createPriceList = async (data: PriceListInput, tenantId: string) => {
+  const name = data.name?.trim();
+  if (!name) {
+    throw new Error('El nombre de la lista de precios es requerido');
+  }
+  if (data.base !== undefined && !PRICE_LIST_BASES.includes(data.base)) {
+    throw new Error(`La base de la lista es inválida: use ${PRICE_LIST_BASES.join(', ')}`);
+  }
+  const percentage = data.percentage ?? 0;
+  validatePercentage(percentage);
+
+  try {
+    const priceList = await prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.priceList.updateMany({ where: { tenantId, isDefault: true }, data: { isDefault: false } });
+      }
+      return tx.priceList.create({
+        data: {
+          tenantId,
+          name,
+          description: data.description?.trim() || null,
+          base: data.base ?? 'PRICE',
+          percentage: new Prisma.Decimal(percentage),
+          isDefault: data.isDefault ?? false,
+          isActive: true
+        },
+        select: PRICE_LIST_FIELDS
+      });
+    });
+
+    console.log(`✅ [PriceListService] Lista de precios creada: ${priceList.name} (${priceList.id})`);
+    return priceList;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error(`Ya existe una lista de precios llamada ${name}`);
+    }
+    throw error;
+  }
+};
+
+// ==================== UPDATE OPERATIONS ====================
+
+/**
+ * Actualiza una lista de precios
+ * Una lista inactiva no puede ser la lista por defecto
+ *
+ * @param id - ID de la lista
+ * @param data - Campos a actualizar
+ * @param tenantId - ID del tenant
+ * @returns Lista actualizada
+ */
+export const updatePriceList = async (id: string, data: PriceListInput, tenantId: string) => {
+  const existing = await prisma.priceList.findFirst({
+    where: { id, tenantId },
+    select: { id: true, isDefault: true, isActive: true }
+  });
+  if (!existing) {
+    throw new Error('Lista de precios no encontrada');
+  }
+
+  const updateData: Prisma.PriceListUpdateInput = {};
+  if (data.name !== undefined) {
+    const name = data.name.trim();
+    if (!name) {
+      throw new Error('El nombre de la lista de precios es requerido');
+    }
+    updateData.name = name;
+  }
+  if (data.description !== undefined) {
+    updateData.description = data.description?.trim() || null;
+  }
+  if (data.base !== undefined) {
+    if (!PRICE_LIST_BASES.includes(data.base)) {
+      throw new Error(`La base de la lista es inválida: use ${PRICE_LIST_BASES.join(', ')}`);
+    }
+    updateData.base = data.base;
+  }
+  if (data.percentage !== undefined) {
+    validatePercentage(data.percentage);
+    updateData.percentage = new Prisma.Decimal(data.percentage);
+  }
+  if (data.isActive !== undefined) {
+    updateData.isActive = data.isActive;
+  }
+  if (data.isDefault !== undefined) {
+    updateData.isDefault = data.isDefault;
+  }
+  const isActive = data.isActive ?? existing.isActive;
+  if (!isActive && (data.isDefault ?? existing.isDefault)) {
+    throw new Error('La lista por defecto debe estar activa: marque otra lista por defecto antes de desactivarla');
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      if (data.isDefault && !existing.isDefault) {
+        await tx.priceList.updateMany({ where: { tenantId, isDefault: true }, data: { isDefault: false } });
+      }
+      return tx.priceList.update({
+        where: { id: existing.id },
+        data: updateData,
+        select: PRICE_LIST_FIELDS
+      });
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error(`Ya existe una lista de precios llamada ${data.name?.trim()}`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Reemplaza los precios fijos de una lista
+ * Los productos sin precio fijo se venden con el porcentaje de la lista
+ *
+ * @param id - ID de la lista
+ * @param items - Precio fijo por producto (una lista vacía los elimina todos)
+ * @param tenantId - ID del tenant
+ * @returns Lista con sus precios fijos
+ */
+export const setPriceListItems = async (id: string, items: PriceListItemInput[], tenantId: string) => {
+  const priceList = await prisma.priceList.findFirst({
+    where: { id, tenantId },
+    select: { id: true }
+  });
+  if (!priceList) {
+    throw new Error('Lista de precios no encontrada');
+  }
+
+  const productIds = items.map((item) => item.productId);
+  const repeated = productIds.find((productId, index) => productIds.indexOf(productId) !== index);
+  if (repeated) {
+    throw new Error('Un producto está repetido en la lista de precios');
+  }
+  for (const item of items) {
+    if (!Number.isFinite(item.price) || item.price < 0) {
+      throw new Error('El precio de cada producto es requerido y debe ser mayor o igual a 0');
+    }
+  }
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds }, tenantId },
+    select: { id: true }
+  });
+  if (products.length !== new Set(productIds).size) {
+    throw new Error('Producto no encontrado');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.priceListItem.deleteMany({ where: { priceListId: priceList.id } });
+    if (items.length > 0) {
+      await tx.priceListItem.createMany({
+        data: items.map((item) => ({
+          priceListId: priceList.id,
+          productId: item.productId,
+          price: new Prisma.Decimal(roundCurrency(item.price))
+        }))
+      });
+    }
+  });
+
+  return getPriceListById(priceList.id, tenantId);
+};
+
+// ==================== DELETE OPERATIONS ====================
+
+/**
+ * Elimina una lista de precios sin clientes asignados
+ * Las facturas que la usaron conservan sus precios
+ *
+ * @param id - ID de la lista
+ * @param tenantId - ID del tenant
+ */
+export const deletePriceList = async (id: string, tenantId: string) => {
+  const priceList = await prisma.priceList.findFirst({
+    where: { id, tenantId },
+    select: { id: true, name: true, _count: { select: { clients: true } } }
+  });
+  if (!priceList) {
+    throw new Error('Lista de precios no encontrada');
+  }
+  if (priceList._count.clients > 0) {
+    throw new Error(`La lista de precios ${priceList.name} tiene clientes asignados: reasígnalos o desactívala`);
+  }
+
+  await prisma.priceList.delete({ where: { id: priceList.id } });
+  return { id: priceList.id };
+};
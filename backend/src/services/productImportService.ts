@@ -0,0 +1,620 @@
+// backend/src/services/productImportService.ts
+// Servicio de importación de productos - Carga masiva del catálogo desde CSV o Excel (con vista previa) y descarga en el mismo formato
+
+import { Prisma, UnitOfMeasure } from '@prisma/client';
+
+import prisma from '../db';
+import { PRODUCT_IMPORT_MAX_ROWS } from '../config/constants';
+import { BarcodeInput, replaceProductBarcodes, validateBarcode } from './barcodeService';
+import { getCategoryPaths } from './categoryService';
+import { CsvValue, parseCsv, toCsv, unescapeFormula } from './csvService';
+import { ProductFilterOptions, getAllProducts, validateProductUnits, validateReorderSettings } from './productService';
+import { recordStockMovement } from './stockMovementService';
+import { TAX_CATEGORIES, isTaxCategory } from './taxService';
+import { describeQuantity, isUnitOfMeasure, isValidQuantity, roundQuantity } from './unitService';
+import { isZipFile, parseXlsx, toXlsx } from './xlsxService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+export type ProductFileFormat = 'csv' | 'xlsx';
+
+type ImportField =
+  | 'sku'
+  | 'name'
+  | 'description'
+  | 'price'
+  | 'cost'
+  | 'stock'
+  | 'taxCategory'
+  | 'unit'
+  | 'purchaseUnit'
+  | 'unitsPerPurchaseUnit'
+  | 'category'
+  | 'brand'
+  | 'barcodes'
+  | 'minStock'
+  | 'maxStock'
+  | 'reorderQuantity'
+  | 'trackLots'
+  | 'isActive';
+
+// Acción que la importación hará con la fila: crear el producto o actualizar el que tiene el mismo SKU
+export type ProductImportAction = 'CREATE' | 'UPDATE';
+
+export interface ProductImportRow {
+  row: number; // Número de fila en el archivo (la 1 es la de encabezados)
+  sku: string | null;
+  name: string;
+  action: ProductImportAction;
+  errors: string[];
+}
+
+export interface ProductImportResult {
+  dryRun: boolean;
+  imported: boolean; // false en la vista previa o si alguna fila tiene errores
+  summary: {
+    total: number;
+    toCreate: number;
+    toUpdate: number;
+    withErrors: number;
+  };
+  rows: ProductImportRow[];
+}
+
+// Fila validada con los datos que se guardarán
+interface ParsedProductRow {
+  result: ProductImportRow;
+  productId: string | null; // Producto existente del tenant con el mismo SKU
+  data: Prisma.ProductUncheckedUpdateInput;
+  barcodes?: BarcodeInput[]; // Solo si el archivo trae la columna de códigos de barras
+  stockChange: number; // Diferencia a registrar como ajuste en el kardex
+}
+
+// Productos, categorías, marcas y códigos de barras que las filas necesitan, consultados una sola vez
+interface ImportContext {
+  tenantId: string;
+  columns: Map<ImportField, number>;
+  productsBySku: Map<string, {
+    id: string;
+    tenantId: string;
+    name: string;
+    stock: Prisma.Decimal;
+    unit: UnitOfMeasure;
+    purchaseUnit: UnitOfMeasure | null;
+    unitsPerPurchaseUnit: Prisma.Decimal;
+    minStock: Prisma.Decimal | null;
+    maxStock: Prisma.Decimal | null;
+    reorderQuantity: Prisma.Decimal | null;
+  }>;
+  categories: { id: string; name: string; path: string; isActive: boolean }[];
+  brands: { id: string; name: string; isActive: boolean }[];
+  barcodeOwners: Map<string, { productId: string; productName: string }>;
+  skuRows: Map<string, number>; // Primera fila en que aparece cada SKU del archivo
+  barcodeRows: Map<string, number>; // Primera fila en que aparece cada código de barras del archivo
+}
+
+// Columnas del archivo: título con que se exporta y otros nombres aceptados al importar
+const COLUMNS: { field: ImportField; header: string; aliases: string[] }[] = [
+  { field: 'sku', header: 'SKU', aliases: ['referencia', 'codigo'] },
+  { field: 'name', header: 'Nombre', aliases: ['producto'] },
+  { field: 'description', header: 'Descripción', aliases: [] },
+  { field: 'price', header: 'Precio', aliases: ['precio de venta'] },
+  { field: 'cost', header: 'Costo', aliases: ['costo unitario'] },
+  { field: 'stock', header: 'Stock', aliases: ['existencias'] },
+  { field: 'taxCategory', header: 'Categoría tributaria', aliases: ['iva'] },
+  { field: 'unit', header: 'Unidad', aliases: ['unidad de medida', 'unidad de venta'] },
+  { field: 'purchaseUnit', header: 'Unidad de compra', aliases: [] },
+  { field: 'unitsPerPurchaseUnit', header: 'Unidades por unidad de compra', aliases: [] },
+  { field: 'category', header: 'Categoría', aliases: [] },
+  { field: 'brand', header: 'Marca', aliases: [] },
+  { field: 'barcodes', header: 'Códigos de barras', aliases: ['codigo de barras'] },
+  { field: 'minStock', header: 'Stock mínimo', aliases: ['punto de reorden'] },
+  { field: 'maxStock', header: 'Stock máximo', aliases: [] },
+  { field: 'reorderQuantity', header: 'Comprar de a', aliases: ['cantidad de reorden'] },
+  { field: 'trackLots', header: 'Maneja lotes', aliases: ['lotes'] },
+  { field: 'isActive', header: 'Activo', aliases: [] }
+];
+
+const TRUE_VALUES = ['si', 's', 'x', '1', 'true', 'verdadero'];
+const FALSE_VALUES = ['no', 'n', '0', 'false', 'falso'];
+
+// Una importación grande crea cada producto con sus códigos y su ajuste de stock en la misma transacción
+const IMPORT_TRANSACTION_TIMEOUT_MS = 120000;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Texto comparable: sin tildes, sin mayúsculas y con un solo espacio entre palabras
+ */
+const normalizeText = (value: string): string => {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Lee un número escrito con coma o punto decimal ("1.234,5", "1234.5", "$ 2.500")
+ * El último separador que aparece es el decimal; el otro se toma como separador de miles
+ */
+const parseDecimal = (raw: string): number => {
+  const text = raw.replace(/[\s$]/g, '');
+  const normalized = text.lastIndexOf(',') > text.lastIndexOf('.')
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+  return normalized === '' ? NaN : Number(normalized);
+};
+
+/**
+ * Lee el archivo como filas de texto: los .xlsx se reconocen por su firma ZIP, el resto se lee como CSV
+ * Las celdas que la exportación escapó como fórmula se leen sin el apóstrofo
+ */
+const readFileRows = (file: Buffer): string[][] => {
+  if (file.length === 0) {
+    throw new Error('El archivo es requerido');
+  }
+  const unescapeRows = (rows: string[][]) => rows.map((row) => row.map(unescapeFormula));
+  if (!isZipFile(file)) {
+    return unescapeRows(parseCsv(file.toString('utf8')));
+  }
+  try {
+    return unescapeRows(parseXlsx(file));
+  } catch (error) {
+    // Un ZIP truncado o mal comprimido falla al leerlo o descomprimirlo
+    if (error instanceof Error && error.message.includes('inválido')) {
+      throw error;
+    }
+    throw new Error('El archivo Excel es inválido: el contenido está dañado');
+  }
+};
+
+/**
+ * Ubica cada columna conocida a partir de la fila de encabezados
+ */
+const mapColumns = (headers: string[]): Map<ImportField, number> => {
+  const columns = new Map<ImportField, number>();
+  headers.forEach((header, index) => {
+    const key = normalizeText(header);
+    const column = COLUMNS.find((candidate) => (
+      normalizeText(candidate.header) === key || candidate.aliases.includes(key)
+    ));
+    if (column && !columns.has(column.field)) {
+      columns.set(column.field, index);
+    }
+  });
+
+  if (!columns.has('sku') && !columns.has('name')) {
+    throw new Error('El archivo es inválido: la primera fila debe tener los encabezados, al menos SKU o Nombre');
+  }
+  return columns;
+};
+
+/**
+ * Busca una categoría por su ruta completa ("Bebidas > Gaseosas") o por su nombre
+ */
+const resolveCategory = (raw: string, context: ImportContext, errors: string[]): string | null => {
+  const key = normalizeText(raw);
+  const byPath = context.categories.filter((category) => normalizeText(category.path) === key);
+  const matches = byPath.length > 0
+    ? byPath
+    : context.categories.filter((category) => normalizeText(category.name) === key);
+
+  if (matches.length === 0) {
+    errors.push(`La categoría ${raw} no existe`);
+    return null;
+  }
+  if (matches.length > 1) {
+    errors.push(`La categoría ${raw} es ambigua: indique la ruta completa (${matches[0].path})`);
+    return null;
+  }
+  if (!matches[0].isActive) {
+    errors.push(`La categoría ${matches[0].name} está inactiva`);
+  }
+  return matches[0].id;
+};
+
+const resolveBrand = (raw: string, context: ImportContext, errors: string[]): string | null => {
+  const brand = context.brands.find((candidate) => normalizeText(candidate.name) === normalizeText(raw));
+  if (!brand) {
+    errors.push(`La marca ${raw} no existe`);
+    return null;
+  }
+  if (!brand.isActive) {
+    errors.push(`La marca ${brand.name} está inactiva`);
+  }
+  return brand.id;
+};
+
+/**
+ * Valida una fila con las mismas reglas de createProduct y updateProduct
+ * En los productos existentes solo cambian las columnas que trae el archivo; una celda vacía
+ * borra los datos opcionales (descripción, categoría, stock mínimo...) y deja el stock como está
+ */
+const parseRow = (cells: string[], rowNumber: number, context: ImportContext): ParsedProductRow => {
+  const errors: string[] = [];
+  const data: Prisma.ProductUncheckedUpdateInput = {};
+
+  const cell = (field: ImportField): string | undefined => {
+    const index = context.columns.get(field);
+    return index === undefined ? undefined : (cells[index] ?? '').trim();
+  };
+  // undefined: la columna no está o el valor es inválido; null: celda vacía
+  const decimal = (field: ImportField, label: string): number | null | undefined => {
+    const raw = cell(field);
+    if (raw === undefined || raw === '') {
+      return raw === undefined ? undefined : null;
+    }
+    const value = parseDecimal(raw);
+    if (!Number.isFinite(value)) {
+      errors.push(`${label}: "${raw}" no es un número válido`);
+      return undefined;
+    }
+    return value;
+  };
+  const flag = (field: ImportField, label: string): boolean | undefined => {
+    const raw = cell(field);
+    if (!raw) {
+      return undefined;
+    }
+    const key = normalizeText(raw);
+    if (TRUE_VALUES.includes(key) || FALSE_VALUES.includes(key)) {
+      return TRUE_VALUES.includes(key);
+    }
+    errors.push(`${label}: "${raw}" es inválido, use SI o NO`);
+    return undefined;
+  };
+  const attempt = (validate: () => void) => {
+    try {
+      validate();
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // SKU: identifica el producto a actualizar y es único en todo el sistema
+  const sku = cell('sku') || null;
+  const found = sku ? context.productsBySku.get(sku) : undefined;
+  const existing = found?.tenantId === context.tenantId ? found : undefined;
+  if (found && !existing) {
+    errors.push('Ya está en uso un producto con este SKU');
+  }
+  if (sku) {
+    const firstRow = context.skuRows.get(sku);
+    if (firstRow !== undefined) {
+      errors.push(`El SKU ${sku} está repetido en la fila ${firstRow}`);
+    } else {
+      context.skuRows.set(sku, rowNumber);
+    }
+    data.sku = sku;
+  }
+
+  const name = cell('name');
+  if (name === '' || (name === undefined && !existing)) {
+    errors.push('El nombre del producto es requerido');
+  } else if (name !== undefined) {
+    data.name = name;
+  }
+
+  const description = cell('description');
+  if (description !== undefined) {
+    data.description = description || null;
+  }
+
+  const price = decimal('price', 'Precio');
+  if (price === null || (price === undefined && !existing && !context.columns.has('price')) || (price ?? 0) < 0) {
+    errors.push('El precio del producto es requerido y debe ser mayor o igual a 0');
+  } else if (price !== undefined) {
+    data.price = new Prisma.Decimal(price);
+  }
+
+  const cost = decimal('cost', 'Costo');
+  if (cost === null || (cost === undefined && !existing && !context.columns.has('cost')) || (cost ?? 0) < 0) {
+    errors.push('El costo del producto es requerido y debe ser mayor o igual a 0');
+  } else if (cost !== undefined) {
+    data.cost = new Prisma.Decimal(cost);
+  }
+
+  const taxCategory = cell('taxCategory')?.toUpperCase();
+  if (isTaxCategory(taxCategory)) {
+    data.taxCategory = taxCategory;
+  } else if (taxCategory) {
+    errors.push(`La categoría tributaria es inválida: use ${TAX_CATEGORIES.join(', ')}`);
+  }
+
+  // Unidades: las columnas que no trae el archivo conservan el valor actual del producto
+  const unitCell = cell('unit')?.toUpperCase();
+  const purchaseUnitCell = cell('purchaseUnit')?.toUpperCase();
+  const factorCell = decimal('unitsPerPurchaseUnit', 'Unidades por unidad de compra');
+  const unit = unitCell || existing?.unit || 'UNIT';
+  const validUnit = isUnitOfMeasure(unit);
+  if (unitCell !== undefined || purchaseUnitCell !== undefined || factorCell !== undefined || !existing) {
+    const purchaseUnit = purchaseUnitCell !== undefined ? purchaseUnitCell || null : existing?.purchaseUnit ?? null;
+    const factor = factorCell ?? (existing && factorCell === undefined ? Number(existing.unitsPerPurchaseUnit) : 1);
+    attempt(() => validateProductUnits(unit, purchaseUnit, factor));
+    if (validUnit) {
+      data.unit = unit;
+      data.purchaseUnit = (purchaseUnit as UnitOfMeasure | null) ?? null;
+      data.unitsPerPurchaseUnit = new Prisma.Decimal(purchaseUnit ? factor : 1);
+    }
+  }
+
+  const minStockCell = decimal('minStock', 'Stock mínimo');
+  const maxStockCell = decimal('maxStock', 'Stock máximo');
+  const reorderCell = decimal('reorderQuantity', 'Comprar de a');
+  if (validUnit && (minStockCell !== undefined || maxStockCell !== undefined || reorderCell !== undefined || unitCell)) {
+    const pick = (value: number | null | undefined, current: Prisma.Decimal | null | undefined): number | null => {
+      if (value !== undefined) {
+        return value;
+      }
+      return current !== null && current !== undefined ? Number(current) : null;
+    };
+    const minStock = pick(minStockCell, existing?.minStock);
+    const maxStock = pick(maxStockCell, existing?.maxStock);
+    const reorderQuantity = pick(reorderCell, existing?.reorderQuantity);
+    attempt(() => validateReorderSettings(unit, minStock, maxStock, reorderQuantity));
+    data.minStock = minStock !== null ? new Prisma.Decimal(minStock) : null;
+    data.maxStock = maxStock !== null ? new Prisma.Decimal(maxStock) : null;
+    data.reorderQuantity = reorderQuantity !== null ? new Prisma.Decimal(reorderQuantity) : null;
+  }
+
+  // El stock no se sobrescribe: la diferencia con el actual entra como ajuste en el kardex
+  let stockChange = 0;
+  const stock = decimal('stock', 'Stock');
+  if (stock !== undefined && stock !== null && validUnit) {
+    if (!isValidQuantity(stock, unit) || stock < 0) {
+      errors.push(`El stock debe ser ${describeQuantity(unit)} mayor o igual a 0`);
+    } else {
+      stockChange = roundQuantity(stock - Number(existing?.stock ?? 0));
+    }
+  } else if (existing && validUnit && unit !== existing.unit && !isValidQuantity(Number(existing.stock), unit)) {
+    errors.push(`La unidad ${unit} es inválida: el stock actual de ${existing.stock} no es ${describeQuantity(unit)}`);
+  }
+
+  const category = cell('category');
+  if (category !== undefined) {
+    data.categoryId = category ? resolveCategory(category, context, errors) : null;
+  }
+  const brand = cell('brand');
+  if (brand !== undefined) {
+    data.brandId = brand ? resolveBrand(brand, context, errors) : null;
+  }
+
+  // Códigos de barras separados por espacios, comas o barras verticales
+  let barcodes: BarcodeInput[] | undefined;
+  const barcodeCell = cell('barcodes');
+  if (barcodeCell !== undefined) {
+    barcodes = [];
+    for (const code of barcodeCell.split(/[\s,|]+/).filter(Boolean)) {
+      attempt(() => {
+        const barcode = validateBarcode({ code });
+        const owner = context.barcodeOwners.get(barcode.code);
+        if (owner && owner.productId !== existing?.id) {
+          throw new Error(`El código de barras ${barcode.code} ya está asignado al producto ${owner.productName}`);
+        }
+        const firstRow = context.barcodeRows.get(barcode.code);
+        if (firstRow !== undefined) {
+          throw new Error(`El código de barras ${barcode.code} está repetido en la fila ${firstRow}`);
+        }
+        context.barcodeRows.set(barcode.code, rowNumber);
+        barcodes?.push(barcode);
+      });
+    }
+  }
+
+  const trackLots = flag('trackLots', 'Maneja lotes');
+  if (trackLots !== undefined) {
+    data.trackLots = trackLots;
+  }
+  const isActive = flag('isActive', 'Activo');
+  if (isActive !== undefined) {
+    data.isActive = isActive;
+  }
+
+  return {
+    result: {
+      row: rowNumber,
+      sku,
+      name: name ?? existing?.name ?? '',
+      action: existing ? 'UPDATE' : 'CREATE',
+      errors
+    },
+    productId: existing?.id ?? null,
+    data,
+    barcodes,
+    stockChange
+  };
+};
+
+/**
+ * Consulta una sola vez lo que necesitan las filas: productos con los SKU del archivo (de cualquier
+ * tenant, el SKU es único en todo el sistema), categorías, marcas y dueños de los códigos de barras
+ */
+const loadImportContext = async (
+  tenantId: string,
+  columns: Map<ImportField, number>,
+  rows: string[][]
+): Promise<ImportContext> => {
+  const valuesOf = (field: ImportField): string[] => {
+    const index = columns.get(field);
+    return index === undefined ? [] : rows.map((cells) => (cells[index] ?? '').trim()).filter(Boolean);
+  };
+  const skus = valuesOf('sku');
+  const codes = valuesOf('barcodes').flatMap((value) => value.split(/[\s,|]+/).filter(Boolean));
+
+  const [products, categories, categoryPaths, brands, barcodes] = await Promise.all([
+    prisma.product.findMany({
+      where: { sku: { in: skus } },
+      select: {
+        id: true,
+        tenantId: true,
+        sku: true,
+        name: true,
+        stock: true,
+        unit: true,
+        purchaseUnit: true,
+        unitsPerPurchaseUnit: true,
+        minStock: true,
+        maxStock: true,
+        reorderQuantity: true
+      }
+    }),
+    prisma.productCategory.findMany({
+      where: { tenantId },
+      select: { id: true, name: true, isActive: true }
+    }),
+    getCategoryPaths(prisma, tenantId),
+    prisma.brand.findMany({
+      where: { tenantId },
+      select: { id: true, name: true, isActive: true }
+    }),
+    prisma.productBarcode.findMany({
+      where: { tenantId, code: { in: codes } },
+      select: { code: true, productId: true, product: { select: { name: true } } }
+    })
+  ]);
+
+  return {
+    tenantId,
+    columns,
+    productsBySku: new Map(products.map(({ sku, ...product }) => [sku ?? '', product])),
+    categories: categories.map((category) => ({ ...category, path: categoryPaths.get(category.id) ?? category.name })),
+    brands,
+    barcodeOwners: new Map(barcodes.map((barcode) => [
+      barcode.code,
+      { productId: barcode.productId, productName: barcode.product.name }
+    ])),
+    skuRows: new Map(),
+    barcodeRows: new Map()
+  };
+};
+
+// ==================== OPERACIONES ====================
+
+/**
+ * Importa productos desde un archivo CSV o Excel (.xlsx) con los encabezados de la exportación
+ * Valida todas las filas antes de guardar: en la vista previa (dryRun) solo informa qué hará con
+ * cada fila y sus errores; al confirmar, crea o actualiza por SKU todos los productos en una sola
+ * transacción, y no guarda nada si alguna fila tiene errores
+ *
+ * @param file - Contenido del archivo
+ * @param tenantId - ID del tenant
+ * @param options - Vista previa y usuario que registra los ajustes de stock
+ * @returns Resultado por fila y resumen
+ */
+export const importProducts = async (
+  file: Buffer,
+  tenantId: string,
+  options: { dryRun: boolean; userId?: string | null }
+): Promise<ProductImportResult> => {
+  const [headers = [], ...lines] = readFileRows(file);
+  const columns = mapColumns(headers);
+
+  // Se conservan los números de fila del archivo, omitiendo las filas vacías
+  const rows = lines
+    .map((cells, index) => ({ cells, rowNumber: index + 2 }))
+    .filter(({ cells }) => cells.some((value) => value.trim() !== ''));
+  if (rows.length === 0) {
+    throw new Error('El archivo no tiene productos: debe tener al menos una fila después de los encabezados');
+  }
+  if (rows.length > PRODUCT_IMPORT_MAX_ROWS) {
+    throw new Error(`El archivo es inválido: se pueden importar hasta ${PRODUCT_IMPORT_MAX_ROWS} productos por archivo`);
+  }
+
+  const context = await loadImportContext(tenantId, columns, rows.map(({ cells }) => cells));
+  const parsed = rows.map(({ cells, rowNumber }) => parseRow(cells, rowNumber, context));
+
+  const withErrors = parsed.filter((row) => row.result.errors.length > 0).length;
+  const result: ProductImportResult = {
+    dryRun: options.dryRun,
+    imported: false,
+    summary: {
+      total: parsed.length,
+      toCreate: parsed.filter((row) => row.result.action === 'CREATE').length,
+      toUpdate: parsed.filter((row) => row.result.action === 'UPDATE').length,
+      withErrors
+    },
+    rows: parsed.map((row) => row.result)
+  };
+  if (options.dryRun || withErrors > 0) {
+    return result;
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      for (const row of parsed) {
+        const productId = row.productId
+          ? (await tx.product.update({ where: { id: row.productId }, data: row.data, select: { id: true } })).id
+          : (await tx.product.create({
+            data: { ...row.data, tenantId, stock: 0 } as Prisma.ProductUncheckedCreateInput,
+            select: { id: true }
+          })).id;
+
+        if (row.barcodes !== undefined) {
+          await replaceProductBarcodes(tx, tenantId, productId, row.barcodes);
+        }
+
+        if (row.stockChange !== 0) {
+          await recordStockMovement(tx, {
+            tenantId,
+            productId,
+            type: 'ADJUSTMENT',
+            quantity: row.stockChange,
+            userId: options.userId,
+            notes: row.productId ? 'Ajuste por importación de productos' : 'Inventario inicial',
+            allowNegative: true
+          });
+        }
+      }
+    }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error('Ya está en uso un producto con este SKU o identificador único');
+    }
+    throw error;
+  }
+
+  return { ...result, imported: true };
+};
+
+/**
+ * Exporta el catálogo filtrado con las mismas columnas que acepta la importación
+ * El stock es el total del producto en todas las bodegas, aunque se filtre por una
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Filtros del listado de productos
+ * @param format - csv o xlsx
+ * @returns Contenido del archivo
+ */
+export const exportProducts = async (
+  tenantId: string,
+  options: ProductFilterOptions,
+  format: ProductFileFormat
+): Promise<Buffer> => {
+  const [products, categoryPaths] = await Promise.all([
+    getAllProducts(tenantId, options),
+    getCategoryPaths(prisma, tenantId)
+  ]);
+
+  const headers = COLUMNS.map((column) => column.header);
+  const rows: CsvValue[][] = products.map((product) => [
+    product.sku,
+    product.name,
+    product.description,
+    Number(product.price),
+    Number(product.cost),
+    product.totalStock,
+    product.taxCategory,
+    product.unit,
+    product.purchaseUnit,
+    product.purchaseUnit ? Number(product.unitsPerPurchaseUnit) : null,
+    product.categoryId ? categoryPaths.get(product.categoryId) ?? product.category?.name : null,
+    product.brand?.name,
+    product.barcodes.map((barcode) => barcode.code).join(' '),
+    product.minStock !== null ? Number(product.minStock) : null,
+    product.maxStock !== null ? Number(product.maxStock) : null,
+    product.reorderQuantity !== null ? Number(product.reorderQuantity) : null,
+    product.trackLots,
+    product.isActive
+  ]);
+
+  return format === 'xlsx'
+    ? toXlsx('Productos', headers, rows)
+    : Buffer.from(toCsv(headers, rows), 'utf8');
+};
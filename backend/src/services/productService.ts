@@ -1,12 +1,33 @@
-import { Prisma } from '@prisma/client';
+import { Prisma, TaxCategory, UnitOfMeasure } from '@prisma/client';
 
 import prisma from '../db';
+import { LOW_STOCK_THRESHOLD } from '../config/constants';
+import { BarcodeInput, findProductIdByCode, replaceProductBarcodes } from './barcodeService';
+import { getCategoryTreeIds } from './categoryService';
+import {
+  KIT_COMPONENT_FIELDS,
+  KitComponentInput,
+  getKitAvailableQuantity,
+  refreshKitCosts,
+  replaceKitComponents,
+  validateKitComponents,
+  validateKitUnit
+} from './kitService';
+import { recordStockMovement } from './stockMovementService';
+import { TAX_CATEGORIES, isTaxCategory } from './taxService';
+import { UNITS_OF_MEASURE, describeQuantity, isUnitOfMeasure, isValidQuantity, roundQuantity } from './unitService';
 
 // ==================== TIPOS E INTERFACES ====================
 
 export type CreateProductDTO = Prisma.ProductUncheckedCreateInput;
 export type UpdateProductDTO = Prisma.ProductUncheckedUpdateInput;
 
+// Los códigos de barras y los componentes de un kit se envían como lista y reemplazan los del producto
+export type UpdateProductInput = Omit<UpdateProductDTO, 'barcodes'> & {
+  barcodes?: BarcodeInput[];
+  components?: KitComponentInput[];
+};
+
 /**
  * Interfaz para crear un producto (sin tenantId, se maneja internamente)
  */
@@ -17,6 +38,20 @@ export interface CreateProductInput {
   price: number;
   cost: number;
   stock?: number;
+  taxCategory?: TaxCategory; // Categoría tributaria (IVA); por defecto tarifa general
+  unit?: UnitOfMeasure; // Unidad de venta y de stock; por defecto unidad
+  purchaseUnit?: UnitOfMeasure | null; // Unidad en que se compra (p. ej. caja), si es distinta a la de venta
+  unitsPerPurchaseUnit?: number; // Unidades de venta por unidad de compra (una caja de 24)
+  categoryId?: string | null;
+  brandId?: string | null;
+  barcodes?: BarcodeInput[]; // EAN-13, UPC o códigos internos leídos por el escáner
+  trackLots?: boolean; // Lleva lote y fecha de vencimiento de sus existencias
+  minStock?: number | null; // Punto de reorden; sin valor se usa LOW_STOCK_THRESHOLD
+  maxStock?: number | null; // Stock al que se repone al comprar
+  reorderQuantity?: number | null; // Múltiplo en que se compra (p. ej. de 12 en 12)
+  preferredSupplierId?: string | null;
+  isKit?: boolean; // Kit (canasta, combo): se vende del stock de sus componentes y su costo es el de ellos
+  components?: KitComponentInput[]; // Componentes del kit
   isActive?: boolean;
 }
 
@@ -28,6 +63,9 @@ export interface ProductFilterOptions {
   onlyInStock?: boolean;
   minStock?: number;
   search?: string;
+  locationId?: string; // Filtra y muestra el stock de una sola bodega
+  categoryId?: string; // Incluye los productos de sus subcategorías
+  brandId?: string;
 }
 
 const BASIC_PRODUCT_FIELDS = {
@@ -39,15 +77,142 @@ const BASIC_PRODUCT_FIELDS = {
   price: true,
   cost: true,
   stock: true,
+  taxCategory: true,
+  unit: true,
+  purchaseUnit: true,
+  unitsPerPurchaseUnit: true,
+  trackLots: true,
+  isKit: true,
+  kitComponents: { select: KIT_COMPONENT_FIELDS, orderBy: { createdAt: 'asc' } },
+  minStock: true,
+  maxStock: true,
+  reorderQuantity: true,
+  preferredSupplierId: true,
+  preferredSupplier: { select: { id: true, businessName: true } },
+  categoryId: true,
+  brandId: true,
+  category: { select: { id: true, name: true } },
+  brand: { select: { id: true, name: true } },
+  barcodes: { select: { id: true, code: true, type: true }, orderBy: { createdAt: 'asc' } },
   isActive: true,
   createdAt: true,
   updatedAt: true
 } as const;
 
+// ==================== UTILIDADES ====================
+
+/**
+ * Valida la unidad de venta y la unidad de compra de un producto
+ * La unidad de compra es opcional; si se indica, debe ser distinta a la de venta y traer
+ * cuántas unidades de venta contiene (expresadas en la unidad de venta)
+ */
+export const validateProductUnits = (
+  unit: unknown,
+  purchaseUnit: unknown,
+  unitsPerPurchaseUnit: number | undefined
+) => {
+  if (!isUnitOfMeasure(unit)) {
+    throw new Error(`La unidad de medida es inválida: use ${UNITS_OF_MEASURE.join(', ')}`);
+  }
+  if (purchaseUnit === null || purchaseUnit === undefined) {
+    return;
+  }
+  if (!isUnitOfMeasure(purchaseUnit)) {
+    throw new Error(`La unidad de compra es inválida: use ${UNITS_OF_MEASURE.join(', ')}`);
+  }
+  if (purchaseUnit === unit) {
+    throw new Error('La unidad de compra es inválida: debe ser distinta a la unidad de venta');
+  }
+  const factor = Number(unitsPerPurchaseUnit ?? 1);
+  if (!isValidQuantity(factor, unit) || factor <= 0) {
+    throw new Error(`Las unidades por ${purchaseUnit} son inválidas: deben ser ${describeQuantity(unit)} mayor a cero`);
+  }
+};
+
+/**
+ * Valida que la categoría y la marca asignadas a un producto existan en el tenant y estén activas
+ */
+const validateCatalogReferences = async (
+  tenantId: string,
+  categoryId: string | null | undefined,
+  brandId: string | null | undefined
+) => {
+  if (categoryId) {
+    const category = await prisma.productCategory.findFirst({
+      where: { id: categoryId, tenantId },
+      select: { name: true, isActive: true }
+    });
+    if (!category) {
+      throw new Error('Categoría no encontrada');
+    }
+    if (!category.isActive) {
+      throw new Error(`La categoría ${category.name} está inactiva`);
+    }
+  }
+  if (brandId) {
+    const brand = await prisma.brand.findFirst({
+      where: { id: brandId, tenantId },
+      select: { name: true, isActive: true }
+    });
+    if (!brand) {
+      throw new Error('Marca no encontrada');
+    }
+    if (!brand.isActive) {
+      throw new Error(`La marca ${brand.name} está inactiva`);
+    }
+  }
+};
+
+/**
+ * Valida el stock mínimo, el stock máximo y la cantidad de reorden de un producto
+ * Son opcionales y se expresan en la unidad de venta; el máximo no puede ser menor al mínimo
+ */
+export const validateReorderSettings = (
+  unit: UnitOfMeasure,
+  minStock: number | null,
+  maxStock: number | null,
+  reorderQuantity: number | null
+) => {
+  if (minStock !== null && (!isValidQuantity(minStock, unit) || minStock < 0)) {
+    throw new Error(`El stock mínimo es inválido: debe ser ${describeQuantity(unit)} mayor o igual a 0`);
+  }
+  if (maxStock !== null && (!isValidQuantity(maxStock, unit) || maxStock < 0)) {
+    throw new Error(`El stock máximo es inválido: debe ser ${describeQuantity(unit)} mayor o igual a 0`);
+  }
+  if (minStock !== null && maxStock !== null && maxStock < minStock) {
+    throw new Error('El stock máximo es inválido: no puede ser menor al stock mínimo');
+  }
+  if (reorderQuantity !== null && (!isValidQuantity(reorderQuantity, unit) || reorderQuantity <= 0)) {
+    throw new Error(`La cantidad de reorden es inválida: debe ser ${describeQuantity(unit)} mayor a cero`);
+  }
+};
+
+/**
+ * Valida que el proveedor preferido de un producto exista en el tenant
+ */
+const validatePreferredSupplier = async (tenantId: string, supplierId: string | null | undefined) => {
+  if (!supplierId) {
+    return;
+  }
+  const supplier = await prisma.supplier.findFirst({
+    where: { id: supplierId, tenantId },
+    select: { id: true }
+  });
+  if (!supplier) {
+    throw new Error('Proveedor no encontrado');
+  }
+};
+
+const toOptionalQuantity = (value: unknown): number | null => {
+  return value === undefined || value === null || value === '' ? null : Number(value);
+};
+
 // ==================== READ OPERATIONS ====================
 
 /**
  * Obtiene todos los productos de un tenant con opciones de filtrado
+ * Cada producto incluye su stock por bodega; si se indica una bodega, los filtros de stock
+ * se aplican sobre esa bodega y stock es la cantidad en ella (totalStock conserva el total)
  * 
  * @param tenantId - ID del tenant
  * @param options - Opciones de filtrado opcionales
@@ -58,7 +223,7 @@ export const getAllProducts = async (
   options: ProductFilterOptions = {}
 ) => {
   try {
-    const { includeInactive = false, onlyInStock = false, minStock, search } = options;
+    const { includeInactive = false, onlyInStock = false, minStock, search, locationId, categoryId, brandId } = options;
 
     const whereConditions: Prisma.ProductWhereInput = {
       tenantId: tenantId
@@ -68,24 +233,44 @@ export const getAllProducts = async (
       whereConditions.isActive = true;
     }
 
+    const stockFilter: Prisma.DecimalFilter = {};
     if (onlyInStock) {
-      whereConditions.stock = {
-        gt: 0
-      };
+      stockFilter.gt = 0;
     }
-
     if (minStock !== undefined) {
-      whereConditions.stock = {
-        ...(whereConditions.stock as Prisma.IntFilter || {}),
-        gte: minStock
-      };
+      stockFilter.gte = minStock;
+    }
+
+    if (locationId) {
+      const location = await prisma.location.findFirst({
+        where: { id: locationId, tenantId },
+        select: { id: true }
+      });
+      if (!location) {
+        throw new Error('Bodega no encontrada');
+      }
+      // Sin existencias registradas en la bodega el producto tiene 0 allí
+      if (onlyInStock || (minStock !== undefined && minStock > 0)) {
+        whereConditions.AND = [{ OR: [{ isKit: true }, { stocks: { some: { locationId, quantity: stockFilter } } }] }];
+      }
+    } else if (onlyInStock || minStock !== undefined) {
+      // Los kits no tienen stock propio: se filtran después de calcular lo que permiten sus componentes
+      whereConditions.AND = [{ OR: [{ isKit: true }, { stock: stockFilter }] }];
+    }
+
+    if (categoryId) {
+      whereConditions.categoryId = { in: await getCategoryTreeIds(prisma, tenantId, categoryId) };
+    }
+    if (brandId) {
+      whereConditions.brandId = brandId;
     }
 
     if (search && search.trim()) {
       whereConditions.OR = [
         { name: { contains: search.trim(), mode: 'insensitive' } },
         { description: { contains: search.trim(), mode: 'insensitive' } },
-        { sku: { contains: search.trim(), mode: 'insensitive' } }
+        { sku: { contains: search.trim(), mode: 'insensitive' } },
+        { barcodes: { some: { code: { contains: search.trim() } } } }
       ];
     }
 
@@ -100,16 +285,77 @@ export const getAllProducts = async (
         price: true,
         cost: true,
         stock: true,
+        taxCategory: true,
+        unit: true,
+        purchaseUnit: true,
+        unitsPerPurchaseUnit: true,
+        trackLots: true,
+        isKit: true,
+        kitComponents: { select: KIT_COMPONENT_FIELDS, orderBy: { createdAt: 'asc' } },
+        minStock: true,
+        maxStock: true,
+        reorderQuantity: true,
+        preferredSupplierId: true,
+        preferredSupplier: { select: { id: true, businessName: true } },
+        categoryId: true,
+        brandId: true,
+        category: { select: { id: true, name: true } },
+        brand: { select: { id: true, name: true } },
+        barcodes: { select: { id: true, code: true, type: true }, orderBy: { createdAt: 'asc' } },
         isActive: true,
         createdAt: true,
-        updatedAt: true
+        updatedAt: true,
+        stocks: {
+          select: {
+            locationId: true,
+            quantity: true,
+            location: { select: { name: true } }
+          },
+          orderBy: { location: { name: 'asc' } }
+        }
       },
       orderBy: {
         createdAt: 'desc'
       }
     });
 
-    return products;
+    const result = products.map(({ stocks, ...product }) => {
+      // Un kit tiene disponibles los kits completos que permiten las existencias de sus componentes
+      const kitLocations = new Map(
+        product.kitComponents.flatMap((item) => item.component.stocks.map((stock) => [stock.locationId, stock.location.name] as const))
+      );
+      const stockByLocation = product.isKit
+        ? [...kitLocations]
+          .map(([id, name]) => ({
+            locationId: id,
+            locationName: name,
+            quantity: getKitAvailableQuantity(product.kitComponents, id)
+          }))
+          .filter((stock) => stock.quantity > 0)
+          .sort((a, b) => a.locationName.localeCompare(b.locationName))
+        : stocks.map((stock) => ({
+          locationId: stock.locationId,
+          locationName: stock.location.name,
+          quantity: Number(stock.quantity)
+        }));
+      const totalStock = product.isKit ? getKitAvailableQuantity(product.kitComponents) : Number(product.stock);
+      return {
+        ...product,
+        stock: locationId
+          ? stockByLocation.find((stock) => stock.locationId === locationId)?.quantity ?? 0
+          : totalStock,
+        totalStock,
+        stockByLocation
+      };
+    });
+
+    // Filtros de stock sobre los kits, ya con su disponibilidad calculada
+    return result.filter((product) => {
+      if (!product.isKit) {
+        return true;
+      }
+      return (!onlyInStock || product.stock > 0) && (minStock === undefined || product.stock >= minStock);
+    });
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
       if (error.code === 'P2022') {
@@ -147,6 +393,23 @@ export const getProductById = async (
         price: true,
         cost: true,
         stock: true,
+        taxCategory: true,
+        unit: true,
+        purchaseUnit: true,
+        unitsPerPurchaseUnit: true,
+        trackLots: true,
+        isKit: true,
+        kitComponents: { select: KIT_COMPONENT_FIELDS, orderBy: { createdAt: 'asc' } },
+        minStock: true,
+        maxStock: true,
+        reorderQuantity: true,
+        preferredSupplierId: true,
+        preferredSupplier: { select: { id: true, businessName: true } },
+        categoryId: true,
+        brandId: true,
+        category: { select: { id: true, name: true } },
+        brand: { select: { id: true, name: true } },
+        barcodes: { select: { id: true, code: true, type: true }, orderBy: { createdAt: 'asc' } },
         isActive: true,
         createdAt: true,
         updatedAt: true
@@ -194,6 +457,23 @@ export const getProductBySku = async (
         price: true,
         cost: true,
         stock: true,
+        taxCategory: true,
+        unit: true,
+        purchaseUnit: true,
+        unitsPerPurchaseUnit: true,
+        trackLots: true,
+        isKit: true,
+        kitComponents: { select: KIT_COMPONENT_FIELDS, orderBy: { createdAt: 'asc' } },
+        minStock: true,
+        maxStock: true,
+        reorderQuantity: true,
+        preferredSupplierId: true,
+        preferredSupplier: { select: { id: true, businessName: true } },
+        categoryId: true,
+        brandId: true,
+        category: { select: { id: true, name: true } },
+        brand: { select: { id: true, name: true } },
+        barcodes: { select: { id: true, code: true, type: true }, orderBy: { createdAt: 'asc' } },
         isActive: true,
         createdAt: true,
         updatedAt: true
@@ -211,6 +491,54 @@ export const getProductBySku = async (
   }
 };
 
+/**
+ * Busca un producto por código de barras o SKU, para la lectura con escáner en el POS
+ * Si se indica una bodega, stock es la cantidad en ella (totalStock conserva el total)
+ *
+ * @param code - Código leído
+ * @param tenantId - ID del tenant
+ * @param locationId - Bodega de la que se muestra el stock (opcional)
+ * @returns Producto o null si ningún producto tiene ese código
+ */
+export const getProductByCode = async (
+  code: string,
+  tenantId: string,
+  locationId?: string
+) => {
+  const productId = await findProductIdByCode(prisma, tenantId, code);
+  if (!productId) {
+    return null;
+  }
+
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: {
+      ...BASIC_PRODUCT_FIELDS,
+      stocks: locationId
+        ? { where: { locationId }, select: { quantity: true } }
+        : false
+    }
+  });
+  if (!product) {
+    return null;
+  }
+
+  const { stocks, ...fields } = product;
+  // Un kit tiene disponibles los kits completos que permiten las existencias de sus componentes
+  if (fields.isKit) {
+    return {
+      ...fields,
+      stock: getKitAvailableQuantity(fields.kitComponents, locationId),
+      totalStock: getKitAvailableQuantity(fields.kitComponents)
+    };
+  }
+  return {
+    ...fields,
+    stock: locationId ? Number(stocks?.[0]?.quantity ?? 0) : Number(fields.stock),
+    totalStock: Number(fields.stock)
+  };
+};
+
 // ==================== CREATE OPERATIONS ====================
 
 /**
@@ -219,11 +547,13 @@ export const getProductBySku = async (
  * 
  * @param data - Datos del producto
  * @param tenantId - ID del tenant
+ * @param userId - Usuario que registra el inventario inicial
  * @returns Producto creado
  */
 export const createProduct = async (
   data: CreateProductInput,
-  tenantId: string
+  tenantId: string,
+  userId?: string | null
 ) => {
   try {
     let tenant = await prisma.tenant.findUnique({
@@ -254,6 +584,19 @@ export const createProduct = async (
       throw new Error('El costo del producto es requerido y debe ser mayor o igual a 0');
     }
 
+    if (data.taxCategory !== undefined && !isTaxCategory(data.taxCategory)) {
+      throw new Error(`La categoría tributaria es inválida: use ${TAX_CATEGORIES.join(', ')}`);
+    }
+
+    const unit = data.unit ?? 'UNIT';
+    validateProductUnits(unit, data.purchaseUnit, data.unitsPerPurchaseUnit);
+    const minStock = toOptionalQuantity(data.minStock);
+    const maxStock = toOptionalQuantity(data.maxStock);
+    const reorderQuantity = toOptionalQuantity(data.reorderQuantity);
+    validateReorderSettings(unit, minStock, maxStock, reorderQuantity);
+    await validateCatalogReferences(tenantId, data.categoryId, data.brandId);
+    await validatePreferredSupplier(tenantId, data.preferredSupplierId);
+
     if (data.sku && data.sku.trim()) {
       const existingProduct = await prisma.product.findUnique({
         where: { sku: data.sku.trim() },
@@ -265,30 +608,108 @@ export const createProduct = async (
       }
     }
 
-    const newProduct = await prisma.product.create({
-      data: {
-        tenantId: tenantId,
-        name: data.name.trim(),
-        sku: data.sku?.trim() || null,
-        description: data.description?.trim() || null,
-        price: new Prisma.Decimal(data.price),
-        cost: new Prisma.Decimal(data.cost),
-        stock: data.stock ?? 0,
-        isActive: data.isActive ?? true
-      },
-      select: {
-        id: true,
-        tenantId: true,
-        name: true,
-        sku: true,
-        description: true,
-        price: true,
-        cost: true,
-        stock: true,
-        isActive: true,
-        createdAt: true,
-        updatedAt: true
+    const initialStock = data.stock ?? 0;
+    if (!isValidQuantity(initialStock, unit)) {
+      throw new Error(`El stock inicial es inválido: debe ser ${describeQuantity(unit)}`);
+    }
+
+    // Un kit no lleva stock ni lotes propios: vende las existencias de sus componentes
+    const isKit = data.isKit ?? false;
+    if (isKit) {
+      validateKitUnit(unit);
+      if (data.trackLots) {
+        throw new Error('Un kit no maneja lotes: los lotes se llevan en sus componentes');
+      }
+      if (initialStock !== 0) {
+        throw new Error('El stock inicial de un kit es inválido: su stock es el que permiten sus componentes');
+      }
+    } else if (data.components && data.components.length > 0) {
+      throw new Error('Solo los kits tienen componentes: marque el producto como kit');
+    }
+    const components = isKit ? await validateKitComponents(prisma, tenantId, null, data.components) : [];
+
+    // El stock inicial entra como ajuste en el kardex del producto
+    const newProduct = await prisma.$transaction(async (tx) => {
+      const product = await tx.product.create({
+        data: {
+          tenantId: tenantId,
+          name: data.name.trim(),
+          sku: data.sku?.trim() || null,
+          description: data.description?.trim() || null,
+          price: new Prisma.Decimal(data.price),
+          cost: new Prisma.Decimal(data.cost),
+          stock: 0,
+          taxCategory: data.taxCategory ?? 'STANDARD',
+          unit,
+          purchaseUnit: data.purchaseUnit ?? null,
+          unitsPerPurchaseUnit: new Prisma.Decimal(data.purchaseUnit ? data.unitsPerPurchaseUnit ?? 1 : 1),
+          categoryId: data.categoryId || null,
+          brandId: data.brandId || null,
+          trackLots: data.trackLots ?? false,
+          isKit,
+          minStock: minStock !== null ? new Prisma.Decimal(minStock) : null,
+          maxStock: maxStock !== null ? new Prisma.Decimal(maxStock) : null,
+          reorderQuantity: reorderQuantity !== null ? new Prisma.Decimal(reorderQuantity) : null,
+          preferredSupplierId: data.preferredSupplierId || null,
+          isActive: data.isActive ?? true
+        },
+        select: { id: true }
+      });
+
+      if (data.barcodes && data.barcodes.length > 0) {
+        await replaceProductBarcodes(tx, tenantId, product.id, data.barcodes);
+      }
+
+      // El costo del kit es el de sus componentes
+      if (isKit) {
+        await replaceKitComponents(tx, product.id, components);
+      }
+
+      if (initialStock !== 0) {
+        await recordStockMovement(tx, {
+          tenantId,
+          productId: product.id,
+          type: 'ADJUSTMENT',
+          quantity: initialStock,
+          userId,
+          notes: 'Inventario inicial',
+          allowNegative: true
+        });
       }
+
+      return tx.product.findUniqueOrThrow({
+        where: { id: product.id },
+        select: {
+          id: true,
+          tenantId: true,
+          name: true,
+          sku: true,
+          description: true,
+          price: true,
+          cost: true,
+          stock: true,
+          taxCategory: true,
+          unit: true,
+          purchaseUnit: true,
+          unitsPerPurchaseUnit: true,
+          trackLots: true,
+          isKit: true,
+          kitComponents: { select: KIT_COMPONENT_FIELDS, orderBy: { createdAt: 'asc' } },
+          minStock: true,
+          maxStock: true,
+          reorderQuantity: true,
+          preferredSupplierId: true,
+          preferredSupplier: { select: { id: true, businessName: true } },
+          categoryId: true,
+          brandId: true,
+          category: { select: { id: true, name: true } },
+          brand: { select: { id: true, name: true } },
+          barcodes: { select: { id: true, code: true, type: true }, orderBy: { createdAt: 'asc' } },
+          isActive: true,
+          createdAt: true,
+          updatedAt: true
+        }
+      });
     });
 
     return newProduct;
@@ -321,24 +742,40 @@ export const createProduct = async (
  * @param id - ID del producto
  * @param data - Datos a actualizar
  * @param tenantId - ID del tenant
+ * @param userId - Usuario que ajusta el stock (queda en el kardex)
  * @returns Producto actualizado
  */
 export const updateProduct = async (
   id: string,
-  data: UpdateProductDTO,
-  tenantId: string
+  data: UpdateProductInput,
+  tenantId: string,
+  userId?: string | null
 ) => {
   try {
     const existingProduct = await prisma.product.findUnique({
       where: { id },
-      select: { id: true, tenantId: true }
+      select: {
+        id: true,
+        tenantId: true,
+        stock: true,
+        unit: true,
+        purchaseUnit: true,
+        unitsPerPurchaseUnit: true,
+        minStock: true,
+        maxStock: true,
+        reorderQuantity: true,
+        trackLots: true,
+        isKit: true,
+        _count: { select: { usedInKits: true, invoiceItems: true, stockMovements: true, purchaseItems: true } }
+      }
     });
 
     if (!existingProduct || existingProduct.tenantId !== tenantId) {
       throw new Error('Product not found');
     }
 
-    const updateData: UpdateProductDTO = { ...data };
+    const { barcodes, components, ...fields } = data;
+    const updateData: UpdateProductDTO = { ...fields };
 
     if (data.price !== undefined) {
       if (typeof data.price === 'number' && data.price < 0) {
@@ -354,6 +791,46 @@ export const updateProduct = async (
       updateData.cost = new Prisma.Decimal(data.cost as number);
     }
 
+    if (data.taxCategory !== undefined && !isTaxCategory(data.taxCategory)) {
+      throw new Error(`La categoría tributaria es inválida: use ${TAX_CATEGORIES.join(', ')}`);
+    }
+
+    // Cambiar la unidad de venta o de compra revalida el conjunto completo de unidades
+    const unit = (data.unit ?? existingProduct.unit) as UnitOfMeasure;
+    if (data.unit !== undefined || data.purchaseUnit !== undefined || data.unitsPerPurchaseUnit !== undefined) {
+      const purchaseUnit = data.purchaseUnit !== undefined ? data.purchaseUnit : existingProduct.purchaseUnit;
+      const factor = data.unitsPerPurchaseUnit !== undefined
+        ? Number(data.unitsPerPurchaseUnit)
+        : Number(existingProduct.unitsPerPurchaseUnit);
+      validateProductUnits(unit, purchaseUnit, factor);
+      updateData.purchaseUnit = (purchaseUnit as UnitOfMeasure | null) ?? null;
+      updateData.unitsPerPurchaseUnit = new Prisma.Decimal(purchaseUnit ? factor : 1);
+    }
+
+    // El stock mínimo, máximo y la cantidad de reorden se validan juntos y en la unidad vigente
+    if (data.minStock !== undefined || data.maxStock !== undefined || data.reorderQuantity !== undefined || data.unit !== undefined) {
+      const minStock = toOptionalQuantity(data.minStock !== undefined ? data.minStock : existingProduct.minStock);
+      const maxStock = toOptionalQuantity(data.maxStock !== undefined ? data.maxStock : existingProduct.maxStock);
+      const reorderQuantity = toOptionalQuantity(
+        data.reorderQuantity !== undefined ? data.reorderQuantity : existingProduct.reorderQuantity
+      );
+      validateReorderSettings(unit, minStock, maxStock, reorderQuantity);
+      updateData.minStock = minStock !== null ? new Prisma.Decimal(minStock) : null;
+      updateData.maxStock = maxStock !== null ? new Prisma.Decimal(maxStock) : null;
+      updateData.reorderQuantity = reorderQuantity !== null ? new Prisma.Decimal(reorderQuantity) : null;
+    }
+
+    if (data.preferredSupplierId !== undefined) {
+      updateData.preferredSupplierId = data.preferredSupplierId ? String(data.preferredSupplierId) : null;
+      await validatePreferredSupplier(tenantId, updateData.preferredSupplierId as string | null);
+    }
+
+    if (data.categoryId !== undefined || data.brandId !== undefined) {
+      updateData.categoryId = data.categoryId ? String(data.categoryId) : data.categoryId;
+      updateData.brandId = data.brandId ? String(data.brandId) : data.brandId;
+      await validateCatalogReferences(tenantId, updateData.categoryId as string | null, updateData.brandId as string | null);
+    }
+
     if (data.name !== undefined) {
       if (!data.name || !String(data.name).trim()) {
         throw new Error('El nombre del producto no puede estar vacío');
@@ -384,22 +861,120 @@ export const updateProduct = async (
       delete updateData.isSynced;
     }
 
-    const updatedProduct = await prisma.product.update({
-      where: { id },
-      data: updateData,
-      select: {
-        id: true,
-        tenantId: true,
-        name: true,
-        sku: true,
-        description: true,
-        price: true,
-        cost: true,
-        stock: true,
-        isActive: true,
-        createdAt: true,
-        updatedAt: true
+    // El stock no se sobrescribe: la diferencia se registra como ajuste en el kardex
+    let stockAdjustment = 0;
+    if ('stock' in updateData) {
+      const newStock = Number(updateData.stock);
+      delete updateData.stock;
+      if (!isValidQuantity(newStock, unit) || newStock < 0) {
+        throw new Error(`El stock debe ser ${describeQuantity(unit)} mayor o igual a 0`);
+      }
+      stockAdjustment = roundQuantity(newStock - Number(existingProduct.stock));
+    } else if (unit !== existingProduct.unit && !isValidQuantity(Number(existingProduct.stock), unit)) {
+      throw new Error(`La unidad ${unit} es inválida: el stock actual de ${existingProduct.stock} no es ${describeQuantity(unit)}`);
+    }
+
+    // Un kit no lleva stock ni lotes propios y su costo es el de sus componentes
+    const isKit = data.isKit !== undefined ? Boolean(data.isKit) : existingProduct.isKit;
+    // Ventas, kardex y compras se interpretan según si el producto es kit: con historial no se puede convertir
+    if (isKit !== existingProduct.isKit) {
+      const { invoiceItems, stockMovements, purchaseItems } = existingProduct._count;
+      if (invoiceItems > 0 || stockMovements > 0 || purchaseItems > 0) {
+        throw new Error(
+          existingProduct.isKit
+            ? 'El kit ya tiene ventas registradas: cree un producto nuevo en lugar de quitarle la marca de kit'
+            : 'El producto ya tiene ventas, compras o movimientos de inventario: cree un kit nuevo en lugar de convertirlo'
+        );
+      }
+    }
+    let kitComponents: Awaited<ReturnType<typeof validateKitComponents>> | null = null;
+    if (isKit) {
+      validateKitUnit(unit);
+      if (data.trackLots !== undefined ? Boolean(data.trackLots) : existingProduct.trackLots) {
+        throw new Error('Un kit no maneja lotes: los lotes se llevan en sus componentes');
       }
+      if (stockAdjustment !== 0) {
+        throw new Error('El stock de un kit es inválido: ajuste el stock de sus componentes');
+      }
+      if (!existingProduct.isKit) {
+        if (Number(existingProduct.stock) !== 0) {
+          throw new Error(`El producto tiene ${existingProduct.stock} en stock: déjelo en 0 antes de convertirlo en kit`);
+        }
+        if (existingProduct._count.usedInKits > 0) {
+          throw new Error('El producto es componente de otros kits: un kit no puede contener otros kits');
+        }
+      }
+      if (components !== undefined || !existingProduct.isKit) {
+        kitComponents = await validateKitComponents(prisma, tenantId, id, components);
+      }
+      delete updateData.cost;
+    } else if (components && components.length > 0) {
+      throw new Error('Solo los kits tienen componentes: marque el producto como kit');
+    }
+
+    const updatedProduct = await prisma.$transaction(async (tx) => {
+      if (stockAdjustment !== 0) {
+        await recordStockMovement(tx, {
+          tenantId,
+          productId: id,
+          type: 'ADJUSTMENT',
+          quantity: stockAdjustment,
+          userId,
+          notes: 'Ajuste manual de stock'
+        });
+      }
+
+      if (barcodes !== undefined) {
+        await replaceProductBarcodes(tx, tenantId, id, barcodes);
+      }
+
+      if (kitComponents) {
+        await replaceKitComponents(tx, id, kitComponents);
+      } else if (!isKit && existingProduct.isKit) {
+        await tx.productKitComponent.deleteMany({ where: { kitId: id } });
+      }
+
+      const product = await tx.product.update({
+        where: { id },
+        data: updateData,
+        select: {
+          id: true,
+          tenantId: true,
+          name: true,
+          sku: true,
+          description: true,
+          price: true,
+          cost: true,
+          stock: true,
+          taxCategory: true,
+          unit: true,
+          purchaseUnit: true,
+          unitsPerPurchaseUnit: true,
+          trackLots: true,
+          isKit: true,
+          kitComponents: { select: KIT_COMPONENT_FIELDS, orderBy: { createdAt: 'asc' } },
+          minStock: true,
+          maxStock: true,
+          reorderQuantity: true,
+          preferredSupplierId: true,
+          preferredSupplier: { select: { id: true, businessName: true } },
+          categoryId: true,
+          brandId: true,
+          category: { select: { id: true, name: true } },
+          brand: { select: { id: true, name: true } },
+          barcodes: { select: { id: true, code: true, type: true }, orderBy: { createdAt: 'asc' } },
+          isActive: true,
+          createdAt: true,
+          updatedAt: true
+        }
+      });
+
+      // Los kits que usan el producto como componente cambian de costo con él
+      if (updateData.cost !== undefined) {
+        await refreshKitCosts(tx, [id]);
+      }
+
+      return product;
     });
 
     return updatedProduct;
@@ -430,15 +1005,16 @@ export const updateProduct = async (
 
 /**
  * Elimina un producto
+ * Si ya tiene movimientos de inventario se desactiva en lugar de eliminarlo para conservar su kardex
  * 
  * @param id - ID del producto
  * @param tenantId - ID del tenant
- * @returns ID del producto eliminado
+ * @returns ID del producto e indicador de si solo se desactivó
  */
 export const deleteProduct = async (
   id: string,
   tenantId: string
-): Promise<{ id: string }> => {
+): Promise<{ id: string; deactivated: boolean }> => {
   try {
     const existingProduct = await prisma.product.findUnique({
       where: { id },
@@ -449,11 +1025,34 @@ export const deleteProduct = async (
       throw new Error('Product not found');
     }
 
+    const kits = await prisma.productKitComponent.findMany({
+      where: { componentId: id },
+      select: { kit: { select: { name: true } } }
+    });
+    if (kits.length > 0) {
+      throw new Error(
+        `El producto es componente del kit ${kits.map((item) => item.kit.name).join(', ')}: quítelo del kit antes de eliminarlo`
+      );
+    }
+
+    // El kardex y las ventas de kits se conservan para auditoría y devoluciones: con historial solo se desactiva
+    const history = await prisma.product.findUnique({
+      where: { id },
+      select: { _count: { select: { stockMovements: true, invoiceItemComponents: true } } }
+    });
+    if (history && (history._count.stockMovements > 0 || history._count.invoiceItemComponents > 0)) {
+      await prisma.product.update({
+        where: { id },
+        data: { isActive: false }
+      });
+      return { id, deactivated: true };
+    }
+
     await prisma.product.delete({
       where: { id }
     });
 
-    return { id };
+    return { id, deactivated: false };
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
       if (error.code === 'P2025') {
@@ -478,33 +1077,34 @@ export const deleteProduct = async (
  * @param id - ID del producto
  * @param stock - Nuevo valor de stock
  * @param tenantId - ID del tenant
+ * @param userId - Usuario que registra el ajuste en el kardex
  * @returns Producto actualizado
  */
 export const updateProductStock = async (
   id: string,
   stock: number,
-  tenantId: string
+  tenantId: string,
+  userId?: string | null
 ) => {
-  return updateProduct(id, { stock }, tenantId);
+  return updateProduct(id, { stock }, tenantId, userId);
 };
 
 /**
- * Obtiene productos con stock bajo
- * 
+ * Obtiene productos con stock bajo: los que están en su punto de reorden o por debajo, incluidos los agotados
+ *
  * @param tenantId - ID del tenant
- * @param threshold - Umbral de stock bajo (default: 10)
+ * @param threshold - Punto de reorden de los productos sin stock mínimo propio (default: LOW_STOCK_THRESHOLD)
  * @returns Array de productos con stock bajo
  */
 export const getLowStockProducts = async (
   tenantId: string,
-  threshold: number = 10
+  threshold: number = LOW_STOCK_THRESHOLD
 ) => {
   return getAllProducts(tenantId, {
     onlyInStock: false,
-    minStock: 0,
     includeInactive: false
-  }).then(products => 
-    products.filter(p => p.stock <= threshold && p.stock > 0)
+  }).then(products =>
+    products.filter(p => Number(p.stock) <= (p.minStock !== null ? Number(p.minStock) : threshold))
   );
 };
 
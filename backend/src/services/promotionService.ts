@@ -0,0 +1,493 @@
+// backend/src/services/promotionService.ts
+// Servicio de promociones y descuentos - 2x1, lleve X reciba Y, % por categoría y horas felices evaluadas en cada venta
+
+import { DiscountType, Prisma, PromotionType } from '@prisma/client';
+
+import prisma from '../db';
+import { TIMEZONE_COLOMBIA } from '../config/constants';
+import { roundCurrency } from './accountingService';
+import { getCategoryTreeIds } from './categoryService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Interfaz para crear o actualizar una promoción (sin tenantId, se maneja internamente)
+ */
+export interface PromotionInput {
+  name?: string;
+  type?: PromotionType;
+  productId?: string | null; // Producto de la promoción
+  categoryId?: string | null; // Categoría de la promoción (incluye sus subcategorías)
+  percentage?: number | null; // PERCENTAGE: 15 es 15% de descuento
+  buyQuantity?: number | null; // BUY_X_GET_Y: unidades que se pagan (2x1 es 1)
+  getQuantity?: number | null; // BUY_X_GET_Y: unidades de regalo (2x1 es 1)
+  startDate?: string | null; // AAAA-MM-DD
+  endDate?: string | null; // AAAA-MM-DD inclusive
+  daysOfWeek?: number[]; // 0 = domingo ... 6 = sábado; vacío es todos los días
+  startTime?: string | null; // HH:MM hora de Colombia
+  endTime?: string | null; // HH:MM hora de Colombia, sin incluir
+  isActive?: boolean;
+}
+
+// Opciones del listado de promociones
+export interface PromotionFilterOptions {
+  includeInactive?: boolean;
+}
+
+// Descuento manual de una línea o de la factura
+export interface DiscountInput {
+  type?: DiscountType | null;
+  value?: number | null;
+}
+
+// Promoción vigente lista para evaluar contra las líneas de una venta
+export interface ActivePromotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  productId: string | null;
+  categoryIds: string[] | null; // Categoría de la promoción y sus subcategorías
+  percentage: number;
+  buyQuantity: number;
+  getQuantity: number;
+}
+
+// Línea de venta a la que se le busca promoción
+export interface PromotionLine {
+  productId: string;
+  categoryId: string | null;
+  quantity: number;
+  unitPrice: number;
+  amount: number; // Precio por cantidad antes de descuentos
+}
+
+export const PROMOTION_TYPES = Object.values(PromotionType);
+export const DISCOUNT_TYPES = Object.values(DiscountType);
+
+const PROMOTION_FIELDS = {
+  id: true,
+  tenantId: true,
+  name: true,
+  type: true,
+  productId: true,
+  categoryId: true,
+  percentage: true,
+  buyQuantity: true,
+  getQuantity: true,
+  startDate: true,
+  endDate: true,
+  daysOfWeek: true,
+  startTime: true,
+  endTime: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Día (AAAA-MM-DD), día de la semana y hora (HH:MM) de una fecha en zona horaria de Colombia
+ */
+const getColombiaClock = (date: Date): { day: string; dayOfWeek: number; time: string } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: TIMEZONE_COLOMBIA,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value || '';
+  const dayNames: { [key: string]: number } = {
+    'Sun': 0, 'Mon': 1, 'Tue': 2, 'Wed': 3, 'Thu': 4, 'Fri': 5, 'Sat': 6
+  };
+
+  return {
+    day: `${part('year')}-${part('month')}-${part('day')}`,
+    dayOfWeek: dayNames[part('weekday')] ?? 0,
+    time: `${part('hour')}:${part('minute')}`
+  };
+};
+
+/**
+ * Convierte un día AAAA-MM-DD al inicio de ese día en Colombia (UTC-5)
+ */
+const parsePromotionDate = (value: string | null | undefined, label: string): Date | null => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const day = String(value).slice(0, 10);
+  const date = new Date(`${day}T00:00:00-05:00`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || Number.isNaN(date.getTime())) {
+    throw new Error(`La fecha ${label} de la promoción es inválida: use el formato AAAA-MM-DD`);
+  }
+  return date;
+};
+
+/**
+ * Indica si una promoción aplica en un momento: dentro de sus fechas, en uno de sus días
+ * de la semana y dentro de su franja horaria (una franja 22:00-02:00 cruza la medianoche)
+ */
+const isPromotionOpen = (
+  promotion: { startDate: Date | null; endDate: Date | null; daysOfWeek: number[]; startTime: string | null; endTime: string | null },
+  at: Date
+): boolean => {
+  const clock = getColombiaClock(at);
+  if (promotion.startDate && clock.day < getColombiaClock(promotion.startDate).day) {
+    return false;
+  }
+  if (promotion.endDate && clock.day > getColombiaClock(promotion.endDate).day) {
+    return false;
+  }
+  if (promotion.daysOfWeek.length > 0 && !promotion.daysOfWeek.includes(clock.dayOfWeek)) {
+    return false;
+  }
+  if (promotion.startTime && promotion.endTime) {
+    return promotion.startTime < promotion.endTime
+      ? clock.time >= promotion.startTime && clock.time < promotion.endTime
+      : clock.time >= promotion.startTime || clock.time < promotion.endTime;
+  }
+  return true;
+};
+
+/**
+ * Promociones activas del tenant que aplican en un momento dado
+ *
+ * @param tx - Cliente de Prisma (o transacción en curso)
+ * @param tenantId - ID del tenant
+ * @param at - Momento de la venta
+ * @returns Promociones vigentes con las categorías que cubren
+ */
+export const getActivePromotions = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  at: Date = new Date()
+): Promise<ActivePromotion[]> => {
+  const promotions = await tx.promotion.findMany({
+    where: { tenantId, isActive: true },
+    select: PROMOTION_FIELDS
+  });
+
+  const active: ActivePromotion[] = [];
+  for (const promotion of promotions.filter((p) => isPromotionOpen(p, at))) {
+    active.push({
+      id: promotion.id,
+      name: promotion.name,
+      type: promotion.type,
+      productId: promotion.productId,
+      categoryIds: promotion.categoryId ? await getCategoryTreeIds(tx, tenantId, promotion.categoryId) : null,
+      percentage: Number(promotion.percentage ?? 0),
+      buyQuantity: promotion.buyQuantity ?? 0,
+      getQuantity: promotion.getQuantity ?? 0
+    });
+  }
+  return active;
+};
+
+/**
+ * Descuento que una promoción le da a una línea (0 si no le aplica)
+ * En lleve X reciba Y se regalan getQuantity unidades por cada grupo completo de buyQuantity + getQuantity
+ */
+const computePromotionDiscount = (promotion: ActivePromotion, line: PromotionLine): number => {
+  if (promotion.productId && promotion.productId !== line.productId) {
+    return 0;
+  }
+  if (promotion.categoryIds && !promotion.categoryIds.includes(line.categoryId ?? '')) {
+    return 0;
+  }
+  if (promotion.type === 'BUY_X_GET_Y') {
+    const groups = Math.floor(line.quantity / (promotion.buyQuantity + promotion.getQuantity));
+    return Math.min(roundCurrency(groups * promotion.getQuantity * line.unitPrice), line.amount);
+  }
+  return roundCurrency(line.amount * promotion.percentage / 100);
+};
+
+/**
+ * Busca la promoción que más descuento le da a una línea (las promociones no se acumulan)
+ *
+ * @param promotions - Promociones vigentes
+ * @param line - Producto, categoría, cantidad y precio de la línea
+ * @returns Promoción aplicada y su descuento, o null si ninguna aplica
+ */
+export const findBestPromotion = (
+  promotions: ActivePromotion[],
+  line: PromotionLine
+): { promotion: ActivePromotion; discount: number } | null => {
+  let best: { promotion: ActivePromotion; discount: number } | null = null;
+  for (const promotion of promotions) {
+    const discount = computePromotionDiscount(promotion, line);
+    if (discount > 0 && (!best || discount > best.discount)) {
+      best = { promotion, discount };
+    }
+  }
+  return best;
+};
+
+/**
+ * Valor de un descuento manual sobre un monto
+ * El porcentaje va de 0 a 100 y el valor fijo no puede superar el monto
+ *
+ * @param amount - Monto sobre el que se aplica
+ * @param discount - Tipo y valor del descuento
+ * @param label - Qué se descuenta, para el mensaje de error
+ * @returns Descuento redondeado a centavos
+ */
+export const computeManualDiscount = (amount: number, discount: DiscountInput, label: string): number => {
+  if (!discount.type) {
+    return 0;
+  }
+  if (!DISCOUNT_TYPES.includes(discount.type)) {
+    throw new Error(`El tipo de descuento ${label} es inválido: use ${DISCOUNT_TYPES.join(', ')}`);
+  }
+  const value = Number(discount.value);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`El descuento ${label} es inválido: debe ser mayor o igual a 0`);
+  }
+  if (discount.type === 'PERCENTAGE') {
+    if (value > 100) {
+      throw new Error(`El descuento ${label} es inválido: el porcentaje no puede superar 100`);
+    }
+    return roundCurrency(amount * value / 100);
+  }
+  if (value > amount) {
+    throw new Error(`El descuento ${label} es inválido: no puede superar ${amount}`);
+  }
+  return roundCurrency(value);
+};
+
+/**
+ * Reparte un descuento entre montos en proporción a cada uno; la última parte absorbe el redondeo
+ *
+ * @param amounts - Montos de las líneas
+ * @param discount - Descuento a repartir (no mayor a la suma de los montos)
+ * @returns Parte del descuento de cada monto
+ */
+export const prorateDiscount = (amounts: number[], discount: number): number[] => {
+  const total = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (discount <= 0 || total <= 0) {
+    return amounts.map(() => 0);
+  }
+  let assigned = 0;
+  return amounts.map((amount, index) => {
+    const share = index === amounts.length - 1
+      ? roundCurrency(discount - assigned)
+      : roundCurrency(discount * amount / total);
+    assigned = roundCurrency(assigned + share);
+    return share;
+  });
+};
+
+/**
+ * Valida y normaliza los datos completos de una promoción
+ */
+const buildPromotionData = async (data: PromotionInput, tenantId: string) => {
+  const name = data.name?.trim();
+  if (!name) {
+    throw new Error('El nombre de la promoción es requerido');
+  }
+  if (!data.type || !PROMOTION_TYPES.includes(data.type)) {
+    throw new Error(`El tipo de promoción es inválido: use ${PROMOTION_TYPES.join(', ')}`);
+  }
+
+  let percentage: Prisma.Decimal | null = null;
+  let buyQuantity: number | null = null;
+  let getQuantity: number | null = null;
+  if (data.type === 'PERCENTAGE') {
+    const value = Number(data.percentage);
+    if (!Number.isFinite(value) || value <= 0 || value > 100) {
+      throw new Error('El porcentaje de la promoción es requerido y debe estar entre 0 y 100');
+    }
+    percentage = new Prisma.Decimal(value);
+  } else {
+    buyQuantity = Number(data.buyQuantity);
+    getQuantity = Number(data.getQuantity);
+    if (!Number.isInteger(buyQuantity) || buyQuantity < 1 || !Number.isInteger(getQuantity) || getQuantity < 1) {
+      throw new Error('Las unidades que se pagan y las de regalo son requeridas y deben ser enteros mayores a cero');
+    }
+  }
+
+  const productId = data.productId || null;
+  const categoryId = data.categoryId || null;
+  if (productId && categoryId) {
+    throw new Error('La promoción es inválida: aplica a un producto o a una categoría, no a ambos');
+  }
+  if (productId) {
+    const product = await prisma.product.findFirst({ where: { id: productId, tenantId }, select: { id: true } });
+    if (!product) {
+      throw new Error('Producto no encontrado');
+    }
+  }
+  if (categoryId) {
+    const category = await prisma.productCategory.findFirst({ where: { id: categoryId, tenantId }, select: { id: true } });
+    if (!category) {
+      throw new Error('Categoría no encontrada');
+    }
+  }
+
+  const startDate = parsePromotionDate(data.startDate, 'inicial');
+  const endDate = parsePromotionDate(data.endDate, 'final');
+  if (startDate && endDate && endDate < startDate) {
+    throw new Error('La fecha final de la promoción es inválida: debe ser igual o posterior a la inicial');
+  }
+
+  const daysOfWeek = [...new Set(data.daysOfWeek ?? [])].sort();
+  if (daysOfWeek.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new Error('Los días de la promoción son inválidos: use 0 (domingo) a 6 (sábado)');
+  }
+
+  const startTime = data.startTime || null;
+  const endTime = data.endTime || null;
+  if ((startTime && !TIME_PATTERN.test(startTime)) || (endTime && !TIME_PATTERN.test(endTime))) {
+    throw new Error('La franja horaria de la promoción es inválida: use el formato HH:MM');
+  }
+  if (Boolean(startTime) !== Boolean(endTime) || (startTime && startTime === endTime)) {
+    throw new Error('La franja horaria de la promoción es inválida: indique una hora inicial y una final distintas');
+  }
+
+  return {
+    name,
+    type: data.type,
+    productId,
+    categoryId,
+    percentage,
+    buyQuantity,
+    getQuantity,
+    startDate,
+    endDate,
+    daysOfWeek,
+    startTime,
+    endTime,
+    isActive: data.isActive ?? true
+  };
+};
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene las promociones de un tenant ordenadas por nombre
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Incluir promociones inactivas
+ * @returns Promociones con su producto o categoría y si aplican en este momento
+ */
+export const getPromotions = async (tenantId: string, options: PromotionFilterOptions = {}) => {
+  const promotions = await prisma.promotion.findMany({
+    where: {
+      tenantId,
+      ...(options.includeInactive ? {} : { isActive: true })
+    },
+    select: {
+      ...PROMOTION_FIELDS,
+      product: { select: { id: true, name: true } },
+      category: { select: { id: true, name: true } },
+      _count: { select: { invoiceItems: true } }
+    },
+    orderBy: { name: 'asc' }
+  });
+
+  const now = new Date();
+  return promotions.map((promotion) => ({
+    ...promotion,
+    isRunning: promotion.isActive && isPromotionOpen(promotion, now)
+  }));
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Crea una promoción
+ *
+ * @param data - Tipo, alcance y vigencia de la promoción
+ * @param tenantId - ID del tenant
+ * @returns Promoción creada
+ */
+export const createPromotion = async (data: PromotionInput, tenantId: string) => {
+  const promotionData = await buildPromotionData(data, tenantId);
+
+  const promotion = await prisma.promotion.create({
+    data: { tenantId, ...promotionData },
+    select: PROMOTION_FIELDS
+  });
+
+  console.log(`✅ [PromotionService] Promoción creada: ${promotion.name} (${promotion.id})`);
+  return promotion;
+};
+
+// ==================== UPDATE OPERATIONS ====================
+
+/**
+ * Actualiza una promoción; los campos no enviados conservan su valor
+ *
+ * @param id - ID de la promoción
+ * @param data - Campos a actualizar
+ * @param tenantId - ID del tenant
+ * @returns Promoción actualizada
+ */
+export const updatePromotion = async (id: string, data: PromotionInput, tenantId: string) => {
+  const existing = await prisma.promotion.findFirst({
+    where: { id, tenantId },
+    select: PROMOTION_FIELDS
+  });
+  if (!existing) {
+    throw new Error('Promoción no encontrada');
+  }
+
+  const toDay = (date: Date | null) => (date ? getColombiaClock(date).day : null);
+  const merged: PromotionInput = {
+    name: existing.name,
+    type: existing.type,
+    productId: existing.productId,
+    categoryId: existing.categoryId,
+    percentage: existing.percentage !== null ? Number(existing.percentage) : null,
+    buyQuantity: existing.buyQuantity,
+    getQuantity: existing.getQuantity,
+    startDate: toDay(existing.startDate),
+    endDate: toDay(existing.endDate),
+    daysOfWeek: existing.daysOfWeek,
+    startTime: existing.startTime,
+    endTime: existing.endTime,
+    isActive: existing.isActive
+  };
+  (Object.keys(data) as Array<keyof PromotionInput>).forEach((key) => {
+    if (data[key] !== undefined) {
+      Object.assign(merged, { [key]: data[key] });
+    }
+  });
+
+  return prisma.promotion.update({
+    where: { id: existing.id },
+    data: await buildPromotionData(merged, tenantId),
+    select: PROMOTION_FIELDS
+  });
+};
+
+// ==================== DELETE OPERATIONS ====================
+
+/**
+ * Elimina una promoción que nunca se aplicó en una venta
+ * Las promociones ya aplicadas se desactivan para conservar el historial de las facturas
+ *
+ * @param id - ID de la promoción
+ * @param tenantId - ID del tenant
+ * @returns ID de la promoción eliminada
+ */
+export const deletePromotion = async (id: string, tenantId: string) => {
+  const promotion = await prisma.promotion.findFirst({
+    where: { id, tenantId },
+    select: { id: true, name: true, _count: { select: { invoiceItems: true } } }
+  });
+  if (!promotion) {
+    throw new Error('Promoción no encontrada');
+  }
+  if (promotion._count.invoiceItems > 0) {
+    throw new Error(`La promoción ${promotion.name} ya se aplicó en ventas: desactívela en lugar de eliminarla`);
+  }
+
+  await prisma.promotion.delete({ where: { id: promotion.id } });
+  return { id: promotion.id };
+};
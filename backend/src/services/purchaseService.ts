@@ -0,0 +1,359 @@
+// backend/src/services/purchaseService.ts
+// Servicio de compras - Recepción de mercancía de proveedores que entra al inventario
+
+import { Prisma, UnitOfMeasure } from '@prisma/client';
+
+import prisma from '../db';
+import { TAX_CATEGORY_RATES } from '../config/constants';
+import { roundCurrency } from './accountingService';
+import { refreshKitCosts } from './kitService';
+import { resolveLocation } from './locationService';
+import { parseExpiryDate } from './lotService';
+import { allocateDocumentNumber } from './sequenceService';
+import { recordStockMovement } from './stockMovementService';
+import { describeQuantity, getConversionFactor, isUnitOfMeasure, isValidQuantity, roundQuantity } from './unitService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+// Línea de una compra: cantidad recibida y costo unitario antes de IVA, ambos en la unidad de la línea
+export interface PurchaseItemInput {
+  productId: string;
+  quantity: number;
+  unitCost: number;
+  unit?: UnitOfMeasure; // Unidad de venta o de compra del producto, por defecto la unidad de venta
+  taxRate?: number; // IVA descontable (%) de la línea, por defecto 0
+  description?: string;
+  lotNumber?: string | null; // Requerido si el producto maneja lotes
+  expiryDate?: string | null; // Vencimiento del lote (AAAA-MM-DD)
+}
+
+/**
+ * Interfaz para registrar una compra (sin tenantId, se maneja internamente)
+ */
+export interface CreatePurchaseInput {
+  supplierId: string;
+  supplierReference?: string | null; // Número de factura o remisión del proveedor
+  receivedAt?: Date | string;
+  locationId?: string | null; // Bodega que recibe la mercancía, por defecto la bodega por defecto
+  notes?: string | null;
+  items: PurchaseItemInput[];
+  createdById?: string | null;
+}
+
+// Filtros del listado de compras
+export interface PurchaseFilterOptions {
+  supplierId?: string;
+  locationId?: string;
+  from?: string;
+  to?: string;
+}
+
+const VALID_TAX_RATES = [...new Set(Object.values(TAX_CATEGORY_RATES))] as number[];
+
+const PURCHASE_FIELDS = {
+  id: true,
+  tenantId: true,
+  supplierId: true,
+  number: true,
+  supplierReference: true,
+  receivedAt: true,
+  locationId: true,
+  subtotal: true,
+  taxTotal: true,
+  total: true,
+  notes: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+const PURCHASE_ITEM_FIELDS = {
+  id: true,
+  purchaseId: true,
+  productId: true,
+  description: true,
+  quantity: true,
+  unit: true,
+  conversionFactor: true,
+  unitCost: true,
+  taxRate: true,
+  taxAmount: true,
+  totalAmount: true,
+  lotNumber: true,
+  expiryDate: true
+} as const;
+
+const SUPPLIER_SUMMARY_FIELDS = {
+  id: true,
+  businessName: true,
+  documentType: true,
+  identification: true,
+  dv: true
+} as const;
+
+/**
+ * Costo promedio ponderado después de recibir una cantidad a un costo dado
+ * Si no había existencias (o el stock era negativo) el costo pasa a ser el de la compra
+ */
+const calculateWeightedAverageCost = (
+  currentStock: number,
+  currentCost: number,
+  receivedQuantity: number,
+  receivedUnitCost: number
+): number => {
+  if (currentStock <= 0) {
+    return roundCurrency(receivedUnitCost);
+  }
+  const totalQuantity = currentStock + receivedQuantity;
+  return roundCurrency((currentStock * currentCost + receivedQuantity * receivedUnitCost) / totalQuantity);
+};
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene las compras de un tenant, las más recientes primero
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Filtros por proveedor y rango de fechas de recepción
+ * @returns Compras con su proveedor y la cantidad de líneas
+ */
+export const getPurchases = async (tenantId: string, options: PurchaseFilterOptions = {}) => {
+  const where: Prisma.PurchaseWhereInput = { tenantId };
+
+  if (options.supplierId) {
+    where.supplierId = options.supplierId;
+  }
+  if (options.locationId) {
+    where.locationId = options.locationId;
+  }
+  if (options.from || options.to) {
+    const receivedAt: Prisma.DateTimeFilter = {};
+    if (options.from) {
+      const from = new Date(options.from);
+      if (Number.isNaN(from.getTime())) {
+        throw new Error('La fecha inicial es inválida');
+      }
+      receivedAt.gte = from;
+    }
+    if (options.to) {
+      const to = new Date(options.to);
+      if (Number.isNaN(to.getTime())) {
+        throw new Error('La fecha final es inválida');
+      }
+      receivedAt.lte = to;
+    }
+    where.receivedAt = receivedAt;
+  }
+
+  return prisma.purchase.findMany({
+    where,
+    select: {
+      ...PURCHASE_FIELDS,
+      supplier: { select: SUPPLIER_SUMMARY_FIELDS },
+      location: { select: { id: true, name: true } },
+      _count: { select: { items: true } }
+    },
+    orderBy: { receivedAt: 'desc' }
+  });
+};
+
+/**
+ * Obtiene una compra con sus líneas
+ *
+ * @param id - ID de la compra
+ * @param tenantId - ID del tenant
+ * @returns Compra o null si no existe
+ */
+export const getPurchaseById = async (id: string, tenantId: string) => {
+  return prisma.purchase.findFirst({
+    where: { id, tenantId },
+    select: {
+      ...PURCHASE_FIELDS,
+      supplier: { select: SUPPLIER_SUMMARY_FIELDS },
+      location: { select: { id: true, name: true } },
+      createdBy: { select: { id: true, fullName: true } },
+      items: {
+        select: {
+          ...PURCHASE_ITEM_FIELDS,
+          product: { select: { id: true, name: true, sku: true } }
+        },
+        orderBy: { createdAt: 'asc' }
+      }
+    }
+  });
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Registra la recepción de una compra
+ * Cada línea entra al inventario como movimiento de compra en el kardex y el costo del producto
+ * se recalcula como promedio ponderado entre las existencias y lo recibido
+ * La mercancía entra a la bodega indicada (o a la bodega por defecto)
+ *
+ * @param data - Proveedor, documento de soporte y líneas recibidas
+ * @param tenantId - ID del tenant
+ * @returns Compra creada con sus líneas
+ */
+export const createPurchase = async (data: CreatePurchaseInput, tenantId: string) => {
+  if (!data.supplierId) {
+    throw new Error('El proveedor de la compra es requerido');
+  }
+  if (!data.items || data.items.length === 0) {
+    throw new Error('La compra debe tener al menos un producto');
+  }
+
+  const receivedAt = data.receivedAt ? new Date(data.receivedAt) : new Date();
+  if (Number.isNaN(receivedAt.getTime())) {
+    throw new Error('La fecha de recepción es inválida');
+  }
+
+  const purchase = await prisma.$transaction(async (tx) => {
+    const supplier = await tx.supplier.findFirst({
+      where: { id: data.supplierId, tenantId },
+      select: { id: true, businessName: true, isActive: true }
+    });
+    if (!supplier) {
+      throw new Error('Proveedor no encontrado');
+    }
+    if (!supplier.isActive) {
+      throw new Error(`El proveedor ${supplier.businessName} está inactivo`);
+    }
+    const location = await resolveLocation(tx, tenantId, data.locationId);
+
+    const lines: Array<{
+      productId: string;
+      description: string;
+      quantity: number;
+      unit: UnitOfMeasure;
+      conversionFactor: number;
+      unitCost: number;
+      taxRate: number;
+      taxAmount: number;
+      totalAmount: number;
+      lotNumber: string | null;
+      expiryDate: Date | null;
+    }> = [];
+
+    for (const item of data.items) {
+      const product = await tx.product.findFirst({
+        where: { id: item.productId, tenantId },
+        select: { id: true, name: true, unit: true, purchaseUnit: true, unitsPerPurchaseUnit: true, trackLots: true }
+      });
+      if (!product) {
+        throw new Error(`Producto con ID ${item.productId} no encontrado`);
+      }
+
+      const unit = item.unit ?? product.unit;
+      if (!isUnitOfMeasure(unit)) {
+        throw new Error(`La unidad de "${product.name}" es inválida`);
+      }
+      // Factor a unidades de venta: una caja de 24 entra al stock como 24 unidades
+      const conversionFactor = getConversionFactor(product, unit);
+      const quantity = Number(item.quantity);
+      if (!isValidQuantity(quantity, unit) || quantity <= 0) {
+        throw new Error(`La cantidad recibida de "${product.name}" es inválida: debe ser ${describeQuantity(unit)} mayor a cero`);
+      }
+      const unitCost = roundCurrency(Number(item.unitCost));
+      if (!Number.isFinite(unitCost) || unitCost < 0) {
+        throw new Error(`El costo unitario de "${product.name}" es inválido: debe ser mayor o igual a 0`);
+      }
+      const taxRate = item.taxRate !== undefined && item.taxRate !== null ? Number(item.taxRate) : 0;
+      if (!VALID_TAX_RATES.includes(taxRate)) {
+        throw new Error(`La tarifa de IVA ${item.taxRate}% es inválida: use ${VALID_TAX_RATES.join('%, ')}%`);
+      }
+
+      // Los productos que manejan lotes se reciben con su número de lote y vencimiento
+      const lotNumber = item.lotNumber?.trim() || null;
+      if (product.trackLots && !lotNumber) {
+        throw new Error(`El número de lote de "${product.name}" es requerido: el producto maneja lotes`);
+      }
+      if (!product.trackLots && (lotNumber || item.expiryDate)) {
+        throw new Error(`El producto ${product.name} no maneja lotes: actívalos en el producto`);
+      }
+
+      const subtotal = roundCurrency(quantity * unitCost);
+      const taxAmount = roundCurrency(subtotal * taxRate / 100);
+
+      lines.push({
+        productId: product.id,
+        description: item.description?.trim() || product.name,
+        quantity,
+        unit,
+        conversionFactor,
+        unitCost,
+        taxRate,
+        taxAmount,
+        totalAmount: roundCurrency(subtotal + taxAmount),
+        lotNumber,
+        expiryDate: parseExpiryDate(item.expiryDate)
+      });
+    }
+
+    const taxTotal = roundCurrency(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+    const total = roundCurrency(lines.reduce((sum, line) => sum + line.totalAmount, 0));
+    const number = await allocateDocumentNumber(tx, tenantId, 'PURCHASE');
+
+    const created = await tx.purchase.create({
+      data: {
+        tenantId,
+        supplierId: supplier.id,
+        number,
+        supplierReference: data.supplierReference?.trim() || null,
+        receivedAt,
+        locationId: location.id,
+        subtotal: roundCurrency(total - taxTotal),
+        taxTotal,
+        total,
+        notes: data.notes?.trim() || null,
+        createdById: data.createdById || null,
+        items: { create: lines }
+      },
+      select: {
+        ...PURCHASE_FIELDS,
+        supplier: { select: SUPPLIER_SUMMARY_FIELDS },
+        location: { select: { id: true, name: true } },
+        items: { select: PURCHASE_ITEM_FIELDS }
+      }
+    });
+
+    for (const line of lines) {
+      // El stock y el costo del producto se llevan en la unidad de venta
+      const stockQuantity = roundQuantity(line.quantity * line.conversionFactor);
+      const stockUnitCost = roundCurrency(line.unitCost / line.conversionFactor);
+
+      // El stock y costo previos se leen antes de recibir la línea para ponderar el nuevo costo
+      const current = await tx.product.findUniqueOrThrow({
+        where: { id: line.productId },
+        select: { stock: true, cost: true }
+      });
+      await recordStockMovement(tx, {
+        tenantId,
+        productId: line.productId,
+        type: 'PURCHASE',
+        quantity: stockQuantity,
+        unitCost: stockUnitCost,
+        userId: data.createdById,
+        purchaseId: created.id,
+        locationId: location.id,
+        notes: `Compra ${number} - ${supplier.businessName}`,
+        lots: line.lotNumber ? [{ lotNumber: line.lotNumber, expiryDate: line.expiryDate, quantity: stockQuantity }] : undefined
+      });
+      await tx.product.update({
+        where: { id: line.productId },
+        data: {
+          cost: new Prisma.Decimal(
+            calculateWeightedAverageCost(Number(current.stock), Number(current.cost), stockQuantity, stockUnitCost)
+          )
+        }
+      });
+    }
+    // Los kits armados con los productos comprados toman su nuevo costo
+    await refreshKitCosts(tx, lines.map((line) => line.productId));
+
+    return created;
+  });
+
+  console.log(`✅ [PurchaseService] Compra registrada: ${purchase.number} (${purchase.id})`);
+  return purchase;
+};
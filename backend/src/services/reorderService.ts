@@ -0,0 +1,302 @@
+// backend/src/services/reorderService.ts
+// Servicio de reposición - Productos en su punto de reorden y cantidades sugeridas de compra según la rotación reciente
+
+import { UnitOfMeasure } from '@prisma/client';
+
+import prisma from '../db';
+import {
+  LOW_STOCK_THRESHOLD,
+  REORDER_COVERAGE_DAYS,
+  REORDER_SALES_WINDOW_DAYS,
+  TIMEZONE_COLOMBIA
+} from '../config/constants';
+import { roundCurrency } from './accountingService';
+import { CsvValue, toCsv } from './csvService';
+import { allowsFractions, roundQuantity } from './unitService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+// Opciones del sugerido de compra
+export interface ReorderOptions {
+  days?: number; // Días de ventas para calcular la rotación
+  coverageDays?: number; // Días de venta que debe cubrir el pedido
+  supplierId?: string; // Solo los productos de este proveedor
+}
+
+// De dónde sale el proveedor sugerido: el preferido del producto o el de su última compra
+export type ReorderSupplierSource = 'PREFERRED' | 'LAST_PURCHASE';
+
+export interface ReorderSuggestion {
+  productId: string;
+  name: string;
+  sku: string | null;
+  unit: UnitOfMeasure;
+  stock: number;
+  reorderPoint: number;
+  maxStock: number | null;
+  reorderQuantity: number | null;
+  soldQuantity: number; // Vendido en la ventana de días
+  dailySales: number;
+  daysOfStock: number | null; // Días que alcanza el stock actual al ritmo de venta (null sin ventas)
+  suggestedQuantity: number; // En la unidad de venta
+  purchaseUnit: UnitOfMeasure | null;
+  purchaseQuantity: number | null; // En la unidad de compra, si el producto tiene una
+  unitCost: number;
+  estimatedCost: number;
+  supplierSource: ReorderSupplierSource | null;
+}
+
+export interface ReorderSupplierGroup {
+  supplier: { id: string; businessName: string } | null; // null: productos sin proveedor conocido
+  items: ReorderSuggestion[];
+  estimatedTotal: number;
+}
+
+export interface ReorderSuggestionsReport {
+  from: string;
+  to: string;
+  salesWindowDays: number;
+  coverageDays: number;
+  totalItems: number;
+  estimatedTotal: number;
+  groups: ReorderSupplierGroup[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ventas reales: facturas emitidas o pagadas
+const SOLD_INVOICE_STATUSES = ['ISSUED', 'PAID'] as const;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Obtiene el día (YYYY-MM-DD) de una fecha en zona horaria de Colombia
+ */
+const toColombiaDay = (date: Date): string => {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: TIMEZONE_COLOMBIA,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+};
+
+const validateDays = (value: number, label: string): number => {
+  if (!Number.isInteger(value) || value < 1 || value > 365) {
+    throw new Error(`La cantidad de días ${label} es inválida: debe ser un entero entre 1 y 365`);
+  }
+  return value;
+};
+
+/**
+ * Redondea hacia arriba la cantidad a comprar: al múltiplo de reorden, a unidades de compra
+ * completas (cajas) o a unidades enteras si el producto no admite fracciones
+ */
+const roundUpPurchase = (
+  quantity: number,
+  product: { unit: UnitOfMeasure; purchaseUnit: UnitOfMeasure | null; unitsPerPurchaseUnit: number; reorderQuantity: number | null }
+): number => {
+  const step = product.reorderQuantity
+    ?? (product.purchaseUnit ? product.unitsPerPurchaseUnit : allowsFractions(product.unit) ? null : 1);
+  if (!step) {
+    return roundQuantity(quantity);
+  }
+  // El redondeo previo evita que residuos de punto flotante sumen un paquete de más
+  return roundQuantity(Math.ceil(roundQuantity(quantity / step)) * step);
+};
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Sugerido de compra: productos activos con stock en su punto de reorden o por debajo (incluidos los agotados)
+ * La cantidad repone hasta el stock máximo del producto o, sin máximo, cubre los días indicados al ritmo
+ * de venta reciente (nunca menos que el punto de reorden). Se agrupa por el proveedor preferido del
+ * producto o, si no tiene, por el proveedor de su última compra
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Ventana de ventas, días a cubrir y proveedor
+ * @returns Sugerido agrupado por proveedor con el costo estimado al costo actual
+ */
+export const getReorderSuggestions = async (
+  tenantId: string,
+  options: ReorderOptions = {}
+): Promise<ReorderSuggestionsReport> => {
+  const salesWindowDays = validateDays(options.days ?? REORDER_SALES_WINDOW_DAYS, 'de ventas');
+  const coverageDays = validateDays(options.coverageDays ?? REORDER_COVERAGE_DAYS, 'a cubrir');
+  const to = new Date();
+  const from = new Date(to.getTime() - salesWindowDays * DAY_MS);
+
+  // Los kits no se compran: se reponen sus componentes
+  const products = await prisma.product.findMany({
+    where: { tenantId, isActive: true, isKit: false },
+    select: {
+      id: true,
+      name: true,
+      sku: true,
+      unit: true,
+      stock: true,
+      cost: true,
+      minStock: true,
+      maxStock: true,
+      reorderQuantity: true,
+      purchaseUnit: true,
+      unitsPerPurchaseUnit: true,
+      preferredSupplier: { select: { id: true, businessName: true } }
+    },
+    orderBy: { name: 'asc' }
+  });
+
+  const pending = products.filter((product) => {
+    const reorderPoint = product.minStock !== null ? Number(product.minStock) : LOW_STOCK_THRESHOLD;
+    return Number(product.stock) <= reorderPoint;
+  });
+  const pendingIds = pending.map((product) => product.id);
+
+  const soldInvoice = { tenantId, status: { in: [...SOLD_INVOICE_STATUSES] }, issueDate: { gte: from, lte: to } };
+  const [sales, kitSales, lastPurchases] = await Promise.all([
+    prisma.invoiceItem.groupBy({
+      by: ['productId'],
+      where: { productId: { in: pendingIds }, invoice: soldInvoice },
+      _sum: { quantity: true }
+    }),
+    // Los kits vendidos también consumen sus componentes: cantidad por kit por kits vendidos en la línea
+    prisma.invoiceItemComponent.findMany({
+      where: { productId: { in: pendingIds }, invoiceItem: { invoice: soldInvoice } },
+      select: { productId: true, quantity: true, invoiceItem: { select: { quantity: true } } }
+    }),
+    // Proveedor de la compra más reciente de cada producto, para los que no tienen proveedor preferido
+    prisma.purchaseItem.findMany({
+      where: {
+        productId: { in: pending.filter((product) => !product.preferredSupplier).map((product) => product.id) },
+        purchase: { tenantId }
+      },
+      select: { productId: true, purchase: { select: { supplier: { select: { id: true, businessName: true } } } } },
+      orderBy: { purchase: { receivedAt: 'desc' } },
+      distinct: ['productId']
+    })
+  ]);
+
+  const soldByProduct = new Map(sales.map((row) => [row.productId, Number(row._sum.quantity ?? 0)]));
+  for (const component of kitSales) {
+    const sold = Number(component.quantity) * Number(component.invoiceItem.quantity);
+    soldByProduct.set(component.productId, (soldByProduct.get(component.productId) ?? 0) + sold);
+  }
+  const lastSupplierByProduct = new Map(lastPurchases.map((item) => [item.productId, item.purchase.supplier]));
+
+  const groups = new Map<string, ReorderSupplierGroup>();
+  for (const product of pending) {
+    const stock = Number(product.stock);
+    const reorderPoint = product.minStock !== null ? Number(product.minStock) : LOW_STOCK_THRESHOLD;
+    const maxStock = product.maxStock !== null ? Number(product.maxStock) : null;
+    const reorderQuantity = product.reorderQuantity !== null ? Number(product.reorderQuantity) : null;
+    const soldQuantity = roundQuantity(soldByProduct.get(product.id) ?? 0);
+    const dailySales = roundQuantity(soldQuantity / salesWindowDays);
+
+    const target = maxStock ?? Math.max(reorderPoint, dailySales * coverageDays);
+    // En el punto de reorden exacto y sin rotación se sugiere al menos un paquete
+    const needed = target > stock ? target - stock : reorderQuantity ?? 1;
+    const unitsPerPurchaseUnit = Number(product.unitsPerPurchaseUnit);
+    const suggestedQuantity = roundUpPurchase(needed, {
+      unit: product.unit,
+      purchaseUnit: product.purchaseUnit,
+      unitsPerPurchaseUnit,
+      reorderQuantity
+    });
+
+    const supplier = product.preferredSupplier ?? lastSupplierByProduct.get(product.id) ?? null;
+    if (options.supplierId && supplier?.id !== options.supplierId) {
+      continue;
+    }
+
+    const unitCost = Number(product.cost);
+    const suggestion: ReorderSuggestion = {
+      productId: product.id,
+      name: product.name,
+      sku: product.sku,
+      unit: product.unit,
+      stock,
+      reorderPoint,
+      maxStock,
+      reorderQuantity,
+      soldQuantity,
+      dailySales,
+      daysOfStock: dailySales > 0 ? Math.max(Math.floor(stock / dailySales), 0) : null,
+      suggestedQuantity,
+      purchaseUnit: product.purchaseUnit,
+      purchaseQuantity: product.purchaseUnit ? roundQuantity(suggestedQuantity / unitsPerPurchaseUnit) : null,
+      unitCost,
+      estimatedCost: roundCurrency(suggestedQuantity * unitCost),
+      supplierSource: product.preferredSupplier ? 'PREFERRED' : supplier ? 'LAST_PURCHASE' : null
+    };
+
+    const key = supplier?.id ?? '';
+    const group = groups.get(key) ?? { supplier, items: [], estimatedTotal: 0 };
+    group.items.push(suggestion);
+    group.estimatedTotal = roundCurrency(group.estimatedTotal + suggestion.estimatedCost);
+    groups.set(key, group);
+  }
+
+  // Proveedores por nombre; los productos sin proveedor conocido al final
+  const sortedGroups = [...groups.values()].sort((a, b) => {
+    if (!a.supplier || !b.supplier) {
+      return a.supplier ? -1 : b.supplier ? 1 : 0;
+    }
+    return a.supplier.businessName.localeCompare(b.supplier.businessName, 'es');
+  });
+
+  return {
+    from: toColombiaDay(from),
+    to: toColombiaDay(to),
+    salesWindowDays,
+    coverageDays,
+    totalItems: sortedGroups.reduce((sum, group) => sum + group.items.length, 0),
+    estimatedTotal: roundCurrency(sortedGroups.reduce((sum, group) => sum + group.estimatedTotal, 0)),
+    groups: sortedGroups
+  };
+};
+
+/**
+ * Exporta el sugerido de compra a CSV, una fila por producto con su proveedor
+ *
+ * @param report - Sugerido de compra
+ * @returns Contenido del archivo CSV
+ */
+export const exportReorderSuggestionsCsv = (report: ReorderSuggestionsReport): string => {
+  const headers = [
+    'Proveedor',
+    'Producto',
+    'SKU',
+    'Unidad',
+    'Stock',
+    'Punto de reorden',
+    'Stock máximo',
+    `Vendido (${report.salesWindowDays} días)`,
+    'Venta diaria',
+    'Días de inventario',
+    'Cantidad sugerida',
+    'Unidad de compra',
+    'Cantidad en unidad de compra',
+    'Costo unitario',
+    'Costo estimado'
+  ];
+
+  const rows: CsvValue[][] = report.groups.flatMap((group) => group.items.map((item) => [
+    group.supplier?.businessName ?? 'Sin proveedor',
+    item.name,
+    item.sku,
+    item.unit,
+    item.stock,
+    item.reorderPoint,
+    item.maxStock,
+    item.soldQuantity,
+    item.dailySales,
+    item.daysOfStock,
+    item.suggestedQuantity,
+    item.purchaseUnit,
+    item.purchaseQuantity,
+    item.unitCost,
+    item.estimatedCost
+  ]));
+
+  return toCsv(headers, rows);
+};
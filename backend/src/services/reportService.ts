@@ -1,6 +1,7 @@
 import prisma from '../db';
-import { TIMEZONE_COLOMBIA } from '../config/constants';
+import { LOW_STOCK_THRESHOLD, TIMEZONE_COLOMBIA } from '../config/constants';
 import { getLastShiftCloseout as getLastShiftCloseoutService } from './cashRegisterService';
+import { getCategoryPaths } from './categoryService';
 
 /**
  * Obtiene los componentes de fecha (año, mes, día) en zona horaria de Colombia
@@ -77,7 +78,7 @@ export interface DashboardSummary {
   totalClients: number;
   totalProducts: number;
   inventoryValue: number; // Valor del inventario (stock * cost)
-  lowStockProducts: number; // Productos con stock <= 5
+  lowStockProducts: number; // Productos en su punto de reorden o por debajo
   totalInvoices: number;
 }
 
@@ -131,27 +132,29 @@ export const getDashboardSummary = async (tenantId: string): Promise<DashboardSu
     const products = await prisma.product.findMany({
       where: {
         tenantId: tenantId,
-        isActive: true
+        isActive: true,
+        isKit: false // Los kits no tienen stock propio: su inventario es el de sus componentes
       },
       select: {
         stock: true,
-        cost: true
+        cost: true,
+        minStock: true
       }
     }).catch(() => []);
 
     // Calcular valor del inventario (suma de stock * cost)
     const inventoryValue = (products || []).reduce(
       (sum, product) => {
-        const stock = product?.stock || 0;
+        const stock = Number(product?.stock) || 0;
         const cost = Number(product?.cost) || 0;
         return sum + stock * cost;
       },
       0
     );
 
-    // Contar productos con stock <= 5
+    // Contar productos en su punto de reorden o por debajo (stock mínimo propio o LOW_STOCK_THRESHOLD)
     const lowStockProducts = (products || []).filter(
-      (product) => (product?.stock || 0) <= 5
+      (product) => (Number(product?.stock) || 0) <= (product.minStock !== null ? Number(product.minStock) : LOW_STOCK_THRESHOLD)
     ).length;
 
     // Total de facturas
@@ -594,3 +597,509 @@ export const getTopSellingProducts = async (tenantId: string): Promise<TopSellin
   }
 };
 
+
+/**
+ * Saldos pendientes agrupados por días de vencimiento
+ */
+export interface AgingBuckets {
+  current: number; // Aún no vencido
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+}
+
+/**
+ * Cartera por cobrar de un cliente
+ */
+export interface ClientReceivablesAging extends AgingBuckets {
+  clientId: string | null;
+  clientName: string;
+  phone: string | null;
+  invoiceCount: number;
+  maxDaysPastDue: number; // Días de vencimiento de la factura más atrasada
+}
+
+/**
+ * Reporte de cartera por edades (cuentas por cobrar)
+ */
+export interface ReceivablesAgingReport {
+  asOf: string;
+  totals: AgingBuckets;
+  clients: ClientReceivablesAging[];
+}
+
+const createEmptyAgingBuckets = (): AgingBuckets => ({
+  current: 0,
+  days1to30: 0,
+  days31to60: 0,
+  days61to90: 0,
+  over90: 0,
+  total: 0
+});
+
+/**
+ * Suma un saldo al rango de vencimiento que le corresponde
+ */
+const addToAgingBucket = (buckets: AgingBuckets, daysPastDue: number, balance: number) => {
+  if (daysPastDue <= 0) {
+    buckets.current += balance;
+  } else if (daysPastDue <= 30) {
+    buckets.days1to30 += balance;
+  } else if (daysPastDue <= 60) {
+    buckets.days31to60 += balance;
+  } else if (daysPastDue <= 90) {
+    buckets.days61to90 += balance;
+  } else {
+    buckets.over90 += balance;
+  }
+  buckets.total += balance;
+};
+
+/**
+ * Calcula los días calendario (en Colombia) transcurridos desde la fecha de vencimiento
+ */
+const getDaysPastDue = (dueDate: Date, today: Date): number => {
+  const due = getColombiaDateParts(dueDate);
+  const now = getColombiaDateParts(today);
+  const dueStart = getColombiaDayStartUTC(due.year, due.month, due.day).getTime();
+  const todayStart = getColombiaDayStartUTC(now.year, now.month, now.day).getTime();
+  return Math.round((todayStart - dueStart) / (24 * 60 * 60 * 1000));
+};
+
+/**
+ * Obtiene la cartera por edades: saldos pendientes (total - totalPaid - totalCredited) de las ventas a crédito
+ * emitidas, agrupados en al día / 1-30 / 31-60 / 61-90 / más de 90 días de vencidos, por cliente y en total
+ * Las facturas sin fecha de vencimiento se consideran vencidas desde su fecha de emisión
+ * Retorna un reporte vacío si hay un error
+ */
+export const getReceivablesAging = async (tenantId: string): Promise<ReceivablesAgingReport> => {
+  const today = new Date();
+
+  try {
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        tenantId: tenantId,
+        status: 'ISSUED', // Las facturas PAID ya están saldadas
+        OR: [
+          { isCreditSale: true },
+          { paymentMethod: 'CREDIT' }
+        ]
+      },
+      select: {
+        id: true,
+        issueDate: true,
+        dueDate: true,
+        total: true,
+        totalPaid: true,
+        totalCredited: true,
+        clientId: true,
+        client: {
+          select: {
+            businessName: true,
+            phone: true
+          }
+        }
+      }
+    });
+
+    const totals = createEmptyAgingBuckets();
+    const clientsMap: { [key: string]: ClientReceivablesAging } = {};
+
+    invoices.forEach((invoice) => {
+      const balance = Number(invoice.total) - Number(invoice.totalPaid) - Number(invoice.totalCredited);
+      if (balance <= 0) {
+        return;
+      }
+
+      const daysPastDue = getDaysPastDue(invoice.dueDate ?? invoice.issueDate, today);
+      const key = invoice.clientId ?? 'sin-cliente';
+
+      if (!clientsMap[key]) {
+        clientsMap[key] = {
+          ...createEmptyAgingBuckets(),
+          clientId: invoice.clientId,
+          clientName: invoice.client?.businessName || 'Sin cliente',
+          phone: invoice.client?.phone ?? null,
+          invoiceCount: 0,
+          maxDaysPastDue: 0
+        };
+      }
+
+      const clientAging = clientsMap[key];
+      addToAgingBucket(clientAging, daysPastDue, balance);
+      clientAging.invoiceCount += 1;
+      clientAging.maxDaysPastDue = Math.max(clientAging.maxDaysPastDue, daysPastDue);
+      addToAgingBucket(totals, daysPastDue, balance);
+    });
+
+    // Primero los clientes más atrasados, luego los de mayor saldo
+    const clients = Object.values(clientsMap).sort((a, b) => {
+      if (b.maxDaysPastDue !== a.maxDaysPastDue) {
+        return b.maxDaysPastDue - a.maxDaysPastDue;
+      }
+      return b.total - a.total;
+    });
+
+    return {
+      asOf: today.toISOString(),
+      totals,
+      clients
+    };
+  } catch (error) {
+    console.error('Error al obtener cartera por edades:', error);
+    // Retornar reporte vacío en lugar de lanzar error para no bloquear el dashboard
+    return {
+      asOf: today.toISOString(),
+      totals: createEmptyAgingBuckets(),
+      clients: []
+    };
+  }
+};
+
+/**
+ * Cuentas por pagar a un proveedor
+ */
+export interface SupplierPayablesAging extends AgingBuckets {
+  supplierId: string;
+  supplierName: string;
+  phone: string | null;
+  billCount: number;
+  maxDaysPastDue: number; // Días de vencimiento de la factura más atrasada
+}
+
+/**
+ * Reporte de cuentas por pagar por edades
+ */
+export interface PayablesAgingReport {
+  asOf: string;
+  totals: AgingBuckets;
+  suppliers: SupplierPayablesAging[];
+}
+
+/**
+ * Obtiene las cuentas por pagar por edades: saldos pendientes (total - totalPaid) de las facturas de proveedores
+ * abiertas, agrupados en al día / 1-30 / 31-60 / 61-90 / más de 90 días de vencidos, por proveedor y en total
+ * Retorna un reporte vacío si hay un error
+ */
+export const getPayablesAging = async (tenantId: string): Promise<PayablesAgingReport> => {
+  const today = new Date();
+
+  try {
+    const bills = await prisma.supplierBill.findMany({
+      where: {
+        tenantId: tenantId,
+        status: 'OPEN' // Las facturas PAID ya están saldadas
+      },
+      select: {
+        id: true,
+        dueDate: true,
+        total: true,
+        totalPaid: true,
+        supplierId: true,
+        supplier: {
+          select: {
+            businessName: true,
+            phone: true
+          }
+        }
+      }
+    });
+
+    const totals = createEmptyAgingBuckets();
+    const suppliersMap: { [key: string]: SupplierPayablesAging } = {};
+
+    bills.forEach((bill) => {
+      const balance = Number(bill.total) - Number(bill.totalPaid);
+      if (balance <= 0) {
+        return;
+      }
+
+      const daysPastDue = getDaysPastDue(bill.dueDate, today);
+
+      if (!suppliersMap[bill.supplierId]) {
+        suppliersMap[bill.supplierId] = {
+          ...createEmptyAgingBuckets(),
+          supplierId: bill.supplierId,
+          supplierName: bill.supplier.businessName,
+          phone: bill.supplier.phone ?? null,
+          billCount: 0,
+          maxDaysPastDue: 0
+        };
+      }
+
+      const supplierAging = suppliersMap[bill.supplierId];
+      addToAgingBucket(supplierAging, daysPastDue, balance);
+      supplierAging.billCount += 1;
+      supplierAging.maxDaysPastDue = Math.max(supplierAging.maxDaysPastDue, daysPastDue);
+      addToAgingBucket(totals, daysPastDue, balance);
+    });
+
+    // Primero los proveedores más atrasados, luego los de mayor saldo
+    const suppliers = Object.values(suppliersMap).sort((a, b) => {
+      if (b.maxDaysPastDue !== a.maxDaysPastDue) {
+        return b.maxDaysPastDue - a.maxDaysPastDue;
+      }
+      return b.total - a.total;
+    });
+
+    return {
+      asOf: today.toISOString(),
+      totals,
+      suppliers
+    };
+  } catch (error) {
+    console.error('Error al obtener cuentas por pagar por edades:', error);
+    // Retornar reporte vacío en lugar de lanzar error para no bloquear el dashboard
+    return {
+      asOf: today.toISOString(),
+      totals: createEmptyAgingBuckets(),
+      suppliers: []
+    };
+  }
+};
+
+/**
+ * Ventas, costo y utilidad bruta de un conjunto de líneas vendidas
+ * revenue es la venta neta antes de IVA y descontando notas crédito
+ */
+export interface MarginFigures {
+  revenue: number;
+  cost: number;
+  grossProfit: number;
+  marginPercent: number; // Utilidad bruta / venta neta * 100
+  discounts: number; // Promociones y descuentos concedidos (ya descontados de revenue)
+}
+
+export interface ProductMargin extends MarginFigures {
+  productId: string | null;
+  productName: string;
+  quantity: number; // Cantidad vendida neta de devoluciones
+}
+
+// Ventas por categoría: cada línea cuenta en la categoría actual de su producto
+export interface CategoryMargin extends MarginFigures {
+  categoryId: string | null; // null agrupa los productos sin categoría
+  categoryName: string; // Ruta completa, p. ej. "Bebidas > Gaseosas"
+  quantity: number;
+}
+
+export interface InvoiceMargin extends MarginFigures {
+  invoiceId: string;
+  number: string;
+  issueDate: string;
+}
+
+export interface PeriodMargin extends MarginFigures {
+  period: string; // AAAA-MM-DD o AAAA-MM según la agrupación
+}
+
+// Descuento concedido por cada promoción en el período
+export interface PromotionDiscount {
+  promotionId: string;
+  promotionName: string;
+  lines: number; // Líneas de venta en las que se aplicó
+  discounts: number;
+}
+
+export type MarginGrouping = 'day' | 'month';
+
+export interface GrossMarginFilterOptions {
+  from?: string; // AAAA-MM-DD, por defecto el primer día del mes en curso
+  to?: string; // AAAA-MM-DD inclusive, por defecto hoy
+  groupBy?: MarginGrouping;
+}
+
+/**
+ * Reporte de costo de ventas y margen bruto de un período
+ */
+export interface GrossMarginReport {
+  from: string;
+  to: string;
+  groupBy: MarginGrouping;
+  totals: MarginFigures;
+  byPeriod: PeriodMargin[];
+  byProduct: ProductMargin[];
+  byCategory: CategoryMargin[];
+  byInvoice: InvoiceMargin[];
+  byPromotion: PromotionDiscount[];
+}
+
+const createEmptyMarginFigures = (): MarginFigures => ({
+  revenue: 0,
+  cost: 0,
+  grossProfit: 0,
+  marginPercent: 0,
+  discounts: 0
+});
+
+const addToMarginFigures = (figures: MarginFigures, revenue: number, cost: number, discounts: number) => {
+  figures.revenue += revenue;
+  figures.cost += cost;
+  figures.discounts += discounts;
+  figures.grossProfit = figures.revenue - figures.cost;
+  figures.marginPercent = figures.revenue !== 0
+    ? Math.round((figures.grossProfit / figures.revenue) * 10000) / 100
+    : 0;
+};
+
+/**
+ * Convierte una fecha AAAA-MM-DD en sus componentes, o lanza un error si no es válida
+ */
+const parseReportDate = (value: string, label: string): { year: number; month: number; day: number } => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const parts = match ? { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) } : null;
+  if (!parts || Number.isNaN(getColombiaDayStartUTC(parts.year, parts.month, parts.day).getTime())) {
+    throw new Error(`La fecha ${label} es inválida: use el formato AAAA-MM-DD`);
+  }
+  return parts;
+};
+
+const formatDateParts = (parts: { year: number; month: number; day: number }): string => {
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+};
+
+/**
+ * Obtiene el costo de ventas y la utilidad bruta de las facturas emitidas en un período
+ * El costo de cada línea es el costo unitario guardado al momento de la venta, así que el margen
+ * histórico no cambia cuando cambia el costo del producto. Las notas crédito descuentan la venta
+ * y el costo de lo devuelto en la factura original; las facturas anuladas no cuentan
+ * También agrupa las ventas por la categoría de cada producto y los descuentos por promoción
+ */
+export const getGrossMargin = async (
+  tenantId: string,
+  options: GrossMarginFilterOptions = {}
+): Promise<GrossMarginReport> => {
+  const today = getColombiaDateParts(new Date());
+  const fromParts = options.from ? parseReportDate(options.from, 'inicial') : { ...today, day: 1 };
+  const toParts = options.to ? parseReportDate(options.to, 'final') : today;
+  const groupBy: MarginGrouping = options.groupBy === 'month' ? 'month' : 'day';
+
+  const start = getColombiaDayStartUTC(fromParts.year, fromParts.month, fromParts.day);
+  const end = getColombiaDayStartUTC(toParts.year, toParts.month, toParts.day);
+  end.setUTCDate(end.getUTCDate() + 1); // Hasta el final del día final
+  if (end <= start) {
+    throw new Error('La fecha final es inválida: debe ser posterior a la fecha inicial');
+  }
+
+  const items = await prisma.invoiceItem.findMany({
+    where: {
+      invoice: {
+        tenantId: tenantId,
+        status: { in: ['ISSUED', 'PAID'] }, // Solo ventas reales
+        issueDate: { gte: start, lt: end }
+      }
+    },
+    select: {
+      productId: true,
+      description: true,
+      quantity: true,
+      unitCost: true,
+      discountAmount: true,
+      taxAmount: true,
+      totalAmount: true,
+      promotion: { select: { id: true, name: true } },
+      product: { select: { name: true, categoryId: true } },
+      invoice: { select: { id: true, number: true, issueDate: true } },
+      creditNoteItems: { select: { quantity: true, taxAmount: true, totalAmount: true } }
+    }
+  });
+
+  const totals = createEmptyMarginFigures();
+  const periodsMap: { [key: string]: PeriodMargin } = {};
+  const productsMap: { [key: string]: ProductMargin } = {};
+  const categoriesMap: { [key: string]: CategoryMargin } = {};
+  const categoryPaths = await getCategoryPaths(prisma, tenantId);
+  const invoicesMap: { [key: string]: InvoiceMargin } = {};
+  const promotionsMap: { [key: string]: PromotionDiscount } = {};
+
+  items.forEach((item) => {
+    const credited = item.creditNoteItems.reduce(
+      (acc, line) => ({
+        quantity: acc.quantity + Number(line.quantity),
+        revenue: acc.revenue + Number(line.totalAmount) - Number(line.taxAmount)
+      }),
+      { quantity: 0, revenue: 0 }
+    );
+    const quantity = Number(item.quantity) - credited.quantity;
+    const revenue = Number(item.totalAmount) - Number(item.taxAmount) - credited.revenue;
+    const cost = quantity * Number(item.unitCost);
+    // El descuento de lo devuelto con notas crédito no cuenta
+    const discounts = Number(item.quantity) > 0 ? Number(item.discountAmount) * quantity / Number(item.quantity) : 0;
+
+    const dateParts = getColombiaDateParts(item.invoice.issueDate);
+    const period = groupBy === 'month'
+      ? `${dateParts.year}-${String(dateParts.month).padStart(2, '0')}`
+      : formatDateParts(dateParts);
+    if (!periodsMap[period]) {
+      periodsMap[period] = { ...createEmptyMarginFigures(), period };
+    }
+
+    const productKey = item.productId ?? `sin-producto:${item.description}`;
+    if (!productsMap[productKey]) {
+      productsMap[productKey] = {
+        ...createEmptyMarginFigures(),
+        productId: item.productId,
+        productName: item.product?.name || item.description,
+        quantity: 0
+      };
+    }
+    productsMap[productKey].quantity += quantity;
+
+    const categoryId = item.product?.categoryId ?? null;
+    const categoryKey = categoryId ?? 'sin-categoria';
+    if (!categoriesMap[categoryKey]) {
+      categoriesMap[categoryKey] = {
+        ...createEmptyMarginFigures(),
+        categoryId,
+        categoryName: (categoryId && categoryPaths.get(categoryId)) || 'Sin categoría',
+        quantity: 0
+      };
+    }
+    categoriesMap[categoryKey].quantity += quantity;
+
+    if (!invoicesMap[item.invoice.id]) {
+      invoicesMap[item.invoice.id] = {
+        ...createEmptyMarginFigures(),
+        invoiceId: item.invoice.id,
+        number: item.invoice.number,
+        issueDate: item.invoice.issueDate.toISOString()
+      };
+    }
+
+    if (item.promotion) {
+      if (!promotionsMap[item.promotion.id]) {
+        promotionsMap[item.promotion.id] = {
+          promotionId: item.promotion.id,
+          promotionName: item.promotion.name,
+          lines: 0,
+          discounts: 0
+        };
+      }
+      promotionsMap[item.promotion.id].lines += 1;
+      promotionsMap[item.promotion.id].discounts += discounts;
+    }
+
+    addToMarginFigures(totals, revenue, cost, discounts);
+    addToMarginFigures(periodsMap[period], revenue, cost, discounts);
+    addToMarginFigures(productsMap[productKey], revenue, cost, discounts);
+    addToMarginFigures(categoriesMap[categoryKey], revenue, cost, discounts);
+    addToMarginFigures(invoicesMap[item.invoice.id], revenue, cost, discounts);
+  });
+
+  return {
+    from: formatDateParts(fromParts),
+    to: formatDateParts(toParts),
+    groupBy,
+    totals,
+    byPeriod: Object.values(periodsMap).sort((a, b) => a.period.localeCompare(b.period)),
+    // Primero los productos que más utilidad dejan
+    byProduct: Object.values(productsMap).sort((a, b) => b.grossProfit - a.grossProfit),
+    // Primero las categorías que más venden
+    byCategory: Object.values(categoriesMap).sort((a, b) => b.revenue - a.revenue),
+    byInvoice: Object.values(invoicesMap).sort((a, b) => b.issueDate.localeCompare(a.issueDate)),
+    // Primero las promociones que más descuento concedieron
+    byPromotion: Object.values(promotionsMap).sort((a, b) => b.discounts - a.discounts)
+  };
+};
@@ -0,0 +1,426 @@
+// backend/src/services/resolutionService.ts
+// Servicio de resoluciones de facturación DIAN - Rangos de numeración autorizados por tenant
+
+import { DianResolution, Prisma } from '@prisma/client';
+
+import prisma from '../db';
+import { RESOLUTION_WARNING_THRESHOLDS, TIMEZONE_COLOMBIA } from '../config/constants';
+import { allocateDocumentNumber } from './sequenceService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Interfaz para registrar una resolución (sin tenantId, se maneja internamente)
+ * Las fechas de vigencia se reciben como YYYY-MM-DD (día en Colombia)
+ */
+export interface CreateResolutionInput {
+  resolutionNumber: string;
+  prefix: string;
+  rangeFrom: number;
+  rangeTo: number;
+  validFrom: string;
+  validTo: string;
+  technicalKey: string;
+  isActive?: boolean;
+}
+
+export type UpdateResolutionInput = Partial<CreateResolutionInput>;
+
+// Estado de una resolución para el panel de administración y las alertas del dashboard
+export interface ResolutionStatus {
+  remainingNumbers: number;
+  remainingDays: number;
+  isExhausted: boolean;
+  isExpired: boolean;
+  isNotYetValid: boolean;
+  warnings: string[];
+}
+
+// Número asignado a una factura emitida y la resolución que lo autoriza
+export interface AllocatedInvoiceNumber {
+  number: string;
+  resolutionId: string | null;
+}
+
+const RESOLUTION_FIELDS = {
+  id: true,
+  tenantId: true,
+  resolutionNumber: true,
+  prefix: true,
+  rangeFrom: true,
+  rangeTo: true,
+  nextNumber: true,
+  validFrom: true,
+  validTo: true,
+  technicalKey: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+type ResolutionRecord = Pick<DianResolution, keyof typeof RESOLUTION_FIELDS>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Obtiene el día (YYYY-MM-DD) de una fecha en zona horaria de Colombia
+ */
+const toColombiaDay = (date: Date): string => {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: TIMEZONE_COLOMBIA,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+};
+
+/**
+ * Convierte un día YYYY-MM-DD al inicio de ese día en Colombia (UTC-5)
+ */
+const parseColombiaDay = (value: string, field: string): Date => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error(`La fecha ${field} es inválida: use el formato AAAA-MM-DD`);
+  }
+  const date = new Date(`${value}T00:00:00-05:00`);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`La fecha ${field} es inválida`);
+  }
+  return date;
+};
+
+/**
+ * Días calendario entre dos días YYYY-MM-DD
+ */
+const daysBetween = (from: string, to: string): number => {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+};
+
+/**
+ * Calcula consecutivos y días restantes de una resolución y sus alertas
+ */
+export const getResolutionStatus = (resolution: ResolutionRecord, now: Date = new Date()): ResolutionStatus => {
+  const today = toColombiaDay(now);
+  const remainingNumbers = Math.max(resolution.rangeTo - resolution.nextNumber + 1, 0);
+  const remainingDays = daysBetween(today, toColombiaDay(resolution.validTo));
+  const isExhausted = remainingNumbers === 0;
+  const isExpired = remainingDays < 0;
+  const isNotYetValid = daysBetween(today, toColombiaDay(resolution.validFrom)) > 0;
+
+  const warnings: string[] = [];
+  if (isExhausted) {
+    warnings.push(`La resolución ${resolution.resolutionNumber} agotó su rango autorizado`);
+  } else if (remainingNumbers < RESOLUTION_WARNING_THRESHOLDS.remainingNumbers) {
+    warnings.push(`Quedan ${remainingNumbers} consecutivos autorizados en la resolución ${resolution.resolutionNumber}`);
+  }
+  if (isExpired) {
+    warnings.push(`La resolución ${resolution.resolutionNumber} venció el ${toColombiaDay(resolution.validTo)}`);
+  } else if (remainingDays < RESOLUTION_WARNING_THRESHOLDS.remainingDays) {
+    warnings.push(`La resolución ${resolution.resolutionNumber} vence en ${remainingDays} días`);
+  }
+
+  return { remainingNumbers, remainingDays, isExhausted, isExpired, isNotYetValid, warnings };
+};
+
+const withStatus = (resolution: ResolutionRecord) => ({
+  ...resolution,
+  status: getResolutionStatus(resolution)
+});
+
+/**
+ * Valida los datos de una resolución ya combinados con los valores actuales
+ */
+const validateResolution = (data: {
+  resolutionNumber: string;
+  prefix: string;
+  rangeFrom: number;
+  rangeTo: number;
+  validFrom: Date;
+  validTo: Date;
+  technicalKey: string;
+}) => {
+  if (!data.resolutionNumber) {
+    throw new Error('El número de la resolución es requerido');
+  }
+  if (!/^[A-Za-z0-9]{0,4}$/.test(data.prefix)) {
+    throw new Error('El prefijo es inválido: máximo 4 letras o números');
+  }
+  if (!Number.isInteger(data.rangeFrom) || data.rangeFrom < 1) {
+    throw new Error('El rango inicial es inválido: debe ser un entero mayor a cero');
+  }
+  if (!Number.isInteger(data.rangeTo) || data.rangeTo < data.rangeFrom) {
+    throw new Error('El rango final es inválido: debe ser un entero mayor o igual al rango inicial');
+  }
+  if (data.validTo.getTime() < data.validFrom.getTime()) {
+    throw new Error('La fecha de vencimiento es inválida: debe ser posterior a la fecha de inicio');
+  }
+  if (!data.technicalKey) {
+    throw new Error('La clave técnica de la resolución es requerida');
+  }
+};
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene las resoluciones de un tenant con su estado (la activa primero)
+ */
+export const getResolutions = async (tenantId: string) => {
+  const resolutions = await prisma.dianResolution.findMany({
+    where: { tenantId },
+    select: RESOLUTION_FIELDS,
+    orderBy: [{ isActive: 'desc' }, { validTo: 'desc' }]
+  });
+
+  return resolutions.map(withStatus);
+};
+
+/**
+ * Obtiene una resolución por ID con su estado
+ */
+export const getResolutionById = async (id: string, tenantId: string) => {
+  const resolution = await prisma.dianResolution.findFirst({
+    where: { id, tenantId },
+    select: RESOLUTION_FIELDS
+  });
+
+  return resolution ? withStatus(resolution) : null;
+};
+
+/**
+ * Obtiene la resolución activa y sus alertas para el dashboard
+ *
+ * @returns Resolución activa (o null) y alertas a mostrar
+ */
+export const getActiveResolutionStatus = async (tenantId: string) => {
+  const resolution = await prisma.dianResolution.findFirst({
+    where: { tenantId, isActive: true },
+    select: RESOLUTION_FIELDS
+  });
+
+  if (!resolution) {
+    const settings = await prisma.companySettings.findUnique({
+      where: { tenantId },
+      select: { enableElectronicBilling: true }
+    });
+    return {
+      resolution: null,
+      warnings: settings?.enableElectronicBilling
+        ? ['No hay una resolución de facturación DIAN activa: no se pueden emitir facturas electrónicas']
+        : [],
+      thresholds: RESOLUTION_WARNING_THRESHOLDS
+    };
+  }
+
+  const status = getResolutionStatus(resolution);
+  const { technicalKey: _technicalKey, ...summary } = resolution;
+
+  return {
+    resolution: { ...summary, status },
+    warnings: status.warnings,
+    thresholds: RESOLUTION_WARNING_THRESHOLDS
+  };
+};
+
+// ==================== NUMBERING ====================
+
+/**
+ * Asigna el número de una factura emitida desde la resolución DIAN activa del tenant
+ * El incremento es atómico y valida el rango en el mismo UPDATE, por lo que dos ventas
+ * simultáneas no pueden exceder la resolución. Si el tenant no tiene resolución activa y no
+ * factura electrónicamente se usa la numeración interna.
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción de la factura
+ * @param tenantId - ID del tenant
+ * @returns Número asignado y resolución que lo autoriza
+ */
+export const allocateInvoiceNumber = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string
+): Promise<AllocatedInvoiceNumber> => {
+  const resolution = await tx.dianResolution.findFirst({
+    where: { tenantId, isActive: true },
+    select: RESOLUTION_FIELDS
+  });
+
+  if (!resolution) {
+    const settings = await tx.companySettings.findUnique({
+      where: { tenantId },
+      select: { enableElectronicBilling: true }
+    });
+    if (settings?.enableElectronicBilling) {
+      throw new Error('No hay una resolución de facturación DIAN activa: registra una para emitir facturas');
+    }
+    return { number: await allocateDocumentNumber(tx, tenantId, 'INVOICE'), resolutionId: null };
+  }
+
+  const status = getResolutionStatus(resolution);
+  if (status.isNotYetValid) {
+    throw new Error(
+      `La resolución DIAN ${resolution.resolutionNumber} aún no está vigente: inicia el ${toColombiaDay(resolution.validFrom)}`
+    );
+  }
+  if (status.isExpired) {
+    throw new Error(
+      `La resolución DIAN ${resolution.resolutionNumber} está vencida desde el ${toColombiaDay(resolution.validTo)}: registra una nueva resolución`
+    );
+  }
+
+  const allocated = await tx.$queryRaw<Array<{ number: number }>>`
+    UPDATE "DianResolution"
+    SET "nextNumber" = "nextNumber" + 1,
+        "updatedAt" = NOW()
+    WHERE "id" = ${resolution.id}
+      AND "nextNumber" <= "rangeTo"
+    RETURNING "nextNumber" - 1 AS "number"
+  `;
+
+  if (allocated.length === 0) {
+    throw new Error(
+      `La resolución DIAN ${resolution.resolutionNumber} agotó su rango autorizado ` +
+      `(${resolution.prefix}${resolution.rangeFrom} - ${resolution.prefix}${resolution.rangeTo}): registra una nueva resolución`
+    );
+  }
+
+  return {
+    number: `${resolution.prefix}${Number(allocated[0].number)}`,
+    resolutionId: resolution.id
+  };
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Registra una resolución de facturación
+ * Si se registra como activa, las demás resoluciones del tenant se desactivan
+ */
+export const createResolution = async (data: CreateResolutionInput, tenantId: string) => {
+  const resolution = {
+    resolutionNumber: data.resolutionNumber?.trim() ?? '',
+    prefix: data.prefix?.trim().toUpperCase() ?? '',
+    rangeFrom: Number(data.rangeFrom),
+    rangeTo: Number(data.rangeTo),
+    validFrom: parseColombiaDay(data.validFrom ?? '', 'de inicio'),
+    validTo: parseColombiaDay(data.validTo ?? '', 'de vencimiento'),
+    technicalKey: data.technicalKey?.trim() ?? ''
+  };
+  validateResolution(resolution);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      if (data.isActive) {
+        await tx.dianResolution.updateMany({
+          where: { tenantId, isActive: true },
+          data: { isActive: false }
+        });
+      }
+
+      const created = await tx.dianResolution.create({
+        data: {
+          ...resolution,
+          tenantId,
+          nextNumber: resolution.rangeFrom,
+          isActive: data.isActive ?? false
+        },
+        select: RESOLUTION_FIELDS
+      });
+
+      console.log(`✅ [ResolutionService] Resolución registrada: ${created.resolutionNumber} (${created.prefix})`);
+      return withStatus(created);
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error(`Ya existe la resolución ${resolution.resolutionNumber} con el prefijo ${resolution.prefix}`);
+    }
+    throw error;
+  }
+};
+
+// ==================== UPDATE OPERATIONS ====================
+
+/**
+ * Actualiza una resolución
+ * Cuando ya emitió facturas no se pueden cambiar su número, prefijo ni rango inicial,
+ * y el rango final no puede quedar por debajo del último número emitido
+ */
+export const updateResolution = async (id: string, data: UpdateResolutionInput, tenantId: string) => {
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.dianResolution.findFirst({
+      where: { id, tenantId },
+      select: RESOLUTION_FIELDS
+    });
+
+    if (!current) {
+      throw new Error('Resolución no encontrada');
+    }
+
+    const merged = {
+      resolutionNumber: data.resolutionNumber !== undefined ? data.resolutionNumber.trim() : current.resolutionNumber,
+      prefix: data.prefix !== undefined ? data.prefix.trim().toUpperCase() : current.prefix,
+      rangeFrom: data.rangeFrom !== undefined ? Number(data.rangeFrom) : current.rangeFrom,
+      rangeTo: data.rangeTo !== undefined ? Number(data.rangeTo) : current.rangeTo,
+      validFrom: data.validFrom !== undefined ? parseColombiaDay(data.validFrom, 'de inicio') : current.validFrom,
+      validTo: data.validTo !== undefined ? parseColombiaDay(data.validTo, 'de vencimiento') : current.validTo,
+      technicalKey: data.technicalKey !== undefined ? data.technicalKey.trim() : current.technicalKey
+    };
+    validateResolution(merged);
+
+    const hasIssued = current.nextNumber > current.rangeFrom;
+    if (hasIssued) {
+      if (
+        merged.resolutionNumber !== current.resolutionNumber ||
+        merged.prefix !== current.prefix ||
+        merged.rangeFrom !== current.rangeFrom
+      ) {
+        throw new Error('No se puede cambiar el número, prefijo ni rango inicial de una resolución con facturas emitidas');
+      }
+      if (merged.rangeTo < current.nextNumber - 1) {
+        throw new Error(`El rango final es inválido: ya se emitió la factura ${current.prefix}${current.nextNumber - 1}`);
+      }
+    }
+
+    if (data.isActive) {
+      await tx.dianResolution.updateMany({
+        where: { tenantId, isActive: true, id: { not: id } },
+        data: { isActive: false }
+      });
+    }
+
+    const updated = await tx.dianResolution.update({
+      where: { id },
+      data: {
+        ...merged,
+        nextNumber: hasIssued ? undefined : merged.rangeFrom,
+        isActive: data.isActive
+      },
+      select: RESOLUTION_FIELDS
+    });
+
+    console.log(`✅ [ResolutionService] Resolución actualizada: ${updated.resolutionNumber} (${updated.prefix})`);
+    return withStatus(updated);
+  });
+};
+
+// ==================== DELETE OPERATIONS ====================
+
+/**
+ * Elimina una resolución que aún no ha emitido facturas
+ */
+export const deleteResolution = async (id: string, tenantId: string) => {
+  const resolution = await prisma.dianResolution.findFirst({
+    where: { id, tenantId },
+    select: { id: true, resolutionNumber: true, rangeFrom: true, nextNumber: true }
+  });
+
+  if (!resolution) {
+    throw new Error('Resolución no encontrada');
+  }
+  if (resolution.nextNumber > resolution.rangeFrom) {
+    throw new Error(`No se puede eliminar la resolución ${resolution.resolutionNumber}: ya tiene facturas emitidas`);
+  }
+
+  await prisma.dianResolution.delete({ where: { id } });
+
+  console.log(`✅ [ResolutionService] Resolución eliminada: ${resolution.resolutionNumber}`);
+  return { id };
+};
@@ -0,0 +1,164 @@
+// backend/src/services/sequenceService.ts
+// Servicio de numeración consecutiva de documentos por tenant
+
+import { DocumentSequenceType, Prisma } from '@prisma/client';
+
+import prisma from '../db';
+import { DOCUMENT_SEQUENCE_DEFAULTS } from '../config/constants';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Configuración editable de una numeración
+ */
+export interface UpdateSequenceInput {
+  prefix?: string;
+  nextNumber?: number;
+  padding?: number;
+}
+
+const SEQUENCE_FIELDS = {
+  id: true,
+  tenantId: true,
+  type: true,
+  prefix: true,
+  nextNumber: true,
+  padding: true,
+  updatedAt: true
+} as const;
+
+const MAX_PADDING = 12;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Da formato a un consecutivo: prefijo + número completado con ceros
+ */
+export const formatDocumentNumber = (prefix: string, value: number, padding: number): string => {
+  return `${prefix}${String(value).padStart(padding, '0')}`;
+};
+
+// ==================== OPERACIONES ====================
+
+/**
+ * Asigna el siguiente consecutivo de un tipo de documento
+ * Debe llamarse dentro de la transacción que crea el documento: el incremento bloquea la fila
+ * de la numeración hasta el commit y se revierte si la transacción falla, por lo que no quedan
+ * huecos ni números repetidos entre terminales
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción del documento
+ * @param tenantId - ID del tenant
+ * @param type - Tipo de documento
+ * @returns Número formateado del documento
+ */
+export const allocateDocumentNumber = async (
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  type: DocumentSequenceType
+): Promise<string> => {
+  const defaults = DOCUMENT_SEQUENCE_DEFAULTS[type];
+
+  // La primera venta del tenant crea la numeración: con ON CONFLICT DO NOTHING dos terminales
+  // simultáneas no chocan por la llave única (un P2002 abortaría la transacción del documento)
+  await tx.documentSequence.createMany({
+    data: [{ tenantId, type, prefix: defaults.prefix, padding: defaults.padding, nextNumber: 1 }],
+    skipDuplicates: true
+  });
+
+  const sequence = await tx.documentSequence.update({
+    where: { tenantId_type: { tenantId, type } },
+    data: {
+      nextNumber: { increment: 1 }
+    },
+    select: { prefix: true, nextNumber: true, padding: true }
+  });
+
+  return formatDocumentNumber(sequence.prefix, sequence.nextNumber - 1, sequence.padding);
+};
+
+/**
+ * Obtiene la configuración de numeración de un tipo de documento
+ * Si el tenant aún no la tiene se retorna la configuración por defecto
+ *
+ * @returns Configuración y vista previa del siguiente número
+ */
+export const getSequence = async (tenantId: string, type: DocumentSequenceType) => {
+  const defaults = DOCUMENT_SEQUENCE_DEFAULTS[type];
+
+  const sequence = await prisma.documentSequence.findUnique({
+    where: { tenantId_type: { tenantId, type } },
+    select: SEQUENCE_FIELDS
+  });
+
+  const config = sequence ?? {
+    id: null,
+    tenantId,
+    type,
+    prefix: defaults.prefix,
+    nextNumber: 1,
+    padding: defaults.padding,
+    updatedAt: null
+  };
+
+  return {
+    ...config,
+    preview: formatDocumentNumber(config.prefix, config.nextNumber, config.padding)
+  };
+};
+
+/**
+ * Actualiza prefijo, número inicial o relleno de una numeración
+ * El siguiente número no puede retroceder para no repetir consecutivos ya emitidos
+ */
+export const updateSequence = async (
+  tenantId: string,
+  type: DocumentSequenceType,
+  data: UpdateSequenceInput
+) => {
+  const defaults = DOCUMENT_SEQUENCE_DEFAULTS[type];
+
+  if (data.prefix !== undefined && !/^[A-Za-z0-9-]{0,10}$/.test(data.prefix.trim())) {
+    throw new Error('El prefijo es inválido: máximo 10 letras, números o guiones');
+  }
+  if (data.nextNumber !== undefined && (!Number.isInteger(data.nextNumber) || data.nextNumber < 1)) {
+    throw new Error('El siguiente número es inválido: debe ser un entero mayor a cero');
+  }
+  if (data.padding !== undefined && (!Number.isInteger(data.padding) || data.padding < 0 || data.padding > MAX_PADDING)) {
+    throw new Error(`El relleno es inválido: debe estar entre 0 y ${MAX_PADDING} dígitos`);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.documentSequence.findUnique({
+      where: { tenantId_type: { tenantId, type } },
+      select: { nextNumber: true }
+    });
+
+    if (current && data.nextNumber !== undefined && data.nextNumber < current.nextNumber) {
+      throw new Error(
+        `El siguiente número es inválido: no puede ser menor a ${current.nextNumber} porque ya hay documentos emitidos`
+      );
+    }
+
+    const sequence = await tx.documentSequence.upsert({
+      where: { tenantId_type: { tenantId, type } },
+      create: {
+        tenantId,
+        type,
+        prefix: data.prefix?.trim() ?? defaults.prefix,
+        nextNumber: data.nextNumber ?? 1,
+        padding: data.padding ?? defaults.padding
+      },
+      update: {
+        ...(data.prefix !== undefined && { prefix: data.prefix.trim() }),
+        ...(data.nextNumber !== undefined && { nextNumber: data.nextNumber }),
+        ...(data.padding !== undefined && { padding: data.padding })
+      },
+      select: SEQUENCE_FIELDS
+    });
+
+    return {
+      ...sequence,
+      preview: formatDocumentNumber(sequence.prefix, sequence.nextNumber, sequence.padding)
+    };
+  });
+};
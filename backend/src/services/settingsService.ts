@@ -0,0 +1,139 @@
+// backend/src/services/settingsService.ts
+// Servicio de configuración de la empresa - Datos tributarios y módulos habilitados
+
+import prisma from '../db';
+
+// ==================== TIPOS E INTERFACES ====================
+
+// Datos de la empresa y módulos que puede modificar un administrador
+export interface UpdateCompanySettingsInput {
+  name?: string;
+  nit?: string | null;
+  dv?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  enableTax?: boolean;
+  enableInventory?: boolean;
+  enableCredit?: boolean;
+  enableElectronicBilling?: boolean;
+}
+
+const COMPANY_FIELDS = {
+  id: true,
+  name: true,
+  nit: true,
+  dv: true,
+  email: true,
+  phone: true,
+  address: true
+} as const;
+
+const SETTINGS_FIELDS = {
+  enableTax: true,
+  enableInventory: true,
+  enableCredit: true,
+  enableElectronicBilling: true,
+  currency: true,
+  updatedAt: true
+} as const;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Calcula el dígito de verificación de un NIT (algoritmo módulo 11 de la DIAN)
+ */
+export const calculateNitDv = (nit: string): string => {
+  const weights = [3, 7, 13, 17, 19, 23, 29, 37, 41, 43, 47, 53, 59, 67, 71];
+  const digits = nit.split('').reverse();
+  const sum = digits.reduce((acc, digit, index) => acc + Number(digit) * weights[index], 0);
+  const remainder = sum % 11;
+  return String(remainder > 1 ? 11 - remainder : remainder);
+};
+
+// ==================== OPERACIONES ====================
+
+/**
+ * Obtiene los datos de la empresa y su configuración
+ * Crea la configuración por defecto si el tenant aún no la tiene
+ *
+ * @param tenantId - ID del tenant
+ */
+export const getCompanySettings = async (tenantId: string) => {
+  const company = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: COMPANY_FIELDS
+  });
+
+  if (!company) {
+    throw new Error('Empresa no encontrada');
+  }
+
+  const settings = await prisma.companySettings.upsert({
+    where: { tenantId },
+    create: { tenantId },
+    update: {},
+    select: SETTINGS_FIELDS
+  });
+
+  return { company, settings };
+};
+
+/**
+ * Actualiza los datos de la empresa y su configuración
+ * Para habilitar la facturación electrónica la empresa debe tener un NIT con dígito de verificación válido
+ *
+ * @param tenantId - ID del tenant
+ * @param data - Campos a modificar
+ */
+export const updateCompanySettings = async (tenantId: string, data: UpdateCompanySettingsInput) => {
+  const current = await getCompanySettings(tenantId);
+
+  if (data.name !== undefined && !data.name.trim()) {
+    throw new Error('El nombre de la empresa es requerido');
+  }
+
+  const nit = data.nit !== undefined ? (data.nit?.trim() || null) : current.company.nit;
+  const dv = data.dv !== undefined ? (data.dv?.trim() || null) : current.company.dv;
+
+  if (nit && !/^\d{5,15}$/.test(nit)) {
+    throw new Error('El NIT es inválido: debe contener solo números, sin dígito de verificación');
+  }
+  if (nit && dv && dv !== calculateNitDv(nit)) {
+    throw new Error(`El dígito de verificación es inválido para el NIT ${nit}`);
+  }
+
+  const enableElectronicBilling = data.enableElectronicBilling ?? current.settings.enableElectronicBilling;
+  if (enableElectronicBilling && (!nit || !dv)) {
+    throw new Error('La facturación electrónica requiere el NIT y el dígito de verificación de la empresa');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const company = await tx.tenant.update({
+      where: { id: tenantId },
+      data: {
+        name: data.name !== undefined ? data.name.trim() : undefined,
+        nit,
+        dv,
+        email: data.email !== undefined ? (data.email?.trim() || null) : undefined,
+        phone: data.phone !== undefined ? (data.phone?.trim() || null) : undefined,
+        address: data.address !== undefined ? (data.address?.trim() || null) : undefined
+      },
+      select: COMPANY_FIELDS
+    });
+
+    const settings = await tx.companySettings.update({
+      where: { tenantId },
+      data: {
+        enableTax: data.enableTax,
+        enableInventory: data.enableInventory,
+        enableCredit: data.enableCredit,
+        enableElectronicBilling
+      },
+      select: SETTINGS_FIELDS
+    });
+
+    console.log(`✅ [SettingsService] Configuración actualizada para la empresa ${company.name}`);
+    return { company, settings };
+  });
+};
@@ -0,0 +1,288 @@
+// backend/src/services/stockMovementService.ts
+// Servicio de movimientos de inventario (kardex) - Todo cambio de stock queda registrado con su origen
+
+import { Prisma, StockMovementType } from '@prisma/client';
+
+import prisma from '../db';
+import { resolveLocation } from './locationService';
+import { consumeLotsFefo, getExpiredLotQuantity, LotAllocation, LotInput, receiveLots } from './lotService';
+import { roundQuantity } from './unitService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Datos de un movimiento de inventario
+ * quantity es con signo y en la unidad de venta del producto: positiva entra al inventario, negativa sale
+ */
+export interface StockMovementInput {
+  tenantId: string;
+  productId: string;
+  type: StockMovementType;
+  quantity: number;
+  unitCost?: Prisma.Decimal.Value; // Por defecto el costo actual del producto
+  userId?: string | null;
+  invoiceId?: string | null;
+  creditNoteId?: string | null;
+  purchaseId?: string | null;
+  inventoryCountId?: string | null;
+  stockTransferId?: string | null;
+  locationId?: string | null; // Bodega afectada; por defecto la bodega por defecto del tenant
+  notes?: string | null;
+  allowNegative?: boolean; // Permite dejar el stock en negativo (solo ajustes explícitos)
+  lots?: LotInput[]; // Lotes de una entrada (productos que manejan lotes); lo que no cubran queda sin lote
+}
+
+// Filtros del kardex por rango de fechas (AAAA-MM-DD o ISO)
+export interface KardexFilterOptions {
+  from?: string;
+  to?: string;
+}
+
+const STOCK_MOVEMENT_FIELDS = {
+  id: true,
+  productId: true,
+  type: true,
+  quantity: true,
+  unitCost: true,
+  balance: true,
+  userId: true,
+  invoiceId: true,
+  creditNoteId: true,
+  purchaseId: true,
+  inventoryCountId: true,
+  stockTransferId: true,
+  locationId: true,
+  notes: true,
+  createdAt: true
+} as const;
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Registra un movimiento de inventario y actualiza el stock de la bodega y el total del producto en la misma transacción
+ * La salida se descuenta de forma condicionada para no vender unidades que otra venta ya tomó en esa bodega
+ * En productos que manejan lotes la salida se toma de los lotes en orden FEFO y una venta no puede tomar lotes vencidos
+ *
+ * @param tx - Cliente de Prisma dentro de la transacción en curso
+ * @param input - Datos del movimiento
+ * @returns Movimiento creado con el saldo resultante (total del producto en todas las bodegas)
+ */
+export const recordStockMovement = async (
+  tx: Prisma.TransactionClient,
+  input: StockMovementInput
+) => {
+  const quantity = roundQuantity(Number(input.quantity));
+  if (!Number.isFinite(quantity) || quantity === 0) {
+    throw new Error('La cantidad del movimiento de inventario es inválida: debe ser un número distinto de cero');
+  }
+
+  const product = await tx.product.findFirst({
+    where: { id: input.productId, tenantId: input.tenantId },
+    select: { id: true, name: true, cost: true, trackLots: true, isKit: true }
+  });
+  if (!product) {
+    throw new Error(`Producto con ID ${input.productId} no encontrado`);
+  }
+  // Un kit no lleva stock propio: sus movimientos se registran en sus componentes
+  if (product.isKit) {
+    throw new Error(`El movimiento de inventario es inválido: ${product.name} es un kit y su stock es el de sus componentes`);
+  }
+
+  const lots = input.lots ?? [];
+  if (lots.length > 0) {
+    if (!product.trackLots) {
+      throw new Error(`El producto ${product.name} no maneja lotes: actívalos en el producto`);
+    }
+    if (quantity < 0) {
+      throw new Error('Los lotes solo se indican en las entradas de inventario: las salidas los toman en orden de vencimiento');
+    }
+    const lotted = roundQuantity(lots.reduce((sum, lot) => sum + Number(lot.quantity), 0));
+    if (lotted > quantity) {
+      throw new Error(`La cantidad de los lotes (${lotted}) es mayor a la cantidad que entra (${quantity}) del producto ${product.name}`);
+    }
+  }
+
+  const location = await resolveLocation(tx, input.tenantId, input.locationId);
+
+  // Las unidades vencidas siguen en el stock pero no se pueden vender
+  const expired = product.trackLots && input.type === 'SALE' && quantity < 0
+    ? await getExpiredLotQuantity(tx, product.id, location.id)
+    : 0;
+
+  if (quantity < 0 && !input.allowNegative) {
+    const updated = await tx.productStock.updateMany({
+      where: { productId: product.id, locationId: location.id, quantity: { gte: roundQuantity(expired - quantity) } },
+      data: { quantity: { increment: quantity } }
+    });
+    if (updated.count === 0) {
+      const current = await tx.productStock.findUnique({
+        where: { productId_locationId: { productId: product.id, locationId: location.id } },
+        select: { quantity: true }
+      });
+      const available = roundQuantity(Number(current?.quantity ?? 0) - expired);
+      throw new Error(
+        `Stock insuficiente para el producto "${product.name}" en la bodega ${location.name}. Stock disponible: ${available}, solicitado: ${-quantity}` +
+          (expired > 0 ? ` (${expired} vencidas)` : '')
+      );
+    }
+  } else {
+    await tx.productStock.upsert({
+      where: { productId_locationId: { productId: product.id, locationId: location.id } },
+      create: { productId: product.id, locationId: location.id, quantity },
+      update: { quantity: { increment: quantity } }
+    });
+  }
+
+  // El stock del producto es el total de todas sus bodegas
+  await tx.product.update({
+    where: { id: product.id },
+    data: { stock: { increment: quantity } }
+  });
+
+  const { stock: balance } = await tx.product.findUniqueOrThrow({
+    where: { id: product.id },
+    select: { stock: true }
+  });
+
+  const movement = await tx.stockMovement.create({
+    data: {
+      tenantId: input.tenantId,
+      productId: product.id,
+      type: input.type,
+      quantity,
+      unitCost: input.unitCost !== undefined ? new Prisma.Decimal(input.unitCost) : product.cost,
+      balance,
+      userId: input.userId || null,
+      invoiceId: input.invoiceId || null,
+      creditNoteId: input.creditNoteId || null,
+      purchaseId: input.purchaseId || null,
+      inventoryCountId: input.inventoryCountId || null,
+      stockTransferId: input.stockTransferId || null,
+      locationId: location.id,
+      notes: input.notes?.trim() || null
+    },
+    select: STOCK_MOVEMENT_FIELDS
+  });
+
+  let allocations: LotAllocation[] = [];
+  if (product.trackLots && quantity > 0 && lots.length > 0) {
+    allocations = await receiveLots(tx, {
+      tenantId: input.tenantId,
+      productId: product.id,
+      locationId: location.id,
+      movementId: movement.id,
+      lots
+    });
+  } else if (product.trackLots && quantity < 0) {
+    allocations = await consumeLotsFefo(tx, {
+      productId: product.id,
+      locationId: location.id,
+      movementId: movement.id,
+      quantity: -quantity,
+      skipExpired: input.type === 'SALE'
+    });
+  }
+
+  return { ...movement, lots: allocations };
+};
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene el kardex de un producto: sus movimientos en orden cronológico con el documento de origen
+ *
+ * @param productId - ID del producto
+ * @param tenantId - ID del tenant
+ * @param options - Rango de fechas opcional
+ * @returns Producto con su stock actual y sus movimientos
+ */
+export const getProductKardex = async (
+  productId: string,
+  tenantId: string,
+  options: KardexFilterOptions = {}
+) => {
+  const product = await prisma.product.findFirst({
+    where: { id: productId, tenantId },
+    select: { id: true, name: true, sku: true, stock: true, cost: true, unit: true }
+  });
+
+  if (!product) {
+    throw new Error('Product not found');
+  }
+
+  const createdAt: Prisma.DateTimeFilter = {};
+  if (options.from) {
+    const from = new Date(options.from);
+    if (Number.isNaN(from.getTime())) {
+      throw new Error('La fecha inicial del kardex es inválida');
+    }
+    createdAt.gte = from;
+  }
+  if (options.to) {
+    const to = new Date(options.to);
+    if (Number.isNaN(to.getTime())) {
+      throw new Error('La fecha final del kardex es inválida');
+    }
+    // Una fecha sin hora incluye todo ese día
+    if (/^\d{4}-\d{2}-\d{2}$/.test(options.to)) {
+      to.setUTCDate(to.getUTCDate() + 1);
+      createdAt.lt = to;
+    } else {
+      createdAt.lte = to;
+    }
+  }
+
+  const movements = await prisma.stockMovement.findMany({
+    where: {
+      tenantId,
+      productId,
+      ...(options.from || options.to ? { createdAt } : {})
+    },
+    select: {
+      ...STOCK_MOVEMENT_FIELDS,
+      user: { select: { id: true, fullName: true } },
+      invoice: { select: { id: true, number: true } },
+      creditNote: { select: { id: true, number: true } },
+      purchase: { select: { id: true, number: true } },
+      inventoryCount: { select: { id: true, number: true } },
+      stockTransfer: { select: { id: true, number: true } },
+      location: { select: { id: true, name: true } },
+      lots: { select: { quantity: true, lot: { select: { id: true, lotNumber: true, expiryDate: true } } } }
+    },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+  });
+
+  const totals = movements.reduce(
+    (acc, movement) => {
+      const quantity = Number(movement.quantity);
+      if (quantity > 0) {
+        acc.totalIn = roundQuantity(acc.totalIn + quantity);
+      } else {
+        acc.totalOut = roundQuantity(acc.totalOut - quantity);
+      }
+      return acc;
+    },
+    { totalIn: 0, totalOut: 0 }
+  );
+
+  // Sin movimientos en el rango, el saldo es el del último movimiento anterior al fin del rango
+  let periodBalance = Number(product.stock);
+  if (movements.length === 0 && (createdAt.lt || createdAt.lte)) {
+    const previous = await prisma.stockMovement.findFirst({
+      where: { tenantId, productId, createdAt: { lt: createdAt.lt, lte: createdAt.lte } },
+      select: { balance: true },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    });
+    periodBalance = Number(previous?.balance ?? 0);
+  }
+
+  return {
+    product,
+    openingBalance: movements.length > 0
+      ? roundQuantity(Number(movements[0].balance) - Number(movements[0].quantity))
+      : periodBalance,
+    ...totals,
+    closingBalance: movements.length > 0 ? Number(movements[movements.length - 1].balance) : periodBalance,
+    movements
+  };
+};
@@ -0,0 +1,193 @@
+// backend/src/services/stockTransferService.ts
+// Servicio de traslados entre bodegas - Mueve existencias de una bodega a otra sin cambiar el total del producto
+
+import { Prisma } from '@prisma/client';
+
+import prisma from '../db';
+import { resolveLocation } from './locationService';
+import { allocateDocumentNumber } from './sequenceService';
+import { recordStockMovement } from './stockMovementService';
+import { describeQuantity, isValidQuantity, roundQuantity } from './unitService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+// Línea de un traslado: producto y cantidad que se mueve
+export interface StockTransferItemInput {
+  productId: string;
+  quantity: number;
+}
+
+/**
+ * Interfaz para registrar un traslado (sin tenantId, se maneja internamente)
+ */
+export interface CreateStockTransferInput {
+  fromLocationId: string;
+  toLocationId: string;
+  notes?: string | null;
+  items: StockTransferItemInput[];
+  createdById?: string | null;
+}
+
+// Filtros del listado de traslados: bodega de origen o destino
+export interface StockTransferFilterOptions {
+  locationId?: string;
+}
+
+const STOCK_TRANSFER_FIELDS = {
+  id: true,
+  tenantId: true,
+  number: true,
+  fromLocationId: true,
+  toLocationId: true,
+  notes: true,
+  createdById: true,
+  createdAt: true,
+  fromLocation: { select: { id: true, name: true } },
+  toLocation: { select: { id: true, name: true } }
+} as const;
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene los traslados de un tenant, los más recientes primero
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Filtro opcional por bodega (origen o destino)
+ * @returns Traslados con sus bodegas y la cantidad de líneas
+ */
+export const getStockTransfers = async (tenantId: string, options: StockTransferFilterOptions = {}) => {
+  const where: Prisma.StockTransferWhereInput = { tenantId };
+  if (options.locationId) {
+    where.OR = [{ fromLocationId: options.locationId }, { toLocationId: options.locationId }];
+  }
+
+  return prisma.stockTransfer.findMany({
+    where,
+    select: {
+      ...STOCK_TRANSFER_FIELDS,
+      createdBy: { select: { id: true, fullName: true } },
+      _count: { select: { items: true } }
+    },
+    orderBy: { createdAt: 'desc' }
+  });
+};
+
+/**
+ * Obtiene un traslado con sus líneas
+ *
+ * @param id - ID del traslado
+ * @param tenantId - ID del tenant
+ * @returns Traslado o null si no existe
+ */
+export const getStockTransferById = async (id: string, tenantId: string) => {
+  return prisma.stockTransfer.findFirst({
+    where: { id, tenantId },
+    select: {
+      ...STOCK_TRANSFER_FIELDS,
+      createdBy: { select: { id: true, fullName: true } },
+      items: {
+        select: {
+          id: true,
+          productId: true,
+          quantity: true,
+          product: { select: { id: true, name: true, sku: true, unit: true } }
+        }
+      }
+    }
+  });
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Registra un traslado entre bodegas
+ * Cada línea sale de la bodega de origen y entra a la de destino como movimientos de traslado en el kardex;
+ * si el origen no tiene existencias suficientes el traslado completo se revierte
+ *
+ * @param data - Bodegas de origen y destino y líneas a trasladar
+ * @param tenantId - ID del tenant
+ * @returns Traslado creado con sus líneas
+ */
+export const createStockTransfer = async (data: CreateStockTransferInput, tenantId: string) => {
+  if (!data.fromLocationId || !data.toLocationId) {
+    throw new Error('Las bodegas de origen y destino son requeridas');
+  }
+  if (data.fromLocationId === data.toLocationId) {
+    throw new Error('La bodega de destino es inválida: debe ser distinta a la de origen');
+  }
+  if (!data.items || data.items.length === 0) {
+    throw new Error('El traslado debe tener al menos un producto');
+  }
+
+  const transfer = await prisma.$transaction(async (tx) => {
+    const fromLocation = await resolveLocation(tx, tenantId, data.fromLocationId);
+    const toLocation = await resolveLocation(tx, tenantId, data.toLocationId);
+
+    // Las líneas repetidas del mismo producto se trasladan juntas
+    const quantities = new Map<string, number>();
+    for (const item of data.items) {
+      const product = await tx.product.findFirst({
+        where: { id: item.productId, tenantId },
+        select: { id: true, name: true, unit: true }
+      });
+      if (!product) {
+        throw new Error(`Producto con ID ${item.productId} no encontrado`);
+      }
+
+      const quantity = Number(item.quantity);
+      if (!isValidQuantity(quantity, product.unit) || quantity <= 0) {
+        throw new Error(
+          `La cantidad a trasladar de "${product.name}" es inválida: debe ser ${describeQuantity(product.unit)} mayor a cero`
+        );
+      }
+      quantities.set(product.id, roundQuantity((quantities.get(product.id) ?? 0) + quantity));
+    }
+
+    const number = await allocateDocumentNumber(tx, tenantId, 'STOCK_TRANSFER');
+    const created = await tx.stockTransfer.create({
+      data: {
+        tenantId,
+        number,
+        fromLocationId: fromLocation.id,
+        toLocationId: toLocation.id,
+        notes: data.notes?.trim() || null,
+        createdById: data.createdById || null,
+        items: {
+          create: [...quantities].map(([productId, quantity]) => ({ productId, quantity }))
+        }
+      },
+      select: { id: true, number: true }
+    });
+
+    const notes = `Traslado ${number}: ${fromLocation.name} → ${toLocation.name}`;
+    for (const [productId, quantity] of quantities) {
+      // Los lotes que salen del origen llegan con el mismo número y vencimiento al destino
+      const out = await recordStockMovement(tx, {
+        tenantId,
+        productId,
+        type: 'TRANSFER',
+        quantity: -quantity,
+        userId: data.createdById,
+        stockTransferId: created.id,
+        locationId: fromLocation.id,
+        notes
+      });
+      await recordStockMovement(tx, {
+        tenantId,
+        productId,
+        type: 'TRANSFER',
+        quantity,
+        userId: data.createdById,
+        stockTransferId: created.id,
+        locationId: toLocation.id,
+        notes,
+        lots: out.lots.map((lot) => ({ lotNumber: lot.lotNumber, expiryDate: lot.expiryDate, quantity: lot.quantity }))
+      });
+    }
+
+    return created;
+  });
+
+  console.log(`✅ [StockTransferService] Traslado registrado: ${transfer.number} (${transfer.id})`);
+  return getStockTransferById(transfer.id, tenantId);
+};
@@ -0,0 +1,406 @@
+// backend/src/services/supplierBillService.ts
+// Servicio de cuentas por pagar - Facturas de proveedores y sus pagos
+
+import { PaymentMethod, Prisma, SupplierBillStatus } from '@prisma/client';
+
+import prisma from '../db';
+import { ACCOUNT_CODES } from '../config/constants';
+import {
+  postSupplierBillJournalEntry,
+  postSupplierPaymentJournalEntry,
+  roundCurrency
+} from './accountingService';
+import { PAYMENT_METHODS } from './paymentService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Interfaz para registrar una factura de proveedor (sin tenantId, se maneja internamente)
+ * Si se asocia a una compra, la base y el IVA se toman de la compra cuando no se envían
+ */
+export interface CreateSupplierBillInput {
+  supplierId: string;
+  purchaseId?: string | null;
+  billNumber: string; // Número de la factura emitida por el proveedor
+  issueDate?: Date | string;
+  dueDate?: Date | string; // Por defecto la fecha de emisión más el plazo de pago del proveedor
+  subtotal?: number;
+  taxTotal?: number;
+  accountCode?: string; // Cuenta a debitar, por defecto inventario de mercancías
+  notes?: string | null;
+  createdById?: string | null;
+}
+
+/**
+ * Interfaz para registrar un pago a proveedor (sin tenantId ni supplierBillId, se manejan internamente)
+ */
+export interface CreateSupplierPaymentInput {
+  amount: number;
+  method: PaymentMethod;
+  paymentDate?: Date | string;
+  reference?: string | null;
+  notes?: string | null;
+  createdById?: string | null;
+}
+
+// Filtros del listado de facturas de proveedores
+export interface SupplierBillFilterOptions {
+  supplierId?: string;
+  status?: SupplierBillStatus;
+}
+
+const SUPPLIER_BILL_STATUSES: SupplierBillStatus[] = ['OPEN', 'PAID'];
+
+const SUPPLIER_BILL_FIELDS = {
+  id: true,
+  tenantId: true,
+  supplierId: true,
+  purchaseId: true,
+  billNumber: true,
+  issueDate: true,
+  dueDate: true,
+  subtotal: true,
+  taxTotal: true,
+  total: true,
+  totalPaid: true,
+  status: true,
+  notes: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+const SUPPLIER_PAYMENT_FIELDS = {
+  id: true,
+  tenantId: true,
+  supplierBillId: true,
+  amount: true,
+  method: true,
+  paymentDate: true,
+  reference: true,
+  notes: true,
+  createdById: true,
+  createdAt: true
+} as const;
+
+// ==================== UTILIDADES ====================
+
+const parseDate = (value: Date | string, message: string): Date => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(message);
+  }
+  return date;
+};
+
+/**
+ * Agrega el saldo pendiente (total - totalPaid) a una factura de proveedor
+ */
+const withBalance = <T extends { total: Prisma.Decimal; totalPaid: Prisma.Decimal }>(bill: T) => ({
+  ...bill,
+  balance: bill.total.minus(bill.totalPaid)
+});
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene las facturas de proveedores de un tenant, las de vencimiento más próximo primero
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Filtros por proveedor y estado
+ * @returns Facturas con su saldo pendiente
+ */
+export const getSupplierBills = async (tenantId: string, options: SupplierBillFilterOptions = {}) => {
+  const where: Prisma.SupplierBillWhereInput = { tenantId };
+
+  if (options.supplierId) {
+    where.supplierId = options.supplierId;
+  }
+  if (options.status) {
+    if (!SUPPLIER_BILL_STATUSES.includes(options.status)) {
+      throw new Error(`El estado es inválido: use ${SUPPLIER_BILL_STATUSES.join(' o ')}`);
+    }
+    where.status = options.status;
+  }
+
+  const bills = await prisma.supplierBill.findMany({
+    where,
+    select: {
+      ...SUPPLIER_BILL_FIELDS,
+      supplier: { select: { id: true, businessName: true } },
+      purchase: { select: { id: true, number: true } }
+    },
+    orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }]
+  });
+
+  return bills.map(withBalance);
+};
+
+/**
+ * Obtiene una factura de proveedor con su historial de pagos
+ *
+ * @param id - ID de la factura del proveedor
+ * @param tenantId - ID del tenant
+ * @returns Factura con su saldo y pagos, o null si no existe
+ */
+export const getSupplierBillById = async (id: string, tenantId: string) => {
+  const bill = await prisma.supplierBill.findFirst({
+    where: { id, tenantId },
+    select: {
+      ...SUPPLIER_BILL_FIELDS,
+      supplier: { select: { id: true, businessName: true, identification: true, dv: true } },
+      purchase: { select: { id: true, number: true } },
+      payments: {
+        select: {
+          ...SUPPLIER_PAYMENT_FIELDS,
+          createdBy: { select: { id: true, fullName: true } }
+        },
+        orderBy: { paymentDate: 'asc' }
+      }
+    }
+  });
+
+  return bill ? withBalance(bill) : null;
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Registra una factura de proveedor como cuenta por pagar
+ * Genera el asiento contra proveedores y aumenta el saldo por pagar al proveedor
+ *
+ * @param data - Datos de la factura del proveedor
+ * @param tenantId - ID del tenant
+ * @returns Factura creada con su saldo
+ */
+export const createSupplierBill = async (data: CreateSupplierBillInput, tenantId: string) => {
+  if (!data.supplierId) {
+    throw new Error('El proveedor de la factura es requerido');
+  }
+  const billNumber = data.billNumber?.trim();
+  if (!billNumber) {
+    throw new Error('El número de la factura del proveedor es requerido');
+  }
+  if (billNumber.length > 50) {
+    throw new Error('El número de la factura del proveedor es inválido: máximo 50 caracteres');
+  }
+
+  const issueDate = data.issueDate
+    ? parseDate(data.issueDate, 'La fecha de emisión es inválida')
+    : new Date();
+
+  try {
+    const bill = await prisma.$transaction(async (tx) => {
+      const supplier = await tx.supplier.findFirst({
+        where: { id: data.supplierId, tenantId },
+        select: { id: true, businessName: true, paymentTermDays: true }
+      });
+      if (!supplier) {
+        throw new Error('Proveedor no encontrado');
+      }
+
+      let subtotal = data.subtotal;
+      let taxTotal = data.taxTotal;
+
+      if (data.purchaseId) {
+        const purchase = await tx.purchase.findFirst({
+          where: { id: data.purchaseId, tenantId },
+          select: { id: true, number: true, supplierId: true, subtotal: true, taxTotal: true }
+        });
+        if (!purchase) {
+          throw new Error('Compra no encontrada');
+        }
+        if (purchase.supplierId !== supplier.id) {
+          throw new Error(`La compra ${purchase.number} no pertenece al proveedor ${supplier.businessName}`);
+        }
+        const alreadyBilled = await tx.supplierBill.findFirst({
+          where: { purchaseId: purchase.id },
+          select: { billNumber: true }
+        });
+        if (alreadyBilled) {
+          throw new Error(`Ya existe la factura ${alreadyBilled.billNumber} para la compra ${purchase.number}`);
+        }
+        subtotal = subtotal ?? Number(purchase.subtotal);
+        taxTotal = taxTotal ?? Number(purchase.taxTotal);
+      }
+
+      if (subtotal === undefined || subtotal === null || !Number.isFinite(Number(subtotal)) || Number(subtotal) < 0) {
+        throw new Error('La base de la factura es requerida y debe ser mayor o igual a 0');
+      }
+      taxTotal = taxTotal ?? 0;
+      if (!Number.isFinite(Number(taxTotal)) || Number(taxTotal) < 0) {
+        throw new Error('El IVA de la factura es inválido: debe ser mayor o igual a 0');
+      }
+
+      const roundedSubtotal = roundCurrency(Number(subtotal));
+      const roundedTaxTotal = roundCurrency(Number(taxTotal));
+      const total = roundCurrency(roundedSubtotal + roundedTaxTotal);
+      if (total <= 0) {
+        throw new Error('El total de la factura del proveedor es inválido: debe ser mayor a cero');
+      }
+
+      let dueDate: Date;
+      if (data.dueDate) {
+        dueDate = parseDate(data.dueDate, 'La fecha de vencimiento es inválida');
+      } else {
+        dueDate = new Date(issueDate);
+        dueDate.setUTCDate(dueDate.getUTCDate() + supplier.paymentTermDays);
+      }
+      if (dueDate < issueDate) {
+        throw new Error('La fecha de vencimiento es inválida: no puede ser anterior a la fecha de emisión');
+      }
+
+      const created = await tx.supplierBill.create({
+        data: {
+          tenantId,
+          supplierId: supplier.id,
+          purchaseId: data.purchaseId || null,
+          billNumber,
+          issueDate,
+          dueDate,
+          subtotal: roundedSubtotal,
+          taxTotal: roundedTaxTotal,
+          total,
+          notes: data.notes?.trim() || null,
+          createdById: data.createdById || null
+        },
+        select: {
+          ...SUPPLIER_BILL_FIELDS,
+          supplier: { select: { id: true, businessName: true } },
+          purchase: { select: { id: true, number: true } }
+        }
+      });
+
+      await postSupplierBillJournalEntry(tx, {
+        id: created.id,
+        tenantId,
+        billNumber,
+        supplierName: supplier.businessName,
+        issueDate,
+        subtotal: created.subtotal,
+        taxTotal: created.taxTotal,
+        total: created.total,
+        debitAccountCode: data.accountCode?.trim() || ACCOUNT_CODES.INVENTORY
+      });
+
+      await tx.supplier.update({
+        where: { id: supplier.id },
+        data: { currentBalance: { increment: created.total } }
+      });
+
+      return created;
+    });
+
+    console.log(`✅ [SupplierBillService] Factura de proveedor registrada: ${bill.billNumber} (${bill.id})`);
+    return withBalance(bill);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error(`Ya existe una factura ${billNumber} de este proveedor`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Registra un pago (abono) a una factura de proveedor
+ * Incrementa el total pagado, marca la factura como PAID cuando queda saldada,
+ * genera el asiento del pago y reduce el saldo por pagar al proveedor
+ *
+ * @param supplierBillId - ID de la factura del proveedor
+ * @param data - Datos del pago
+ * @param tenantId - ID del tenant
+ * @returns Pago creado y saldo actualizado de la factura
+ */
+export const registerSupplierPayment = async (
+  supplierBillId: string,
+  data: CreateSupplierPaymentInput,
+  tenantId: string
+) => {
+  const amount = roundCurrency(Number(data.amount));
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error('El valor del pago es requerido y debe ser mayor a cero');
+  }
+  if (!PAYMENT_METHODS.includes(data.method)) {
+    throw new Error('El medio de pago es inválido: use CASH o TRANSFER');
+  }
+
+  const paymentDate = data.paymentDate
+    ? parseDate(data.paymentDate, 'La fecha del pago es inválida')
+    : new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const bill = await tx.supplierBill.findFirst({
+      where: { id: supplierBillId, tenantId },
+      select: {
+        id: true,
+        supplierId: true,
+        billNumber: true,
+        status: true,
+        total: true,
+        totalPaid: true
+      }
+    });
+
+    if (!bill) {
+      throw new Error('Factura de proveedor no encontrada');
+    }
+    if (bill.status === 'PAID') {
+      throw new Error(`La factura ${bill.billNumber} ya está pagada`);
+    }
+
+    const balance = bill.total.minus(bill.totalPaid);
+    if (balance.lessThan(amount)) {
+      throw new Error(
+        `El pago de ${amount.toFixed(2)} excede el saldo pendiente de la factura (${balance.toFixed(2)})`
+      );
+    }
+
+    const newTotalPaid = bill.totalPaid.plus(amount);
+    const newStatus: SupplierBillStatus = newTotalPaid.equals(bill.total) ? 'PAID' : 'OPEN';
+
+    // Actualización condicionada al total pagado leído para no perder pagos simultáneos
+    const updated = await tx.supplierBill.updateMany({
+      where: { id: bill.id, totalPaid: bill.totalPaid },
+      data: { totalPaid: newTotalPaid, status: newStatus }
+    });
+    if (updated.count === 0) {
+      throw new Error('La factura fue modificada por otro pago simultáneo. Intenta nuevamente');
+    }
+
+    const payment = await tx.supplierPayment.create({
+      data: {
+        tenantId,
+        supplierBillId: bill.id,
+        amount,
+        method: data.method,
+        paymentDate,
+        reference: data.reference?.trim() || null,
+        notes: data.notes?.trim() || null,
+        createdById: data.createdById || null
+      },
+      select: SUPPLIER_PAYMENT_FIELDS
+    });
+
+    await postSupplierPaymentJournalEntry(tx, payment, bill.billNumber);
+
+    await tx.supplier.update({
+      where: { id: bill.supplierId },
+      data: { currentBalance: { decrement: new Prisma.Decimal(amount) } }
+    });
+
+    console.log(`✅ [SupplierBillService] Pago registrado a la factura de proveedor ${bill.billNumber}: ${amount.toFixed(2)}`);
+
+    return {
+      payment,
+      supplierBill: {
+        id: bill.id,
+        billNumber: bill.billNumber,
+        status: newStatus,
+        total: bill.total,
+        totalPaid: newTotalPaid,
+        balance: bill.total.minus(newTotalPaid)
+      }
+    };
+  });
+};
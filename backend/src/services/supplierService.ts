@@ -0,0 +1,268 @@
+// backend/src/services/supplierService.ts
+// Servicio de proveedores - Terceros a quienes se compra mercancía
+
+import { DocumentType, Prisma } from '@prisma/client';
+
+import prisma from '../db';
+import { calculateNitDv } from './settingsService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+/**
+ * Interfaz para crear un proveedor (sin tenantId, se maneja internamente)
+ */
+export interface CreateSupplierInput {
+  businessName: string;
+  documentType?: DocumentType;
+  identification: string;
+  dv?: string | null;
+  contactName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  paymentTermDays?: number; // Plazo de pago en días (0 = contado)
+  isActive?: boolean;
+}
+
+export type UpdateSupplierInput = Partial<CreateSupplierInput>;
+
+// Opciones de filtrado para getSuppliers
+export interface SupplierFilterOptions {
+  includeInactive?: boolean;
+  search?: string;
+}
+
+const DOCUMENT_TYPES: DocumentType[] = ['NIT', 'CC', 'PASSPORT'];
+
+const SUPPLIER_FIELDS = {
+  id: true,
+  tenantId: true,
+  businessName: true,
+  documentType: true,
+  identification: true,
+  dv: true,
+  contactName: true,
+  email: true,
+  phone: true,
+  address: true,
+  paymentTermDays: true,
+  currentBalance: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Normaliza y valida el documento del proveedor
+ * Para NIT calcula el dígito de verificación o valida el enviado
+ */
+const normalizeDocument = (documentType: DocumentType, identification: string, dv?: string | null) => {
+  if (!DOCUMENT_TYPES.includes(documentType)) {
+    throw new Error(`El tipo de documento es inválido: use ${DOCUMENT_TYPES.join(', ')}`);
+  }
+
+  const cleanIdentification = identification.replace(/[\s.-]/g, '');
+  if (!cleanIdentification) {
+    throw new Error('La identificación del proveedor es requerida');
+  }
+
+  if (documentType !== 'NIT') {
+    return { documentType, identification: cleanIdentification, dv: null };
+  }
+
+  if (!/^\d{5,15}$/.test(cleanIdentification)) {
+    throw new Error('El NIT del proveedor es inválido: debe tener entre 5 y 15 dígitos');
+  }
+  const expectedDv = calculateNitDv(cleanIdentification);
+  if (dv && dv.trim() !== expectedDv) {
+    throw new Error(`El dígito de verificación del NIT es inválido: para ${cleanIdentification} es ${expectedDv}`);
+  }
+
+  return { documentType, identification: cleanIdentification, dv: expectedDv };
+};
+
+const validatePaymentTerm = (paymentTermDays: number) => {
+  if (!Number.isInteger(paymentTermDays) || paymentTermDays < 0) {
+    throw new Error('El plazo de pago es inválido: debe ser un número entero de días mayor o igual a 0');
+  }
+};
+
+// ==================== READ OPERATIONS ====================
+
+/**
+ * Obtiene los proveedores de un tenant
+ *
+ * @param tenantId - ID del tenant
+ * @param options - Opciones de filtrado
+ * @returns Proveedores ordenados por razón social
+ */
+export const getSuppliers = async (tenantId: string, options: SupplierFilterOptions = {}) => {
+  const where: Prisma.SupplierWhereInput = { tenantId };
+
+  if (!options.includeInactive) {
+    where.isActive = true;
+  }
+  if (options.search?.trim()) {
+    const search = options.search.trim();
+    where.OR = [
+      { businessName: { contains: search, mode: 'insensitive' } },
+      { identification: { contains: search } }
+    ];
+  }
+
+  return prisma.supplier.findMany({
+    where,
+    select: SUPPLIER_FIELDS,
+    orderBy: { businessName: 'asc' }
+  });
+};
+
+/**
+ * Obtiene un proveedor por ID
+ *
+ * @param id - ID del proveedor
+ * @param tenantId - ID del tenant
+ * @returns Proveedor o null si no existe
+ */
+export const getSupplierById = async (id: string, tenantId: string) => {
+  return prisma.supplier.findFirst({
+    where: { id, tenantId },
+    select: SUPPLIER_FIELDS
+  });
+};
+
+// ==================== CREATE OPERATIONS ====================
+
+/**
+ * Crea un proveedor
+ *
+ * @param data - Datos del proveedor
+ * @param tenantId - ID del tenant
+ * @returns Proveedor creado
+ */
+export const createSupplier = async (data: CreateSupplierInput, tenantId: string) => {
+  if (!data.businessName?.trim()) {
+    throw new Error('La razón social del proveedor es requerida');
+  }
+  if (!data.identification?.trim()) {
+    throw new Error('La identificación del proveedor es requerida');
+  }
+
+  const document = normalizeDocument(data.documentType || 'NIT', data.identification, data.dv);
+  const paymentTermDays = data.paymentTermDays ?? 0;
+  validatePaymentTerm(paymentTermDays);
+
+  try {
+    return await prisma.supplier.create({
+      data: {
+        tenantId,
+        businessName: data.businessName.trim(),
+        ...document,
+        contactName: data.contactName?.trim() || null,
+        email: data.email?.trim() || null,
+        phone: data.phone?.trim() || null,
+        address: data.address?.trim() || null,
+        paymentTermDays,
+        isActive: data.isActive ?? true
+      },
+      select: SUPPLIER_FIELDS
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error(`Ya existe un proveedor con el documento ${document.identification}`);
+    }
+    throw error;
+  }
+};
+
+// ==================== UPDATE OPERATIONS ====================
+
+/**
+ * Actualiza un proveedor
+ *
+ * @param id - ID del proveedor
+ * @param data - Datos a actualizar
+ * @param tenantId - ID del tenant
+ * @returns Proveedor actualizado
+ */
+export const updateSupplier = async (id: string, data: UpdateSupplierInput, tenantId: string) => {
+  const existing = await prisma.supplier.findFirst({
+    where: { id, tenantId },
+    select: { id: true, documentType: true, identification: true, dv: true }
+  });
+
+  if (!existing) {
+    throw new Error('Proveedor no encontrado');
+  }
+
+  const updateData: Prisma.SupplierUpdateInput = {};
+
+  if (data.businessName !== undefined) {
+    if (!data.businessName.trim()) {
+      throw new Error('La razón social del proveedor es requerida');
+    }
+    updateData.businessName = data.businessName.trim();
+  }
+
+  if (data.documentType !== undefined || data.identification !== undefined || data.dv !== undefined) {
+    Object.assign(
+      updateData,
+      normalizeDocument(
+        data.documentType ?? existing.documentType,
+        data.identification ?? existing.identification,
+        data.dv !== undefined ? data.dv : null
+      )
+    );
+  }
+
+  if (data.paymentTermDays !== undefined) {
+    validatePaymentTerm(data.paymentTermDays);
+    updateData.paymentTermDays = data.paymentTermDays;
+  }
+  if (data.contactName !== undefined) updateData.contactName = data.contactName?.trim() || null;
+  if (data.email !== undefined) updateData.email = data.email?.trim() || null;
+  if (data.phone !== undefined) updateData.phone = data.phone?.trim() || null;
+  if (data.address !== undefined) updateData.address = data.address?.trim() || null;
+  if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+  try {
+    return await prisma.supplier.update({
+      where: { id },
+      data: updateData,
+      select: SUPPLIER_FIELDS
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error('Ya existe un proveedor con ese documento');
+    }
+    throw error;
+  }
+};
+
+// ==================== DELETE OPERATIONS ====================
+
+/**
+ * Elimina un proveedor sin compras ni facturas registradas
+ * Un proveedor con movimientos se conserva para la trazabilidad: debe desactivarse
+ *
+ * @param id - ID del proveedor
+ * @param tenantId - ID del tenant
+ */
+export const deleteSupplier = async (id: string, tenantId: string) => {
+  const supplier = await prisma.supplier.findFirst({
+    where: { id, tenantId },
+    select: { id: true, _count: { select: { purchases: true, bills: true } } }
+  });
+
+  if (!supplier) {
+    throw new Error('Proveedor no encontrado');
+  }
+  if (supplier._count.purchases > 0 || supplier._count.bills > 0) {
+    throw new Error('No se puede eliminar un proveedor con compras o facturas registradas: desactívalo');
+  }
+
+  await prisma.supplier.delete({ where: { id } });
+  return { id };
+};
@@ -0,0 +1,95 @@
+// backend/src/services/taxService.ts
+// Servicio de impuestos - Tarifas de IVA por categoría tributaria y resumen por tarifa
+
+import { Prisma, TaxCategory } from '@prisma/client';
+
+import { TAX_CATEGORY_RATES } from '../config/constants';
+
+// ==================== TIPOS E INTERFACES ====================
+
+export const TAX_CATEGORIES = Object.keys(TAX_CATEGORY_RATES) as TaxCategory[];
+
+// Tarifa resuelta para una línea de factura
+export interface LineTax {
+  taxCategory: TaxCategory;
+  rate: number; // Porcentaje, igual que InvoiceItem.taxRateApplied
+}
+
+// Línea con los valores necesarios para el resumen de impuestos
+export interface TaxableLine {
+  taxCategory: TaxCategory;
+  taxRateApplied: Prisma.Decimal.Value;
+  taxAmount: Prisma.Decimal.Value;
+  totalAmount: Prisma.Decimal.Value;
+}
+
+// Base gravable e impuesto de una tarifa de la factura
+export interface TaxBreakdownEntry {
+  taxCategory: TaxCategory;
+  rate: Prisma.Decimal;
+  taxableBase: Prisma.Decimal;
+  taxAmount: Prisma.Decimal;
+}
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Valida que una categoría tributaria exista
+ */
+export const isTaxCategory = (value: unknown): value is TaxCategory => {
+  return typeof value === 'string' && TAX_CATEGORIES.includes(value as TaxCategory);
+};
+
+/**
+ * Resuelve la tarifa de IVA de una línea
+ * Sin tarifa explícita se usa la categoría del producto; una tarifa explícita debe ser una
+ * de las vigentes y conserva la categoría del producto cuando coincide con ella
+ *
+ * @param productCategory - Categoría tributaria del producto
+ * @param taxRate - Tarifa (%) enviada para la línea, opcional
+ */
+export const resolveLineTax = (productCategory: TaxCategory, taxRate?: number | null): LineTax => {
+  if (taxRate === undefined || taxRate === null) {
+    return { taxCategory: productCategory, rate: TAX_CATEGORY_RATES[productCategory] };
+  }
+
+  const rate = Number(taxRate);
+  if (TAX_CATEGORY_RATES[productCategory] === rate) {
+    return { taxCategory: productCategory, rate };
+  }
+
+  const taxCategory = TAX_CATEGORIES.find((category) => TAX_CATEGORY_RATES[category] === rate);
+  if (!taxCategory) {
+    const validRates = [...new Set(Object.values(TAX_CATEGORY_RATES))].join('%, ');
+    throw new Error(`La tarifa de IVA ${taxRate}% es inválida: use ${validRates}%`);
+  }
+
+  return { taxCategory, rate };
+};
+
+/**
+ * Agrupa las líneas por categoría y tarifa: base gravable e impuesto de cada una
+ * Ordenado de mayor a menor tarifa
+ */
+export const buildTaxBreakdown = (lines: TaxableLine[]): TaxBreakdownEntry[] => {
+  const groups: { [key: string]: TaxBreakdownEntry } = {};
+
+  lines.forEach((line) => {
+    const rate = new Prisma.Decimal(line.taxRateApplied);
+    const key = `${line.taxCategory}:${rate.toFixed(2)}`;
+    if (!groups[key]) {
+      groups[key] = {
+        taxCategory: line.taxCategory,
+        rate,
+        taxableBase: new Prisma.Decimal(0),
+        taxAmount: new Prisma.Decimal(0)
+      };
+    }
+    groups[key].taxableBase = groups[key].taxableBase.plus(
+      new Prisma.Decimal(line.totalAmount).minus(line.taxAmount)
+    );
+    groups[key].taxAmount = groups[key].taxAmount.plus(line.taxAmount);
+  });
+
+  return Object.values(groups).sort((a, b) => b.rate.comparedTo(a.rate));
+};
@@ -0,0 +1,84 @@
+// backend/src/services/unitService.ts
+// Servicio de unidades de medida - Cantidades fraccionadas y conversión de unidades de compra a unidades de venta
+
+import { UnitOfMeasure } from '@prisma/client';
+
+import { QUANTITY_DECIMALS, UNIT_OF_MEASURE_FRACTIONAL } from '../config/constants';
+
+// ==================== TIPOS E INTERFACES ====================
+
+export const UNITS_OF_MEASURE = Object.keys(UNIT_OF_MEASURE_FRACTIONAL) as UnitOfMeasure[];
+
+// Unidad de venta y de compra de un producto
+export interface ProductUnits {
+  unit: UnitOfMeasure;
+  purchaseUnit?: UnitOfMeasure | null;
+  unitsPerPurchaseUnit?: { toString(): string } | number | null;
+}
+
+const QUANTITY_FACTOR = 10 ** QUANTITY_DECIMALS;
+
+// ==================== UTILIDADES ====================
+
+/**
+ * Valida que una unidad de medida exista
+ */
+export const isUnitOfMeasure = (value: unknown): value is UnitOfMeasure => {
+  return typeof value === 'string' && UNITS_OF_MEASURE.includes(value as UnitOfMeasure);
+};
+
+/**
+ * Indica si la unidad admite cantidades fraccionadas (kg, g, L, m)
+ */
+export const allowsFractions = (unit: UnitOfMeasure): boolean => {
+  return UNIT_OF_MEASURE_FRACTIONAL[unit];
+};
+
+/**
+ * Redondea una cantidad a los decimales con que se guardan existencias y movimientos
+ * Evita que sumas de fracciones (0,1 + 0,2) dejen residuos de punto flotante en el stock
+ */
+export const roundQuantity = (value: number): number => {
+  return Math.round(value * QUANTITY_FACTOR) / QUANTITY_FACTOR;
+};
+
+/**
+ * Valida una cantidad para la unidad indicada: entera en unidades y cajas,
+ * con hasta 4 decimales en unidades fraccionables
+ */
+export const isValidQuantity = (quantity: number, unit: UnitOfMeasure): boolean => {
+  if (!Number.isFinite(quantity)) {
+    return false;
+  }
+  if (!allowsFractions(unit)) {
+    return Number.isInteger(quantity);
+  }
+  return roundQuantity(quantity) === quantity;
+};
+
+/**
+ * Describe el tipo de cantidad que acepta una unidad, para los mensajes de validación
+ */
+export const describeQuantity = (unit: UnitOfMeasure): string => {
+  return allowsFractions(unit) ? `un número de ${unit} con hasta ${QUANTITY_DECIMALS} decimales` : 'un entero';
+};
+
+/**
+ * Factor de conversión de una unidad a la unidad de venta del producto
+ * La unidad de venta vale 1; la unidad de compra vale las unidades de venta que contiene (una caja de 24)
+ *
+ * @param product - Unidades del producto
+ * @param unit - Unidad en que viene la cantidad
+ * @returns Unidades de venta por unidad indicada
+ */
+export const getConversionFactor = (product: ProductUnits, unit: UnitOfMeasure): number => {
+  if (unit === product.unit) {
+    return 1;
+  }
+  if (product.purchaseUnit && unit === product.purchaseUnit) {
+    return Number(product.unitsPerPurchaseUnit ?? 1);
+  }
+
+  const validUnits = [product.unit, product.purchaseUnit].filter(Boolean).join(' o ');
+  throw new Error(`La unidad ${unit} es inválida para el producto: use ${validUnits}`);
+};
@@ -0,0 +1,336 @@
+// backend/src/services/xlsxService.ts
+// Servicio XLSX - Lectura y escritura de hojas de Excel (una hoja, sin estilos) sobre un ZIP armado con zlib
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+import { CsvValue, escapeFormula } from './csvService';
+
+// ==================== TIPOS E INTERFACES ====================
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+// Tamaño máximo descomprimido de un archivo dentro del XLSX (evita archivos que se inflan sin límite)
+const MAX_ENTRY_SIZE = 50 * 1024 * 1024;
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+// Fecha DOS fija (1980-01-01): el contenido no depende de la hora de generación
+const ZIP_DOS_DATE = (1 << 5) | 1;
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Tabla del CRC-32 (polinomio 0xEDB88320) que exige el formato ZIP
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+// ==================== UTILIDADES ====================
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Indica si un archivo es un ZIP (los XLSX lo son) por su firma inicial
+ */
+export const isZipFile = (data: Buffer): boolean => {
+  return data.length >= 4 && data.readUInt32LE(0) === ZIP_LOCAL_HEADER;
+};
+
+/**
+ * Arma un ZIP con los archivos indicados, comprimidos con deflate
+ */
+const buildZip = (entries: ZipEntry[]): Buffer => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(ZIP_LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4); // Versión necesaria para extraer
+    local.writeUInt16LE(0x0800, 6); // Nombres en UTF-8
+    local.writeUInt16LE(8, 8); // Deflate
+    local.writeUInt16LE(0, 10);
+    local.writeUInt16LE(ZIP_DOS_DATE, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(ZIP_CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4); // Versión que lo creó
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(ZIP_DOS_DATE, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(ZIP_END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, end]);
+};
+
+/**
+ * Lee los archivos de un ZIP a partir de su directorio central
+ */
+const readZip = (data: Buffer): Map<string, Buffer> => {
+  // El fin del directorio central está al final, antes de un comentario opcional de hasta 64 KB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('El archivo Excel es inválido: no es un archivo .xlsx');
+  }
+
+  const files = new Map<string, Buffer>();
+  const count = data.readUInt16LE(end + 10);
+  let position = data.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    if (data.readUInt32LE(position) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('El archivo Excel es inválido: el contenido está dañado');
+    }
+    const method = data.readUInt16LE(position + 10);
+    const compressedSize = data.readUInt32LE(position + 20);
+    const nameLength = data.readUInt16LE(position + 28);
+    const extraLength = data.readUInt16LE(position + 30);
+    const commentLength = data.readUInt16LE(position + 32);
+    const localOffset = data.readUInt32LE(position + 42);
+    const name = data.toString('utf8', position + 46, position + 46 + nameLength);
+
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const content = data.subarray(start, start + compressedSize);
+    if (method === 0) {
+      files.set(name, content);
+    } else if (method === 8) {
+      files.set(name, inflateRawSync(content, { maxOutputLength: MAX_ENTRY_SIZE }));
+    }
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+};
+
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Caracteres de control que XML no admite
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+};
+
+const unescapeXml = (text: string): string => {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+};
+
+/**
+ * Letras de la columna de Excel (0 = A, 26 = AA)
+ */
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const columnIndex = (reference: string): number => {
+  const letters = reference.replace(/\d+$/, '');
+  return letters.split('').reduce((sum, letter) => sum * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * Texto de un elemento de cadena (<si> o <is>): une los <t> de los fragmentos con formato
+ */
+const readStringItem = (xml: string): string => {
+  return [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((match) => unescapeXml(match[1])).join('');
+};
+
+// ==================== OPERACIONES ====================
+
+/**
+ * Arma un libro de Excel con una hoja: la primera fila con los encabezados
+ *
+ * @param sheetName - Nombre de la hoja
+ * @param headers - Títulos de las columnas
+ * @param rows - Filas con un valor por columna (los números quedan como números)
+ * @returns Archivo .xlsx
+ */
+export const toXlsx = (sheetName: string, headers: string[], rows: CsvValue[][]): Buffer => {
+  const sheetRows = [headers, ...rows].map((row, rowIndex) => {
+    const cells = row.map((value, column) => {
+      const reference = `${columnName(column)}${rowIndex + 1}`;
+      if (value === null || value === undefined || value === '') {
+        return '';
+      }
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${reference}"><v>${value}</v></c>`;
+      }
+      const text = typeof value === 'boolean' ? (value ? 'SI' : 'NO') : escapeFormula(String(value));
+      return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const entries: ZipEntry[] = [
+    {
+      name: '[Content_Types].xml',
+      data: Buffer.from(
+        `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+          '</Types>'
+      )
+    },
+    {
+      name: '_rels/.rels',
+      data: Buffer.from(
+        `${xmlHeader}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+          `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+          '</Relationships>'
+      )
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: Buffer.from(
+        `${xmlHeader}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+          `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+          '</workbook>'
+      )
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: Buffer.from(
+        `${xmlHeader}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+          `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+          '</Relationships>'
+      )
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      data: Buffer.from(`${xmlHeader}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`)
+    }
+  ];
+
+  return buildZip(entries);
+};
+
+/**
+ * Lee la primera hoja de un libro de Excel como una matriz de texto
+ * Las celdas vacías quedan como cadena vacía; los números se devuelven tal como los guarda Excel (punto decimal)
+ *
+ * @param data - Archivo .xlsx
+ * @returns Filas de la hoja
+ */
+export const parseXlsx = (data: Buffer): string[][] => {
+  const files = readZip(data);
+
+  // Primera hoja del libro según sus relaciones (por defecto sheet1.xml)
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = files.get('xl/workbook.xml')?.toString('utf8') ?? '';
+  const relations = files.get('xl/_rels/workbook.xml.rels')?.toString('utf8') ?? '';
+  const sheetRelation = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+  if (sheetRelation) {
+    const target = new RegExp(`<Relationship\\b[^>]*\\bId="${sheetRelation}"[^>]*\\bTarget="([^"]+)"`).exec(relations)?.[1]
+      ?? new RegExp(`<Relationship\\b[^>]*\\bTarget="([^"]+)"[^>]*\\bId="${sheetRelation}"`).exec(relations)?.[1];
+    if (target) {
+      sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  const sheet = files.get(sheetPath)?.toString('utf8');
+  if (!sheet) {
+    throw new Error('El archivo Excel es inválido: no tiene hojas');
+  }
+
+  const sharedStrings = [...(files.get('xl/sharedStrings.xml')?.toString('utf8') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map((match) => readStringItem(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(/\br="(\d+)"/.exec(rowMatch[1])?.[1] ?? rows.length + 1);
+    const row: string[] = [];
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] ?? '';
+      const reference = /\br="([A-Z]+\d+)"/.exec(attributes)?.[1];
+      const type = /\bt="(\w+)"/.exec(attributes)?.[1];
+      const rawValue = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1];
+
+      let value = '';
+      if (type === 's' && rawValue !== undefined) {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = readStringItem(content);
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'SI' : 'NO';
+      } else if (rawValue !== undefined) {
+        value = unescapeXml(rawValue);
+      }
+
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) {
+        row.push('');
+      }
+      row[index] = value;
+    }
+    // Las filas vacías intermedias se conservan para que los números de fila coincidan con Excel
+    while (rows.length < rowNumber - 1) {
+      rows.push([]);
+    }
+    rows.push(row);
+  }
+  return rows;
+};
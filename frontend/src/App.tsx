@@ -2,10 +2,19 @@ import { Navigate, Route, Routes } from 'react-router-dom';
 
 import { AuthProvider, useAuth } from './context/AuthContext';
 import AdminLayout from './components/AdminLayout';
+import CatalogList from './components/CatalogList';
 import ClientList from './components/ClientList';
+import InventoryCountList from './components/InventoryCountList';
 import InvoiceList from './components/InvoiceList';
+import LocationList from './components/LocationList';
 import NotFound from './components/NotFound';
+import PriceListList from './components/PriceListList';
+import PromotionList from './components/PromotionList';
 import ProductList from './components/ProductList';
+import PurchaseList from './components/PurchaseList';
+import ResolutionList from './components/ResolutionList';
+import SupplierBillList from './components/SupplierBillList';
+import SupplierList from './components/SupplierList';
 import LoginPage from './pages/LoginPage';
 import Dashboard from './pages/Dashboard';
 import POS from './pages/POS';
@@ -90,6 +99,18 @@ const AppContent = () => {
         }
       />
 
+      {/* Registro de conteos de inventario para cajeros (sin AdminLayout) */}
+      <Route
+        path="/inventory-count"
+        element={
+          <PrivateRoute>
+            <div className="min-h-screen bg-background-light p-6 lg:p-8">
+              <InventoryCountList canManage={false} />
+            </div>
+          </PrivateRoute>
+        }
+      />
+
       {/* Rutas administrativas con AdminLayout */}
       <Route
         path="/dashboard"
@@ -131,6 +152,36 @@ const AppContent = () => {
           </AdminRoute>
         }
       />
+      <Route
+        path="/catalog"
+        element={
+          <AdminRoute>
+            <AdminLayout>
+              <CatalogList />
+            </AdminLayout>
+          </AdminRoute>
+        }
+      />
+      <Route
+        path="/price-lists"
+        element={
+          <AdminRoute>
+            <AdminLayout>
+              <PriceListList />
+            </AdminLayout>
+          </AdminRoute>
+        }
+      />
+      <Route
+        path="/promotions"
+        element={
+          <AdminRoute>
+            <AdminLayout>
+              <PromotionList />
+            </AdminLayout>
+          </AdminRoute>
+        }
+      />
       <Route
         path="/invoices"
         element={
@@ -142,6 +193,72 @@ const AppContent = () => {
         }
       />
 
+      <Route
+        path="/resolutions"
+        element={
+          <AdminRoute>
+            <AdminLayout>
+              <ResolutionList />
+            </AdminLayout>
+          </AdminRoute>
+        }
+      />
+
+      <Route
+        path="/suppliers"
+        element={
+          <AdminRoute>
+            <AdminLayout>
+              <SupplierList />
+            </AdminLayout>
+          </AdminRoute>
+        }
+      />
+
+      <Route
+        path="/purchases"
+        element={
+          <AdminRoute>
+            <AdminLayout>
+              <PurchaseList />
+            </AdminLayout>
+          </AdminRoute>
+        }
+      />
+
+      <Route
+        path="/payables"
+        element={
+          <AdminRoute>
+            <AdminLayout>
+              <SupplierBillList />
+            </AdminLayout>
+          </AdminRoute>
+        }
+      />
+
+      <Route
+        path="/inventory-counts"
+        element={
+          <AdminRoute>
+            <AdminLayout>
+              <InventoryCountList />
+            </AdminLayout>
+          </AdminRoute>
+        }
+      />
+
+      <Route
+        path="/locations"
+        element={
+          <AdminRoute>
+            <AdminLayout>
+              <LocationList />
+            </AdminLayout>
+          </AdminRoute>
+        }
+      />
+
       {/* Ruta 404 */}
             <Route 
         path="*"
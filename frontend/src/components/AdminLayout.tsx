@@ -73,12 +73,66 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
                     >
                       Productos
                     </Link>
+                    <Link
+                      to="/catalog"
+                      className="px-4 py-2 text-sm font-medium text-text-light hover:text-text-dark hover:bg-gray-50 rounded-2xl transition-all duration-200"
+                    >
+                      Categorías
+                    </Link>
+                    <Link
+                      to="/price-lists"
+                      className="px-4 py-2 text-sm font-medium text-text-light hover:text-text-dark hover:bg-gray-50 rounded-2xl transition-all duration-200"
+                    >
+                      Listas de precios
+                    </Link>
+                    <Link
+                      to="/promotions"
+                      className="px-4 py-2 text-sm font-medium text-text-light hover:text-text-dark hover:bg-gray-50 rounded-2xl transition-all duration-200"
+                    >
+                      Promociones
+                    </Link>
                     <Link
                       to="/invoices"
                       className="px-4 py-2 text-sm font-medium text-text-light hover:text-text-dark hover:bg-gray-50 rounded-2xl transition-all duration-200"
                     >
                       Facturas
                     </Link>
+                    <Link
+                      to="/resolutions"
+                      className="px-4 py-2 text-sm font-medium text-text-light hover:text-text-dark hover:bg-gray-50 rounded-2xl transition-all duration-200"
+                    >
+                      Resoluciones
+                    </Link>
+                    <Link
+                      to="/suppliers"
+                      className="px-4 py-2 text-sm font-medium text-text-light hover:text-text-dark hover:bg-gray-50 rounded-2xl transition-all duration-200"
+                    >
+                      Proveedores
+                    </Link>
+                    <Link
+                      to="/purchases"
+                      className="px-4 py-2 text-sm font-medium text-text-light hover:text-text-dark hover:bg-gray-50 rounded-2xl transition-all duration-200"
+                    >
+                      Compras
+                    </Link>
+                    <Link
+                      to="/payables"
+                      className="px-4 py-2 text-sm font-medium text-text-light hover:text-text-dark hover:bg-gray-50 rounded-2xl transition-all duration-200"
+                    >
+                      Por pagar
+                    </Link>
+                    <Link
+                      to="/inventory-counts"
+                      className="px-4 py-2 text-sm font-medium text-text-light hover:text-text-dark hover:bg-gray-50 rounded-2xl transition-all duration-200"
+                    >
+                      Conteos
+                    </Link>
+                    <Link
+                      to="/locations"
+                      className="px-4 py-2 text-sm font-medium text-text-light hover:text-text-dark hover:bg-gray-50 rounded-2xl transition-all duration-200"
+                    >
+                      Bodegas
+                    </Link>
                   </>
                 )}
                 {/* Ruta para todos los usuarios */}
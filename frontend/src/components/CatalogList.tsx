@@ -0,0 +1,412 @@
+import { type ChangeEvent, type FormEvent, useEffect, useState } from 'react';
+import type { AxiosError } from 'axios';
+
+import type { Brand, ProductCategory } from '../services/catalogService';
+import {
+  createBrand,
+  createCategory,
+  deleteBrand,
+  deleteCategory,
+  getBrands,
+  getCategories,
+  getCategoryBranchIds,
+  updateBrand,
+  updateCategory
+} from '../services/catalogService';
+
+const EMPTY_CATEGORY = { name: '', parentId: '' };
+
+// Extrae el mensaje de error enviado por el backend
+const getErrorMessage = (err: unknown, fallback: string) => {
+  return (err as AxiosError<{ message?: string }>)?.response?.data?.message || fallback;
+};
+
+const CatalogList = () => {
+  const [categories, setCategories] = useState<ProductCategory[]>([]);
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [categoryForm, setCategoryForm] = useState(EMPTY_CATEGORY);
+  const [editingCategoryId, setEditingCategoryId] = useState<string | null>(null);
+  const [brandName, setBrandName] = useState('');
+  const [editingBrandId, setEditingBrandId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchCatalog = async () => {
+    const [categoryData, brandData] = await Promise.all([
+      getCategories({ includeInactive: true }),
+      getBrands({ includeInactive: true })
+    ]);
+    setCategories(categoryData);
+    setBrands(brandData);
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        await fetchCatalog();
+      } catch (err) {
+        setError(getErrorMessage(err, 'No fue posible cargar las categorías y marcas.'));
+        console.error('Error al cargar el catálogo:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    void fetchData();
+  }, []);
+
+  // Una categoría no puede moverse dentro de sí misma ni de sus subcategorías
+  const excludedParentIds = editingCategoryId ? getCategoryBranchIds(categories, editingCategoryId) : new Set<string>();
+  const parentOptions = categories.filter((category) => category.isActive && !excludedParentIds.has(category.id));
+
+  const handleCategoryChange = (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = event.target;
+    setCategoryForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleCategorySubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const payload = { name: categoryForm.name.trim(), parentId: categoryForm.parentId || null };
+      if (editingCategoryId) {
+        await updateCategory(editingCategoryId, payload);
+      } else {
+        await createCategory(payload);
+      }
+      setCategoryForm(EMPTY_CATEGORY);
+      setEditingCategoryId(null);
+      await fetchCatalog();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible guardar la categoría. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEditCategory = (category: ProductCategory) => {
+    setEditingCategoryId(category.id);
+    setCategoryForm({ name: category.name, parentId: category.parentId ?? '' });
+  };
+
+  const handleCancelCategoryEdit = () => {
+    setEditingCategoryId(null);
+    setCategoryForm(EMPTY_CATEGORY);
+  };
+
+  const handleToggleCategory = async (category: ProductCategory) => {
+    try {
+      await updateCategory(category.id, { isActive: !category.isActive });
+      await fetchCatalog();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible actualizar la categoría.'));
+      console.error(err);
+    }
+  };
+
+  const handleDeleteCategory = async (category: ProductCategory) => {
+    if (!window.confirm(`¿Eliminar la categoría ${category.path}?`)) {
+      return;
+    }
+    try {
+      await deleteCategory(category.id);
+      await fetchCatalog();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible eliminar la categoría.'));
+      console.error(err);
+    }
+  };
+
+  const handleBrandSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      if (editingBrandId) {
+        await updateBrand(editingBrandId, { name: brandName.trim() });
+      } else {
+        await createBrand({ name: brandName.trim() });
+      }
+      setBrandName('');
+      setEditingBrandId(null);
+      await fetchCatalog();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible guardar la marca. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEditBrand = (brand: Brand) => {
+    setEditingBrandId(brand.id);
+    setBrandName(brand.name);
+  };
+
+  const handleCancelBrandEdit = () => {
+    setEditingBrandId(null);
+    setBrandName('');
+  };
+
+  const handleToggleBrand = async (brand: Brand) => {
+    try {
+      await updateBrand(brand.id, { isActive: !brand.isActive });
+      await fetchCatalog();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible actualizar la marca.'));
+      console.error(err);
+    }
+  };
+
+  const handleDeleteBrand = async (brand: Brand) => {
+    if (!window.confirm(`¿Eliminar la marca ${brand.name}?`)) {
+      return;
+    }
+    try {
+      await deleteBrand(brand.id);
+      await fetchCatalog();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible eliminar la marca.'));
+      console.error(err);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-gray-600">Cargando...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  const inputClassName = 'border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+  return (
+    <div className="space-y-8">
+      {/* Encabezado */}
+      <div className="bg-card-background rounded-3xl shadow-lg p-8">
+        <h2 className="text-4xl lg:text-5xl font-extrabold mb-3 text-text-dark tracking-tight">Categorías y marcas</h2>
+        <p className="text-text-light text-lg">
+          Organiza el catálogo: las categorías pueden tener subcategorías y se muestran como pestañas en el POS
+        </p>
+      </div>
+
+      {/* Formulario de categoría */}
+      <form onSubmit={handleCategorySubmit} className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100 flex flex-col md:flex-row gap-4 md:items-end">
+        <div className="flex flex-col flex-1">
+          <label htmlFor="name" className="block mb-2 font-medium text-text-dark">
+            Categoría *
+          </label>
+          <input
+            id="name"
+            name="name"
+            type="text"
+            value={categoryForm.name}
+            onChange={handleCategoryChange}
+            required
+            placeholder="Ej: Gaseosas"
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex flex-col flex-1">
+          <label htmlFor="parentId" className="block mb-2 font-medium text-text-dark">
+            Dentro de
+          </label>
+          <select
+            id="parentId"
+            name="parentId"
+            value={categoryForm.parentId}
+            onChange={handleCategoryChange}
+            className={inputClassName}
+          >
+            <option value="">Categoría principal</option>
+            {parentOptions.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.path}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-blue-500 text-white px-6 py-3 rounded-2xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md hover:shadow-lg active:scale-[0.98] active:shadow-inner"
+          >
+            {editingCategoryId ? 'Guardar Cambios' : 'Crear Categoría'}
+          </button>
+          {editingCategoryId && (
+            <button
+              type="button"
+              onClick={handleCancelCategoryEdit}
+              className="bg-gray-200 text-text-dark px-6 py-3 rounded-2xl hover:bg-gray-300 active:bg-gray-400 transition-all duration-200 font-semibold active:scale-[0.98]"
+            >
+              Cancelar
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Categorías */}
+      <div className="bg-card-background rounded-3xl shadow-md overflow-hidden border-b-2 border-gray-100">
+        {categories.length === 0 ? (
+          <p className="text-text-light text-center py-8">Aún no hay categorías.</p>
+        ) : (
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Categoría</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Productos</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Estado</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map((category) => (
+                <tr key={category.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">{category.path}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{category._count?.products ?? 0}</td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <span className={`px-3 py-1 rounded-2xl text-xs font-semibold ${category.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                      {category.isActive ? 'Activa' : 'Inactiva'}
+                    </span>
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleEditCategory(category)}
+                        className="bg-blue-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-blue-600 active:bg-blue-700 transition-all duration-200 active:scale-[0.98]"
+                      >
+                        Editar
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleToggleCategory(category)}
+                        className="bg-gray-200 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-300 transition-all duration-200"
+                      >
+                        {category.isActive ? 'Desactivar' : 'Activar'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteCategory(category)}
+                        className="bg-red-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-red-600 active:bg-red-700 transition-all duration-200 active:scale-[0.98]"
+                      >
+                        Eliminar
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Formulario de marca */}
+      <form onSubmit={handleBrandSubmit} className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100 flex flex-col md:flex-row gap-4 md:items-end">
+        <div className="flex flex-col flex-1">
+          <label htmlFor="brandName" className="block mb-2 font-medium text-text-dark">
+            Marca *
+          </label>
+          <input
+            id="brandName"
+            type="text"
+            value={brandName}
+            onChange={(event) => setBrandName(event.target.value)}
+            required
+            placeholder="Ej: Postobón"
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-blue-500 text-white px-6 py-3 rounded-2xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md hover:shadow-lg active:scale-[0.98] active:shadow-inner"
+          >
+            {editingBrandId ? 'Guardar Cambios' : 'Crear Marca'}
+          </button>
+          {editingBrandId && (
+            <button
+              type="button"
+              onClick={handleCancelBrandEdit}
+              className="bg-gray-200 text-text-dark px-6 py-3 rounded-2xl hover:bg-gray-300 active:bg-gray-400 transition-all duration-200 font-semibold active:scale-[0.98]"
+            >
+              Cancelar
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Marcas */}
+      <div className="bg-card-background rounded-3xl shadow-md overflow-hidden border-b-2 border-gray-100">
+        {brands.length === 0 ? (
+          <p className="text-text-light text-center py-8">Aún no hay marcas.</p>
+        ) : (
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Marca</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Productos</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Estado</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {brands.map((brand) => (
+                <tr key={brand.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">{brand.name}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{brand._count?.products ?? 0}</td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <span className={`px-3 py-1 rounded-2xl text-xs font-semibold ${brand.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                      {brand.isActive ? 'Activa' : 'Inactiva'}
+                    </span>
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleEditBrand(brand)}
+                        className="bg-blue-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-blue-600 active:bg-blue-700 transition-all duration-200 active:scale-[0.98]"
+                      >
+                        Editar
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleToggleBrand(brand)}
+                        className="bg-gray-200 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-300 transition-all duration-200"
+                      >
+                        {brand.isActive ? 'Desactivar' : 'Activar'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteBrand(brand)}
+                        className="bg-red-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-red-600 active:bg-red-700 transition-all duration-200 active:scale-[0.98]"
+                      >
+                        Eliminar
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CatalogList;
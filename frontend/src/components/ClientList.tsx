@@ -2,6 +2,8 @@ import { type ChangeEvent, type FormEvent, useEffect, useState } from 'react';
 
 import type { Client, CreateClientPayload, UpdateClientPayload } from '../services/clientService';
 import { createClient, deleteClient, getClients, updateClient } from '../services/clientService';
+import type { PriceList } from '../services/priceListService';
+import { getPriceLists } from '../services/priceListService';
 
 const ClientList = () => {
   const [clients, setClients] = useState<Client[]>([]);
@@ -11,8 +13,10 @@ const ClientList = () => {
     name: '',
     email: '',
     phone: '',
-    address: ''
+    address: '',
+    priceListId: ''
   });
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
 
@@ -30,9 +34,12 @@ const ClientList = () => {
 
   useEffect(() => {
     void fetchClients();
+    getPriceLists()
+      .then(setPriceLists)
+      .catch((err) => console.error('Error al cargar listas de precios:', err));
   }, []);
 
-  const handleInputChange = (event: ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = event.target;
     setFormData((prev) => ({
       ...prev,
@@ -46,7 +53,8 @@ const ClientList = () => {
       name: client.businessName,
       email: client.email || '',
       phone: client.phone || '',
-      address: client.address || ''
+      address: client.address || '',
+      priceListId: client.priceListId || ''
     });
   };
 
@@ -56,7 +64,8 @@ const ClientList = () => {
       name: '',
       email: '',
       phone: '',
-      address: ''
+      address: '',
+      priceListId: ''
     });
   };
 
@@ -82,7 +91,8 @@ const ClientList = () => {
           businessName: formData.name,
           email: formData.email || undefined,
           phone: formData.phone || undefined,
-          address: formData.address || undefined
+          address: formData.address || undefined,
+          priceListId: formData.priceListId || null
         };
         await updateClient(editingId, payload);
         setEditingId(null);
@@ -101,6 +111,7 @@ const ClientList = () => {
           hasCredit: false,
           creditLimit: '0',
           currentDebt: '0',
+          priceListId: formData.priceListId || null,
           isActive: true
         };
         await createClient(payload);
@@ -109,7 +120,8 @@ const ClientList = () => {
         name: '',
         email: '',
         phone: '',
-        address: ''
+        address: '',
+        priceListId: ''
       });
       await fetchClients();
     } catch (err) {
@@ -202,6 +214,25 @@ const ClientList = () => {
               className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
             />
           </div>
+          <div className="flex flex-col">
+            <label htmlFor="priceListId" className="block mb-2 font-medium text-text-dark">
+              Lista de precios
+            </label>
+            <select
+              id="priceListId"
+              name="priceListId"
+              value={formData.priceListId}
+              onChange={handleInputChange}
+              className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              <option value="">Lista por defecto</option>
+              {priceLists.map((priceList) => (
+                <option key={priceList.id} value={priceList.id}>
+                  {priceList.name}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
         <div className="flex gap-3">
           <button 
@@ -242,6 +273,7 @@ const ClientList = () => {
                 <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Email</th>
                 <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Teléfono</th>
                 <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Dirección</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Lista de precios</th>
                 <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
               </tr>
             </thead>
@@ -252,6 +284,7 @@ const ClientList = () => {
                   <td className="p-4 py-4 border-b border-gray-100 text-text-light">{client.email ?? '-'}</td>
                   <td className="p-4 py-4 border-b border-gray-100 text-text-light">{client.phone ?? '-'}</td>
                   <td className="p-4 py-4 border-b border-gray-100 text-text-light">{client.address ?? '-'}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{client.priceList?.name ?? 'Por defecto'}</td>
                   <td className="p-4 py-4 border-b border-gray-100">
                     <div className="flex gap-2">
                       <button 
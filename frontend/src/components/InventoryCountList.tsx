@@ -0,0 +1,554 @@
+import { type ChangeEvent, type FormEvent, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { AxiosError } from 'axios';
+
+import type { CountMode, InventoryCount, InventoryCountDetail, InventoryCountStatus } from '../services/inventoryCountService';
+import {
+  cancelInventoryCount,
+  getInventoryCountById,
+  getInventoryCounts,
+  openInventoryCount,
+  postInventoryCount,
+  recordCount,
+  removeCountItem
+} from '../services/inventoryCountService';
+import type { Location } from '../services/locationService';
+import { getLocations } from '../services/locationService';
+import type { Product } from '../services/productService';
+import { formatQuantity, getProducts, getQuantityStep } from '../services/productService';
+
+interface InventoryCountListProps {
+  canManage?: boolean; // Abrir, publicar y anular conteos (ADMIN); los cajeros solo registran lo contado
+}
+
+const EMPTY_ENTRY = {
+  sku: '',
+  productId: '',
+  quantity: '1',
+  mode: 'ADD' as CountMode
+};
+
+const STATUS_LABELS: Record<InventoryCountStatus, { label: string; className: string }> = {
+  OPEN: { label: 'Abierto', className: 'bg-blue-100 text-blue-700' },
+  POSTED: { label: 'Publicado', className: 'bg-green-100 text-green-700' },
+  CANCELLED: { label: 'Anulado', className: 'bg-gray-100 text-gray-600' }
+};
+
+// Extrae el mensaje de error enviado por el backend
+const getErrorMessage = (err: unknown, fallback: string) => {
+  return (err as AxiosError<{ message?: string }>)?.response?.data?.message || fallback;
+};
+
+const InventoryCountList = ({ canManage = true }: InventoryCountListProps) => {
+  const [counts, setCounts] = useState<InventoryCount[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [selectedCount, setSelectedCount] = useState<InventoryCountDetail | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [entry, setEntry] = useState(EMPTY_ENTRY);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const skuInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshCount = async (id: string) => {
+    const detail = await getInventoryCountById(id);
+    setSelectedCount(detail);
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const [countData, productData, locationData] = await Promise.all([
+          getInventoryCounts(),
+          getProducts(),
+          getLocations()
+        ]);
+        setCounts(countData);
+        setProducts(productData);
+        setLocations(locationData);
+
+        // Abrir directamente el conteo en curso si existe
+        const open = countData.find((count) => count.status === 'OPEN');
+        if (open) {
+          setSelectedCount(await getInventoryCountById(open.id));
+        }
+      } catch (err) {
+        setError(getErrorMessage(err, 'No fue posible cargar los conteos de inventario.'));
+        console.error('Error al cargar conteos de inventario:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    void fetchData();
+  }, []);
+
+  const handleOpenCount = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const count = await openInventoryCount({ locationId: locationId || null, notes: notes.trim() || null });
+      setNotes('');
+      setLocationId('');
+      setCounts(await getInventoryCounts());
+      await refreshCount(count.id);
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible abrir el conteo. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSelectCount = async (count: InventoryCount) => {
+    if (selectedCount?.id === count.id) {
+      setSelectedCount(null);
+      return;
+    }
+    try {
+      await refreshCount(count.id);
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible cargar el detalle del conteo.'));
+      console.error(err);
+    }
+  };
+
+  const handleEntryChange = (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = event.target;
+    setEntry((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleRecordCount = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!selectedCount) return;
+    if (!entry.sku.trim() && !entry.productId) {
+      alert('Escanea un SKU o selecciona un producto.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await recordCount(selectedCount.id, {
+        sku: entry.sku.trim() || undefined,
+        productId: entry.sku.trim() ? undefined : entry.productId,
+        quantity: Number(entry.quantity),
+        mode: entry.mode
+      });
+      // Se conserva el modo y la cantidad para seguir escaneando
+      setEntry((prev) => ({ ...prev, sku: '', productId: '' }));
+      await refreshCount(selectedCount.id);
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible registrar el conteo. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+      skuInputRef.current?.focus();
+    }
+  };
+
+  const handleRemoveItem = async (itemId: string) => {
+    if (!selectedCount) return;
+    try {
+      await removeCountItem(selectedCount.id, itemId);
+      await refreshCount(selectedCount.id);
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible quitar el producto del conteo.'));
+      console.error(err);
+    }
+  };
+
+  const handlePostCount = async () => {
+    if (!selectedCount) return;
+    if (!window.confirm(`¿Publicar el conteo ${selectedCount.number}? El stock de los productos contados se ajustará a lo contado.`)) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      setSelectedCount(await postInventoryCount(selectedCount.id));
+      setCounts(await getInventoryCounts());
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible publicar el conteo. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelCount = async () => {
+    if (!selectedCount) return;
+    if (!window.confirm(`¿Anular el conteo ${selectedCount.number}? El inventario no se modificará.`)) {
+      return;
+    }
+    try {
+      await cancelInventoryCount(selectedCount.id);
+      setCounts(await getInventoryCounts());
+      await refreshCount(selectedCount.id);
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible anular el conteo. Intenta nuevamente.'));
+      console.error(err);
+    }
+  };
+
+  const formatCurrency = (amount: string | number) => {
+    const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
+    return new Intl.NumberFormat('es-CO', {
+      style: 'currency',
+      currency: 'COP',
+      minimumFractionDigits: 0
+    }).format(numAmount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('es-CO', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: 'America/Bogota'
+    });
+  };
+
+  // Producto de la lectura actual (por SKU o seleccionado) para saber si admite fracciones
+  const entryProduct = entry.sku.trim()
+    ? products.find((product) => product.sku === entry.sku.trim())
+    : products.find((product) => product.id === entry.productId);
+
+  const getVarianceClassName = (variance: number) => {
+    if (variance < 0) return 'text-red-600';
+    if (variance > 0) return 'text-accent-orange';
+    return 'text-secondary-green';
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-gray-600">Cargando...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  const inputClassName = 'border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+  // Solo puede haber un conteo abierto por bodega
+  const openLocationIds = new Set(
+    counts.filter((count) => count.status === 'OPEN').map((count) => count.locationId)
+  );
+  const countableLocations = locations.filter((location) => !openLocationIds.has(location.id));
+
+  return (
+    <div className="space-y-8">
+      {/* Encabezado */}
+      <div className="bg-card-background rounded-3xl shadow-lg p-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-4xl lg:text-5xl font-extrabold mb-3 text-text-dark tracking-tight">Toma Física de Inventario</h2>
+          <p className="text-text-light text-lg">Cuenta las existencias y ajusta el stock con sus diferencias</p>
+        </div>
+        {!canManage && (
+          <Link
+            to="/sales"
+            className="bg-gray-100 hover:bg-gray-200 text-text-dark font-semibold py-2.5 px-5 rounded-2xl transition-all duration-200"
+          >
+            Volver al POS
+          </Link>
+        )}
+      </div>
+
+      {/* Abrir conteo */}
+      {canManage && countableLocations.length > 0 && (
+        <form onSubmit={handleOpenCount} className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100 flex flex-col md:flex-row gap-4 md:items-end">
+          <div className="flex flex-col">
+            <label htmlFor="locationId" className="block mb-2 font-medium text-text-dark">
+              Bodega
+            </label>
+            <select
+              id="locationId"
+              name="locationId"
+              value={locationId}
+              onChange={(event) => setLocationId(event.target.value)}
+              required
+              className={inputClassName}
+            >
+              <option value="">Selecciona una bodega</option>
+              {countableLocations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col flex-1">
+            <label htmlFor="notes" className="block mb-2 font-medium text-text-dark">
+              Notas del conteo
+            </label>
+            <input
+              id="notes"
+              name="notes"
+              type="text"
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+              placeholder="Ej: Conteo de cierre de mes"
+              className={inputClassName}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-blue-500 text-white px-6 py-3 rounded-2xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md hover:shadow-lg active:scale-[0.98] active:shadow-inner"
+          >
+            Abrir Conteo
+          </button>
+        </form>
+      )}
+
+      {counts.length === 0 ? (
+        <div className="bg-card-background rounded-3xl shadow-md p-12 text-center">
+          <p className="text-text-light text-lg">
+            {canManage ? 'No hay conteos registrados.' : 'No hay un conteo abierto. Pide a un administrador que abra uno.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-card-background rounded-3xl shadow-md overflow-hidden border-b-2 border-gray-100">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Número</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Abierto</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Productos</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Estado</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {counts.map((count) => (
+                <tr key={count.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">
+                    {count.number}
+                    {count.location && <span className="block text-xs text-text-light">Bodega {count.location.name}</span>}
+                    {count.notes && <span className="block text-xs text-text-light">{count.notes}</span>}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">
+                    {formatDate(count.openedAt)}
+                    {count.openedBy && <span className="block text-xs">{count.openedBy.fullName}</span>}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{count._count?.items ?? 0}</td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <span className={`px-3 py-1 rounded-2xl text-xs font-semibold ${STATUS_LABELS[count.status].className}`}>
+                      {STATUS_LABELS[count.status].label}
+                    </span>
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <button
+                      type="button"
+                      onClick={() => handleSelectCount(count)}
+                      className="bg-blue-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-blue-600 active:bg-blue-700 transition-all duration-200 active:scale-[0.98]"
+                    >
+                      {selectedCount?.id === count.id ? 'Ocultar' : count.status === 'OPEN' ? 'Contar' : 'Ver'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Detalle del conteo seleccionado */}
+      {selectedCount && (
+        <div className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100 space-y-6">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h3 className="text-2xl font-bold text-text-dark mb-1">Conteo {selectedCount.number}</h3>
+              <p className="text-text-light">
+                {selectedCount.location ? `Bodega ${selectedCount.location.name} · ` : ''}
+                {STATUS_LABELS[selectedCount.status].label}
+                {selectedCount.postedAt ? ` el ${formatDate(selectedCount.postedAt)}` : ''}
+                {selectedCount.status === 'OPEN' ? ' · Las diferencias se calculan contra el stock actual de la bodega' : ''}
+              </p>
+            </div>
+            {canManage && selectedCount.status === 'OPEN' && (
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={handlePostCount}
+                  disabled={isSubmitting || selectedCount.items.length === 0}
+                  className="bg-green-500 text-white px-5 py-2.5 rounded-2xl hover:bg-green-600 active:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md active:scale-[0.98]"
+                >
+                  Publicar Ajuste
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCancelCount}
+                  disabled={isSubmitting}
+                  className="bg-red-500 text-white px-5 py-2.5 rounded-2xl hover:bg-red-600 active:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md active:scale-[0.98]"
+                >
+                  Anular
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              { label: 'Productos contados', value: String(selectedCount.summary.itemCount), className: 'text-text-dark' },
+              {
+                label: `Faltantes (${selectedCount.summary.shortageUnits} und)`,
+                value: formatCurrency(selectedCount.summary.shortageCost),
+                className: 'text-red-600'
+              },
+              {
+                label: `Sobrantes (${selectedCount.summary.surplusUnits} und)`,
+                value: formatCurrency(selectedCount.summary.surplusCost),
+                className: 'text-accent-orange'
+              },
+              {
+                label: 'Diferencia neta al costo',
+                value: formatCurrency(selectedCount.summary.netVarianceCost),
+                className: selectedCount.summary.netVarianceCost < 0 ? 'text-red-600' : 'text-secondary-green'
+              }
+            ].map((figure) => (
+              <div key={figure.label} className="bg-gray-50 rounded-2xl p-4">
+                <p className="text-sm text-text-light mb-1">{figure.label}</p>
+                <p className={`text-xl font-bold ${figure.className}`}>{figure.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {selectedCount.status === 'OPEN' && (
+            <form onSubmit={handleRecordCount} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+              <div className="flex flex-col">
+                <label htmlFor="sku" className="block mb-2 font-medium text-text-dark">SKU (escáner)</label>
+                <input
+                  id="sku"
+                  name="sku"
+                  type="text"
+                  ref={skuInputRef}
+                  autoFocus
+                  value={entry.sku}
+                  onChange={handleEntryChange}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col">
+                <label htmlFor="productId" className="block mb-2 font-medium text-text-dark">o Producto</label>
+                <select
+                  id="productId"
+                  name="productId"
+                  value={entry.productId}
+                  onChange={handleEntryChange}
+                  disabled={entry.sku.trim() !== ''}
+                  className={inputClassName}
+                >
+                  <option value="">Selecciona un producto</option>
+                  {products.filter((product) => !product.isKit).map((product) => (
+                    <option key={product.id} value={product.id}>
+                      {product.name}{product.sku ? ` (${product.sku})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-col">
+                <label htmlFor="quantity" className="block mb-2 font-medium text-text-dark">Cantidad</label>
+                <input
+                  id="quantity"
+                  name="quantity"
+                  type="number"
+                  step={getQuantityStep(entryProduct?.unit)}
+                  value={entry.quantity}
+                  onChange={handleEntryChange}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col">
+                <label htmlFor="mode" className="block mb-2 font-medium text-text-dark">Modo</label>
+                <select
+                  id="mode"
+                  name="mode"
+                  value={entry.mode}
+                  onChange={handleEntryChange}
+                  className={inputClassName}
+                >
+                  <option value="ADD">Sumar a lo contado</option>
+                  <option value="SET">Reemplazar lo contado</option>
+                </select>
+              </div>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="bg-blue-500 text-white px-6 py-3 rounded-2xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md active:scale-[0.98]"
+              >
+                Registrar
+              </button>
+            </form>
+          )}
+
+          {selectedCount.items.length === 0 ? (
+            <p className="text-text-light text-center py-6">Aún no se han contado productos.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="p-3 text-left border-b border-gray-200 font-semibold text-text-dark">Producto</th>
+                    <th className="p-3 text-right border-b border-gray-200 font-semibold text-text-dark">Contado</th>
+                    <th className="p-3 text-right border-b border-gray-200 font-semibold text-text-dark">Sistema</th>
+                    <th className="p-3 text-right border-b border-gray-200 font-semibold text-text-dark">Diferencia</th>
+                    <th className="p-3 text-right border-b border-gray-200 font-semibold text-text-dark">Valor al costo</th>
+                    {selectedCount.status === 'OPEN' && (
+                      <th className="p-3 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {selectedCount.items.map((item) => (
+                    <tr key={item.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="p-3 border-b border-gray-100 text-text-dark font-medium">
+                        {item.product.name}
+                        <span className="block text-xs text-text-light">
+                          {item.product.sku || 'Sin SKU'}
+                          {item.countedBy ? ` · ${item.countedBy.fullName}` : ''}
+                        </span>
+                      </td>
+                      <td className="p-3 border-b border-gray-100 text-right text-text-dark">{formatQuantity(item.countedQuantity, item.product.unit)}</td>
+                      <td className="p-3 border-b border-gray-100 text-right text-text-light">{formatQuantity(item.expectedStock, item.product.unit)}</td>
+                      <td className={`p-3 border-b border-gray-100 text-right font-semibold ${getVarianceClassName(item.variance)}`}>
+                        {item.variance > 0 ? `+${formatQuantity(item.variance)}` : formatQuantity(item.variance)}
+                      </td>
+                      <td className={`p-3 border-b border-gray-100 text-right ${getVarianceClassName(item.variance)}`}>
+                        {formatCurrency(item.varianceCost)}
+                      </td>
+                      {selectedCount.status === 'OPEN' && (
+                        <td className="p-3 border-b border-gray-100">
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveItem(item.id)}
+                            className="text-red-600 hover:text-red-700 text-sm font-semibold"
+                          >
+                            Quitar
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InventoryCountList;
@@ -1,8 +1,9 @@
 import { type ChangeEvent, type FormEvent, useEffect, useState } from 'react';
+import type { AxiosError } from 'axios';
 
 import type { CreateInvoicePayload, Invoice, InvoiceItem } from '../services/invoiceService';
-import { createInvoice, getInvoices, deleteInvoice } from '../services/invoiceService';
-import { getProducts, type Product } from '../services/productService';
+import { createInvoice, getInvoices, deleteInvoice, cancelInvoice, downloadInvoiceXml } from '../services/invoiceService';
+import { TAX_CATEGORY_RATES, formatQuantity, getProducts, getQuantityStep, type Product } from '../services/productService';
 
 const InvoiceList = () => {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
@@ -12,11 +13,9 @@ const InvoiceList = () => {
   const [warnings, setWarnings] = useState<string[]>([]);
   const [showWarnings, setShowWarnings] = useState<boolean>(false);
   const [formData, setFormData] = useState<{
-    number: string;
     clientId: string;
     issueDate: string;
   }>({
-    number: '',
     clientId: '',
     issueDate: new Date().toISOString().split('T')[0]
   });
@@ -86,7 +85,7 @@ const InvoiceList = () => {
             const product = products.find(p => p.id === value);
             if (product) {
               updatedItem.unitPrice = Number(product.price);
-              updatedItem.taxRate = Number(product.defaultTaxRate);
+              updatedItem.taxRate = TAX_CATEGORY_RATES[product.taxCategory];
               updatedItem.description = product.name;
             }
           }
@@ -125,7 +124,6 @@ const InvoiceList = () => {
     
     try {
       const payload: CreateInvoicePayload = {
-        number: formData.number,
         clientId: formData.clientId || undefined,
         items: items.map(item => ({
           productId: item.productId,
@@ -155,7 +153,6 @@ const InvoiceList = () => {
       
       // Limpiar formulario
       setFormData({
-        number: '',
         clientId: '',
         issueDate: new Date().toISOString().split('T')[0]
       });
@@ -237,6 +234,58 @@ const InvoiceList = () => {
     }
   };
 
+  const handleCancelInvoice = async (id: string, invoiceNumber: string) => {
+    // La anulación conserva la factura y la reversa con una nota crédito
+    const reason = window.prompt(
+      `Motivo de anulación de la factura "${invoiceNumber}".\n\nSe emitirá una nota crédito por el saldo no acreditado y se devolverá el inventario.`
+    );
+
+    if (reason === null) {
+      return;
+    }
+    if (!reason.trim()) {
+      alert('El motivo de la anulación es requerido.');
+      return;
+    }
+
+    try {
+      const result = await cancelInvoice(id, reason.trim());
+      alert(
+        result.creditNote
+          ? `Factura "${invoiceNumber}" anulada con la nota crédito ${result.creditNote.number}.`
+          : `Factura "${invoiceNumber}" anulada.`
+      );
+      setInvoices((prevInvoices) =>
+        prevInvoices.map((invoice) =>
+          invoice.id === id
+            ? { ...invoice, status: result.invoice.status, totalCredited: result.invoice.totalCredited }
+            : invoice
+        )
+      );
+    } catch (err: unknown) {
+      const errorMessage =
+        (err as AxiosError<{ message?: string }>)?.response?.data?.message ||
+        'No fue posible anular la factura. Intenta nuevamente.';
+      alert(`Error: ${errorMessage}`);
+      console.error(err);
+    }
+  };
+
+  const handleDownloadXml = async (id: string, invoiceNumber: string) => {
+    try {
+      const xml = await downloadInvoiceXml(id);
+      const url = URL.createObjectURL(xml);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${invoiceNumber}.xml`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      alert('No fue posible descargar el XML de la factura electrónica.');
+      console.error(err);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -301,21 +350,6 @@ const InvoiceList = () => {
         noValidate
       >
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-          <div className="flex flex-col">
-            <label htmlFor="number" className="block mb-2 font-medium text-text-dark">
-              Número de Factura *
-            </label>
-            <input
-              id="number"
-              name="number"
-              type="text"
-              value={formData.number}
-              onChange={handleInputChange}
-              required
-              className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-              placeholder="Ej: INV-001"
-            />
-          </div>
           <div className="flex flex-col">
             <label htmlFor="clientId" className="block mb-2 font-medium text-text-dark">
               ID del Cliente
@@ -381,13 +415,13 @@ const InvoiceList = () => {
                           <option value="">Seleccionar producto</option>
                           {products.map((product) => (
                             <option key={product.id} value={product.id}>
-                              {product.name} (Stock: {product.stock})
+                              {product.name} (Stock: {formatQuantity(product.stock, product.unit)})
                             </option>
                           ))}
                         </select>
                         {selectedProduct && (
                           <p className="text-xs text-text-light mt-2">
-                            Stock disponible: {stock}
+                            Stock disponible: {formatQuantity(stock, selectedProduct.unit)}
                           </p>
                         )}
                       </div>
@@ -397,7 +431,8 @@ const InvoiceList = () => {
                         </label>
                         <input
                           type="number"
-                          min="1"
+                          min={getQuantityStep(selectedProduct?.unit)}
+                          step={getQuantityStep(selectedProduct?.unit)}
                           max={stock}
                           value={item.quantity}
                           onChange={(e) => handleItemChange(item.id, 'quantity', Number(e.target.value))}
@@ -478,19 +513,46 @@ const InvoiceList = () => {
                   <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">{invoice.number}</td>
                   <td className="p-4 py-4 border-b border-gray-100 text-text-light">{invoice.clientId ?? '-'}</td>
                   <td className="p-4 py-4 border-b border-gray-100 text-text-light">{formatDate(invoice.issueDate)}</td>
-                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-semibold">{formatCurrency(invoice.total)}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-semibold">
+                    {formatCurrency(invoice.total)}
+                    {Number(invoice.discountTotal) > 0 && (
+                      <span className="block text-xs font-normal text-red-600">Descuento {formatCurrency(invoice.discountTotal)}</span>
+                    )}
+                  </td>
                   <td className="p-4 py-4 border-b border-gray-100">{getStatusBadge(invoice.status)}</td>
                   <td className="p-4 py-4 border-b border-gray-100">
-                    <button
-                      onClick={() => handleDeleteInvoice(invoice.id, invoice.number)}
-                      className="bg-red-500 hover:bg-red-600 active:bg-red-700 text-white px-4 py-2 rounded-2xl transition-all duration-200 flex items-center gap-2 font-semibold active:scale-[0.98] active:shadow-inner"
-                      title="Eliminar factura"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                      <span className="text-sm">Eliminar</span>
-                    </button>
+                    <div className="flex items-center gap-2">
+                      {invoice.electronicDocument && (
+                        <button
+                          onClick={() => handleDownloadXml(invoice.id, invoice.number)}
+                          className="bg-gray-100 hover:bg-gray-200 text-text-dark px-4 py-2 rounded-2xl transition-all duration-200 font-semibold active:scale-[0.98]"
+                          title={`CUFE: ${invoice.electronicDocument.cufe}\nEstado DIAN: ${invoice.electronicDocument.status}`}
+                        >
+                          <span className="text-sm">XML</span>
+                        </button>
+                      )}
+                      {invoice.status !== 'DRAFT' && invoice.status !== 'CANCELLED' && (
+                        <button
+                          onClick={() => handleCancelInvoice(invoice.id, invoice.number)}
+                          className="bg-orange-500 hover:bg-orange-600 active:bg-orange-700 text-white px-4 py-2 rounded-2xl transition-all duration-200 font-semibold active:scale-[0.98] active:shadow-inner"
+                          title="Anular factura con nota crédito"
+                        >
+                          <span className="text-sm">Anular</span>
+                        </button>
+                      )}
+                      {invoice.status === 'DRAFT' && (
+                        <button
+                          onClick={() => handleDeleteInvoice(invoice.id, invoice.number)}
+                          className="bg-red-500 hover:bg-red-600 active:bg-red-700 text-white px-4 py-2 rounded-2xl transition-all duration-200 flex items-center gap-2 font-semibold active:scale-[0.98] active:shadow-inner"
+                          title="Eliminar factura"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                          <span className="text-sm">Eliminar</span>
+                        </button>
+                      )}
+                    </div>
                   </td>
                 </tr>
               ))}
@@ -0,0 +1,563 @@
+import { type ChangeEvent, type FormEvent, useEffect, useState } from 'react';
+import type { AxiosError } from 'axios';
+
+import type { CashRegister, CreateStockTransferPayload, Location, StockTransfer } from '../services/locationService';
+import {
+  assignCashRegisterLocation,
+  createLocation,
+  createStockTransfer,
+  getCashRegisters,
+  getLocations,
+  getStockTransferById,
+  getStockTransfers,
+  updateLocation
+} from '../services/locationService';
+import type { Product } from '../services/productService';
+import { formatQuantity, getProducts, getQuantityStep } from '../services/productService';
+
+interface TransferRow {
+  productId: string;
+  quantity: string;
+}
+
+const EMPTY_LOCATION = { name: '', address: '' };
+
+const EMPTY_TRANSFER = { fromLocationId: '', toLocationId: '', notes: '' };
+
+const EMPTY_ROW: TransferRow = { productId: '', quantity: '1' };
+
+// Extrae el mensaje de error enviado por el backend
+const getErrorMessage = (err: unknown, fallback: string) => {
+  return (err as AxiosError<{ message?: string }>)?.response?.data?.message || fallback;
+};
+
+const LocationList = () => {
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [cashRegisters, setCashRegisters] = useState<CashRegister[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [locationForm, setLocationForm] = useState(EMPTY_LOCATION);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [transferForm, setTransferForm] = useState(EMPTY_TRANSFER);
+  const [rows, setRows] = useState<TransferRow[]>([EMPTY_ROW]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [selectedTransfer, setSelectedTransfer] = useState<StockTransfer | null>(null);
+
+  const fetchLocations = async () => {
+    const [locationData, registerData] = await Promise.all([
+      getLocations({ includeInactive: true }),
+      getCashRegisters()
+    ]);
+    setLocations(locationData);
+    setCashRegisters(registerData);
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const [locationData, registerData, transferData, productData] = await Promise.all([
+          getLocations({ includeInactive: true }),
+          getCashRegisters(),
+          getStockTransfers(),
+          getProducts()
+        ]);
+        setLocations(locationData);
+        setCashRegisters(registerData);
+        setTransfers(transferData);
+        setProducts(productData);
+      } catch (err) {
+        setError(getErrorMessage(err, 'No fue posible cargar las bodegas.'));
+        console.error('Error al cargar bodegas:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    void fetchData();
+  }, []);
+
+  const activeLocations = locations.filter((location) => location.isActive);
+
+  // Existencias del producto en la bodega de origen del traslado
+  const getOriginStock = (productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    return product?.stockByLocation?.find((stock) => stock.locationId === transferForm.fromLocationId)?.quantity ?? 0;
+  };
+
+  const handleLocationChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = event.target;
+    setLocationForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleLocationSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const payload = { name: locationForm.name.trim(), address: locationForm.address.trim() || null };
+      if (editingId) {
+        await updateLocation(editingId, payload);
+      } else {
+        await createLocation(payload);
+      }
+      setLocationForm(EMPTY_LOCATION);
+      setEditingId(null);
+      await fetchLocations();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible guardar la bodega. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEditLocation = (location: Location) => {
+    setEditingId(location.id);
+    setLocationForm({ name: location.name, address: location.address ?? '' });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setLocationForm(EMPTY_LOCATION);
+  };
+
+  const handleUpdateLocation = async (location: Location, data: { isDefault?: boolean; isActive?: boolean }) => {
+    try {
+      await updateLocation(location.id, data);
+      await fetchLocations();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible actualizar la bodega.'));
+      console.error(err);
+    }
+  };
+
+  const handleAssignRegister = async (cashRegister: CashRegister, locationId: string) => {
+    try {
+      await assignCashRegisterLocation(cashRegister.id, locationId || null);
+      await fetchLocations();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible asignar la bodega a la caja.'));
+      console.error(err);
+    }
+  };
+
+  const handleTransferChange = (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = event.target;
+    setTransferForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleRowChange = (index: number, field: keyof TransferRow, value: string) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleTransferSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const payload: CreateStockTransferPayload = {
+        fromLocationId: transferForm.fromLocationId,
+        toLocationId: transferForm.toLocationId,
+        notes: transferForm.notes.trim() || null,
+        items: rows.map((row) => ({ productId: row.productId, quantity: Number(row.quantity) }))
+      };
+      const transfer = await createStockTransfer(payload);
+      alert(`Traslado ${transfer.number} registrado.`);
+      setTransferForm(EMPTY_TRANSFER);
+      setRows([EMPTY_ROW]);
+      const [transferData, productData] = await Promise.all([getStockTransfers(), getProducts()]);
+      setTransfers(transferData);
+      setProducts(productData);
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible registrar el traslado. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleViewTransfer = async (transfer: StockTransfer) => {
+    if (selectedTransfer?.id === transfer.id) {
+      setSelectedTransfer(null);
+      return;
+    }
+    try {
+      setSelectedTransfer(await getStockTransferById(transfer.id));
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible cargar el detalle del traslado.'));
+      console.error(err);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('es-CO', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'America/Bogota'
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-gray-600">Cargando...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  const inputClassName = 'border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+  return (
+    <div className="space-y-8">
+      {/* Encabezado */}
+      <div className="bg-card-background rounded-3xl shadow-lg p-8">
+        <h2 className="text-4xl lg:text-5xl font-extrabold mb-3 text-text-dark tracking-tight">Bodegas</h2>
+        <p className="text-text-light text-lg">
+          El stock se lleva por bodega: cada caja vende de su bodega asignada y los traslados mueven existencias entre bodegas
+        </p>
+      </div>
+
+      {/* Formulario de bodega */}
+      <form onSubmit={handleLocationSubmit} className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100 flex flex-col md:flex-row gap-4 md:items-end">
+        <div className="flex flex-col flex-1">
+          <label htmlFor="name" className="block mb-2 font-medium text-text-dark">
+            Nombre *
+          </label>
+          <input
+            id="name"
+            name="name"
+            type="text"
+            value={locationForm.name}
+            onChange={handleLocationChange}
+            required
+            placeholder="Ej: Bodega Norte"
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex flex-col flex-1">
+          <label htmlFor="address" className="block mb-2 font-medium text-text-dark">
+            Dirección
+          </label>
+          <input
+            id="address"
+            name="address"
+            type="text"
+            value={locationForm.address}
+            onChange={handleLocationChange}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-blue-500 text-white px-6 py-3 rounded-2xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md hover:shadow-lg active:scale-[0.98] active:shadow-inner"
+          >
+            {editingId ? 'Guardar Cambios' : 'Crear Bodega'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={handleCancelEdit}
+              className="bg-gray-200 text-text-dark px-6 py-3 rounded-2xl hover:bg-gray-300 active:bg-gray-400 transition-all duration-200 font-semibold active:scale-[0.98]"
+            >
+              Cancelar
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Bodegas */}
+      <div className="bg-card-background rounded-3xl shadow-md overflow-hidden border-b-2 border-gray-100">
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Nombre</th>
+              <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Cajas</th>
+              <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Estado</th>
+              <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {locations.map((location) => (
+              <tr key={location.id} className="hover:bg-gray-50 transition-colors">
+                <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">
+                  {location.name}
+                  {location.isDefault && (
+                    <span className="ml-2 px-2 py-0.5 rounded-2xl text-xs font-semibold bg-blue-100 text-blue-700">Por defecto</span>
+                  )}
+                  {location.address && <span className="block text-xs text-text-light">{location.address}</span>}
+                </td>
+                <td className="p-4 py-4 border-b border-gray-100 text-text-light">
+                  {location.cashRegisters?.map((register) => register.name).join(', ') || '-'}
+                </td>
+                <td className="p-4 py-4 border-b border-gray-100">
+                  <span className={`px-3 py-1 rounded-2xl text-xs font-semibold ${location.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                    {location.isActive ? 'Activa' : 'Inactiva'}
+                  </span>
+                </td>
+                <td className="p-4 py-4 border-b border-gray-100">
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleEditLocation(location)}
+                      className="bg-blue-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-blue-600 active:bg-blue-700 transition-all duration-200 active:scale-[0.98]"
+                    >
+                      Editar
+                    </button>
+                    {!location.isDefault && location.isActive && (
+                      <button
+                        type="button"
+                        onClick={() => handleUpdateLocation(location, { isDefault: true })}
+                        className="bg-gray-200 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-300 transition-all duration-200"
+                      >
+                        Usar por defecto
+                      </button>
+                    )}
+                    {!location.isDefault && (
+                      <button
+                        type="button"
+                        onClick={() => handleUpdateLocation(location, { isActive: !location.isActive })}
+                        className="bg-gray-200 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-300 transition-all duration-200"
+                      >
+                        {location.isActive ? 'Desactivar' : 'Activar'}
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Bodega de cada caja */}
+      {cashRegisters.length > 0 && (
+        <div className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+          <h3 className="text-2xl font-bold text-text-dark mb-1">Cajas</h3>
+          <p className="text-text-light mb-6">Las ventas de cada caja descuentan el stock de su bodega</p>
+          <div className="space-y-3">
+            {cashRegisters.map((register) => (
+              <div key={register.id} className="flex flex-col md:flex-row md:items-center gap-3">
+                <span className="font-medium text-text-dark md:w-40">{register.name}</span>
+                <select
+                  value={register.locationId ?? ''}
+                  onChange={(event) => handleAssignRegister(register, event.target.value)}
+                  className={`${inputClassName} md:max-w-xs`}
+                >
+                  <option value="">Bodega por defecto</option>
+                  {activeLocations.map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Traslado entre bodegas */}
+      {activeLocations.length > 1 && (
+        <form onSubmit={handleTransferSubmit} className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+          <h3 className="text-2xl font-bold text-text-dark mb-6">Nuevo traslado</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+            <div className="flex flex-col">
+              <label htmlFor="fromLocationId" className="block mb-2 font-medium text-text-dark">
+                Desde *
+              </label>
+              <select
+                id="fromLocationId"
+                name="fromLocationId"
+                value={transferForm.fromLocationId}
+                onChange={handleTransferChange}
+                required
+                className={inputClassName}
+              >
+                <option value="">Selecciona la bodega de origen</option>
+                {activeLocations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col">
+              <label htmlFor="toLocationId" className="block mb-2 font-medium text-text-dark">
+                Hacia *
+              </label>
+              <select
+                id="toLocationId"
+                name="toLocationId"
+                value={transferForm.toLocationId}
+                onChange={handleTransferChange}
+                required
+                className={inputClassName}
+              >
+                <option value="">Selecciona la bodega de destino</option>
+                {activeLocations
+                  .filter((location) => location.id !== transferForm.fromLocationId)
+                  .map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div className="flex flex-col">
+              <label htmlFor="transferNotes" className="block mb-2 font-medium text-text-dark">
+                Notas
+              </label>
+              <input
+                id="transferNotes"
+                name="notes"
+                type="text"
+                value={transferForm.notes}
+                onChange={handleTransferChange}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3 mb-6">
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-center">
+                <select
+                  value={row.productId}
+                  onChange={(event) => handleRowChange(index, 'productId', event.target.value)}
+                  required
+                  className={`${inputClassName} md:col-span-7`}
+                >
+                  <option value="">Selecciona un producto</option>
+                  {products.map((product) => (
+                    <option key={product.id} value={product.id}>
+                      {product.name}{product.sku ? ` (${product.sku})` : ''}
+                      {transferForm.fromLocationId ? ` - disponible ${formatQuantity(getOriginStock(product.id), product.unit)}` : ''}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step={getQuantityStep(products.find((product) => product.id === row.productId)?.unit)}
+                  value={row.quantity}
+                  onChange={(event) => handleRowChange(index, 'quantity', event.target.value)}
+                  required
+                  className={`${inputClassName} md:col-span-3`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                  disabled={rows.length === 1}
+                  className="bg-gray-200 text-text-dark px-3 py-3 rounded-2xl text-sm font-semibold hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 md:col-span-2"
+                >
+                  Quitar
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setRows((prev) => [...prev, EMPTY_ROW])}
+              className="text-blue-600 font-semibold hover:text-blue-700"
+            >
+              + Agregar producto
+            </button>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-blue-500 text-white px-6 py-3 rounded-2xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md hover:shadow-lg active:scale-[0.98] active:shadow-inner"
+          >
+            {isSubmitting ? 'Registrando...' : 'Registrar Traslado'}
+          </button>
+        </form>
+      )}
+
+      {/* Traslados */}
+      {transfers.length > 0 && (
+        <div className="bg-card-background rounded-3xl shadow-md overflow-hidden border-b-2 border-gray-100">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Número</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Fecha</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Desde</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Hacia</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Productos</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {transfers.map((transfer) => (
+                <tr key={transfer.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">
+                    {transfer.number}
+                    {transfer.notes && <span className="block text-xs text-text-light">{transfer.notes}</span>}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{formatDate(transfer.createdAt)}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{transfer.fromLocation.name}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{transfer.toLocation.name}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{transfer._count?.items ?? '-'}</td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <button
+                      type="button"
+                      onClick={() => handleViewTransfer(transfer)}
+                      className="bg-blue-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-blue-600 active:bg-blue-700 transition-all duration-200 active:scale-[0.98]"
+                    >
+                      {selectedTransfer?.id === transfer.id ? 'Ocultar' : 'Ver'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Detalle del traslado seleccionado */}
+      {selectedTransfer && (
+        <div className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+          <h3 className="text-2xl font-bold text-text-dark mb-1">Traslado {selectedTransfer.number}</h3>
+          <p className="text-text-light mb-6">
+            {selectedTransfer.fromLocation.name} → {selectedTransfer.toLocation.name} · {formatDate(selectedTransfer.createdAt)}
+            {selectedTransfer.createdBy ? ` · ${selectedTransfer.createdBy.fullName}` : ''}
+          </p>
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-3 text-left border-b border-gray-200 font-semibold text-text-dark">Producto</th>
+                <th className="p-3 text-left border-b border-gray-200 font-semibold text-text-dark">Cantidad</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selectedTransfer.items?.map((item) => (
+                <tr key={item.id}>
+                  <td className="p-3 border-b border-gray-100 text-text-dark">
+                    {item.product?.name ?? item.productId}
+                    {item.product?.sku && <span className="text-text-light"> ({item.product.sku})</span>}
+                  </td>
+                  <td className="p-3 border-b border-gray-100 text-text-light">{formatQuantity(item.quantity, item.product?.unit)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationList;
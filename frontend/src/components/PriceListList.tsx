@@ -0,0 +1,479 @@
+import { type ChangeEvent, type FormEvent, useEffect, useState } from 'react';
+import type { AxiosError } from 'axios';
+
+import type { PriceList, PriceListBase, PriceListDetail } from '../services/priceListService';
+import {
+  PRICE_LIST_BASE_LABELS,
+  createPriceList,
+  deletePriceList,
+  getPriceList,
+  getPriceLists,
+  setPriceListItems,
+  updatePriceList
+} from '../services/priceListService';
+import type { Product } from '../services/productService';
+import { getProducts } from '../services/productService';
+
+interface PriceRow {
+  productId: string;
+  price: string;
+}
+
+const EMPTY_PRICE_LIST = { name: '', description: '', base: 'PRICE' as PriceListBase, percentage: '0' };
+
+const EMPTY_ROW: PriceRow = { productId: '', price: '' };
+
+// Extrae el mensaje de error enviado por el backend
+const getErrorMessage = (err: unknown, fallback: string) => {
+  return (err as AxiosError<{ message?: string }>)?.response?.data?.message || fallback;
+};
+
+// Regla de la lista en palabras: "Precio de venta -10%"
+const describeRule = (priceList: PriceList) => {
+  const percentage = Number(priceList.percentage);
+  const sign = percentage > 0 ? '+' : '';
+  return `${PRICE_LIST_BASE_LABELS[priceList.base]} ${sign}${percentage}%`;
+};
+
+const PriceListList = () => {
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_PRICE_LIST);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [selectedList, setSelectedList] = useState<PriceListDetail | null>(null);
+  const [rows, setRows] = useState<PriceRow[]>([]);
+
+  const fetchPriceLists = async () => {
+    setPriceLists(await getPriceLists({ includeInactive: true }));
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const [priceListData, productData] = await Promise.all([
+          getPriceLists({ includeInactive: true }),
+          getProducts()
+        ]);
+        setPriceLists(priceListData);
+        setProducts(productData);
+      } catch (err) {
+        setError(getErrorMessage(err, 'No fue posible cargar las listas de precios.'));
+        console.error('Error al cargar listas de precios:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    void fetchData();
+  }, []);
+
+  const formatCurrency = (amount: string | number) => {
+    const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
+    return new Intl.NumberFormat('es-CO', {
+      style: 'currency',
+      currency: 'COP',
+      minimumFractionDigits: 0
+    }).format(numAmount);
+  };
+
+  // Precio que tendría el producto en la lista seleccionada si no tuviera precio fijo
+  const getRulePrice = (product: Product) => {
+    if (!selectedList) {
+      return 0;
+    }
+    const base = Number(selectedList.base === 'COST' ? product.cost : product.price);
+    return Math.round(base * (1 + Number(selectedList.percentage) / 100) * 100) / 100;
+  };
+
+  const handleFormChange = (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = event.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const payload = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        base: form.base,
+        percentage: Number(form.percentage || 0)
+      };
+      if (editingId) {
+        await updatePriceList(editingId, payload);
+      } else {
+        await createPriceList(payload);
+      }
+      setForm(EMPTY_PRICE_LIST);
+      setEditingId(null);
+      await fetchPriceLists();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible guardar la lista de precios. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEdit = (priceList: PriceList) => {
+    setEditingId(priceList.id);
+    setForm({
+      name: priceList.name,
+      description: priceList.description ?? '',
+      base: priceList.base,
+      percentage: String(Number(priceList.percentage))
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_PRICE_LIST);
+  };
+
+  const handleUpdate = async (priceList: PriceList, data: { isDefault?: boolean; isActive?: boolean }) => {
+    try {
+      await updatePriceList(priceList.id, data);
+      await fetchPriceLists();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible actualizar la lista de precios.'));
+      console.error(err);
+    }
+  };
+
+  const handleDelete = async (priceList: PriceList) => {
+    if (!window.confirm(`¿Eliminar la lista de precios ${priceList.name}?`)) {
+      return;
+    }
+    try {
+      await deletePriceList(priceList.id);
+      if (selectedList?.id === priceList.id) {
+        setSelectedList(null);
+      }
+      await fetchPriceLists();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible eliminar la lista de precios.'));
+      console.error(err);
+    }
+  };
+
+  const handleViewPrices = async (priceList: PriceList) => {
+    if (selectedList?.id === priceList.id) {
+      setSelectedList(null);
+      return;
+    }
+    try {
+      const detail = await getPriceList(priceList.id);
+      setSelectedList(detail);
+      setRows(detail.items.map((item) => ({ productId: item.productId, price: String(Number(item.price)) })));
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible cargar los precios de la lista.'));
+      console.error(err);
+    }
+  };
+
+  const handleRowChange = (index: number, field: keyof PriceRow, value: string) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSavePrices = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!selectedList) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const detail = await setPriceListItems(
+        selectedList.id,
+        rows.map((row) => ({ productId: row.productId, price: Number(row.price) }))
+      );
+      setSelectedList(detail);
+      alert(`Precios de la lista ${detail.name} guardados.`);
+      await fetchPriceLists();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible guardar los precios. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-gray-600">Cargando...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  const inputClassName = 'border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+  return (
+    <div className="space-y-8">
+      {/* Encabezado */}
+      <div className="bg-card-background rounded-3xl shadow-lg p-8">
+        <h2 className="text-4xl lg:text-5xl font-extrabold mb-3 text-text-dark tracking-tight">Listas de precios</h2>
+        <p className="text-text-light text-lg">
+          Precios de detal, mayorista o distribuidor: un porcentaje sobre el precio o el costo, con precios fijos por producto
+        </p>
+      </div>
+
+      {/* Formulario de lista */}
+      <form onSubmit={handleSubmit} className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+          <div className="flex flex-col">
+            <label htmlFor="name" className="block mb-2 font-medium text-text-dark">
+              Nombre *
+            </label>
+            <input
+              id="name"
+              name="name"
+              type="text"
+              value={form.name}
+              onChange={handleFormChange}
+              required
+              placeholder="Ej: Mayorista"
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="base" className="block mb-2 font-medium text-text-dark">
+              Calcular sobre
+            </label>
+            <select id="base" name="base" value={form.base} onChange={handleFormChange} className={inputClassName}>
+              {Object.entries(PRICE_LIST_BASE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="percentage" className="block mb-2 font-medium text-text-dark">
+              Ajuste (%)
+            </label>
+            <input
+              id="percentage"
+              name="percentage"
+              type="number"
+              step="0.01"
+              value={form.percentage}
+              onChange={handleFormChange}
+              className={inputClassName}
+            />
+            <span className="text-xs text-text-light mt-1">-10 vende 10% por debajo; 25 vende 25% por encima</span>
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="description" className="block mb-2 font-medium text-text-dark">
+              Descripción
+            </label>
+            <input
+              id="description"
+              name="description"
+              type="text"
+              value={form.description}
+              onChange={handleFormChange}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-blue-500 text-white px-6 py-3 rounded-2xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md hover:shadow-lg active:scale-[0.98] active:shadow-inner"
+          >
+            {editingId ? 'Guardar Cambios' : 'Crear Lista'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={handleCancelEdit}
+              className="bg-gray-200 text-text-dark px-6 py-3 rounded-2xl hover:bg-gray-300 active:bg-gray-400 transition-all duration-200 font-semibold active:scale-[0.98]"
+            >
+              Cancelar
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Listas */}
+      {priceLists.length === 0 ? (
+        <div className="bg-card-background rounded-3xl shadow-md p-12 text-center">
+          <p className="text-text-light text-lg">
+            No hay listas de precios: las ventas usan el precio de venta de cada producto.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-card-background rounded-3xl shadow-md overflow-hidden border-b-2 border-gray-100">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Nombre</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Regla</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Precios fijos</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Clientes</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Estado</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {priceLists.map((priceList) => (
+                <tr key={priceList.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">
+                    {priceList.name}
+                    {priceList.isDefault && (
+                      <span className="ml-2 px-2 py-0.5 rounded-2xl text-xs font-semibold bg-blue-100 text-blue-700">Por defecto</span>
+                    )}
+                    {priceList.description && <span className="block text-xs text-text-light">{priceList.description}</span>}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{describeRule(priceList)}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{priceList._count?.items ?? 0}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{priceList._count?.clients ?? 0}</td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <span className={`px-3 py-1 rounded-2xl text-xs font-semibold ${priceList.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                      {priceList.isActive ? 'Activa' : 'Inactiva'}
+                    </span>
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleViewPrices(priceList)}
+                        className="bg-blue-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-blue-600 active:bg-blue-700 transition-all duration-200 active:scale-[0.98]"
+                      >
+                        {selectedList?.id === priceList.id ? 'Ocultar' : 'Precios'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleEdit(priceList)}
+                        className="bg-gray-200 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-300 transition-all duration-200"
+                      >
+                        Editar
+                      </button>
+                      {!priceList.isDefault && priceList.isActive && (
+                        <button
+                          type="button"
+                          onClick={() => handleUpdate(priceList, { isDefault: true })}
+                          className="bg-gray-200 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-300 transition-all duration-200"
+                        >
+                          Usar por defecto
+                        </button>
+                      )}
+                      {priceList.isDefault && (
+                        <button
+                          type="button"
+                          onClick={() => handleUpdate(priceList, { isDefault: false })}
+                          className="bg-gray-200 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-300 transition-all duration-200"
+                        >
+                          Quitar por defecto
+                        </button>
+                      )}
+                      {!priceList.isDefault && (
+                        <button
+                          type="button"
+                          onClick={() => handleUpdate(priceList, { isActive: !priceList.isActive })}
+                          className="bg-gray-200 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-300 transition-all duration-200"
+                        >
+                          {priceList.isActive ? 'Desactivar' : 'Activar'}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(priceList)}
+                        className="bg-red-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-red-600 active:bg-red-700 transition-all duration-200 active:scale-[0.98]"
+                      >
+                        Eliminar
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Precios fijos de la lista seleccionada */}
+      {selectedList && (
+        <form onSubmit={handleSavePrices} className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+          <h3 className="text-2xl font-bold text-text-dark mb-1">Precios fijos de {selectedList.name}</h3>
+          <p className="text-text-light mb-6">
+            Los productos sin precio fijo se venden a {describeRule(selectedList)}
+          </p>
+          <div className="space-y-3 mb-6">
+            {rows.map((row, index) => {
+              const product = products.find((p) => p.id === row.productId);
+              return (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-center">
+                  <select
+                    value={row.productId}
+                    onChange={(event) => handleRowChange(index, 'productId', event.target.value)}
+                    required
+                    className={`${inputClassName} md:col-span-6`}
+                  >
+                    <option value="">Selecciona un producto</option>
+                    {products.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}{p.sku ? ` (${p.sku})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={row.price}
+                    onChange={(event) => handleRowChange(index, 'price', event.target.value)}
+                    required
+                    placeholder="Precio"
+                    className={`${inputClassName} md:col-span-2`}
+                  />
+                  <span className="text-xs text-text-light md:col-span-2">
+                    {product ? `Por regla: ${formatCurrency(getRulePrice(product))}` : ''}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                    className="bg-gray-200 text-text-dark px-3 py-3 rounded-2xl text-sm font-semibold hover:bg-gray-300 transition-all duration-200 md:col-span-2"
+                  >
+                    Quitar
+                  </button>
+                </div>
+              );
+            })}
+            <button
+              type="button"
+              onClick={() => setRows((prev) => [...prev, EMPTY_ROW])}
+              className="text-blue-600 font-semibold hover:text-blue-700"
+            >
+              + Agregar producto
+            </button>
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-blue-500 text-white px-6 py-3 rounded-2xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md hover:shadow-lg active:scale-[0.98] active:shadow-inner"
+          >
+            {isSubmitting ? 'Guardando...' : 'Guardar Precios'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default PriceListList;
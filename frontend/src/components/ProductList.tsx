@@ -1,7 +1,57 @@
 import { type ChangeEvent, type FormEvent, useEffect, useState } from 'react';
+import type { AxiosError } from 'axios';
 
-import type { CreateProductPayload, Product, UpdateProductPayload } from '../services/productService';
-import { createProduct, deleteProduct, getProducts, updateProduct } from '../services/productService';
+import type { Brand, ProductCategory } from '../services/catalogService';
+import { getBrands, getCategories } from '../services/catalogService';
+import type { Location } from '../services/locationService';
+import { getLocations } from '../services/locationService';
+import type { ProductLot } from '../services/lotService';
+import { getLots } from '../services/lotService';
+import type {
+  CreateProductPayload,
+  Product,
+  ProductImportResult,
+  ProductKardex,
+  TaxCategory,
+  UnitOfMeasure,
+  UpdateProductPayload
+} from '../services/productService';
+import {
+  STOCK_MOVEMENT_LABELS,
+  TAX_CATEGORY_LABELS,
+  UNIT_OF_MEASURE_LABELS,
+  createProduct,
+  formatQuantity,
+  getQuantityStep,
+  deleteProduct,
+  exportProducts,
+  getProductKardex,
+  getProducts,
+  importProducts,
+  printProductLabels,
+  updateProduct
+} from '../services/productService';
+import type { Supplier } from '../services/supplierService';
+import { getSuppliers } from '../services/supplierService';
+
+// Códigos de barras del formulario (uno por línea o separados por comas); los existentes conservan su tipo
+const parseBarcodes = (value: string, product?: Product) => {
+  return value
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map((code) => ({ code, type: product?.barcodes?.find((barcode) => barcode.code === code)?.type }));
+};
+
+// Extrae el mensaje de error enviado por el backend
+const getErrorMessage = (err: unknown, fallback: string) => {
+  return (err as AxiosError<{ message?: string }>)?.response?.data?.message || fallback;
+};
+
+interface ProductListFilters {
+  locationId?: string;
+  categoryId?: string;
+  brandId?: string;
+}
 
 const ProductList = () => {
   const [products, setProducts] = useState<Product[]>([]);
@@ -13,17 +63,58 @@ const ProductList = () => {
     description: '',
     price: '0',
     cost: '0',
-    stock: '0'
+    stock: '0',
+    taxCategory: 'STANDARD' as TaxCategory,
+    unit: 'UNIT' as UnitOfMeasure,
+    purchaseUnit: '' as UnitOfMeasure | '',
+    unitsPerPurchaseUnit: '1',
+    categoryId: '',
+    brandId: '',
+    barcodes: '',
+    trackLots: false,
+    isKit: false,
+    minStock: '',
+    maxStock: '',
+    reorderQuantity: '',
+    preferredSupplierId: ''
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [kardex, setKardex] = useState<ProductKardex | null>(null);
+  const [kardexLots, setKardexLots] = useState<ProductLot[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationFilter, setLocationFilter] = useState<string>('');
+  const [categories, setCategories] = useState<ProductCategory[]>([]);
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState<string>('');
+  const [brandFilter, setBrandFilter] = useState<string>('');
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importPreview, setImportPreview] = useState<ProductImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  // Componentes del kit en edición: producto y cantidad por cada unidad del kit
+  const [kitComponents, setKitComponents] = useState<{ productId: string; quantity: string }[]>([]);
 
-  const fetchProducts = async () => {
+  const fetchProducts = async (filters: ProductListFilters = {}) => {
     try {
       setIsLoading(true);
       setError(null); // Limpiar error anterior
-      const data = await getProducts();
+      const [data, locationData, categoryData, brandData, supplierData] = await Promise.all([
+        getProducts({
+          locationId: filters.locationId || undefined,
+          categoryId: filters.categoryId || undefined,
+          brandId: filters.brandId || undefined
+        }),
+        getLocations(),
+        getCategories(),
+        getBrands(),
+        getSuppliers()
+      ]);
       setProducts(data);
+      setLocations(locationData);
+      setCategories(categoryData);
+      setBrands(brandData);
+      setSuppliers(supplierData);
     } catch (err: unknown) {
       // Manejo mejorado de errores con mensajes específicos
       let errorMessage = 'No fue posible cargar los productos.';
@@ -65,11 +156,36 @@ const ProductList = () => {
     void fetchProducts();
   }, []);
 
-  const handleInputChange = (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const currentFilters = (): ProductListFilters => ({
+    locationId: locationFilter,
+    categoryId: categoryFilter,
+    brandId: brandFilter
+  });
+
+  const handleLocationFilterChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    setLocationFilter(event.target.value);
+    void fetchProducts({ ...currentFilters(), locationId: event.target.value });
+  };
+
+  // Filtrar por una categoría incluye los productos de sus subcategorías
+  const handleCategoryFilterChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    setCategoryFilter(event.target.value);
+    void fetchProducts({ ...currentFilters(), categoryId: event.target.value });
+  };
+
+  const handleBrandFilterChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    setBrandFilter(event.target.value);
+    void fetchProducts({ ...currentFilters(), brandId: event.target.value });
+  };
+
+  const handleInputChange = (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = event.target;
     
     // Para campos numéricos, validar que sean números válidos
-    if (name === 'price' || name === 'cost' || name === 'stock') {
+    if (
+      name === 'price' || name === 'cost' || name === 'stock' || name === 'unitsPerPurchaseUnit' ||
+      name === 'minStock' || name === 'maxStock' || name === 'reorderQuantity'
+    ) {
       const numValue = parseFloat(value);
       if (!isNaN(numValue) || value === '' || value === '.' || value === '-') {
         setFormData((prev) => ({
@@ -77,6 +193,13 @@ const ProductList = () => {
           [name]: value
         }));
       }
+    } else if (name === 'unit') {
+      // La unidad de compra debe ser distinta a la de venta
+      setFormData((prev) => ({
+        ...prev,
+        unit: value as UnitOfMeasure,
+        purchaseUnit: prev.purchaseUnit === value ? '' : prev.purchaseUnit
+      }));
     } else {
       setFormData((prev) => ({
         ...prev,
@@ -93,8 +216,26 @@ const ProductList = () => {
       description: product.description || '',
       price: typeof product.price === 'string' ? product.price : product.price.toString(),
       cost: typeof product.cost === 'string' ? product.cost : product.cost.toString(),
-      stock: product.stock.toString()
+      // El stock del formulario es el total; el ajuste manual se aplica en la bodega por defecto
+      stock: (product.totalStock ?? product.stock).toString(),
+      taxCategory: product.taxCategory ?? 'STANDARD',
+      unit: product.unit ?? 'UNIT',
+      purchaseUnit: product.purchaseUnit ?? '',
+      unitsPerPurchaseUnit: String(product.unitsPerPurchaseUnit ?? '1'),
+      categoryId: product.categoryId ?? '',
+      brandId: product.brandId ?? '',
+      barcodes: (product.barcodes ?? []).map((barcode) => barcode.code).join('\n'),
+      trackLots: product.trackLots ?? false,
+      isKit: product.isKit ?? false,
+      minStock: product.minStock !== null && product.minStock !== undefined ? String(product.minStock) : '',
+      maxStock: product.maxStock !== null && product.maxStock !== undefined ? String(product.maxStock) : '',
+      reorderQuantity: product.reorderQuantity !== null && product.reorderQuantity !== undefined ? String(product.reorderQuantity) : '',
+      preferredSupplierId: product.preferredSupplierId ?? ''
     });
+    setKitComponents((product.kitComponents ?? []).map((item) => ({
+      productId: item.componentId,
+      quantity: String(item.quantity)
+    })));
   };
 
   const handleCancelEdit = () => {
@@ -105,22 +246,169 @@ const ProductList = () => {
       description: '',
       price: '0',
       cost: '0',
-      stock: '0'
+      stock: '0',
+      taxCategory: 'STANDARD',
+      unit: 'UNIT',
+      purchaseUnit: '',
+      unitsPerPurchaseUnit: '1',
+      categoryId: '',
+      brandId: '',
+      barcodes: '',
+      trackLots: false,
+      isKit: false,
+      minStock: '',
+      maxStock: '',
+      reorderQuantity: '',
+      preferredSupplierId: ''
     });
+    setKitComponents([]);
+  };
+
+  const handleShowKardex = async (id: string) => {
+    try {
+      const [data, lots] = await Promise.all([getProductKardex(id), getLots({ productId: id })]);
+      setKardex(data);
+      setKardexLots(lots);
+    } catch (err) {
+      alert('No fue posible cargar el kardex del producto.');
+      console.error(err);
+    }
+  };
+
+  const handlePrintLabels = async (product: Product) => {
+    const copies = Number(window.prompt(`¿Cuántas etiquetas de ${product.name} deseas imprimir?`, '1'));
+    if (!Number.isInteger(copies) || copies < 1) {
+      return;
+    }
+    try {
+      const pdf = await printProductLabels([{ productId: product.id, copies }]);
+      const url = URL.createObjectURL(pdf);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `etiquetas-${product.sku || product.id}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+      // Si el producto no tenía código de barras, ahora tiene uno interno
+      await fetchProducts(currentFilters());
+    } catch (err) {
+      alert('No fue posible generar las etiquetas del producto.');
+      console.error(err);
+    }
+  };
+
+  // Vista previa: el archivo se valida completo antes de guardar cualquier producto
+  const handleImportFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      setIsImporting(true);
+      setImportPreview(await importProducts(file, true));
+      setImportFile(file);
+    } catch (err: unknown) {
+      alert(getErrorMessage(err, 'No fue posible leer el archivo de productos.'));
+      console.error(err);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!importFile) {
+      return;
+    }
+    try {
+      setIsImporting(true);
+      const result = await importProducts(importFile, false);
+      alert(`Importación completada: ${result.summary.toCreate} producto(s) creados y ${result.summary.toUpdate} actualizados.`);
+      setImportFile(null);
+      setImportPreview(null);
+      await fetchProducts(currentFilters());
+    } catch (err: unknown) {
+      // Si el catálogo cambió desde la vista previa, el backend devuelve de nuevo el detalle por fila
+      const data = (err as AxiosError<ProductImportResult>)?.response?.data;
+      if (data?.rows) {
+        setImportPreview(data);
+      }
+      alert(getErrorMessage(err, 'No fue posible importar los productos.'));
+      console.error(err);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleCancelImport = () => {
+    setImportFile(null);
+    setImportPreview(null);
+  };
+
+  // Descarga el catálogo con los mismos filtros del listado
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    try {
+      const file = await exportProducts({
+        locationId: locationFilter || undefined,
+        categoryId: categoryFilter || undefined,
+        brandId: brandFilter || undefined
+      }, format);
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `productos.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      alert(getErrorMessage(err, 'No fue posible exportar los productos.'));
+      console.error(err);
+    }
   };
 
   const handleDelete = async (id: string) => {
     if (window.confirm('¿Estás seguro de que deseas eliminar este producto?')) {
       try {
-        await deleteProduct(id);
-        await fetchProducts();
+        const result = await deleteProduct(id);
+        if (result?.deactivated) {
+          alert(result.message);
+        }
+        await fetchProducts(currentFilters());
       } catch (err) {
-        alert('No fue posible eliminar el producto. Intenta nuevamente.');
+        alert(getErrorMessage(err, 'No fue posible eliminar el producto. Intenta nuevamente.'));
         console.error(err);
       }
     }
   };
 
+  // Los campos de reposición vacíos quedan sin valor (el producto usa el umbral general)
+  const getReorderPayload = () => ({
+    minStock: formData.minStock !== '' ? Number(formData.minStock) : null,
+    maxStock: formData.maxStock !== '' ? Number(formData.maxStock) : null,
+    reorderQuantity: formData.reorderQuantity !== '' ? Number(formData.reorderQuantity) : null,
+    preferredSupplierId: formData.preferredSupplierId || null
+  });
+
+  // Productos que pueden ser componentes: los que no son kits, sin el producto en edición
+  const componentOptions = products.filter((product) => !product.isKit && product.id !== editingId);
+
+  const handleKitComponentChange = (index: number, field: 'productId' | 'quantity', value: string) => {
+    setKitComponents((prev) => prev.map((item, position) => (position === index ? { ...item, [field]: value } : item)));
+  };
+
+  // Costo del kit: la suma del costo de sus componentes (el backend lo recalcula al guardar)
+  const kitCost = kitComponents.reduce((sum, item) => {
+    const component = products.find((product) => product.id === item.productId);
+    return sum + (component ? Number(component.cost) * (Number(item.quantity) || 0) : 0);
+  }, 0);
+
+  const getKitPayload = () => ({
+    isKit: formData.isKit,
+    components: formData.isKit
+      ? kitComponents
+        .filter((item) => item.productId)
+        .map((item) => ({ productId: item.productId, quantity: Number(item.quantity) || 0 }))
+      : undefined
+  });
+
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setIsSubmitting(true);
@@ -132,8 +420,19 @@ const ProductList = () => {
           sku: formData.sku || null,
           description: formData.description || null,
           price: Number(formData.price) || 0,
-          cost: Number(formData.cost) || 0,
-          stock: Number(formData.stock) || 0
+          // El costo y el stock de un kit salen de sus componentes
+          cost: formData.isKit ? undefined : Number(formData.cost) || 0,
+          stock: formData.isKit ? undefined : Number(formData.stock) || 0,
+          taxCategory: formData.taxCategory,
+          unit: formData.unit,
+          purchaseUnit: formData.purchaseUnit || null,
+          unitsPerPurchaseUnit: Number(formData.unitsPerPurchaseUnit) || 1,
+          categoryId: formData.categoryId || null,
+          brandId: formData.brandId || null,
+          barcodes: parseBarcodes(formData.barcodes, products.find((product) => product.id === editingId)),
+          trackLots: formData.trackLots,
+          ...getKitPayload(),
+          ...getReorderPayload()
         };
         await updateProduct(editingId, payload);
         setEditingId(null);
@@ -144,8 +443,18 @@ const ProductList = () => {
           sku: formData.sku || null,
           description: formData.description || null,
           price: Number(formData.price) || 0,
-          cost: Number(formData.cost) || 0,
-          stock: Number(formData.stock) || 0,
+          cost: formData.isKit ? 0 : Number(formData.cost) || 0,
+          stock: formData.isKit ? 0 : Number(formData.stock) || 0,
+          taxCategory: formData.taxCategory,
+          unit: formData.unit,
+          purchaseUnit: formData.purchaseUnit || null,
+          unitsPerPurchaseUnit: Number(formData.unitsPerPurchaseUnit) || 1,
+          categoryId: formData.categoryId || null,
+          brandId: formData.brandId || null,
+          barcodes: parseBarcodes(formData.barcodes),
+          trackLots: formData.trackLots,
+          ...getKitPayload(),
+          ...getReorderPayload(),
           isActive: true
         };
         await createProduct(payload);
@@ -156,13 +465,27 @@ const ProductList = () => {
         description: '',
         price: '0',
         cost: '0',
-        stock: '0'
+        stock: '0',
+        taxCategory: 'STANDARD',
+        unit: 'UNIT',
+        purchaseUnit: '',
+        unitsPerPurchaseUnit: '1',
+        categoryId: '',
+        brandId: '',
+        barcodes: '',
+        trackLots: false,
+        isKit: false,
+        minStock: '',
+        maxStock: '',
+        reorderQuantity: '',
+        preferredSupplierId: ''
       });
-      await fetchProducts();
-    } catch (err) {
-      alert(editingId 
-        ? 'No fue posible actualizar el producto. Intenta nuevamente.' 
-        : 'No fue posible crear el producto. Intenta nuevamente.');
+      setKitComponents([]);
+      await fetchProducts(currentFilters());
+    } catch (err: unknown) {
+      alert(getErrorMessage(err, editingId
+        ? 'No fue posible actualizar el producto. Intenta nuevamente.'
+        : 'No fue posible crear el producto. Intenta nuevamente.'));
       console.error(err);
     } finally {
       setIsSubmitting(false);
@@ -263,7 +586,7 @@ const ProductList = () => {
           </div>
           <div className="flex flex-col">
             <label htmlFor="cost" className="block mb-2 font-medium text-text-dark">
-              Costo *
+              Costo * {formData.isKit && <span className="text-xs text-text-light">(suma de los componentes)</span>}
             </label>
             <input
               id="cost"
@@ -271,26 +594,298 @@ const ProductList = () => {
               type="number"
               step="0.01"
               min="0"
-              value={formData.cost}
+              value={formData.isKit ? kitCost.toFixed(2) : formData.cost}
               onChange={handleInputChange}
+              disabled={formData.isKit}
               required
               className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
             />
           </div>
+          {!formData.isKit && (
+            <div className="flex flex-col">
+              <label htmlFor="stock" className="block mb-2 font-medium text-text-dark">
+                Stock total {locations.length > 1 && <span className="text-xs text-text-light">(el ajuste se aplica en la bodega por defecto)</span>}
+              </label>
+              <input
+                id="stock"
+                name="stock"
+                type="number"
+                step={getQuantityStep(formData.unit)}
+                min="0"
+                value={formData.stock}
+                onChange={handleInputChange}
+                className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              />
+            </div>
+          )}
+          <div className="flex flex-col">
+            <label htmlFor="taxCategory" className="block mb-2 font-medium text-text-dark">
+              IVA
+            </label>
+            <select
+              id="taxCategory"
+              name="taxCategory"
+              value={formData.taxCategory}
+              onChange={handleInputChange}
+              className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              {(Object.keys(TAX_CATEGORY_LABELS) as TaxCategory[]).map((category) => (
+                <option key={category} value={category}>
+                  {TAX_CATEGORY_LABELS[category]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="unit" className="block mb-2 font-medium text-text-dark">
+              Unidad de venta
+            </label>
+            <select
+              id="unit"
+              name="unit"
+              value={formData.unit}
+              onChange={handleInputChange}
+              className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              {(Object.keys(UNIT_OF_MEASURE_LABELS) as UnitOfMeasure[]).map((unit) => (
+                <option key={unit} value={unit}>
+                  {UNIT_OF_MEASURE_LABELS[unit]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="purchaseUnit" className="block mb-2 font-medium text-text-dark">
+              Unidad de compra
+            </label>
+            <select
+              id="purchaseUnit"
+              name="purchaseUnit"
+              value={formData.purchaseUnit}
+              onChange={handleInputChange}
+              className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              <option value="">Igual a la de venta</option>
+              {(Object.keys(UNIT_OF_MEASURE_LABELS) as UnitOfMeasure[])
+                .filter((unit) => unit !== formData.unit)
+                .map((unit) => (
+                  <option key={unit} value={unit}>
+                    {UNIT_OF_MEASURE_LABELS[unit]}
+                  </option>
+                ))}
+            </select>
+          </div>
+          {formData.purchaseUnit && (
+            <div className="flex flex-col">
+              <label htmlFor="unitsPerPurchaseUnit" className="block mb-2 font-medium text-text-dark">
+                {UNIT_OF_MEASURE_LABELS[formData.unit]} por {UNIT_OF_MEASURE_LABELS[formData.purchaseUnit].toLowerCase()}
+              </label>
+              <input
+                id="unitsPerPurchaseUnit"
+                name="unitsPerPurchaseUnit"
+                type="number"
+                step={getQuantityStep(formData.unit)}
+                min="0"
+                value={formData.unitsPerPurchaseUnit}
+                onChange={handleInputChange}
+                required
+                className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              />
+            </div>
+          )}
+          <div className="flex flex-col">
+            <label htmlFor="categoryId" className="block mb-2 font-medium text-text-dark">
+              Categoría
+            </label>
+            <select
+              id="categoryId"
+              name="categoryId"
+              value={formData.categoryId}
+              onChange={handleInputChange}
+              className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              <option value="">Sin categoría</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.path}
+                </option>
+              ))}
+            </select>
+          </div>
           <div className="flex flex-col">
-            <label htmlFor="stock" className="block mb-2 font-medium text-text-dark">
-              Stock
+            <label htmlFor="brandId" className="block mb-2 font-medium text-text-dark">
+              Marca
+            </label>
+            <select
+              id="brandId"
+              name="brandId"
+              value={formData.brandId}
+              onChange={handleInputChange}
+              className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              <option value="">Sin marca</option>
+              {brands.map((brand) => (
+                <option key={brand.id} value={brand.id}>
+                  {brand.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="minStock" className="block mb-2 font-medium text-text-dark">
+              Stock mínimo <span className="text-xs text-text-light">(punto de reorden)</span>
+            </label>
+            <input
+              id="minStock"
+              name="minStock"
+              type="number"
+              step={getQuantityStep(formData.unit)}
+              min="0"
+              value={formData.minStock}
+              onChange={handleInputChange}
+              placeholder="Opcional"
+              className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="maxStock" className="block mb-2 font-medium text-text-dark">
+              Stock máximo
             </label>
             <input
-              id="stock"
-              name="stock"
+              id="maxStock"
+              name="maxStock"
               type="number"
+              step={getQuantityStep(formData.unit)}
               min="0"
-              value={formData.stock}
+              value={formData.maxStock}
               onChange={handleInputChange}
+              placeholder="Opcional"
               className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
             />
           </div>
+          <div className="flex flex-col">
+            <label htmlFor="reorderQuantity" className="block mb-2 font-medium text-text-dark">
+              Comprar de a <span className="text-xs text-text-light">(múltiplo de compra)</span>
+            </label>
+            <input
+              id="reorderQuantity"
+              name="reorderQuantity"
+              type="number"
+              step={getQuantityStep(formData.unit)}
+              min="0"
+              value={formData.reorderQuantity}
+              onChange={handleInputChange}
+              placeholder="Opcional"
+              className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="preferredSupplierId" className="block mb-2 font-medium text-text-dark">
+              Proveedor preferido
+            </label>
+            <select
+              id="preferredSupplierId"
+              name="preferredSupplierId"
+              value={formData.preferredSupplierId}
+              onChange={handleInputChange}
+              className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              <option value="">Sin proveedor preferido</option>
+              {suppliers.map((supplier) => (
+                <option key={supplier.id} value={supplier.id}>
+                  {supplier.businessName}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col md:col-span-2">
+            <label htmlFor="barcodes" className="block mb-2 font-medium text-text-dark">
+              Códigos de barras <span className="text-xs text-text-light">(uno por línea: EAN-13, UPC o códigos internos)</span>
+            </label>
+            <textarea
+              id="barcodes"
+              name="barcodes"
+              value={formData.barcodes}
+              onChange={handleInputChange}
+              rows={2}
+              className="border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all resize-none font-mono"
+            />
+          </div>
+          <label className="flex items-center gap-3 font-medium text-text-dark md:col-span-2">
+            <input
+              type="checkbox"
+              checked={formData.trackLots}
+              onChange={(event) => setFormData((prev) => ({ ...prev, trackLots: event.target.checked }))}
+              disabled={formData.isKit}
+              className="w-5 h-5 rounded border-gray-300"
+            />
+            Maneja lotes y fecha de vencimiento
+            <span className="text-xs text-text-light">(las compras piden el lote y las ventas salen primero de lo que vence antes)</span>
+          </label>
+          <label className="flex items-center gap-3 font-medium text-text-dark md:col-span-2">
+            <input
+              type="checkbox"
+              checked={formData.isKit}
+              onChange={(event) => {
+                const isKit = event.target.checked;
+                setFormData((prev) => ({ ...prev, isKit, trackLots: isKit ? false : prev.trackLots }));
+                if (isKit && kitComponents.length === 0) {
+                  setKitComponents([{ productId: '', quantity: '1' }]);
+                }
+              }}
+              className="w-5 h-5 rounded border-gray-300"
+            />
+            Es un kit (canasta o combo)
+            <span className="text-xs text-text-light">(al venderlo se descuenta el stock de sus componentes)</span>
+          </label>
+          {formData.isKit && (
+            <div className="flex flex-col gap-3 md:col-span-2">
+              <span className="font-medium text-text-dark">Componentes por cada kit</span>
+              {kitComponents.map((item, index) => {
+                const component = componentOptions.find((product) => product.id === item.productId);
+                return (
+                  <div key={index} className="flex gap-3 items-center">
+                    <select
+                      value={item.productId}
+                      onChange={(event) => handleKitComponentChange(index, 'productId', event.target.value)}
+                      required
+                      className="border-2 border-gray-200 rounded-2xl p-3 flex-1 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                    >
+                      <option value="">Selecciona un producto</option>
+                      {componentOptions.map((product) => (
+                        <option key={product.id} value={product.id}>
+                          {product.name}{product.sku ? ` (${product.sku})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      step={getQuantityStep(component?.unit)}
+                      min="0"
+                      value={item.quantity}
+                      onChange={(event) => handleKitComponentChange(index, 'quantity', event.target.value)}
+                      required
+                      className="border-2 border-gray-200 rounded-2xl p-3 w-32 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setKitComponents((prev) => prev.filter((_, position) => position !== index))}
+                      className="text-red-600 hover:text-red-700 font-semibold px-3"
+                    >
+                      Quitar
+                    </button>
+                  </div>
+                );
+              })}
+              <button
+                type="button"
+                onClick={() => setKitComponents((prev) => [...prev, { productId: '', quantity: '1' }])}
+                className="self-start bg-gray-200 text-text-dark px-4 py-2 rounded-2xl hover:bg-gray-300 transition-all font-semibold"
+              >
+                Agregar componente
+              </button>
+            </div>
+          )}
         </div>
         <div className="flex gap-3">
           <button 
@@ -313,6 +908,163 @@ const ProductList = () => {
         </div>
       </form>
 
+      <div className="flex flex-wrap items-center gap-6">
+        {locations.length > 1 && (
+          <div className="flex items-center gap-3">
+            <label htmlFor="locationFilter" className="font-medium text-text-dark">
+              Stock de la bodega
+            </label>
+            <select
+              id="locationFilter"
+              value={locationFilter}
+              onChange={handleLocationFilterChange}
+              className="border-2 border-gray-200 rounded-2xl p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              <option value="">Todas las bodegas</option>
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {categories.length > 0 && (
+          <div className="flex items-center gap-3">
+            <label htmlFor="categoryFilter" className="font-medium text-text-dark">
+              Categoría
+            </label>
+            <select
+              id="categoryFilter"
+              value={categoryFilter}
+              onChange={handleCategoryFilterChange}
+              className="border-2 border-gray-200 rounded-2xl p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              <option value="">Todas las categorías</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.path}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {brands.length > 0 && (
+          <div className="flex items-center gap-3">
+            <label htmlFor="brandFilter" className="font-medium text-text-dark">
+              Marca
+            </label>
+            <select
+              id="brandFilter"
+              value={brandFilter}
+              onChange={handleBrandFilterChange}
+              className="border-2 border-gray-200 rounded-2xl p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              <option value="">Todas las marcas</option>
+              {brands.map((brand) => (
+                <option key={brand.id} value={brand.id}>
+                  {brand.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {/* Importación y exportación del catálogo */}
+      <div className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100 space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <div>
+            <h3 className="text-xl font-bold text-text-dark">Importar y exportar</h3>
+            <p className="text-sm text-text-light">
+              Carga productos desde CSV o Excel con las columnas de la exportación; los SKU existentes se actualizan
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <label
+              className={`bg-blue-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-blue-600 transition-all duration-200 ${isImporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+            >
+              {isImporting ? 'Procesando...' : 'Importar archivo'}
+              <input
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={handleImportFileChange}
+                disabled={isImporting}
+                className="hidden"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => handleExport('csv')}
+              className="bg-gray-100 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-200 transition-all duration-200"
+            >
+              Exportar CSV
+            </button>
+            <button
+              type="button"
+              onClick={() => handleExport('xlsx')}
+              className="bg-gray-100 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-200 transition-all duration-200"
+            >
+              Exportar Excel
+            </button>
+          </div>
+        </div>
+        {importPreview && (
+          <div className="space-y-3">
+            <p className="text-text-dark">
+              {importFile?.name}: {importPreview.summary.total} fila(s), {importPreview.summary.toCreate} por crear,{' '}
+              {importPreview.summary.toUpdate} por actualizar
+              {importPreview.summary.withErrors > 0 && (
+                <span className="text-red-600 font-semibold"> y {importPreview.summary.withErrors} con errores</span>
+              )}
+            </p>
+            <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-2xl">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="p-2 text-left border-b border-gray-200 font-semibold text-text-dark">Fila</th>
+                    <th className="p-2 text-left border-b border-gray-200 font-semibold text-text-dark">SKU</th>
+                    <th className="p-2 text-left border-b border-gray-200 font-semibold text-text-dark">Nombre</th>
+                    <th className="p-2 text-left border-b border-gray-200 font-semibold text-text-dark">Acción</th>
+                    <th className="p-2 text-left border-b border-gray-200 font-semibold text-text-dark">Errores</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {importPreview.rows.map((row) => (
+                    <tr key={row.row} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                      <td className="p-2 border-b border-gray-100">{row.row}</td>
+                      <td className="p-2 border-b border-gray-100">{row.sku || '-'}</td>
+                      <td className="p-2 border-b border-gray-100">{row.name || '-'}</td>
+                      <td className="p-2 border-b border-gray-100">{row.action === 'CREATE' ? 'Crear' : 'Actualizar'}</td>
+                      <td className="p-2 border-b border-gray-100 text-red-600">
+                        {row.errors.length > 0 ? row.errors.join('; ') : <span className="text-green-600">OK</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleConfirmImport}
+                disabled={isImporting || importPreview.summary.withErrors > 0}
+                className="bg-green-600 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                Confirmar importación
+              </button>
+              <button
+                type="button"
+                onClick={handleCancelImport}
+                className="bg-gray-200 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-300 transition-all duration-200"
+              >
+                Cancelar
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
       {products.length === 0 ? (
         <div className="bg-card-background rounded-3xl shadow-md p-12 text-center">
           <div className="bg-orange-50 rounded-full p-6 w-24 h-24 mx-auto mb-4 flex items-center justify-center">
@@ -329,20 +1081,56 @@ const ProductList = () => {
               <tr className="bg-gray-50">
                 <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Nombre</th>
                 <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">SKU</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Categoría</th>
                 <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Precio</th>
                 <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Costo</th>
                 <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Stock</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">IVA</th>
                 <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
               </tr>
             </thead>
             <tbody>
               {products.map((product) => (
                 <tr key={product.id} className="hover:bg-gray-50 transition-colors">
-                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">{product.name}</td>
-                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{product.sku ?? '-'}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">
+                    {product.name}
+                    {product.isKit && (
+                      <span className="block text-xs text-text-light font-normal">
+                        Kit: {(product.kitComponents ?? [])
+                          .map((item) => `${formatQuantity(item.quantity, item.component.unit)} ${item.component.name}`)
+                          .join(' + ')}
+                      </span>
+                    )}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">
+                    {product.sku ?? '-'}
+                    {(product.barcodes ?? []).map((barcode) => (
+                      <span key={barcode.id} className="block text-xs font-mono">{barcode.code}</span>
+                    ))}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">
+                    {product.category?.name ?? '-'}
+                    {product.brand && <span className="block text-xs">{product.brand.name}</span>}
+                  </td>
                   <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-semibold">{formatCurrency(product.price)}</td>
                   <td className="p-4 py-4 border-b border-gray-100 text-text-light">{formatCurrency(product.cost)}</td>
-                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{product.stock}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">
+                    {formatQuantity(product.stock, product.unit)}
+                    {!locationFilter && (product.stockByLocation?.length ?? 0) > 1 && (
+                      <span className="block text-xs">
+                        {product.stockByLocation?.map((stock) => `${stock.locationName}: ${formatQuantity(stock.quantity)}`).join(' · ')}
+                      </span>
+                    )}
+                    {locationFilter && product.totalStock !== undefined && (
+                      <span className="block text-xs">Total: {formatQuantity(product.totalStock, product.unit)}</span>
+                    )}
+                    {product.minStock !== null && product.minStock !== undefined && (
+                      <span className={`block text-xs ${Number(product.totalStock ?? product.stock) <= Number(product.minStock) ? 'text-red-600 font-semibold' : ''}`}>
+                        Mín. {formatQuantity(product.minStock)}{product.maxStock !== null && product.maxStock !== undefined ? ` · Máx. ${formatQuantity(product.maxStock)}` : ''}
+                      </span>
+                    )}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{TAX_CATEGORY_LABELS[product.taxCategory] ?? '-'}</td>
                   <td className="p-4 py-4 border-b border-gray-100">
                     <div className="flex gap-2">
                       <button 
@@ -353,6 +1141,20 @@ const ProductList = () => {
                       >
                         Editar
                       </button>
+                      <button
+                        type="button"
+                        onClick={() => handleShowKardex(product.id)}
+                        className="bg-gray-100 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-200 transition-all duration-200 active:scale-[0.98]"
+                      >
+                        Kardex
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handlePrintLabels(product)}
+                        className="bg-gray-100 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-200 transition-all duration-200 active:scale-[0.98]"
+                      >
+                        Etiquetas
+                      </button>
                       <button 
                         type="button" 
                         onClick={() => handleDelete(product.id)}
@@ -369,6 +1171,87 @@ const ProductList = () => {
           </table>
         </div>
       )}
+
+      {kardex && (
+        <div className="bg-card-background rounded-3xl shadow-md overflow-hidden border-b-2 border-gray-100 mt-8">
+          <div className="flex justify-between items-center p-6">
+            <div>
+              <h3 className="text-xl font-bold text-text-dark">Kardex: {kardex.product.name}</h3>
+              <p className="text-sm text-text-light">
+                Saldo inicial: {formatQuantity(kardex.openingBalance)} · Entradas: {formatQuantity(kardex.totalIn)} · Salidas: {formatQuantity(kardex.totalOut)} · Saldo final: {formatQuantity(kardex.closingBalance, kardex.product.unit)}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                setKardex(null);
+                setKardexLots([]);
+              }}
+              className="bg-gray-100 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-200 transition-all duration-200"
+            >
+              Cerrar
+            </button>
+          </div>
+          {kardexLots.length > 0 && (
+            <div className="px-6 pb-6">
+              <h4 className="font-semibold text-text-dark mb-2">Lotes con existencias</h4>
+              <div className="flex flex-wrap gap-2">
+                {kardexLots.map((lot) => (
+                  <span
+                    key={lot.id}
+                    className={`text-sm px-3 py-1 rounded-2xl ${lot.isExpired ? 'bg-red-100 text-red-700' : lot.daysToExpiry !== null && lot.daysToExpiry <= 30 ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-text-dark'}`}
+                  >
+                    {lot.lotNumber} · {formatQuantity(lot.quantity, kardex.product.unit)} · {lot.location.name}
+                    {lot.expiryDate ? ` · vence ${lot.expiryDate.slice(0, 10)}` : ' · sin vencimiento'}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Fecha</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Tipo</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Documento</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Cantidad</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Costo unitario</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Saldo</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Usuario</th>
+              </tr>
+            </thead>
+            <tbody>
+              {kardex.movements.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="p-4 text-center text-text-light">Sin movimientos registrados.</td>
+                </tr>
+              ) : (
+                kardex.movements.map((movement) => (
+                  <tr key={movement.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="p-4 py-4 border-b border-gray-100 text-text-light">{new Date(movement.createdAt).toLocaleString('es-CO')}</td>
+                    <td className="p-4 py-4 border-b border-gray-100 text-text-dark">{STOCK_MOVEMENT_LABELS[movement.type]}</td>
+                    <td className="p-4 py-4 border-b border-gray-100 text-text-light">
+                      {movement.creditNote?.number ?? movement.invoice?.number ?? movement.purchase?.number ?? movement.inventoryCount?.number ?? movement.stockTransfer?.number ?? movement.notes ?? '-'}
+                      {movement.location && <span className="block text-xs">Bodega {movement.location.name}</span>}
+                    </td>
+                    <td className={`p-4 py-4 border-b border-gray-100 font-semibold ${Number(movement.quantity) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {Number(movement.quantity) > 0 ? `+${formatQuantity(movement.quantity)}` : formatQuantity(movement.quantity)}
+                      {(movement.lots ?? []).map((item) => (
+                        <span key={item.lot.id} className="block text-xs font-normal text-text-light">
+                          Lote {item.lot.lotNumber}: {formatQuantity(Math.abs(Number(item.quantity)))}
+                        </span>
+                      ))}
+                    </td>
+                    <td className="p-4 py-4 border-b border-gray-100 text-text-light">{formatCurrency(movement.unitCost)}</td>
+                    <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-semibold">{formatQuantity(movement.balance)}</td>
+                    <td className="p-4 py-4 border-b border-gray-100 text-text-light">{movement.user?.fullName ?? '-'}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 };
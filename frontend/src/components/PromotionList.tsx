@@ -0,0 +1,497 @@
+import { type ChangeEvent, type FormEvent, useEffect, useState } from 'react';
+import type { AxiosError } from 'axios';
+
+import type { ProductCategory } from '../services/catalogService';
+import { getCategories } from '../services/catalogService';
+import type { Product } from '../services/productService';
+import { getProducts } from '../services/productService';
+import type { Promotion, PromotionPayload, PromotionType } from '../services/promotionService';
+import {
+  DAY_OF_WEEK_LABELS,
+  PROMOTION_TYPE_LABELS,
+  createPromotion,
+  deletePromotion,
+  getPromotions,
+  updatePromotion
+} from '../services/promotionService';
+
+type Scope = 'ALL' | 'PRODUCT' | 'CATEGORY';
+
+const EMPTY_PROMOTION = {
+  name: '',
+  type: 'PERCENTAGE' as PromotionType,
+  scope: 'ALL' as Scope,
+  productId: '',
+  categoryId: '',
+  percentage: '',
+  buyQuantity: '1',
+  getQuantity: '1',
+  startDate: '',
+  endDate: '',
+  daysOfWeek: [] as number[],
+  startTime: '',
+  endTime: ''
+};
+
+// Extrae el mensaje de error enviado por el backend
+const getErrorMessage = (err: unknown, fallback: string) => {
+  return (err as AxiosError<{ message?: string }>)?.response?.data?.message || fallback;
+};
+
+// Regla de la promoción en palabras: "15% de descuento" o "Lleve 2 reciba 1 gratis"
+const describeRule = (promotion: Promotion) => {
+  if (promotion.type === 'BUY_X_GET_Y') {
+    return `Lleve ${promotion.buyQuantity} reciba ${promotion.getQuantity} gratis`;
+  }
+  return `${Number(promotion.percentage)}% de descuento`;
+};
+
+// Vigencia en palabras: fechas, días de la semana y franja horaria
+const describeSchedule = (promotion: Promotion) => {
+  const parts: string[] = [];
+  if (promotion.startDate || promotion.endDate) {
+    const from = promotion.startDate ? new Date(promotion.startDate).toLocaleDateString('es-CO') : '...';
+    const to = promotion.endDate ? new Date(promotion.endDate).toLocaleDateString('es-CO') : '...';
+    parts.push(`${from} a ${to}`);
+  }
+  if (promotion.daysOfWeek.length > 0) {
+    parts.push(promotion.daysOfWeek.map((day) => DAY_OF_WEEK_LABELS[day]).join(', '));
+  }
+  if (promotion.startTime && promotion.endTime) {
+    parts.push(`${promotion.startTime} - ${promotion.endTime}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'Siempre';
+};
+
+const PromotionList = () => {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<ProductCategory[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_PROMOTION);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchPromotions = async () => {
+    setPromotions(await getPromotions({ includeInactive: true }));
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const [promotionData, productData, categoryData] = await Promise.all([
+          getPromotions({ includeInactive: true }),
+          getProducts(),
+          getCategories()
+        ]);
+        setPromotions(promotionData);
+        setProducts(productData);
+        setCategories(categoryData);
+      } catch (err) {
+        setError(getErrorMessage(err, 'No fue posible cargar las promociones.'));
+        console.error('Error al cargar promociones:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    void fetchData();
+  }, []);
+
+  const handleFormChange = (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = event.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleToggleDay = (day: number) => {
+    setForm((prev) => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter((d) => d !== day)
+        : [...prev.daysOfWeek, day].sort()
+    }));
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const payload: PromotionPayload = {
+        name: form.name.trim(),
+        type: form.type,
+        productId: form.scope === 'PRODUCT' ? form.productId || null : null,
+        categoryId: form.scope === 'CATEGORY' ? form.categoryId || null : null,
+        percentage: form.type === 'PERCENTAGE' ? Number(form.percentage) : null,
+        buyQuantity: form.type === 'BUY_X_GET_Y' ? Number(form.buyQuantity) : null,
+        getQuantity: form.type === 'BUY_X_GET_Y' ? Number(form.getQuantity) : null,
+        startDate: form.startDate || null,
+        endDate: form.endDate || null,
+        daysOfWeek: form.daysOfWeek,
+        startTime: form.startTime || null,
+        endTime: form.endTime || null
+      };
+      if (editingId) {
+        await updatePromotion(editingId, payload);
+      } else {
+        await createPromotion(payload);
+      }
+      setForm(EMPTY_PROMOTION);
+      setEditingId(null);
+      await fetchPromotions();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible guardar la promoción. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEdit = (promotion: Promotion) => {
+    setEditingId(promotion.id);
+    setForm({
+      name: promotion.name,
+      type: promotion.type,
+      scope: promotion.productId ? 'PRODUCT' : promotion.categoryId ? 'CATEGORY' : 'ALL',
+      productId: promotion.productId ?? '',
+      categoryId: promotion.categoryId ?? '',
+      percentage: promotion.percentage !== null && promotion.percentage !== undefined ? String(Number(promotion.percentage)) : '',
+      buyQuantity: String(promotion.buyQuantity ?? 1),
+      getQuantity: String(promotion.getQuantity ?? 1),
+      startDate: promotion.startDate ? promotion.startDate.slice(0, 10) : '',
+      endDate: promotion.endDate ? promotion.endDate.slice(0, 10) : '',
+      daysOfWeek: promotion.daysOfWeek,
+      startTime: promotion.startTime ?? '',
+      endTime: promotion.endTime ?? ''
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_PROMOTION);
+  };
+
+  const handleToggleActive = async (promotion: Promotion) => {
+    try {
+      await updatePromotion(promotion.id, { isActive: !promotion.isActive });
+      await fetchPromotions();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible actualizar la promoción.'));
+      console.error(err);
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!window.confirm(`¿Eliminar la promoción ${promotion.name}?`)) {
+      return;
+    }
+    try {
+      await deletePromotion(promotion.id);
+      await fetchPromotions();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible eliminar la promoción.'));
+      console.error(err);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-gray-600">Cargando...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  const inputClassName = 'border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+  return (
+    <div className="space-y-8">
+      {/* Encabezado */}
+      <div className="bg-card-background rounded-3xl shadow-lg p-8">
+        <h2 className="text-4xl lg:text-5xl font-extrabold mb-3 text-text-dark tracking-tight">Promociones</h2>
+        <p className="text-text-light text-lg">
+          2x1, lleve X reciba Y, descuentos por categoría y horas felices: el POS las aplica solas en cada venta
+        </p>
+      </div>
+
+      {/* Formulario de promoción */}
+      <form onSubmit={handleSubmit} className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+          <div className="flex flex-col">
+            <label htmlFor="name" className="block mb-2 font-medium text-text-dark">
+              Nombre *
+            </label>
+            <input
+              id="name"
+              name="name"
+              type="text"
+              value={form.name}
+              onChange={handleFormChange}
+              required
+              placeholder="Ej: 2x1 en gaseosas"
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="type" className="block mb-2 font-medium text-text-dark">
+              Tipo
+            </label>
+            <select id="type" name="type" value={form.type} onChange={handleFormChange} className={inputClassName}>
+              {Object.entries(PROMOTION_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {form.type === 'PERCENTAGE' ? (
+            <div className="flex flex-col">
+              <label htmlFor="percentage" className="block mb-2 font-medium text-text-dark">
+                Descuento (%) *
+              </label>
+              <input
+                id="percentage"
+                name="percentage"
+                type="number"
+                min="0.01"
+                max="100"
+                step="0.01"
+                value={form.percentage}
+                onChange={handleFormChange}
+                required
+                className={inputClassName}
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="flex flex-col">
+                <label htmlFor="buyQuantity" className="block mb-2 font-medium text-text-dark">
+                  Lleve (paga) *
+                </label>
+                <input
+                  id="buyQuantity"
+                  name="buyQuantity"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={form.buyQuantity}
+                  onChange={handleFormChange}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col">
+                <label htmlFor="getQuantity" className="block mb-2 font-medium text-text-dark">
+                  Reciba gratis *
+                </label>
+                <input
+                  id="getQuantity"
+                  name="getQuantity"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={form.getQuantity}
+                  onChange={handleFormChange}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          )}
+          <div className="flex flex-col">
+            <label htmlFor="scope" className="block mb-2 font-medium text-text-dark">
+              Aplica a
+            </label>
+            <select id="scope" name="scope" value={form.scope} onChange={handleFormChange} className={inputClassName}>
+              <option value="ALL">Todos los productos</option>
+              <option value="PRODUCT">Un producto</option>
+              <option value="CATEGORY">Una categoría</option>
+            </select>
+          </div>
+          {form.scope === 'PRODUCT' && (
+            <div className="flex flex-col">
+              <label htmlFor="productId" className="block mb-2 font-medium text-text-dark">
+                Producto *
+              </label>
+              <select id="productId" name="productId" value={form.productId} onChange={handleFormChange} required className={inputClassName}>
+                <option value="">Selecciona un producto</option>
+                {products.map((product) => (
+                  <option key={product.id} value={product.id}>
+                    {product.name}{product.sku ? ` (${product.sku})` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {form.scope === 'CATEGORY' && (
+            <div className="flex flex-col">
+              <label htmlFor="categoryId" className="block mb-2 font-medium text-text-dark">
+                Categoría *
+              </label>
+              <select id="categoryId" name="categoryId" value={form.categoryId} onChange={handleFormChange} required className={inputClassName}>
+                <option value="">Selecciona una categoría</option>
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.path}
+                  </option>
+                ))}
+              </select>
+              <span className="text-xs text-text-light mt-1">Incluye sus subcategorías</span>
+            </div>
+          )}
+        </div>
+
+        {/* Vigencia */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+          <div className="flex flex-col">
+            <label htmlFor="startDate" className="block mb-2 font-medium text-text-dark">
+              Desde
+            </label>
+            <input id="startDate" name="startDate" type="date" value={form.startDate} onChange={handleFormChange} className={inputClassName} />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="endDate" className="block mb-2 font-medium text-text-dark">
+              Hasta
+            </label>
+            <input id="endDate" name="endDate" type="date" value={form.endDate} onChange={handleFormChange} className={inputClassName} />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="startTime" className="block mb-2 font-medium text-text-dark">
+              Hora inicial
+            </label>
+            <input id="startTime" name="startTime" type="time" value={form.startTime} onChange={handleFormChange} className={inputClassName} />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="endTime" className="block mb-2 font-medium text-text-dark">
+              Hora final
+            </label>
+            <input id="endTime" name="endTime" type="time" value={form.endTime} onChange={handleFormChange} className={inputClassName} />
+          </div>
+        </div>
+        <div className="mb-6">
+          <span className="block mb-2 font-medium text-text-dark">Días (ninguno es todos los días)</span>
+          <div className="flex flex-wrap gap-2">
+            {DAY_OF_WEEK_LABELS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => handleToggleDay(day)}
+                className={`px-4 py-2 rounded-2xl text-sm font-semibold transition-all duration-200 ${
+                  form.daysOfWeek.includes(day) ? 'bg-blue-500 text-white' : 'bg-gray-200 text-text-dark hover:bg-gray-300'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-blue-500 text-white px-6 py-3 rounded-2xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md hover:shadow-lg active:scale-[0.98] active:shadow-inner"
+          >
+            {editingId ? 'Guardar Cambios' : 'Crear Promoción'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={handleCancelEdit}
+              className="bg-gray-200 text-text-dark px-6 py-3 rounded-2xl hover:bg-gray-300 active:bg-gray-400 transition-all duration-200 font-semibold active:scale-[0.98]"
+            >
+              Cancelar
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Promociones */}
+      {promotions.length === 0 ? (
+        <div className="bg-card-background rounded-3xl shadow-md p-12 text-center">
+          <p className="text-text-light text-lg">No hay promociones registradas.</p>
+        </div>
+      ) : (
+        <div className="bg-card-background rounded-3xl shadow-md overflow-hidden border-b-2 border-gray-100">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Nombre</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Regla</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Aplica a</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Vigencia</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Estado</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {promotions.map((promotion) => (
+                <tr key={promotion.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">
+                    {promotion.name}
+                    <span className="block text-xs text-text-light">Aplicada en {promotion._count?.invoiceItems ?? 0} líneas</span>
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{describeRule(promotion)}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">
+                    {promotion.product?.name ?? promotion.category?.name ?? 'Todos los productos'}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{describeSchedule(promotion)}</td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <span
+                      className={`px-3 py-1 rounded-2xl text-xs font-semibold ${
+                        promotion.isRunning
+                          ? 'bg-green-100 text-green-700'
+                          : promotion.isActive
+                            ? 'bg-yellow-100 text-yellow-700'
+                            : 'bg-gray-100 text-gray-600'
+                      }`}
+                    >
+                      {promotion.isRunning ? 'Aplicando ahora' : promotion.isActive ? 'Programada' : 'Inactiva'}
+                    </span>
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleEdit(promotion)}
+                        className="bg-blue-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-blue-600 active:bg-blue-700 transition-all duration-200 active:scale-[0.98]"
+                      >
+                        Editar
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleToggleActive(promotion)}
+                        className="bg-gray-200 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-300 transition-all duration-200"
+                      >
+                        {promotion.isActive ? 'Desactivar' : 'Activar'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(promotion)}
+                        className="bg-red-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-red-600 active:bg-red-700 transition-all duration-200 active:scale-[0.98]"
+                      >
+                        Eliminar
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromotionList;
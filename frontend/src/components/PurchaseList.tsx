@@ -0,0 +1,653 @@
+import { type ChangeEvent, type FormEvent, useEffect, useState } from 'react';
+import type { AxiosError } from 'axios';
+
+import type { Location } from '../services/locationService';
+import { getLocations } from '../services/locationService';
+import type { Product, UnitOfMeasure } from '../services/productService';
+import { UNIT_OF_MEASURE_LABELS, formatQuantity, getProducts, getQuantityStep } from '../services/productService';
+import type { CreatePurchasePayload, Purchase } from '../services/purchaseService';
+import { createPurchase, getPurchaseById, getPurchases } from '../services/purchaseService';
+import type { ReorderSuggestionsReport } from '../services/reportService';
+import { exportReorderSuggestions, getReorderSuggestions } from '../services/reportService';
+import type { Supplier } from '../services/supplierService';
+import { getSuppliers } from '../services/supplierService';
+
+interface ItemRow {
+  productId: string;
+  quantity: string;
+  unit: UnitOfMeasure | '';
+  unitCost: string;
+  taxRate: string;
+  lotNumber: string;
+  expiryDate: string;
+}
+
+const EMPTY_ITEM: ItemRow = { productId: '', quantity: '1', unit: '', unitCost: '', taxRate: '0', lotNumber: '', expiryDate: '' };
+
+const EMPTY_FORM = {
+  supplierId: '',
+  supplierReference: '',
+  receivedAt: '',
+  locationId: '',
+  notes: ''
+};
+
+// Tarifas de IVA descontable aceptadas en las compras
+const PURCHASE_TAX_RATES = [19, 5, 0];
+
+// Extrae el mensaje de error enviado por el backend
+const getErrorMessage = (err: unknown, fallback: string) => {
+  return (err as AxiosError<{ message?: string }>)?.response?.data?.message || fallback;
+};
+
+const PurchaseList = () => {
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [items, setItems] = useState<ItemRow[]>([EMPTY_ITEM]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [selectedPurchase, setSelectedPurchase] = useState<Purchase | null>(null);
+  const [reorder, setReorder] = useState<ReorderSuggestionsReport | null>(null);
+
+  const fetchPurchases = async () => {
+    const data = await getPurchases();
+    setPurchases(data);
+  };
+
+  const fetchData = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [purchaseData, supplierData, productData, locationData] = await Promise.all([
+        getPurchases(),
+        getSuppliers(),
+        getProducts(),
+        getLocations()
+      ]);
+      setPurchases(purchaseData);
+      setSuppliers(supplierData);
+      setProducts(productData);
+      setLocations(locationData);
+    } catch (err) {
+      setError(getErrorMessage(err, 'No fue posible cargar las compras.'));
+      console.error('Error al cargar compras:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void fetchData();
+  }, []);
+
+  const handleInputChange = (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = event.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleItemChange = (index: number, field: keyof ItemRow, value: string) => {
+    setItems((prev) => prev.map((item, i) => {
+      if (i !== index) return item;
+      // Al elegir el producto se propone su unidad de compra y su último costo en esa unidad
+      if (field === 'productId') {
+        const product = products.find((p) => p.id === value);
+        if (!product) {
+          return { ...item, productId: value, unit: '' };
+        }
+        const unit = product.purchaseUnit ?? product.unit;
+        return { ...item, productId: value, unit, unitCost: getUnitCost(product, unit).toString() };
+      }
+      if (field === 'unit') {
+        const product = products.find((p) => p.id === item.productId);
+        const unit = value as UnitOfMeasure;
+        return { ...item, unit, unitCost: product ? getUnitCost(product, unit).toString() : item.unitCost };
+      }
+      return { ...item, [field]: value };
+    }));
+  };
+
+  // Costo del producto (que se lleva en la unidad de venta) expresado en la unidad indicada
+  const getUnitCost = (product: Product, unit: UnitOfMeasure) => {
+    const factor = unit === product.purchaseUnit ? Number(product.unitsPerPurchaseUnit ?? 1) : 1;
+    return Math.round(Number(product.cost) * factor * 100) / 100;
+  };
+
+  const handleAddItem = () => {
+    setItems((prev) => [...prev, EMPTY_ITEM]);
+  };
+
+  const handleRemoveItem = (index: number) => {
+    setItems((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const calculateLineTotal = (item: ItemRow) => {
+    const subtotal = Number(item.quantity) * Number(item.unitCost);
+    return subtotal + subtotal * Number(item.taxRate) / 100;
+  };
+
+  const formTotal = items.reduce((sum, item) => sum + (calculateLineTotal(item) || 0), 0);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const payload: CreatePurchasePayload = {
+        supplierId: formData.supplierId,
+        supplierReference: formData.supplierReference.trim() || null,
+        receivedAt: formData.receivedAt || undefined,
+        locationId: formData.locationId || null,
+        notes: formData.notes.trim() || null,
+        items: items.map((item) => ({
+          productId: item.productId,
+          quantity: Number(item.quantity),
+          unit: item.unit || undefined,
+          unitCost: Number(item.unitCost),
+          taxRate: Number(item.taxRate),
+          lotNumber: item.lotNumber.trim() || null,
+          expiryDate: item.expiryDate || null
+        }))
+      };
+      const purchase = await createPurchase(payload);
+      alert(`Compra ${purchase.number} registrada. El inventario fue actualizado.`);
+      setFormData(EMPTY_FORM);
+      setItems([EMPTY_ITEM]);
+      await fetchPurchases();
+      setProducts(await getProducts());
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible registrar la compra. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleReorder = async () => {
+    if (reorder) {
+      setReorder(null);
+      return;
+    }
+    try {
+      setReorder(await getReorderSuggestions());
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible cargar el sugerido de compra.'));
+      console.error(err);
+    }
+  };
+
+  // Carga en el formulario los productos sugeridos de un proveedor, en su unidad de compra
+  const handleUseReorderGroup = (group: ReorderSuggestionsReport['groups'][number]) => {
+    setFormData((prev) => ({ ...prev, supplierId: group.supplier?.id ?? prev.supplierId }));
+    setItems(group.items.map((suggestion) => {
+      const product = products.find((p) => p.id === suggestion.productId);
+      const unit = suggestion.purchaseUnit ?? suggestion.unit;
+      return {
+        ...EMPTY_ITEM,
+        productId: suggestion.productId,
+        quantity: String(suggestion.purchaseQuantity ?? suggestion.suggestedQuantity),
+        unit,
+        unitCost: product ? getUnitCost(product, unit).toString() : String(suggestion.unitCost)
+      };
+    }));
+  };
+
+  const handleExportReorder = async () => {
+    try {
+      const csv = await exportReorderSuggestions();
+      const url = URL.createObjectURL(csv);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `sugerido-compras-${reorder?.to ?? 'hoy'}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible exportar el sugerido de compra.'));
+      console.error(err);
+    }
+  };
+
+  const handleViewPurchase = async (purchase: Purchase) => {
+    if (selectedPurchase?.id === purchase.id) {
+      setSelectedPurchase(null);
+      return;
+    }
+    try {
+      setSelectedPurchase(await getPurchaseById(purchase.id));
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible cargar el detalle de la compra.'));
+      console.error(err);
+    }
+  };
+
+  const formatCurrency = (amount: string | number) => {
+    const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
+    return new Intl.NumberFormat('es-CO', {
+      style: 'currency',
+      currency: 'COP',
+      minimumFractionDigits: 0
+    }).format(numAmount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('es-CO', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'America/Bogota'
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-gray-600">Cargando...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  const inputClassName = 'border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+  return (
+    <div className="space-y-8">
+      {/* Encabezado */}
+      <div className="bg-card-background rounded-3xl shadow-lg p-8">
+        <h2 className="text-4xl lg:text-5xl font-extrabold mb-3 text-text-dark tracking-tight">Compras</h2>
+        <p className="text-text-light text-lg">Recepción de mercancía de proveedores: cada compra aumenta el inventario</p>
+      </div>
+
+      {/* Sugerido de compra */}
+      <div className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100 space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <div>
+            <h3 className="text-xl font-bold text-text-dark">Sugerido de compra</h3>
+            <p className="text-sm text-text-light">
+              Productos en su stock mínimo o por debajo, con la cantidad a pedir según la venta de los últimos días
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {reorder && reorder.totalItems > 0 && (
+              <button
+                type="button"
+                onClick={handleExportReorder}
+                className="bg-gray-100 text-text-dark px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-gray-200 transition-all duration-200"
+              >
+                Exportar CSV
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleToggleReorder}
+              className="bg-blue-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-blue-600 transition-all duration-200"
+            >
+              {reorder ? 'Ocultar' : 'Ver sugerido'}
+            </button>
+          </div>
+        </div>
+        {reorder && reorder.totalItems === 0 && (
+          <p className="text-text-light">No hay productos por reponer.</p>
+        )}
+        {reorder?.groups.map((group) => (
+          <div key={group.supplier?.id ?? 'sin-proveedor'} className="border border-gray-200 rounded-2xl p-4 space-y-2">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+              <p className="font-semibold text-text-dark">
+                {group.supplier?.businessName ?? 'Sin proveedor conocido'}
+                <span className="text-sm font-normal text-text-light"> · Costo estimado {formatCurrency(group.estimatedTotal)}</span>
+              </p>
+              <button
+                type="button"
+                onClick={() => handleUseReorderGroup(group)}
+                className="text-blue-600 text-sm font-semibold hover:text-blue-700"
+              >
+                Usar en la compra
+              </button>
+            </div>
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="text-left text-text-dark">
+                  <th className="py-2 pr-4 font-semibold">Producto</th>
+                  <th className="py-2 pr-4 font-semibold">Stock / mínimo</th>
+                  <th className="py-2 pr-4 font-semibold">Venta diaria</th>
+                  <th className="py-2 pr-4 font-semibold">Días de inventario</th>
+                  <th className="py-2 pr-4 font-semibold">Pedir</th>
+                </tr>
+              </thead>
+              <tbody>
+                {group.items.map((suggestion) => (
+                  <tr key={suggestion.productId} className="text-text-light">
+                    <td className="py-1 pr-4 text-text-dark">{suggestion.name}</td>
+                    <td className={`py-1 pr-4 ${suggestion.stock <= 0 ? 'text-red-600 font-semibold' : ''}`}>
+                      {formatQuantity(suggestion.stock, suggestion.unit)} / {formatQuantity(suggestion.reorderPoint)}
+                    </td>
+                    <td className="py-1 pr-4">{formatQuantity(suggestion.dailySales)}</td>
+                    <td className="py-1 pr-4">{suggestion.daysOfStock ?? '-'}</td>
+                    <td className="py-1 pr-4 text-text-dark font-semibold">
+                      {suggestion.purchaseUnit && suggestion.purchaseQuantity !== null
+                        ? `${formatQuantity(suggestion.purchaseQuantity)} ${UNIT_OF_MEASURE_LABELS[suggestion.purchaseUnit].toLowerCase()} (${formatQuantity(suggestion.suggestedQuantity, suggestion.unit)})`
+                        : formatQuantity(suggestion.suggestedQuantity, suggestion.unit)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+
+      {/* Formulario */}
+      <form onSubmit={handleSubmit} className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div className="flex flex-col">
+            <label htmlFor="supplierId" className="block mb-2 font-medium text-text-dark">
+              Proveedor *
+            </label>
+            <select
+              id="supplierId"
+              name="supplierId"
+              value={formData.supplierId}
+              onChange={handleInputChange}
+              required
+              className={inputClassName}
+            >
+              <option value="">Selecciona un proveedor</option>
+              {suppliers.map((supplier) => (
+                <option key={supplier.id} value={supplier.id}>
+                  {supplier.businessName}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="supplierReference" className="block mb-2 font-medium text-text-dark">
+              Factura o remisión del proveedor
+            </label>
+            <input
+              id="supplierReference"
+              name="supplierReference"
+              type="text"
+              maxLength={50}
+              value={formData.supplierReference}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="receivedAt" className="block mb-2 font-medium text-text-dark">
+              Fecha de recepción
+            </label>
+            <input
+              id="receivedAt"
+              name="receivedAt"
+              type="date"
+              value={formData.receivedAt}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="locationId" className="block mb-2 font-medium text-text-dark">
+              Bodega que recibe
+            </label>
+            <select
+              id="locationId"
+              name="locationId"
+              value={formData.locationId}
+              onChange={handleInputChange}
+              className={inputClassName}
+            >
+              <option value="">Bodega por defecto</option>
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}{location.isDefault ? ' (por defecto)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="notes" className="block mb-2 font-medium text-text-dark">
+              Notas
+            </label>
+            <input
+              id="notes"
+              name="notes"
+              type="text"
+              value={formData.notes}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        {/* Líneas de la compra */}
+        <div className="space-y-3 mb-6">
+          <div className="hidden md:grid md:grid-cols-12 gap-3 font-medium text-text-dark">
+            <span className="md:col-span-3">Producto</span>
+            <span className="md:col-span-2">Cantidad</span>
+            <span className="md:col-span-2">Unidad</span>
+            <span className="md:col-span-2">Costo unitario</span>
+            <span className="md:col-span-2">IVA</span>
+          </div>
+          {items.map((item, index) => {
+            const lineProduct = products.find((p) => p.id === item.productId);
+            return (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-center">
+                <select
+                  value={item.productId}
+                  onChange={(event) => handleItemChange(index, 'productId', event.target.value)}
+                  required
+                  className={`${inputClassName} md:col-span-3`}
+                >
+                  <option value="">Selecciona un producto</option>
+                  {products.filter((product) => !product.isKit).map((product) => (
+                    <option key={product.id} value={product.id}>
+                      {product.name}{product.sku ? ` (${product.sku})` : ''} - stock {formatQuantity(product.stock, product.unit)}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step={getQuantityStep(item.unit || undefined)}
+                  value={item.quantity}
+                  onChange={(event) => handleItemChange(index, 'quantity', event.target.value)}
+                  required
+                  className={`${inputClassName} md:col-span-2`}
+                />
+                <select
+                  value={item.unit}
+                  onChange={(event) => handleItemChange(index, 'unit', event.target.value)}
+                  disabled={!lineProduct}
+                  className={`${inputClassName} md:col-span-2`}
+                >
+                  {!lineProduct && <option value="">-</option>}
+                  {lineProduct && (
+                    <option value={lineProduct.unit}>{UNIT_OF_MEASURE_LABELS[lineProduct.unit]}</option>
+                  )}
+                  {lineProduct?.purchaseUnit && (
+                    <option value={lineProduct.purchaseUnit}>
+                      {UNIT_OF_MEASURE_LABELS[lineProduct.purchaseUnit]} x {formatQuantity(lineProduct.unitsPerPurchaseUnit ?? 1, lineProduct.unit)}
+                    </option>
+                  )}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={item.unitCost}
+                  onChange={(event) => handleItemChange(index, 'unitCost', event.target.value)}
+                  required
+                  className={`${inputClassName} md:col-span-2`}
+                />
+                <select
+                  value={item.taxRate}
+                  onChange={(event) => handleItemChange(index, 'taxRate', event.target.value)}
+                  className={`${inputClassName} md:col-span-2`}
+                >
+                  {PURCHASE_TAX_RATES.map((rate) => (
+                    <option key={rate} value={rate}>
+                      {rate}%
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveItem(index)}
+                  disabled={items.length === 1}
+                  className="bg-gray-200 text-text-dark px-3 py-3 rounded-2xl text-sm font-semibold hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                >
+                  Quitar
+                </button>
+                {lineProduct?.trackLots && (
+                  <>
+                    <input
+                      type="text"
+                      placeholder="Número de lote"
+                      value={item.lotNumber}
+                      onChange={(event) => handleItemChange(index, 'lotNumber', event.target.value)}
+                      required
+                      className={`${inputClassName} md:col-span-3`}
+                    />
+                    <label className="flex items-center gap-2 text-sm text-text-light md:col-span-4">
+                      Vence
+                      <input
+                        type="date"
+                        value={item.expiryDate}
+                        onChange={(event) => handleItemChange(index, 'expiryDate', event.target.value)}
+                        className={inputClassName}
+                      />
+                    </label>
+                  </>
+                )}
+              </div>
+            );
+          })}
+          <button
+            type="button"
+            onClick={handleAddItem}
+            className="text-blue-600 font-semibold hover:text-blue-700"
+          >
+            + Agregar producto
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-lg font-semibold text-text-dark">Total: {formatCurrency(formTotal)}</p>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-blue-500 text-white px-6 py-3 rounded-2xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md hover:shadow-lg active:scale-[0.98] active:shadow-inner"
+          >
+            {isSubmitting ? 'Registrando...' : 'Registrar Compra'}
+          </button>
+        </div>
+      </form>
+
+      {purchases.length === 0 ? (
+        <div className="bg-card-background rounded-3xl shadow-md p-12 text-center">
+          <p className="text-text-light text-lg">No hay compras registradas.</p>
+        </div>
+      ) : (
+        <div className="bg-card-background rounded-3xl shadow-md overflow-hidden border-b-2 border-gray-100">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Número</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Proveedor</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Recepción</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Productos</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Total</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {purchases.map((purchase) => (
+                <tr key={purchase.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">
+                    {purchase.number}
+                    {purchase.supplierReference && (
+                      <span className="block text-xs text-text-light">Ref. {purchase.supplierReference}</span>
+                    )}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{purchase.supplier.businessName}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{formatDate(purchase.receivedAt)}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{purchase._count?.items ?? '-'}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-semibold">{formatCurrency(purchase.total)}</td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <button
+                      type="button"
+                      onClick={() => handleViewPurchase(purchase)}
+                      className="bg-blue-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-blue-600 active:bg-blue-700 transition-all duration-200 active:scale-[0.98]"
+                    >
+                      {selectedPurchase?.id === purchase.id ? 'Ocultar' : 'Ver'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Detalle de la compra seleccionada */}
+      {selectedPurchase && (
+        <div className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+          <h3 className="text-2xl font-bold text-text-dark mb-1">Compra {selectedPurchase.number}</h3>
+          <p className="text-text-light mb-6">
+            {selectedPurchase.supplier.businessName} · {formatDate(selectedPurchase.receivedAt)}
+            {selectedPurchase.location ? ` · Bodega ${selectedPurchase.location.name}` : ''}
+            {selectedPurchase.notes ? ` · ${selectedPurchase.notes}` : ''}
+          </p>
+          <table className="w-full border-collapse mb-6">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-3 text-left border-b border-gray-200 font-semibold text-text-dark">Producto</th>
+                <th className="p-3 text-left border-b border-gray-200 font-semibold text-text-dark">Cantidad</th>
+                <th className="p-3 text-left border-b border-gray-200 font-semibold text-text-dark">Costo unitario</th>
+                <th className="p-3 text-left border-b border-gray-200 font-semibold text-text-dark">IVA</th>
+                <th className="p-3 text-left border-b border-gray-200 font-semibold text-text-dark">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selectedPurchase.items?.map((item) => (
+                <tr key={item.id}>
+                  <td className="p-3 border-b border-gray-100 text-text-dark">{item.description}</td>
+                  <td className="p-3 border-b border-gray-100 text-text-light">
+                    {formatQuantity(item.quantity, item.unit)}
+                    {Number(item.conversionFactor) !== 1 && (
+                      <span className="block text-xs">= {formatQuantity(Number(item.quantity) * Number(item.conversionFactor))} en stock</span>
+                    )}
+                    {item.lotNumber && (
+                      <span className="block text-xs">
+                        Lote {item.lotNumber}{item.expiryDate ? ` · vence ${item.expiryDate.slice(0, 10)}` : ''}
+                      </span>
+                    )}
+                  </td>
+                  <td className="p-3 border-b border-gray-100 text-text-light">{formatCurrency(item.unitCost)}</td>
+                  <td className="p-3 border-b border-gray-100 text-text-light">{Number(item.taxRate)}%</td>
+                  <td className="p-3 border-b border-gray-100 text-text-dark font-semibold">{formatCurrency(item.totalAmount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-right space-y-1 text-text-dark">
+            <p>Subtotal: {formatCurrency(selectedPurchase.subtotal)}</p>
+            <p>IVA: {formatCurrency(selectedPurchase.taxTotal)}</p>
+            <p className="text-lg font-bold">Total: {formatCurrency(selectedPurchase.total)}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PurchaseList;
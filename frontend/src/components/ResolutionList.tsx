@@ -0,0 +1,372 @@
+import { type ChangeEvent, type FormEvent, useEffect, useState } from 'react';
+import type { AxiosError } from 'axios';
+
+import type { CreateResolutionPayload, DianResolution } from '../services/resolutionService';
+import { createResolution, deleteResolution, getResolutions, updateResolution } from '../services/resolutionService';
+
+const EMPTY_FORM = {
+  resolutionNumber: '',
+  prefix: '',
+  rangeFrom: '1',
+  rangeTo: '',
+  validFrom: '',
+  validTo: '',
+  technicalKey: '',
+  isActive: true
+};
+
+// Extrae el mensaje de error enviado por el backend
+const getErrorMessage = (err: unknown, fallback: string) => {
+  return (err as AxiosError<{ message?: string }>)?.response?.data?.message || fallback;
+};
+
+// Las fechas de vigencia se guardan al inicio del día en Colombia
+const toDateInput = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-CA', { timeZone: 'America/Bogota' });
+};
+
+const ResolutionList = () => {
+  const [resolutions, setResolutions] = useState<DianResolution[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const fetchResolutions = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await getResolutions();
+      setResolutions(data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'No fue posible cargar las resoluciones.'));
+      console.error('Error al cargar resoluciones:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void fetchResolutions();
+  }, []);
+
+  const handleInputChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = event.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: type === 'checkbox' ? checked : value
+    }));
+  };
+
+  const handleEdit = (resolution: DianResolution) => {
+    setEditingId(resolution.id);
+    setFormData({
+      resolutionNumber: resolution.resolutionNumber,
+      prefix: resolution.prefix,
+      rangeFrom: resolution.rangeFrom.toString(),
+      rangeTo: resolution.rangeTo.toString(),
+      validFrom: toDateInput(resolution.validFrom),
+      validTo: toDateInput(resolution.validTo),
+      technicalKey: resolution.technicalKey,
+      isActive: resolution.isActive
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleDelete = async (resolution: DianResolution) => {
+    if (!window.confirm(`¿Estás seguro de que deseas eliminar la resolución ${resolution.resolutionNumber}?`)) {
+      return;
+    }
+    try {
+      await deleteResolution(resolution.id);
+      await fetchResolutions();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible eliminar la resolución. Intenta nuevamente.'));
+      console.error(err);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const payload: CreateResolutionPayload = {
+        resolutionNumber: formData.resolutionNumber.trim(),
+        prefix: formData.prefix.trim(),
+        rangeFrom: Number(formData.rangeFrom),
+        rangeTo: Number(formData.rangeTo),
+        validFrom: formData.validFrom,
+        validTo: formData.validTo,
+        technicalKey: formData.technicalKey.trim(),
+        isActive: formData.isActive
+      };
+      if (editingId) {
+        await updateResolution(editingId, payload);
+        setEditingId(null);
+      } else {
+        await createResolution(payload);
+      }
+      setFormData(EMPTY_FORM);
+      await fetchResolutions();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible guardar la resolución. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('es-CO', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'America/Bogota'
+    });
+  };
+
+  const getStatusBadge = (resolution: DianResolution) => {
+    if (resolution.status.isExpired) {
+      return <span className="px-3 py-1 rounded-2xl text-xs font-semibold bg-red-100 text-red-700">Vencida</span>;
+    }
+    if (resolution.status.isExhausted) {
+      return <span className="px-3 py-1 rounded-2xl text-xs font-semibold bg-red-100 text-red-700">Agotada</span>;
+    }
+    if (!resolution.isActive) {
+      return <span className="px-3 py-1 rounded-2xl text-xs font-semibold bg-gray-100 text-gray-600">Inactiva</span>;
+    }
+    if (resolution.status.warnings.length > 0) {
+      return <span className="px-3 py-1 rounded-2xl text-xs font-semibold bg-yellow-100 text-yellow-700">Por agotarse</span>;
+    }
+    return <span className="px-3 py-1 rounded-2xl text-xs font-semibold bg-green-100 text-green-700">Activa</span>;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-gray-600">Cargando...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  const inputClassName = 'border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+  return (
+    <div className="space-y-8">
+      {/* Encabezado */}
+      <div className="bg-card-background rounded-3xl shadow-lg p-8">
+        <h2 className="text-4xl lg:text-5xl font-extrabold mb-3 text-text-dark tracking-tight">Resoluciones DIAN</h2>
+        <p className="text-text-light text-lg">Rangos de numeración autorizados para la facturación</p>
+      </div>
+
+      {/* Formulario */}
+      <form onSubmit={handleSubmit} className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div className="flex flex-col">
+            <label htmlFor="resolutionNumber" className="block mb-2 font-medium text-text-dark">
+              Número de resolución *
+            </label>
+            <input
+              id="resolutionNumber"
+              name="resolutionNumber"
+              type="text"
+              value={formData.resolutionNumber}
+              onChange={handleInputChange}
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="prefix" className="block mb-2 font-medium text-text-dark">
+              Prefijo
+            </label>
+            <input
+              id="prefix"
+              name="prefix"
+              type="text"
+              maxLength={4}
+              value={formData.prefix}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="rangeFrom" className="block mb-2 font-medium text-text-dark">
+              Rango desde *
+            </label>
+            <input
+              id="rangeFrom"
+              name="rangeFrom"
+              type="number"
+              min="1"
+              value={formData.rangeFrom}
+              onChange={handleInputChange}
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="rangeTo" className="block mb-2 font-medium text-text-dark">
+              Rango hasta *
+            </label>
+            <input
+              id="rangeTo"
+              name="rangeTo"
+              type="number"
+              min="1"
+              value={formData.rangeTo}
+              onChange={handleInputChange}
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="validFrom" className="block mb-2 font-medium text-text-dark">
+              Vigente desde *
+            </label>
+            <input
+              id="validFrom"
+              name="validFrom"
+              type="date"
+              value={formData.validFrom}
+              onChange={handleInputChange}
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="validTo" className="block mb-2 font-medium text-text-dark">
+              Vigente hasta *
+            </label>
+            <input
+              id="validTo"
+              name="validTo"
+              type="date"
+              value={formData.validTo}
+              onChange={handleInputChange}
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col md:col-span-2">
+            <label htmlFor="technicalKey" className="block mb-2 font-medium text-text-dark">
+              Clave técnica *
+            </label>
+            <input
+              id="technicalKey"
+              name="technicalKey"
+              type="text"
+              value={formData.technicalKey}
+              onChange={handleInputChange}
+              required
+              className={inputClassName}
+            />
+          </div>
+          <label className="flex items-center gap-3 font-medium text-text-dark">
+            <input
+              name="isActive"
+              type="checkbox"
+              checked={formData.isActive}
+              onChange={handleInputChange}
+              className="w-5 h-5"
+            />
+            Usar para la numeración de facturas (desactiva las demás)
+          </label>
+        </div>
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-blue-500 text-white px-6 py-3 rounded-2xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md hover:shadow-lg active:scale-[0.98] active:shadow-inner"
+          >
+            {isSubmitting ? 'Guardando...' : editingId ? 'Guardar Cambios' : 'Registrar Resolución'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={handleCancelEdit}
+              disabled={isSubmitting}
+              className="bg-gray-200 text-text-dark px-6 py-3 rounded-2xl hover:bg-gray-300 active:bg-gray-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold active:scale-[0.98]"
+            >
+              Cancelar Edición
+            </button>
+          )}
+        </div>
+      </form>
+
+      {resolutions.length === 0 ? (
+        <div className="bg-card-background rounded-3xl shadow-md p-12 text-center">
+          <p className="text-text-light text-lg">No hay resoluciones registradas. Las facturas usan la numeración interna.</p>
+        </div>
+      ) : (
+        <div className="bg-card-background rounded-3xl shadow-md overflow-hidden border-b-2 border-gray-100">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Resolución</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Rango</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Siguiente</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Vigencia</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Estado</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {resolutions.map((resolution) => (
+                <tr key={resolution.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">{resolution.resolutionNumber}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">
+                    {resolution.prefix}{resolution.rangeFrom} - {resolution.prefix}{resolution.rangeTo}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">
+                    {resolution.status.isExhausted ? '-' : `${resolution.prefix}${resolution.nextNumber}`}
+                    <span className="block text-xs">{resolution.status.remainingNumbers} disponibles</span>
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">
+                    {formatDate(resolution.validFrom)} - {formatDate(resolution.validTo)}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100">{getStatusBadge(resolution)}</td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleEdit(resolution)}
+                        disabled={editingId !== null && editingId !== resolution.id}
+                        className="bg-blue-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 active:scale-[0.98]"
+                      >
+                        Editar
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(resolution)}
+                        disabled={editingId !== null}
+                        className="bg-red-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-red-600 active:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 active:scale-[0.98]"
+                      >
+                        Eliminar
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResolutionList;
@@ -0,0 +1,526 @@
+import { type ChangeEvent, type FormEvent, useEffect, useState } from 'react';
+import type { AxiosError } from 'axios';
+
+import type { Purchase } from '../services/purchaseService';
+import { getPurchases } from '../services/purchaseService';
+import type { CreateSupplierBillPayload, SupplierBill, SupplierPaymentMethod } from '../services/supplierBillService';
+import { createSupplierBill, getSupplierBillById, getSupplierBills, registerSupplierPayment } from '../services/supplierBillService';
+import type { Supplier } from '../services/supplierService';
+import { getSuppliers } from '../services/supplierService';
+
+const EMPTY_FORM = {
+  supplierId: '',
+  purchaseId: '',
+  billNumber: '',
+  issueDate: '',
+  dueDate: '',
+  subtotal: '',
+  taxTotal: '',
+  notes: ''
+};
+
+const EMPTY_PAYMENT = {
+  amount: '',
+  method: 'TRANSFER' as SupplierPaymentMethod,
+  paymentDate: '',
+  reference: ''
+};
+
+const PAYMENT_METHOD_LABELS: Record<SupplierPaymentMethod, string> = {
+  CASH: 'Efectivo',
+  TRANSFER: 'Transferencia'
+};
+
+// Extrae el mensaje de error enviado por el backend
+const getErrorMessage = (err: unknown, fallback: string) => {
+  return (err as AxiosError<{ message?: string }>)?.response?.data?.message || fallback;
+};
+
+const SupplierBillList = () => {
+  const [bills, setBills] = useState<SupplierBill[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierPurchases, setSupplierPurchases] = useState<Purchase[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showPaid, setShowPaid] = useState(false);
+  const [selectedBill, setSelectedBill] = useState<SupplierBill | null>(null);
+  const [paymentData, setPaymentData] = useState(EMPTY_PAYMENT);
+  const [isPaying, setIsPaying] = useState(false);
+
+  const fetchBills = async (includePaid: boolean) => {
+    const data = await getSupplierBills(includePaid ? undefined : { status: 'OPEN' });
+    setBills(data);
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const [billData, supplierData] = await Promise.all([
+          getSupplierBills({ status: 'OPEN' }),
+          getSuppliers()
+        ]);
+        setBills(billData);
+        setSuppliers(supplierData);
+      } catch (err) {
+        setError(getErrorMessage(err, 'No fue posible cargar las cuentas por pagar.'));
+        console.error('Error al cargar cuentas por pagar:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    void fetchData();
+  }, []);
+
+  const handleInputChange = async (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = event.target;
+    setFormData((prev) => ({ ...prev, [name]: value, ...(name === 'supplierId' ? { purchaseId: '' } : {}) }));
+
+    // Las compras del proveedor se pueden asociar a la factura
+    if (name === 'supplierId') {
+      try {
+        setSupplierPurchases(value ? await getPurchases({ supplierId: value }) : []);
+      } catch (err) {
+        console.warn('No se pudieron cargar las compras del proveedor:', err);
+        setSupplierPurchases([]);
+      }
+    }
+  };
+
+  const handleToggleShowPaid = async () => {
+    const includePaid = !showPaid;
+    setShowPaid(includePaid);
+    try {
+      await fetchBills(includePaid);
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible cargar las facturas.'));
+      console.error(err);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const payload: CreateSupplierBillPayload = {
+        supplierId: formData.supplierId,
+        purchaseId: formData.purchaseId || null,
+        billNumber: formData.billNumber.trim(),
+        issueDate: formData.issueDate || undefined,
+        dueDate: formData.dueDate || undefined,
+        subtotal: formData.subtotal !== '' ? Number(formData.subtotal) : undefined,
+        taxTotal: formData.taxTotal !== '' ? Number(formData.taxTotal) : undefined,
+        notes: formData.notes.trim() || null
+      };
+      await createSupplierBill(payload);
+      setFormData(EMPTY_FORM);
+      setSupplierPurchases([]);
+      await fetchBills(showPaid);
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible registrar la factura. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSelectBill = async (bill: SupplierBill) => {
+    if (selectedBill?.id === bill.id) {
+      setSelectedBill(null);
+      return;
+    }
+    try {
+      const detail = await getSupplierBillById(bill.id);
+      setSelectedBill(detail);
+      setPaymentData({ ...EMPTY_PAYMENT, amount: Number(detail.balance).toString() });
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible cargar el detalle de la factura.'));
+      console.error(err);
+    }
+  };
+
+  const handlePaymentChange = (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = event.target;
+    setPaymentData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handlePaymentSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!selectedBill) return;
+    setIsPaying(true);
+    try {
+      await registerSupplierPayment(selectedBill.id, {
+        amount: Number(paymentData.amount),
+        method: paymentData.method,
+        paymentDate: paymentData.paymentDate || undefined,
+        reference: paymentData.reference.trim() || null
+      });
+      const detail = await getSupplierBillById(selectedBill.id);
+      setSelectedBill(detail);
+      setPaymentData({ ...EMPTY_PAYMENT, amount: Number(detail.balance).toString() });
+      await fetchBills(showPaid);
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible registrar el pago. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  const formatCurrency = (amount: string | number) => {
+    const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
+    return new Intl.NumberFormat('es-CO', {
+      style: 'currency',
+      currency: 'COP',
+      minimumFractionDigits: 0
+    }).format(numAmount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('es-CO', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'America/Bogota'
+    });
+  };
+
+  const getStatusBadge = (bill: SupplierBill) => {
+    if (bill.status === 'PAID') {
+      return <span className="px-3 py-1 rounded-2xl text-xs font-semibold bg-green-100 text-green-700">Pagada</span>;
+    }
+    if (new Date(bill.dueDate) < new Date()) {
+      return <span className="px-3 py-1 rounded-2xl text-xs font-semibold bg-red-100 text-red-700">Vencida</span>;
+    }
+    if (Number(bill.totalPaid) > 0) {
+      return <span className="px-3 py-1 rounded-2xl text-xs font-semibold bg-yellow-100 text-yellow-700">Abonada</span>;
+    }
+    return <span className="px-3 py-1 rounded-2xl text-xs font-semibold bg-blue-100 text-blue-700">Pendiente</span>;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-gray-600">Cargando...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  const inputClassName = 'border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+  return (
+    <div className="space-y-8">
+      {/* Encabezado */}
+      <div className="bg-card-background rounded-3xl shadow-lg p-8">
+        <h2 className="text-4xl lg:text-5xl font-extrabold mb-3 text-text-dark tracking-tight">Cuentas por Pagar</h2>
+        <p className="text-text-light text-lg">Facturas de proveedores, vencimientos y pagos</p>
+      </div>
+
+      {/* Formulario */}
+      <form onSubmit={handleSubmit} className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div className="flex flex-col">
+            <label htmlFor="supplierId" className="block mb-2 font-medium text-text-dark">
+              Proveedor *
+            </label>
+            <select
+              id="supplierId"
+              name="supplierId"
+              value={formData.supplierId}
+              onChange={handleInputChange}
+              required
+              className={inputClassName}
+            >
+              <option value="">Selecciona un proveedor</option>
+              {suppliers.map((supplier) => (
+                <option key={supplier.id} value={supplier.id}>
+                  {supplier.businessName}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="purchaseId" className="block mb-2 font-medium text-text-dark">
+              Compra asociada
+            </label>
+            <select
+              id="purchaseId"
+              name="purchaseId"
+              value={formData.purchaseId}
+              onChange={handleInputChange}
+              disabled={supplierPurchases.length === 0}
+              className={inputClassName}
+            >
+              <option value="">Sin compra asociada</option>
+              {supplierPurchases.map((purchase) => (
+                <option key={purchase.id} value={purchase.id}>
+                  {purchase.number} - {formatCurrency(purchase.total)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="billNumber" className="block mb-2 font-medium text-text-dark">
+              Número de factura del proveedor *
+            </label>
+            <input
+              id="billNumber"
+              name="billNumber"
+              type="text"
+              maxLength={50}
+              value={formData.billNumber}
+              onChange={handleInputChange}
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="issueDate" className="block mb-2 font-medium text-text-dark">
+              Fecha de emisión
+            </label>
+            <input
+              id="issueDate"
+              name="issueDate"
+              type="date"
+              value={formData.issueDate}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="dueDate" className="block mb-2 font-medium text-text-dark">
+              Fecha de vencimiento <span className="text-text-light text-sm">(por defecto según el plazo del proveedor)</span>
+            </label>
+            <input
+              id="dueDate"
+              name="dueDate"
+              type="date"
+              value={formData.dueDate}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="subtotal" className="block mb-2 font-medium text-text-dark">
+              Base {formData.purchaseId ? '(se toma de la compra si se deja vacía)' : '*'}
+            </label>
+            <input
+              id="subtotal"
+              name="subtotal"
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.subtotal}
+              onChange={handleInputChange}
+              required={!formData.purchaseId}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="taxTotal" className="block mb-2 font-medium text-text-dark">
+              IVA
+            </label>
+            <input
+              id="taxTotal"
+              name="taxTotal"
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.taxTotal}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="notes" className="block mb-2 font-medium text-text-dark">
+              Notas
+            </label>
+            <input
+              id="notes"
+              name="notes"
+              type="text"
+              value={formData.notes}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="bg-blue-500 text-white px-6 py-3 rounded-2xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md hover:shadow-lg active:scale-[0.98] active:shadow-inner"
+        >
+          {isSubmitting ? 'Registrando...' : 'Registrar Factura'}
+        </button>
+      </form>
+
+      <label className="flex items-center gap-3 font-medium text-text-dark">
+        <input type="checkbox" checked={showPaid} onChange={handleToggleShowPaid} className="w-5 h-5" />
+        Mostrar facturas pagadas
+      </label>
+
+      {bills.length === 0 ? (
+        <div className="bg-card-background rounded-3xl shadow-md p-12 text-center">
+          <p className="text-text-light text-lg">No hay facturas de proveedores pendientes.</p>
+        </div>
+      ) : (
+        <div className="bg-card-background rounded-3xl shadow-md overflow-hidden border-b-2 border-gray-100">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Factura</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Proveedor</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Vence</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Total</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Saldo</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Estado</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {bills.map((bill) => (
+                <tr key={bill.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">
+                    {bill.billNumber}
+                    {bill.purchase && <span className="block text-xs text-text-light">Compra {bill.purchase.number}</span>}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{bill.supplier.businessName}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{formatDate(bill.dueDate)}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">{formatCurrency(bill.total)}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-semibold">{formatCurrency(bill.balance)}</td>
+                  <td className="p-4 py-4 border-b border-gray-100">{getStatusBadge(bill)}</td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <button
+                      type="button"
+                      onClick={() => handleSelectBill(bill)}
+                      className="bg-blue-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-blue-600 active:bg-blue-700 transition-all duration-200 active:scale-[0.98]"
+                    >
+                      {selectedBill?.id === bill.id ? 'Ocultar' : bill.status === 'PAID' ? 'Ver' : 'Pagar'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Detalle y pagos de la factura seleccionada */}
+      {selectedBill && (
+        <div className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100 space-y-6">
+          <div>
+            <h3 className="text-2xl font-bold text-text-dark mb-1">
+              Factura {selectedBill.billNumber} · {selectedBill.supplier.businessName}
+            </h3>
+            <p className="text-text-light">
+              Emitida {formatDate(selectedBill.issueDate)} · Vence {formatDate(selectedBill.dueDate)} ·
+              Total {formatCurrency(selectedBill.total)} · Saldo {formatCurrency(selectedBill.balance)}
+            </p>
+          </div>
+
+          {selectedBill.payments && selectedBill.payments.length > 0 && (
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="p-3 text-left border-b border-gray-200 font-semibold text-text-dark">Fecha</th>
+                  <th className="p-3 text-left border-b border-gray-200 font-semibold text-text-dark">Medio</th>
+                  <th className="p-3 text-left border-b border-gray-200 font-semibold text-text-dark">Referencia</th>
+                  <th className="p-3 text-left border-b border-gray-200 font-semibold text-text-dark">Valor</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selectedBill.payments.map((payment) => (
+                  <tr key={payment.id}>
+                    <td className="p-3 border-b border-gray-100 text-text-light">{formatDate(payment.paymentDate)}</td>
+                    <td className="p-3 border-b border-gray-100 text-text-light">{PAYMENT_METHOD_LABELS[payment.method]}</td>
+                    <td className="p-3 border-b border-gray-100 text-text-light">{payment.reference || '-'}</td>
+                    <td className="p-3 border-b border-gray-100 text-text-dark font-semibold">{formatCurrency(payment.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {selectedBill.status === 'OPEN' && (
+            <form onSubmit={handlePaymentSubmit} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+              <div className="flex flex-col">
+                <label htmlFor="amount" className="block mb-2 font-medium text-text-dark">Valor *</label>
+                <input
+                  id="amount"
+                  name="amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  max={Number(selectedBill.balance)}
+                  value={paymentData.amount}
+                  onChange={handlePaymentChange}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col">
+                <label htmlFor="method" className="block mb-2 font-medium text-text-dark">Medio</label>
+                <select
+                  id="method"
+                  name="method"
+                  value={paymentData.method}
+                  onChange={handlePaymentChange}
+                  className={inputClassName}
+                >
+                  {(Object.keys(PAYMENT_METHOD_LABELS) as SupplierPaymentMethod[]).map((method) => (
+                    <option key={method} value={method}>
+                      {PAYMENT_METHOD_LABELS[method]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-col">
+                <label htmlFor="paymentDate" className="block mb-2 font-medium text-text-dark">Fecha</label>
+                <input
+                  id="paymentDate"
+                  name="paymentDate"
+                  type="date"
+                  value={paymentData.paymentDate}
+                  onChange={handlePaymentChange}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col">
+                <label htmlFor="reference" className="block mb-2 font-medium text-text-dark">Referencia</label>
+                <input
+                  id="reference"
+                  name="reference"
+                  type="text"
+                  value={paymentData.reference}
+                  onChange={handlePaymentChange}
+                  className={inputClassName}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isPaying}
+                className="bg-green-500 text-white px-6 py-3 rounded-2xl hover:bg-green-600 active:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md active:scale-[0.98]"
+              >
+                {isPaying ? 'Registrando...' : 'Registrar Pago'}
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SupplierBillList;
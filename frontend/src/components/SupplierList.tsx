@@ -0,0 +1,388 @@
+import { type ChangeEvent, type FormEvent, useEffect, useState } from 'react';
+import type { AxiosError } from 'axios';
+
+import type { CreateSupplierPayload, Supplier, SupplierDocumentType } from '../services/supplierService';
+import { createSupplier, deleteSupplier, getSuppliers, updateSupplier } from '../services/supplierService';
+
+const EMPTY_FORM = {
+  businessName: '',
+  documentType: 'NIT' as SupplierDocumentType,
+  identification: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  address: '',
+  paymentTermDays: '0',
+  isActive: true
+};
+
+const DOCUMENT_TYPE_LABELS: Record<SupplierDocumentType, string> = {
+  NIT: 'NIT',
+  CC: 'Cédula',
+  PASSPORT: 'Pasaporte'
+};
+
+// Extrae el mensaje de error enviado por el backend
+const getErrorMessage = (err: unknown, fallback: string) => {
+  return (err as AxiosError<{ message?: string }>)?.response?.data?.message || fallback;
+};
+
+const SupplierList = () => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const fetchSuppliers = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await getSuppliers(true);
+      setSuppliers(data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'No fue posible cargar los proveedores.'));
+      console.error('Error al cargar proveedores:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void fetchSuppliers();
+  }, []);
+
+  const handleInputChange = (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = event.target;
+    const checked = event.target instanceof HTMLInputElement && event.target.type === 'checkbox'
+      ? event.target.checked
+      : undefined;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: checked !== undefined ? checked : value
+    }));
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingId(supplier.id);
+    setFormData({
+      businessName: supplier.businessName,
+      documentType: supplier.documentType,
+      identification: supplier.identification,
+      contactName: supplier.contactName ?? '',
+      email: supplier.email ?? '',
+      phone: supplier.phone ?? '',
+      address: supplier.address ?? '',
+      paymentTermDays: supplier.paymentTermDays.toString(),
+      isActive: supplier.isActive
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!window.confirm(`¿Estás seguro de que deseas eliminar al proveedor ${supplier.businessName}?`)) {
+      return;
+    }
+    try {
+      await deleteSupplier(supplier.id);
+      await fetchSuppliers();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible eliminar el proveedor. Intenta nuevamente.'));
+      console.error(err);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const payload: CreateSupplierPayload = {
+        businessName: formData.businessName.trim(),
+        documentType: formData.documentType,
+        identification: formData.identification.trim(),
+        contactName: formData.contactName.trim() || null,
+        email: formData.email.trim() || null,
+        phone: formData.phone.trim() || null,
+        address: formData.address.trim() || null,
+        paymentTermDays: Number(formData.paymentTermDays),
+        isActive: formData.isActive
+      };
+      if (editingId) {
+        await updateSupplier(editingId, payload);
+        setEditingId(null);
+      } else {
+        await createSupplier(payload);
+      }
+      setFormData(EMPTY_FORM);
+      await fetchSuppliers();
+    } catch (err) {
+      alert(getErrorMessage(err, 'No fue posible guardar el proveedor. Intenta nuevamente.'));
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatCurrency = (amount: string | number) => {
+    const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
+    return new Intl.NumberFormat('es-CO', {
+      style: 'currency',
+      currency: 'COP',
+      minimumFractionDigits: 0
+    }).format(numAmount);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-gray-600">Cargando...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-xl text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  const inputClassName = 'border-2 border-gray-200 rounded-2xl p-3 w-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+  return (
+    <div className="space-y-8">
+      {/* Encabezado */}
+      <div className="bg-card-background rounded-3xl shadow-lg p-8">
+        <h2 className="text-4xl lg:text-5xl font-extrabold mb-3 text-text-dark tracking-tight">Proveedores</h2>
+        <p className="text-text-light text-lg">Terceros a quienes compras mercancía</p>
+      </div>
+
+      {/* Formulario */}
+      <form onSubmit={handleSubmit} className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div className="flex flex-col md:col-span-2">
+            <label htmlFor="businessName" className="block mb-2 font-medium text-text-dark">
+              Razón social *
+            </label>
+            <input
+              id="businessName"
+              name="businessName"
+              type="text"
+              value={formData.businessName}
+              onChange={handleInputChange}
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="documentType" className="block mb-2 font-medium text-text-dark">
+              Tipo de documento
+            </label>
+            <select
+              id="documentType"
+              name="documentType"
+              value={formData.documentType}
+              onChange={handleInputChange}
+              className={inputClassName}
+            >
+              {(Object.keys(DOCUMENT_TYPE_LABELS) as SupplierDocumentType[]).map((documentType) => (
+                <option key={documentType} value={documentType}>
+                  {DOCUMENT_TYPE_LABELS[documentType]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="identification" className="block mb-2 font-medium text-text-dark">
+              Número de documento * {formData.documentType === 'NIT' && <span className="text-text-light text-sm">(sin dígito de verificación)</span>}
+            </label>
+            <input
+              id="identification"
+              name="identification"
+              type="text"
+              value={formData.identification}
+              onChange={handleInputChange}
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="contactName" className="block mb-2 font-medium text-text-dark">
+              Contacto
+            </label>
+            <input
+              id="contactName"
+              name="contactName"
+              type="text"
+              value={formData.contactName}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="email" className="block mb-2 font-medium text-text-dark">
+              Correo
+            </label>
+            <input
+              id="email"
+              name="email"
+              type="email"
+              value={formData.email}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="phone" className="block mb-2 font-medium text-text-dark">
+              Teléfono
+            </label>
+            <input
+              id="phone"
+              name="phone"
+              type="text"
+              value={formData.phone}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="paymentTermDays" className="block mb-2 font-medium text-text-dark">
+              Plazo de pago (días)
+            </label>
+            <input
+              id="paymentTermDays"
+              name="paymentTermDays"
+              type="number"
+              min="0"
+              step="1"
+              value={formData.paymentTermDays}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col md:col-span-2">
+            <label htmlFor="address" className="block mb-2 font-medium text-text-dark">
+              Dirección
+            </label>
+            <input
+              id="address"
+              name="address"
+              type="text"
+              value={formData.address}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+          <label className="flex items-center gap-3 font-medium text-text-dark">
+            <input
+              name="isActive"
+              type="checkbox"
+              checked={formData.isActive}
+              onChange={handleInputChange}
+              className="w-5 h-5"
+            />
+            Activo
+          </label>
+        </div>
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-blue-500 text-white px-6 py-3 rounded-2xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-md hover:shadow-lg active:scale-[0.98] active:shadow-inner"
+          >
+            {isSubmitting ? 'Guardando...' : editingId ? 'Guardar Cambios' : 'Registrar Proveedor'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={handleCancelEdit}
+              disabled={isSubmitting}
+              className="bg-gray-200 text-text-dark px-6 py-3 rounded-2xl hover:bg-gray-300 active:bg-gray-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold active:scale-[0.98]"
+            >
+              Cancelar Edición
+            </button>
+          )}
+        </div>
+      </form>
+
+      {suppliers.length === 0 ? (
+        <div className="bg-card-background rounded-3xl shadow-md p-12 text-center">
+          <p className="text-text-light text-lg">No hay proveedores registrados.</p>
+        </div>
+      ) : (
+        <div className="bg-card-background rounded-3xl shadow-md overflow-hidden border-b-2 border-gray-100">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Proveedor</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Documento</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Contacto</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Plazo</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Por pagar</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Estado</th>
+                <th className="p-4 py-5 text-left border-b border-gray-200 font-semibold text-text-dark">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {suppliers.map((supplier) => (
+                <tr key={supplier.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-medium">{supplier.businessName}</td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">
+                    {DOCUMENT_TYPE_LABELS[supplier.documentType]} {supplier.identification}{supplier.dv ? `-${supplier.dv}` : ''}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">
+                    {supplier.contactName || '-'}
+                    {(supplier.phone || supplier.email) && (
+                      <span className="block text-xs">{[supplier.phone, supplier.email].filter(Boolean).join(' · ')}</span>
+                    )}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-light">
+                    {supplier.paymentTermDays === 0 ? 'Contado' : `${supplier.paymentTermDays} días`}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100 text-text-dark font-semibold">
+                    {formatCurrency(supplier.currentBalance)}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    {supplier.isActive ? (
+                      <span className="px-3 py-1 rounded-2xl text-xs font-semibold bg-green-100 text-green-700">Activo</span>
+                    ) : (
+                      <span className="px-3 py-1 rounded-2xl text-xs font-semibold bg-gray-100 text-gray-600">Inactivo</span>
+                    )}
+                  </td>
+                  <td className="p-4 py-4 border-b border-gray-100">
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleEdit(supplier)}
+                        disabled={editingId !== null && editingId !== supplier.id}
+                        className="bg-blue-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-blue-600 active:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 active:scale-[0.98]"
+                      >
+                        Editar
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(supplier)}
+                        disabled={editingId !== null}
+                        className="bg-red-500 text-white px-4 py-2 rounded-2xl text-sm font-semibold hover:bg-red-600 active:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 active:scale-[0.98]"
+                      >
+                        Eliminar
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SupplierList;
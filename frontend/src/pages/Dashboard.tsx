@@ -14,8 +14,8 @@ import {
   Legend,
   ResponsiveContainer
 } from 'recharts';
-import type { DashboardSummary, DailyAndWeeklyRevenue, ShiftCloseout, TopSellingProduct } from '../services/reportService';
-import { getDashboardSummary, getDailyAndWeeklyRevenue, getLastShiftCloseout, getTopSellingProducts } from '../services/reportService';
+import type { DashboardSummary, DailyAndWeeklyRevenue, ExpiringLotsReport, GrossMarginReport, PayablesAgingReport, ReceivablesAgingReport, ResolutionStatusReport, ShiftCloseout, TopSellingProduct } from '../services/reportService';
+import { getDashboardSummary, getDailyAndWeeklyRevenue, getExpiringLots, getGrossMargin, getLastShiftCloseout, getPayablesAging, getReceivablesAging, getResolutionStatus, getTopSellingProducts } from '../services/reportService';
 
 const Dashboard = () => {
   const [summary, setSummary] = useState<DashboardSummary | null>(null);
@@ -23,6 +23,11 @@ const Dashboard = () => {
   const [dailyWeeklyRevenue, setDailyWeeklyRevenue] = useState<DailyAndWeeklyRevenue>({ daily: [], weekly: [] });
   const [lastCloseout, setLastCloseout] = useState<ShiftCloseout | null>(null);
   const [topProducts, setTopProducts] = useState<TopSellingProduct[]>([]);
+  const [receivables, setReceivables] = useState<ReceivablesAgingReport | null>(null);
+  const [payables, setPayables] = useState<PayablesAgingReport | null>(null);
+  const [grossMargin, setGrossMargin] = useState<GrossMarginReport | null>(null);
+  const [resolutionStatus, setResolutionStatus] = useState<ResolutionStatusReport | null>(null);
+  const [expiringLots, setExpiringLots] = useState<ExpiringLotsReport | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'daily' | 'weekly'>('daily'); // Modo de visualización
@@ -64,6 +69,51 @@ const Dashboard = () => {
           console.warn('No se pudo cargar el top 10 de productos:', err);
           setTopProducts([]); // Continuar sin mostrar el top 10
         }
+
+        // Intentar obtener la cartera por cobrar de forma independiente (no bloquear si falla)
+        try {
+          const receivablesData = await getReceivablesAging();
+          setReceivables(receivablesData);
+        } catch (err) {
+          console.warn('No se pudo cargar la cartera por cobrar:', err);
+          setReceivables(null); // Continuar sin mostrar la cartera
+        }
+
+        // Intentar obtener las cuentas por pagar de forma independiente (no bloquear si falla)
+        try {
+          const payablesData = await getPayablesAging();
+          setPayables(payablesData);
+        } catch (err) {
+          console.warn('No se pudo cargar las cuentas por pagar:', err);
+          setPayables(null); // Continuar sin mostrar las cuentas por pagar
+        }
+
+        // Intentar obtener el margen bruto del mes de forma independiente (no bloquear si falla)
+        try {
+          const marginData = await getGrossMargin();
+          setGrossMargin(marginData);
+        } catch (err) {
+          console.warn('No se pudo cargar el margen bruto:', err);
+          setGrossMargin(null); // Continuar sin mostrar el margen
+        }
+
+        // Intentar obtener las alertas de la resolución DIAN de forma independiente (no bloquear si falla)
+        try {
+          const resolutionData = await getResolutionStatus();
+          setResolutionStatus(resolutionData);
+        } catch (err) {
+          console.warn('No se pudo cargar el estado de la resolución DIAN:', err);
+          setResolutionStatus(null); // Continuar sin mostrar las alertas
+        }
+
+        // Intentar obtener los lotes vencidos y por vencer de forma independiente (no bloquear si falla)
+        try {
+          const expiringData = await getExpiringLots();
+          setExpiringLots(expiringData);
+        } catch (err) {
+          console.warn('No se pudo cargar los lotes por vencer:', err);
+          setExpiringLots(null); // Continuar sin mostrar la alerta
+        }
       } catch (err: any) {
         // Mensaje de error más específico
         let errorMessage = 'No fue posible cargar los datos del dashboard.';
@@ -648,6 +698,81 @@ const Dashboard = () => {
           <p className="text-text-light text-lg lg:text-xl">Resumen general de tu empresa</p>
         </div>
 
+        {/* Alertas de la Resolución DIAN */}
+        {resolutionStatus && resolutionStatus.warnings.length > 0 && (
+          <div className="bg-yellow-50 rounded-3xl shadow-md p-6 lg:p-8 border border-yellow-200">
+            <div className="flex items-start gap-4">
+              <div className="bg-yellow-500/20 rounded-2xl p-3">
+                <svg className="w-6 h-6 text-yellow-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                </svg>
+              </div>
+              <div className="space-y-1">
+                <h3 className="text-lg font-semibold text-yellow-900">Resolución de Facturación DIAN</h3>
+                {resolutionStatus.warnings.map((warning) => (
+                  <p key={warning} className="text-base text-yellow-800">{warning}</p>
+                ))}
+                {resolutionStatus.resolution && (
+                  <p className="text-sm text-yellow-700">
+                    Consecutivos disponibles: {resolutionStatus.resolution.status.remainingNumbers} · Días de vigencia: {Math.max(resolutionStatus.resolution.status.remainingDays, 0)}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Alerta de lotes vencidos y por vencer */}
+        {expiringLots && expiringLots.lots.length > 0 && (
+          <div className="bg-orange-50 rounded-3xl shadow-md p-6 lg:p-8 border border-orange-200">
+            <div className="flex items-start gap-4">
+              <div className="bg-orange-500/20 rounded-2xl p-3">
+                <svg className="w-6 h-6 text-orange-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              </div>
+              <div className="flex-1 space-y-3">
+                <div>
+                  <h3 className="text-lg font-semibold text-orange-900">Lotes por vencer (próximos {expiringLots.days} días)</h3>
+                  <p className="text-sm text-orange-800">
+                    {expiringLots.expiredCount} vencidos · {expiringLots.expiringCount} por vencer · Valor al costo: {formatCurrency(expiringLots.totalValue)}
+                  </p>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full border-collapse text-sm">
+                    <thead>
+                      <tr className="text-left text-orange-900">
+                        <th className="py-2 pr-4 font-semibold">Producto</th>
+                        <th className="py-2 pr-4 font-semibold">Lote</th>
+                        <th className="py-2 pr-4 font-semibold">Bodega</th>
+                        <th className="py-2 pr-4 font-semibold">Cantidad</th>
+                        <th className="py-2 pr-4 font-semibold">Vence</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {expiringLots.lots.slice(0, 10).map((lot) => (
+                        <tr key={lot.id} className={lot.isExpired ? 'text-red-700 font-semibold' : 'text-orange-900'}>
+                          <td className="py-1 pr-4">{lot.product.name}</td>
+                          <td className="py-1 pr-4">{lot.lotNumber}</td>
+                          <td className="py-1 pr-4">{lot.location.name}</td>
+                          <td className="py-1 pr-4">{lot.quantity}</td>
+                          <td className="py-1 pr-4">
+                            {lot.expiryDate.slice(0, 10)}{' '}
+                            ({lot.isExpired ? `vencido hace ${-lot.daysToExpiry} días` : lot.daysToExpiry === 0 ? 'vence hoy' : `en ${lot.daysToExpiry} días`})
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {expiringLots.lots.length > 10 && (
+                    <p className="text-xs text-orange-700 mt-2">Y {expiringLots.lots.length - 10} lotes más.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Tarjeta de Último Cierre de Caja */}
         {lastCloseout && (() => {
           const { date, time } = formatCloseoutDateTime(lastCloseout.closingTime);
@@ -921,7 +1046,7 @@ const Dashboard = () => {
         <div className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
           <div className="mb-4">
             <h3 className="text-2xl font-bold text-text-dark mb-1">Alerta de Inventario</h3>
-            <p className="text-sm text-text-light">Productos que requieren reposición (stock ≤ 5 unidades)</p>
+            <p className="text-sm text-text-light">Productos que requieren reposición (en su stock mínimo o por debajo)</p>
           </div>
           {summary.lowStockProducts === 0 ? (
             <div className="flex items-center justify-center h-64">
@@ -988,6 +1113,294 @@ const Dashboard = () => {
           )}
         </div>
 
+        {/* Cartera por Cobrar */}
+        <div className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+          <div className="mb-4">
+            <h3 className="text-2xl font-bold text-text-dark mb-1 flex items-center gap-2">
+              <svg className="w-7 h-7 text-accent-orange" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" />
+              </svg>
+              Cartera por Cobrar
+            </h3>
+            <p className="text-sm text-text-light">Saldos pendientes de ventas a crédito por días de vencimiento</p>
+          </div>
+
+          {!receivables || receivables.clients.length === 0 ? (
+            <div className="flex items-center justify-center h-32">
+              <p className="text-lg text-text-light">No hay saldos pendientes por cobrar</p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+                {[
+                  { label: 'Al día', value: receivables.totals.current, className: 'text-secondary-green' },
+                  { label: '1-30 días', value: receivables.totals.days1to30, className: 'text-text-dark' },
+                  { label: '31-60 días', value: receivables.totals.days31to60, className: 'text-accent-orange' },
+                  { label: '61-90 días', value: receivables.totals.days61to90, className: 'text-accent-orange' },
+                  { label: '+90 días', value: receivables.totals.over90, className: 'text-red-600' },
+                  { label: 'Total', value: receivables.totals.total, className: 'text-primary-purple' }
+                ].map((bucket) => (
+                  <div key={bucket.label} className="bg-gray-50 rounded-2xl p-4">
+                    <p className="text-sm text-text-light mb-1">{bucket.label}</p>
+                    <p className={`text-xl font-bold ${bucket.className}`}>{formatCurrency(bucket.value)}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="p-3 py-4 text-left border-b border-gray-300 font-semibold text-text-dark">Cliente</th>
+                      <th className="p-3 py-4 text-left border-b border-gray-300 font-semibold text-text-dark">Teléfono</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Al día</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">1-30</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">31-60</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">61-90</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">+90</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {receivables.clients.map((client) => (
+                      <tr
+                        key={client.clientId ?? 'sin-cliente'}
+                        className={`hover:bg-gray-50 transition-colors ${
+                          client.maxDaysPastDue > 60 ? 'bg-gradient-to-r from-red-50 to-transparent' : ''
+                        }`}
+                      >
+                        <td className="p-3 py-4 border-b border-gray-200 text-text-dark font-medium">
+                          {client.clientName}
+                          <span className="block text-xs text-text-light">
+                            {client.invoiceCount} {client.invoiceCount === 1 ? 'factura' : 'facturas'}
+                            {client.maxDaysPastDue > 0 ? ` · ${client.maxDaysPastDue} días de mora` : ''}
+                          </span>
+                        </td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-text-dark">{client.phone || '-'}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{formatCurrency(client.current)}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{formatCurrency(client.days1to30)}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{formatCurrency(client.days31to60)}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{formatCurrency(client.days61to90)}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-red-600 font-semibold">{formatCurrency(client.over90)}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-primary-purple font-bold">{formatCurrency(client.total)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Cuentas por Pagar */}
+        <div className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+          <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h3 className="text-2xl font-bold text-text-dark mb-1 flex items-center gap-2">
+                <svg className="w-7 h-7 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 14l6-6m-5.5.5h.01m4.99 5h.01M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16l3.5-2 3.5 2 3.5-2 3.5 2z" />
+                </svg>
+                Cuentas por Pagar
+              </h3>
+              <p className="text-sm text-text-light">Saldos pendientes con proveedores por días de vencimiento</p>
+            </div>
+            {/* Posición neta: lo que nos deben menos lo que debemos */}
+            <div className="bg-gray-50 rounded-2xl px-5 py-3 text-right">
+              <p className="text-sm text-text-light">Por cobrar - por pagar</p>
+              <p className={`text-xl font-bold ${
+                (receivables?.totals.total ?? 0) - (payables?.totals.total ?? 0) >= 0 ? 'text-secondary-green' : 'text-red-600'
+              }`}>
+                {formatCurrency((receivables?.totals.total ?? 0) - (payables?.totals.total ?? 0))}
+              </p>
+            </div>
+          </div>
+
+          {!payables || payables.suppliers.length === 0 ? (
+            <div className="flex items-center justify-center h-32">
+              <p className="text-lg text-text-light">No hay saldos pendientes por pagar</p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+                {[
+                  { label: 'Al día', value: payables.totals.current, className: 'text-secondary-green' },
+                  { label: '1-30 días', value: payables.totals.days1to30, className: 'text-text-dark' },
+                  { label: '31-60 días', value: payables.totals.days31to60, className: 'text-accent-orange' },
+                  { label: '61-90 días', value: payables.totals.days61to90, className: 'text-accent-orange' },
+                  { label: '+90 días', value: payables.totals.over90, className: 'text-red-600' },
+                  { label: 'Total', value: payables.totals.total, className: 'text-primary-purple' }
+                ].map((bucket) => (
+                  <div key={bucket.label} className="bg-gray-50 rounded-2xl p-4">
+                    <p className="text-sm text-text-light mb-1">{bucket.label}</p>
+                    <p className={`text-xl font-bold ${bucket.className}`}>{formatCurrency(bucket.value)}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="p-3 py-4 text-left border-b border-gray-300 font-semibold text-text-dark">Proveedor</th>
+                      <th className="p-3 py-4 text-left border-b border-gray-300 font-semibold text-text-dark">Teléfono</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Al día</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">1-30</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">31-60</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">61-90</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">+90</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {payables.suppliers.map((supplier) => (
+                      <tr
+                        key={supplier.supplierId}
+                        className={`hover:bg-gray-50 transition-colors ${
+                          supplier.maxDaysPastDue > 0 ? 'bg-gradient-to-r from-red-50 to-transparent' : ''
+                        }`}
+                      >
+                        <td className="p-3 py-4 border-b border-gray-200 text-text-dark font-medium">
+                          {supplier.supplierName}
+                          <span className="block text-xs text-text-light">
+                            {supplier.billCount} {supplier.billCount === 1 ? 'factura' : 'facturas'}
+                            {supplier.maxDaysPastDue > 0 ? ` · ${supplier.maxDaysPastDue} días vencida` : ''}
+                          </span>
+                        </td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-text-dark">{supplier.phone || '-'}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{formatCurrency(supplier.current)}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{formatCurrency(supplier.days1to30)}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{formatCurrency(supplier.days31to60)}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{formatCurrency(supplier.days61to90)}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-red-600 font-semibold">{formatCurrency(supplier.over90)}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-primary-purple font-bold">{formatCurrency(supplier.total)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Margen Bruto del Mes */}
+        <div className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
+          <div className="mb-4">
+            <h3 className="text-2xl font-bold text-text-dark mb-1 flex items-center gap-2">
+              <svg className="w-7 h-7 text-secondary-green" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+              </svg>
+              Margen Bruto del Mes
+            </h3>
+            <p className="text-sm text-text-light">Ventas netas antes de IVA contra su costo al momento de la venta</p>
+          </div>
+
+          {!grossMargin || grossMargin.byProduct.length === 0 ? (
+            <div className="flex items-center justify-center h-32">
+              <p className="text-lg text-text-light">No hay ventas registradas este mes</p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
+                {[
+                  { label: 'Ventas netas', value: formatCurrency(grossMargin.totals.revenue), className: 'text-text-dark' },
+                  { label: 'Descuentos', value: formatCurrency(grossMargin.totals.discounts), className: 'text-red-600' },
+                  { label: 'Costo de ventas', value: formatCurrency(grossMargin.totals.cost), className: 'text-accent-orange' },
+                  { label: 'Utilidad bruta', value: formatCurrency(grossMargin.totals.grossProfit), className: grossMargin.totals.grossProfit >= 0 ? 'text-secondary-green' : 'text-red-600' },
+                  { label: 'Margen', value: `${grossMargin.totals.marginPercent.toFixed(1)}%`, className: 'text-primary-purple' }
+                ].map((figure) => (
+                  <div key={figure.label} className="bg-gray-50 rounded-2xl p-4">
+                    <p className="text-sm text-text-light mb-1">{figure.label}</p>
+                    <p className={`text-xl font-bold ${figure.className}`}>{figure.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="p-3 py-4 text-left border-b border-gray-300 font-semibold text-text-dark">Producto</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Cantidad</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Ventas</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Costo</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Utilidad</th>
+                      <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Margen</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {grossMargin.byProduct.slice(0, 10).map((product) => (
+                      <tr key={product.productId ?? product.productName} className="hover:bg-gray-50 transition-colors">
+                        <td className="p-3 py-4 border-b border-gray-200 text-text-dark font-medium">{product.productName}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{product.quantity}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{formatCurrency(product.revenue)}</td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{formatCurrency(product.cost)}</td>
+                        <td className={`p-3 py-4 border-b border-gray-200 text-right font-semibold ${product.grossProfit >= 0 ? 'text-secondary-green' : 'text-red-600'}`}>
+                          {formatCurrency(product.grossProfit)}
+                        </td>
+                        <td className="p-3 py-4 border-b border-gray-200 text-right text-primary-purple font-bold">{product.marginPercent.toFixed(1)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {grossMargin.byCategory.length > 0 && (
+                <div className="overflow-x-auto mt-6">
+                  <h4 className="text-lg font-bold text-text-dark mb-3">Ventas por categoría</h4>
+                  <table className="w-full border-collapse">
+                    <thead>
+                      <tr className="bg-gray-100">
+                        <th className="p-3 py-4 text-left border-b border-gray-300 font-semibold text-text-dark">Categoría</th>
+                        <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Ventas</th>
+                        <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Costo</th>
+                        <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Utilidad</th>
+                        <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Margen</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {grossMargin.byCategory.map((category) => (
+                        <tr key={category.categoryId ?? 'none'} className="hover:bg-gray-50 transition-colors">
+                          <td className="p-3 py-4 border-b border-gray-200 text-text-dark font-medium">{category.categoryName}</td>
+                          <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{formatCurrency(category.revenue)}</td>
+                          <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{formatCurrency(category.cost)}</td>
+                          <td className={`p-3 py-4 border-b border-gray-200 text-right font-semibold ${category.grossProfit >= 0 ? 'text-secondary-green' : 'text-red-600'}`}>
+                            {formatCurrency(category.grossProfit)}
+                          </td>
+                          <td className="p-3 py-4 border-b border-gray-200 text-right text-primary-purple font-bold">{category.marginPercent.toFixed(1)}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {grossMargin.byPromotion.length > 0 && (
+                <div className="overflow-x-auto mt-6">
+                  <h4 className="text-lg font-bold text-text-dark mb-3">Descuentos por promoción</h4>
+                  <table className="w-full border-collapse">
+                    <thead>
+                      <tr className="bg-gray-100">
+                        <th className="p-3 py-4 text-left border-b border-gray-300 font-semibold text-text-dark">Promoción</th>
+                        <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Líneas</th>
+                        <th className="p-3 py-4 text-right border-b border-gray-300 font-semibold text-text-dark">Descuento</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {grossMargin.byPromotion.map((promotion) => (
+                        <tr key={promotion.promotionId} className="hover:bg-gray-50 transition-colors">
+                          <td className="p-3 py-4 border-b border-gray-200 text-text-dark font-medium">{promotion.promotionName}</td>
+                          <td className="p-3 py-4 border-b border-gray-200 text-right text-text-dark">{promotion.lines}</td>
+                          <td className="p-3 py-4 border-b border-gray-200 text-right text-red-600 font-semibold">{formatCurrency(promotion.discounts)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
         {/* Top 10 Productos Más Vendidos */}
         <div className="bg-card-background rounded-3xl shadow-md p-8 border-b-2 border-gray-100">
           <div className="mb-4">
@@ -1,18 +1,36 @@
 import { type FormEvent, useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
+import type { AxiosError } from 'axios';
 
 import logoIcon from '../assets/logo-pymes-contables.svg';
 import AdminUnlockModal from '../components/AdminUnlockModal';
 import { useAuth } from '../context/AuthContext';
 import { closeDayShift } from '../services/cashRegisterService';
-import type { CreateInvoicePayload, InvoiceItem } from '../services/invoiceService';
-import { createInvoice } from '../services/invoiceService';
-import type { Product } from '../services/productService';
-import { getProducts } from '../services/productService';
+import type { ProductCategory } from '../services/catalogService';
+import { getCategories, getCategoryBranchIds } from '../services/catalogService';
+import type { Client } from '../services/clientService';
+import { getClients } from '../services/clientService';
+import type { CreateInvoicePayload, DiscountType, InvoiceItem, InvoiceQuote } from '../services/invoiceService';
+import { createInvoice, quoteInvoice } from '../services/invoiceService';
+import { getCashRegisters, getLocations } from '../services/locationService';
+import type { PriceList } from '../services/priceListService';
+import { getPriceListPrices, getPriceLists } from '../services/priceListService';
+import type { Product, UnitOfMeasure } from '../services/productService';
+import {
+  TAX_CATEGORY_RATES,
+  UNIT_OF_MEASURE_FRACTIONAL,
+  UNIT_OF_MEASURE_SYMBOLS,
+  formatQuantity,
+  getProducts,
+  getQuantityStep,
+  lookupProductByCode,
+  roundQuantity
+} from '../services/productService';
 
 interface CartItem extends InvoiceItem {
   id: string;
   productName: string;
+  unit: UnitOfMeasure;
   stock: number;
   subtotal: number;
 }
@@ -22,6 +40,8 @@ const POS = () => {
   const navigate = useNavigate();
 
   const isUserAdmin = user?.role === 'ADMIN';
+  // Los descuentos manuales solo los aplican ADMIN y MANAGER; las promociones se aplican solas
+  const canApplyDiscount = user?.role === 'ADMIN' || user?.role === 'MANAGER';
   const [isPromoting, setIsPromoting] = useState<boolean>(false);
   const [products, setProducts] = useState<Product[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
@@ -32,22 +52,58 @@ const POS = () => {
   const [quantity, setQuantity] = useState<number>(1);
   const [cart, setCart] = useState<CartItem[]>([]);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
-  const [invoiceNumber, setInvoiceNumber] = useState<string>(
-    `INV-${Date.now().toString().slice(-6)}`
-  );
   const [showAdminModal, setShowAdminModal] = useState<boolean>(false);
   const [searchQuery, setSearchQuery] = useState<string>('');
-  const [applyIva, setApplyIva] = useState<boolean>(false);
+  const [categories, setCategories] = useState<ProductCategory[]>([]);
+  const [activeCategoryId, setActiveCategoryId] = useState<string>('');
+  const [isCreditSale, setIsCreditSale] = useState<boolean>(false);
+  const [creditClients, setCreditClients] = useState<Client[]>([]);
+  const [creditClientId, setCreditClientId] = useState<string>('');
+  const [creditDueDate, setCreditDueDate] = useState<string>(() => {
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + 30);
+    return dueDate.toISOString().split('T')[0];
+  });
   const [isClosingShift, setIsClosingShift] = useState<boolean>(false);
   const [cashRegisterId] = useState<number>(1);
   const [startingBalance, setStartingBalance] = useState<number>(0);
+  const [saleLocationName, setSaleLocationName] = useState<string>('');
+  const [saleLocationId, setSaleLocationId] = useState<string>('');
+  const [scanCode, setScanCode] = useState<string>('');
+  const [scanMessage, setScanMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [priceListId, setPriceListId] = useState<string>('');
+  const [listPrices, setListPrices] = useState<Record<string, number>>({});
+  const [quote, setQuote] = useState<InvoiceQuote | null>(null);
+  const [discountType, setDiscountType] = useState<DiscountType | ''>('');
+  const [discountValue, setDiscountValue] = useState<string>('');
 
   useEffect(() => {
     const fetchProducts = async () => {
       try {
         setIsLoading(true);
         setError(null);
-        const data = await getProducts();
+        // La venta descuenta de la bodega asignada a la caja (o de la bodega por defecto)
+        const [cashRegisters, locations, categoryData, priceListData] = await Promise.all([
+          getCashRegisters(),
+          getLocations(),
+          getCategories(),
+          getPriceLists()
+        ]);
+        setCategories(categoryData);
+        setPriceLists(priceListData);
+        // Sin cliente, la venta usa la lista de precios por defecto
+        const defaultList = priceListData.find(l => l.isDefault);
+        if (defaultList) {
+          setPriceListId(defaultList.id);
+          const prices = await getPriceListPrices(defaultList.id);
+          setListPrices(Object.fromEntries(prices.map(p => [p.productId, p.price])));
+        }
+        const register = cashRegisters.find(r => r.id === cashRegisterId);
+        const saleLocation = register?.location ?? locations.find(l => l.isDefault) ?? null;
+        setSaleLocationName(saleLocation?.name ?? '');
+        setSaleLocationId(saleLocation?.id ?? '');
+        const data = await getProducts(saleLocation ? { locationId: saleLocation.id } : undefined);
         setProducts(data.filter(p => p.isActive && Number(p.stock) > 0));
       } catch (err: unknown) {
         let errorMessage = 'No fue posible cargar los productos.';
@@ -84,15 +140,105 @@ const POS = () => {
     };
 
     void fetchProducts();
-  }, []);
+  }, [cashRegisterId]);
+
+  useEffect(() => {
+    if (!isCreditSale) {
+      return;
+    }
+
+    const fetchCreditClients = async () => {
+      try {
+        const data = await getClients();
+        setCreditClients(data.filter(client => client.isActive && client.hasCredit));
+      } catch (err) {
+        console.error('Error al cargar clientes con crédito:', err);
+      }
+    };
+
+    void fetchCreditClients();
+  }, [isCreditSale]);
+
+  // El servidor cotiza la venta (lista de precios, promociones, descuentos e IVA) cada vez que cambia el carrito
+  useEffect(() => {
+    if (cart.length === 0) {
+      setQuote(null);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      quoteInvoice({
+        items: cart.map(item => ({ productId: item.productId, quantity: item.quantity, taxRate: item.taxRate })),
+        priceListId: priceListId || undefined,
+        clientId: isCreditSale && creditClientId ? creditClientId : undefined,
+        discountType: discountType && discountValue ? discountType : undefined,
+        discountValue: discountType && discountValue ? Number(discountValue) : undefined
+      })
+        .then(setQuote)
+        .catch((err) => {
+          setQuote(null);
+          console.error('Error al cotizar la venta:', err);
+        });
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [cart, priceListId, isCreditSale, creditClientId, discountType, discountValue]);
+
+  const selectedCreditClient = creditClients.find(client => client.id === creditClientId);
+  const defaultPriceListId = priceLists.find(list => list.isDefault)?.id ?? '';
+
+  // Precio con el que el servidor cobrará el producto según la lista seleccionada
+  const getUnitPrice = (product: Product) => listPrices[product.id] ?? Number(product.price);
+
+  // Cambia la lista de precios y recalcula los precios del carrito
+  const applyPriceList = async (id: string) => {
+    setPriceListId(id);
+    try {
+      const prices = id ? await getPriceListPrices(id) : [];
+      const priceMap: Record<string, number> = Object.fromEntries(prices.map(p => [p.productId, p.price]));
+      setListPrices(priceMap);
+      setCart(prev => prev.map(item => {
+        const product = products.find(p => p.id === item.productId);
+        const unitPrice = priceMap[item.productId] ?? (product ? Number(product.price) : Number(item.unitPrice || 0));
+        return { ...item, unitPrice, subtotal: item.quantity * unitPrice };
+      }));
+    } catch (err) {
+      alert((err as AxiosError<{ message?: string }>)?.response?.data?.message || 'No fue posible cargar la lista de precios.');
+      console.error('Error al cargar la lista de precios:', err);
+    }
+  };
+
+  const handleToggleCreditSale = () => {
+    if (isCreditSale && creditClientId) {
+      setCreditClientId('');
+      if (priceListId !== defaultPriceListId) {
+        void applyPriceList(defaultPriceListId);
+      }
+    }
+    setIsCreditSale(!isCreditSale);
+  };
+
+  // Al elegir el cliente se usa su lista de precios (o la lista por defecto)
+  const handleCreditClientChange = (id: string) => {
+    setCreditClientId(id);
+    const client = creditClients.find(c => c.id === id);
+    const clientListId = priceLists.some(list => list.id === client?.priceListId) ? client?.priceListId : null;
+    void applyPriceList(clientListId ?? defaultPriceListId);
+  };
 
   const selectedProduct = products.find(p => p.id === selectedProductId);
   const availableStock = selectedProduct ? Number(selectedProduct.stock) : 0;
 
+  // Las pestañas son las categorías principales; cada una incluye los productos de sus subcategorías
+  const categoryTabs = categories.filter(category => !category.parentId);
+  const activeCategoryIds = activeCategoryId ? getCategoryBranchIds(categories, activeCategoryId) : null;
+
   const filteredProducts = products.filter(product =>
-    product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    product.sku?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    product.description?.toLowerCase().includes(searchQuery.toLowerCase())
+    (!activeCategoryIds || activeCategoryIds.has(product.categoryId ?? '')) && (
+      product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      product.sku?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      product.description?.toLowerCase().includes(searchQuery.toLowerCase())
+    )
   );
 
   const handleAddToCart = () => {
@@ -106,16 +252,22 @@ const POS = () => {
       return;
     }
 
+    // Unidades y cajas se venden enteras; kg, g, L y m admiten fracciones
+    if (!UNIT_OF_MEASURE_FRACTIONAL[selectedProduct.unit] && !Number.isInteger(quantity)) {
+      alert('Este producto solo se vende en cantidades enteras');
+      return;
+    }
+
     if (quantity > availableStock) {
-      alert(`Stock insuficiente. Stock disponible: ${availableStock}`);
+      alert(`Stock insuficiente. Stock disponible: ${formatQuantity(availableStock, selectedProduct.unit)}`);
       return;
     }
 
     const existingItem = cart.find(item => item.productId === selectedProductId);
     if (existingItem) {
-      const newQuantity = existingItem.quantity + quantity;
+      const newQuantity = roundQuantity(existingItem.quantity + quantity);
       if (newQuantity > availableStock) {
-        alert(`Stock insuficiente. Stock disponible: ${availableStock}`);
+        alert(`Stock insuficiente. Stock disponible: ${formatQuantity(availableStock, selectedProduct.unit)}`);
         return;
       }
       setCart(cart.map(item => 
@@ -123,21 +275,22 @@ const POS = () => {
           ? {
               ...item,
               quantity: newQuantity,
-              subtotal: newQuantity * Number(item.unitPrice || selectedProduct.price)
+              subtotal: newQuantity * Number(item.unitPrice || getUnitPrice(selectedProduct))
             }
           : item
       ));
     } else {
-      const unitPrice = Number(selectedProduct.price);
+      const unitPrice = getUnitPrice(selectedProduct);
       const newItem: CartItem = {
         id: Date.now().toString(),
         productId: selectedProductId,
         productName: selectedProduct.name,
+        unit: selectedProduct.unit,
         quantity: quantity,
         stock: availableStock,
         description: selectedProduct.name,
         unitPrice: unitPrice,
-        taxRate: 0,
+        taxRate: TAX_CATEGORY_RATES[selectedProduct.taxCategory] ?? 0,
         subtotal: quantity * unitPrice
       };
       setCart([...cart, newItem]);
@@ -148,6 +301,75 @@ const POS = () => {
     setSearchQuery('');
   };
 
+  // Lectura con escáner: agrega una unidad del producto al carrito (o suma una si ya está)
+  const handleScan = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const code = scanCode.trim();
+    if (!code) {
+      return;
+    }
+    setScanCode('');
+
+    try {
+      const product = await lookupProductByCode(code, saleLocationId || undefined);
+      if (!product.isActive) {
+        setScanMessage({ text: `${product.name} está inactivo`, isError: true });
+        return;
+      }
+
+      const stock = Number(product.stock);
+      if (stock <= 0) {
+        setScanMessage({ text: `${product.name} no tiene stock disponible`, isError: true });
+        return;
+      }
+
+      // Los productos por peso o medida se seleccionan para digitar la cantidad
+      if (UNIT_OF_MEASURE_FRACTIONAL[product.unit]) {
+        setActiveCategoryId('');
+        setSearchQuery('');
+        setSelectedProductId(product.id);
+        setQuantity(1);
+        setScanMessage({ text: `${product.name}: ingresa la cantidad en ${UNIT_OF_MEASURE_SYMBOLS[product.unit]}`, isError: false });
+        return;
+      }
+
+      const inCart = cart.find(item => item.productId === product.id)?.quantity ?? 0;
+      if (inCart + 1 > stock) {
+        setScanMessage({ text: `Stock insuficiente de ${product.name}. Stock disponible: ${formatQuantity(stock, product.unit)}`, isError: true });
+        return;
+      }
+
+      const unitPrice = getUnitPrice(product);
+      setCart(prev => {
+        const existingItem = prev.find(item => item.productId === product.id);
+        if (existingItem) {
+          return prev.map(item =>
+            item.id === existingItem.id
+              ? { ...item, quantity: item.quantity + 1, stock, subtotal: (item.quantity + 1) * Number(item.unitPrice) }
+              : item
+          );
+        }
+        return [...prev, {
+          id: Date.now().toString(),
+          productId: product.id,
+          productName: product.name,
+          unit: product.unit,
+          quantity: 1,
+          stock,
+          description: product.name,
+          unitPrice,
+          taxRate: TAX_CATEGORY_RATES[product.taxCategory] ?? 0,
+          subtotal: unitPrice
+        }];
+      });
+      setScanMessage({ text: `${product.name} agregado (${inCart + 1})`, isError: false });
+    } catch (err) {
+      const message = (err as AxiosError<{ message?: string }>)?.response?.data?.message;
+      setScanMessage({ text: message || 'No fue posible leer el código. Intenta nuevamente.', isError: true });
+      console.error('Error al buscar el código escaneado:', err);
+    }
+  };
+
   const handleRemoveFromCart = (id: string) => {
     setCart(cart.filter(item => item.id !== id));
   };
@@ -157,8 +379,11 @@ const POS = () => {
     
     setCart(cart.map(item => {
       if (item.id === id) {
+        if (!UNIT_OF_MEASURE_FRACTIONAL[item.unit] && !Number.isInteger(newQuantity)) {
+          return item;
+        }
         const maxQuantity = item.stock;
-        const finalQuantity = Math.min(newQuantity, maxQuantity);
+        const finalQuantity = Math.min(roundQuantity(newQuantity), maxQuantity);
         return {
           ...item,
           quantity: finalQuantity,
@@ -263,25 +488,40 @@ const POS = () => {
       return;
     }
 
+    if (isCreditSale && !creditClientId) {
+      alert('Selecciona el cliente al que se le fía la venta.');
+      return;
+    }
+
+    await submitSale(false);
+  };
+
+  const submitSale = async (overrideCreditLimit: boolean) => {
     setIsSubmitting(true);
     setWarnings([]);
     setShowWarnings(false);
 
     try {
       const payload: CreateInvoicePayload = {
-        number: invoiceNumber,
         items: cart.map(item => ({
           productId: item.productId,
           quantity: item.quantity,
           description: item.description,
-          unitPrice: item.unitPrice,
           taxRate: item.taxRate
         })),
+        // El precio unitario lo resuelve el servidor con la lista de precios y las promociones vigentes
+        priceListId: priceListId || undefined,
+        discountType: discountType && discountValue ? discountType : undefined,
+        discountValue: discountType && discountValue ? Number(discountValue) : undefined,
         issueDate: new Date().toISOString().split('T')[0],
         status: 'ISSUED',
-        paymentMethod: 'CASH',
+        paymentMethod: isCreditSale ? 'CREDIT' : 'CASH',
+        clientId: isCreditSale ? creditClientId : undefined,
+        dueDate: isCreditSale ? creditDueDate : undefined,
+        isCreditSale: isCreditSale,
         currency: 'COP',
-        applyIva: applyIva
+        overrideCreditLimit: overrideCreditLimit,
+        cashRegisterId: cashRegisterId
       };
 
       const result = await createInvoice(payload);
@@ -290,34 +530,82 @@ const POS = () => {
         setWarnings(result.warnings);
         setShowWarnings(true);
       } else {
-        alert('¡Venta realizada exitosamente!');
+        alert(`¡Venta realizada exitosamente! Factura ${result.invoice.number}`);
       }
 
       setCart([]);
-      setInvoiceNumber(`INV-${Date.now().toString().slice(-6)}`);
+      setIsCreditSale(false);
+      setCreditClientId('');
+      setDiscountType('');
+      setDiscountValue('');
+      if (priceListId !== defaultPriceListId) {
+        void applyPriceList(defaultPriceListId);
+      }
     } catch (err: any) {
       const errorMessage = err?.response?.data?.message || 'No fue posible realizar la venta. Intenta nuevamente.';
-      alert(errorMessage);
       console.error(err);
+      // Un administrador puede autorizar la venta aunque supere el cupo del cliente
+      if (
+        isUserAdmin &&
+        !overrideCreditLimit &&
+        errorMessage.includes('Cupo de crédito excedido') &&
+        window.confirm(`${errorMessage}\n\n¿Autorizar la venta a crédito por encima del cupo?`)
+      ) {
+        await submitSale(true);
+        return;
+      }
+      alert(errorMessage);
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const IVA_RATE = 0.19;
-
+  // Con la cotización del servidor el subtotal es antes de descuentos; sin ella, el del carrito
   const calculateSubtotal = () => {
+    if (quote) {
+      return quote.subtotal + quote.discountTotal;
+    }
     return cart.reduce((sum, item) => sum + item.subtotal, 0);
   };
 
-  const calculateImpuesto = () => {
-    if (applyIva) {
-      return calculateSubtotal() * IVA_RATE;
+  const calculateDiscount = () => quote?.discountTotal ?? 0;
+
+  // Línea cotizada de un item del carrito (misma posición y producto)
+  const getQuotedLine = (index: number, productId: string) => {
+    const line = quote?.items[index];
+    return line && line.productId === productId ? line : null;
+  };
+
+  // IVA agrupado por tarifa: cada producto aplica la tarifa de su categoría tributaria sobre la base descontada
+  const calculateTaxBreakdown = () => {
+    const byRate: { [rate: number]: number } = {};
+    if (quote) {
+      quote.items.forEach((line) => {
+        if (line.taxRate > 0) {
+          byRate[line.taxRate] = (byRate[line.taxRate] || 0) + line.taxAmount;
+        }
+      });
+    } else {
+      cart.forEach((item) => {
+        const rate = Number(item.taxRate) || 0;
+        if (rate > 0) {
+          byRate[rate] = (byRate[rate] || 0) + item.subtotal * rate / 100;
+        }
+      });
     }
-    return 0;
+    return Object.entries(byRate)
+      .map(([rate, amount]) => ({ rate: Number(rate), amount }))
+      .sort((a, b) => b.rate - a.rate);
+  };
+
+  const calculateImpuesto = () => {
+    return calculateTaxBreakdown().reduce((sum, entry) => sum + entry.amount, 0);
   };
 
   const calculateTotal = () => {
+    if (quote) {
+      return quote.total;
+    }
     const subtotal = calculateSubtotal();
     const impuesto = calculateImpuesto();
     return subtotal + impuesto;
@@ -374,6 +662,16 @@ const POS = () => {
           </div>
 
           <div className="flex items-center gap-3">
+            <Link
+              to="/inventory-count"
+              className="bg-gray-100 hover:bg-gray-200 text-text-dark font-semibold py-2.5 px-5 rounded-2xl flex items-center gap-2 transition-all duration-200"
+              title="Registrar conteo de inventario"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+              </svg>
+              <span>Conteo</span>
+            </Link>
             {!isUserAdmin && (
               <button
                 type="button"
@@ -490,6 +788,27 @@ const POS = () => {
               Productos
             </h3>
 
+            <form onSubmit={handleScan} className="mb-4">
+              <label htmlFor="scanCode" className="block mb-2 font-medium text-text-dark">
+                Código de barras
+              </label>
+              <input
+                id="scanCode"
+                type="text"
+                value={scanCode}
+                onChange={(e) => setScanCode(e.target.value)}
+                placeholder="Escanea o digita el código y presiona Enter"
+                autoFocus
+                autoComplete="off"
+                className="w-full border-2 border-gray-200 rounded-2xl px-4 py-3 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              />
+              {scanMessage && (
+                <p className={`mt-2 text-sm font-medium ${scanMessage.isError ? 'text-danger-red' : 'text-secondary-green'}`}>
+                  {scanMessage.text}
+                </p>
+              )}
+            </form>
+
             <div className="mb-4">
               <input
                 type="text"
@@ -500,6 +819,25 @@ const POS = () => {
               />
             </div>
 
+            {categoryTabs.length > 0 && (
+              <div className="mb-4 flex flex-wrap gap-2">
+                {[{ id: '', name: 'Todas' }, ...categoryTabs].map((category) => (
+                  <button
+                    key={category.id || 'all'}
+                    type="button"
+                    onClick={() => setActiveCategoryId(category.id)}
+                    className={`px-4 py-2 rounded-2xl text-sm font-semibold transition-all duration-200 active:scale-[0.98] ${
+                      activeCategoryId === category.id
+                        ? 'bg-primary-purple text-white shadow-md'
+                        : 'bg-gray-100 text-text-dark hover:bg-gray-200'
+                    }`}
+                  >
+                    {category.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
             <div className="space-y-4">
               <div>
                 <label htmlFor="product" className="block mb-2 font-medium text-text-dark">
@@ -514,25 +852,27 @@ const POS = () => {
                   <option value="">Seleccionar producto</option>
                   {filteredProducts.map((product) => (
                     <option key={product.id} value={product.id}>
-                      {product.name} - Stock: {product.stock} - {formatCurrency(Number(product.price))}
+                      {product.name} - Stock: {formatQuantity(product.stock, product.unit)} - {formatCurrency(getUnitPrice(product))}
                     </option>
                   ))}
                 </select>
                 {selectedProduct && (
                   <p className="mt-2 text-sm text-text-light bg-purple-50 rounded p-2">
-                    <span className="font-semibold">Stock disponible:</span> {availableStock} unidades
+                    <span className="font-semibold">Stock disponible:</span> {formatQuantity(availableStock, selectedProduct.unit)}
+                    {saleLocationName && ` en ${saleLocationName}`}
                   </p>
                 )}
               </div>
 
               <div>
                 <label htmlFor="quantity" className="block mb-2 font-medium text-text-dark">
-                  Cantidad *
+                  Cantidad {selectedProduct && `(${UNIT_OF_MEASURE_SYMBOLS[selectedProduct.unit]})`} *
                 </label>
                 <input
                   id="quantity"
                   type="number"
-                  min="1"
+                  step={getQuantityStep(selectedProduct?.unit)}
+                  min={getQuantityStep(selectedProduct?.unit)}
                   max={availableStock}
                   value={quantity}
                   onChange={(e) => setQuantity(Number(e.target.value))}
@@ -583,13 +923,13 @@ const POS = () => {
               </div>
             ) : (
               <div className="space-y-3 max-h-[500px] overflow-y-auto pr-2">
-                {cart.map((item) => (
+                {cart.map((item, index) => (
                   <div key={item.id} className="bg-gray-50 rounded-2xl p-5 border-2 border-gray-200 hover:border-blue-300 transition-colors">
                     <div className="flex items-start justify-between">
                       <div className="flex-1">
                         <h4 className="font-bold text-text-dark text-base">{item.productName}</h4>
                         <p className="text-sm text-text-light mt-1">
-                          {formatCurrency(Number(item.unitPrice || 0))} c/u
+                          {formatCurrency(Number(item.unitPrice || 0))} / {UNIT_OF_MEASURE_SYMBOLS[item.unit]}
                         </p>
                       </div>
                       <button
@@ -614,11 +954,12 @@ const POS = () => {
                         </button>
                         <input
                           type="number"
-                          min="1"
+                          step={getQuantityStep(item.unit)}
+                          min={getQuantityStep(item.unit)}
                           max={item.stock}
                           value={item.quantity}
                           onChange={(e) => handleQuantityChange(item.id, Number(e.target.value))}
-                          className="w-16 text-center border-2 border-gray-300 rounded-lg p-1 font-bold text-base"
+                          className="w-20 text-center border-2 border-gray-300 rounded-lg p-1 font-bold text-base"
                         />
                         <button
                           type="button"
@@ -633,6 +974,11 @@ const POS = () => {
                         <p className="font-bold text-text-dark text-lg">
                           {formatCurrency(item.subtotal)}
                         </p>
+                        {getQuotedLine(index, item.productId)?.promotion && (
+                          <p className="text-xs font-semibold text-secondary-green">
+                            {getQuotedLine(index, item.productId)?.promotion?.name}: -{formatCurrency(getQuotedLine(index, item.productId)?.discountAmount ?? 0)}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -655,59 +1001,137 @@ const POS = () => {
                   <span className="text-text-light">Subtotal:</span>
                   <span className="font-semibold text-text-dark">{formatCurrency(calculateSubtotal())}</span>
                 </div>
-                {applyIva && (
+                {calculateDiscount() > 0 && (
                   <div className="flex justify-between text-base">
-                    <span className="text-text-light">Impuesto (19%):</span>
-                    <span className="font-semibold text-primary-purple">{formatCurrency(calculateImpuesto())}</span>
+                    <span className="text-text-light">Descuentos:</span>
+                    <span className="font-semibold text-secondary-green">-{formatCurrency(calculateDiscount())}</span>
                   </div>
                 )}
+                {calculateTaxBreakdown().map((entry) => (
+                  <div key={entry.rate} className="flex justify-between text-base">
+                    <span className="text-text-light">IVA ({entry.rate}%):</span>
+                    <span className="font-semibold text-primary-purple">{formatCurrency(entry.amount)}</span>
+                  </div>
+                ))}
                 <div className="border-t-2 border-gray-300 pt-3 flex justify-between text-2xl font-bold">
                   <span className="text-text-dark">Total:</span>
                   <span className="text-primary-purple">{formatCurrency(calculateTotal())}</span>
                 </div>
               </div>
 
-              <div className="bg-purple-50 border-2 border-purple-200 rounded-lg p-4">
+              {canApplyDiscount && (
+                <div>
+                  <label htmlFor="discountType" className="block mb-2 font-medium text-text-dark">
+                    Descuento de la factura
+                  </label>
+                  <div className="flex gap-2">
+                    <select
+                      id="discountType"
+                      value={discountType}
+                      onChange={(e) => setDiscountType(e.target.value as DiscountType | '')}
+                      className="w-1/2 border-2 border-gray-200 rounded-2xl p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base transition-all"
+                    >
+                      <option value="">Sin descuento</option>
+                      <option value="PERCENTAGE">Porcentaje (%)</option>
+                      <option value="FIXED">Valor fijo ($)</option>
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={discountValue}
+                      onChange={(e) => setDiscountValue(e.target.value)}
+                      disabled={!discountType}
+                      className="w-1/2 border-2 border-gray-200 rounded-2xl p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base transition-all disabled:bg-gray-100"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {priceLists.length > 0 && (
+                <div>
+                  <label htmlFor="priceList" className="block mb-2 font-medium text-text-dark">
+                    Lista de precios
+                  </label>
+                  <select
+                    id="priceList"
+                    value={priceListId}
+                    onChange={(e) => void applyPriceList(e.target.value)}
+                    className="w-full border-2 border-gray-200 rounded-2xl p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base transition-all"
+                  >
+                    {!defaultPriceListId && <option value="">Precio de venta</option>}
+                    {priceLists.map(list => (
+                      <option key={list.id} value={list.id}>
+                        {list.name}{list.isDefault ? ' (por defecto)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="bg-orange-50 border-2 border-orange-200 rounded-lg p-4 space-y-3">
                 <label className="flex items-center justify-between cursor-pointer">
                   <div className="flex items-center gap-3">
-                    <svg className="w-6 h-6 text-primary-purple" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                    <svg className="w-6 h-6 text-accent-orange" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
                     </svg>
                     <div>
-                      <span className="text-base font-semibold text-text-dark">Aplicar Impuesto (19%)</span>
-                      <p className="text-xs text-text-light">IVA - Impuesto al Valor Agregado</p>
+                      <span className="text-base font-semibold text-text-dark">Venta a crédito (fiado)</span>
+                      <p className="text-xs text-text-light">Se carga a la deuda del cliente</p>
                     </div>
                   </div>
                   <button
                     type="button"
-                    onClick={() => setApplyIva(!applyIva)}
-                    className={`relative inline-flex h-7 w-14 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-primary-purple focus:ring-offset-2 ${
-                      applyIva ? 'bg-primary-purple' : 'bg-gray-300'
+                    onClick={handleToggleCreditSale}
+                    className={`relative inline-flex h-7 w-14 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-accent-orange focus:ring-offset-2 ${
+                      isCreditSale ? 'bg-accent-orange' : 'bg-gray-300'
                     }`}
                   >
                     <span
                       className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform ${
-                        applyIva ? 'translate-x-8' : 'translate-x-1'
+                        isCreditSale ? 'translate-x-8' : 'translate-x-1'
                       }`}
                     />
                   </button>
                 </label>
+                {isCreditSale && (
+                  <div>
+                    <select
+                      value={creditClientId}
+                      onChange={(e) => handleCreditClientChange(e.target.value)}
+                      className="w-full border-2 border-gray-200 rounded-2xl p-3 focus:outline-none focus:ring-2 focus:ring-accent-orange focus:border-transparent text-base"
+                    >
+                      <option value="">Selecciona un cliente con crédito</option>
+                      {creditClients.map(client => (
+                        <option key={client.id} value={client.id}>
+                          {client.businessName}
+                        </option>
+                      ))}
+                    </select>
+                    <label htmlFor="creditDueDate" className="block mt-3 mb-1 text-sm font-medium text-text-dark">
+                      Fecha límite de pago
+                    </label>
+                    <input
+                      id="creditDueDate"
+                      type="date"
+                      value={creditDueDate}
+                      onChange={(e) => setCreditDueDate(e.target.value)}
+                      className="w-full border-2 border-gray-200 rounded-2xl p-3 focus:outline-none focus:ring-2 focus:ring-accent-orange focus:border-transparent text-base"
+                    />
+                    {selectedCreditClient && (
+                      <p className="text-xs text-text-light mt-2">
+                        Deuda actual: {formatCurrency(Number(selectedCreditClient.currentDebt))} · Cupo disponible:{' '}
+                        {formatCurrency(Number(selectedCreditClient.creditLimit) - Number(selectedCreditClient.currentDebt))}
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
 
               <form onSubmit={handleFinalizeSale} className="space-y-4">
-                <div>
-                  <label htmlFor="invoiceNumber" className="block mb-2 font-medium text-text-dark">
-                    Número de Factura
-                  </label>
-                  <input
-                    id="invoiceNumber"
-                    type="text"
-                    value={invoiceNumber}
-                    onChange={(e) => setInvoiceNumber(e.target.value)}
-                    required
-                    className="w-full border-2 border-gray-200 rounded-2xl p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base transition-all"
-                  />
-                </div>
+                <p className="text-sm text-text-light">
+                  El número de factura se asigna automáticamente al finalizar la venta
+                </p>
                 <button
                   type="submit"
                   disabled={isSubmitting || cart.length === 0}
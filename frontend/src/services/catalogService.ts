@@ -0,0 +1,87 @@
+import apiClient from '../api/axios';
+
+// Categoría de productos; parentId arma el árbol y path es la ruta completa ("Bebidas > Gaseosas")
+export interface ProductCategory {
+  id: string;
+  tenantId: string;
+  parentId?: string | null;
+  name: string;
+  path: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  _count?: { products: number; children: number };
+}
+
+export interface Brand {
+  id: string;
+  tenantId: string;
+  name: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  _count?: { products: number };
+}
+
+export interface CategoryPayload {
+  name?: string;
+  parentId?: string | null;
+  isActive?: boolean;
+}
+
+export interface BrandPayload {
+  name?: string;
+  isActive?: boolean;
+}
+
+// IDs de una categoría y todas sus subcategorías, para filtrar productos por rama del árbol
+export const getCategoryBranchIds = (categories: ProductCategory[], categoryId: string) => {
+  const ids = new Set([categoryId]);
+  let pending = [categoryId];
+  while (pending.length > 0) {
+    const children = categories
+      .filter((category) => category.parentId && pending.includes(category.parentId) && !ids.has(category.id))
+      .map((category) => category.id);
+    children.forEach((id) => ids.add(id));
+    pending = children;
+  }
+  return ids;
+};
+
+export const getCategories = async (params?: { includeInactive?: boolean }) => {
+  const response = await apiClient.get<ProductCategory[]>('/categories', { params });
+  return response.data;
+};
+
+export const createCategory = async (data: CategoryPayload) => {
+  const response = await apiClient.post<ProductCategory>('/categories', data);
+  return response.data;
+};
+
+export const updateCategory = async (id: string, data: CategoryPayload) => {
+  const response = await apiClient.put<ProductCategory>(`/categories/${id}`, data);
+  return response.data;
+};
+
+export const deleteCategory = async (id: string) => {
+  await apiClient.delete(`/categories/${id}`);
+};
+
+export const getBrands = async (params?: { includeInactive?: boolean }) => {
+  const response = await apiClient.get<Brand[]>('/brands', { params });
+  return response.data;
+};
+
+export const createBrand = async (data: BrandPayload) => {
+  const response = await apiClient.post<Brand>('/brands', data);
+  return response.data;
+};
+
+export const updateBrand = async (id: string, data: BrandPayload) => {
+  const response = await apiClient.put<Brand>(`/brands/${id}`, data);
+  return response.data;
+};
+
+export const deleteBrand = async (id: string) => {
+  await apiClient.delete(`/brands/${id}`);
+};
@@ -14,6 +14,8 @@ export interface Client {
   hasCredit: boolean;
   creditLimit: string;
   currentDebt: string;
+  priceListId?: string | null;
+  priceList?: { id: string; name: string } | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -32,6 +34,7 @@ export interface CreateClientPayload {
   hasCredit?: boolean;
   creditLimit?: string;
   currentDebt?: string;
+  priceListId?: string | null;
   isActive?: boolean;
 }
 
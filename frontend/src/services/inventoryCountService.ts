@@ -0,0 +1,97 @@
+import apiClient from '../api/axios';
+import type { UnitOfMeasure } from './productService';
+
+export type InventoryCountStatus = 'OPEN' | 'POSTED' | 'CANCELLED';
+
+// SET reemplaza lo contado; ADD suma (cada lectura del escáner agrega unidades)
+export type CountMode = 'SET' | 'ADD';
+
+export interface InventoryCount {
+  id: string;
+  tenantId: string;
+  number: string;
+  status: InventoryCountStatus;
+  locationId?: string | null;
+  notes?: string | null;
+  openedById?: string | null;
+  openedAt: string;
+  postedById?: string | null;
+  postedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  location?: { id: string; name: string } | null;
+  openedBy?: { id: string; fullName: string } | null;
+  postedBy?: { id: string; fullName: string } | null;
+  _count?: { items: number };
+}
+
+// Producto contado con su diferencia contra el stock del sistema y su valor al costo
+export interface InventoryCountItem {
+  id: string;
+  countId: string;
+  productId: string;
+  countedQuantity: number;
+  expectedStock: number;
+  unitCost: number | string;
+  variance: number;
+  varianceCost: number;
+  countedById?: string | null;
+  product: { id: string; name: string; sku?: string | null; stock: number | string; unit: UnitOfMeasure; cost: number | string };
+  countedBy?: { id: string; fullName: string } | null;
+}
+
+export interface InventoryCountSummary {
+  itemCount: number;
+  shortageUnits: number;
+  surplusUnits: number;
+  shortageCost: number;
+  surplusCost: number;
+  netVarianceCost: number;
+}
+
+export interface InventoryCountDetail extends InventoryCount {
+  items: InventoryCountItem[];
+  summary: InventoryCountSummary;
+}
+
+export interface RecordCountPayload {
+  productId?: string;
+  sku?: string;
+  quantity: number;
+  mode: CountMode;
+}
+
+export const getInventoryCounts = async (params?: { status?: InventoryCountStatus; locationId?: string }) => {
+  const response = await apiClient.get<InventoryCount[]>('/inventory-counts', { params });
+  return response.data;
+};
+
+export const getInventoryCountById = async (id: string) => {
+  const response = await apiClient.get<InventoryCountDetail>(`/inventory-counts/${id}`);
+  return response.data;
+};
+
+// Sin locationId se cuenta la bodega por defecto
+export const openInventoryCount = async (data: { locationId?: string | null; notes?: string | null }) => {
+  const response = await apiClient.post<InventoryCount>('/inventory-counts', data);
+  return response.data;
+};
+
+export const recordCount = async (id: string, data: RecordCountPayload) => {
+  const response = await apiClient.put<InventoryCountItem>(`/inventory-counts/${id}/items`, data);
+  return response.data;
+};
+
+export const removeCountItem = async (id: string, itemId: string) => {
+  await apiClient.delete(`/inventory-counts/${id}/items/${itemId}`);
+};
+
+export const postInventoryCount = async (id: string) => {
+  const response = await apiClient.post<InventoryCountDetail>(`/inventory-counts/${id}/post`);
+  return response.data;
+};
+
+export const cancelInventoryCount = async (id: string) => {
+  const response = await apiClient.post<InventoryCount>(`/inventory-counts/${id}/cancel`);
+  return response.data;
+};
@@ -1,4 +1,22 @@
 import apiClient from '../api/axios';
+import type { TaxCategory } from '../types';
+
+// Documento electrónico DIAN (UBL 2.1) generado al emitir la factura
+export interface ElectronicDocumentSummary {
+  id: string;
+  cufe: string;
+  status: 'PENDING' | 'SENT' | 'ACCEPTED' | 'REJECTED' | 'ERROR';
+  responseMessage?: string | null;
+  submittedAt?: string | null;
+}
+
+// Base gravable e IVA de una tarifa de la factura
+export interface TaxBreakdownEntry {
+  taxCategory: TaxCategory;
+  rate: number;
+  taxableBase: number;
+  taxAmount: number;
+}
 
 export interface Invoice {
   id: string;
@@ -10,15 +28,19 @@ export interface Invoice {
   dueDate?: string | null;
   paymentMethod: 'CASH' | 'CREDIT' | 'TRANSFER';
   currency: string;
-  subtotal: number;
+  subtotal: number; // Base gravable: ya descuenta promociones y descuentos
+  discountTotal: number;
   taxTotal: number;
   total: number;
   totalPaid: number;
+  totalCredited: number;
   isCreditSale: boolean;
   notes?: string | null;
   createdById?: string | null;
   createdAt: string;
   updatedAt: string;
+  electronicDocument?: ElectronicDocumentSummary | null;
+  taxBreakdown?: TaxBreakdownEntry[];
 }
 
 // Interfaz para datos de factura (armonizada)
@@ -34,20 +56,51 @@ export interface InvoiceItem {
   quantity: number;
   description?: string;
   unitPrice?: number;
-  taxRate?: number;
+  taxRate?: number; // Tarifa de IVA (%); por defecto la de la categoría tributaria del producto
+  discountType?: DiscountType; // Descuento manual de la línea (solo ADMIN y MANAGER)
+  discountValue?: number;
 }
 
+export type DiscountType = 'PERCENTAGE' | 'FIXED';
+
+// El número de factura lo asigna el servidor al emitirla
 export interface CreateInvoicePayload {
   clientId?: string;
-  number: string;
   items: InvoiceItem[];
   issueDate?: string;
-  status?: 'DRAFT' | 'ISSUED' | 'PAID' | 'CANCELLED';
+  dueDate?: string;
+  status?: 'DRAFT' | 'ISSUED'; // La factura queda pagada al registrar su pago
   paymentMethod?: 'CASH' | 'CREDIT' | 'TRANSFER';
   currency?: string;
   isCreditSale?: boolean;
   notes?: string;
-  applyIva?: boolean; // Aplicar IVA del 19% si está activo
+  overrideCreditLimit?: boolean; // Solo ADMIN: autoriza vender a crédito por encima del cupo
+  cashRegisterId?: number; // La venta descuenta de la bodega asignada a la caja
+  locationId?: string; // Bodega explícita; tiene prioridad sobre la de la caja
+  priceListId?: string; // Lista de precios; por defecto la del cliente o la lista por defecto
+  discountType?: DiscountType; // Descuento general de la factura (solo ADMIN y MANAGER)
+  discountValue?: number;
+}
+
+// Precio, promociones, descuentos e IVA que cobrará la venta, calculados por el servidor
+export interface InvoiceQuote {
+  priceList: { id: string; name: string } | null;
+  items: Array<{
+    productId: string;
+    productName: string;
+    quantity: number;
+    unitPrice: number;
+    discountAmount: number;
+    promotion: { id: string; name: string } | null;
+    subtotal: number;
+    taxRate: number;
+    taxAmount: number;
+    totalAmount: number;
+  }>;
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  total: number;
 }
 
 export interface CreateInvoiceResponse {
@@ -57,6 +110,55 @@ export interface CreateInvoiceResponse {
 
 export type UpdateInvoicePayload = Partial<CreateInvoicePayload>;
 
+export interface CreditNoteItem {
+  id: string;
+  invoiceItemId: string;
+  productId?: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  taxRateApplied: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+// Nota crédito: reverso total o parcial de una factura emitida
+export interface CreditNote {
+  id: string;
+  tenantId: string;
+  invoiceId: string;
+  number: string;
+  reason: string;
+  issueDate: string;
+  subtotal: number;
+  taxTotal: number;
+  total: number;
+  createdById?: string | null;
+  createdAt: string;
+  items: CreditNoteItem[];
+}
+
+export interface InvoiceBalance {
+  id: string;
+  number: string;
+  status: Invoice['status'];
+  total: number;
+  totalPaid: number;
+  totalCredited: number;
+  balance?: number;
+}
+
+// Sin items, la nota acredita todo lo pendiente de la factura
+export interface CreateCreditNotePayload {
+  reason: string;
+  items?: Array<{ invoiceItemId: string; quantity: number }>;
+}
+
+export interface CreditNoteResponse {
+  creditNote: CreditNote | null;
+  invoice: InvoiceBalance;
+}
+
 export const getInvoices = async () => {
   const response = await apiClient.get<Invoice[]>('/invoices');
   return response.data;
@@ -67,6 +169,12 @@ export const createInvoice = async (data: CreateInvoicePayload) => {
   return response.data;
 };
 
+// Cotiza la venta sin guardarla (el POS muestra las promociones y el total a cobrar)
+export const quoteInvoice = async (data: Pick<CreateInvoicePayload, 'clientId' | 'items' | 'priceListId' | 'discountType' | 'discountValue'>) => {
+  const response = await apiClient.post<InvoiceQuote>('/invoices/quote', data);
+  return response.data;
+};
+
 export const updateInvoice = async (id: string, data: UpdateInvoicePayload) => {
   const response = await apiClient.put<Invoice>(`/invoices/${id}`, data);
   return response.data;
@@ -76,3 +184,26 @@ export const deleteInvoice = async (id: string) => {
   await apiClient.delete(`/invoices/${id}`);
 };
 
+// Anula la factura: los borradores solo devuelven inventario, las emitidas se reversan con nota crédito
+export const cancelInvoice = async (id: string, reason: string) => {
+  const response = await apiClient.post<CreditNoteResponse>(`/invoices/${id}/cancel`, { reason });
+  return response.data;
+};
+
+export const createCreditNote = async (id: string, data: CreateCreditNotePayload) => {
+  const response = await apiClient.post<CreditNoteResponse>(`/invoices/${id}/credit-notes`, data);
+  return response.data;
+};
+
+export const getInvoiceCreditNotes = async (id: string) => {
+  const response = await apiClient.get<{ invoice: InvoiceBalance; creditNotes: CreditNote[] }>(
+    `/invoices/${id}/credit-notes`
+  );
+  return response.data;
+};
+
+// Descarga el XML UBL 2.1 de la factura electrónica
+export const downloadInvoiceXml = async (id: string) => {
+  const response = await apiClient.get<Blob>(`/invoices/${id}/xml`, { responseType: 'blob' });
+  return response.data;
+};
@@ -0,0 +1,101 @@
+import apiClient from '../api/axios';
+import type { UnitOfMeasure } from './productService';
+
+// Bodega: el stock de cada producto se lleva por bodega
+export interface Location {
+  id: string;
+  tenantId: string;
+  name: string;
+  address?: string | null;
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  cashRegisters?: Array<{ id: number; name: string }>;
+}
+
+export interface LocationPayload {
+  name?: string;
+  address?: string | null;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+// Caja del POS con la bodega de la que descuentan sus ventas (sin bodega usa la bodega por defecto)
+export interface CashRegister {
+  id: number;
+  name: string;
+  isActive: boolean;
+  locationId?: string | null;
+  location?: { id: string; name: string } | null;
+}
+
+export interface StockTransferItem {
+  id: string;
+  productId: string;
+  quantity: number | string;
+  product?: { id: string; name: string; sku?: string | null; unit: UnitOfMeasure };
+}
+
+export interface StockTransfer {
+  id: string;
+  tenantId: string;
+  number: string;
+  fromLocationId: string;
+  toLocationId: string;
+  notes?: string | null;
+  createdAt: string;
+  fromLocation: { id: string; name: string };
+  toLocation: { id: string; name: string };
+  createdBy?: { id: string; fullName: string } | null;
+  items?: StockTransferItem[];
+  _count?: { items: number };
+}
+
+export interface CreateStockTransferPayload {
+  fromLocationId: string;
+  toLocationId: string;
+  notes?: string | null;
+  items: Array<{ productId: string; quantity: number }>;
+}
+
+export const getLocations = async (params?: { includeInactive?: boolean }) => {
+  const response = await apiClient.get<Location[]>('/locations', { params });
+  return response.data;
+};
+
+export const createLocation = async (data: LocationPayload) => {
+  const response = await apiClient.post<Location>('/locations', data);
+  return response.data;
+};
+
+export const updateLocation = async (id: string, data: LocationPayload) => {
+  const response = await apiClient.put<Location>(`/locations/${id}`, data);
+  return response.data;
+};
+
+export const getCashRegisters = async () => {
+  const response = await apiClient.get<CashRegister[]>('/locations/cash-registers');
+  return response.data;
+};
+
+// locationId null vuelve a la bodega por defecto
+export const assignCashRegisterLocation = async (cashRegisterId: number, locationId: string | null) => {
+  const response = await apiClient.put<CashRegister>(`/locations/cash-registers/${cashRegisterId}`, { locationId });
+  return response.data;
+};
+
+export const getStockTransfers = async (params?: { locationId?: string }) => {
+  const response = await apiClient.get<StockTransfer[]>('/stock-transfers', { params });
+  return response.data;
+};
+
+export const getStockTransferById = async (id: string) => {
+  const response = await apiClient.get<StockTransfer>(`/stock-transfers/${id}`);
+  return response.data;
+};
+
+export const createStockTransfer = async (data: CreateStockTransferPayload) => {
+  const response = await apiClient.post<StockTransfer>('/stock-transfers', data);
+  return response.data;
+};
@@ -0,0 +1,42 @@
+import apiClient from '../api/axios';
+import type { UnitOfMeasure } from './productService';
+
+// Lote de un producto en una bodega; daysToExpiry es null si el lote no vence
+export interface ProductLot {
+  id: string;
+  productId: string;
+  locationId: string;
+  lotNumber: string;
+  expiryDate?: string | null;
+  quantity: number;
+  daysToExpiry: number | null;
+  isExpired: boolean;
+  createdAt: string;
+  updatedAt: string;
+  product: { id: string; name: string; sku?: string | null; unit: UnitOfMeasure };
+  location: { id: string; name: string };
+}
+
+// Asigna a un lote stock que ya está en la bodega sin lote
+export interface AssignLotPayload {
+  productId: string;
+  locationId?: string | null;
+  lotNumber: string;
+  expiryDate?: string | null; // AAAA-MM-DD
+  quantity: number;
+}
+
+export const getLots = async (params?: { productId?: string; locationId?: string; includeEmpty?: boolean }) => {
+  const response = await apiClient.get<ProductLot[]>('/lots', { params });
+  return response.data;
+};
+
+export const assignLot = async (data: AssignLotPayload) => {
+  const response = await apiClient.post<ProductLot>('/lots', data);
+  return response.data;
+};
+
+export const updateLotExpiry = async (id: string, expiryDate: string | null) => {
+  const response = await apiClient.put<ProductLot>(`/lots/${id}`, { expiryDate });
+  return response.data;
+};
@@ -0,0 +1,80 @@
+import apiClient from '../api/axios';
+
+// Base del porcentaje de la lista: precio de venta del producto o su costo
+export type PriceListBase = 'PRICE' | 'COST';
+
+export const PRICE_LIST_BASE_LABELS: Record<PriceListBase, string> = {
+  PRICE: 'Precio de venta',
+  COST: 'Costo'
+};
+
+// Lista de precios (detal, mayorista, distribuidor); percentage es el ajuste sobre la base (-10 = 10% menos)
+export interface PriceList {
+  id: string;
+  tenantId: string;
+  name: string;
+  description?: string | null;
+  base: PriceListBase;
+  percentage: number | string;
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  _count?: { items: number; clients: number };
+}
+
+// Precio fijo de un producto en la lista; tiene prioridad sobre el porcentaje
+export interface PriceListItem {
+  productId: string;
+  price: number | string;
+  product?: { name: string; sku?: string | null; price: number | string; cost: number | string };
+}
+
+export interface PriceListDetail extends PriceList {
+  items: PriceListItem[];
+}
+
+export interface PriceListPayload {
+  name?: string;
+  description?: string | null;
+  base?: PriceListBase;
+  percentage?: number;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+export const getPriceLists = async (params?: { includeInactive?: boolean }) => {
+  const response = await apiClient.get<PriceList[]>('/price-lists', { params });
+  return response.data;
+};
+
+export const getPriceList = async (id: string) => {
+  const response = await apiClient.get<PriceListDetail>(`/price-lists/${id}`);
+  return response.data;
+};
+
+// Precio de cada producto activo en la lista, tal como lo cobrará la venta
+export const getPriceListPrices = async (id: string) => {
+  const response = await apiClient.get<Array<{ productId: string; price: number }>>(`/price-lists/${id}/prices`);
+  return response.data;
+};
+
+export const createPriceList = async (data: PriceListPayload) => {
+  const response = await apiClient.post<PriceList>('/price-lists', data);
+  return response.data;
+};
+
+export const updatePriceList = async (id: string, data: PriceListPayload) => {
+  const response = await apiClient.put<PriceList>(`/price-lists/${id}`, data);
+  return response.data;
+};
+
+// Reemplaza los precios fijos de la lista
+export const setPriceListItems = async (id: string, items: Array<{ productId: string; price: number }>) => {
+  const response = await apiClient.put<PriceListDetail>(`/price-lists/${id}/items`, { items });
+  return response.data;
+};
+
+export const deletePriceList = async (id: string) => {
+  await apiClient.delete(`/price-lists/${id}`);
+};
@@ -1,8 +1,64 @@
 import apiClient from '../api/axios';
-import type { Product } from '../types';
+import type { BarcodeType, Product, ProductBarcode, TaxCategory, UnitOfMeasure } from '../types';
 
 // Re-exportar Product para compatibilidad con imports existentes
-export type { Product };
+export type { BarcodeType, Product, ProductBarcode, TaxCategory, UnitOfMeasure };
+
+// Tarifa de IVA (%) de cada categoría tributaria
+export const TAX_CATEGORY_RATES: Record<TaxCategory, number> = {
+  STANDARD: 19,
+  REDUCED: 5,
+  EXEMPT: 0,
+  EXCLUDED: 0
+};
+
+export const TAX_CATEGORY_LABELS: Record<TaxCategory, string> = {
+  STANDARD: 'IVA 19%',
+  REDUCED: 'IVA 5%',
+  EXEMPT: 'Exento',
+  EXCLUDED: 'Excluido'
+};
+
+export const UNIT_OF_MEASURE_LABELS: Record<UnitOfMeasure, string> = {
+  UNIT: 'Unidad',
+  KG: 'Kilogramo (kg)',
+  G: 'Gramo (g)',
+  L: 'Litro (L)',
+  M: 'Metro (m)',
+  BOX: 'Caja'
+};
+
+// Abreviatura que acompaña a las cantidades
+export const UNIT_OF_MEASURE_SYMBOLS: Record<UnitOfMeasure, string> = {
+  UNIT: 'und',
+  KG: 'kg',
+  G: 'g',
+  L: 'L',
+  M: 'm',
+  BOX: 'caja'
+};
+
+// Unidades que admiten cantidades fraccionadas (hasta 4 decimales)
+export const UNIT_OF_MEASURE_FRACTIONAL: Record<UnitOfMeasure, boolean> = {
+  UNIT: false,
+  KG: true,
+  G: true,
+  L: true,
+  M: true,
+  BOX: false
+};
+
+// Paso del campo de cantidad según la unidad
+export const getQuantityStep = (unit?: UnitOfMeasure) => (unit && UNIT_OF_MEASURE_FRACTIONAL[unit] ? '0.001' : '1');
+
+// Redondea a los 4 decimales con que se guardan las cantidades (evita residuos como 0,30000000000000004)
+export const roundQuantity = (quantity: number) => Math.round(quantity * 10000) / 10000;
+
+// Cantidad con su unidad, p. ej. "1,25 kg"
+export const formatQuantity = (quantity: number | string, unit?: UnitOfMeasure) => {
+  const value = Number(quantity).toLocaleString('es-CO', { maximumFractionDigits: 4 });
+  return unit ? `${value} ${UNIT_OF_MEASURE_SYMBOLS[unit]}` : value;
+};
 
 export interface CreateProductPayload {
   name: string;
@@ -11,13 +67,127 @@ export interface CreateProductPayload {
   price: number;
   cost: number;
   stock?: number;
+  taxCategory?: TaxCategory;
+  unit?: UnitOfMeasure;
+  purchaseUnit?: UnitOfMeasure | null;
+  unitsPerPurchaseUnit?: number;
+  categoryId?: string | null;
+  brandId?: string | null;
+  barcodes?: { code: string; type?: BarcodeType }[]; // Sin tipo, el backend lo detecta
+  trackLots?: boolean;
+  isKit?: boolean;
+  components?: { productId: string; quantity: number }[]; // Componentes del kit; reemplazan los anteriores
+  minStock?: number | null;
+  maxStock?: number | null;
+  reorderQuantity?: number | null;
+  preferredSupplierId?: string | null;
   isActive?: boolean;
 }
 
+export interface LabelRequestItem {
+  productId: string;
+  copies: number;
+}
+
 export type UpdateProductPayload = Partial<CreateProductPayload>;
 
-export const getProducts = async () => {
-  const response = await apiClient.get<Product[]>('/products');
+export type StockMovementType = 'SALE' | 'SALE_RETURN' | 'PURCHASE' | 'ADJUSTMENT' | 'COUNT_ADJUSTMENT' | 'TRANSFER';
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  SALE: 'Venta',
+  SALE_RETURN: 'Devolución',
+  PURCHASE: 'Compra',
+  ADJUSTMENT: 'Ajuste manual',
+  COUNT_ADJUSTMENT: 'Ajuste por conteo',
+  TRANSFER: 'Traslado'
+};
+
+// Movimiento del kardex: quantity es positiva en entradas y negativa en salidas
+export interface StockMovement {
+  id: string;
+  productId: string;
+  type: StockMovementType;
+  quantity: number | string;
+  unitCost: number | string;
+  balance: number | string;
+  notes?: string | null;
+  createdAt: string;
+  user?: { id: string; fullName: string } | null;
+  invoice?: { id: string; number: string } | null;
+  creditNote?: { id: string; number: string } | null;
+  purchase?: { id: string; number: string } | null;
+  inventoryCount?: { id: string; number: string } | null;
+  stockTransfer?: { id: string; number: string } | null;
+  location?: { id: string; name: string } | null;
+  lots?: Array<{ quantity: number | string; lot: { id: string; lotNumber: string; expiryDate?: string | null } }>;
+}
+
+export interface ProductKardex {
+  product: { id: string; name: string; sku?: string | null; stock: number | string; unit: UnitOfMeasure; cost: number | string };
+  openingBalance: number;
+  totalIn: number;
+  totalOut: number;
+  closingBalance: number;
+  movements: StockMovement[];
+}
+
+// Resultado de la importación masiva: qué se hará con cada fila del archivo y sus errores
+export interface ProductImportRow {
+  row: number;
+  sku: string | null;
+  name: string;
+  action: 'CREATE' | 'UPDATE';
+  errors: string[];
+}
+
+export interface ProductImportResult {
+  dryRun: boolean;
+  imported: boolean;
+  summary: { total: number; toCreate: number; toUpdate: number; withErrors: number };
+  rows: ProductImportRow[];
+}
+
+export interface ProductListParams {
+  locationId?: string;
+  onlyInStock?: boolean;
+  search?: string;
+  categoryId?: string;
+  brandId?: string;
+}
+
+// Con locationId, stock es la cantidad en esa bodega
+export const getProducts = async (params?: ProductListParams) => {
+  const response = await apiClient.get<Product[]>('/products', { params });
+  return response.data;
+};
+
+// Busca por código de barras o SKU (lectura con escáner); con locationId, stock es el de esa bodega
+export const lookupProductByCode = async (code: string, locationId?: string) => {
+  const response = await apiClient.get<Product>('/products/lookup', { params: { code, locationId } });
+  return response.data;
+};
+
+// Hoja PDF de etiquetas; los productos sin código de barras reciben un código interno
+export const printProductLabels = async (items: LabelRequestItem[]) => {
+  const response = await apiClient.post<Blob>('/products/labels', { items }, { responseType: 'blob' });
+  return response.data;
+};
+
+// El archivo (CSV o .xlsx) se envía tal cual; con dryRun solo se valida y se obtiene la vista previa
+export const importProducts = async (file: File, dryRun: boolean) => {
+  const response = await apiClient.post<ProductImportResult>('/products/import', file, {
+    params: { dryRun },
+    headers: { 'Content-Type': file.type || 'application/octet-stream' }
+  });
+  return response.data;
+};
+
+// Catálogo filtrado con las mismas columnas que acepta la importación
+export const exportProducts = async (params: ProductListParams, format: 'csv' | 'xlsx') => {
+  const response = await apiClient.get<Blob>('/products/export', {
+    params: { ...params, format },
+    responseType: 'blob'
+  });
   return response.data;
 };
 
@@ -31,8 +201,16 @@ export const updateProduct = async (id: string, data: UpdateProductPayload) => {
   return response.data;
 };
 
+// Un producto con movimientos de inventario no se elimina: el backend lo desactiva y lo indica en la respuesta
 export const deleteProduct = async (id: string) => {
-  await apiClient.delete(`/products/${id}`);
+  const response = await apiClient.delete<{ message: string; deactivated: boolean } | ''>(`/products/${id}`);
+  return response.data || null;
+};
+
+// Fechas opcionales en formato AAAA-MM-DD
+export const getProductKardex = async (id: string, params: { from?: string; to?: string } = {}) => {
+  const response = await apiClient.get<ProductKardex>(`/products/${id}/kardex`, { params });
+  return response.data;
 };
 
 
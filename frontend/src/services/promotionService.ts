@@ -0,0 +1,71 @@
+import apiClient from '../api/axios';
+
+// Tipo de promoción: porcentaje de descuento o "lleva X y recibe Y gratis" (2x1 es lleva 1 y recibe 1)
+export type PromotionType = 'PERCENTAGE' | 'BUY_X_GET_Y';
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  PERCENTAGE: '% de descuento',
+  BUY_X_GET_Y: 'Lleve X reciba Y'
+};
+
+export const DAY_OF_WEEK_LABELS = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+
+// Promoción programada; sin producto ni categoría aplica a todo el catálogo
+export interface Promotion {
+  id: string;
+  tenantId: string;
+  name: string;
+  type: PromotionType;
+  productId?: string | null;
+  categoryId?: string | null;
+  percentage?: number | string | null;
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  daysOfWeek: number[]; // 0 = domingo ... 6 = sábado; vacío es todos los días
+  startTime?: string | null; // HH:MM
+  endTime?: string | null;
+  isActive: boolean;
+  isRunning?: boolean; // Aplica en este momento
+  createdAt: string;
+  updatedAt: string;
+  product?: { id: string; name: string } | null;
+  category?: { id: string; name: string } | null;
+  _count?: { invoiceItems: number };
+}
+
+export interface PromotionPayload {
+  name?: string;
+  type?: PromotionType;
+  productId?: string | null;
+  categoryId?: string | null;
+  percentage?: number | null;
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  startDate?: string | null; // AAAA-MM-DD
+  endDate?: string | null;
+  daysOfWeek?: number[];
+  startTime?: string | null;
+  endTime?: string | null;
+  isActive?: boolean;
+}
+
+export const getPromotions = async (params?: { includeInactive?: boolean }) => {
+  const response = await apiClient.get<Promotion[]>('/promotions', { params });
+  return response.data;
+};
+
+export const createPromotion = async (data: PromotionPayload) => {
+  const response = await apiClient.post<Promotion>('/promotions', data);
+  return response.data;
+};
+
+export const updatePromotion = async (id: string, data: PromotionPayload) => {
+  const response = await apiClient.put<Promotion>(`/promotions/${id}`, data);
+  return response.data;
+};
+
+export const deletePromotion = async (id: string) => {
+  await apiClient.delete(`/promotions/${id}`);
+};
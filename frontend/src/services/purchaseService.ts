@@ -0,0 +1,75 @@
+import apiClient from '../api/axios';
+import type { UnitOfMeasure } from './productService';
+import type { Supplier } from './supplierService';
+
+export interface PurchaseItem {
+  id: string;
+  purchaseId: string;
+  productId: string;
+  description: string;
+  quantity: number | string;
+  unit: UnitOfMeasure;
+  conversionFactor: number | string; // Unidades de venta que entraron al stock por cada unidad de la línea
+  unitCost: number | string;
+  taxRate: number | string;
+  taxAmount: number | string;
+  totalAmount: number | string;
+  lotNumber?: string | null;
+  expiryDate?: string | null;
+  product?: { id: string; name: string; sku?: string | null };
+}
+
+export interface Purchase {
+  id: string;
+  tenantId: string;
+  supplierId: string;
+  number: string;
+  supplierReference?: string | null;
+  receivedAt: string;
+  locationId?: string | null;
+  subtotal: number | string;
+  taxTotal: number | string;
+  total: number | string;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  supplier: Pick<Supplier, 'id' | 'businessName' | 'documentType' | 'identification' | 'dv'>;
+  location?: { id: string; name: string } | null;
+  items?: PurchaseItem[];
+  _count?: { items: number };
+}
+
+// unitCost es el costo unitario antes de IVA en la unidad de la línea; taxRate es el IVA descontable (%)
+export interface CreatePurchaseItemPayload {
+  productId: string;
+  quantity: number;
+  unit?: UnitOfMeasure; // Unidad de venta o de compra del producto, por defecto la de venta
+  unitCost: number;
+  taxRate?: number;
+  lotNumber?: string | null; // Requerido si el producto maneja lotes
+  expiryDate?: string | null; // AAAA-MM-DD
+}
+
+export interface CreatePurchasePayload {
+  supplierId: string;
+  supplierReference?: string | null;
+  receivedAt?: string;
+  locationId?: string | null; // Bodega que recibe la mercancía, por defecto la bodega por defecto
+  notes?: string | null;
+  items: CreatePurchaseItemPayload[];
+}
+
+export const getPurchases = async (params?: { supplierId?: string; locationId?: string; from?: string; to?: string }) => {
+  const response = await apiClient.get<Purchase[]>('/purchases', { params });
+  return response.data;
+};
+
+export const getPurchaseById = async (id: string) => {
+  const response = await apiClient.get<Purchase>(`/purchases/${id}`);
+  return response.data;
+};
+
+export const createPurchase = async (data: CreatePurchasePayload) => {
+  const response = await apiClient.post<Purchase>('/purchases', data);
+  return response.data;
+};
@@ -1,10 +1,11 @@
 import apiClient from '../api/axios';
+import type { UnitOfMeasure } from './productService';
 
 export interface DashboardSummary {
   totalClients: number;
   totalProducts: number;
   inventoryValue: number; // Valor del inventario (stock * cost)
-  lowStockProducts: number; // Productos con stock <= 5
+  lowStockProducts: number; // Productos en su stock mínimo o por debajo
   totalInvoices: number;
 }
 
@@ -46,6 +47,183 @@ export interface TopSellingProduct {
   totalRevenue: number; // Ingresos totales (suma de totalAmount)
 }
 
+export interface AgingBuckets {
+  current: number; // Aún no vencido
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+}
+
+export interface ClientReceivablesAging extends AgingBuckets {
+  clientId: string | null;
+  clientName: string;
+  phone: string | null;
+  invoiceCount: number;
+  maxDaysPastDue: number; // Días de vencimiento de la factura más atrasada
+}
+
+export interface ReceivablesAgingReport {
+  asOf: string;
+  totals: AgingBuckets;
+  clients: ClientReceivablesAging[];
+}
+
+export interface SupplierPayablesAging extends AgingBuckets {
+  supplierId: string;
+  supplierName: string;
+  phone: string | null;
+  billCount: number;
+  maxDaysPastDue: number; // Días de vencimiento de la factura más atrasada
+}
+
+export interface PayablesAgingReport {
+  asOf: string;
+  totals: AgingBuckets;
+  suppliers: SupplierPayablesAging[];
+}
+
+// Costo de ventas y margen bruto (venta neta antes de IVA y descontando notas crédito)
+export interface MarginFigures {
+  revenue: number;
+  cost: number;
+  grossProfit: number;
+  marginPercent: number;
+  discounts: number; // Promociones y descuentos concedidos (ya descontados de revenue)
+}
+
+export interface ProductMargin extends MarginFigures {
+  productId: string | null;
+  productName: string;
+  quantity: number;
+}
+
+export interface CategoryMargin extends MarginFigures {
+  categoryId: string | null; // null agrupa los productos sin categoría
+  categoryName: string; // Ruta completa, p. ej. "Bebidas > Gaseosas"
+  quantity: number;
+}
+
+export interface InvoiceMargin extends MarginFigures {
+  invoiceId: string;
+  number: string;
+  issueDate: string;
+}
+
+export interface PeriodMargin extends MarginFigures {
+  period: string;
+}
+
+// Descuento concedido por cada promoción en el período
+export interface PromotionDiscount {
+  promotionId: string;
+  promotionName: string;
+  lines: number;
+  discounts: number;
+}
+
+export interface GrossMarginReport {
+  from: string;
+  to: string;
+  groupBy: 'day' | 'month';
+  totals: MarginFigures;
+  byPeriod: PeriodMargin[];
+  byProduct: ProductMargin[];
+  byCategory: CategoryMargin[];
+  byInvoice: InvoiceMargin[];
+  byPromotion: PromotionDiscount[];
+}
+
+// Lote con existencias vencido o por vencer; daysToExpiry es negativo si ya venció
+export interface ExpiringLot {
+  id: string;
+  lotNumber: string;
+  expiryDate: string;
+  quantity: number;
+  value: number; // Existencias del lote al costo actual del producto
+  daysToExpiry: number;
+  isExpired: boolean;
+  product: { id: string; name: string; sku?: string | null; unit: UnitOfMeasure };
+  location: { id: string; name: string };
+}
+
+export interface ExpiringLotsReport {
+  days: number;
+  from: string;
+  to: string;
+  expiredCount: number;
+  expiringCount: number;
+  totalValue: number;
+  lots: ExpiringLot[];
+}
+
+// Producto en su punto de reorden con la cantidad sugerida (en unidad de venta y de compra)
+export interface ReorderSuggestion {
+  productId: string;
+  name: string;
+  sku: string | null;
+  unit: UnitOfMeasure;
+  stock: number;
+  reorderPoint: number;
+  maxStock: number | null;
+  reorderQuantity: number | null;
+  soldQuantity: number;
+  dailySales: number;
+  daysOfStock: number | null;
+  suggestedQuantity: number;
+  purchaseUnit: UnitOfMeasure | null;
+  purchaseQuantity: number | null;
+  unitCost: number;
+  estimatedCost: number;
+  supplierSource: 'PREFERRED' | 'LAST_PURCHASE' | null;
+}
+
+export interface ReorderSuggestionsReport {
+  from: string;
+  to: string;
+  salesWindowDays: number;
+  coverageDays: number;
+  totalItems: number;
+  estimatedTotal: number;
+  groups: Array<{
+    supplier: { id: string; businessName: string } | null;
+    items: ReorderSuggestion[];
+    estimatedTotal: number;
+  }>;
+}
+
+export interface ReorderSuggestionsParams {
+  days?: number;
+  coverageDays?: number;
+  supplierId?: string;
+}
+
+// Estado de la resolución DIAN activa (alertas por consecutivos o días restantes)
+export interface ResolutionStatusReport {
+  resolution: {
+    id: string;
+    resolutionNumber: string;
+    prefix: string;
+    rangeFrom: number;
+    rangeTo: number;
+    nextNumber: number;
+    validFrom: string;
+    validTo: string;
+    status: {
+      remainingNumbers: number;
+      remainingDays: number;
+      isExhausted: boolean;
+      isExpired: boolean;
+    };
+  } | null;
+  warnings: string[];
+  thresholds: {
+    remainingNumbers: number;
+    remainingDays: number;
+  };
+}
+
 /**
  * Obtiene el resumen del dashboard
  */
@@ -86,3 +264,62 @@ export const getTopSellingProducts = async (): Promise<TopSellingProduct[]> => {
   return response.data;
 };
 
+
+/**
+ * Obtiene la cartera por edades (cuentas por cobrar de ventas a crédito)
+ */
+export const getReceivablesAging = async (): Promise<ReceivablesAgingReport> => {
+  const response = await apiClient.get<ReceivablesAgingReport>('/reports/receivables-aging');
+  return response.data;
+};
+
+/**
+ * Obtiene las cuentas por pagar por edades (facturas de proveedores abiertas)
+ */
+export const getPayablesAging = async (): Promise<PayablesAgingReport> => {
+  const response = await apiClient.get<PayablesAgingReport>('/reports/payables-aging');
+  return response.data;
+};
+
+/**
+ * Obtiene el costo de ventas y el margen bruto de un período (por defecto el mes en curso)
+ */
+export const getGrossMargin = async (params?: { from?: string; to?: string; groupBy?: 'day' | 'month' }): Promise<GrossMarginReport> => {
+  const response = await apiClient.get<GrossMarginReport>('/reports/gross-margin', { params });
+  return response.data;
+};
+
+/**
+ * Obtiene el estado de la resolución de facturación DIAN activa y sus alertas
+ */
+export const getResolutionStatus = async (): Promise<ResolutionStatusReport> => {
+  const response = await apiClient.get<ResolutionStatusReport>('/reports/resolution-status');
+  return response.data;
+};
+
+/**
+ * Obtiene los lotes vencidos y los que vencen en los próximos días (por defecto 30)
+ */
+export const getExpiringLots = async (days?: number): Promise<ExpiringLotsReport> => {
+  const response = await apiClient.get<ExpiringLotsReport>('/reports/expiring-lots', { params: { days } });
+  return response.data;
+};
+
+/**
+ * Obtiene el sugerido de compra: productos en su punto de reorden agrupados por proveedor
+ */
+export const getReorderSuggestions = async (params?: ReorderSuggestionsParams): Promise<ReorderSuggestionsReport> => {
+  const response = await apiClient.get<ReorderSuggestionsReport>('/reports/reorder-suggestions', { params });
+  return response.data;
+};
+
+/**
+ * Descarga el sugerido de compra como CSV
+ */
+export const exportReorderSuggestions = async (params?: ReorderSuggestionsParams) => {
+  const response = await apiClient.get<Blob>('/reports/reorder-suggestions', {
+    params: { ...params, format: 'csv' },
+    responseType: 'blob'
+  });
+  return response.data;
+};
@@ -0,0 +1,61 @@
+import apiClient from '../api/axios';
+
+// Estado calculado de una resolución (consecutivos y días restantes)
+export interface ResolutionStatus {
+  remainingNumbers: number;
+  remainingDays: number;
+  isExhausted: boolean;
+  isExpired: boolean;
+  isNotYetValid: boolean;
+  warnings: string[];
+}
+
+export interface DianResolution {
+  id: string;
+  tenantId: string;
+  resolutionNumber: string;
+  prefix: string;
+  rangeFrom: number;
+  rangeTo: number;
+  nextNumber: number;
+  validFrom: string;
+  validTo: string;
+  technicalKey: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  status: ResolutionStatus;
+}
+
+// Las fechas de vigencia se envían como AAAA-MM-DD
+export interface CreateResolutionPayload {
+  resolutionNumber: string;
+  prefix: string;
+  rangeFrom: number;
+  rangeTo: number;
+  validFrom: string;
+  validTo: string;
+  technicalKey: string;
+  isActive?: boolean;
+}
+
+export type UpdateResolutionPayload = Partial<CreateResolutionPayload>;
+
+export const getResolutions = async () => {
+  const response = await apiClient.get<DianResolution[]>('/resolutions');
+  return response.data;
+};
+
+export const createResolution = async (data: CreateResolutionPayload) => {
+  const response = await apiClient.post<DianResolution>('/resolutions', data);
+  return response.data;
+};
+
+export const updateResolution = async (id: string, data: UpdateResolutionPayload) => {
+  const response = await apiClient.put<DianResolution>(`/resolutions/${id}`, data);
+  return response.data;
+};
+
+export const deleteResolution = async (id: string) => {
+  await apiClient.delete(`/resolutions/${id}`);
+};
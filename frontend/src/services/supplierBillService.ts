@@ -0,0 +1,83 @@
+import apiClient from '../api/axios';
+
+export type SupplierBillStatus = 'OPEN' | 'PAID';
+
+// Medios con los que se paga a un proveedor
+export type SupplierPaymentMethod = 'CASH' | 'TRANSFER';
+
+export interface SupplierPayment {
+  id: string;
+  supplierBillId: string;
+  amount: number | string;
+  method: SupplierPaymentMethod;
+  paymentDate: string;
+  reference?: string | null;
+  notes?: string | null;
+  createdAt: string;
+  createdBy?: { id: string; fullName: string } | null;
+}
+
+export interface SupplierBill {
+  id: string;
+  tenantId: string;
+  supplierId: string;
+  purchaseId?: string | null;
+  billNumber: string;
+  issueDate: string;
+  dueDate: string;
+  subtotal: number | string;
+  taxTotal: number | string;
+  total: number | string;
+  totalPaid: number | string;
+  balance: number | string;
+  status: SupplierBillStatus;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  supplier: { id: string; businessName: string };
+  purchase?: { id: string; number: string } | null;
+  payments?: SupplierPayment[];
+}
+
+// Con purchaseId, la base y el IVA se toman de la compra si no se envían
+export interface CreateSupplierBillPayload {
+  supplierId: string;
+  purchaseId?: string | null;
+  billNumber: string;
+  issueDate?: string;
+  dueDate?: string;
+  subtotal?: number;
+  taxTotal?: number;
+  notes?: string | null;
+}
+
+export interface CreateSupplierPaymentPayload {
+  amount: number;
+  method: SupplierPaymentMethod;
+  paymentDate?: string;
+  reference?: string | null;
+  notes?: string | null;
+}
+
+export const getSupplierBills = async (params?: { supplierId?: string; status?: SupplierBillStatus }) => {
+  const response = await apiClient.get<SupplierBill[]>('/supplier-bills', { params });
+  return response.data;
+};
+
+export const getSupplierBillById = async (id: string) => {
+  const response = await apiClient.get<SupplierBill>(`/supplier-bills/${id}`);
+  return response.data;
+};
+
+export const createSupplierBill = async (data: CreateSupplierBillPayload) => {
+  const response = await apiClient.post<SupplierBill>('/supplier-bills', data);
+  return response.data;
+};
+
+export const registerSupplierPayment = async (id: string, data: CreateSupplierPaymentPayload) => {
+  const response = await apiClient.post<{ payment: SupplierPayment; supplierBill: SupplierBill }>(
+    `/supplier-bills/${id}/payments`,
+    data
+  );
+  return response.data;
+};
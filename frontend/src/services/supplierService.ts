@@ -0,0 +1,58 @@
+import apiClient from '../api/axios';
+
+export type SupplierDocumentType = 'NIT' | 'CC' | 'PASSPORT';
+
+export interface Supplier {
+  id: string;
+  tenantId: string;
+  businessName: string;
+  documentType: SupplierDocumentType;
+  identification: string;
+  dv?: string | null;
+  contactName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  paymentTermDays: number;
+  currentBalance: number | string; // Saldo por pagar al proveedor
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Para NIT el backend calcula el dígito de verificación si no se envía
+export interface CreateSupplierPayload {
+  businessName: string;
+  documentType?: SupplierDocumentType;
+  identification: string;
+  dv?: string | null;
+  contactName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  paymentTermDays?: number;
+  isActive?: boolean;
+}
+
+export type UpdateSupplierPayload = Partial<CreateSupplierPayload>;
+
+export const getSuppliers = async (includeInactive = false) => {
+  const response = await apiClient.get<Supplier[]>('/suppliers', {
+    params: includeInactive ? { includeInactive: 'true' } : undefined
+  });
+  return response.data;
+};
+
+export const createSupplier = async (data: CreateSupplierPayload) => {
+  const response = await apiClient.post<Supplier>('/suppliers', data);
+  return response.data;
+};
+
+export const updateSupplier = async (id: string, data: UpdateSupplierPayload) => {
+  const response = await apiClient.put<Supplier>(`/suppliers/${id}`, data);
+  return response.data;
+};
+
+export const deleteSupplier = async (id: string) => {
+  await apiClient.delete(`/suppliers/${id}`);
+};
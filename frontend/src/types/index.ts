@@ -2,6 +2,22 @@
  * Definición de tipos e interfaces compartidas del frontend
  */
 
+// Categoría tributaria de IVA del producto
+// STANDARD: 19%, REDUCED: 5%, EXEMPT: exento (0%), EXCLUDED: excluido (sin IVA)
+export type TaxCategory = 'STANDARD' | 'REDUCED' | 'EXEMPT' | 'EXCLUDED';
+
+// Unidad de medida del producto: UNIT y BOX solo admiten cantidades enteras
+export type UnitOfMeasure = 'UNIT' | 'KG' | 'G' | 'L' | 'M' | 'BOX';
+
+// Tipo de código de barras: INTERNAL son los códigos generados por el sistema para las etiquetas
+export type BarcodeType = 'EAN13' | 'UPC' | 'INTERNAL' | 'OTHER';
+
+export interface ProductBarcode {
+  id: string;
+  code: string;
+  type: BarcodeType;
+}
+
 export interface Product {
   id: string;
   tenantId: string;
@@ -10,11 +26,44 @@ export interface Product {
   description?: string | null;
   price: number | string;
   cost: number | string;
-  stock: number;
+  stock: number | string; // Decimal: admite fracciones en unidades como kg o L
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
   isSynced?: boolean;
-  defaultTaxRate: number;
+  taxCategory: TaxCategory;
+  unit: UnitOfMeasure; // Unidad de venta y de stock
+  purchaseUnit?: UnitOfMeasure | null; // Unidad de compra, si es distinta a la de venta
+  unitsPerPurchaseUnit?: number | string; // Unidades de venta por unidad de compra
+  categoryId?: string | null;
+  brandId?: string | null;
+  category?: { id: string; name: string } | null;
+  brand?: { id: string; name: string } | null;
+  barcodes?: ProductBarcode[];
+  trackLots?: boolean; // Lleva lote y fecha de vencimiento de sus existencias
+  isKit?: boolean; // Kit (canasta, combo): su stock es el que permiten sus componentes y su costo es el de ellos
+  kitComponents?: ProductKitComponent[];
+  minStock?: number | string | null; // Punto de reorden; sin valor aplica el umbral general
+  maxStock?: number | string | null;
+  reorderQuantity?: number | string | null; // Múltiplo en que se compra
+  preferredSupplierId?: string | null;
+  preferredSupplier?: { id: string; businessName: string } | null;
+  totalStock?: number; // Total en todas las bodegas (stock es el de la bodega filtrada)
+  stockByLocation?: ProductLocationStock[];
+}
+
+// Componente de un kit: cantidad del producto por cada unidad del kit
+export interface ProductKitComponent {
+  id: string;
+  componentId: string;
+  quantity: number | string;
+  component: { id: string; name: string; sku?: string | null; unit: UnitOfMeasure; cost: number | string; stock: number | string };
+}
+
+// Existencias de un producto en una bodega
+export interface ProductLocationStock {
+  locationId: string;
+  locationName: string;
+  quantity: number;
 }
 